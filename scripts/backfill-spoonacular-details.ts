@@ -22,6 +22,7 @@ import { getCollection } from '@/lib/db';
 import type { Recipe } from '@/types/recipe';
 import type { Filter } from 'mongodb';
 import { getSpoonacularRecipe } from '@/services/spoonacularService';
+import { invalidateRecipeSearchIndex } from '@/services/recipeSearchService.server';
 
 // Konfiguration
 const BATCH_SIZE = parseInt(process.env.BACKFILL_BATCH_SIZE || '50', 10); // Anzahl an Rezepten pro Durchlauf
@@ -179,6 +180,7 @@ async function main() {
         if (msg.includes('status: 402') || msg.includes('daily points limit')) {
           console.warn('🚦 Quota erreicht (402). Backfill wird für heute beendet.');
           console.log(`Fortschritt: verarbeitet=${processed}, aktualisiert=${updated}`);
+          if (updated > 0) await invalidateRecipeSearchIndex();
           console.log('Bitte morgen erneut starten.');
           console.log();
           console.log('Tipp: BACKFILL_BATCH_SIZE verkleinern und BACKFILL_SLEEP_MS erhöhen.');
@@ -193,6 +195,9 @@ async function main() {
     console.log(`Fortschritt: verarbeitet=${processed}, aktualisiert=${updated}`);
   }
 
+  // Die Suche baut ihren Index mit den ergänzten Feldern im Hintergrund neu auf
+  if (updated > 0) await invalidateRecipeSearchIndex();
+
   console.log(`Backfill abgeschlossen. Verarbeitet=${processed}, Aktualisiert=${updated}`);
   process.exit(0);
 }
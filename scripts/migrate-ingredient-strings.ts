@@ -0,0 +1,101 @@
+/**
+ * Migrations-Skript: Zutaten als Text → strukturierte Zutaten
+ *
+ * Zweck: Ältere Rezepte speichern Zutaten teilweise als einfache Zeilen
+ * ("2 ½ cups flour, sifted"). Dieses Skript zerlegt solche Zeilen mit dem
+ * Zutaten-Parser in { id, name, amount, unit, notes } – in den Collections
+ * `recipes` und `userRecipes`.
+ *
+ * Vorgehen pro Rezept:
+ * - Zutaten, die bereits Objekte sind, bleiben unverändert
+ * - Text-Zutaten werden geparst; Bereiche ("2-3") und Zubereitung landen in notes
+ * - Leere Zeilen und Überschriften ("Für den Teig:") werden entfernt
+ * - Der Eintrag im Suchindex wird gleich mit aktualisiert
+ *
+ * Sicherheiten:
+ * - Rezepte ohne Text-Zutaten werden nicht angefasst
+ * - MIGRATE_DRY_RUN=true zeigt nur an, was geändert würde
+ */
+
+import { getCollection, COLLECTIONS } from '@/lib/db';
+import { syncRecipeSearchEntry } from '@/services/recipeSearchService.server';
+import { parseIngredientLines, toIngredientRecord } from '@/utils/ingredientParser';
+import { ObjectId, type Document, type Filter } from 'mongodb';
+
+// Konfiguration
+const DRY_RUN = process.env.MIGRATE_DRY_RUN === 'true';
+
+interface LegacyRecipe extends Document {
+  title?: string;
+  ingredients?: unknown[];
+}
+
+// Wandelt die Text-Zutaten eines Rezepts um, Objekte bleiben erhalten
+function normalizeIngredients(ingredients: unknown[]): unknown[] {
+  return ingredients.flatMap(ingredient => {
+    if (typeof ingredient !== 'string') return [ingredient];
+    return parseIngredientLines(ingredient).map(parsed => ({
+      id: new ObjectId().toHexString(),
+      ...toIngredientRecord(parsed),
+    }));
+  });
+}
+
+async function migrateCollection(name: string) {
+  const collection = await getCollection<LegacyRecipe>(name);
+
+  // Alle Rezepte mit mindestens einer Zutat als Text
+  const query = ({ ingredients: { $elemMatch: { $type: 'string' } } } as unknown) as Filter<LegacyRecipe>;
+
+  let processed = 0;
+  let updated = 0;
+  let skipped = 0;
+
+  const cursor = collection.find(query);
+
+  while (await cursor.hasNext()) {
+    const recipe = await cursor.next();
+    if (!recipe) break;
+    processed++;
+
+    if (!Array.isArray(recipe.ingredients)) {
+      skipped++;
+      console.warn(`⚠️ Rezept ${recipe._id} ("${recipe.title}") hat keine Zutatenliste – übersprungen.`);
+      continue;
+    }
+
+    const ingredients = normalizeIngredients(recipe.ingredients);
+
+    if (DRY_RUN) {
+      console.log(`🔎 ${name} ${recipe._id} ("${recipe.title}"):`);
+      ingredients.forEach(ingredient => console.log(`   ${JSON.stringify(ingredient)}`));
+      continue;
+    }
+
+    const res = await collection.updateOne(
+      { _id: recipe._id } as Filter<LegacyRecipe>,
+      { $set: { ingredients, updatedAt: new Date() } }
+    );
+
+    if (res.modifiedCount > 0) {
+      updated++;
+      await syncRecipeSearchEntry(name, recipe._id);
+    }
+  }
+
+  console.log(`${name}: Verarbeitet=${processed}, Aktualisiert=${updated}, Übersprungen=${skipped}${DRY_RUN ? ' (Dry Run)' : ''}`);
+}
+
+async function main() {
+  for (const name of [COLLECTIONS.RECIPES, COLLECTIONS.USER_RECIPES]) {
+    await migrateCollection(name);
+  }
+
+  console.log('Migration abgeschlossen.');
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error('Migration fehlgeschlagen:', e);
+  process.exit(1);
+});
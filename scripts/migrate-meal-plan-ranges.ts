@@ -0,0 +1,103 @@
+/**
+ * Migrations-Skript: Wochenpläne → Datumsbereiche
+ *
+ * Zweck: Meal Plans werden nicht mehr über `weekStartDate`/`weekEndDate`
+ * (immer Montag bis Sonntag) gespeichert, sondern über einen beliebigen
+ * Bereich `startDate`/`endDate` (inklusive). Dieses Skript stellt bestehende
+ * Pläne in der Collection `mealplans` um.
+ *
+ * Vorgehen pro Plan:
+ * - startDate = weekStartDate (bzw. Datum des ersten Tages)
+ * - endDate = Datum des letzten Tages (bzw. weekEndDate)
+ * - weekStartDate und weekEndDate werden entfernt
+ *
+ * Sicherheiten:
+ * - Bereits migrierte Pläne (mit startDate und ohne weekStartDate) werden übersprungen
+ * - MIGRATE_DRY_RUN=true zeigt nur an, was geändert würde
+ */
+
+import { getCollection, COLLECTIONS } from '@/lib/db';
+import type { Document, Filter } from 'mongodb';
+
+// Konfiguration
+const DRY_RUN = process.env.MIGRATE_DRY_RUN === 'true';
+
+interface LegacyMealPlan extends Document {
+  title?: string;
+  startDate?: Date;
+  endDate?: Date;
+  weekStartDate?: Date;
+  weekEndDate?: Date;
+  days?: { date?: Date }[];
+}
+
+// Bestimmt den Bereich eines Plans aus den alten Feldern und den Tagen
+function resolveRange(plan: LegacyMealPlan): { startDate: Date; endDate: Date } | null {
+  const days = Array.isArray(plan.days) ? plan.days : [];
+  const firstDay = days[0]?.date;
+  const lastDay = days[days.length - 1]?.date;
+
+  const startDate = plan.startDate || plan.weekStartDate || firstDay;
+  const endDate = plan.endDate || lastDay || plan.weekEndDate;
+  if (!startDate || !endDate) return null;
+
+  return { startDate: new Date(startDate), endDate: new Date(endDate) };
+}
+
+async function main() {
+  const collection = await getCollection<LegacyMealPlan>(COLLECTIONS.MEAL_PLANS);
+
+  // Alle Pläne, die noch alte Felder haben oder keinen Bereich
+  const query = ({
+    $or: [
+      { weekStartDate: { $exists: true } },
+      { weekEndDate: { $exists: true } },
+      { startDate: { $exists: false } },
+      { endDate: { $exists: false } },
+    ],
+  } as unknown) as Filter<LegacyMealPlan>;
+
+  let processed = 0;
+  let updated = 0;
+  let skipped = 0;
+
+  const cursor = collection.find(query);
+
+  while (await cursor.hasNext()) {
+    const plan = await cursor.next();
+    if (!plan) break;
+    processed++;
+
+    const range = resolveRange(plan);
+    if (!range) {
+      skipped++;
+      console.warn(`⚠️ Plan ${plan._id} ("${plan.title}") hat kein Datum – übersprungen.`);
+      continue;
+    }
+
+    if (DRY_RUN) {
+      console.log(`🔎 Plan ${plan._id}: ${range.startDate.toDateString()} – ${range.endDate.toDateString()}`);
+      continue;
+    }
+
+    const res = await collection.updateOne(
+      { _id: plan._id } as Filter<LegacyMealPlan>,
+      {
+        $set: { startDate: range.startDate, endDate: range.endDate },
+        $unset: { weekStartDate: '', weekEndDate: '' },
+      }
+    );
+
+    if (res.modifiedCount > 0) {
+      updated++;
+    }
+  }
+
+  console.log(`Migration abgeschlossen. Verarbeitet=${processed}, Aktualisiert=${updated}, Übersprungen=${skipped}${DRY_RUN ? ' (Dry Run)' : ''}`);
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error('Migration fehlgeschlagen:', e);
+  process.exit(1);
+});
@@ -0,0 +1,27 @@
+/**
+ * Wartungs-Skript: Rezept-Suchindex neu aufbauen
+ *
+ * Zweck: Baut den Suchindex `recipesearch` aus `spoonacular_recipes`, `recipes`
+ * und `userRecipes` komplett neu auf und aktualisiert die Statistiken in
+ * `recipesearchstate`. Gedacht für einen Cronjob oder nach Importen und
+ * Migrationen; die Suche selbst baut den Index sonst im Hintergrund neu auf.
+ *
+ * Sicherheiten:
+ * - Läuft bereits ein Neuaufbau (auch auf einer anderen Instanz), bricht das Skript ab
+ * - Einträge, die während des Neuaufbaus gespeichert werden, bleiben erhalten
+ */
+
+import { rebuildRecipeSearchIndex } from '@/services/recipeSearchService.server';
+
+async function main() {
+  const startedAt = Date.now();
+  const state = await rebuildRecipeSearchIndex();
+
+  console.log(`Neuaufbau abgeschlossen. Rezepte=${state.documentCount}, Dauer=${Math.round((Date.now() - startedAt) / 1000)}s`);
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error('Neuaufbau fehlgeschlagen:', e);
+  process.exit(1);
+});
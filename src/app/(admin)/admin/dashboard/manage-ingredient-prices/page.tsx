@@ -0,0 +1,266 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/context/authContext';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Pencil, Trash2, Save, X } from 'lucide-react';
+
+interface IngredientPrice {
+  _id: string;
+  name: string;
+  unit: string;
+  price: number;
+  storePrices: Record<string, number>;
+}
+
+interface PriceForm {
+  name: string;
+  unit: string;
+  price: string;
+  storePrices: string; // "Aldi=1.29, Lidl=1.35"
+}
+
+const EMPTY_FORM: PriceForm = { name: '', unit: 'kg', price: '', storePrices: '' };
+
+/**
+ * Formats store prices for the text input
+ */
+function formatStorePrices(storePrices: Record<string, number>): string {
+  return Object.entries(storePrices).map(([store, price]) => `${store}=${price}`).join(', ');
+}
+
+/**
+ * Parses "Aldi=1.29, Lidl=1.35" into a store → price map
+ * @returns The map, or null if an entry is malformed
+ */
+function parseStorePrices(value: string): Record<string, number> | null {
+  const storePrices: Record<string, number> = {};
+  for (const part of value.split(',').map(entry => entry.trim()).filter(Boolean)) {
+    const [store, price] = part.split('=').map(entry => entry.trim());
+    const amount = parseFloat(price);
+    if (!store || isNaN(amount) || amount < 0) return null;
+    storePrices[store] = amount;
+  }
+  return storePrices;
+}
+
+export default function ManageIngredientPricesPage() {
+  const { user, status } = useAuth();
+  const loading = status === 'loading';
+
+  const [prices, setPrices] = useState<IngredientPrice[]>([]);
+  const [currency, setCurrency] = useState('EUR');
+  const [form, setForm] = useState<PriceForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editForm, setEditForm] = useState<PriceForm>(EMPTY_FORM);
+  const [search, setSearch] = useState('');
+  const [message, setMessage] = useState<string>('');
+
+  useEffect(() => {
+    if (!loading && (!user || user.role !== 'admin')) {
+      window.location.href = '/';
+    }
+  }, [user, loading]);
+
+  const fetchPrices = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/ingredient-prices');
+      if (response.ok) {
+        const data = await response.json();
+        setPrices(data.prices || []);
+        setCurrency(data.currency || 'EUR');
+      } else {
+        setMessage('Error loading prices');
+      }
+    } catch (error) {
+      console.error('Error loading ingredient prices:', error);
+      setMessage('Error loading prices');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user?.role === 'admin') fetchPrices();
+  }, [user, fetchPrices]);
+
+  /**
+   * Turns a form into the request body, or sets an error message
+   */
+  const toRequestBody = (priceForm: PriceForm) => {
+    const price = parseFloat(priceForm.price);
+    const storePrices = parseStorePrices(priceForm.storePrices);
+    if (!priceForm.name.trim() || isNaN(price) || price < 0) {
+      setMessage('Please enter a name and a price');
+      return null;
+    }
+    if (!storePrices) {
+      setMessage('Store prices must look like "Aldi=1.29, Lidl=1.35"');
+      return null;
+    }
+    return { name: priceForm.name, unit: priceForm.unit, price, storePrices };
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const body = toRequestBody(form);
+    if (!body) return;
+
+    const response = await fetch('/api/admin/ingredient-prices', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    if (response.ok) {
+      setForm(EMPTY_FORM);
+      setMessage(`Added ${body.name}`);
+      fetchPrices();
+    } else {
+      const data = await response.json();
+      setMessage(data.error || 'Error adding price');
+    }
+  };
+
+  const handleStartEdit = (price: IngredientPrice) => {
+    setEditingId(price._id);
+    setEditForm({
+      name: price.name,
+      unit: price.unit,
+      price: String(price.price),
+      storePrices: formatStorePrices(price.storePrices || {}),
+    });
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editingId) return;
+    const body = toRequestBody(editForm);
+    if (!body) return;
+
+    const response = await fetch(`/api/admin/ingredient-prices/${editingId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    if (response.ok) {
+      setEditingId(null);
+      setMessage(`Saved ${body.name}`);
+      fetchPrices();
+    } else {
+      const data = await response.json();
+      setMessage(data.error || 'Error saving price');
+    }
+  };
+
+  const handleDelete = async (price: IngredientPrice) => {
+    if (!confirm(`Remove the price for "${price.name}"?`)) return;
+    const response = await fetch(`/api/admin/ingredient-prices/${price._id}`, { method: 'DELETE' });
+    if (response.ok) {
+      setPrices(prev => prev.filter(entry => entry._id !== price._id));
+    } else {
+      setMessage('Error deleting price');
+    }
+  };
+
+  if (loading || !user || user.role !== 'admin') {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-orange-50 via-white to-green-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-500 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading Prices...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const filteredPrices = prices.filter(price => price.name.toLowerCase().includes(search.toLowerCase()));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-orange-50 via-white to-green-50 py-8">
+      <div className="max-w-5xl mx-auto px-4">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Ingredient Prices</h1>
+          <p className="text-gray-600">
+            Prices per unit ({currency}) used to estimate grocery list and meal plan costs.
+            Store prices are matched against the stores users pick in their shopping preferences.
+          </p>
+        </div>
+
+        {message && (
+          <div className="mb-6 p-4 rounded-lg bg-green-50 text-green-800 border border-green-200">
+            {message}
+          </div>
+        )}
+
+        <Card className="p-6 mb-6">
+          <h3 className="text-lg font-semibold mb-4">Add Price</h3>
+          <form onSubmit={handleAdd} className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <div>
+              <Label htmlFor="price-name" className="text-sm font-medium">Ingredient</Label>
+              <Input id="price-name" value={form.name} onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))} placeholder="onion" className="mt-1" />
+            </div>
+            <div>
+              <Label htmlFor="price-unit" className="text-sm font-medium">Unit (empty = piece)</Label>
+              <Input id="price-unit" value={form.unit} onChange={(e) => setForm(prev => ({ ...prev, unit: e.target.value }))} placeholder="kg" className="mt-1" />
+            </div>
+            <div>
+              <Label htmlFor="price-default" className="text-sm font-medium">Default Price</Label>
+              <Input id="price-default" type="number" min="0" step="0.01" value={form.price} onChange={(e) => setForm(prev => ({ ...prev, price: e.target.value }))} className="mt-1" />
+            </div>
+            <div>
+              <Label htmlFor="price-stores" className="text-sm font-medium">Store Prices</Label>
+              <Input id="price-stores" value={form.storePrices} onChange={(e) => setForm(prev => ({ ...prev, storePrices: e.target.value }))} placeholder="Aldi=1.29, Lidl=1.35" className="mt-1" />
+            </div>
+            <Button type="submit">Add</Button>
+          </form>
+        </Card>
+
+        <Card className="p-6">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-4">
+            <h3 className="text-lg font-semibold">Catalogue ({prices.length})</h3>
+            <Input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search ingredients..." className="max-w-xs" />
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2 pr-4">Ingredient</th>
+                  <th className="py-2 pr-4">Unit</th>
+                  <th className="py-2 pr-4">Default</th>
+                  <th className="py-2 pr-4">Store Prices</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredPrices.map(price => editingId === price._id ? (
+                  <tr key={price._id} className="border-b">
+                    <td className="py-2 pr-4"><Input value={editForm.name} onChange={(e) => setEditForm(prev => ({ ...prev, name: e.target.value }))} /></td>
+                    <td className="py-2 pr-4"><Input value={editForm.unit} onChange={(e) => setEditForm(prev => ({ ...prev, unit: e.target.value }))} className="w-20" /></td>
+                    <td className="py-2 pr-4"><Input type="number" min="0" step="0.01" value={editForm.price} onChange={(e) => setEditForm(prev => ({ ...prev, price: e.target.value }))} className="w-24" /></td>
+                    <td className="py-2 pr-4"><Input value={editForm.storePrices} onChange={(e) => setEditForm(prev => ({ ...prev, storePrices: e.target.value }))} /></td>
+                    <td className="py-2 whitespace-nowrap">
+                      <Button size="sm" variant="ghost" onClick={handleSaveEdit} title="Save"><Save className="h-4 w-4" /></Button>
+                      <Button size="sm" variant="ghost" onClick={() => setEditingId(null)} title="Cancel"><X className="h-4 w-4" /></Button>
+                    </td>
+                  </tr>
+                ) : (
+                  <tr key={price._id} className="border-b">
+                    <td className="py-2 pr-4 font-medium">{price.name}</td>
+                    <td className="py-2 pr-4">{price.unit || 'piece'}</td>
+                    <td className="py-2 pr-4">{price.price.toFixed(2)}</td>
+                    <td className="py-2 pr-4 text-gray-600">{formatStorePrices(price.storePrices || {}) || '—'}</td>
+                    <td className="py-2 whitespace-nowrap">
+                      <Button size="sm" variant="ghost" onClick={() => handleStartEdit(price)} title="Edit"><Pencil className="h-4 w-4" /></Button>
+                      <Button size="sm" variant="ghost" onClick={() => handleDelete(price)} title="Delete"><Trash2 className="h-4 w-4 text-red-600" /></Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,313 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/context/authContext';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Pencil, Trash2, Save, X } from 'lucide-react';
+
+interface Replacement {
+  name: string;
+  quantity: number;
+  unit: string;
+}
+
+interface IngredientSubstitution {
+  _id: string;
+  ingredient: string;
+  unit: string;
+  replacements: Replacement[];
+  note?: string;
+  contains: string[];
+}
+
+interface SubstitutionForm {
+  ingredient: string;
+  unit: string;
+  replacements: string; // "milk=0.94 ml; lemon juice=0.06 ml"
+  note: string;
+  contains: string[];
+}
+
+const EMPTY_FORM: SubstitutionForm = { ingredient: '', unit: 'ml', replacements: '', note: '', contains: [] };
+
+/**
+ * Formats replacements for the text input
+ */
+function formatReplacements(replacements: Replacement[]): string {
+  return replacements.map(replacement => `${replacement.name}=${[replacement.quantity, replacement.unit].filter(Boolean).join(' ')}`).join('; ');
+}
+
+/**
+ * Parses "milk=0.94 ml; lemon juice=0.06 ml" into replacements
+ * @returns The replacements, or null if an entry is malformed
+ */
+function parseReplacements(value: string): Replacement[] | null {
+  const replacements: Replacement[] = [];
+  for (const part of value.split(';').map(entry => entry.trim()).filter(Boolean)) {
+    const [name, amount = ''] = part.split('=').map(entry => entry.trim());
+    const [quantity, ...unit] = amount.split(/\s+/);
+    const parsed = parseFloat(quantity);
+    if (!name || isNaN(parsed) || parsed <= 0) return null;
+    replacements.push({ name, quantity: parsed, unit: unit.join(' ') });
+  }
+  return replacements.length > 0 ? replacements : null;
+}
+
+export default function ManageIngredientSubstitutionsPage() {
+  const { user, status } = useAuth();
+  const loading = status === 'loading';
+
+  const [substitutions, setSubstitutions] = useState<IngredientSubstitution[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
+  const [form, setForm] = useState<SubstitutionForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editForm, setEditForm] = useState<SubstitutionForm>(EMPTY_FORM);
+  const [search, setSearch] = useState('');
+  const [message, setMessage] = useState<string>('');
+
+  useEffect(() => {
+    if (!loading && (!user || user.role !== 'admin')) {
+      window.location.href = '/';
+    }
+  }, [user, loading]);
+
+  const fetchSubstitutions = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/ingredient-substitutions');
+      if (response.ok) {
+        const data = await response.json();
+        setSubstitutions(data.substitutions || []);
+        setTags(data.tags || []);
+      } else {
+        setMessage('Error loading substitutions');
+      }
+    } catch (error) {
+      console.error('Error loading ingredient substitutions:', error);
+      setMessage('Error loading substitutions');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user?.role === 'admin') fetchSubstitutions();
+  }, [user, fetchSubstitutions]);
+
+  /**
+   * Turns a form into the request body, or sets an error message
+   */
+  const toRequestBody = (substitutionForm: SubstitutionForm) => {
+    const replacements = parseReplacements(substitutionForm.replacements);
+    if (!substitutionForm.ingredient.trim()) {
+      setMessage('Please enter an ingredient');
+      return null;
+    }
+    if (!replacements) {
+      setMessage('Replacements must look like "milk=0.94 ml; lemon juice=0.06 ml"');
+      return null;
+    }
+    return {
+      ingredient: substitutionForm.ingredient,
+      unit: substitutionForm.unit,
+      replacements,
+      note: substitutionForm.note,
+      contains: substitutionForm.contains,
+    };
+  };
+
+  const toggleTag = (substitutionForm: SubstitutionForm, tag: string): SubstitutionForm => ({
+    ...substitutionForm,
+    contains: substitutionForm.contains.includes(tag)
+      ? substitutionForm.contains.filter(entry => entry !== tag)
+      : [...substitutionForm.contains, tag],
+  });
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const body = toRequestBody(form);
+    if (!body) return;
+
+    const response = await fetch('/api/admin/ingredient-substitutions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    if (response.ok) {
+      setForm(EMPTY_FORM);
+      setMessage(`Added a substitution for ${body.ingredient}`);
+      fetchSubstitutions();
+    } else {
+      const data = await response.json();
+      setMessage(data.error || 'Error adding substitution');
+    }
+  };
+
+  const handleStartEdit = (substitution: IngredientSubstitution) => {
+    setEditingId(substitution._id);
+    setEditForm({
+      ingredient: substitution.ingredient,
+      unit: substitution.unit,
+      replacements: formatReplacements(substitution.replacements),
+      note: substitution.note || '',
+      contains: substitution.contains || [],
+    });
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editingId) return;
+    const body = toRequestBody(editForm);
+    if (!body) return;
+
+    const response = await fetch(`/api/admin/ingredient-substitutions/${editingId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    if (response.ok) {
+      setEditingId(null);
+      setMessage(`Saved the substitution for ${body.ingredient}`);
+      fetchSubstitutions();
+    } else {
+      const data = await response.json();
+      setMessage(data.error || 'Error saving substitution');
+    }
+  };
+
+  const handleDelete = async (substitution: IngredientSubstitution) => {
+    if (!confirm(`Remove this substitution for "${substitution.ingredient}"?`)) return;
+    const response = await fetch(`/api/admin/ingredient-substitutions/${substitution._id}`, { method: 'DELETE' });
+    if (response.ok) {
+      setSubstitutions(prev => prev.filter(entry => entry._id !== substitution._id));
+    } else {
+      setMessage('Error deleting substitution');
+    }
+  };
+
+  if (loading || !user || user.role !== 'admin') {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-orange-50 via-white to-green-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-500 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading Substitutions...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const filteredSubstitutions = substitutions.filter(substitution =>
+    substitution.ingredient.toLowerCase().includes(search.toLowerCase())
+  );
+
+  const renderTagPicker = (substitutionForm: SubstitutionForm, onChange: (updated: SubstitutionForm) => void) => (
+    <div className="flex flex-wrap gap-2">
+      {tags.map(tag => (
+        <label key={tag} className="flex items-center gap-1 text-sm text-gray-700">
+          <input type="checkbox" checked={substitutionForm.contains.includes(tag)} onChange={() => onChange(toggleTag(substitutionForm, tag))} />
+          {tag}
+        </label>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-orange-50 via-white to-green-50 py-8">
+      <div className="max-w-6xl mx-auto px-4">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Ingredient Substitutions</h1>
+          <p className="text-gray-600">
+            Replacements suggested when a store is out of an item. Amounts are per one unit of the ingredient.
+            Tick what the replacements contain so they are not suggested to users who avoid it.
+          </p>
+        </div>
+
+        {message && (
+          <div className="mb-6 p-4 rounded-lg bg-green-50 text-green-800 border border-green-200">
+            {message}
+          </div>
+        )}
+
+        <Card className="p-6 mb-6">
+          <h3 className="text-lg font-semibold mb-4">Add Substitution</h3>
+          <form onSubmit={handleAdd} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div>
+                <Label htmlFor="substitution-ingredient" className="text-sm font-medium">Ingredient</Label>
+                <Input id="substitution-ingredient" value={form.ingredient} onChange={(e) => setForm(prev => ({ ...prev, ingredient: e.target.value }))} placeholder="buttermilk" className="mt-1" />
+              </div>
+              <div>
+                <Label htmlFor="substitution-unit" className="text-sm font-medium">Per unit (empty = piece)</Label>
+                <Input id="substitution-unit" value={form.unit} onChange={(e) => setForm(prev => ({ ...prev, unit: e.target.value }))} placeholder="ml" className="mt-1" />
+              </div>
+              <div className="md:col-span-2">
+                <Label htmlFor="substitution-replacements" className="text-sm font-medium">Replacements</Label>
+                <Input id="substitution-replacements" value={form.replacements} onChange={(e) => setForm(prev => ({ ...prev, replacements: e.target.value }))} placeholder="milk=0.94 ml; lemon juice=0.06 ml" className="mt-1" />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="substitution-note" className="text-sm font-medium">Note</Label>
+              <Input id="substitution-note" value={form.note} onChange={(e) => setForm(prev => ({ ...prev, note: e.target.value }))} placeholder="Let it stand for 5 minutes" className="mt-1" />
+            </div>
+            <div>
+              <Label className="text-sm font-medium">Replacements contain</Label>
+              <div className="mt-1">{renderTagPicker(form, setForm)}</div>
+            </div>
+            <Button type="submit">Add</Button>
+          </form>
+        </Card>
+
+        <Card className="p-6">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-4">
+            <h3 className="text-lg font-semibold">Knowledge Base ({substitutions.length})</h3>
+            <Input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search ingredients..." className="max-w-xs" />
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2 pr-4">Ingredient</th>
+                  <th className="py-2 pr-4">Per</th>
+                  <th className="py-2 pr-4">Replacements</th>
+                  <th className="py-2 pr-4">Contains</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredSubstitutions.map(substitution => editingId === substitution._id ? (
+                  <tr key={substitution._id} className="border-b align-top">
+                    <td className="py-2 pr-4"><Input value={editForm.ingredient} onChange={(e) => setEditForm(prev => ({ ...prev, ingredient: e.target.value }))} /></td>
+                    <td className="py-2 pr-4"><Input value={editForm.unit} onChange={(e) => setEditForm(prev => ({ ...prev, unit: e.target.value }))} className="w-20" /></td>
+                    <td className="py-2 pr-4 space-y-2">
+                      <Input value={editForm.replacements} onChange={(e) => setEditForm(prev => ({ ...prev, replacements: e.target.value }))} />
+                      <Input value={editForm.note} onChange={(e) => setEditForm(prev => ({ ...prev, note: e.target.value }))} placeholder="Note" />
+                    </td>
+                    <td className="py-2 pr-4">{renderTagPicker(editForm, setEditForm)}</td>
+                    <td className="py-2 whitespace-nowrap">
+                      <Button size="sm" variant="ghost" onClick={handleSaveEdit} title="Save"><Save className="h-4 w-4" /></Button>
+                      <Button size="sm" variant="ghost" onClick={() => setEditingId(null)} title="Cancel"><X className="h-4 w-4" /></Button>
+                    </td>
+                  </tr>
+                ) : (
+                  <tr key={substitution._id} className="border-b">
+                    <td className="py-2 pr-4 font-medium">{substitution.ingredient}</td>
+                    <td className="py-2 pr-4">{substitution.unit || 'piece'}</td>
+                    <td className="py-2 pr-4">
+                      {formatReplacements(substitution.replacements)}
+                      {substitution.note && <p className="text-xs text-gray-500">{substitution.note}</p>}
+                    </td>
+                    <td className="py-2 pr-4 text-gray-600">{substitution.contains?.join(', ') || '—'}</td>
+                    <td className="py-2 whitespace-nowrap">
+                      <Button size="sm" variant="ghost" onClick={() => handleStartEdit(substitution)} title="Edit"><Pencil className="h-4 w-4" /></Button>
+                      <Button size="sm" variant="ghost" onClick={() => handleDelete(substitution)} title="Delete"><Trash2 className="h-4 w-4 text-red-600" /></Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -10,6 +10,8 @@ import {
   Settings,
   UserCog,
   Package,
+  Wallet,
+  Replace,
   AlertTriangle
 } from 'lucide-react';
 import Link from 'next/link';
@@ -142,6 +144,20 @@ export default function AdminPage() {
       icon: Package,
       color: 'text-orange-600'
     },
+    {
+      title: 'Ingredient Prices',
+      description: 'Edit prices used for grocery cost estimates',
+      href: '/admin/dashboard/manage-ingredient-prices',
+      icon: Wallet,
+      color: 'text-emerald-600'
+    },
+    {
+      title: 'Ingredient Substitutions',
+      description: 'Edit substitutions suggested for unavailable items',
+      href: '/admin/dashboard/manage-ingredient-substitutions',
+      icon: Replace,
+      color: 'text-teal-600'
+    },
     {
       title: 'System Settings',
       description: 'Manage admin configuration',
@@ -6,16 +6,20 @@ import { Button } from '@/components/ui/button';
 import { ChefHat } from 'lucide-react';
 import { RecipeCard } from '@/components/recipe/RecipeCard';
 import { Pagination } from '@/components/ui/pagination';
-import { useAllRecipes } from '@/hooks/useRecipes';
+import { useAllRecipes, NO_RECIPES_FOUND } from '@/hooks/useRecipes';
 import { useAuth } from '@/context/authContext';
 import { useRouter } from 'next/navigation';
 import { RecipeFilters } from '@/components/recipe/RecipeFilters';
 import { ActiveFilters } from '@/components/recipe/ActiveFilters';
-import { fuzzySearchRecipes, filterRecipesByDifficulty } from '@/utils/fuzzySearch';
+import { filterRecipesByDifficulty } from '@/utils/fuzzySearch';
 import type { Recipe } from '@/types/recipe';
 
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
 export default function RecipePage() {
   const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('');
   const [selectedDifficulty, setSelectedDifficulty] = useState('');
   const [selectedDiet, setSelectedDiet] = useState('');
@@ -27,17 +31,28 @@ export default function RecipePage() {
   const { isAuthenticated } = useAuth();
   const router = useRouter();
 
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(searchQuery.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
   // Separate API-Aufruf für Dropdown-Filter vs. Search
-  const hasSearchQuery = searchQuery.trim().length > 0;
+  const hasSearchQuery = debouncedQuery.length > 0;
+  const RECIPES_PER_PAGE = isAuthenticated ? 30 : 15; // Authenticated: 3×10, Viewer: 3×5
+  const searchPage = hasSearchQuery ? page : 1; // Browsing loads everything once
   
   // Intelligente API-Aufrufe basierend auf Modus
   const apiOptions = useMemo(() => {
     if (hasSearchQuery) {
-      // Search-Modus: alle Rezepte ungefiltert holen für präzise client-side Filterung
+      // Search-Modus: Server sucht, filtert und paginiert nach Relevanz
       return {
-        number: '500', // Erhöht für alle Rezepte
+        type: selectedCategory,
+        diet: selectedDiet,
+        intolerances: selectedAllergy,
+        difficulty: selectedDifficulty,
+        number: String(RECIPES_PER_PAGE),
+        page: String(searchPage),
         randomize: 'false',
-        // KEINE API-Filter bei Search - nur client-side filtering
       };
     } else {
       // Dropdown-Filter-Modus: alle Rezepte laden für client-side Pagination
@@ -60,58 +75,27 @@ export default function RecipePage() {
 
       return options;
     }
-  }, [selectedCategory, selectedDiet, selectedAllergy, selectedDifficulty, isAuthenticated, hasSearchQuery]); // Entfernt page dependency
+  }, [selectedCategory, selectedDiet, selectedAllergy, selectedDifficulty, hasSearchQuery, RECIPES_PER_PAGE, searchPage]);
 
-  const { recipes: rawRecipes, error, loading, hasMore, total } = useAllRecipes('', apiOptions);
+  // The community filter of a search is part of the query
+  const serverQuery = hasSearchQuery && communityOnly ? `community:${debouncedQuery}` : debouncedQuery;
+  const { recipes: rawRecipes, error: loadError, loading, total, facets, suggestion } = useAllRecipes(serverQuery, apiOptions);
 
-  // Client-side filtering for all filter combinations
-  const allFilteredRecipes = useMemo(() => {
-    let filtered = rawRecipes;
-
-    // 1. Search Filter (Title & Ingredients) - only when Search Query present
-    if (hasSearchQuery && searchQuery.trim()) {
-      filtered = fuzzySearchRecipes(filtered, searchQuery);
-    }
+  // An empty result is not an error
+  const error = loadError === NO_RECIPES_FOUND ? '' : loadError;
 
-    // 2. Category Filter (client-side when Search active)
-    if (hasSearchQuery && selectedCategory) {
-      filtered = filtered.filter(recipe => 
-        recipe.dishTypes?.some(type => 
-          type.toLowerCase() === selectedCategory.toLowerCase()
-        ) ||
-        recipe.cuisines?.some(cuisine => 
-          cuisine.toLowerCase() === selectedCategory.toLowerCase()
-        )
-      );
-    }
-
-    // 3. Diet Filter (client-side when Search active)
-    if (hasSearchQuery && selectedDiet) {
-      filtered = filtered.filter(recipe => 
-        recipe.diets?.some(diet => 
-          diet.toLowerCase() === selectedDiet.toLowerCase()
-        )
-      );
-    }
+  // Client-side filtering, only when browsing without a search
+  const allFilteredRecipes = useMemo(() => {
+    if (hasSearchQuery) return rawRecipes;
 
-    // 4. Allergy/Intolerance Filter (client-side when Search active)
-    if (hasSearchQuery && selectedAllergy) {
-      filtered = filtered.filter(recipe => {
-        // Check if recipe does NOT contain the allergen
-        const ingredients = recipe.extendedIngredients || [];
-        return !ingredients.some(ingredient => {
-          const ingredientName = (ingredient.name || ingredient.originalName || '').toLowerCase();
-          return ingredientName.includes(selectedAllergy.toLowerCase());
-        });
-      });
-    }
+    let filtered = rawRecipes;
 
-    // 5. Difficulty Filter (always client-side)
+    // 1. Difficulty Filter
     if (selectedDifficulty) {
       filtered = filterRecipesByDifficulty(filtered, selectedDifficulty);
     }
 
-    // 6. Community Filter (always client-side) - includes both admin (chef) and user-created recipes
+    // 2. Community Filter - includes both admin (chef) and user-created recipes
     if (communityOnly) {
       filtered = filtered.filter(recipe => 
         recipe.source === 'community' || recipe.source === 'chef'
@@ -119,25 +103,29 @@ export default function RecipePage() {
     }
 
     return filtered;
-  }, [rawRecipes, hasSearchQuery, searchQuery, selectedCategory, selectedDiet, selectedAllergy, selectedDifficulty, communityOnly]);
+  }, [rawRecipes, hasSearchQuery, selectedDifficulty, communityOnly]);
 
-  // Client-side Pagination (only for Search results)
-  const RECIPES_PER_PAGE = isAuthenticated ? 30 : 15; // Authenticated: 3×10, Viewer: 3×5
-  const totalFilteredPages = Math.ceil(allFilteredRecipes.length / RECIPES_PER_PAGE);
+  // "Did you mean" when the search finds nothing
+  const searchSuggestion = hasSearchQuery && suggestion ? suggestion.replace('community:', '') : null;
+
+  // Search results are paginated by the server, browse results client-side
+  const resultCount = hasSearchQuery ? total : allFilteredRecipes.length;
+  const totalFilteredPages = Math.ceil(resultCount / RECIPES_PER_PAGE);
   
   const displayedRecipes = useMemo(() => {
-    // Always apply client-side pagination
+    if (hasSearchQuery) return allFilteredRecipes;
+
     const startIndex = (page - 1) * RECIPES_PER_PAGE;
     const endIndex = startIndex + RECIPES_PER_PAGE;
     const sliced = allFilteredRecipes.slice(startIndex, endIndex);
     
     return sliced;
-  }, [allFilteredRecipes, page, RECIPES_PER_PAGE]); // Always paginate
+  }, [allFilteredRecipes, hasSearchQuery, page, RECIPES_PER_PAGE]);
 
   // Reset page when any filter changes
   useEffect(() => {
     setPage(1);
-  }, [searchQuery, selectedCategory, selectedDifficulty, selectedDiet, selectedAllergy, isAuthenticated]); // Added isAuthenticated
+  }, [debouncedQuery, selectedCategory, selectedDifficulty, selectedDiet, selectedAllergy, communityOnly, isAuthenticated]); // Added isAuthenticated
 
   // Auto-scroll to top when page changes OR when filters change
   useEffect(() => {
@@ -205,6 +193,7 @@ export default function RecipePage() {
           communityOnly={communityOnly}
           setCommunityOnly={setCommunityOnly}
           onFilterChange={handleFilterChange}
+          facets={facets}
         />
 
         {/* Active Filters Display */}
@@ -260,8 +249,8 @@ export default function RecipePage() {
               ))}
             </div>
             
-            {/* Unified Pagination - always client-side */}
-            {allFilteredRecipes.length > RECIPES_PER_PAGE && (
+            {/* Unified Pagination */}
+            {resultCount > RECIPES_PER_PAGE && (
               <div className="flex justify-center mt-8">
                 <Pagination
                   currentPage={page}
@@ -278,6 +267,19 @@ export default function RecipePage() {
           <Card className="p-12 text-center">
             <ChefHat className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
             <h3 className="text-lg font-semibold mb-2">No Recipes Found</h3>
+            {searchSuggestion && (
+              <p className="text-muted-foreground mb-2">
+                Did you mean{' '}
+                <button
+                  type="button"
+                  onClick={() => setSearchQuery(searchSuggestion)}
+                  className="font-semibold text-primary-600 underline"
+                >
+                  {searchSuggestion}
+                </button>
+                ?
+              </p>
+            )}
             <p className="text-muted-foreground mb-4">
               {searchQuery || selectedCategory || selectedDifficulty || selectedDiet || selectedAllergy
                 ? 'Try adjusting your search filters'
@@ -9,6 +9,7 @@ import { useEffect, useState } from 'react';
 import { useRouter, useParams } from 'next/navigation';
 import { slugify } from '@/lib/utils';
 import { useSession } from 'next-auth/react';
+import { toDateKey } from '@/types/meal-planning';
 
 export default function CurrentMealPlanWithUsernamePage() {
   const router = useRouter();
@@ -26,13 +27,11 @@ export default function CurrentMealPlanWithUsernamePage() {
       }
 
       try {
-        const now = new Date();
-        const startOfWeek = new Date(now);
-        startOfWeek.setDate(now.getDate() - now.getDay() + 1); // Monday
-        startOfWeek.setHours(0, 0, 0, 0);
+        // The server plans the week containing today, starting on the user's week start day
+        const today = toDateKey(new Date());
 
-        // Try to fetch existing meal plan for current week
-        const response = await fetch(`/api/meal-plans?weekStart=${startOfWeek.toISOString()}`);
+        // Try to fetch the existing meal plan covering today
+        const response = await fetch(`/api/meal-plans?date=${today}`);
         if (response.ok) {
           const data = await response.json();
           if (data.success && data.data && data.data.length > 0) {
@@ -46,8 +45,7 @@ export default function CurrentMealPlanWithUsernamePage() {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
-            weekStartDate: startOfWeek.toISOString(),
-            title: `Week of ${startOfWeek.toLocaleDateString()}`
+            startDate: today
           }),
         });
 
@@ -60,7 +58,7 @@ export default function CurrentMealPlanWithUsernamePage() {
         }
 
         // Fallback retry
-        const retryResponse = await fetch(`/api/meal-plans?weekStart=${startOfWeek.toISOString()}`);
+        const retryResponse = await fetch(`/api/meal-plans?date=${today}`);
         if (retryResponse.ok) {
           const retryData = await retryResponse.json();
           if (retryData.success && retryData.data && retryData.data.length > 0) {
@@ -206,6 +206,22 @@ export default function AiRecipePage() {
     }
   };
 
+  // Save the detected ingredients to the user's pantry
+  const handleSaveToPantry = async () => {
+    try {
+      const res = await fetch('/api/pantry/seed', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ source: 'fridge-analysis', ingredients: recognizedIngredients })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.message || 'Failed to save to pantry');
+      addNotification('success', `${data.added} ingredients saved to your pantry`, 'ingredients');
+    } catch (err) {
+      addNotification('error', err instanceof Error ? err.message : 'Failed to save to pantry', 'ingredients');
+    }
+  };
+
   // Helper to convert file to base64
   const fileToBase64 = (file: File): Promise<string> => {
     return new Promise((resolve, reject) => {
@@ -225,7 +241,8 @@ export default function AiRecipePage() {
     
     const searchIngredients = [...ingredients, ...recognizedIngredients].join(',');
     const params = new URLSearchParams();
-    if (searchIngredients) params.append('search', searchIngredients);
+    // Random recipes come from the AI search, the rest from the ingredient match
+    if (searchIngredients) params.append(randomize ? 'search' : 'ingredients', searchIngredients);
     
     // ✅ Filter nur anwenden wenn NICHT randomize
     if (!randomize) {
@@ -239,7 +256,8 @@ export default function AiRecipePage() {
     if (randomize) params.append('randomize', 'true');
     
     try {
-      const res = await fetch(`/api/ai/search-recipes?${params.toString()}`);
+      const endpoint = randomize || !searchIngredients ? '/api/ai/search-recipes' : '/api/recipes/by-ingredients';
+      const res = await fetch(`${endpoint}?${params.toString()}`);
       const data = await res.json();
       setDebugResponse({ status: res.status, data });
       if (!res.ok || data.error) {
@@ -277,14 +295,14 @@ export default function AiRecipePage() {
     }
     
     const params = new URLSearchParams();
-    params.append('search', searchIngredients);
+    params.append('ingredients', searchIngredients);
     if (filters.category) params.append('type', filters.category);
     if (filters.diet) params.append('diet', filters.diet);
     if (filters.allergy) params.append('intolerances', filters.allergy);
     if (filters.difficulty) params.append('difficulty', filters.difficulty);
     
     try {
-      const res = await fetch(`/api/ai/search-recipes?${params.toString()}`);
+      const res = await fetch(`/api/recipes/by-ingredients?${params.toString()}`);
       const data = await res.json();
       setDebugResponse({ status: res.status, data });
       if (!res.ok || data.error) {
@@ -335,7 +353,7 @@ export default function AiRecipePage() {
     
     const searchIngredients = recognizedIngredients.length > 0 ? recognizedIngredients.join(',') : ingredients.join(',');
     const params = new URLSearchParams();
-    if (searchIngredients) params.append('search', searchIngredients);
+    if (searchIngredients) params.append('ingredients', searchIngredients);
     if (newFilters.category) params.append('type', newFilters.category);
     if (newFilters.diet) params.append('diet', newFilters.diet);
     if (newFilters.allergy) params.append('intolerances', newFilters.allergy);
@@ -343,7 +361,7 @@ export default function AiRecipePage() {
     
     // Automatische API-Anfrage bei Filter-Änderung
     try {
-      const res = await fetch(`/api/ai/search-recipes?${params.toString()}`);
+      const res = await fetch(`${searchIngredients ? '/api/recipes/by-ingredients' : '/api/ai/search-recipes'}?${params.toString()}`);
       const data = await res.json();
       setDebugResponse({ status: res.status, data });
       
@@ -571,8 +589,15 @@ export default function AiRecipePage() {
             >
               + Add ingredients AI didn't recognize
             </button>
+            <button
+              className="ml-3 bg-white text-[#7D966D] rounded-full px-6 py-3 font-semibold shadow hover:bg-[#EFF4E6] transition border border-[#7D966D]"
+              onClick={handleSaveToPantry}
+            >
+              Save to my pantry
+            </button>
           </div>
         )}
+        <ContextualNotifications category="ingredients" />
 
         <div className="flex flex-wrap gap-2 mb-6">
           <RecipeFilterDropdown filters={filters} onChange={handleFilterChange} />
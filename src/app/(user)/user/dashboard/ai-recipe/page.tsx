@@ -73,12 +73,14 @@ export default function AiRecipePage() {
   setDebugResponse(null);
     const searchIngredients = [...ingredients, ...recognizedIngredients].join(',');
     const params = new URLSearchParams();
-    if (searchIngredients) params.append('search', searchIngredients);
-    if (filters.category) params.append('category', filters.category);
-    if (filters.diet) params.append('dietaryRestrictions', filters.diet);
+    if (searchIngredients) params.append('ingredients', searchIngredients);
+    if (filters.category) params.append(searchIngredients ? 'type' : 'category', filters.category);
+    if (filters.diet) params.append(searchIngredients ? 'diet' : 'dietaryRestrictions', filters.diet);
     if (filters.allergy) params.append('intolerances', filters.allergy);
+    // With ingredients, recipes are ranked by what is missing; without, all recipes are listed
+    const endpoint = searchIngredients ? '/api/recipes/by-ingredients' : '/api/recipes';
     try {
-      const res = await fetch(`/api/recipes?${params.toString()}`);
+      const res = await fetch(`${endpoint}?${params.toString()}`);
       const data = await res.json();
       setDebugResponse({ status: res.status, data });
       if (!res.ok || data.error) {
@@ -105,11 +107,12 @@ export default function AiRecipePage() {
     setDebugResponse(null);
     const searchIngredients = recognizedIngredients.length > 0 ? recognizedIngredients.join(',') : ingredients.join(',');
     const params = new URLSearchParams();
-    if (searchIngredients) params.append('search', searchIngredients);
-    if (newFilters.category) params.append('category', newFilters.category);
-    if (newFilters.diet) params.append('dietaryRestrictions', newFilters.diet);
+    if (searchIngredients) params.append('ingredients', searchIngredients);
+    if (newFilters.category) params.append(searchIngredients ? 'type' : 'category', newFilters.category);
+    if (newFilters.diet) params.append(searchIngredients ? 'diet' : 'dietaryRestrictions', newFilters.diet);
     if (newFilters.allergy) params.append('intolerances', newFilters.allergy);
-    fetch(`/api/recipes?${params.toString()}`)
+    const endpoint = searchIngredients ? '/api/recipes/by-ingredients' : '/api/recipes';
+    fetch(`${endpoint}?${params.toString()}`)
       .then(async res => {
         const data = await res.json();
         setDebugResponse({ status: res.status, data });
@@ -27,6 +27,7 @@ import {
   Users,
   TrendingUp
 } from 'lucide-react';
+import { formatDateRange } from '@/types/meal-planning';
 
 interface DashboardStats {
   totalRecipes: number;
@@ -56,7 +57,8 @@ interface DashboardData {
   currentWeekPlan: {
     id: string;
     title: string;
-    weekStart: string;
+    startDate: string;
+    endDate: string;
   } | null;
   quickLinks: {
     mealPlanUrl: string;
@@ -311,11 +313,7 @@ export default function UserDashboardPage() {
                   {dashboardData.currentWeekPlan.title}
                 </h3>
                 <p className="text-sm text-gray-600 dark:text-gray-400">
-                  {new Date(dashboardData.currentWeekPlan.weekStart).toLocaleDateString('en-US', {
-                    month: 'long',
-                    day: 'numeric',
-                    year: 'numeric'
-                  })}
+                  {formatDateRange(new Date(dashboardData.currentWeekPlan.startDate), new Date(dashboardData.currentWeekPlan.endDate))}
                 </p>
               </div>
             </div>
@@ -41,10 +41,60 @@ import { MonthlyCalendar } from '@/components/meal-planning/calendar/MonthlyCale
 
 import { QuickAddRecipeModal } from '@/components/meal-planning/modals/QuickAddRecipeModal';
 import { SavePlanModal, type SaveOptions } from '@/components/meal-planning/modals/SavePlanModal';
-import { getWeekStartDate, createEmptyMealPlan } from '@/types/meal-planning';
-import type { IMealPlan, MealSlot as MealSlotType, MealPlanningSlot } from '@/types/meal-planning';
+import { GenerateGroceryListModal, type GenerateGroceryListOptions } from '@/components/meal-planning/modals/GenerateGroceryListModal';
+import { GenerateMealPlanModal, type GenerateMealPlanOptions, type GenerateMealPlanResult } from '@/components/meal-planning/modals/GenerateMealPlanModal';
+import { MealTypesModal } from '@/components/meal-planning/modals/MealTypesModal';
+import { HouseholdModal } from '@/components/meal-planning/modals/HouseholdModal';
+import { RotationModal } from '@/components/meal-planning/modals/RotationModal';
+import { TemplateLibraryModal, type ApplyTemplateSelection } from '@/components/meal-planning/modals/TemplateLibraryModal';
+import { RevisionHistoryModal, type RevisionSummary } from '@/components/meal-planning/modals/RevisionHistoryModal';
+import type { MealPlanTemplate } from '@/types/meal-plan-templates';
+import { MealPlanCostSummary } from '@/components/meal-planning/MealPlanCostSummary';
+import { MealPlanNutritionSummary } from '@/components/meal-planning/MealPlanNutritionSummary';
+import {
+  addDaysToDate,
+  createEmptyMealPlan,
+  DEFAULT_WEEK_STARTS_ON,
+  findMealPlanForDate,
+  getMealPlanKey,
+  getWeekStartDate,
+  parseDateInput,
+  toDateKey
+} from '@/types/meal-planning';
+import type { DayMeals, IMealPlan, MealSlot as MealSlotType, MealPlanningSlot, WeekStartsOn } from '@/types/meal-planning';
+import { MealPlanService } from '@/services/mealPlanService';
 import { useSession } from 'next-auth/react';
 import { useMealPlanSync, triggerGlobalMealPlanSync } from '@/hooks/useMealPlanSync';
+import { useMealPlanNutrition } from '@/hooks/useMealPlanNutrition';
+import { useHouseholdConflicts } from '@/hooks/useHouseholdConflicts';
+import { normalizeHouseholdMembers, type HouseholdMember } from '@/utils/household';
+import {
+  DEFAULT_LEFTOVER_SETTINGS,
+  getBatchSourceChangePrompt,
+  reconcileBatchSources,
+  withoutBatchFields,
+  type LeftoverSettings,
+  type LeftoverSyncRequest,
+} from '@/utils/mealLeftovers';
+import {
+  countDayMeals,
+  DEFAULT_MEAL_TYPES,
+  getMealsOfType,
+  getMealTypeDefinition,
+  getMealTypesForDays,
+  normalizeMealTypes,
+  setMealsOfType,
+  type MealTypeDefinition,
+} from '@/utils/mealTypes';
+import {
+  createMealPlanHistory,
+  describeMealPlanChange,
+  recordMealPlanChange,
+  redoMealPlanChange,
+  undoMealPlanChange,
+  type MealPlanHistory,
+  type MealPlanHistoryEntry,
+} from '@/utils/mealPlanHistory';
 // import { ObjectId } from 'mongodb';
 // ...existing code...
 import { 
@@ -54,15 +104,6 @@ import {
   exportGroceryListAsPDF
 } from '@/utils/mealPlanExport';
 
-// Define the NormalizedIngredient interface locally since we're not importing from the fetcher
-interface NormalizedIngredient {
-  name: string;
-  amount?: string;
-  unit?: string;
-  category?: string;
-  original?: string;
-}
-
 // ========================================
 // Today View Component
 // ========================================
@@ -78,6 +119,7 @@ interface TodayViewProps {
   copiedRecipe?: MealSlot | null;
   onClearCopiedRecipe?: () => void;
   onMealPlanChange?: (mealPlan: IMealPlan) => void;
+  mealTypes: MealTypeDefinition[];
 }
 
 const TodayView: React.FC<TodayViewProps> = ({ 
@@ -90,82 +132,34 @@ const TodayView: React.FC<TodayViewProps> = ({
   onCopyRecipe,
   copiedRecipe,
   onClearCopiedRecipe,
-  onMealPlanChange
+  onMealPlanChange,
+  mealTypes
 }) => {
-  // Find today's meals across all meal plans
-  const todayMeals = mealPlans.flatMap(plan => 
-    plan.days
-      .filter(day => {
-        return day.date.toDateString() === currentDate.toDateString();
-      })
-      .flatMap(day => [
-        ...day.breakfast.map(meal => ({ ...meal, mealType: 'breakfast', planId: plan._id || '' })),
-        ...day.lunch.map(meal => ({ ...meal, mealType: 'lunch', planId: plan._id || '' })),
-        ...day.dinner.map(meal => ({ ...meal, mealType: 'dinner', planId: plan._id || '' })),
-        ...day.snacks.map(meal => ({ ...meal, mealType: 'snacks', planId: plan._id || '' })),
-      ])
-  );
+  // Find today's meals in the meal plan covering today
+  const todayPlan = findMealPlanForDate(mealPlans, currentDate);
+  const todayIndex = todayPlan ? todayPlan.days.findIndex(day => day.date.toDateString() === currentDate.toDateString()) : -1;
+  const todayDay = todayPlan && todayIndex !== -1 ? todayPlan.days[todayIndex] : null;
 
-  const mealsByType = {
-    breakfast: todayMeals.filter(meal => meal.mealType === 'breakfast'),
-    lunch: todayMeals.filter(meal => meal.mealType === 'lunch'),
-    dinner: todayMeals.filter(meal => meal.mealType === 'dinner'),
-    snacks: todayMeals.filter(meal => meal.mealType === 'snacks'),
-  };
+  // One column per meal type, in the user's order
+  const todayMealTypes = getMealTypesForDays(mealTypes, todayDay ? [todayDay] : []);
+  const getTodayMeals = (mealType: string) => todayDay
+    ? getMealsOfType(todayDay, mealType).map(meal => ({ ...meal, planId: todayPlan?._id || '' }))
+    : [];
 
   // TodayView uses copy-only functionality - no drag and drop handlers needed
 
-  // Meal type configurations with different colors and styles
-  const mealTypeConfig: Record<string, { emoji: string; title: string; bgColor: string; borderColor: string; cardBg: string; textColor: string; buttonColor: string; }> = {
-    breakfast: {
-      emoji: '🍳',
-      title: 'Breakfast',
-      bgColor: 'bg-gradient-to-br from-orange-50 to-amber-50',
-      borderColor: 'border-orange-200',
-      cardBg: 'bg-white/80 backdrop-blur-sm',
-      textColor: 'text-orange-800',
-      buttonColor: 'bg-orange-500 hover:bg-orange-600'
-    },
-    lunch: {
-      emoji: '🥗',
-      title: 'Lunch', 
-      bgColor: 'bg-gradient-to-br from-green-50 to-emerald-50',
-      borderColor: 'border-green-200',
-      cardBg: 'bg-white/80 backdrop-blur-sm',
-      textColor: 'text-green-800',
-      buttonColor: 'bg-green-500 hover:bg-green-600'
-    },
-    dinner: {
-      emoji: '🍽️',
-      title: 'Dinner',
-      bgColor: 'bg-gradient-to-br from-blue-50 to-indigo-50', 
-      borderColor: 'border-blue-200',
-      cardBg: 'bg-white/80 backdrop-blur-sm',
-      textColor: 'text-blue-800',
-      buttonColor: 'bg-blue-500 hover:bg-blue-600'
-    },
-    snacks: {
-      emoji: '🍎',
-      title: 'Snacks',
-      bgColor: 'bg-gradient-to-br from-purple-50 to-pink-50',
-      borderColor: 'border-purple-200', 
-      cardBg: 'bg-white/80 backdrop-blur-sm',
-      textColor: 'text-purple-800',
-      buttonColor: 'bg-purple-500 hover:bg-purple-600'
-    }
-  };
-
   type ExtendedMeal = MealSlotType & { tags?: string[]; planId?: string };
   
   // TodayView is copy-only - no drag and drop interface needed
 
-  const renderMealCard = (meal: ExtendedMeal, index: number, mealType: string, config: { emoji: string; cardBg: string; borderColor: string; textColor: string; buttonColor: string }) => {
+  const renderMealCard = (meal: ExtendedMeal, index: number, mealType: string, config: MealTypeDefinition) => {
     // No drag and drop functionality in TodayView - copy-only
 
     return (
       <div 
         key={index}
-        className={`${config.cardBg} border ${config.borderColor} rounded-xl p-4 shadow-sm hover:shadow-md transition-all duration-200 cursor-pointer relative`}
+        className="bg-white/80 backdrop-blur-sm border rounded-xl p-4 shadow-sm hover:shadow-md transition-all duration-200 cursor-pointer relative"
+        style={{ borderColor: `${config.color}55` }}
         onClick={() => {
           console.log('🍽️ Meal card clicked', { meal: meal.recipeName });
           // Navigate to the full recipe detail page instead of showing popup
@@ -215,7 +209,7 @@ const TodayView: React.FC<TodayViewProps> = ({
         </div>
         
         {/* Recipe Name */}
-        <h4 className={`font-semibold text-lg mb-2 ${config.textColor}`}>
+        <h4 className="font-semibold text-lg mb-2" style={{ color: config.color }}>
           {meal.recipeName}
         </h4>
         
@@ -236,12 +230,10 @@ const TodayView: React.FC<TodayViewProps> = ({
             size="sm"
             onClick={(e) => {
               e.stopPropagation(); // Prevent triggering the recipe modal
-              // Convert JavaScript day (0=Sunday) to meal planning day (0=Monday)
-              const jsDay = currentDate.getDay();
-              const dayOfWeek = jsDay === 0 ? 6 : jsDay - 1; // Convert Sunday(0) to 6, Mon(1) to 0, etc.
               onEditMeal({
-                dayOfWeek,
-                mealType: mealType as 'breakfast' | 'lunch' | 'dinner' | 'snacks',
+                dayOfWeek: todayIndex,
+                targetDate: currentDate,
+                mealType,
                 recipeId: meal.recipeId,
                 recipeName: meal.recipeName,
                 servings: meal.servings,
@@ -260,10 +252,7 @@ const TodayView: React.FC<TodayViewProps> = ({
             size="sm"
             onClick={(e) => {
               e.stopPropagation(); // Prevent triggering the recipe modal
-              // Convert JavaScript day (0=Sunday) to meal planning day (0=Monday)
-              const jsDay = currentDate.getDay();
-              const dayOfWeek = jsDay === 0 ? 6 : jsDay - 1; // Convert Sunday(0) to 6, Mon(1) to 0, etc.
-              onRemoveMeal(meal.planId || '', dayOfWeek, mealType, index);
+              onRemoveMeal(meal.planId || '', todayIndex, mealType, index);
             }}
             className="text-red-500 hover:text-red-700 hover:bg-red-50"
           >
@@ -274,21 +263,22 @@ const TodayView: React.FC<TodayViewProps> = ({
     );
   };
 
-  const renderMealColumn = (mealType: keyof typeof mealTypeConfig, meals: MealSlotType[]) => {
-    const config = mealTypeConfig[mealType];
+  const renderMealColumn = (config: MealTypeDefinition, meals: MealSlotType[]) => {
+    const mealType = config.id;
     
     // No drop zone in TodayView - copy-only functionality
     
     return (
       <div 
         key={mealType} 
-        className={`${config.bgColor} ${config.borderColor} border-2 rounded-2xl p-4 min-h-[500px]`}
+        className="border-2 rounded-2xl p-4 min-h-[500px]"
+        style={{ backgroundColor: `${config.color}14`, borderColor: `${config.color}55` }}
       >
         {/* Column Header */}
         <div className="text-center mb-6">
           <div className="text-4xl mb-2">{config.emoji}</div>
-          <h3 className={`text-xl font-bold ${config.textColor}`}>
-            {config.title}
+          <h3 className="text-xl font-bold" style={{ color: config.color }}>
+            {config.name}
           </h3>
           <div className="text-sm text-gray-500">
             {meals.length} meal{meals.length !== 1 ? 's' : ''}
@@ -306,14 +296,13 @@ const TodayView: React.FC<TodayViewProps> = ({
                 <Button
                   variant="outline"
                   size="sm"
-                  className={`border-dashed border-2 ${config.borderColor} ${config.textColor} hover:${config.bgColor} transition-colors`}
+                  className="border-dashed border-2 transition-colors"
+                  style={{ borderColor: `${config.color}55`, color: config.color }}
                   onClick={() => {
-                    // Convert JavaScript day (0=Sunday) to meal planning day (0=Monday)
-                    const jsDay = currentDate.getDay();
-                    const dayOfWeek = jsDay === 0 ? 6 : jsDay - 1; // Convert Sunday(0) to 6, Mon(1) to 0, etc.
                     onAddMeal({
-                      dayOfWeek,
-                      mealType: mealType as 'breakfast' | 'lunch' | 'dinner' | 'snacks',
+                      dayOfWeek: todayIndex,
+                      targetDate: currentDate,
+                      mealType,
                       recipeId: '',
                       recipeName: '',
                       servings: 2,
@@ -324,7 +313,7 @@ const TodayView: React.FC<TodayViewProps> = ({
                   }}
                 >
                   <Plus className="h-4 w-4 mr-1" />
-                  Add Another {config.title}
+                  Add Another {config.name}
                 </Button>
               </div>
             </>
@@ -332,18 +321,17 @@ const TodayView: React.FC<TodayViewProps> = ({
             <div className="text-center py-8">
               <div className="text-gray-400 mb-4">
                 <div className="text-6xl opacity-30 mb-4">{config.emoji}</div>
-                <p>No {mealType} planned</p>
+                <p>No {config.name.toLowerCase()} planned</p>
               </div>
               <div className="space-y-2">
                 <Button
-                  className={`${config.buttonColor} text-white`}
+                  className="text-white hover:opacity-90"
+                  style={{ backgroundColor: config.color }}
                   onClick={() => {
-                    // Convert JavaScript day (0=Sunday) to meal planning day (0=Monday)
-                    const jsDay = currentDate.getDay();
-                    const dayOfWeek = jsDay === 0 ? 6 : jsDay - 1; // Convert Sunday(0) to 6, Mon(1) to 0, etc.
                     onAddMeal({
-                      dayOfWeek,
-                      mealType: mealType as 'breakfast' | 'lunch' | 'dinner' | 'snacks',
+                      dayOfWeek: todayIndex,
+                      targetDate: currentDate,
+                      mealType,
                       recipeId: '',
                       recipeName: '',
                       servings: 2,
@@ -353,7 +341,7 @@ const TodayView: React.FC<TodayViewProps> = ({
                     });
                   }}
                 >
-                  Add {config.title}
+                  Add {config.name}
                 </Button>
                 
                 {/* Paste Button - only show if there's a copied recipe */}
@@ -361,37 +349,28 @@ const TodayView: React.FC<TodayViewProps> = ({
                   <Button
                     variant="outline"
                     size="sm"
-                    className={`border-dashed border-2 ${config.borderColor} ${config.textColor} hover:${config.bgColor} transition-colors w-full`}
+                    className="border-dashed border-2 transition-colors w-full"
+                    style={{ borderColor: `${config.color}55`, color: config.color }}
                     onClick={() => {
                       if (copiedRecipe && onMealPlanChange) {
-                        // Find the current meal plan for today
-                        const todayPlan = mealPlans.find(plan => 
-                          plan.days.some(day => day.date.toDateString() === currentDate.toDateString())
-                        );
-                        
+                        // Use the meal plan covering today
                         if (!todayPlan) return;
                         
                         // Create updated meal plan with pasted recipe
-                        const updatedPlan = { ...todayPlan };
+                        const updatedPlan = { ...todayPlan, days: [...todayPlan.days] };
                         const todayDayIndex = updatedPlan.days.findIndex(day => 
                           day.date.toDateString() === currentDate.toDateString()
                         );
                         
                         if (todayDayIndex === -1) return;
                         
-                        const todayDay = { ...updatedPlan.days[todayDayIndex] };
-                        const targetMeals = [...todayDay[mealType as keyof typeof todayDay] as MealSlot[]];
+                        const pasteDay = updatedPlan.days[todayDayIndex];
                         
                         // Add the copied recipe to the target meal type
-                        targetMeals.push({ ...copiedRecipe });
-                        
-                        // Update the day with new meal arrays
-                        const updatedDay = {
-                          ...todayDay,
-                          [mealType]: targetMeals
-                        };
-                        
-                        updatedPlan.days[todayDayIndex] = updatedDay;
+                        updatedPlan.days[todayDayIndex] = setMealsOfType(pasteDay, mealType, [
+                          ...getMealsOfType(pasteDay, mealType),
+                          { ...copiedRecipe }
+                        ]);
                         updatedPlan.updatedAt = new Date();
                         
                         onMealPlanChange(updatedPlan);
@@ -430,10 +409,7 @@ const TodayView: React.FC<TodayViewProps> = ({
 
       {/* Column Layout */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 xl:grid-cols-4 gap-6 lg:gap-8">
-        {renderMealColumn('breakfast', mealsByType.breakfast)}
-        {renderMealColumn('lunch', mealsByType.lunch)}
-        {renderMealColumn('dinner', mealsByType.dinner)}
-        {renderMealColumn('snacks', mealsByType.snacks)}
+        {todayMealTypes.map(mealType => renderMealColumn(mealType, getTodayMeals(mealType.id)))}
       </div>
     </div>
   );
@@ -462,6 +438,14 @@ export default function MealPlanningPage() {
   const [error, setError] = useState<string | null>(null);
   const [showQuickAdd, setShowQuickAdd] = useState(false);
   const [showSaveModal, setShowSaveModal] = useState(false);
+  const [showGroceryModal, setShowGroceryModal] = useState(false);
+  const [isGeneratingGroceryList, setIsGeneratingGroceryList] = useState(false);
+  const [showGenerateModal, setShowGenerateModal] = useState(false);
+  const [showRotationModal, setShowRotationModal] = useState(false);
+  const [showTemplateLibraryModal, setShowTemplateLibraryModal] = useState(false);
+  const [isApplyingTemplate, setIsApplyingTemplate] = useState(false);
+  const [showRevisionHistoryModal, setShowRevisionHistoryModal] = useState(false);
+  const [isGeneratingPlan, setIsGeneratingPlan] = useState(false);
   const [, setIsSaving] = useState(false);
   const [selectedSlot, setSelectedSlot] = useState<MealPlanningSlot | null>(null);
   const [copiedRecipe, setCopiedRecipe] = useState<MealSlot | null>(null);
@@ -469,7 +453,8 @@ export default function MealPlanningPage() {
 
   // Handle copying recipe
   const handleCopyRecipe = (meal: MealSlot) => {
-    setCopiedRecipe(meal);
+    // A copy is cooked on its own, not as part of the batch
+    setCopiedRecipe(withoutBatchFields(meal));
     console.log('Recipe copied:', meal.recipeName);
   };
 
@@ -478,8 +463,34 @@ export default function MealPlanningPage() {
     setCopiedRecipe(null);
   };
 
+  // Handle a meal marked as cooked - optionally take its ingredients out of the pantry
+  const handleMealCooked = async (meal: MealSlot) => {
+    if (!meal.recipeId) return;
+    if (!window.confirm(`Take the ingredients of "${meal.recipeName || 'this meal'}" out of your pantry?`)) return;
+
+    try {
+      const response = await fetch('/api/pantry/deduct', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ recipeId: meal.recipeId, servings: meal.servings }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.message || 'Failed to update pantry');
+      console.log('✅ Pantry updated after cooking:', result.message);
+    } catch (error) {
+      console.error('❌ Error updating pantry after cooking:', error);
+      alert('❌ Failed to update your pantry. Please try again.');
+    }
+  };
+
   // Central meal plan storage - persists across navigation
   const [globalMealPlans, setGlobalMealPlans] = useState<Map<string, IMealPlan>>(new Map());
+
+  // Nutrition of the plans on screen, for the day badges and the weekly summary
+  const { nutritionByPlan, nutritionByDate } = useMealPlanNutrition(
+    viewMode === 'monthly' ? Array.from(globalMealPlans.values()) : mealPlan ? [mealPlan] : []
+  );
+  const weekNutrition = mealPlan?._id ? nutritionByPlan.get(mealPlan._id) : undefined;
   
   // Force refresh key for weekly view persistence
   const [forceRefreshKey, setForceRefreshKey] = useState(0);
@@ -514,6 +525,136 @@ export default function MealPlanningPage() {
   const refreshShoppingListCount = useCallback(() => {
     fetchShoppingListCount();
   }, [fetchShoppingListCount]);
+
+  // Batch cooking and new weeks follow the meal planning settings
+  const [leftoverSettings, setLeftoverSettings] = useState<LeftoverSettings>(DEFAULT_LEFTOVER_SETTINGS);
+  const [weekStartsOn, setWeekStartsOn] = useState<WeekStartsOn>(DEFAULT_WEEK_STARTS_ON);
+  const [mealTypes, setMealTypes] = useState<MealTypeDefinition[]>(DEFAULT_MEAL_TYPES);
+  const [householdMembers, setHouseholdMembers] = useState<HouseholdMember[]>([]);
+  const [keyboardShortcutsEnabled, setKeyboardShortcutsEnabled] = useState(true);
+
+  useEffect(() => {
+    const loadLeftoverSettings = async () => {
+      if (!session?.user?.email) return;
+
+      try {
+        const response = await fetch('/api/users/preferences');
+        if (!response.ok) return;
+
+        const result = await response.json();
+        const mealPlanning = result?.data?.mealPlanning;
+        if (mealPlanning) {
+          setLeftoverSettings({
+            includeLeftovers: mealPlanning.includeLeftovers ?? DEFAULT_LEFTOVER_SETTINGS.includeLeftovers,
+            batchCookingPreference: mealPlanning.batchCookingPreference ?? DEFAULT_LEFTOVER_SETTINGS.batchCookingPreference,
+            defaultServings: mealPlanning.defaultServings || DEFAULT_LEFTOVER_SETTINGS.defaultServings,
+          });
+          setWeekStartsOn(mealPlanning.weekStartsOn ?? DEFAULT_WEEK_STARTS_ON);
+          setMealTypes(normalizeMealTypes(mealPlanning.mealTypes));
+          setHouseholdMembers(normalizeHouseholdMembers(mealPlanning.householdMembers));
+        }
+        setKeyboardShortcutsEnabled(result?.data?.interface?.enableKeyboardShortcuts ?? true);
+      } catch (error) {
+        console.error('❌ Error loading meal planning settings:', error);
+      }
+    };
+
+    loadLeftoverSettings();
+  }, [session?.user?.email]);
+
+  // Meal types are a setting of the user, not of the plan
+  const [showMealTypesModal, setShowMealTypesModal] = useState(false);
+  const [isSavingMealTypes, setIsSavingMealTypes] = useState(false);
+
+  const handleSaveMealTypes = async (updatedMealTypes: MealTypeDefinition[]) => {
+    setIsSavingMealTypes(true);
+    try {
+      const response = await fetch('/api/users/preferences', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ section: 'mealPlanning', data: { mealTypes: updatedMealTypes } }),
+      });
+      if (!response.ok) {
+        throw new Error('Failed to save meal types');
+      }
+      setMealTypes(normalizeMealTypes(updatedMealTypes));
+    } catch (error) {
+      console.error('❌ Error saving meal types:', error);
+      alert('Failed to save meal types. Please try again.');
+      throw error;
+    } finally {
+      setIsSavingMealTypes(false);
+    }
+  };
+
+  // The household is a setting of the user; meals record which members eat them
+  const [showHouseholdModal, setShowHouseholdModal] = useState(false);
+  const [isSavingHousehold, setIsSavingHousehold] = useState(false);
+  const recipeConflicts = useHouseholdConflicts(mealPlan, householdMembers);
+
+  const handleSaveHousehold = async (updatedMembers: HouseholdMember[]) => {
+    setIsSavingHousehold(true);
+    try {
+      const response = await fetch('/api/users/preferences', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ section: 'mealPlanning', data: { householdMembers: updatedMembers } }),
+      });
+      if (!response.ok) {
+        throw new Error('Failed to save household members');
+      }
+      setHouseholdMembers(normalizeHouseholdMembers(updatedMembers));
+    } catch (error) {
+      console.error('❌ Error saving household members:', error);
+      alert('Failed to save your household. Please try again.');
+      throw error;
+    } finally {
+      setIsSavingHousehold(false);
+    }
+  };
+
+  // Apply leftover changes to the other plans (the edited plan applies its own)
+  const handleSyncLeftovers = async (requests: LeftoverSyncRequest[], excludeMealPlanId?: string) => {
+    const hasStoredPlan = Boolean(excludeMealPlanId && excludeMealPlanId !== 'temp-id');
+
+    try {
+      for (const request of requests) {
+        const response = await fetch('/api/meal-plans/leftovers', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ ...request, ...(hasStoredPlan ? { excludeMealPlanId } : {}) }),
+        });
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to update leftovers');
+        }
+
+        const updatedPlans: IMealPlan[] = result.data.map((plan: IMealPlan) => ({
+          ...plan,
+          startDate: new Date(plan.startDate),
+          endDate: new Date(plan.endDate),
+          days: plan.days.map(day => {
+            // Keep the local date of the day
+            const [year, month, date] = new Date(day.date).toISOString().split('T')[0].split('-').map(Number);
+            return { ...day, date: new Date(year, month - 1, date) };
+          })
+        }));
+
+        setGlobalMealPlans(prev => {
+          const updatedGlobalPlans = new Map(prev);
+          for (const plan of updatedPlans) {
+            updatedGlobalPlans.set(getMealPlanKey(plan), plan);
+          }
+          return updatedGlobalPlans;
+        });
+        console.log(`🍲 Leftovers of batch ${request.batchId} updated in ${updatedPlans.length} other meal plans`);
+      }
+    } catch (error) {
+      console.error('❌ Error updating leftovers:', error);
+      alert('❌ Failed to update leftovers in your other meal plans. Please try again.');
+    }
+  };
   
   // Load specific meal plan based on ID from URL
   useEffect(() => {
@@ -532,8 +673,8 @@ export default function MealPlanningPage() {
           if (!specificPlan || typeof specificPlan !== 'object') {
             throw new Error('Invalid meal plan data received from server.');
           }
-          if (!specificPlan.weekStartDate) {
-            throw new Error('Meal plan data is missing "weekStartDate".');
+          if (!specificPlan.startDate || !specificPlan.endDate) {
+            throw new Error('Meal plan data is missing "startDate" or "endDate".');
           }
           if (!Array.isArray(specificPlan.days)) {
             throw new Error('Meal plan data is missing a valid "days" array.');
@@ -542,7 +683,8 @@ export default function MealPlanningPage() {
           // Process the plan to ensure dates are Date objects with timezone-safe conversion
           const processedPlan: IMealPlan = {
             ...specificPlan,
-            weekStartDate: new Date(specificPlan.weekStartDate),
+            startDate: new Date(specificPlan.startDate),
+            endDate: new Date(specificPlan.endDate),
             days: specificPlan.days.map((day: any) => {
               // Ensure dates are parsed as local dates, not UTC
               const dateStr = day.date;
@@ -576,12 +718,11 @@ export default function MealPlanningPage() {
           setMealPlans([processedPlan]);
           
           // Also update current date to match meal plan's first day
-          setCurrentDate(new Date(processedPlan.weekStartDate));
+          setCurrentDate(new Date(processedPlan.startDate));
           
           // Add to global plans
-          const weekKey = getWeekStartDate(processedPlan.weekStartDate).toISOString().split('T')[0];
           const updatedGlobalPlans = new Map(globalMealPlans);
-          updatedGlobalPlans.set(weekKey, processedPlan);
+          updatedGlobalPlans.set(getMealPlanKey(processedPlan), processedPlan);
           setGlobalMealPlans(updatedGlobalPlans);
           
           setIsLoading(false);
@@ -622,7 +763,8 @@ export default function MealPlanningPage() {
             // Convert date strings back to Date objects with timezone-safe conversion
             const processedPlan: IMealPlan = {
               ...plan,
-              weekStartDate: new Date(plan.weekStartDate),
+              startDate: new Date(plan.startDate),
+              endDate: new Date(plan.endDate),
               days: plan.days.map((day: any) => {
                 // Ensure dates are parsed as local dates, not UTC
                 const dateStr = day.date;
@@ -649,10 +791,10 @@ export default function MealPlanningPage() {
               })
             };
             
-            const weekKey = getWeekStartDate(processedPlan.weekStartDate).toISOString().split('T')[0];
-            newGlobalPlans.set(weekKey, processedPlan);
+            const planKey = getMealPlanKey(processedPlan);
+            newGlobalPlans.set(planKey, processedPlan);
             
-            console.log(`📅 Added meal plan for week ${weekKey} with ${processedPlan.days.reduce((total, day) => total + day.breakfast.length + day.lunch.length + day.dinner.length + day.snacks.length, 0)} meals`);
+            console.log(`📅 Added meal plan starting ${planKey} with ${processedPlan.days.reduce((total, day) => total + countDayMeals(day), 0)} meals`);
           });
           
           setGlobalMealPlans(newGlobalPlans);
@@ -661,7 +803,8 @@ export default function MealPlanningPage() {
           const processedPlans = allPlans.map((plan: any) => {
             const processedPlan = {
               ...plan,
-              weekStartDate: new Date(plan.weekStartDate),
+              startDate: new Date(plan.startDate),
+              endDate: new Date(plan.endDate),
               days: plan.days.map((day: any) => {
                 // Ensure dates are parsed as local dates, not UTC
                 const dateStr = day.date;
@@ -711,17 +854,17 @@ export default function MealPlanningPage() {
     const matchingPlan = Array.from(globalMealPlans.values()).find(plan => plan._id === mealPlanId);
     
     if (matchingPlan && (!mealPlan || mealPlan._id !== matchingPlan._id)) {
-      // Check if we're currently navigating to a different week
-      // If the current meal plan is for a different week than the URL plan, don't sync
+      // Check if we're currently navigating to a different plan
+      // If the current meal plan covers different dates than the URL plan, don't sync
       // This prevents navigation conflicts
-      if (mealPlan && mealPlan.weekStartDate && matchingPlan.weekStartDate) {
-        const currentWeekKey = getWeekStartDate(mealPlan.weekStartDate).toISOString().split('T')[0];
-        const urlPlanWeekKey = getWeekStartDate(matchingPlan.weekStartDate).toISOString().split('T')[0];
+      if (mealPlan && mealPlan.startDate && matchingPlan.startDate) {
+        const currentPlanKey = getMealPlanKey(mealPlan);
+        const urlPlanKey = getMealPlanKey(matchingPlan);
         
-        if (currentWeekKey !== urlPlanWeekKey) {
+        if (currentPlanKey !== urlPlanKey) {
           console.log('🚫 Skipping sync to preserve navigation state:', {
-            currentWeek: currentWeekKey,
-            urlPlanWeek: urlPlanWeekKey
+            currentPlan: currentPlanKey,
+            urlPlan: urlPlanKey
           });
           return;
         }
@@ -732,8 +875,7 @@ export default function MealPlanningPage() {
         id: matchingPlan._id,
         title: matchingPlan.title,
         totalMeals: matchingPlan.days.reduce((total, day) => 
-          total + (day.breakfast?.length || 0) + (day.lunch?.length || 0) + 
-          (day.dinner?.length || 0) + (day.snacks?.length || 0), 0
+          total + countDayMeals(day), 0
         )
       });
       setMealPlan(matchingPlan);
@@ -748,68 +890,80 @@ export default function MealPlanningPage() {
     }
   }, [session?.user?.email, fetchShoppingListCount]);
 
-  // Get or create meal plan for a specific week
+  // Get the meal plan covering a date, or create the week containing it
   const getOrCreateMealPlan = (date: Date): IMealPlan => {
-    const weekStart = getWeekStartDate(date);
-    const weekKey = weekStart.toISOString().split('T')[0];
+    const dateKey = toDateKey(date);
     
     // First check if we already have it in memory
-    if (globalMealPlans.has(weekKey)) {
-      const existingPlan = globalMealPlans.get(weekKey)!;
-      console.log('🔍 Found existing meal plan in memory for week:', weekKey, 'with', existingPlan.days.reduce((total, day) => total + day.breakfast.length + day.lunch.length + day.dinner.length + day.snacks.length, 0), 'total meals');
+    const existingPlan = findMealPlanForDate(globalMealPlans.values(), date);
+    if (existingPlan) {
+      console.log('🔍 Found existing meal plan in memory for date:', dateKey, 'with', existingPlan.days.reduce((total, day) => total + countDayMeals(day), 0), 'total meals');
       return existingPlan;
     } 
     
-    // Check if current mealPlan is for this week
-    if (mealPlan && mealPlan.weekStartDate) {
-      const mealPlanWeekKey = getWeekStartDate(mealPlan.weekStartDate).toISOString().split('T')[0];
-      if (mealPlanWeekKey === weekKey) {
-        console.log('🔍 Using current mealPlan for week:', weekKey, 'with', mealPlan.days.reduce((total, day) => total + day.breakfast.length + day.lunch.length + day.dinner.length + day.snacks.length, 0), 'total meals');
-        
-        // Store in global for future access
-        const updatedGlobalPlans = new Map(globalMealPlans);
-        updatedGlobalPlans.set(weekKey, mealPlan);
-        setGlobalMealPlans(updatedGlobalPlans);
-        
-        return mealPlan;
-      }
+    // Check if current mealPlan covers this date
+    if (mealPlan && mealPlan.startDate && findMealPlanForDate([mealPlan], date)) {
+      console.log('🔍 Using current mealPlan for date:', dateKey, 'with', mealPlan.days.reduce((total, day) => total + countDayMeals(day), 0), 'total meals');
+      
+      // Store in global for future access
+      const updatedGlobalPlans = new Map(globalMealPlans);
+      updatedGlobalPlans.set(getMealPlanKey(mealPlan), mealPlan);
+      setGlobalMealPlans(updatedGlobalPlans);
+      
+      return mealPlan;
     }
     
     // Last resort: create new empty plan
-    console.log('⚠️ Creating new empty meal plan for week:', weekKey, '(This may cause data loss!)');
+    const weekStart = getWeekStartDate(date, weekStartsOn);
+    console.log('⚠️ Creating new empty meal plan for week:', toDateKey(weekStart), '(This may cause data loss!)');
     const newPlan = createEmptyMealPlan('current-user', weekStart);
     const updatedGlobalPlans = new Map(globalMealPlans);
-    updatedGlobalPlans.set(weekKey, newPlan);
+    updatedGlobalPlans.set(getMealPlanKey(newPlan), newPlan);
     setGlobalMealPlans(updatedGlobalPlans);
     return newPlan;
   };
 
+  // Undo and redo of the edits made on this page, for any of the loaded plans
+  const [editHistory, setEditHistory] = useState<MealPlanHistory<DayMeals>>(createMealPlanHistory);
+
+  const findLoadedMealPlan = (planId: string): IMealPlan | undefined => {
+    if (mealPlan && mealPlan._id === planId) return mealPlan;
+    return Array.from(globalMealPlans.values()).find(plan => plan._id === planId);
+  };
+
   // Update a specific meal plan and sync with global storage + auto-save to database
-  const updateMealPlan = async (updatedPlan: IMealPlan) => {
+  // Edits of stored plans go into the undo history unless recordHistory is false
+  const updateMealPlan = async (updatedPlan: IMealPlan, options: { recordHistory?: boolean; historyLabel?: string } = {}) => {
+    const previousPlan = updatedPlan._id && updatedPlan._id !== 'temp-id' ? findLoadedMealPlan(updatedPlan._id) : undefined;
+    if (previousPlan && options.recordHistory !== false) {
+      const operation = describeMealPlanChange(previousPlan.days, updatedPlan.days);
+      if (operation) {
+        setEditHistory(prev => recordMealPlanChange(prev, {
+          planId: updatedPlan._id!,
+          operation: options.historyLabel ? { ...operation, label: options.historyLabel } : operation,
+          before: previousPlan.days,
+          after: updatedPlan.days,
+        }));
+      }
+    }
+
     console.log('🚀 updateMealPlan called with plan:', {
       id: updatedPlan._id,
       title: updatedPlan.title,
       totalMeals: updatedPlan.days.reduce((total, day) => 
-        total + (day.breakfast?.length || 0) + (day.lunch?.length || 0) + 
-        (day.dinner?.length || 0) + (day.snacks?.length || 0), 0
+        total + countDayMeals(day), 0
       ),
       daysWithMeals: updatedPlan.days.filter(day => 
-        (day.breakfast?.length || 0) + (day.lunch?.length || 0) + 
-        (day.dinner?.length || 0) + (day.snacks?.length || 0) > 0
+        countDayMeals(day) > 0
       ).length
     });
 
-    // Ensure weekStartDate is a Date object
-    const weekStartDate = updatedPlan.weekStartDate instanceof Date 
-      ? updatedPlan.weekStartDate 
-      : new Date(updatedPlan.weekStartDate);
-      
-    const weekKey = weekStartDate.toISOString().split('T')[0];
-    console.log('🔄 Updating meal plan for week:', weekKey, 'with', updatedPlan.days.reduce((total, day) => total + day.breakfast.length + day.lunch.length + day.dinner.length + day.snacks.length, 0), 'total meals');
+    const planKey = getMealPlanKey(updatedPlan);
+    console.log('🔄 Updating meal plan starting:', planKey, 'with', updatedPlan.days.reduce((total, day) => total + countDayMeals(day), 0), 'total meals');
     
     // Update global storage first (for immediate UI update)
     const updatedGlobalPlans = new Map(globalMealPlans);
-    updatedGlobalPlans.set(weekKey, updatedPlan);
+    updatedGlobalPlans.set(planKey, updatedPlan);
     setGlobalMealPlans(updatedGlobalPlans);
     
     // ALWAYS update local state if this plan matches current meal plan
@@ -819,10 +973,10 @@ export default function MealPlanningPage() {
       setMealPlans([updatedPlan]);
     }
     
-    // Also update if current week matches (for cross-week synchronization)
-    const currentWeekKey = getWeekStartDate(currentDate).toISOString().split('T')[0];
-    if (weekKey === currentWeekKey && (!mealPlan || mealPlan._id !== updatedPlan._id)) {
-      console.log('🔄 Updating current week meal plan');
+    // Also update if the plan covers the current date (for cross-plan synchronization)
+    const coversCurrentDate = Boolean(findMealPlanForDate([updatedPlan], currentDate));
+    if (coversCurrentDate && (!mealPlan || mealPlan._id !== updatedPlan._id)) {
+      console.log('🔄 Updating current meal plan');
       setMealPlan(updatedPlan);
       setMealPlans([updatedPlan]);
     }
@@ -847,6 +1001,7 @@ export default function MealPlanningPage() {
             lunch: day.lunch || [],
             dinner: day.dinner || [],
             snacks: day.snacks || [],
+            customMeals: day.customMeals || {},
             dailyNotes: day.dailyNotes
           })),
           tags: updatedPlan.tags || [],
@@ -857,8 +1012,7 @@ export default function MealPlanningPage() {
         console.log('📡 Sending PUT request to /api/meal-plans/' + updatedPlan._id, {
           totalDays: mealPlanData.days.length,
           totalMealsToSave: mealPlanData.days.reduce((total, day) => 
-            total + (day.breakfast?.length || 0) + (day.lunch?.length || 0) + 
-            (day.dinner?.length || 0) + (day.snacks?.length || 0), 0
+            total + countDayMeals(day), 0
           )
         });
 
@@ -896,9 +1050,8 @@ export default function MealPlanningPage() {
         console.log('🆕 Creating new meal plan in database...');
         
         const createData = {
-          weekStartDate: updatedPlan.weekStartDate instanceof Date 
-            ? updatedPlan.weekStartDate.toISOString() 
-            : updatedPlan.weekStartDate,
+          startDate: toDateKey(new Date(updatedPlan.startDate)),
+          endDate: toDateKey(new Date(updatedPlan.endDate)),
           title: updatedPlan.title,
           days: updatedPlan.days.map(day => ({
             ...day,
@@ -930,10 +1083,10 @@ export default function MealPlanningPage() {
           
           // Update both global and local storage with the database ID
           const finalGlobalPlans = new Map(globalMealPlans);
-          finalGlobalPlans.set(weekKey, savedPlan);
+          finalGlobalPlans.set(planKey, savedPlan);
           setGlobalMealPlans(finalGlobalPlans);
           
-          if (mealPlan && (mealPlan._id === updatedPlan._id || weekKey === currentWeekKey)) {
+          if (mealPlan && (mealPlan._id === updatedPlan._id || coversCurrentDate)) {
             setMealPlan(savedPlan);
             setMealPlans([savedPlan]);
           }
@@ -957,6 +1110,72 @@ export default function MealPlanningPage() {
     }
   };
 
+  // Puts one side of an undone or redone edit back into its plan
+  const applyHistoryEntry = async (entry: MealPlanHistoryEntry<DayMeals>, days: DayMeals[]) => {
+    const plan = findLoadedMealPlan(entry.planId);
+    if (!plan) return;
+
+    // A pending calendar auto-save would bring the edit back
+    MealPlanService.cancelPendingSave(entry.planId);
+    await updateMealPlan({ ...plan, days, updatedAt: new Date() }, { recordHistory: false });
+    setForceRefreshKey(prev => prev + 1);
+  };
+
+  const handleUndo = async () => {
+    const result = undoMealPlanChange(editHistory);
+    if (!result) return;
+
+    console.log('↩️ Undo:', result.entry.operation.label);
+    setEditHistory(result.history);
+    await applyHistoryEntry(result.entry, result.entry.before);
+  };
+
+  const handleRedo = async () => {
+    const result = redoMealPlanChange(editHistory);
+    if (!result) return;
+
+    console.log('↪️ Redo:', result.entry.operation.label);
+    setEditHistory(result.history);
+    await applyHistoryEntry(result.entry, result.entry.after);
+  };
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z and Ctrl/Cmd+Y redo - not while typing or in a dialog
+  useEffect(() => {
+    if (!keyboardShortcutsEnabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      if (document.querySelector('[role="dialog"]')) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        handleRedo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // The server already stored the restored version, this shows it and makes it undoable
+  const handleRevisionRestored = async (days: DayMeals[], revision: RevisionSummary) => {
+    if (!mealPlan?._id) return;
+
+    MealPlanService.cancelPendingSave(mealPlan._id);
+    await updateMealPlan(
+      { ...mealPlan, days: days.map(day => ({ ...day, date: new Date(day.date) })), updatedAt: new Date() },
+      { historyLabel: `Restored the version of ${format(new Date(revision.createdAt), 'MMM d, HH:mm')}` }
+    );
+    setForceRefreshKey(prev => prev + 1);
+  };
+
   // 📅 WEEK NAVIGATION: Handle Previous/Next Week navigation
   const handleWeekNavigation = async (direction: 'previous' | 'next' | 'current') => {
     if (!session?.user?.email) {
@@ -966,45 +1185,48 @@ export default function MealPlanningPage() {
 
     console.log(`📅 Week Navigation: Starting ${direction} navigation`);
     
-    // Calculate target week based on current meal plan or current date
-    const baseDate = mealPlan?.weekStartDate ? new Date(mealPlan.weekStartDate) : getWeekStartDate(currentDate);
+    // The day next to the current plan's range, and the week to plan there if it has no plan yet
+    const rangeStart = mealPlan?.startDate ? new Date(mealPlan.startDate) : getWeekStartDate(currentDate, weekStartsOn);
+    const rangeEnd = mealPlan?.endDate ? new Date(mealPlan.endDate) : addDaysToDate(rangeStart, 6);
+    let targetDate: Date;
     let targetWeekStart: Date;
 
     switch (direction) {
       case 'previous':
-        targetWeekStart = new Date(baseDate);
-        targetWeekStart.setDate(targetWeekStart.getDate() - 7);
+        targetDate = addDaysToDate(rangeStart, -1);
+        targetWeekStart = addDaysToDate(targetDate, -6);
         break;
       case 'next':
-        targetWeekStart = new Date(baseDate);
-        targetWeekStart.setDate(targetWeekStart.getDate() + 7);
+        targetDate = addDaysToDate(rangeEnd, 1);
+        targetWeekStart = targetDate;
         break;
       case 'current':
-        targetWeekStart = getWeekStartDate(new Date());
+        targetDate = new Date();
+        targetWeekStart = getWeekStartDate(targetDate, weekStartsOn);
         break;
       default:
         console.log('❌ Invalid navigation direction:', direction);
         return;
     }
 
-    const targetWeekKey = targetWeekStart.toISOString().split('T')[0];
-    console.log(`📅 Week Navigation: Moving ${direction} to week:`, targetWeekKey);
+    const targetDateKey = toDateKey(targetDate);
+    console.log(`📅 Week Navigation: Moving ${direction} to the plan covering:`, targetDateKey);
 
     try {
-      // 1. Check if we already have this week's meal plan in memory
-      if (globalMealPlans.has(targetWeekKey)) {
-        const existingPlan = globalMealPlans.get(targetWeekKey)!;
-        console.log('📅 Found existing meal plan in memory for target week');
+      // 1. Check if we already have the plan covering the target date in memory
+      const existingPlan = findMealPlanForDate(globalMealPlans.values(), targetDate);
+      if (existingPlan) {
+        console.log('📅 Found existing meal plan in memory for target date');
         setMealPlan(existingPlan);
-        setCurrentDate(targetWeekStart);
+        setCurrentDate(new Date(existingPlan.startDate));
         setForceRefreshKey(prev => prev + 1);
         triggerGlobalMealPlanSync();
         return;
       }
 
-      // 2. Try to load meal plan for this week from database
-      console.log(`📅 Fetching meal plan for week: ${targetWeekStart.toISOString()}`);
-      const response = await fetch(`/api/meal-plans?weekStart=${targetWeekStart.toISOString()}`);
+      // 2. Try to load the meal plan covering the target date from database
+      console.log(`📅 Fetching meal plan for date: ${targetDateKey}`);
+      const response = await fetch(`/api/meal-plans?date=${targetDateKey}`);
       
       if (!response.ok) {
         console.log(`📅 API response not OK: ${response.status} ${response.statusText}`);
@@ -1017,13 +1239,13 @@ export default function MealPlanningPage() {
       
       if (plans.length > 0) {
         const targetPlan = plans[0];
-        console.log('📅 Loaded meal plan from database for target week');
+        console.log('📅 Loaded meal plan from database for target date');
         
         // Convert date strings to Date objects
         const normalizedPlan = {
           ...targetPlan,
-          weekStartDate: new Date(targetPlan.weekStartDate),
-          weekEndDate: new Date(targetPlan.weekEndDate),
+          startDate: new Date(targetPlan.startDate),
+          endDate: new Date(targetPlan.endDate),
           days: targetPlan.days.map((day: any) => ({
             ...day,
             date: new Date(day.date)
@@ -1032,16 +1254,16 @@ export default function MealPlanningPage() {
 
         // Store in global plans
         const updatedGlobalPlans = new Map(globalMealPlans);
-        updatedGlobalPlans.set(targetWeekKey, normalizedPlan);
+        updatedGlobalPlans.set(getMealPlanKey(normalizedPlan), normalizedPlan);
         setGlobalMealPlans(updatedGlobalPlans);
         
         setMealPlan(normalizedPlan);
-        setCurrentDate(targetWeekStart);
+        setCurrentDate(normalizedPlan.startDate);
         setForceRefreshKey(prev => prev + 1);
         triggerGlobalMealPlanSync();
         return;
       } else {
-        console.log('📅 No meal plans found for target week, will create new one');
+        console.log('📅 No meal plans found for target date, will create new one');
       }
 
       // 3. Create new empty meal plan for this week (only if navigation is intentional)
@@ -1050,7 +1272,7 @@ export default function MealPlanningPage() {
       
       // Store in global plans
       const updatedGlobalPlans = new Map(globalMealPlans);
-      updatedGlobalPlans.set(targetWeekKey, newPlan);
+      updatedGlobalPlans.set(getMealPlanKey(newPlan), newPlan);
       setGlobalMealPlans(updatedGlobalPlans);
       
       setMealPlan(newPlan);
@@ -1071,7 +1293,7 @@ export default function MealPlanningPage() {
       console.log('📅 Creating fallback empty meal plan due to error');
       const newPlan = createEmptyMealPlan(session?.user?.email || 'current-user', targetWeekStart);
       const updatedGlobalPlans = new Map(globalMealPlans);
-      updatedGlobalPlans.set(targetWeekKey, newPlan);
+      updatedGlobalPlans.set(getMealPlanKey(newPlan), newPlan);
       setGlobalMealPlans(updatedGlobalPlans);
       setMealPlan(newPlan);
       setCurrentDate(targetWeekStart);
@@ -1096,8 +1318,8 @@ export default function MealPlanningPage() {
         
         if (isDateId) {
           // Legacy date-based ID - create meal plan for that week
-          const weekDate = new Date(mealPlanId);
-          const weekStart = getWeekStartDate(weekDate);
+          const weekDate = parseDateInput(mealPlanId) || new Date();
+          const weekStart = getWeekStartDate(weekDate, weekStartsOn);
           console.log('Loading meal plan for date-based ID:', mealPlanId, 'week start:', weekStart);
           
           // For now, create a local meal plan
@@ -1107,11 +1329,11 @@ export default function MealPlanningPage() {
           setCurrentDate(weekStart);
           
           // Add to global storage
-          const weekKey = weekStart.toISOString().split('T')[0];
+          const planKey = getMealPlanKey(newPlan);
           const updatedGlobalPlans = new Map(globalMealPlans);
-          updatedGlobalPlans.set(weekKey, newPlan);
+          updatedGlobalPlans.set(planKey, newPlan);
           setGlobalMealPlans(updatedGlobalPlans);
-          console.log('🗃️ Stored new date-based meal plan in global storage for week:', weekKey);
+          console.log('🗃️ Stored new date-based meal plan in global storage for week:', planKey);
         } else {
           // Database ID - fetch from MongoDB
           console.log('Loading meal plan by database ID:', mealPlanId);
@@ -1122,37 +1344,38 @@ export default function MealPlanningPage() {
             const plan = result.data; // Extract the actual meal plan from API response
             
             // Convert date strings back to Date objects
-            plan.weekStartDate = new Date(plan.weekStartDate);
+            plan.startDate = new Date(plan.startDate);
+            plan.endDate = new Date(plan.endDate);
             plan.days.forEach((day: { date: string | Date }) => {
               day.date = new Date(day.date);
             });
             
-            console.log('📥 Loaded meal plan from database with', plan.days.reduce((total: number, day: any) => total + day.breakfast.length + day.lunch.length + day.dinner.length + day.snacks.length, 0), 'total meals');
+            console.log('📥 Loaded meal plan from database with', plan.days.reduce((total: number, day: any) => total + countDayMeals(day), 0), 'total meals');
             
             setMealPlan(plan);
             setMealPlans([plan]);
-            setCurrentDate(plan.weekStartDate);
+            setCurrentDate(plan.startDate);
             
             // IMPORTANT: Add loaded plan to global storage to prevent loss during view changes
-            const weekKey = getWeekStartDate(plan.weekStartDate).toISOString().split('T')[0];
+            const planKey = getMealPlanKey(plan);
             const updatedGlobalPlans = new Map(globalMealPlans);
-            updatedGlobalPlans.set(weekKey, plan);
+            updatedGlobalPlans.set(planKey, plan);
             setGlobalMealPlans(updatedGlobalPlans);
-            console.log('🗃️ Stored loaded meal plan in global storage for week:', weekKey);
+            console.log('🗃️ Stored loaded meal plan in global storage, starting:', planKey);
           } else if (response.status === 404) {
             // Meal plan not found - create a new one for current week
-            const weekStart = getWeekStartDate(new Date());
+            const weekStart = getWeekStartDate(new Date(), weekStartsOn);
             const newPlan = createEmptyMealPlan(session.user.email, weekStart);
             setMealPlan(newPlan);
             setMealPlans([newPlan]);
             setCurrentDate(weekStart);
             
             // Add to global storage
-            const weekKey = weekStart.toISOString().split('T')[0];
+            const planKey = getMealPlanKey(newPlan);
             const updatedGlobalPlans = new Map(globalMealPlans);
-            updatedGlobalPlans.set(weekKey, newPlan);
+            updatedGlobalPlans.set(planKey, newPlan);
             setGlobalMealPlans(updatedGlobalPlans);
-            console.log('🗃️ Stored 404 fallback meal plan in global storage for week:', weekKey);
+            console.log('🗃️ Stored 404 fallback meal plan in global storage for week:', planKey);
           } else {
             throw new Error(`Failed to load meal plan: ${response.statusText}`);
           }
@@ -1162,18 +1385,18 @@ export default function MealPlanningPage() {
         setError(err instanceof Error ? err.message : 'Failed to load meal plan');
         
         // Fallback: create a new meal plan for current week
-        const weekStart = getWeekStartDate(new Date());
+        const weekStart = getWeekStartDate(new Date(), weekStartsOn);
         const newPlan = createEmptyMealPlan(session.user.email, weekStart);
         setMealPlan(newPlan);
         setMealPlans([newPlan]);
         setCurrentDate(weekStart);
         
         // Add to global storage
-        const weekKey = weekStart.toISOString().split('T')[0];
+        const planKey = getMealPlanKey(newPlan);
         const updatedGlobalPlans = new Map(globalMealPlans);
-        updatedGlobalPlans.set(weekKey, newPlan);
+        updatedGlobalPlans.set(planKey, newPlan);
         setGlobalMealPlans(updatedGlobalPlans);
-        console.log('🗃️ Stored error fallback meal plan in global storage for week:', weekKey);
+        console.log('🗃️ Stored error fallback meal plan in global storage for week:', planKey);
       } finally {
         setIsLoading(false);
       }
@@ -1184,28 +1407,23 @@ export default function MealPlanningPage() {
 
   // Function to refresh meal plan data - Enhanced with Weekly View specific handling
   const refreshCurrentMealPlan = useCallback(() => {
-    const weekKey = getWeekStartDate(currentDate).toISOString().split('T')[0];
+    const dateKey = toDateKey(currentDate);
+    const mealPlanCoversDate = Boolean(mealPlan?.startDate && findMealPlanForDate([mealPlan], currentDate));
     
-    console.log('🔄 RefreshCurrentMealPlan called for week:', weekKey, 'current viewMode:', viewMode);
+    console.log('🔄 RefreshCurrentMealPlan called for date:', dateKey, 'current viewMode:', viewMode);
     console.log('🔄 Current globalMealPlans keys:', Array.from(globalMealPlans.keys()));
-    console.log('🔄 Current mealPlan exists:', !!mealPlan, 'with meals:', mealPlan?.days.reduce((total, day) => total + day.breakfast.length + day.lunch.length + day.dinner.length + day.snacks.length, 0) || 0);
+    console.log('🔄 Current mealPlan exists:', !!mealPlan, 'with meals:', mealPlan?.days.reduce((total, day) => total + countDayMeals(day), 0) || 0);
     
     // WEEKLY VIEW SPECIFIC HANDLING - Force refresh from globalMealPlans
     if (viewMode === 'weekly') {
       console.log('📅 Weekly view detected - performing ENHANCED refresh');
       
-      // Check ALL meal plans in global storage for this week
-      let foundPlan = null;
-      for (const [storedWeekKey, storedPlan] of globalMealPlans.entries()) {
-        if (storedWeekKey === weekKey) {
-          foundPlan = storedPlan;
-          break;
-        }
-      }
+      // Check ALL meal plans in global storage for the one covering this date
+      const foundPlan = findMealPlanForDate(globalMealPlans.values(), currentDate);
       
       if (foundPlan) {
         const mealCount = foundPlan.days.reduce((total, day) => 
-          total + day.breakfast.length + day.lunch.length + day.dinner.length + day.snacks.length, 0
+          total + countDayMeals(day), 0
         );
         console.log(`✅ Weekly: Found plan in globalMealPlans with ${mealCount} meals`);
         
@@ -1217,7 +1435,8 @@ export default function MealPlanningPage() {
             breakfast: [...day.breakfast],
             lunch: [...day.lunch],
             dinner: [...day.dinner],
-            snacks: [...day.snacks]
+            snacks: [...day.snacks],
+            customMeals: { ...day.customMeals }
           }))
         };
         
@@ -1230,36 +1449,33 @@ export default function MealPlanningPage() {
       }
       
       // Check if current meal plan is correct but not in global storage
-      if (mealPlan && mealPlan.weekStartDate) {
-        const mealPlanWeekKey = getWeekStartDate(mealPlan.weekStartDate).toISOString().split('T')[0];
-        if (mealPlanWeekKey === weekKey) {
-          const mealCount = mealPlan.days.reduce((total, day) => 
-            total + day.breakfast.length + day.lunch.length + day.dinner.length + day.snacks.length, 0
-          );
+      if (mealPlan && mealPlanCoversDate) {
+        const mealCount = mealPlan.days.reduce((total, day) => 
+          total + countDayMeals(day), 0
+        );
+        
+        if (mealCount > 0) {
+          console.log(`✅ Weekly: Current mealPlan has ${mealCount} meals for correct dates`);
           
-          if (mealCount > 0) {
-            console.log(`✅ Weekly: Current mealPlan has ${mealCount} meals for correct week`);
-            
-            // Add to global storage
-            const updatedGlobalPlans = new Map(globalMealPlans);
-            updatedGlobalPlans.set(weekKey, { ...mealPlan });
-            setGlobalMealPlans(updatedGlobalPlans);
-            
-            // Force refresh state
-            setMealPlan({ ...mealPlan });
-            setMealPlans([{ ...mealPlan }]);
-            setForceRefreshKey(prev => prev + 1);
-            
-            console.log('✅ Weekly: Added current plan to global storage and refreshed');
-            return;
-          }
+          // Add to global storage
+          const updatedGlobalPlans = new Map(globalMealPlans);
+          updatedGlobalPlans.set(getMealPlanKey(mealPlan), { ...mealPlan });
+          setGlobalMealPlans(updatedGlobalPlans);
+          
+          // Force refresh state
+          setMealPlan({ ...mealPlan });
+          setMealPlans([{ ...mealPlan }]);
+          setForceRefreshKey(prev => prev + 1);
+          
+          console.log('✅ Weekly: Added current plan to global storage and refreshed');
+          return;
         }
       }
       
-      console.log('⚠️ Weekly: No data found for week:', weekKey, '- creating empty plan');
+      console.log('⚠️ Weekly: No data found for date:', dateKey, '- creating empty plan');
       
       // Create empty plan for weekly view if nothing exists
-      const emptyPlan = createEmptyMealPlan(session?.user?.email || 'current-user', getWeekStartDate(currentDate));
+      const emptyPlan = createEmptyMealPlan(session?.user?.email || 'current-user', getWeekStartDate(currentDate, weekStartsOn));
       setMealPlan(emptyPlan);
       setMealPlans([emptyPlan]);
       setForceRefreshKey(prev => prev + 1);
@@ -1268,9 +1484,9 @@ export default function MealPlanningPage() {
     
     // GENERAL VIEW HANDLING (Today/Monthly)
     // First check if we have the meal plan in global storage
-    const existingPlan = globalMealPlans.get(weekKey);
+    const existingPlan = findMealPlanForDate(globalMealPlans.values(), currentDate);
     if (existingPlan) {
-      console.log('🔄 Found in globalMealPlans for week:', weekKey, 'with', existingPlan.days.reduce((total, day) => total + day.breakfast.length + day.lunch.length + day.dinner.length + day.snacks.length, 0), 'meals');
+      console.log('🔄 Found in globalMealPlans for date:', dateKey, 'with', existingPlan.days.reduce((total, day) => total + countDayMeals(day), 0), 'meals');
       
       // Force update local state with proper synchronization
       setMealPlan(existingPlan);
@@ -1278,53 +1494,39 @@ export default function MealPlanningPage() {
       return;
     }
     
-    // Check if current mealPlan is for this week (avoid creating new plans)
-    if (mealPlan && mealPlan.weekStartDate) {
-      const mealPlanWeekKey = getWeekStartDate(mealPlan.weekStartDate).toISOString().split('T')[0];
-      if (mealPlanWeekKey === weekKey) {
-        console.log('🔄 Current mealPlan is already for the correct week:', weekKey);
-        
-        // IMPORTANT: Add to global storage for persistence across view changes
-        const updatedGlobalPlans = new Map(globalMealPlans);
-        updatedGlobalPlans.set(weekKey, mealPlan);
-        setGlobalMealPlans(updatedGlobalPlans);
-        console.log('🗃️ Added current meal plan to global storage for persistence');
-        
-        // Keep current meal plan
-        setMealPlans([mealPlan]);
-        return;
-      }
-    }
-    
-    // Look through all stored plans for cross-week functionality
-    for (const [storedWeekKey, storedPlan] of globalMealPlans.entries()) {
-      if (storedWeekKey === weekKey) {
-        console.log('🔄 Found matching week plan in global storage:', storedWeekKey);
-        setMealPlan(storedPlan);
-        setMealPlans([storedPlan]);
-        return;
-      }
+    // Check if current mealPlan covers this date (avoid creating new plans)
+    if (mealPlan && mealPlanCoversDate) {
+      console.log('🔄 Current mealPlan already covers the date:', dateKey);
+      
+      // IMPORTANT: Add to global storage for persistence across view changes
+      const updatedGlobalPlans = new Map(globalMealPlans);
+      updatedGlobalPlans.set(getMealPlanKey(mealPlan), mealPlan);
+      setGlobalMealPlans(updatedGlobalPlans);
+      console.log('🗃️ Added current meal plan to global storage for persistence');
+      
+      // Keep current meal plan
+      setMealPlans([mealPlan]);
+      return;
     }
     
-    console.log('⚠️ No meal plan found for week:', weekKey, '- keeping current state');
+    console.log('⚠️ No meal plan found for date:', dateKey, '- keeping current state');
     
     // Note: Weekly mode is handled in the earlier conditional block above
     // This section handles today/monthly views only
-  }, [currentDate, globalMealPlans, mealPlan, viewMode]);
+  }, [currentDate, globalMealPlans, mealPlan, viewMode, weekStartsOn]);
 
   // Sync meal plan when view mode changes - Enhanced for better data persistence
   useEffect(() => {
     if (isLoading || !session?.user?.email) return;
     
     console.log('🔄 View mode changed to:', viewMode, 'refreshing meal plan for current date:', currentDate.toDateString());
-    console.log('🔄 Current meal plan before refresh:', mealPlan ? `${mealPlan.days.reduce((total, day) => total + day.breakfast.length + day.lunch.length + day.dinner.length + day.snacks.length, 0)} meals` : 'null');
+    console.log('🔄 Current meal plan before refresh:', mealPlan ? `${mealPlan.days.reduce((total, day) => total + countDayMeals(day), 0)} meals` : 'null');
     console.log('🔄 Global plans available:', Array.from(globalMealPlans.keys()));
     
     // Ensure current meal plan is saved to global storage before switching views
     if (mealPlan) {
-      const currentWeekKey = getWeekStartDate(mealPlan.weekStartDate).toISOString().split('T')[0];
       const updatedGlobalPlans = new Map(globalMealPlans);
-      updatedGlobalPlans.set(currentWeekKey, mealPlan);
+      updatedGlobalPlans.set(getMealPlanKey(mealPlan), mealPlan);
       setGlobalMealPlans(updatedGlobalPlans);
       console.log('🗃️ Saved current meal plan to global storage before view switch');
     }
@@ -1348,7 +1550,7 @@ export default function MealPlanningPage() {
     
     // Try YYYY-MM-DD format
     if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
-      targetDate = new Date(value);
+      targetDate = parseDateInput(value);
     }
     // Try DD/MM/YYYY format
     else if (/^\d{2}\/\d{2}\/\d{4}$/.test(value)) {
@@ -1375,11 +1577,10 @@ export default function MealPlanningPage() {
     if (targetDate && !isNaN(targetDate.getTime())) {
       setCurrentDate(targetDate);
       
-      // Update meal plan for current week
-      const weekStart = getWeekStartDate(targetDate);
-      const newPlan = createEmptyMealPlan('current-user', weekStart);
-      setMealPlan(newPlan);
-      setMealPlans([newPlan]);
+      // Show the meal plan covering the date
+      const targetPlan = getOrCreateMealPlan(targetDate);
+      setMealPlan(targetPlan);
+      setMealPlans([targetPlan]);
     }
   };
 
@@ -1404,10 +1605,7 @@ export default function MealPlanningPage() {
       }
       setCurrentDate(newDate);
       
-      const targetWeekStart = getWeekStartDate(newDate);
-      const weekKey = targetWeekStart.toISOString().split('T')[0];
-      
-      const existingPlan = globalMealPlans.get(weekKey);
+      const existingPlan = findMealPlanForDate(globalMealPlans.values(), newDate);
       if (existingPlan) {
         setMealPlan(existingPlan);
         setMealPlans([existingPlan]);
@@ -1428,10 +1626,7 @@ export default function MealPlanningPage() {
       }
       setCurrentDate(newDate);
       
-      const targetWeekStart = getWeekStartDate(newDate);
-      const weekKey = targetWeekStart.toISOString().split('T')[0];
-      
-      const existingPlan = globalMealPlans.get(weekKey);
+      const existingPlan = findMealPlanForDate(globalMealPlans.values(), newDate);
       if (existingPlan) {
         setMealPlan(existingPlan);
         setMealPlans([existingPlan]);
@@ -1447,10 +1642,7 @@ export default function MealPlanningPage() {
       const today = new Date();
       setCurrentDate(today);
       
-      const todayWeekStart = getWeekStartDate(today);
-      const weekKey = todayWeekStart.toISOString().split('T')[0];
-      
-      const existingPlan = globalMealPlans.get(weekKey);
+      const existingPlan = findMealPlanForDate(globalMealPlans.values(), today);
       if (existingPlan) {
         setMealPlan(existingPlan);
         setMealPlans([existingPlan]);
@@ -1471,14 +1663,13 @@ export default function MealPlanningPage() {
         year: 'numeric'
       });
     } else if (viewMode === 'weekly') {
-      // FIXED: Use meal plan's actual week start date instead of calculating from currentDate
-      const weekStart = mealPlan?.weekStartDate ? new Date(mealPlan.weekStartDate) : getWeekStartDate(currentDate);
-      const weekEnd = new Date(weekStart);
-      weekEnd.setDate(weekEnd.getDate() + 6);
+      // Use the meal plan's own range instead of calculating from currentDate
+      const rangeStart = mealPlan?.startDate ? new Date(mealPlan.startDate) : getWeekStartDate(currentDate, weekStartsOn);
+      const rangeEnd = mealPlan?.endDate ? new Date(mealPlan.endDate) : addDaysToDate(rangeStart, 6);
       
-      console.log('📅 getDateRangeText: Using week start', weekStart.toDateString(), 'from meal plan:', !!mealPlan?.weekStartDate);
+      console.log('📅 getDateRangeText: Using range start', rangeStart.toDateString(), 'from meal plan:', !!mealPlan?.startDate);
       
-      return `${weekStart.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} - ${weekEnd.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
+      return `${rangeStart.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} - ${rangeEnd.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
     } else if (viewMode === 'monthly') {
       return currentDate.toLocaleDateString('en-US', { 
         month: 'long', 
@@ -1505,30 +1696,21 @@ export default function MealPlanningPage() {
   };
 
   // Handle adding meal from MonthlyCalendar (date-based)
-  const handleAddMealFromDate = (date: Date, mealType: 'breakfast' | 'lunch' | 'dinner' | 'snacks') => {
+  const handleAddMealFromDate = (date: Date, mealType: string) => {
     console.log('📅 handleAddMealFromDate called:', { date, mealType });
     
     // Normalize the date to avoid timezone issues
     const normalizedDate = new Date(date);
     normalizedDate.setHours(0, 0, 0, 0);
     
-    // Find which week this date belongs to and convert to dayOfWeek index
-    const weekStart = getWeekStartDate(normalizedDate);
-    const daysDiff = Math.floor((normalizedDate.getTime() - weekStart.getTime()) / (1000 * 60 * 60 * 24));
-    
-    console.log('📅 Adding meal for date:', normalizedDate.toDateString(), 'weekStart:', weekStart.toDateString(), 'daysDiff:', daysDiff);
+    // Find the plan covering this date (creating its week if needed) and the date's position in it
+    const targetPlan = getOrCreateMealPlan(normalizedDate);
+    const dayIndex = targetPlan.days.findIndex(day => toDateKey(day.date) === toDateKey(normalizedDate));
     
-    // Ensure we have a meal plan for this week
-    const weekKey = weekStart.toISOString().split('T')[0];
-    if (!globalMealPlans.has(weekKey)) {
-      const newPlan = createEmptyMealPlan('current-user', weekStart);
-      const updatedGlobalPlans = new Map(globalMealPlans);
-      updatedGlobalPlans.set(weekKey, newPlan);
-      setGlobalMealPlans(updatedGlobalPlans);
-    }
+    console.log('📅 Adding meal for date:', normalizedDate.toDateString(), 'plan start:', toDateKey(targetPlan.startDate), 'dayIndex:', dayIndex);
 
     const slot: MealPlanningSlot = {
-      dayOfWeek: daysDiff, // 0-6 (Monday to Sunday)
+      dayOfWeek: dayIndex,
       mealType: mealType,
       recipeId: '',
       recipeName: '',
@@ -1544,10 +1726,9 @@ export default function MealPlanningPage() {
   const handleRemoveMeal = async (planId: string, day: number, mealType: string, index: number) => {
     console.log('🗑️ handleRemoveMeal called:', { planId, day, mealType, index });
     
-    // Find the correct meal plan (could be from any week if called from monthly view)
-    const targetPlan = mealPlan;
+    // Find the correct meal plan (could be any plan if called from the today or monthly view)
+    const targetPlan = (planId && Array.from(globalMealPlans.values()).find(plan => plan._id === planId)) || mealPlan;
     
-    // If no current meal plan or if removing from a different week, find the correct one
     if (!targetPlan) {
       console.warn('No meal plan available for removal');
       return;
@@ -1557,14 +1738,27 @@ export default function MealPlanningPage() {
     const targetDay = updatedPlan.days[day];
     
     if (targetDay) {
-      const meals = targetDay[mealType as keyof typeof targetDay] as MealSlot[];
-      meals.splice(index, 1);
+      updatedPlan.days = updatedPlan.days.map((existingDay, dayIndex) => dayIndex !== day ? existingDay : setMealsOfType(
+        existingDay,
+        mealType,
+        getMealsOfType(existingDay, mealType).filter((_, mealIndex) => mealIndex !== index)
+      ));
       updatedPlan.updatedAt = new Date();
+
+      // Removing a batch-cooked meal also takes care of its leftovers
+      const reconciled = reconcileBatchSources(targetPlan.days, updatedPlan.days, change =>
+        window.confirm(getBatchSourceChangePrompt(change))
+      );
+      updatedPlan.days = reconciled.days;
       
       console.log('🗑️ Removing meal from day:', day, 'date:', targetDay.date.toDateString(), 'mealType:', mealType);
       
       // Update meal plan using centralized function with auto-save
       await updateMealPlan(updatedPlan);
+
+      if (reconciled.requests.length > 0) {
+        await handleSyncLeftovers(reconciled.requests, updatedPlan._id);
+      }
     }
   };
 
@@ -1604,25 +1798,29 @@ export default function MealPlanningPage() {
         notes: ''
       };
       
-      // Determine which week's meal plan to update - use targetDate if available (from monthly calendar)
+      // Determine which meal plan to update - use targetDate if available (from the today or monthly view)
       const targetDate = selectedSlot.targetDate || currentDate;
-      const targetWeekStart = getWeekStartDate(targetDate);
-      const weekKey = targetWeekStart.toISOString().split('T')[0];
       
-      console.log('handleQuickAddSubmit: Using targetDate:', targetDate.toDateString(), 'weekStart:', targetWeekStart.toDateString(), 'weekKey:', weekKey);
+      console.log('handleQuickAddSubmit: Using targetDate:', targetDate.toDateString());
       console.log('handleQuickAddSubmit: selectedSlot.dayOfWeek:', selectedSlot.dayOfWeek, 'targetDate set by user:', selectedSlot.targetDate?.toDateString());
       
-      // Get or create the meal plan for this week
+      // Get or create the meal plan covering this date
       const targetPlan = getOrCreateMealPlan(targetDate);
       const updatedPlan = { ...targetPlan };
-      const targetDay = updatedPlan.days[selectedSlot.dayOfWeek]; // Use array index
+      const dayIndex = selectedSlot.targetDate
+        ? updatedPlan.days.findIndex(day => toDateKey(day.date) === toDateKey(targetDate))
+        : selectedSlot.dayOfWeek; // Use array index
+      const targetDay = updatedPlan.days[dayIndex];
       
-      console.log('Adding meal to day:', selectedSlot.dayOfWeek, 'date:', targetDay?.date.toDateString(), 'mealType:', selectedSlot.mealType);
-      console.log('Week plan days:', updatedPlan.days.map((d, i) => `${i}: ${d.date.toDateString()}`));
+      console.log('Adding meal to day:', dayIndex, 'date:', targetDay?.date.toDateString(), 'mealType:', selectedSlot.mealType);
+      console.log('Plan days:', updatedPlan.days.map((d, i) => `${i}: ${d.date.toDateString()}`));
       
       if (targetDay) {
-        const meals = targetDay[selectedSlot.mealType as keyof typeof targetDay] as MealSlot[];
-        meals.push(mealSlot);
+        updatedPlan.days = updatedPlan.days.map((day, index) => index !== dayIndex ? day : setMealsOfType(
+          day,
+          selectedSlot.mealType!,
+          [...getMealsOfType(day, selectedSlot.mealType!), mealSlot]
+        ));
         updatedPlan.updatedAt = new Date();
         
         // Update meal plan using centralized function
@@ -1666,6 +1864,116 @@ export default function MealPlanningPage() {
     }
   };
 
+  const handleGenerateGroceryList = async (options: GenerateGroceryListOptions) => {
+    if (!mealPlan?._id) {
+      alert('Please add a meal to your plan before generating a shopping list.');
+      return;
+    }
+
+    setIsGeneratingGroceryList(true);
+    try {
+      const response = await fetch(`/api/meal-plans/${mealPlan._id}/grocery-list`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(options),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to generate shopping list');
+      }
+
+      console.log(`🛒 ${result.message}`);
+      setMealPlan(prev => prev ? { ...prev, shoppingListGenerated: true } : prev);
+      setShowGroceryModal(false);
+      router.push('/user/shopping-list');
+    } catch (error) {
+      console.error('❌ Error generating shopping list:', error);
+      alert(`Unable to generate shopping list: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsGeneratingGroceryList(false);
+    }
+  };
+
+  const handleGenerateMealPlan = async (options: GenerateMealPlanOptions): Promise<GenerateMealPlanResult | null> => {
+    if (!mealPlan) return null;
+
+    setIsGeneratingPlan(true);
+    try {
+      const hasStoredPlan = Boolean(mealPlan._id && mealPlan._id !== 'temp-id');
+      const response = await fetch('/api/meal-plans/generate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...options,
+          ...(hasStoredPlan ? { mealPlanId: mealPlan._id } : { startDate: toDateKey(new Date(mealPlan.startDate)), endDate: toDateKey(new Date(mealPlan.endDate)) }),
+          save: false, // updateMealPlan stores the result and syncs the other views
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to generate meal plan');
+      }
+
+      const days = mealPlan.days.map((day, index) => ({
+        ...day,
+        ...result.data.mealPlan.days[index],
+        date: day.date,
+      }));
+      await updateMealPlan({ ...mealPlan, days });
+      setForceRefreshKey(prev => prev + 1);
+
+      console.log(`🎲 Generated meal plan with seed ${result.data.seed}`);
+      return { emptySlots: result.data.emptySlots, seed: result.data.seed };
+    } catch (error) {
+      console.error('❌ Error generating meal plan:', error);
+      alert(`Unable to generate meal plan: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return null;
+    } finally {
+      setIsGeneratingPlan(false);
+    }
+  };
+
+  const handleApplyTemplate = async (template: MealPlanTemplate, selection: ApplyTemplateSelection): Promise<boolean> => {
+    if (!mealPlan) return false;
+
+    setIsApplyingTemplate(true);
+    try {
+      const hasStoredPlan = Boolean(mealPlan._id && mealPlan._id !== 'temp-id');
+      const response = await fetch(`/api/meal-plans/templates/${template._id}/apply`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...selection,
+          ...(hasStoredPlan ? { mealPlanId: mealPlan._id } : { startDate: toDateKey(new Date(mealPlan.startDate)), endDate: toDateKey(new Date(mealPlan.endDate)) }),
+          save: false, // updateMealPlan stores the result and syncs the other views
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to apply template');
+      }
+
+      const days = mealPlan.days.map((day, index) => ({
+        ...result.data.mealPlan.days[index],
+        date: day.date,
+      }));
+      await updateMealPlan({ ...mealPlan, days }, { historyLabel: `Applied the template "${template.name}"` });
+      setForceRefreshKey(prev => prev + 1);
+
+      console.log(`📚 Applied template "${template.name}"`);
+      return true;
+    } catch (error) {
+      console.error('❌ Error applying template:', error);
+      alert(`Unable to apply template: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return false;
+    } finally {
+      setIsApplyingTemplate(false);
+    }
+  };
+
   const handleSavePlan = async (options: SaveOptions) => {
     setIsSaving(true);
     
@@ -1677,6 +1985,7 @@ export default function MealPlanningPage() {
         console.log('📄 Generating enhanced PDF export...');
         await exportMealPlanToPDF(mealPlan, { 
           format: 'pdf',
+          mealTypes,
           filename: options.mealPlanTitle ? 
             `${options.mealPlanTitle.replace(/\s+/g, '-')}-${format(new Date(), 'yyyy-MM-dd')}.pdf` :
             `SmartPlates-MealPlan-${format(new Date(), 'yyyy-MM-dd')}.pdf`
@@ -1692,7 +2001,7 @@ export default function MealPlanningPage() {
           // Import the Google Calendar service
           const { exportToGoogleCalendar } = await import('@/services/googleCalendarService');
           
-          const result = await exportToGoogleCalendar(mealPlan);
+          const result = await exportToGoogleCalendar(mealPlan, mealTypes);
           
           if (result.success) {
             console.log('✅ Google Calendar export successful:', result.message);
@@ -1710,136 +2019,42 @@ export default function MealPlanningPage() {
       // Enhanced Grocery List Export
       if (options.includeShoppingList && mealPlan) {
         console.log('🛒 Generating enhanced grocery list...');
-        
-        // Collect ingredients from all meal types with enhanced ingredient fetching
-        const ingredientMap = new Map<string, { amount: string; unit: string; category: string }>();
-        
-        // 1. Collect all recipe IDs from the meal plan
-        const recipeIds: string[] = [];
-        mealPlan.days.forEach(day => {
-          [...day.breakfast, ...day.lunch, ...day.dinner, ...day.snacks].forEach(meal => {
-            if (meal.recipeId) {
-              recipeIds.push(meal.recipeId);
-            }
+
+        if (!mealPlan._id) {
+          alert('Please add a meal to your plan before downloading a grocery list.');
+        } else {
+          // Consolidated and scaled on the server; save: false only previews the list
+          const response = await fetch(`/api/meal-plans/${mealPlan._id}/grocery-list`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ save: false }),
           });
-        });
-        
-        console.log(`🔍 Found ${recipeIds.length} recipes to fetch ingredients for:`, recipeIds);
-        
-        // 2. Batch fetch ingredients from all three collections via API
-        const response = await fetch('/api/ingredients/batch-fetch', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ recipeIds }),
-        });
 
-        const recipeIngredientsMap = new Map<string, NormalizedIngredient[]>();
-        
-        if (response.ok) {
-          const result = await response.json();
-          if (result.success && result.data) {
-            // Convert object back to Map
-            Object.entries(result.data).forEach(([recipeId, ingredients]) => {
-              recipeIngredientsMap.set(recipeId, ingredients as NormalizedIngredient[]);
-            });
-            console.log(`✅ API: Fetched ingredients for ${recipeIngredientsMap.size} recipes`);
+          const result = response.ok ? await response.json() : null;
+          const groceryList = (result?.data?.items || []).map((item: { name: string; quantity: number; unit: string; section?: string }) => ({
+            name: item.name.charAt(0).toUpperCase() + item.name.slice(1), // Capitalize first letter
+            amount: item.quantity.toString(),
+            unit: item.unit,
+            section: item.section
+          }));
+
+          // Group the PDF in the order of the user's store layout
+          const preferencesResponse = await fetch('/api/users/preferences');
+          const preferences = preferencesResponse.ok ? await preferencesResponse.json() : null;
+          const sectionOrder: string[] | undefined = preferences?.data?.shopping?.storeSectionOrder;
+
+          if (groceryList.length > 0) {
+            const filename = options.mealPlanTitle ? 
+              `${options.mealPlanTitle.replace(/\s+/g, '-')}-grocery-list-${format(new Date(), 'yyyy-MM-dd')}.pdf` :
+              `SmartPlates-GroceryList-${format(new Date(), 'yyyy-MM-dd')}.pdf`;
+            
+            // Export as professional PDF with SmartPlates branding
+            exportGroceryListAsPDF(groceryList, filename, sectionOrder);
+            console.log('✅ Enhanced grocery list PDF exported with professional styling');
           } else {
-            console.warn('⚠️ API returned empty result:', result);
+            console.log('⚠️ No ingredients found for grocery list');
+            alert('No ingredients found in your meal plan to create a grocery list.');
           }
-        } else {
-          console.error('❌ API call failed:', response.status, response.statusText);
-        }
-        
-        // 3. Process each meal and get ingredients
-        mealPlan.days.forEach(day => {
-          [...day.breakfast, ...day.lunch, ...day.dinner, ...day.snacks].forEach(meal => {
-            console.log(`🔍 Processing meal: ${meal.recipeName} (ID: ${meal.recipeId})`);
-            
-            // Try to get ingredients from multiple sources
-            let ingredients: NormalizedIngredient[] = [];
-            
-            // First: Check if we fetched ingredients from database
-            if (meal.recipeId && recipeIngredientsMap.has(meal.recipeId)) {
-              ingredients = recipeIngredientsMap.get(meal.recipeId)!;
-              console.log(`✅ Using ${ingredients.length} ingredients from database for ${meal.recipeName}`);
-            }
-            // Fallback: Use existing meal.ingredients if available
-            else if (meal.ingredients && meal.ingredients.length > 0) {
-              ingredients = meal.ingredients.map((ing: any) => ({
-                name: ing.name || ing.original || 'Unknown ingredient',
-                amount: ing.amount?.toString() || '',
-                unit: ing.unit || '',
-                category: ing.category || ing.aisle || 'General',
-                original: ing.original || ing.name
-              }));
-              console.log(`✅ Using ${ingredients.length} ingredients from meal.ingredients for ${meal.recipeName}`);
-            }
-            // Last resort: Use recipe.extendedIngredients if available
-            else if (meal.recipe?.extendedIngredients && meal.recipe.extendedIngredients.length > 0) {
-              ingredients = meal.recipe.extendedIngredients.map((ing: any) => ({
-                name: ing.name || ing.nameClean || ing.original || 'Unknown ingredient',
-                amount: ing.amount?.toString() || ing.measures?.metric?.amount?.toString() || '',
-                unit: ing.unit || ing.measures?.metric?.unitShort || '',
-                category: ing.aisle || 'General',
-                original: ing.original || ing.name
-              }));
-              console.log(`✅ Using ${ingredients.length} ingredients from meal.recipe.extendedIngredients for ${meal.recipeName}`);
-            }
-            
-            if (ingredients.length === 0) {
-              console.log(`⚠️ No ingredients found for meal: ${meal.recipeName} (ID: ${meal.recipeId})`);
-            }
-            
-            // Add ingredients to the map
-            ingredients.forEach((ingredient) => {
-              const cleanName = ingredient.name.toLowerCase().trim();
-              
-              if (ingredientMap.has(cleanName)) {
-                // Ingredient already exists, could combine amounts here
-                const existing = ingredientMap.get(cleanName)!;
-                // For now, just keep the first occurrence
-                console.log(`🔄 Ingredient already exists: ${cleanName}`);
-              } else {
-                ingredientMap.set(cleanName, {
-                  amount: ingredient.amount || '',
-                  unit: ingredient.unit || '',
-                  category: ingredient.category || 'General'
-                });
-                console.log(`➕ Added ingredient: ${cleanName} (${ingredient.amount} ${ingredient.unit})`);
-              }
-            });
-          });
-        });
-        
-        console.log(`📊 Total unique ingredients collected: ${ingredientMap.size}`);
-        
-        // Convert to array and sort by category
-        const groceryList = Array.from(ingredientMap.entries()).map(([name, details]) => ({
-          name: name.charAt(0).toUpperCase() + name.slice(1), // Capitalize first letter
-          amount: details.amount,
-          unit: details.unit,
-          category: details.category
-        })).sort((a, b) => {
-          // Sort by category first, then by name
-          if (a.category !== b.category) {
-            return a.category.localeCompare(b.category);
-          }
-          return a.name.localeCompare(b.name);
-        });
-        
-        if (groceryList.length > 0) {
-          const filename = options.mealPlanTitle ? 
-            `${options.mealPlanTitle.replace(/\s+/g, '-')}-grocery-list-${format(new Date(), 'yyyy-MM-dd')}.pdf` :
-            `SmartPlates-GroceryList-${format(new Date(), 'yyyy-MM-dd')}.pdf`;
-          
-          // Export as professional PDF with SmartPlates branding
-          exportGroceryListAsPDF(groceryList, filename);
-          console.log('✅ Enhanced grocery list PDF exported with professional styling');
-        } else {
-          console.log('⚠️ No ingredients found for grocery list');
-          alert('No ingredients found in your meal plan to create a grocery list.');
         }
       }
       
@@ -1877,7 +2092,8 @@ export default function MealPlanningPage() {
         
         const processedPlans = allPlans.map((plan: any) => ({
           ...plan,
-          weekStartDate: new Date(plan.weekStartDate),
+          startDate: new Date(plan.startDate),
+          endDate: new Date(plan.endDate),
           days: plan.days.map((day: any) => ({
             ...day,
             date: new Date(day.date)
@@ -1903,13 +2119,13 @@ export default function MealPlanningPage() {
     
     const totalRecipes = allUserMealPlans.reduce((total, plan) => 
       total + plan.days.reduce((dayTotal, day) => 
-        dayTotal + day.breakfast.length + day.lunch.length + day.dinner.length + day.snacks.length, 0
+        dayTotal + countDayMeals(day), 0
       ), 0
     );
     
     const plannedDays = allUserMealPlans.reduce((total, plan) => 
       total + plan.days.filter(day =>
-        day.breakfast.length > 0 || day.lunch.length > 0 || day.dinner.length > 0 || day.snacks.length > 0
+        countDayMeals(day) > 0
       ).length, 0
     );
     
@@ -2102,6 +2318,102 @@ export default function MealPlanningPage() {
                 >
                   <span className="hidden sm:inline">📄</span> Save Plan
                 </Button>
+
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowGroceryModal(true)}
+                  disabled={!mealPlan}
+                  className="flex items-center gap-2 bg-white hover:bg-blue-50 border-blue-200 whitespace-nowrap h-8 sm:h-9 text-xs sm:text-sm px-3 sm:px-4"
+                  title="Generate shopping list from this week"
+                >
+                  <span className="hidden sm:inline">🛒</span> Shopping List
+                </Button>
+
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowGenerateModal(true)}
+                  disabled={!mealPlan}
+                  className="flex items-center gap-2 bg-white hover:bg-blue-50 border-blue-200 whitespace-nowrap h-8 sm:h-9 text-xs sm:text-sm px-3 sm:px-4"
+                  title="Fill this week automatically from the recipe catalogue"
+                >
+                  <span className="hidden sm:inline">🎲</span> Generate Week
+                </Button>
+
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowMealTypesModal(true)}
+                  className="flex items-center gap-2 bg-white hover:bg-blue-50 border-blue-200 whitespace-nowrap h-8 sm:h-9 text-xs sm:text-sm px-3 sm:px-4"
+                  title="Choose your meal types, their times and colours"
+                >
+                  <span className="hidden sm:inline">🕒</span> Meal Types
+                </Button>
+
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowHouseholdModal(true)}
+                  className="flex items-center gap-2 bg-white hover:bg-blue-50 border-blue-200 whitespace-nowrap h-8 sm:h-9 text-xs sm:text-sm px-3 sm:px-4"
+                  title="Set up the people you cook for, their diets, allergies and portions"
+                >
+                  <span className="hidden sm:inline">👪</span> Household
+                </Button>
+
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowRotationModal(true)}
+                  className="flex items-center gap-2 bg-white hover:bg-blue-50 border-blue-200 whitespace-nowrap h-8 sm:h-9 text-xs sm:text-sm px-3 sm:px-4"
+                  title="Alternate between your templates every week"
+                >
+                  <span className="hidden sm:inline">🔁</span> Rotation
+                </Button>
+
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowTemplateLibraryModal(true)}
+                  disabled={!mealPlan}
+                  className="flex items-center gap-2 bg-white hover:bg-blue-50 border-blue-200 whitespace-nowrap h-8 sm:h-9 text-xs sm:text-sm px-3 sm:px-4"
+                  title="Start this plan from a template"
+                >
+                  <span className="hidden sm:inline">📚</span> Templates
+                </Button>
+
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleUndo}
+                  disabled={editHistory.undo.length === 0}
+                  className="flex items-center gap-2 bg-white hover:bg-blue-50 border-blue-200 whitespace-nowrap h-8 sm:h-9 text-xs sm:text-sm px-3 sm:px-4"
+                  title={editHistory.undo.length > 0 ? `Undo: ${editHistory.undo[editHistory.undo.length - 1].operation.label}${keyboardShortcutsEnabled ? ' (Ctrl+Z)' : ''}` : 'Nothing to undo'}
+                >
+                  <span className="hidden sm:inline">↩️</span> Undo
+                </Button>
+
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleRedo}
+                  disabled={editHistory.redo.length === 0}
+                  className="flex items-center gap-2 bg-white hover:bg-blue-50 border-blue-200 whitespace-nowrap h-8 sm:h-9 text-xs sm:text-sm px-3 sm:px-4"
+                  title={editHistory.redo.length > 0 ? `Redo: ${editHistory.redo[editHistory.redo.length - 1].operation.label}${keyboardShortcutsEnabled ? ' (Ctrl+Shift+Z)' : ''}` : 'Nothing to redo'}
+                >
+                  <span className="hidden sm:inline">↪️</span> Redo
+                </Button>
+
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowRevisionHistoryModal(true)}
+                  disabled={!mealPlan?._id || mealPlan._id === 'temp-id'}
+                  className="flex items-center gap-2 bg-white hover:bg-blue-50 border-blue-200 whitespace-nowrap h-8 sm:h-9 text-xs sm:text-sm px-3 sm:px-4"
+                  title="See and restore earlier versions of this plan"
+                >
+                  <span className="hidden sm:inline">🕘</span> History
+                </Button>
               </div>
             </div>
 
@@ -2177,6 +2489,7 @@ export default function MealPlanningPage() {
                 copiedRecipe={copiedRecipe}
                 onClearCopiedRecipe={handleClearCopiedRecipe}
                 onMealPlanChange={updateMealPlan}
+                mealTypes={mealTypes}
               />
             </div>
           )}
@@ -2185,7 +2498,7 @@ export default function MealPlanningPage() {
             <div id="weekly-calendar-container" className="weekly-calendar-container">
               {mealPlan ? (
                 <WeeklyCalendar
-                key={`weekly-${mealPlan._id}-${forceRefreshKey}-${mealPlan.weekStartDate?.toISOString()}`}
+                key={`weekly-${mealPlan._id}-${forceRefreshKey}-${mealPlan.startDate ? toDateKey(new Date(mealPlan.startDate)) : ''}`}
                 mealPlan={mealPlan}
                 mealPlans={Array.from(globalMealPlans.values())}
                 currentDate={currentDate}
@@ -2194,8 +2507,7 @@ export default function MealPlanningPage() {
                     id: updatedPlan._id,
                     title: updatedPlan.title,
                     totalMeals: updatedPlan.days.reduce((total, day) => 
-                      total + (day.breakfast?.length || 0) + (day.lunch?.length || 0) + 
-                      (day.dinner?.length || 0) + (day.snacks?.length || 0), 0
+                      total + countDayMeals(day), 0
                     )
                   });
                   await updateMealPlan(updatedPlan);
@@ -2208,9 +2520,17 @@ export default function MealPlanningPage() {
                   setShowQuickAdd(true);
                 }}
                 onWeekNavigation={handleWeekNavigation}
+                weekStartsOn={weekStartsOn}
+                mealTypes={mealTypes}
+                dayNutrition={nutritionByDate}
+                householdMembers={householdMembers}
+                recipeConflicts={recipeConflicts}
                 onRemoveMeal={handleRemoveMeal}
                 onShowRecipe={handleShowRecipe}
                 onCopyRecipe={handleCopyRecipe}
+                onMealCooked={handleMealCooked}
+                leftoverSettings={leftoverSettings}
+                onSyncLeftovers={handleSyncLeftovers}
                 copiedRecipe={copiedRecipe}
                 onClearCopiedRecipe={handleClearCopiedRecipe}
                 />
@@ -2235,29 +2555,33 @@ export default function MealPlanningPage() {
               <MonthlyCalendar
               currentDate={currentDate}
               mealPlans={Array.from(globalMealPlans.values())}
+              weekStartsOn={weekStartsOn}
+              mealTypes={mealTypes}
+              dayNutrition={nutritionByDate}
               onAddRecipe={handleAddMealFromDate}
               onRemoveMeal={handleRemoveMeal}
               onShowRecipe={handleShowRecipe}
               onCopyRecipe={handleCopyRecipe}
               copiedRecipe={copiedRecipe}
               onClearCopiedRecipe={handleClearCopiedRecipe}
-              onEditMeal={(meal: MealSlot, date: Date, mealType: 'breakfast' | 'lunch' | 'dinner' | 'snacks') => {
+              onEditMeal={(meal: MealSlot, date: Date, mealType: string) => {
                 // Normalize the date to avoid timezone issues
                 const normalizedDate = new Date(date);
                 normalizedDate.setHours(0, 0, 0, 0);
                 
                 // Convert date to proper slot format for editing
-                const weekStart = getWeekStartDate(normalizedDate);
-                const daysDiff = Math.floor((normalizedDate.getTime() - weekStart.getTime()) / (1000 * 60 * 60 * 24));
+                const targetPlan = findMealPlanForDate(globalMealPlans.values(), normalizedDate);
+                const dayIndex = targetPlan ? targetPlan.days.findIndex(day => toDateKey(day.date) === toDateKey(normalizedDate)) : -1;
                 
                 const slot: MealPlanningSlot = {
-                  dayOfWeek: daysDiff,
+                  dayOfWeek: dayIndex,
                   mealType: mealType,
                   recipeId: meal.recipeId,
                   recipeName: meal.recipeName,
                   servings: meal.servings,
                   prepTime: meal.prepTime,
-                  notes: meal.notes
+                  notes: meal.notes,
+                  targetDate: normalizedDate
                 };
                 
                 setSelectedSlot(slot);
@@ -2268,6 +2592,16 @@ export default function MealPlanningPage() {
           )}
         </div>
 
+        {/* Grocery cost of the week against the budget */}
+        {viewMode === 'weekly' && mealPlan && (
+          <MealPlanCostSummary mealPlan={mealPlan} />
+        )}
+
+        {/* Calories and nutrients of the week against the daily targets */}
+        {viewMode === 'weekly' && weekNutrition && (
+          <MealPlanNutritionSummary nutrition={weekNutrition} />
+        )}
+
         {/* Modals */}
         {showQuickAdd && selectedSlot && (
           <QuickAddRecipeModal
@@ -2280,7 +2614,8 @@ export default function MealPlanningPage() {
               handleQuickAddSubmit({ id: recipeId, name: recipeName, servings, cookingTime, image });
             }}
             mealType={selectedSlot.mealType || 'breakfast'}
-            dayName={selectedSlot.dayOfWeek !== undefined ? format(addDays(currentDate, selectedSlot.dayOfWeek), 'EEEE') : 'Unknown Day'}
+            mealTypeName={getMealTypeDefinition(mealTypes, selectedSlot.mealType || 'breakfast').name}
+            dayName={selectedSlot.targetDate ? format(selectedSlot.targetDate, 'EEEE') : selectedSlot.dayOfWeek !== undefined ? format(addDays(currentDate, selectedSlot.dayOfWeek), 'EEEE') : 'Unknown Day'}
           />
         )}
 
@@ -2291,6 +2626,65 @@ export default function MealPlanningPage() {
             onSave={handleSavePlan}
           />
         )}
+
+        {showGroceryModal && mealPlan && (
+          <GenerateGroceryListModal
+            isOpen={showGroceryModal}
+            onClose={() => setShowGroceryModal(false)}
+            onGenerate={handleGenerateGroceryList}
+            days={mealPlan.days.map(day => new Date(day.date))}
+            isLoading={isGeneratingGroceryList}
+          />
+        )}
+
+        {showGenerateModal && mealPlan && (
+          <GenerateMealPlanModal
+            isOpen={showGenerateModal}
+            onClose={() => setShowGenerateModal(false)}
+            onGenerate={handleGenerateMealPlan}
+            days={mealPlan.days}
+            isLoading={isGeneratingPlan}
+          />
+        )}
+
+        <MealTypesModal
+          isOpen={showMealTypesModal}
+          onClose={() => setShowMealTypesModal(false)}
+          onSave={handleSaveMealTypes}
+          mealTypes={mealTypes}
+          isLoading={isSavingMealTypes}
+        />
+
+        <HouseholdModal
+          isOpen={showHouseholdModal}
+          onClose={() => setShowHouseholdModal(false)}
+          onSave={handleSaveHousehold}
+          members={householdMembers}
+          isLoading={isSavingHousehold}
+        />
+
+        <RotationModal
+          isOpen={showRotationModal}
+          onClose={() => setShowRotationModal(false)}
+        />
+
+        <TemplateLibraryModal
+          isOpen={showTemplateLibraryModal}
+          onClose={() => setShowTemplateLibraryModal(false)}
+          onApply={handleApplyTemplate}
+          mealTypes={mealTypes}
+          isLoading={isApplyingTemplate}
+        />
+
+        {mealPlan?._id && mealPlan._id !== 'temp-id' && (
+          <RevisionHistoryModal
+            isOpen={showRevisionHistoryModal}
+            onClose={() => setShowRevisionHistoryModal(false)}
+            onRestored={handleRevisionRestored}
+            mealPlanId={mealPlan._id}
+            mealTypes={mealTypes}
+          />
+        )}
         </div>
     </DndProvider>
   );
@@ -10,6 +10,7 @@ import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useSession } from 'next-auth/react';
 import { slugify } from '@/lib/utils';
+import { toDateKey } from '@/types/meal-planning';
 
 export default function CurrentMealPlanPage() {
   const router = useRouter();
@@ -26,14 +27,11 @@ export default function CurrentMealPlanPage() {
       }
 
       try {
-        // Get current week start date
-        const now = new Date();
-        const startOfWeek = new Date(now);
-        startOfWeek.setDate(now.getDate() - now.getDay() + 1); // Monday
-        startOfWeek.setHours(0, 0, 0, 0);
+        // The server plans the week containing today, starting on the user's week start day
+        const today = toDateKey(new Date());
 
-        // Try to fetch existing meal plan for current week
-        const response = await fetch(`/api/meal-plans?weekStart=${startOfWeek.toISOString()}`);
+        // Try to fetch the existing meal plan covering today
+        const response = await fetch(`/api/meal-plans?date=${today}`);
         
         if (response.ok) {
           const data = await response.json();
@@ -53,8 +51,7 @@ export default function CurrentMealPlanPage() {
             'Content-Type': 'application/json',
           },
           body: JSON.stringify({
-            weekStartDate: startOfWeek.toISOString(),
-            title: `Week of ${startOfWeek.toLocaleDateString()}`
+            startDate: today
           }),
         });
 
@@ -69,7 +66,7 @@ export default function CurrentMealPlanPage() {
           }
         } else if (createResponse.status === 409) {
           // Meal plan already exists, try to fetch it again
-          const retryResponse = await fetch(`/api/meal-plans?weekStart=${startOfWeek.toISOString()}`);
+          const retryResponse = await fetch(`/api/meal-plans?date=${today}`);
           if (retryResponse.ok) {
             const retryData = await retryResponse.json();
             if (retryData.success && retryData.data && retryData.data.length > 0) {
@@ -41,15 +41,19 @@ import {
   CalendarDays,
   ChefHat,
   Users,
-  AlertTriangle
+  AlertTriangle,
+  BookOpen
 } from 'lucide-react';
 import { MealPlanService } from '@/services/mealPlanService';
-import type { IMealPlan } from '@/types/meal-planning';
+import { addDaysToDate, toDateKey, type IMealPlan } from '@/types/meal-planning';
 import { exportMealPlanToPDF } from '@/utils/mealPlanExport';
+import { countDayMeals } from '@/utils/mealTypes';
 import Link from 'next/link';
 import { slugify, cn } from '@/lib/utils';
 import { useToast } from '@/components/ui/use-toast';
 import { useMealPlanSync } from '@/hooks/useMealPlanSync';
+import { SaveTemplateModal } from '@/components/meal-planning/modals/SaveTemplateModal';
+import type { MealPlanTemplate } from '@/types/meal-plan-templates';
 
 type ViewMode = 'grid' | 'list';
 type SortOption = 'date' | 'name' | 'meals' | 'created';
@@ -69,6 +73,7 @@ export default function SavedMealPlansPage() {
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
   const [filterBy, setFilterBy] = useState<FilterOption>('all');
   const [selectedPlans, setSelectedPlans] = useState<Set<string>>(new Set());
+  const [libraryPlan, setLibraryPlan] = useState<IMealPlan | null>(null);
   const { syncCounter, triggerSync } = useMealPlanSync();
 
   useEffect(() => {
@@ -135,7 +140,7 @@ export default function SavedMealPlansPage() {
           comparison = (a.title || '').localeCompare(b.title || '');
           break;
         case 'date':
-          comparison = new Date(a.weekStartDate).getTime() - new Date(b.weekStartDate).getTime();
+          comparison = new Date(a.startDate).getTime() - new Date(b.startDate).getTime();
           break;
         case 'meals':
           const aMeals = getMealCount(a);
@@ -152,13 +157,7 @@ export default function SavedMealPlansPage() {
   }, [savedPlans, searchQuery, filterBy, sortBy, sortOrder]);
 
   const getMealCount = (plan: IMealPlan): number => {
-    return plan.days?.reduce((total, day) => {
-      return total + 
-        (day.breakfast?.length || 0) + 
-        (day.lunch?.length || 0) + 
-        (day.dinner?.length || 0) + 
-        (day.snacks?.length || 0);
-    }, 0) || 0;
+    return plan.days?.reduce((total, day) => total + countDayMeals(day), 0) || 0;
   };
 
   const handleExportPlan = async (plan: IMealPlan) => {
@@ -172,13 +171,15 @@ export default function SavedMealPlansPage() {
 
   const handleCopyPlan = async (plan: IMealPlan) => {
     try {
+      // A week is copied into the current week, other ranges start today
       const today = new Date();
-      const currentWeekStart = new Date(today.setDate(today.getDate() - today.getDay()));
+      const dayCount = plan.days?.length || 7;
       
       await MealPlanService.createMealPlan({
-        weekStartDate: currentWeekStart.toISOString().split('T')[0],
+        startDate: toDateKey(today),
+        endDate: dayCount === 7 ? undefined : toDateKey(addDaysToDate(today, dayCount - 1)),
         title: `Copy of ${plan.title}`,
-        copyFromWeek: new Date(plan.weekStartDate).toISOString().split('T')[0]
+        copyFromWeek: toDateKey(new Date(plan.startDate))
       });
       
       loadSavedPlans();
@@ -188,6 +189,13 @@ export default function SavedMealPlansPage() {
     }
   };
 
+  const handleTemplateSaved = (template: MealPlanTemplate) => {
+    toast({
+      title: 'Added to Template Library',
+      description: `"${template.name}" can now be applied from the Templates button of any meal plan.`,
+    });
+  };
+
   const handleDeletePlan = async (planId: string) => {
     if (!confirm('Are you sure you want to delete this meal plan?')) {
       return;
@@ -751,6 +759,7 @@ export default function SavedMealPlansPage() {
                         onExport={() => handleExportPlan(template)}
                         onCopy={() => handleCopyPlan(template)}
                         onDelete={() => template._id && handleDeletePlan(template._id)}
+                        onAddToLibrary={() => setLibraryPlan(template)}
                       />
                     ))}
                 </div>
@@ -791,6 +800,7 @@ export default function SavedMealPlansPage() {
                         onExport={() => handleExportPlan(plan)}
                         onCopy={() => handleCopyPlan(plan)}
                         onDelete={() => plan._id && handleDeletePlan(plan._id)}
+                        onAddToLibrary={() => setLibraryPlan(plan)}
                       />
                     ))}
                 </div>
@@ -804,6 +814,13 @@ export default function SavedMealPlansPage() {
             totalPlans={savedPlans.length}
           />
         )}
+
+        <SaveTemplateModal
+          isOpen={libraryPlan !== null}
+          onClose={() => setLibraryPlan(null)}
+          onSaved={handleTemplateSaved}
+          plan={libraryPlan}
+        />
       </div>
   );
 }
@@ -885,6 +902,7 @@ interface EnhancedMealPlanCardProps {
   onExport: () => void;
   onCopy: () => void;
   onDelete: () => void;
+  onAddToLibrary: () => void;
 }
 
 function EnhancedMealPlanCard({ 
@@ -894,20 +912,16 @@ function EnhancedMealPlanCard({
   onToggleSelect,
   onExport, 
   onCopy, 
-  onDelete 
+  onDelete,
+  onAddToLibrary
 }: EnhancedMealPlanCardProps) {
-  const weekStart = new Date(plan.weekStartDate);
-  const weekEnd = new Date(weekStart.getTime() + 6 * 24 * 60 * 60 * 1000);
+  const planStart = new Date(plan.startDate);
+  const planEnd = new Date(plan.endDate);
+  const dayCount = plan.days?.length || 0;
   const { data: session } = useSession();
   
   // Count total meals
-  const totalMeals = plan.days?.reduce((total, day) => {
-    return total + 
-      (day.breakfast?.length || 0) + 
-      (day.lunch?.length || 0) + 
-      (day.dinner?.length || 0) + 
-      (day.snacks?.length || 0);
-  }, 0) || 0;
+  const totalMeals = plan.days?.reduce((total, day) => total + countDayMeals(day), 0) || 0;
 
   // Count meal types
   const mealTypes = {
@@ -968,7 +982,7 @@ function EnhancedMealPlanCard({
                     {plan.isTemplate ? (
                       'Reusable template'
                     ) : (
-                      `${weekStart.toLocaleDateString()} - ${weekEnd.toLocaleDateString()}`
+                      `${planStart.toLocaleDateString()} - ${planEnd.toLocaleDateString()}`
                     )}
                   </p>
                 </div>
@@ -986,7 +1000,7 @@ function EnhancedMealPlanCard({
                 </div>
                 <div className="flex items-center gap-1">
                   <Calendar className="h-4 w-4" />
-                  <span>7 days</span>
+                  <span>{dayCount} {dayCount === 1 ? 'day' : 'days'}</span>
                 </div>
                 <div className="flex items-center gap-1">
                   <Users className="h-4 w-4" />
@@ -1034,6 +1048,10 @@ function EnhancedMealPlanCard({
                     <Download className="h-4 w-4 mr-2" />
                     Export PDF
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={onAddToLibrary}>
+                    <BookOpen className="h-4 w-4 mr-2" />
+                    Add to Template Library
+                  </DropdownMenuItem>
                   <DropdownMenuSeparator />
                   <DropdownMenuItem onClick={onDelete} className="text-red-600">
                     <Trash2 className="h-4 w-4 mr-2" />
@@ -1085,7 +1103,7 @@ function EnhancedMealPlanCard({
                 {plan.isTemplate ? (
                   'Reusable template'
                 ) : (
-                  `${weekStart.toLocaleDateString()} - ${weekEnd.toLocaleDateString()}`
+                  `${planStart.toLocaleDateString()} - ${planEnd.toLocaleDateString()}`
                 )}
               </CardDescription>
             </div>
@@ -1109,7 +1127,7 @@ function EnhancedMealPlanCard({
             </div>
             <div className="flex items-center gap-1">
               <Calendar className="h-4 w-4" />
-              <span>7 days</span>
+              <span>{dayCount} {dayCount === 1 ? 'day' : 'days'}</span>
             </div>
             <div className="flex items-center gap-1">
               <Users className="h-4 w-4" />
@@ -1170,6 +1188,18 @@ function EnhancedMealPlanCard({
             >
               <Download className="h-4 w-4" />
             </Button>
+
+            <Button 
+              variant="outline" 
+              size="sm" 
+              onClick={(e) => {
+                e.stopPropagation();
+                onAddToLibrary();
+              }}
+              title="Add to Template Library"
+            >
+              <BookOpen className="h-4 w-4" />
+            </Button>
             
             {plan._id && (
               <Link href={session?.user?.name ? `/user/${encodeURIComponent(slugify(session.user.name))}/meal-plan/${plan._id}` : `/user/meal-plan/${plan._id}`}>
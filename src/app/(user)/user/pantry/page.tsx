@@ -0,0 +1,5 @@
+import PantryView from './pantry-view';
+
+export default function PantryPage() {
+  return <PantryView />;
+}
@@ -0,0 +1,190 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { useSession } from 'next-auth/react';
+import toast, { Toaster } from 'react-hot-toast';
+import { Trash2 } from 'lucide-react';
+import { groupItemsBySection } from '@/utils/storeSections';
+
+interface PantryItem {
+  _id: string;
+  name: string;
+  quantity?: number;
+  unit: string;
+  bestBefore?: string;
+  source: string;
+}
+
+const SOON_DAYS = 3;
+
+/**
+ * Describes how close an item is to its best-before date
+ */
+function getExpiryState(bestBefore?: string): 'expired' | 'soon' | 'ok' | null {
+  if (!bestBefore) return null;
+  const daysLeft = (new Date(bestBefore).getTime() - Date.now()) / (1000 * 60 * 60 * 24);
+  if (daysLeft < 0) return 'expired';
+  if (daysLeft <= SOON_DAYS) return 'soon';
+  return 'ok';
+}
+
+export default function PantryView() {
+  const { data: session } = useSession();
+  const [items, setItems] = useState<PantryItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [quantity, setQuantity] = useState('');
+  const [unit, setUnit] = useState('');
+  const [bestBefore, setBestBefore] = useState('');
+
+  const fetchPantry = useCallback(async () => {
+    if (!session) return;
+    setLoading(true);
+    try {
+      const response = await fetch('/api/pantry');
+      if (response.ok) {
+        const data = await response.json();
+        setItems(data.items || []);
+      } else {
+        const errorData = await response.json();
+        setError(`Failed to load pantry: ${errorData.message}`);
+      }
+    } catch (err) {
+      console.error('Fetch pantry error:', err);
+      setError('An unexpected error occurred while fetching your pantry.');
+    } finally {
+      setLoading(false);
+    }
+  }, [session]);
+
+  useEffect(() => {
+    fetchPantry();
+  }, [fetchPantry]);
+
+  const handleAddItem = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      toast.error('Please enter an item name.');
+      return;
+    }
+
+    const promise = fetch('/api/pantry', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name, quantity: quantity || undefined, unit, bestBefore: bestBefore || undefined }),
+    }).then(async (response) => {
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || 'Failed to add item.');
+      setItems(data.items || []);
+      setName('');
+      setQuantity('');
+      setUnit('');
+      setBestBefore('');
+      return 'Added to your pantry!';
+    });
+    toast.promise(promise, { loading: 'Adding...', success: (message) => message, error: (err) => err.message });
+  };
+
+  const handleDeleteItem = async (itemId: string) => {
+    const response = await fetch(`/api/pantry/${itemId}`, { method: 'DELETE' });
+    if (response.ok) {
+      setItems(items.filter(item => item._id !== itemId));
+    } else {
+      toast.error('Failed to remove item.');
+    }
+  };
+
+  const handleSeedFromPreferences = async () => {
+    const promise = fetch('/api/pantry/seed', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ source: 'preferences' }),
+    }).then(async (response) => {
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || 'Failed to import preferences.');
+      if (data.added === 0) return 'No preferred ingredients set in your settings.';
+      setItems(data.items || []);
+      return `Imported ${data.added} preferred ingredients!`;
+    });
+    toast.promise(promise, { loading: 'Importing...', success: (message) => message, error: (err) => err.message });
+  };
+
+  if (loading) return <div className="w-full min-h-screen flex justify-center items-center bg-[#FEFEFD] dark:bg-[#373739] text-[#7D966D] dark:text-[#CDE7C0]">Loading your pantry...</div>;
+  if (error) return <div className="w-full min-h-screen flex justify-center items-center bg-[#FEFEFD] dark:bg-[#373739] text-[#F96850] dark:text-[#F16B59]">{error}</div>;
+
+  const inputClassName = 'p-3 border border-[#AABC91] dark:border-[#74766D] bg-white/80 dark:bg-black/20 rounded-lg text-[#7D966D] dark:text-white focus:ring-[#F96850] focus:border-[#F96850] placeholder:text-[#AABC91] dark:placeholder:text-[#C1D3AF]/70';
+
+  return (
+    <div className="bg-[#FEFEFD] dark:bg-[#373739] min-h-screen font-sans">
+      <Toaster position="top-center" reverseOrder={false} toastOptions={{
+        style: {
+          background: '#373739',
+          color: '#CDE7C0',
+        }
+      }}/>
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-8 max-w-4xl">
+        <div className="bg-[#EFF4E6] dark:bg-[#373739] p-6 rounded-2xl shadow-lg border border-gray-200 dark:border-gray-700">
+          <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-3 mb-2">
+            <h1 className="text-3xl font-bold text-[#7D966D] dark:text-[#CDE7C0]">My Pantry</h1>
+            <div className="flex items-center space-x-3">
+              <button onClick={handleSeedFromPreferences} className="px-4 py-2 rounded-lg text-sm font-semibold text-[#7D966D] dark:text-[#CDE7C0] border border-[#AABC91] hover:bg-[#AABC91]/30 transition-colors">
+                Import preferred ingredients
+              </button>
+              <Link href="/user/shopping-list" className="text-sm text-[#F96850] dark:text-[#F16B59] hover:underline">Shopping list</Link>
+            </div>
+          </div>
+          <p className="text-sm text-[#AABC91] dark:text-[#C1D3AF] mb-6">
+            Items in your pantry are subtracted when you generate a shopping list from a meal plan.
+            Leave the quantity empty for staples like salt that you always have.
+          </p>
+
+          <form onSubmit={handleAddItem} className="grid grid-cols-2 sm:grid-cols-5 gap-3 mb-8">
+            <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="Olive oil" className={`${inputClassName} col-span-2`} aria-label="Item name" />
+            <input type="number" min="0" step="any" value={quantity} onChange={(e) => setQuantity(e.target.value)} placeholder="Qty" className={inputClassName} aria-label="Quantity" />
+            <input type="text" value={unit} onChange={(e) => setUnit(e.target.value)} placeholder="ml" className={inputClassName} aria-label="Unit" />
+            <input type="date" value={bestBefore} onChange={(e) => setBestBefore(e.target.value)} className={inputClassName} aria-label="Best before" title="Best before" />
+            <button type="submit" className="col-span-2 sm:col-span-5 px-6 py-3 bg-[#F96850] text-white rounded-lg font-semibold hover:bg-[#F96850]/90 transition-colors">Add to Pantry</button>
+          </form>
+
+          {items.length > 0 ? (
+            <div className="space-y-6">
+              {groupItemsBySection(items).map(({ section, items: sectionItems }) => (
+                <section key={section}>
+                  <h2 className="text-sm font-bold uppercase tracking-wide text-[#AABC91] dark:text-[#C1D3AF] mb-2">{section}</h2>
+                  <ul className="space-y-2">
+                    {sectionItems.map(({ item }) => {
+                      const expiryState = getExpiryState(item.bestBefore);
+                      return (
+                        <li key={item._id} className="flex items-center justify-between p-3 rounded-xl bg-white/80 dark:bg-black/20">
+                          <div className="text-[#7D966D] dark:text-[#CDE7C0]">
+                            <span className="font-semibold">{item.name}</span>
+                            <span className="text-sm"> - {item.quantity !== undefined ? `${item.quantity} ${item.unit}` : 'in stock'}</span>
+                            {item.bestBefore && (
+                              <span className={`ml-2 text-xs ${expiryState === 'expired' ? 'text-[#F96850] font-semibold' : expiryState === 'soon' ? 'text-orange-500' : 'text-[#AABC91]'}`}>
+                                {expiryState === 'expired' ? 'expired' : 'best before'} {new Date(item.bestBefore).toLocaleDateString()}
+                              </span>
+                            )}
+                          </div>
+                          <button onClick={() => handleDeleteItem(item._id)} className="p-2 rounded-full text-[#F96850] dark:text-[#F16B59] hover:bg-[#F96850]/30 transition-colors" title="Remove">
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </section>
+              ))}
+            </div>
+          ) : (
+            <div className="flex flex-col items-center justify-center text-center p-10 bg-white/50 dark:bg-black/10 rounded-xl">
+              <p className="text-lg font-semibold text-[#7D966D] dark:text-[#CDE7C0]">Your pantry is empty</p>
+              <p className="text-sm text-[#AABC91] dark:text-[#C1D3AF]">Add what you have at home, or scan your fridge with the AI feature.</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
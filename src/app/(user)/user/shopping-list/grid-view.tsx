@@ -1,11 +1,22 @@
 'use client';
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import Link from 'next/link';
 import { useSession } from 'next-auth/react';
 import { useSearchParams } from 'next/navigation';
 import toast, { Toaster } from 'react-hot-toast';
+import { ChevronUp, ChevronDown, Pencil, X, Upload, Replace } from 'lucide-react';
 import { exportGroceryListAsPDF } from '@/utils/mealPlanExport';
+import { formatIngredientAmount, getServingsScale, scaleIngredient } from '@/utils/recipeScaling';
+import { classifyStoreSection, groupItemsBySection, normalizeSectionOrder, DEFAULT_SECTION_ORDER, type StoreSection } from '@/utils/storeSections';
+import { StoreSectionOrderEditor } from '@/components/grocery/StoreSectionOrderEditor';
+import { HouseholdPanel } from '@/components/grocery/HouseholdPanel';
+import { BudgetPanel } from '@/components/grocery/BudgetPanel';
+import { StaplesPanel } from '@/components/grocery/StaplesPanel';
+import { SubstitutionPicker } from '@/components/grocery/SubstitutionPicker';
+import { useUserNames } from '@/hooks/useUserNames';
+import type { GroceryListOperation } from '@/utils/groceryListOperations';
+import type { GroceryExportFormat } from '@/utils/groceryListExport';
 
 // --- Iconos SVG ---
 const BackIcon = () => (
@@ -32,6 +43,12 @@ const EditIcon = () => (
     </svg>
 );
 
+const SectionsIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h10M4 18h6" />
+    </svg>
+);
+
 const DeleteIcon = () => (
     <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
@@ -43,12 +60,17 @@ interface Ingredient {
   quantity: number;
   unit: string;
   checked: boolean;
+  checkedBy?: string; // User id
+  checkedAt?: string;
+  recipeIds?: string[];
+  section?: string;
 }
 
 interface OriginalIngredient {
   name: string;
   originalQuantity: number;
   unit: string;
+  section: StoreSection;
 }
 
 interface SavedList {
@@ -56,6 +78,7 @@ interface SavedList {
   name: string;
   createdAt: string;
   ingredients: Ingredient[];
+  version?: number;
 }
 
 interface RecipeInfo {
@@ -63,6 +86,15 @@ interface RecipeInfo {
   servings: number;
 }
 
+// Where the displayed list comes from: the shared active list, a saved list or a recipe preview
+type ListSource = 'active' | 'saved' | 'recipe';
+
+const LIST_POLL_INTERVAL_MS = 5000;
+
+// Stored items keep their check-off state; items from older lists have none
+const withCheckedState = (items: Array<Omit<Ingredient, 'checked'> & { checked?: boolean }>): Ingredient[] =>
+  items.map(ing => ({ ...ing, checked: !!ing.checked }));
+
 export default function ShoppingListGridView() {
   const { data: session } = useSession();
   const searchParams = useSearchParams();
@@ -76,19 +108,41 @@ export default function ShoppingListGridView() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [recipeId, setRecipeId] = useState<string | null>(null);
+  const [sectionOrder, setSectionOrder] = useState<StoreSection[]>(DEFAULT_SECTION_ORDER);
+  const [isEditingSections, setIsEditingSections] = useState(false);
+  const [preferredStores, setPreferredStores] = useState<string[]>([]);
+  const [alreadyHave, setAlreadyHave] = useState<Ingredient[]>([]);
+  const [listSource, setListSource] = useState<ListSource>('active');
+  const [activeSavedListId, setActiveSavedListId] = useState<string | null>(null);
+  const listVersionRef = useRef<number | undefined>(undefined);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [editingItemIndex, setEditingItemIndex] = useState<number | null>(null);
+  const [editQuantity, setEditQuantity] = useState('');
+  const [substitutingItemIndex, setSubstitutingItemIndex] = useState<number | null>(null);
+  const [renamingListId, setRenamingListId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const getCheckerName = useUserNames(ingredients.map(ingredient => ingredient.checkedBy));
 
   const fetchShoppingList = useCallback(async () => {
     if (!session) return;
     setLoading(true);
     try {
+      // Add the staples that became due since the last visit before loading
+      const staplesResponse = await fetch('/api/grocery-list/staples', { method: 'POST' });
+      if (!staplesResponse.ok) console.error('Failed to add due staples');
+
       const response = await fetch('/api/grocery-list');
       if (response.ok) {
         const data = await response.json();
         console.log('Fetched shopping list data:', data);
-        const initialIngredients = (data.ingredients || []).map((ing: Omit<Ingredient, 'checked'>) => ({ ...ing, checked: false }));
+        const initialIngredients = withCheckedState(data.ingredients || []);
         console.log('Processed ingredients:', initialIngredients);
         setIngredients(initialIngredients);
+        setAlreadyHave(data.alreadyHave || []);
         setActiveListTitle('My Shopping List');
+        setListSource('active');
+        setActiveSavedListId(null);
+        listVersionRef.current = data.version;
       } else {
         const errorData = await response.json();
         console.error('Error fetching shopping list:', errorData);
@@ -116,6 +170,24 @@ export default function ShoppingListGridView() {
     }
   }, [session]);
 
+  const fetchShoppingPreferences = useCallback(async () => {
+    if (!session) return;
+    try {
+      const response = await fetch('/api/users/preferences');
+      if (response.ok) {
+        const result = await response.json();
+        setSectionOrder(normalizeSectionOrder(result.data?.shopping?.storeSectionOrder));
+        setPreferredStores(result.data?.shopping?.preferredStores || []);
+      }
+    } catch (err) {
+      console.error('Error fetching shopping preferences:', err);
+    }
+  }, [session]);
+
+  useEffect(() => {
+    fetchShoppingPreferences();
+  }, [fetchShoppingPreferences]);
+
   useEffect(() => {
     const currentRecipeId = searchParams.get('recipeId');
     const servingsParam = searchParams.get('servings');
@@ -124,6 +196,7 @@ export default function ShoppingListGridView() {
     if (currentRecipeId) {
       // When coming from a recipe, first load the current shopping list to see if ingredients were already added
       setLoading(true);
+      setListSource('recipe');
       const loadDataForRecipe = async () => {
         try {
           // First, check if there's already a shopping list
@@ -133,10 +206,13 @@ export default function ShoppingListGridView() {
             console.log('Loaded shopping list data:', listData);
             if (listData.ingredients && listData.ingredients.length > 0) {
               // If shopping list has ingredients, use them
-              const initialIngredients = listData.ingredients.map((ing: Omit<Ingredient, 'checked'>) => ({ ...ing, checked: false }));
+              const initialIngredients = withCheckedState(listData.ingredients);
               console.log('Setting ingredients from shopping list:', initialIngredients);
               setIngredients(initialIngredients);
+              setAlreadyHave(listData.alreadyHave || []);
               setActiveListTitle('My Shopping List');
+              setListSource('active');
+              listVersionRef.current = listData.version;
               setLoading(false);
               return;
             }
@@ -146,7 +222,7 @@ export default function ShoppingListGridView() {
           const response = await fetch(`/api/recipes/${currentRecipeId}`);
           if (response.ok) {
             const data = await response.json();
-            const initialServings = servingsParam ? parseInt(servingsParam, 10) : data.servings || 1;
+            const initialServings = servingsParam ? parseFloat(servingsParam) : data.servings || 1;
             setRecipeInfo({ title: data.title, servings: data.servings });
             setServings(initialServings);
             setListName(data.title || '');
@@ -168,14 +244,17 @@ export default function ShoppingListGridView() {
                 return { 
                   name: name, 
                   originalQuantity: amount, 
-                  unit: unit 
+                  unit: unit,
+                  section: classifyStoreSection(name)
                 };
               }
               
+              const name = ing.name || ing.original || 'Unknown ingredient';
               return { 
-                name: ing.name || ing.original || 'Unknown ingredient', 
+                name: name, 
                 originalQuantity: ing.amount || ing.quantity || 1, 
-                unit: ing.unit || '' 
+                unit: ing.unit || '',
+                section: classifyStoreSection(name, ing.aisle)
               };
             });
             
@@ -199,21 +278,142 @@ export default function ShoppingListGridView() {
 
   useEffect(() => {
     if (!recipeInfo || originalIngredients.length === 0) return;
-    const scaleFactor = recipeInfo.servings > 0 ? servings / recipeInfo.servings : 1;
+    const scaleFactor = getServingsScale(recipeInfo.servings, servings);
     const checkedMap = new Map(ingredients.map(ing => [ing.name, ing.checked]));
-    setIngredients(originalIngredients.map(origIng => ({
-      name: origIng.name,
-      quantity: parseFloat((origIng.originalQuantity * scaleFactor).toFixed(2)),
-      unit: origIng.unit,
-      checked: checkedMap.get(origIng.name) || false
-    })));
+    setIngredients(originalIngredients.map(origIng => {
+      const scaled = scaleIngredient({ name: origIng.name, amount: origIng.originalQuantity, unit: origIng.unit }, scaleFactor);
+      return {
+        name: origIng.name,
+        quantity: scaled.amount ?? origIng.originalQuantity,
+        unit: scaled.unit,
+        section: origIng.section,
+        checked: checkedMap.get(origIng.name) || false
+      };
+    }));
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [servings, originalIngredients, recipeInfo]);
 
+  // Pick up check-offs and additions made by other household members
+  useEffect(() => {
+    if (!session || listSource !== 'active') return;
+    const interval = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/grocery-list?version=${listVersionRef.current ?? 0}`);
+        if (!response.ok) return;
+        const data = await response.json();
+        if (data.unchanged) return;
+        listVersionRef.current = data.version;
+        setIngredients(withCheckedState(data.ingredients || []));
+        setAlreadyHave(data.alreadyHave || []);
+      } catch (err) {
+        console.error('Error polling shopping list:', err);
+      }
+    }, LIST_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [session, listSource]);
+
+  /**
+   * Shows item changes right away and sends them for the displayed list.
+   * Saved lists can be checked against the version they were loaded at, so
+   * edits based on an outdated list are rejected instead of overwriting.
+   */
+  const sendListOperations = async (operations: GroceryListOperation[], optimistic: Ingredient[], checkVersion = false) => {
+    const previousIngredients = ingredients;
+    setIngredients(optimistic);
+
+    // Recipe previews are not stored, so their changes stay local
+    if (listSource === 'recipe') return;
+
+    const isSaved = listSource === 'saved';
+    const url = isSaved ? `/api/saved-grocery-lists/${activeSavedListId}` : '/api/grocery-list';
+    try {
+      const response = await fetch(url, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ operations, ...(isSaved && checkVersion && { version: listVersionRef.current ?? 0 }) }),
+      });
+      const data = await response.json();
+
+      if (response.status === 409) {
+        setIngredients(withCheckedState(data.list.ingredients));
+        listVersionRef.current = data.list.version;
+        toast.error('This list was changed in the meantime. Please check it and try again.');
+        return;
+      }
+      if (!response.ok) throw new Error(data.message || 'Failed to save change.');
+
+      setIngredients(withCheckedState(data.ingredients || []));
+      listVersionRef.current = data.version;
+      if (isSaved) {
+        setSavedLists(prev => prev.map(list => (list._id === data._id ? data : list)));
+      }
+    } catch (err) {
+      console.error('Error saving list change:', err);
+      setIngredients(previousIngredients);
+      toast.error('Failed to save change.');
+    }
+  };
+
   const handleToggleIngredient = (index: number) => {
+    const ingredient = ingredients[index];
+    const checked = !ingredient.checked;
+    const newIngredients = [...ingredients];
+    newIngredients[index] = { ...ingredient, checked, checkedBy: undefined, checkedAt: undefined };
+    // Toggles set an explicit state, so they never need a version check
+    sendListOperations([{ type: 'toggle', name: ingredient.name, unit: ingredient.unit, checked }], newIngredients);
+  };
+
+  const handleRemoveIngredient = (index: number) => {
+    const ingredient = ingredients[index];
+    sendListOperations(
+      [{ type: 'remove', name: ingredient.name, unit: ingredient.unit }],
+      ingredients.filter((_, i) => i !== index),
+      true
+    );
+  };
+
+  const handleSaveQuantity = (index: number) => {
+    const quantity = parseFloat(editQuantity);
+    setEditingItemIndex(null);
+    if (!(quantity > 0)) {
+      toast.error('Please enter a quantity above zero.');
+      return;
+    }
+    const ingredient = ingredients[index];
     const newIngredients = [...ingredients];
-    newIngredients[index].checked = !newIngredients[index].checked;
-    setIngredients(newIngredients);
+    newIngredients[index] = { ...ingredient, quantity };
+    sendListOperations(
+      [{ type: 'edit', name: ingredient.name, unit: ingredient.unit, changes: { quantity } }],
+      newIngredients,
+      true
+    );
+  };
+
+  // Swaps an item with its neighbour (the list is shown grouped by section)
+  const handleMoveIngredient = (index: number, neighbourIndex: number) => {
+    const newIngredients = [...ingredients];
+    [newIngredients[index], newIngredients[neighbourIndex]] = [newIngredients[neighbourIndex], newIngredients[index]];
+    sendListOperations(
+      [{ type: 'reorder', order: newIngredients.map(ing => ({ name: ing.name, unit: ing.unit })) }],
+      newIngredients,
+      true
+    );
+  };
+
+  const handleSaveSectionOrder = async (order: StoreSection[]) => {
+    const response = await fetch('/api/users/preferences', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ section: 'shopping', data: { storeSectionOrder: order } }),
+    });
+
+    if (response.ok) {
+      setSectionOrder(order);
+      setIsEditingSections(false);
+      toast.success('Store layout saved!');
+    } else {
+      toast.error('Failed to save store layout.');
+    }
   };
 
   const handleSaveList = async () => {
@@ -247,7 +447,11 @@ export default function ShoppingListGridView() {
   const handleLoadList = (listToLoad: SavedList) => {
     setRecipeInfo(null);
     setOriginalIngredients([]);
-    setIngredients(listToLoad.ingredients.map(ing => ({ ...ing, checked: false })));
+    setIngredients(withCheckedState(listToLoad.ingredients));
+    setAlreadyHave([]);
+    setListSource('saved');
+    setActiveSavedListId(listToLoad._id);
+    listVersionRef.current = listToLoad.version;
     setListName(listToLoad.name);
     setActiveListTitle(listToLoad.name);
     toast.success(`List "${listToLoad.name}" loaded!`);
@@ -271,9 +475,61 @@ export default function ShoppingListGridView() {
       toast.promise(promise, { loading: 'Deleting list...', success: (message) => message, error: (err) => err.message });
   };
   
-  const handleEditList = (e: React.MouseEvent, listId: string) => {
+  const handleEditList = (e: React.MouseEvent, list: SavedList) => {
     e.stopPropagation();
-    toast('Edit functionality will be implemented in the future.');
+    setRenamingListId(list._id);
+    setRenameValue(list.name);
+  };
+
+  const handleRenameList = async (e: React.FormEvent, list: SavedList) => {
+    e.preventDefault();
+    if (!renameValue.trim() || renameValue === list.name) {
+      setRenamingListId(null);
+      return;
+    }
+
+    const response = await fetch(`/api/saved-grocery-lists/${list._id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: renameValue, version: list.version ?? 0 }),
+    });
+    const data = await response.json();
+
+    if (response.ok || response.status === 409) {
+      const current: SavedList = response.ok ? data : data.list;
+      setSavedLists(prev => prev.map(savedList => (savedList._id === current._id ? current : savedList)));
+      if (activeSavedListId === current._id) {
+        setActiveListTitle(current.name);
+        setListName(current.name);
+        listVersionRef.current = current.version;
+        setIngredients(withCheckedState(current.ingredients));
+      }
+      if (response.ok) {
+        toast.success('List renamed!');
+      } else {
+        toast.error('This list was changed in the meantime. Please try again.');
+      }
+    } else {
+      toast.error(data.message || 'Failed to rename list.');
+    }
+    setRenamingListId(null);
+  };
+
+  const handleRestoreList = async () => {
+    if (!activeSavedListId) return;
+    if (!confirm('Replace your current shopping list with this saved list?')) return;
+
+    const promise = fetch(`/api/saved-grocery-lists/${activeSavedListId}/restore`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ mode: 'replace' }),
+    }).then(async (response) => {
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || 'Failed to restore list.');
+      await fetchShoppingList();
+      return 'This list is now your current shopping list!';
+    });
+    toast.promise(promise, { loading: 'Restoring...', success: (message) => message, error: (err) => err.message });
   };
 
   const handlePrint = () => window.print();
@@ -284,16 +540,43 @@ export default function ShoppingListGridView() {
       name: ingredient.name,
       quantity: ingredient.quantity,
       unit: ingredient.unit,
-      checked: ingredient.checked
+      checked: ingredient.checked,
+      section: ingredient.section
     }));
 
     // Use our professional SmartPlates-branded PDF export
     exportGroceryListAsPDF(
       ingredientsList,
-      listName || 'shopping-list'
+      listName || 'shopping-list',
+      sectionOrder
     );
   };
 
+  const handleExport = (format: GroceryExportFormat) => {
+    const listParam = listSource === 'saved' && activeSavedListId ? `&listId=${activeSavedListId}` : '';
+    window.location.href = `/api/grocery-list/export?format=${format}${listParam}`;
+  };
+
+  // Reads a CSV or Markdown export into the current list
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const promise = file.text().then(async (content) => {
+      const response = await fetch('/api/grocery-list/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content, format: file.name.toLowerCase().endsWith('.csv') ? 'csv' : undefined }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || 'Failed to import list.');
+      await fetchShoppingList();
+      return `Imported ${data.imported} items into your current list!`;
+    });
+    toast.promise(promise, { loading: 'Importing...', success: (message) => message, error: (err) => err.message });
+  };
+
   if (loading) return <div className="w-full min-h-screen flex justify-center items-center bg-[#FEFEFD] dark:bg-[#373739] text-[#7D966D] dark:text-[#CDE7C0]">Loading your shopping list...</div>;
   if (error) return <div className="w-full min-h-screen flex justify-center items-center bg-[#FEFEFD] dark:bg-[#373739] text-[#F96850] dark:text-[#F16B59]">{error}</div>;
 
@@ -319,12 +602,33 @@ export default function ShoppingListGridView() {
             <div className="flex justify-between items-center mb-6 print:hidden">
               <h1 className="text-3xl font-bold text-[#7D966D] dark:text-[#CDE7C0]">{activeListTitle}</h1>
               <div className="flex items-center space-x-3">
+                {listSource === 'saved' && (
+                  <button onClick={handleRestoreList} className="px-3 py-2 rounded-lg text-sm font-semibold text-[#7D966D] dark:text-[#CDE7C0] border border-[#AABC91] hover:bg-[#AABC91]/30 transition-colors" title="Copy this list into your current shopping list">
+                    Use as current list
+                  </button>
+                )}
+                <button onClick={() => setIsEditingSections(!isEditingSections)} className="p-2 rounded-full text-[#AABC91] dark:text-[#C1D3AF] hover:bg-[#AABC91]/30 dark:hover:bg-[#C1D3AF]/30 transition-colors" title="Arrange store sections">
+                    <SectionsIcon />
+                </button>
                 <button onClick={handlePrint} className="p-2 rounded-full text-[#AABC91] dark:text-[#C1D3AF] hover:bg-[#AABC91]/30 dark:hover:bg-[#C1D3AF]/30 transition-colors" title="Print">
                     <PrintIcon />
                 </button>
                 <button onClick={handleDownloadPdf} className="p-2 rounded-full text-[#AABC91] dark:text-[#C1D3AF] hover:bg-[#AABC91]/30 dark:hover:bg-[#C1D3AF]/30 transition-colors" title="Download PDF">
                     <PdfIcon />
                 </button>
+                {listSource !== 'recipe' && (
+                  <select value="" onChange={(e) => handleExport(e.target.value as GroceryExportFormat)} className="p-2 rounded-lg text-sm bg-transparent text-[#AABC91] dark:text-[#C1D3AF] border border-[#AABC91] dark:border-[#74766D] hover:bg-[#AABC91]/30 transition-colors" aria-label="Export list">
+                    <option value="" disabled>Export</option>
+                    <option value="csv">CSV</option>
+                    <option value="md">Markdown checklist</option>
+                    <option value="txt">Text for messaging</option>
+                    <option value="json">JSON</option>
+                  </select>
+                )}
+                <button onClick={() => importInputRef.current?.click()} className="p-2 rounded-full text-[#AABC91] dark:text-[#C1D3AF] hover:bg-[#AABC91]/30 dark:hover:bg-[#C1D3AF]/30 transition-colors" title="Import CSV or Markdown list">
+                    <Upload className="h-6 w-6" />
+                </button>
+                <input ref={importInputRef} type="file" accept=".csv,.md,.markdown,.txt,text/csv,text/markdown,text/plain" onChange={handleImportFile} className="hidden" />
               </div>
             </div>
 
@@ -339,22 +643,92 @@ export default function ShoppingListGridView() {
               </div>
             )}
 
+            {isEditingSections && (
+              <div className="mb-6 print:hidden">
+                <StoreSectionOrderEditor
+                  order={sectionOrder}
+                  onSave={handleSaveSectionOrder}
+                  onCancel={() => setIsEditingSections(false)}
+                />
+              </div>
+            )}
+
             <div className="max-h-[50vh] overflow-y-auto pr-3 -mr-3">
               {ingredients.length > 0 ? (
-                <ul className="space-y-3">
-                  {ingredients.map((ing, i) => (
-                    <li key={i} onClick={() => handleToggleIngredient(i)} className={`flex items-center p-4 rounded-xl shadow-sm cursor-pointer transition-all duration-300 ${ing.checked ? 'bg-[#AABC91]/50 dark:bg-[#C1D3AF]/30' : 'bg-white/80 dark:bg-black/20'}`}>
-                      <div className="relative h-6 w-6 flex-shrink-0">
-                          <input type="checkbox" checked={ing.checked} readOnly className="appearance-none h-6 w-6 border-2 border-[#AABC91] dark:border-[#C1D3AF] rounded-md checked:bg-[#F96850] dark:checked:bg-[#F16B59] checked:border-transparent focus:outline-none" />
-                          {ing.checked && <svg className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" /></svg>}
-                      </div>
-                      <div className={`ml-4 text-[#7D966D] dark:text-[#CDE7C0] transition-opacity ${ing.checked ? 'opacity-50' : 'opacity-100'}`}>
-                        <span className="font-semibold">{ing.name}</span>
-                        <span className="text-sm"> - {ing.quantity} {ing.unit}</span>
-                      </div>
-                    </li>
+                <div className="space-y-6">
+                  {groupItemsBySection(ingredients, sectionOrder).map(({ section, items }) => (
+                    <section key={section}>
+                      <h3 className="text-sm font-bold uppercase tracking-wide text-[#AABC91] dark:text-[#C1D3AF] mb-2">
+                        {section} <span className="font-normal normal-case">({items.length})</span>
+                      </h3>
+                      <ul className="space-y-3">
+                        {items.map(({ item: ing, index: i }, position) => (
+                          <React.Fragment key={i}>
+                            <li onClick={() => handleToggleIngredient(i)} className={`group flex items-center p-4 rounded-xl shadow-sm cursor-pointer transition-all duration-300 ${ing.checked ? 'bg-[#AABC91]/50 dark:bg-[#C1D3AF]/30' : 'bg-white/80 dark:bg-black/20'}`}>
+                              <div className="relative h-6 w-6 flex-shrink-0">
+                                  <input type="checkbox" checked={ing.checked} readOnly className="appearance-none h-6 w-6 border-2 border-[#AABC91] dark:border-[#C1D3AF] rounded-md checked:bg-[#F96850] dark:checked:bg-[#F16B59] checked:border-transparent focus:outline-none" />
+                                  {ing.checked && <svg className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" /></svg>}
+                              </div>
+                              <div className={`ml-4 text-[#7D966D] dark:text-[#CDE7C0] transition-opacity ${ing.checked ? 'opacity-50' : 'opacity-100'}`}>
+                                <span className="font-semibold">{ing.name}</span>
+                                {editingItemIndex === i ? (
+                                  <form onSubmit={(e) => { e.preventDefault(); handleSaveQuantity(i); }} onClick={(e) => e.stopPropagation()} className="inline-flex items-center ml-2">
+                                    <input type="number" min="0" step="any" value={editQuantity} onChange={(e) => setEditQuantity(e.target.value)} onBlur={() => handleSaveQuantity(i)} autoFocus className="w-20 p-1 text-sm border border-[#AABC91] rounded-md bg-white dark:bg-black/20" aria-label="Quantity" />
+                                    <span className="text-sm ml-1">{ing.unit}</span>
+                                  </form>
+                                ) : (
+                                  <span className="text-sm"> - {formatIngredientAmount(ing.quantity, ing.unit)}</span>
+                                )}
+                                {ing.recipeIds && ing.recipeIds.length > 1 && (
+                                  <span className="text-xs text-[#AABC91] dark:text-[#C1D3AF]"> (from {ing.recipeIds.length} recipes)</span>
+                                )}
+                                {ing.checked && ing.checkedBy && getCheckerName(ing.checkedBy) && (
+                                  <span className="block text-xs text-[#AABC91] dark:text-[#C1D3AF]">
+                                    Checked by {getCheckerName(ing.checkedBy)}{ing.checkedAt && ` at ${new Date(ing.checkedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
+                                  </span>
+                                )}
+                              </div>
+                              {listSource !== 'recipe' && editingItemIndex !== i && (
+                                <div onClick={(e) => e.stopPropagation()} className="ml-auto flex items-center opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity print:hidden">
+                                  <button onClick={() => position > 0 && handleMoveIngredient(i, items[position - 1].index)} disabled={position === 0} className="p-1 rounded-full text-[#AABC91] hover:bg-[#AABC91]/30 disabled:opacity-30" title="Move up">
+                                    <ChevronUp className="h-4 w-4" />
+                                  </button>
+                                  <button onClick={() => position < items.length - 1 && handleMoveIngredient(i, items[position + 1].index)} disabled={position === items.length - 1} className="p-1 rounded-full text-[#AABC91] hover:bg-[#AABC91]/30 disabled:opacity-30" title="Move down">
+                                    <ChevronDown className="h-4 w-4" />
+                                  </button>
+                                  <button onClick={() => { setEditingItemIndex(i); setEditQuantity(String(ing.quantity)); }} className="p-1 rounded-full text-[#AABC91] hover:bg-[#AABC91]/30" title="Edit quantity">
+                                    <Pencil className="h-4 w-4" />
+                                  </button>
+                                  {listSource === 'active' && (
+                                    <button onClick={() => setSubstitutingItemIndex(substitutingItemIndex === i ? null : i)} className="p-1 rounded-full text-[#AABC91] hover:bg-[#AABC91]/30" title="Not available? Find a substitute">
+                                      <Replace className="h-4 w-4" />
+                                    </button>
+                                  )}
+                                  <button onClick={() => handleRemoveIngredient(i)} className="p-1 rounded-full text-[#F96850] hover:bg-[#F96850]/30" title="Remove">
+                                    <X className="h-4 w-4" />
+                                  </button>
+                                </div>
+                              )}
+                            </li>
+                            {substitutingItemIndex === i && listSource === 'active' && (
+                              <li>
+                                <SubstitutionPicker
+                                  item={ing}
+                                  onApplied={(groceryList) => {
+                                    setIngredients(withCheckedState(groceryList.ingredients));
+                                    listVersionRef.current = groceryList.version;
+                                    setSubstitutingItemIndex(null);
+                                  }}
+                                  onClose={() => setSubstitutingItemIndex(null)}
+                                />
+                              </li>
+                            )}
+                          </React.Fragment>
+                        ))}
+                      </ul>
+                    </section>
                   ))}
-                </ul>
+                </div>
               ) : <div className="flex flex-col items-center justify-center text-center p-10 bg-white/50 dark:bg-black/10 rounded-xl">
                     <p className="text-lg font-semibold text-[#7D966D] dark:text-[#CDE7C0]">Your list is empty</p>
                     <p className="text-sm text-[#AABC91] dark:text-[#C1D3AF]">Add items from your saved recipes.</p>
@@ -362,6 +736,23 @@ export default function ShoppingListGridView() {
               }
             </div>
 
+            {alreadyHave.length > 0 && (
+              <div className="mt-6 p-4 bg-white/50 dark:bg-black/20 rounded-xl">
+                <div className="flex justify-between items-center mb-2">
+                  <h2 className="text-lg font-bold text-[#7D966D] dark:text-[#CDE7C0]">Already have</h2>
+                  <Link href="/user/pantry" className="text-sm text-[#F96850] dark:text-[#F16B59] hover:underline print:hidden">Manage pantry</Link>
+                </div>
+                <p className="text-sm text-[#AABC91] dark:text-[#C1D3AF] mb-3">These amounts are covered by your pantry and were left off the list.</p>
+                <ul className="flex flex-wrap gap-2">
+                  {alreadyHave.map((ing, i) => (
+                    <li key={i} className="px-3 py-1 rounded-full text-sm bg-[#EFF4E6] dark:bg-[#373739] text-[#7D966D] dark:text-[#CDE7C0]">
+                      {ing.name} <span className="opacity-70">{formatIngredientAmount(ing.quantity, ing.unit)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             <div className="mt-8 print:hidden">
                 <h2 className="text-xl font-bold mb-4 text-[#7D966D] dark:text-[#CDE7C0]">Save Current List</h2>
                 <div className="flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-4">
@@ -373,19 +764,28 @@ export default function ShoppingListGridView() {
           </div>
 
           {/* Columna Derecha: Listas guardadas */}
-          <div className="lg:col-span-1">
-            <div className="bg-[#EFF4E6] dark:bg-[#373739] p-6 rounded-2xl shadow-lg h-full border border-gray-200 dark:border-gray-700">
+          <div className="lg:col-span-1 space-y-8">
+            <BudgetPanel items={ingredients} preferredStores={preferredStores} />
+            <StaplesPanel onStaplesChange={fetchShoppingList} />
+            <HouseholdPanel onHouseholdChange={fetchShoppingList} />
+            <div className="bg-[#EFF4E6] dark:bg-[#373739] p-6 rounded-2xl shadow-lg border border-gray-200 dark:border-gray-700">
                 <h2 className="text-2xl font-bold mb-6 text-[#7D966D] dark:text-[#CDE7C0]">Your Saved Lists</h2>
                 {savedLists.length > 0 ? (
                     <div className="space-y-4 max-h-[75vh] overflow-y-auto pr-3 -mr-3">
                     {savedLists.map(list => (
                         <div key={list._id} onClick={() => handleLoadList(list)} className="p-4 bg-white/80 dark:bg-black/20 rounded-xl flex justify-between items-center cursor-pointer hover:shadow-md hover:scale-[1.02] transition-all">
                         <div>
-                            <p className="font-bold text-[#7D966D] dark:text-[#CDE7C0]">{list.name}</p>
+                            {renamingListId === list._id ? (
+                              <form onSubmit={(e) => handleRenameList(e, list)} onClick={(e) => e.stopPropagation()}>
+                                <input value={renameValue} onChange={(e) => setRenameValue(e.target.value)} onBlur={(e) => handleRenameList(e, list)} autoFocus className="w-full p-1 font-bold border border-[#AABC91] rounded-md bg-white dark:bg-black/20 text-[#7D966D] dark:text-[#CDE7C0]" aria-label="List name" />
+                              </form>
+                            ) : (
+                              <p className="font-bold text-[#7D966D] dark:text-[#CDE7C0]">{list.name}</p>
+                            )}
                             <p className="text-sm text-[#AABC91] dark:text-[#C1D3AF]">Saved on: {new Date(list.createdAt).toLocaleDateString()}</p>
                         </div>
                         <div className="flex items-center space-x-2 flex-shrink-0">
-                            <button onClick={(e) => handleEditList(e, list._id)} className="p-2 rounded-full text-[#AABC91] dark:text-[#C1D3AF] hover:bg-[#AABC91]/30 dark:hover:bg-[#C1D3AF]/30 transition-colors" title="Edit">
+                            <button onClick={(e) => handleEditList(e, list)} className="p-2 rounded-full text-[#AABC91] dark:text-[#C1D3AF] hover:bg-[#AABC91]/30 dark:hover:bg-[#C1D3AF]/30 transition-colors" title="Rename">
                                 <EditIcon />
                             </button>
                             <button onClick={(e) => { e.stopPropagation(); handleDeleteList(list._id); }} className="p-2 rounded-full text-[#F96850] dark:text-[#F16B59] hover:bg-[#F96850]/30 dark:hover:bg-[#F16B59]/30 transition-colors" title="Delete">
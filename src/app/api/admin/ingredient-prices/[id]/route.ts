@@ -0,0 +1,94 @@
+/**
+ * Admin Ingredient Price API Route
+ *
+ * PATCH  /api/admin/ingredient-prices/[id] - Edit name, unit, price or storePrices
+ * DELETE /api/admin/ingredient-prices/[id] - Remove a price from the catalogue
+ */
+
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { ObjectId } from 'mongodb';
+import { authOptions } from '@/lib/auth';
+import { shouldBeAdmin } from '@/config/team';
+import {
+  updateIngredientPrice,
+  deleteIngredientPrice,
+  validateIngredientPriceInput,
+} from '@/models/IngredientPrice';
+
+/**
+ * Returns an error response unless the current user is an admin
+ */
+async function checkAdmin(): Promise<NextResponse | null> {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!shouldBeAdmin(session.user.email)) {
+    return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+  }
+  return null;
+}
+
+export async function PATCH(
+  request: Request,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const denied = await checkAdmin();
+    if (denied) return denied;
+
+    const { id } = await context.params;
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: 'Invalid price ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validationError = validateIngredientPriceInput(body, true);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const { name, unit, price, storePrices } = body;
+    const updated = await updateIngredientPrice(id, { name, unit, price, storePrices });
+    if (!updated) {
+      return NextResponse.json({ error: 'Price not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, price: updated });
+  } catch (error) {
+    console.error('Error updating ingredient price:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const denied = await checkAdmin();
+    if (denied) return denied;
+
+    const { id } = await context.params;
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: 'Invalid price ID' }, { status: 400 });
+    }
+
+    const wasDeleted = await deleteIngredientPrice(id);
+    if (!wasDeleted) {
+      return NextResponse.json({ error: 'Price not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, message: 'Price deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting ingredient price:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
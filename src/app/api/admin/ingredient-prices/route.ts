@@ -0,0 +1,73 @@
+/**
+ * Admin Ingredient Prices API Route
+ *
+ * GET  /api/admin/ingredient-prices - List the price catalogue
+ * POST /api/admin/ingredient-prices - Add a price: { name, unit, price, storePrices? }
+ *
+ * Prices are per unit ('kg', 'l', '' for per piece); storePrices maps store
+ * names (as users enter them in their preferred stores) to prices.
+ */
+
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { shouldBeAdmin } from '@/config/team';
+import {
+  findAllIngredientPrices,
+  createIngredientPrice,
+  validateIngredientPriceInput,
+  PRICE_CURRENCY,
+  type IngredientPriceInput,
+} from '@/models/IngredientPrice';
+
+/**
+ * Returns an error response unless the current user is an admin
+ */
+async function checkAdmin(): Promise<NextResponse | null> {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!shouldBeAdmin(session.user.email)) {
+    return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+  }
+  return null;
+}
+
+export async function GET(): Promise<NextResponse> {
+  try {
+    const denied = await checkAdmin();
+    if (denied) return denied;
+
+    const prices = await findAllIngredientPrices();
+    return NextResponse.json({ prices, currency: PRICE_CURRENCY });
+  } catch (error) {
+    console.error('Error fetching ingredient prices:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request): Promise<NextResponse> {
+  try {
+    const denied = await checkAdmin();
+    if (denied) return denied;
+
+    const body = await request.json();
+    const validationError = validateIngredientPriceInput(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const price = await createIngredientPrice(body as IngredientPriceInput);
+    return NextResponse.json({ success: true, price }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating ingredient price:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
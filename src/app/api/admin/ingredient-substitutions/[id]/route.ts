@@ -0,0 +1,94 @@
+/**
+ * Admin Ingredient Substitution API Route
+ *
+ * PATCH  /api/admin/ingredient-substitutions/[id] - Edit ingredient, unit, replacements, note or contains
+ * DELETE /api/admin/ingredient-substitutions/[id] - Remove a rule from the knowledge base
+ */
+
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { ObjectId } from 'mongodb';
+import { authOptions } from '@/lib/auth';
+import { shouldBeAdmin } from '@/config/team';
+import {
+  updateIngredientSubstitution,
+  deleteIngredientSubstitution,
+  validateIngredientSubstitutionInput,
+} from '@/models/IngredientSubstitution';
+
+/**
+ * Returns an error response unless the current user is an admin
+ */
+async function checkAdmin(): Promise<NextResponse | null> {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!shouldBeAdmin(session.user.email)) {
+    return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+  }
+  return null;
+}
+
+export async function PATCH(
+  request: Request,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const denied = await checkAdmin();
+    if (denied) return denied;
+
+    const { id } = await context.params;
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: 'Invalid substitution ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validationError = validateIngredientSubstitutionInput(body, true);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const { ingredient, unit, replacements, note, contains } = body;
+    const updated = await updateIngredientSubstitution(id, { ingredient, unit, replacements, note, contains });
+    if (!updated) {
+      return NextResponse.json({ error: 'Substitution not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, substitution: updated });
+  } catch (error) {
+    console.error('Error updating ingredient substitution:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const denied = await checkAdmin();
+    if (denied) return denied;
+
+    const { id } = await context.params;
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: 'Invalid substitution ID' }, { status: 400 });
+    }
+
+    const wasDeleted = await deleteIngredientSubstitution(id);
+    if (!wasDeleted) {
+      return NextResponse.json({ error: 'Substitution not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, message: 'Substitution deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting ingredient substitution:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
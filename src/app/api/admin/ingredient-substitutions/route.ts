@@ -0,0 +1,74 @@
+/**
+ * Admin Ingredient Substitutions API Route
+ *
+ * GET  /api/admin/ingredient-substitutions - List the substitution knowledge base
+ * POST /api/admin/ingredient-substitutions - Add a rule:
+ *      { ingredient, unit, replacements: [{ name, quantity, unit }], note?, contains? }
+ *
+ * Replacement quantities are per one `unit` of the ingredient ('' for per piece);
+ * contains lists tags (dairy, egg, gluten, ...) checked against users' diets.
+ */
+
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { shouldBeAdmin } from '@/config/team';
+import {
+  findAllIngredientSubstitutions,
+  createIngredientSubstitution,
+  validateIngredientSubstitutionInput,
+  type IngredientSubstitutionInput,
+} from '@/models/IngredientSubstitution';
+import { SUBSTITUTION_TAGS } from '@/utils/ingredientSubstitutions';
+
+/**
+ * Returns an error response unless the current user is an admin
+ */
+async function checkAdmin(): Promise<NextResponse | null> {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!shouldBeAdmin(session.user.email)) {
+    return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+  }
+  return null;
+}
+
+export async function GET(): Promise<NextResponse> {
+  try {
+    const denied = await checkAdmin();
+    if (denied) return denied;
+
+    const substitutions = await findAllIngredientSubstitutions();
+    return NextResponse.json({ substitutions, tags: SUBSTITUTION_TAGS });
+  } catch (error) {
+    console.error('Error fetching ingredient substitutions:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request): Promise<NextResponse> {
+  try {
+    const denied = await checkAdmin();
+    if (denied) return denied;
+
+    const body = await request.json();
+    const validationError = validateIngredientSubstitutionInput(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const substitution = await createIngredientSubstitution(body as IngredientSubstitutionInput);
+    return NextResponse.json({ success: true, substitution }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating ingredient substitution:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { getCollection, COLLECTIONS } from '@/lib/db';
 import { ObjectId } from 'mongodb';
+import { invalidateRecipeSearchIndex, syncRecipeSearchEntry } from '@/services/recipeSearchService.server';
 
 /**
  * DELETE /api/admin/recipes/[id] - Delete a recipe by ID
@@ -155,6 +156,13 @@ export async function DELETE(
       );
     }
 
+    // Remove it from the search; a recipe deleted by its Spoonacular id is left to the next rebuild
+    if (ObjectId.isValid(actualId)) {
+      await syncRecipeSearchEntry(collectionName, new ObjectId(actualId));
+    } else {
+      await invalidateRecipeSearchIndex();
+    }
+
     return NextResponse.json({
       success: true,
       message: `Recipe deleted successfully from ${deletedFrom}`,
@@ -6,6 +6,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
 import { getCollection, COLLECTIONS } from '@/lib/db';
+import { syncRecipeSearchEntry } from '@/services/recipeSearchService.server';
 
 export async function POST(request: NextRequest) {
   try {
@@ -67,6 +68,7 @@ export async function POST(request: NextRequest) {
     };
 
     const result = await adminRecipesCollection.insertOne(testRecipe);
+    await syncRecipeSearchEntry(COLLECTIONS.RECIPES, result.insertedId);
 
     return NextResponse.json({
       success: true,
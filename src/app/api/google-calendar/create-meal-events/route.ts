@@ -8,7 +8,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
-import type { IMealPlan } from '@/types/meal-planning';
+import { toDateKey, type IMealPlan } from '@/types/meal-planning';
+import { UserSettingsService } from '@/services/userSettingsService.server';
+import { getGoogleCalendarColorId, getMealEventDuration } from '@/services/googleCalendarService';
+import { getMealsOfType, getMealTypesForDays, normalizeMealTypes } from '@/utils/mealTypes';
 
 export async function POST(request: NextRequest) {
   try {
@@ -34,88 +37,37 @@ export async function POST(request: NextRequest) {
     // Create calendar events data structure
     const events = [];
 
-    // Create calendar events for each meal
-    for (const [dayIndex, day] of mealPlan.days.entries()) {
-      const dayDate = new Date(day.date);
-      
-      // Breakfast event
-      if (day.breakfast.length > 0) {
-        const breakfastEvent = {
-          summary: `Breakfast: ${day.breakfast.map(meal => meal.recipeName).join(', ')}`,
-          description: `Meal plan: ${title || mealPlan.title}\n\nRecipes:\n${day.breakfast.map(meal => 
-            `- ${meal.recipeName}${meal.notes ? ` (${meal.notes})` : ''}`
-          ).join('\n')}`,
-          start: {
-            dateTime: new Date(dayDate.setHours(8, 0, 0)).toISOString(),
-            timeZone: 'Europe/Berlin',
-          },
-          end: {
-            dateTime: new Date(dayDate.setHours(9, 0, 0)).toISOString(),
-            timeZone: 'Europe/Berlin',
-          },
-          colorId: '4', // Light blue
-        };
-        events.push(breakfastEvent);
-      }
+    // Events follow the user's meal types: their times, names and colours
+    const userId = session.user.id || session.user.email;
+    const settings = await UserSettingsService.getUserSettings(userId);
+    const mealTypes = normalizeMealTypes(settings.mealPlanning?.mealTypes);
 
-      // Lunch event
-      if (day.lunch.length > 0) {
-        const lunchEvent = {
-          summary: `Lunch: ${day.lunch.map(meal => meal.recipeName).join(', ')}`,
-          description: `Meal plan: ${title || mealPlan.title}\n\nRecipes:\n${day.lunch.map(meal => 
-            `- ${meal.recipeName}${meal.notes ? ` (${meal.notes})` : ''}`
-          ).join('\n')}`,
-          start: {
-            dateTime: new Date(dayDate.setHours(12, 0, 0)).toISOString(),
-            timeZone: 'Europe/Berlin',
-          },
-          end: {
-            dateTime: new Date(dayDate.setHours(13, 0, 0)).toISOString(),
-            timeZone: 'Europe/Berlin',
-          },
-          colorId: '2', // Green
-        };
-        events.push(lunchEvent);
-      }
+    // Create one calendar event per meal type and day
+    for (const day of mealPlan.days) {
+      const dayKey = toDateKey(new Date(day.date));
 
-      // Dinner event
-      if (day.dinner.length > 0) {
-        const dinnerEvent = {
-          summary: `Dinner: ${day.dinner.map(meal => meal.recipeName).join(', ')}`,
-          description: `Meal plan: ${title || mealPlan.title}\n\nRecipes:\n${day.dinner.map(meal => 
-            `- ${meal.recipeName}${meal.notes ? ` (${meal.notes})` : ''}`
-          ).join('\n')}`,
-          start: {
-            dateTime: new Date(dayDate.setHours(18, 0, 0)).toISOString(),
-            timeZone: 'Europe/Berlin',
-          },
-          end: {
-            dateTime: new Date(dayDate.setHours(19, 0, 0)).toISOString(),
-            timeZone: 'Europe/Berlin',
-          },
-          colorId: '1', // Red
-        };
-        events.push(dinnerEvent);
-      }
+      for (const mealType of getMealTypesForDays(mealTypes, [day])) {
+        const meals = getMealsOfType(day, mealType.id);
+        if (meals.length === 0) continue;
+
+        const start = new Date(`${dayKey}T${mealType.time}:00`);
+        const end = new Date(start.getTime() + getMealEventDuration(mealType.id) * 60 * 1000);
 
-      // Snacks event (if any)
-      if (day.snacks.length > 0) {
-        const snacksEvent = {
-          summary: `Snacks: ${day.snacks.map(meal => meal.recipeName).join(', ')}`,
-          description: `Meal plan: ${title || mealPlan.title}\n\nSnacks:\n${day.snacks.map(meal => 
+        events.push({
+          summary: `${mealType.name}: ${meals.map(meal => meal.recipeName).join(', ')}`,
+          description: `Meal plan: ${title || mealPlan.title}\n\nRecipes:\n${meals.map(meal => 
             `- ${meal.recipeName}${meal.notes ? ` (${meal.notes})` : ''}`
           ).join('\n')}`,
           start: {
-            dateTime: new Date(dayDate.setHours(15, 0, 0)).toISOString(),
+            dateTime: start.toISOString(),
             timeZone: 'Europe/Berlin',
           },
           end: {
-            dateTime: new Date(dayDate.setHours(15, 30, 0)).toISOString(),
+            dateTime: end.toISOString(),
             timeZone: 'Europe/Berlin',
           },
-          colorId: '5', // Orange
-        };
-        events.push(snacksEvent);
+          colorId: getGoogleCalendarColorId(mealType.color),
+        });
       }
     }
 
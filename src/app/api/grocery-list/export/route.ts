@@ -0,0 +1,74 @@
+/**
+ * Grocery List Export API Route
+ *
+ * GET /api/grocery-list/export?format=csv|md|txt|json - Download the active grocery list
+ * GET /api/grocery-list/export?format=csv&listId=... - Download a saved list instead
+ *
+ * Sections follow the user's store section order.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { ObjectId } from 'mongodb';
+import { authOptions } from '@/lib/auth';
+import { findUserByEmail } from '@/models/User';
+import { findGroceryListByUserId } from '@/models/GroceryList';
+import { findSavedListById } from '@/models/SavedGroceryList';
+import { UserSettingsService } from '@/services/userSettingsService.server';
+import { connectToDatabase } from '@/lib/db';
+import { exportGroceryList, GROCERY_EXPORT_FORMATS, type GroceryExportFormat } from '@/utils/groceryListExport';
+
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user || !session.user.email) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const format = (req.nextUrl.searchParams.get('format') || 'csv') as GroceryExportFormat;
+    const listId = req.nextUrl.searchParams.get('listId');
+
+    if (!GROCERY_EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json({ message: `format must be one of ${GROCERY_EXPORT_FORMATS.join(', ')}` }, { status: 400 });
+    }
+    if (listId && !ObjectId.isValid(listId)) {
+      return NextResponse.json({ message: 'Invalid list ID' }, { status: 400 });
+    }
+
+    await connectToDatabase();
+    const user = await findUserByEmail(session.user.email);
+    if (!user?._id) {
+      return NextResponse.json({ message: 'User not found' }, { status: 404 });
+    }
+
+    let title = 'Grocery List';
+    let items;
+    if (listId) {
+      const savedList = await findSavedListById(listId, user._id);
+      if (!savedList) {
+        return NextResponse.json({ message: 'List not found' }, { status: 404 });
+      }
+      title = savedList.name;
+      items = savedList.ingredients;
+    } else {
+      items = (await findGroceryListByUserId(user._id))?.ingredients || [];
+    }
+
+    // Settings are keyed by the session id like the rest of the preferences API
+    const settings = await UserSettingsService.getUserSettings(session.user.id || session.user.email);
+    const file = exportGroceryList(items, format, { title, sectionOrder: settings.shopping?.storeSectionOrder });
+    const filename = `${title.replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || 'grocery-list'}.${file.extension}`;
+
+    return new NextResponse(file.content, {
+      status: 200,
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error('[API /grocery-list/export GET]', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ message: 'Internal Server Error', error: errorMessage }, { status: 500 });
+  }
+}
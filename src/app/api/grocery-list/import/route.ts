@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { findUserByEmail } from '@/models/User';
+import { createOrUpdateGroceryList, replaceGroceryList } from '@/models/GroceryList';
+import { connectToDatabase } from '@/lib/db';
+import { importGroceryList } from '@/utils/groceryListExport';
+
+// POST request to read a CSV or Markdown export into the active grocery list
+// Body: { content, format?: 'csv' | 'md', mode?: 'merge' | 'replace' } - format is detected when missing
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user || !session.user.email) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectToDatabase();
+    const user = await findUserByEmail(session.user.email);
+    if (!user?._id) {
+      return NextResponse.json({ message: 'User not found' }, { status: 404 });
+    }
+
+    const { content, format, mode = 'merge' } = await req.json();
+
+    if (typeof content !== 'string' || !content.trim()) {
+      return NextResponse.json({ message: 'Missing required field: content' }, { status: 400 });
+    }
+    if (format !== undefined && format !== 'csv' && format !== 'md') {
+      return NextResponse.json({ message: "format must be 'csv' or 'md'" }, { status: 400 });
+    }
+    if (mode !== 'merge' && mode !== 'replace') {
+      return NextResponse.json({ message: "mode must be 'merge' or 'replace'" }, { status: 400 });
+    }
+
+    const { items, skippedLines } = importGroceryList(content, format);
+    if (items.length === 0) {
+      return NextResponse.json({ message: 'No grocery items found in the file' }, { status: 400 });
+    }
+
+    const groceryList = mode === 'replace'
+      ? await replaceGroceryList(user._id, items)
+      : await createOrUpdateGroceryList(user._id, items);
+
+    return NextResponse.json({ groceryList, imported: items.length, skippedLines }, { status: 200 });
+  } catch (error) {
+    console.error('[API /grocery-list/import POST]', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ message: 'Internal Server Error', error: errorMessage }, { status: 500 });
+  }
+}
@@ -3,8 +3,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
 import { findUserByEmail } from '@/models/User';
-import { findGroceryListByUserId, createOrUpdateGroceryList } from '@/models/GroceryList';
+import { findGroceryListByUserId, createOrUpdateGroceryList, applyOperationsToGroceryList } from '@/models/GroceryList';
 import { connectToDatabase } from '@/lib/db';
+import { consolidateGroceryItems } from '@/utils/groceryListHelper';
+import { isGroceryListOperation } from '@/utils/groceryListOperations';
 
 export async function POST(req: NextRequest) {
   try {
@@ -19,10 +21,15 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ message: 'User not found' }, { status: 404 });
     }
 
-    const { ingredients } = await req.json();
+    const { ingredients, recipeId } = await req.json();
 
-    // Use the new native MongoDB function
-    const updatedList = await createOrUpdateGroceryList(user._id, ingredients);
+    if (!Array.isArray(ingredients)) {
+      return NextResponse.json({ message: 'Missing required field: ingredients' }, { status: 400 });
+    }
+
+    // Merge duplicates within the request before merging into the stored list
+    const items = consolidateGroceryItems(ingredients, recipeId);
+    const updatedList = await createOrUpdateGroceryList(user._id, items);
 
     return NextResponse.json(updatedList, { status: 200 });
   } catch (error) {
@@ -41,10 +48,12 @@ export async function GET(req: NextRequest) {
 
     await connectToDatabase();
     const user = await findUserByEmail(session.user.email);
-    if (!user) {
+    if (!user?._id) {
       return NextResponse.json({ message: 'User not found' }, { status: 404 });
     }
 
+    const knownVersion = req.nextUrl.searchParams.get('version');
+
     // Use the new native MongoDB function
     const groceryList = await findGroceryListByUserId(user._id);
 
@@ -53,6 +62,11 @@ export async function GET(req: NextRequest) {
       return NextResponse.json({ ingredients: [] }, { status: 200 });
     }
 
+    // Polling clients send the version they have; skip the payload if nothing changed
+    if (knownVersion !== null && Number(knownVersion) === (groceryList.version ?? 0)) {
+      return NextResponse.json({ unchanged: true, version: knownVersion }, { status: 200 });
+    }
+
     return NextResponse.json(groceryList, { status: 200 });
   } catch (error) {
     console.error('[API /grocery-list GET]', error);
@@ -60,3 +74,36 @@ export async function GET(req: NextRequest) {
     return NextResponse.json({ message: 'Internal Server Error', error: errorMessage }, { status: 500 });
   }
 }
+
+// PATCH applies check-offs, additions and removals on top of the latest list,
+// so edits from several household members merge instead of overwriting
+export async function PATCH(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user || !session.user.email) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectToDatabase();
+    const user = await findUserByEmail(session.user.email);
+    if (!user?._id) {
+      return NextResponse.json({ message: 'User not found' }, { status: 404 });
+    }
+
+    const { operations } = await req.json();
+
+    if (!Array.isArray(operations) || operations.length === 0 || !operations.every(isGroceryListOperation)) {
+      return NextResponse.json({ message: 'operations must be a non-empty array of toggle, add, remove, edit or reorder operations' }, { status: 400 });
+    }
+
+    const updatedList = await applyOperationsToGroceryList(user._id, operations, {
+      id: user._id.toString(),
+    });
+
+    return NextResponse.json(updatedList, { status: 200 });
+  } catch (error) {
+    console.error('[API /grocery-list PATCH]', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ message: 'Internal Server Error', error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Grocery List Staples API Route
+ *
+ * POST /api/grocery-list/staples - Add the staples that became due since the
+ *      last time to the active list. Called when the shopping list page opens,
+ *      so staples appear when the week or month rolls over.
+ *      Returns { added: true, list } or { added: false } when nothing was due.
+ */
+
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { findUserByEmail } from '@/models/User';
+import { connectToDatabase } from '@/lib/db';
+import { addDueStaplesToGroceryList, getWeekStartsOn } from '@/services/groceryStapleService.server';
+
+export async function POST() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user || !session.user.email) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectToDatabase();
+    const user = await findUserByEmail(session.user.email);
+    if (!user?._id) {
+      return NextResponse.json({ message: 'User not found' }, { status: 404 });
+    }
+
+    const list = await addDueStaplesToGroceryList(user._id, await getWeekStartsOn(session.user.id || session.user.email));
+
+    return NextResponse.json(list ? { added: true, list } : { added: false }, { status: 200 });
+  } catch (error) {
+    console.error('[API /grocery-list/staples POST]', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ message: 'Internal Server Error', error: errorMessage }, { status: 500 });
+  }
+}
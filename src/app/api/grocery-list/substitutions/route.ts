@@ -0,0 +1,108 @@
+/**
+ * Grocery List Substitutions API Route
+ *
+ * GET  /api/grocery-list/substitutions?name=buttermilk&quantity=500&unit=ml
+ *      - Substitutions for an item that suit the user's dietary settings
+ * POST /api/grocery-list/substitutions - Replace an item on the active list:
+ *      { name, unit?, substitutionId, updateMeals? } - updateMeals adds a note
+ *      to the upcoming meals that use the item
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { ObjectId } from 'mongodb';
+import { authOptions } from '@/lib/auth';
+import { findUserByEmail } from '@/models/User';
+import { connectToDatabase } from '@/lib/db';
+import { applySubstitution, getSubstitutionSuggestions } from '@/services/substitutionService.server';
+
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user || !session.user.email) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const params = req.nextUrl.searchParams;
+    const name = params.get('name')?.trim();
+    const quantity = params.has('quantity') ? Number(params.get('quantity')) : 1;
+    const unit = params.get('unit') || '';
+
+    if (!name) {
+      return NextResponse.json({ message: 'Missing required parameter: name' }, { status: 400 });
+    }
+    if (!(quantity > 0)) {
+      return NextResponse.json({ message: 'quantity must be a number above zero' }, { status: 400 });
+    }
+
+    await connectToDatabase();
+    const suggestions = await getSubstitutionSuggestions({ name, quantity, unit }, session.user.id || session.user.email);
+
+    return NextResponse.json({
+      suggestions: suggestions.map(({ rule, items, approximate }) => ({
+        substitutionId: rule._id,
+        items,
+        note: rule.note,
+        approximate,
+      })),
+    }, { status: 200 });
+  } catch (error) {
+    console.error('[API /grocery-list/substitutions GET]', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ message: 'Internal Server Error', error: errorMessage }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user || !session.user.email) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectToDatabase();
+    const user = await findUserByEmail(session.user.email);
+    if (!user?._id) {
+      return NextResponse.json({ message: 'User not found' }, { status: 404 });
+    }
+
+    const { name, unit, substitutionId, updateMeals = false } = await req.json();
+
+    if (typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json({ message: 'Missing required field: name' }, { status: 400 });
+    }
+    if (typeof substitutionId !== 'string' || !ObjectId.isValid(substitutionId)) {
+      return NextResponse.json({ message: 'Invalid substitution ID' }, { status: 400 });
+    }
+
+    const result = await applySubstitution(
+      user._id,
+      session.user.id || session.user.email,
+      { name, unit: typeof unit === 'string' ? unit : '' },
+      substitutionId,
+      { id: user._id.toString() },
+      Boolean(updateMeals)
+    );
+
+    switch (result.status) {
+      case 'item-not-found':
+        return NextResponse.json({ message: 'Item is not on your grocery list' }, { status: 404 });
+      case 'rule-not-found':
+        return NextResponse.json({ message: 'Substitution not found' }, { status: 404 });
+      case 'rule-mismatch':
+        return NextResponse.json({ message: `This substitution is not for ${name}` }, { status: 400 });
+      case 'not-suitable':
+        return NextResponse.json({ message: `This substitution does not suit your diet: ${result.conflicts.join(', ')}` }, { status: 422 });
+    }
+
+    return NextResponse.json({
+      groceryList: result.groceryList,
+      replacements: result.suggestion.items,
+      updatedMeals: result.updatedMeals,
+    }, { status: 200 });
+  } catch (error) {
+    console.error('[API /grocery-list/substitutions POST]', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ message: 'Internal Server Error', error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { ObjectId } from 'mongodb';
+import { authOptions } from '@/lib/auth';
+import { findUserByEmail } from '@/models/User';
+import { deleteGrocerySpend } from '@/models/GrocerySpend';
+import { connectToDatabase } from '@/lib/db';
+
+// DELETE request to remove a receipt entry from the spend history
+export async function DELETE(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const { id } = await context.params;
+
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user || !session.user.email) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ message: 'Invalid entry ID' }, { status: 400 });
+    }
+
+    await connectToDatabase();
+    const user = await findUserByEmail(session.user.email);
+    if (!user?._id) {
+      return NextResponse.json({ message: 'User not found' }, { status: 404 });
+    }
+
+    const wasDeleted = await deleteGrocerySpend(id, user._id);
+    if (!wasDeleted) {
+      return NextResponse.json({ message: 'Entry not found or you do not have permission to delete it' }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: 'Entry deleted successfully' }, { status: 200 });
+  } catch (error) {
+    console.error(`[API /grocery-spend/${id} DELETE]`, error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ message: 'Internal Server Error', error: errorMessage }, { status: 500 });
+  }
+}
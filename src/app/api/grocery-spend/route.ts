@@ -0,0 +1,106 @@
+/**
+ * Grocery Spend API Route
+ *
+ * GET  /api/grocery-spend?weeks=12 - Receipt history with weekly totals and the weekly budget
+ * POST /api/grocery-spend - Record a receipt: { amount, estimatedCost?, store?, note?, spentAt? }
+ *
+ * The budget is `UserSettings.mealPlanning.budgetPerWeek`; weeks start on the
+ * user's `weekStartsOn` day.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { format, startOfWeek, subWeeks } from 'date-fns';
+import { authOptions } from '@/lib/auth';
+import { findUserByEmail } from '@/models/User';
+import { findGrocerySpendByUserId, addGrocerySpend } from '@/models/GrocerySpend';
+import { PRICE_CURRENCY } from '@/models/IngredientPrice';
+import { UserSettingsService } from '@/services/userSettingsService.server';
+import { connectToDatabase } from '@/lib/db';
+import { roundPrice } from '@/utils/groceryCostEstimator';
+
+const DEFAULT_HISTORY_WEEKS = 12;
+
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user || !session.user.email) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectToDatabase();
+    const user = await findUserByEmail(session.user.email);
+    if (!user?._id) {
+      return NextResponse.json({ message: 'User not found' }, { status: 404 });
+    }
+
+    const weeksParam = Number(req.nextUrl.searchParams.get('weeks'));
+    const weeks = Number.isInteger(weeksParam) && weeksParam > 0 ? weeksParam : DEFAULT_HISTORY_WEEKS;
+
+    // Settings are keyed by the session id like the rest of the preferences API
+    const settings = await UserSettingsService.getUserSettings(session.user.id || session.user.email);
+    const weekStartsOn = settings.mealPlanning?.weekStartsOn ?? 1;
+    const currentWeekStart = startOfWeek(new Date(), { weekStartsOn });
+
+    const entries = await findGrocerySpendByUserId(user._id, subWeeks(currentWeekStart, weeks - 1));
+
+    const totals = new Map<string, number>();
+    for (const entry of entries) {
+      const weekStart = format(startOfWeek(entry.spentAt, { weekStartsOn }), 'yyyy-MM-dd');
+      totals.set(weekStart, (totals.get(weekStart) || 0) + entry.amount);
+    }
+
+    return NextResponse.json({
+      entries,
+      weeklyTotals: Array.from(totals, ([weekStart, total]) => ({ weekStart, total: roundPrice(total) })),
+      spentThisWeek: roundPrice(totals.get(format(currentWeekStart, 'yyyy-MM-dd')) || 0),
+      budgetPerWeek: settings.mealPlanning?.budgetPerWeek ?? null,
+      currency: PRICE_CURRENCY,
+    }, { status: 200 });
+  } catch (error) {
+    console.error('[API /grocery-spend GET]', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ message: 'Internal Server Error', error: errorMessage }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user || !session.user.email) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectToDatabase();
+    const user = await findUserByEmail(session.user.email);
+    if (!user?._id) {
+      return NextResponse.json({ message: 'User not found' }, { status: 404 });
+    }
+
+    const { amount, estimatedCost, store, note, spentAt } = await req.json();
+
+    if (typeof amount !== 'number' || !(amount > 0)) {
+      return NextResponse.json({ message: 'amount must be a positive number' }, { status: 400 });
+    }
+    if (estimatedCost !== undefined && (typeof estimatedCost !== 'number' || estimatedCost < 0)) {
+      return NextResponse.json({ message: 'estimatedCost must be a number that is not negative' }, { status: 400 });
+    }
+    if (spentAt && isNaN(new Date(spentAt).getTime())) {
+      return NextResponse.json({ message: 'spentAt must be a valid date' }, { status: 400 });
+    }
+
+    const entry = await addGrocerySpend(user._id, {
+      amount: roundPrice(amount),
+      estimatedCost,
+      store: typeof store === 'string' ? store : undefined,
+      note: typeof note === 'string' ? note : undefined,
+      spentAt,
+    });
+
+    return NextResponse.json(entry, { status: 201 });
+  } catch (error) {
+    console.error('[API /grocery-spend POST]', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ message: 'Internal Server Error', error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { ObjectId } from 'mongodb';
+import { authOptions } from '@/lib/auth';
+import { findUserByEmail } from '@/models/User';
+import { updateGroceryStaple, deleteGroceryStaple, validateGroceryStapleInput } from '@/models/GroceryStaple';
+import { connectToDatabase } from '@/lib/db';
+
+// PATCH request to edit name, quantity, unit, frequency or intervalWeeks
+export async function PATCH(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const { id } = await context.params;
+
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user || !session.user.email) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ message: 'Invalid staple ID' }, { status: 400 });
+    }
+
+    await connectToDatabase();
+    const user = await findUserByEmail(session.user.email);
+    if (!user?._id) {
+      return NextResponse.json({ message: 'User not found' }, { status: 404 });
+    }
+
+    const { name, quantity, unit, frequency, intervalWeeks } = await req.json();
+    const updates = { name, quantity, unit, frequency, intervalWeeks };
+
+    const validationError = validateGroceryStapleInput(updates, true);
+    if (validationError) {
+      return NextResponse.json({ message: validationError }, { status: 400 });
+    }
+
+    const staple = await updateGroceryStaple(user._id, id, updates);
+
+    if (!staple) {
+      return NextResponse.json({ message: 'Staple not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(staple, { status: 200 });
+  } catch (error) {
+    console.error(`[API /grocery-staples/${id} PATCH]`, error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ message: 'Internal Server Error', error: errorMessage }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const { id } = await context.params;
+
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user || !session.user.email) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ message: 'Invalid staple ID' }, { status: 400 });
+    }
+
+    await connectToDatabase();
+    const user = await findUserByEmail(session.user.email);
+    if (!user?._id) {
+      return NextResponse.json({ message: 'User not found' }, { status: 404 });
+    }
+
+    const wasDeleted = await deleteGroceryStaple(user._id, id);
+
+    if (!wasDeleted) {
+      return NextResponse.json({ message: 'Staple not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: 'Staple deleted successfully' }, { status: 200 });
+  } catch (error) {
+    console.error(`[API /grocery-staples/${id} DELETE]`, error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ message: 'Internal Server Error', error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Grocery Staples API Route
+ *
+ * GET  /api/grocery-staples - The user's recurring staples and their first day of the week
+ * POST /api/grocery-staples - Add a staple: { name, quantity, unit?, frequency, intervalWeeks? }
+ *
+ * frequency is 'weekly', 'every-n-weeks' (with intervalWeeks) or 'monthly'.
+ * Due staples are added to the active grocery list by POST /api/grocery-list/staples
+ * when the shopping list page opens.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { findUserByEmail } from '@/models/User';
+import {
+  findGroceryStaplesByUserId,
+  createGroceryStaple,
+  validateGroceryStapleInput,
+  type GroceryStapleInput,
+} from '@/models/GroceryStaple';
+import { getWeekStartsOn } from '@/services/groceryStapleService.server';
+import { connectToDatabase } from '@/lib/db';
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user || !session.user.email) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectToDatabase();
+    const user = await findUserByEmail(session.user.email);
+    if (!user?._id) {
+      return NextResponse.json({ message: 'User not found' }, { status: 404 });
+    }
+
+    const [staples, weekStartsOn] = await Promise.all([
+      findGroceryStaplesByUserId(user._id),
+      getWeekStartsOn(session.user.id || session.user.email),
+    ]);
+
+    return NextResponse.json({ staples, weekStartsOn }, { status: 200 });
+  } catch (error) {
+    console.error('[API /grocery-staples GET]', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ message: 'Internal Server Error', error: errorMessage }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user || !session.user.email) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectToDatabase();
+    const user = await findUserByEmail(session.user.email);
+    if (!user?._id) {
+      return NextResponse.json({ message: 'User not found' }, { status: 404 });
+    }
+
+    const body = await req.json();
+    const validationError = validateGroceryStapleInput(body);
+    if (validationError) {
+      return NextResponse.json({ message: validationError }, { status: 400 });
+    }
+
+    const staple = await createGroceryStaple(user._id, body as GroceryStapleInput);
+
+    return NextResponse.json(staple, { status: 201 });
+  } catch (error) {
+    console.error('[API /grocery-staples POST]', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ message: 'Internal Server Error', error: errorMessage }, { status: 500 });
+  }
+}
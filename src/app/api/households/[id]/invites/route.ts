@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { ObjectId } from 'mongodb';
+import { authOptions } from '@/lib/auth';
+import { findUserByEmail } from '@/models/User';
+import { findHouseholdByUserId, inviteToHousehold } from '@/models/Household';
+import { connectToDatabase } from '@/lib/db';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// POST request to invite someone to the household by email; any member can invite
+export async function POST(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const { id } = await context.params;
+
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user || !session.user.email) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ message: 'Invalid household ID' }, { status: 400 });
+    }
+
+    await connectToDatabase();
+    const user = await findUserByEmail(session.user.email);
+    if (!user?._id) {
+      return NextResponse.json({ message: 'User not found' }, { status: 404 });
+    }
+
+    const household = await findHouseholdByUserId(user._id);
+    if (!household || !household._id.equals(id)) {
+      return NextResponse.json({ message: 'Household not found or you are not a member' }, { status: 404 });
+    }
+
+    const { email } = await req.json();
+    if (typeof email !== 'string' || !EMAIL_PATTERN.test(email.trim())) {
+      return NextResponse.json({ message: 'A valid email is required' }, { status: 400 });
+    }
+
+    const updatedHousehold = await inviteToHousehold(household._id, email, user._id);
+
+    return NextResponse.json(updatedHousehold, { status: 201 });
+  } catch (error) {
+    console.error(`[API /households/${id}/invites POST]`, error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ message: 'Internal Server Error', error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { ObjectId } from 'mongodb';
+import { authOptions } from '@/lib/auth';
+import { findUserByEmail } from '@/models/User';
+import { findHouseholdByUserId, acceptHouseholdInvite, leaveHousehold } from '@/models/Household';
+import { releaseHouseholdGroceryList } from '@/models/GroceryList';
+import { connectToDatabase } from '@/lib/db';
+
+// POST request to accept an invite and join the household
+export async function POST(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const { id } = await context.params;
+
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user || !session.user.email) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ message: 'Invalid household ID' }, { status: 400 });
+    }
+
+    await connectToDatabase();
+    const user = await findUserByEmail(session.user.email);
+    if (!user?._id) {
+      return NextResponse.json({ message: 'User not found' }, { status: 404 });
+    }
+
+    if (await findHouseholdByUserId(user._id)) {
+      return NextResponse.json({ message: 'Leave your current household before joining another' }, { status: 409 });
+    }
+
+    const household = await acceptHouseholdInvite(id, user._id, session.user.email);
+    if (!household) {
+      return NextResponse.json({ message: 'No invite found for this household' }, { status: 404 });
+    }
+
+    return NextResponse.json(household, { status: 200 });
+  } catch (error) {
+    console.error(`[API /households/${id}/members POST]`, error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ message: 'Internal Server Error', error: errorMessage }, { status: 500 });
+  }
+}
+
+// DELETE request to leave the household; your personal grocery list is used again
+export async function DELETE(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const { id } = await context.params;
+
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user || !session.user.email) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ message: 'Invalid household ID' }, { status: 400 });
+    }
+
+    await connectToDatabase();
+    const user = await findUserByEmail(session.user.email);
+    if (!user?._id) {
+      return NextResponse.json({ message: 'User not found' }, { status: 404 });
+    }
+
+    const household = await findHouseholdByUserId(user._id);
+    if (!household || !household._id.equals(id)) {
+      return NextResponse.json({ message: 'Household not found or you are not a member' }, { status: 404 });
+    }
+
+    const remainingHousehold = await leaveHousehold(household._id, user._id);
+    if (!remainingHousehold) {
+      // Last member left: the shared list goes back to them
+      await releaseHouseholdGroceryList(household._id, user._id);
+    }
+
+    return NextResponse.json({ message: 'You left the household' }, { status: 200 });
+  } catch (error) {
+    console.error(`[API /households/${id}/members DELETE]`, error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ message: 'Internal Server Error', error: errorMessage }, { status: 500 });
+  }
+}
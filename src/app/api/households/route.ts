@@ -0,0 +1,83 @@
+/**
+ * Households API Route
+ *
+ * GET  /api/households - The user's household (with member names) and pending invites
+ * POST /api/households - Create a household; the user's grocery list becomes the shared list
+ *
+ * Members of a household share one active grocery list (see /api/grocery-list).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { findUserByEmail, findUserById } from '@/models/User';
+import { findHouseholdByUserId, findHouseholdsInvitingEmail, createHousehold } from '@/models/Household';
+import { shareGroceryListWithHousehold } from '@/models/GroceryList';
+import { connectToDatabase } from '@/lib/db';
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user || !session.user.email) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectToDatabase();
+    const user = await findUserByEmail(session.user.email);
+    if (!user?._id) {
+      return NextResponse.json({ message: 'User not found' }, { status: 404 });
+    }
+
+    const [household, invitingHouseholds] = await Promise.all([
+      findHouseholdByUserId(user._id),
+      findHouseholdsInvitingEmail(session.user.email),
+    ]);
+
+    const members = household
+      ? (await Promise.all(household.memberIds.map(memberId => findUserById(memberId))))
+          .filter(member => member !== null)
+          .map(member => ({ _id: member._id, name: member.name, email: member.email }))
+      : [];
+
+    return NextResponse.json({
+      household: household && { ...household, members },
+      invites: invitingHouseholds.map(invitingHousehold => ({
+        householdId: invitingHousehold._id,
+        name: invitingHousehold.name,
+      })),
+    }, { status: 200 });
+  } catch (error) {
+    console.error('[API /households GET]', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ message: 'Internal Server Error', error: errorMessage }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user || !session.user.email) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectToDatabase();
+    const user = await findUserByEmail(session.user.email);
+    if (!user?._id) {
+      return NextResponse.json({ message: 'User not found' }, { status: 404 });
+    }
+
+    if (await findHouseholdByUserId(user._id)) {
+      return NextResponse.json({ message: 'You are already in a household' }, { status: 409 });
+    }
+
+    const { name } = await req.json();
+    const household = await createHousehold(user._id, typeof name === 'string' && name.trim() ? name.trim() : `${user.name}'s household`);
+    await shareGroceryListWithHousehold(user._id, household._id);
+
+    return NextResponse.json(household, { status: 201 });
+  } catch (error) {
+    console.error('[API /households POST]', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ message: 'Internal Server Error', error: errorMessage }, { status: 500 });
+  }
+}
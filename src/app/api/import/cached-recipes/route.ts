@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { connectToDatabase, COLLECTIONS } from '@/lib/db';
+import { invalidateRecipeSearchIndex } from '@/services/recipeSearchService.server';
 import fs from 'fs';
 import path from 'path';
 
@@ -56,6 +57,11 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Neue Rezepte kommen mit dem nächsten Neuaufbau in die Suche
+    if (importedCount > 0) {
+      await invalidateRecipeSearchIndex();
+    }
+
     // Ergebnis zurückgeben
     const result = {
       success: true,
@@ -0,0 +1,31 @@
+/**
+ * Ingredient Prices API Route
+ *
+ * GET /api/ingredient-prices - The price catalogue used for grocery cost estimates
+ *
+ * Admins edit the catalogue via /api/admin/ingredient-prices.
+ */
+
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { findAllIngredientPrices, PRICE_CURRENCY } from '@/models/IngredientPrice';
+import { connectToDatabase } from '@/lib/db';
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user || !session.user.email) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectToDatabase();
+    const prices = await findAllIngredientPrices();
+
+    return NextResponse.json({ prices, currency: PRICE_CURRENCY }, { status: 200 });
+  } catch (error) {
+    console.error('[API /ingredient-prices GET]', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ message: 'Internal Server Error', error: errorMessage }, { status: 500 });
+  }
+}
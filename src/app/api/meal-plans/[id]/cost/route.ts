@@ -0,0 +1,93 @@
+/**
+ * Meal Plan Cost API Route
+ *
+ * GET /api/meal-plans/[id]/cost?startDate=yyyy-MM-dd&endDate=yyyy-MM-dd
+ * Estimates the grocery cost of the planned meals (optionally limited to a
+ * date range) and ranks the recipes by cost.
+ *
+ * Prices come from the price catalogue, using the cheapest of the user's
+ * preferred stores; the result includes the weekly budget and, for
+ * comparison, that budget scaled to the number of days estimated.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { format } from 'date-fns';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { MealPlanService } from '@/models/MealPlan';
+import { UserSettingsService } from '@/services/userSettingsService.server';
+import { estimateMealPlanCost } from '@/services/groceryCostService.server';
+import { getBudgetForDays } from '@/utils/groceryCostEstimator';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id && !session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const params = await context.params;
+    const startDate = request.nextUrl.searchParams.get('startDate') || undefined;
+    const endDate = request.nextUrl.searchParams.get('endDate') || undefined;
+
+    if ((startDate && !DATE_PATTERN.test(startDate)) || (endDate && !DATE_PATTERN.test(endDate))) {
+      return NextResponse.json(
+        { error: 'startDate and endDate must use the format yyyy-MM-dd' },
+        { status: 400 }
+      );
+    }
+
+    // Use email as fallback for userId if id is not available
+    const userId = session.user.id || session.user.email!;
+
+    const mealPlan = await MealPlanService.findById(params.id);
+
+    if (!mealPlan || mealPlan.userId !== userId) {
+      return NextResponse.json(
+        { error: 'Meal plan not found' },
+        { status: 404 }
+      );
+    }
+
+    const settings = await UserSettingsService.getUserSettings(userId);
+    const estimate = await estimateMealPlanCost(
+      mealPlan,
+      { startDate, endDate, householdMembers: settings.mealPlanning?.householdMembers },
+      settings.shopping?.preferredStores || []
+    );
+
+    const days = mealPlan.days.filter(day => {
+      const dayKey = format(new Date(day.date), 'yyyy-MM-dd');
+      return (!startDate || dayKey >= startDate) && (!endDate || dayKey <= endDate);
+    }).length;
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...estimate,
+        days,
+        budgetPerWeek: settings.mealPlanning?.budgetPerWeek ?? null,
+        budget: getBudgetForDays(settings.mealPlanning?.budgetPerWeek, days),
+      }
+    });
+
+  } catch (error) {
+    console.error('GET /api/meal-plans/[id]/cost error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to estimate meal plan cost',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
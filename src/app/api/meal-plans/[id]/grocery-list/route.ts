@@ -0,0 +1,144 @@
+/**
+ * Meal Plan Grocery List API Route
+ *
+ * POST /api/meal-plans/[id]/grocery-list - Generate one consolidated grocery list
+ * from every planned meal of the plan (optionally limited to a date range)
+ *
+ * Body:
+ * - startDate / endDate (yyyy-MM-dd, inclusive, optional)
+ * - replace: replace the active grocery list instead of merging into it
+ * - save: set to false to only preview/download the list without storing it
+ * - usePantry: subtract the user's pantry stock (default true); covered
+ *   amounts are returned (and stored) as `alreadyHave`
+ *
+ * The user's recurring staples that are due in the week of startDate (or now)
+ * are merged into the list; they are never subtracted by the pantry.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { parseISO } from 'date-fns';
+import { authOptions } from '@/lib/auth';
+import { MealPlanService } from '@/models/MealPlan';
+import { findUserByEmail } from '@/models/User';
+import { createOrUpdateGroceryList, replaceGroceryList } from '@/models/GroceryList';
+import { findPantryItemsByUserId } from '@/models/PantryItem';
+import { generateMealPlanGroceryList } from '@/services/mealPlanGroceryService.server';
+import { collectStapleItems, writeWithClaimedStaples } from '@/services/groceryStapleService.server';
+import { UserSettingsService } from '@/services/userSettingsService.server';
+import { mergeGroceryItems } from '@/utils/groceryListHelper';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id && !session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const params = await context.params;
+    const body = await request.json().catch(() => ({}));
+    const { startDate, endDate, replace = false, save = true, usePantry = true } = body;
+
+    if ((startDate && !DATE_PATTERN.test(startDate)) || (endDate && !DATE_PATTERN.test(endDate))) {
+      return NextResponse.json(
+        { error: 'startDate and endDate must use the format yyyy-MM-dd' },
+        { status: 400 }
+      );
+    }
+
+    if (startDate && endDate && startDate > endDate) {
+      return NextResponse.json(
+        { error: 'startDate must not be after endDate' },
+        { status: 400 }
+      );
+    }
+
+    // Use email as fallback for userId if id is not available
+    const userId = session.user.id || session.user.email!;
+
+    const mealPlan = await MealPlanService.findById(params.id);
+
+    if (!mealPlan || mealPlan.userId !== userId) {
+      return NextResponse.json(
+        { error: 'Meal plan not found' },
+        { status: 404 }
+      );
+    }
+
+    // Grocery lists and pantries are keyed by the user's ObjectId, not the session id
+    const user = session.user.email ? await findUserByEmail(session.user.email) : null;
+    const pantry = usePantry && user?._id ? await findPantryItemsByUserId(user._id) : undefined;
+
+    const settings = await UserSettingsService.getUserSettings(userId);
+
+    const generated = await generateMealPlanGroceryList(mealPlan, {
+      startDate,
+      endDate,
+      pantry,
+      householdMembers: settings.mealPlanning?.householdMembers,
+    });
+
+    // Staples are only marked as added when the list is stored; a replaced
+    // list gets this period's staples again
+    const { staples, items: stapleItems, claimed } = user?._id
+      ? await collectStapleItems(user._id, startDate ? parseISO(startDate) : new Date(), settings.mealPlanning?.weekStartsOn ?? 1, {
+          claim: save,
+          includeAddedThisPeriod: replace,
+        })
+      : { staples: [], items: [], claimed: [] };
+
+    const result = {
+      ...generated,
+      items: mergeGroceryItems(generated.items, stapleItems),
+      staples: staples.map(staple => staple.name),
+    };
+
+    if (!save) {
+      return NextResponse.json({ success: true, data: result });
+    }
+
+    if (!user?._id) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    const listUserId = user._id;
+    const groceryList = await writeWithClaimedStaples(claimed, () => replace
+      ? replaceGroceryList(listUserId, result.items, result.alreadyHave)
+      : createOrUpdateGroceryList(listUserId, result.items, result.alreadyHave));
+
+    await MealPlanService.updateById(params.id, { shoppingListGenerated: true });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...result,
+        groceryList
+      },
+      message: `Added ${result.items.length} items from ${result.mealCount} planned meals` +
+        (result.alreadyHave.length > 0 ? ` (${result.alreadyHave.length} already in your pantry)` : '') +
+        (result.staples.length > 0 ? `, plus ${result.staples.length} staples` : '')
+    });
+
+  } catch (error) {
+    console.error('POST /api/meal-plans/[id]/grocery-list error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to generate grocery list',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
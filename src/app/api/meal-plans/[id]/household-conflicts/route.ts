@@ -0,0 +1,65 @@
+/**
+ * Meal Plan Household Conflicts API Route
+ *
+ * GET /api/meal-plans/[id]/household-conflicts
+ * Checks every recipe of the plan against the diet and allergies of each of
+ * the user's household members.
+ *
+ * Response data: { conflicts: { [recipeId]: [{ memberId, memberName, conflicts: ['allergy', 'diet'] }] } }
+ * The client warns about the members among a meal's attendees.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { MealPlanService } from '@/models/MealPlan';
+import { UserSettingsService } from '@/services/userSettingsService.server';
+import { findHouseholdConflicts } from '@/services/householdConflictService.server';
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id && !session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const params = await context.params;
+
+    // Use email as fallback for userId if id is not available
+    const userId = session.user.id || session.user.email!;
+
+    const mealPlan = await MealPlanService.findById(params.id);
+
+    if (!mealPlan || mealPlan.userId !== userId) {
+      return NextResponse.json(
+        { error: 'Meal plan not found' },
+        { status: 404 }
+      );
+    }
+
+    const settings = await UserSettingsService.getUserSettings(userId);
+    const conflicts = await findHouseholdConflicts(mealPlan, settings.mealPlanning?.householdMembers || []);
+
+    return NextResponse.json({
+      success: true,
+      data: { conflicts }
+    });
+
+  } catch (error) {
+    console.error('GET /api/meal-plans/[id]/household-conflicts error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to check household conflicts',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Meal Plan Nutrition API Route
+ *
+ * GET /api/meal-plans/[id]/nutrition?startDate=yyyy-MM-dd&endDate=yyyy-MM-dd
+ * Adds up calories, protein, carbs, fat, fibre, sugar and sodium per meal,
+ * per day and for the plan (optionally limited to a date range), from each
+ * recipe's nutrition scaled by the servings of the meal.
+ *
+ * Days are compared against the user's daily targets; meals whose recipe
+ * has no nutrition data are listed as gaps instead of counting as zero.
+ * Household members eating the meals get their own totals by portion.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { MealPlanService } from '@/models/MealPlan';
+import { UserSettingsService } from '@/services/userSettingsService.server';
+import { calculateMealPlanNutrition } from '@/services/mealPlanNutritionService.server';
+import { normalizeNutritionTargets } from '@/utils/mealPlanNutrition';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id && !session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const params = await context.params;
+    const startDate = request.nextUrl.searchParams.get('startDate') || undefined;
+    const endDate = request.nextUrl.searchParams.get('endDate') || undefined;
+
+    if ((startDate && !DATE_PATTERN.test(startDate)) || (endDate && !DATE_PATTERN.test(endDate))) {
+      return NextResponse.json(
+        { error: 'startDate and endDate must use the format yyyy-MM-dd' },
+        { status: 400 }
+      );
+    }
+
+    // Use email as fallback for userId if id is not available
+    const userId = session.user.id || session.user.email!;
+
+    const mealPlan = await MealPlanService.findById(params.id);
+
+    if (!mealPlan || mealPlan.userId !== userId) {
+      return NextResponse.json(
+        { error: 'Meal plan not found' },
+        { status: 404 }
+      );
+    }
+
+    const settings = await UserSettingsService.getUserSettings(userId);
+    const nutrition = await calculateMealPlanNutrition(
+      mealPlan,
+      { startDate, endDate, householdMembers: settings.mealPlanning?.householdMembers },
+      normalizeNutritionTargets(settings.mealPlanning?.nutritionTargets)
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: nutrition
+    });
+
+  } catch (error) {
+    console.error('GET /api/meal-plans/[id]/nutrition error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to calculate meal plan nutrition',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
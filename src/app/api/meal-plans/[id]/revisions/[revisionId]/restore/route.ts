@@ -0,0 +1,64 @@
+/**
+ * Meal Plan Revision Restore API Route
+ *
+ * POST /api/meal-plans/[id]/revisions/[revisionId]/restore
+ * Puts the days of an earlier version back into the meal plan. The restore
+ * is recorded as a revision too, so it can be reverted the same way.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { isValidObjectId } from '@/lib/db';
+import { restoreMealPlanRevision } from '@/services/mealPlanRevisionService.server';
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; revisionId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id && !session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id, revisionId } = await context.params;
+
+    // Use email as fallback for userId if id is not available
+    const userId = session.user.id || session.user.email!;
+
+    const restoredPlan = isValidObjectId(id) && isValidObjectId(revisionId)
+      ? await restoreMealPlanRevision(userId, id, revisionId)
+      : null;
+
+    if (!restoredPlan) {
+      return NextResponse.json(
+        { error: 'Revision not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...restoredPlan,
+        _id: restoredPlan._id?.toString()
+      },
+      message: 'Meal plan restored successfully'
+    });
+
+  } catch (error) {
+    console.error('POST /api/meal-plans/[id]/revisions/[revisionId]/restore error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to restore meal plan revision',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
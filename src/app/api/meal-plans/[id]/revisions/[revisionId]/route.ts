@@ -0,0 +1,58 @@
+/**
+ * Meal Plan Revision API Route
+ *
+ * GET /api/meal-plans/[id]/revisions/[revisionId]
+ * Gets one stored version of a meal plan, with its days, to preview it
+ * before restoring it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { isValidObjectId } from '@/lib/db';
+import { findMealPlanRevisionById } from '@/models/MealPlanRevision';
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; revisionId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id && !session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id, revisionId } = await context.params;
+
+    // Use email as fallback for userId if id is not available
+    const userId = session.user.id || session.user.email!;
+
+    const revision = isValidObjectId(revisionId) ? await findMealPlanRevisionById(revisionId, id, userId) : null;
+
+    if (!revision) {
+      return NextResponse.json(
+        { error: 'Revision not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { ...revision, _id: revision._id.toString() }
+    });
+
+  } catch (error) {
+    console.error('GET /api/meal-plans/[id]/revisions/[revisionId] error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch meal plan revision',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
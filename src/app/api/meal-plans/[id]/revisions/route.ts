@@ -0,0 +1,62 @@
+/**
+ * Meal Plan Revisions API Route
+ *
+ * GET /api/meal-plans/[id]/revisions
+ * Lists the stored versions of a meal plan, newest first: one per edit of its
+ * days, with the edit that led to it. The days themselves are left out; get a
+ * single revision to preview them.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { isValidObjectId } from '@/lib/db';
+import { MealPlanService } from '@/models/MealPlan';
+import { findMealPlanRevisions } from '@/models/MealPlanRevision';
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id && !session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await context.params;
+
+    // Use email as fallback for userId if id is not available
+    const userId = session.user.id || session.user.email!;
+
+    const mealPlan = isValidObjectId(id) ? await MealPlanService.findById(id) : null;
+
+    if (!mealPlan || mealPlan.userId !== userId) {
+      return NextResponse.json(
+        { error: 'Meal plan not found' },
+        { status: 404 }
+      );
+    }
+
+    const revisions = await findMealPlanRevisions(id, userId);
+
+    return NextResponse.json({
+      success: true,
+      data: revisions.map(revision => ({ ...revision, _id: revision._id.toString() }))
+    });
+
+  } catch (error) {
+    console.error('GET /api/meal-plans/[id]/revisions error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch meal plan revisions',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
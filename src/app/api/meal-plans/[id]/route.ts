@@ -11,6 +11,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { MealPlanService } from '@/models/MealPlan';
+import { deleteMealPlanRevisions } from '@/models/MealPlanRevision';
+import { recordMealPlanRevision } from '@/services/mealPlanRevisionService.server';
+import { calculateMealPlanNutrition } from '@/services/mealPlanNutritionService.server';
+import { UserSettingsService } from '@/services/userSettingsService.server';
 
 // ========================================
 // GET /api/meal-plans/[id]
@@ -130,6 +134,20 @@ export async function PUT(
     if (title !== undefined) updateData.title = title;
     if (tags) updateData.tags = tags;
     if (totalCalories !== undefined) updateData.totalCalories = totalCalories;
+
+    // The calories of changed days are worked out from the recipes, whatever the client sent
+    if (days) {
+      try {
+        const settings = await UserSettingsService.getUserSettings(userId);
+        const nutrition = await calculateMealPlanNutrition(
+          { ...existingMealPlan, days },
+          { householdMembers: settings.mealPlanning?.householdMembers }
+        );
+        updateData.totalCalories = nutrition.totals.calories;
+      } catch (nutritionError) {
+        console.error('⚠️ PUT Could not calculate total calories:', nutritionError);
+      }
+    }
     if (shoppingListGenerated !== undefined) updateData.shoppingListGenerated = shoppingListGenerated;
 
     // Update meal plan
@@ -141,6 +159,11 @@ export async function PUT(
       daysCount: updatedMealPlan?.days?.length
     });
 
+    // Keep this version in the plan's revision history
+    if (days && updatedMealPlan) {
+      await recordMealPlanRevision(existingMealPlan, updatedMealPlan);
+    }
+
     return NextResponse.json({
       success: true,
       data: {
@@ -208,6 +231,8 @@ export async function DELETE(
       );
     }
 
+    await deleteMealPlanRevisions(params.id);
+
     return NextResponse.json({
       success: true,
       message: 'Meal plan deleted successfully',
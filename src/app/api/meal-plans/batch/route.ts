@@ -124,7 +124,8 @@ export async function POST(request: NextRequest) {
         // Return the plans data for client-side export
         const exportPlans = userPlans.map((plan: any) => ({
           title: plan.title || plan.name,
-          weekStartDate: plan.weekStartDate || plan.startDate,
+          startDate: plan.startDate || plan.weekStartDate,
+          endDate: plan.endDate || plan.weekEndDate,
           days: plan.days || plan.weekData,
           isTemplate: plan.isTemplate,
           createdAt: plan.createdAt
@@ -0,0 +1,154 @@
+/**
+ * Meal Plan Generator API Route
+ *
+ * POST /api/meal-plans/generate
+ * Fills a meal plan from the recipe catalogue, respecting the user's dietary
+ * settings, maximum cooking time and skill level, and aiming for variety,
+ * weekday time limits and a daily calorie target.
+ *
+ * Body:
+ * - mealPlanId or startDate (yyyy-MM-dd): the plan to fill
+ * - endDate: the last day (inclusive); without it, the plan covering startDate
+ *   or else the week containing it is filled
+ * - seed: the same seed gives the same plan (a random one is used and returned otherwise)
+ * - mealTypes: which meal types to fill (default breakfast, lunch and dinner)
+ * - lockedSlots: [{ dayIndex, mealType }] slots that keep their meals
+ * - noRepeatDays, weekdayMaxTime, dailyCalories: optional soft goals
+ * - save: store the plan (default true); false returns a preview
+ *
+ * Slots that stay empty are listed with the reasons no recipe fit. Replaced
+ * batch-cooked meals lose their leftovers, also in the user's other plans.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { MealPlanService, type IMealPlan } from '@/models/MealPlan';
+import { UserSettingsService } from '@/services/userSettingsService.server';
+import { addDaysToDate, formatDateRange, getWeekStartDate, parseDateInput } from '@/types/meal-planning';
+import { generateWeek, validateGenerateWeekInput } from '@/services/mealPlanGeneratorService.server';
+import { syncLeftoverRequests } from '@/services/mealLeftoverService.server';
+import { recordMealPlanRevision } from '@/services/mealPlanRevisionService.server';
+import { DEFAULT_GENERATOR_MEAL_TYPES } from '@/utils/mealPlanGenerator';
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id && !session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validationError = validateGenerateWeekInput(body);
+
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    // Use email as fallback for userId if id is not available
+    const userId = session.user.id || session.user.email!;
+
+    let mealPlan: IMealPlan | null;
+    if (body.mealPlanId) {
+      mealPlan = await MealPlanService.findById(body.mealPlanId);
+
+      if (!mealPlan || mealPlan.userId !== userId) {
+        return NextResponse.json(
+          { error: 'Meal plan not found' },
+          { status: 404 }
+        );
+      }
+    } else {
+      const requestedStart = parseDateInput(body.startDate ?? body.weekStartDate)!;
+      mealPlan = body.endDate
+        ? await MealPlanService.findByUserAndRange(userId, requestedStart, parseDateInput(body.endDate)!)
+        : await MealPlanService.findByUserAndDate(userId, requestedStart);
+    }
+
+    let startDate: Date;
+    let endDate: Date;
+    if (mealPlan) {
+      startDate = new Date(mealPlan.startDate);
+      endDate = new Date(mealPlan.endDate);
+    } else if (body.endDate) {
+      startDate = parseDateInput(body.startDate ?? body.weekStartDate)!;
+      endDate = parseDateInput(body.endDate)!;
+    } else {
+      const settings = await UserSettingsService.getUserSettings(userId);
+      startDate = getWeekStartDate(parseDateInput(body.startDate ?? body.weekStartDate)!, settings.mealPlanning?.weekStartsOn);
+      endDate = addDaysToDate(startDate, 6);
+    }
+
+    const generated = await generateWeek({
+      settingsUserId: userId,
+      startDate,
+      endDate,
+      mealPlan,
+      mealTypes: body.mealTypes || DEFAULT_GENERATOR_MEAL_TYPES,
+      lockedSlots: body.lockedSlots,
+      goals: {
+        noRepeatDays: body.noRepeatDays ?? undefined,
+        weekdayMaxTime: body.weekdayMaxTime ?? undefined,
+        dailyCalories: body.dailyCalories ?? undefined,
+      },
+      seed: body.seed ?? Math.floor(Math.random() * 2 ** 31),
+    });
+
+    let savedPlan: Partial<IMealPlan> | null = null;
+    if (body.save !== false) {
+      if (mealPlan?._id) {
+        const updatedPlan = await MealPlanService.updateById(mealPlan._id, { days: generated.days });
+        // Keep the version before and after generating in the plan's revision history
+        if (updatedPlan) {
+          await recordMealPlanRevision(mealPlan, updatedPlan, { type: 'edit', label: 'Generated meals' });
+        }
+        savedPlan = updatedPlan;
+      } else {
+        savedPlan = await MealPlanService.create({
+          userId,
+          startDate,
+          endDate,
+          title: generated.days.length === 7 ? `Week of ${startDate.toLocaleDateString()}` : `Meal Plan ${formatDateRange(startDate, endDate)}`,
+          days: generated.days,
+        });
+      }
+      if (savedPlan?._id) {
+        await syncLeftoverRequests(userId, generated.leftoverRequests, savedPlan._id.toString());
+      }
+    }
+
+    const resultPlan = savedPlan || { ...(mealPlan || { userId, startDate, endDate }), days: generated.days };
+
+    console.log(`🎲 Generated meal plan with seed ${generated.seed} (${generated.emptySlots.length} empty slots)`);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        mealPlan: {
+          ...resultPlan,
+          _id: resultPlan._id?.toString()
+        },
+        emptySlots: generated.emptySlots,
+        seed: generated.seed,
+        saved: savedPlan !== null
+      }
+    });
+
+  } catch (error) {
+    console.error('POST /api/meal-plans/generate error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to generate meal plan',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Meal Plan Leftovers API Route
+ *
+ * POST /api/meal-plans/leftovers
+ * Applies a batch cooking change to the user's meal plans other than the one
+ * being edited (which applies its own change with its next save).
+ *
+ * Body:
+ * - batchId: the batch whose leftovers change
+ * - action: 'place' (replace the leftovers with `portions`), 'remove' or 'detach' (keep them as regular meals)
+ * - source: the batch-cooked meal (place only)
+ * - portions: [{ date yyyy-MM-dd, mealType, servings }] (place only)
+ * - excludeMealPlanId: the plan being edited
+ *
+ * Returns the plans that were changed.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { syncLeftovers, validateLeftoverSyncInput } from '@/services/mealLeftoverService.server';
+import type { LeftoverSyncRequest } from '@/utils/mealLeftovers';
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id && !session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validationError = validateLeftoverSyncInput(body);
+
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    // Use email as fallback for userId if id is not available
+    const userId = session.user.id || session.user.email!;
+
+    const syncRequest: LeftoverSyncRequest = body.action === 'place'
+      ? { batchId: body.batchId, action: 'place', source: body.source, portions: body.portions }
+      : { batchId: body.batchId, action: body.action };
+    const updatedPlans = await syncLeftovers(userId, syncRequest, body.excludeMealPlanId);
+
+    console.log(`🍲 Synced leftovers of batch ${body.batchId} (${body.action}) in ${updatedPlans.length} meal plans`);
+
+    return NextResponse.json({
+      success: true,
+      data: updatedPlans.map(plan => ({
+        ...plan,
+        _id: plan._id?.toString()
+      }))
+    });
+
+  } catch (error) {
+    console.error('POST /api/meal-plans/leftovers error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update leftovers',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
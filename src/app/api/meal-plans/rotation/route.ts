@@ -0,0 +1,244 @@
+/**
+ * Meal Plan Rotation API Routes
+ *
+ * GET /api/meal-plans/rotation - The user's rotation and its next weeks
+ *   ?weeks=n - how many upcoming weeks to list (default 8)
+ * PUT /api/meal-plans/rotation - Start a rotation, replacing the current one
+ *   { templateIds, startDate yyyy-MM-dd, endDate?, skipOptionalMeals? }
+ *   startDate is moved to the start of its week
+ * PATCH /api/meal-plans/rotation - Pause, resume or end the rotation
+ *   { status: 'active' | 'paused' | 'ended' }
+ * DELETE /api/meal-plans/rotation - Remove the rotation (planned weeks are kept)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { isValidObjectId } from '@/lib/db';
+import { MealPlanService } from '@/models/MealPlan';
+import {
+  deleteMealPlanRotation,
+  findMealPlanRotationByUserId,
+  saveMealPlanRotation,
+  updateMealPlanRotationStatus,
+  type MealPlanRotation,
+} from '@/models/MealPlanRotation';
+import { UserSettingsService } from '@/services/userSettingsService.server';
+import { getWeekStartDate, parseDateInput, type WeekStartsOn } from '@/types/meal-planning';
+import {
+  getUpcomingRotationWeeks,
+  ROTATION_STATUSES,
+  validateRotationInput,
+  type RotationStatus,
+} from '@/utils/mealPlanRotation';
+
+const DEFAULT_UPCOMING_WEEKS = 8;
+const MAX_UPCOMING_WEEKS = 52;
+
+/**
+ * Reads the session user id the meal plans are keyed by
+ */
+async function getUserId(): Promise<string | null> {
+  const session = await getServerSession(authOptions);
+  // Use email as fallback for userId if id is not available
+  return session?.user?.id || session?.user?.email || null;
+}
+
+/**
+ * Formats a rotation for a response, with the weeks it plans next
+ */
+function toResponse(rotation: MealPlanRotation, weekStartsOn: WeekStartsOn | undefined, weeks: number) {
+  return {
+    ...rotation,
+    _id: rotation._id.toString(),
+    upcomingWeeks: rotation.status === 'ended' ? [] : getUpcomingRotationWeeks(rotation, new Date(), weeks, weekStartsOn),
+  };
+}
+
+// ========================================
+// GET /api/meal-plans/rotation
+// ========================================
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const weeksParam = parseInt(new URL(request.url).searchParams.get('weeks') || '', 10);
+    const weeks = weeksParam > 0 ? Math.min(weeksParam, MAX_UPCOMING_WEEKS) : DEFAULT_UPCOMING_WEEKS;
+
+    const rotation = await findMealPlanRotationByUserId(userId);
+    const settings = rotation ? await UserSettingsService.getUserSettings(userId) : null;
+
+    return NextResponse.json({
+      success: true,
+      data: rotation ? toResponse(rotation, settings?.mealPlanning?.weekStartsOn, weeks) : null
+    });
+
+  } catch (error) {
+    console.error('GET /api/meal-plans/rotation error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch meal plan rotation',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// ========================================
+// PUT /api/meal-plans/rotation
+// ========================================
+export async function PUT(request: NextRequest) {
+  try {
+    const userId = await getUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validationError = validateRotationInput(body);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    // Templates may repeat (A, B, A, C) but must be the user's own
+    const templates = await Promise.all(
+      [...new Set<string>(body.templateIds)].map(id => isValidObjectId(id) ? MealPlanService.findById(id) : null)
+    );
+    if (templates.some(template => !template || template.userId !== userId || !template.isTemplate)) {
+      return NextResponse.json(
+        { error: 'templateIds must be your template meal plans' },
+        { status: 400 }
+      );
+    }
+
+    const settings = await UserSettingsService.getUserSettings(userId);
+    const weekStartsOn = settings.mealPlanning?.weekStartsOn;
+
+    const rotation = await saveMealPlanRotation(userId, {
+      templateIds: body.templateIds,
+      startDate: getWeekStartDate(parseDateInput(body.startDate)!, weekStartsOn),
+      endDate: body.endDate ? parseDateInput(body.endDate) : null,
+      skipOptionalMeals: body.skipOptionalMeals ?? false,
+    });
+
+    console.log(`🔁 Started rotation of ${body.templateIds.length} templates for user ${userId}`);
+
+    return NextResponse.json({
+      success: true,
+      data: toResponse(rotation, weekStartsOn, DEFAULT_UPCOMING_WEEKS)
+    });
+
+  } catch (error) {
+    console.error('PUT /api/meal-plans/rotation error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to save meal plan rotation',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// ========================================
+// PATCH /api/meal-plans/rotation
+// ========================================
+export async function PATCH(request: NextRequest) {
+  try {
+    const userId = await getUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { status } = await request.json();
+    if (!ROTATION_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `status must be one of ${ROTATION_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const existing = await findMealPlanRotationByUserId(userId);
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'No rotation found' },
+        { status: 404 }
+      );
+    }
+    if (existing.status === 'ended' && status !== 'ended') {
+      return NextResponse.json(
+        { error: 'An ended rotation cannot be resumed; start a new one' },
+        { status: 400 }
+      );
+    }
+
+    const rotation = await updateMealPlanRotationStatus(userId, status as RotationStatus);
+    const settings = await UserSettingsService.getUserSettings(userId);
+
+    return NextResponse.json({
+      success: true,
+      data: rotation ? toResponse(rotation, settings.mealPlanning?.weekStartsOn, DEFAULT_UPCOMING_WEEKS) : null
+    });
+
+  } catch (error) {
+    console.error('PATCH /api/meal-plans/rotation error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update meal plan rotation',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// ========================================
+// DELETE /api/meal-plans/rotation
+// ========================================
+export async function DELETE() {
+  try {
+    const userId = await getUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const deleted = await deleteMealPlanRotation(userId);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'No rotation found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('DELETE /api/meal-plans/rotation error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to delete meal plan rotation',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
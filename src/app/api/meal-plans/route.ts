@@ -3,14 +3,28 @@
  * 
  * Handles CRUD operations for meal plans
  * GET /api/meal-plans - Get user's meal plans
+ *   ?date=yyyy-MM-dd - the plan covering a date (weekStart is accepted as well)
+ *   ?startDate=...&endDate=... - the plans overlapping a range
  * POST /api/meal-plans - Create new meal plan
+ *   { startDate, endDate? } - without an end date, the week containing startDate
+ *   (starting on the user's `weekStartsOn` day) is planned; if the user has a
+ *   rotation, a new week is filled from the rotation's template for it
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { MealPlanService } from '@/models/MealPlan';
-import { getWeekStartDate } from '@/types/meal-planning';
+import { UserSettingsService } from '@/services/userSettingsService.server';
+import { createWeeklyPlanFromRotation } from '@/services/mealPlanRotationService.server';
+import {
+  addDaysToDate,
+  countDaysInRange,
+  formatDateRange,
+  getWeekStartDate,
+  MAX_MEAL_PLAN_DAYS,
+  parseDateInput
+} from '@/types/meal-planning';
 
 // ========================================
 // GET /api/meal-plans
@@ -27,9 +41,22 @@ export async function GET(request: NextRequest) {
     }
 
     const { searchParams } = new URL(request.url);
-    const weekStart = searchParams.get('weekStart') || searchParams.get('weekStartDate');
+    const dateParam = searchParams.get('date') || searchParams.get('weekStart') || searchParams.get('weekStartDate');
+    const startDateParam = searchParams.get('startDate');
+    const endDateParam = searchParams.get('endDate');
     const isTemplate = searchParams.get('template') === 'true';
 
+    const date = dateParam ? parseDateInput(dateParam) : null;
+    const rangeStart = startDateParam ? parseDateInput(startDateParam) : null;
+    const rangeEnd = endDateParam ? parseDateInput(endDateParam) : null;
+
+    if ((dateParam && !date) || (startDateParam && !rangeStart) || (endDateParam && !rangeEnd) || (!rangeStart !== !rangeEnd)) {
+      return NextResponse.json(
+        { error: 'date, or startDate and endDate, must be valid dates' },
+        { status: 400 }
+      );
+    }
+
     // Use email as fallback for userId if id is not available
     const userId = session.user.id || session.user.email!;
 
@@ -38,11 +65,13 @@ export async function GET(request: NextRequest) {
     if (isTemplate) {
       // Get user templates
       mealPlans = await MealPlanService.findUserTemplates(userId);
-    } else if (weekStart) {
-      // Get specific week
-      const weekStartDate = getWeekStartDate(new Date(weekStart));
-      const mealPlan = await MealPlanService.findByUserAndWeek(userId, weekStartDate);
+    } else if (date) {
+      // Get the plan covering a date
+      const mealPlan = await MealPlanService.findByUserAndDate(userId, date);
       mealPlans = mealPlan ? [mealPlan] : [];
+    } else if (rangeStart && rangeEnd) {
+      // Get the plans overlapping a range
+      mealPlans = await MealPlanService.findByUserInRange(userId, rangeStart, rangeEnd);
     } else {
       // Get all user meal plans
       mealPlans = await MealPlanService.findByUserId(userId);
@@ -80,7 +109,7 @@ export async function GET(request: NextRequest) {
 // POST /api/meal-plans
 // ========================================
 export async function POST(request: NextRequest) {
-  let weekStartDate: string | undefined;
+  let requestedStartDate: string | undefined;
   
   try {
     const session = await getServerSession(authOptions);
@@ -101,18 +130,29 @@ export async function POST(request: NextRequest) {
 
     const body = await request.json();
     console.log('📝 Request body received:', {
-      hasWeekStartDate: !!body.weekStartDate,
+      hasStartDate: !!(body.startDate || body.weekStartDate),
+      hasEndDate: !!body.endDate,
       hasTitle: !!body.title,
       hasDays: !!body.days,
       daysLength: body.days?.length
     });
     
-    const { title, isTemplate, copyFromWeek } = body;
-    weekStartDate = body.weekStartDate; // Store for error handling
+    const { title, isTemplate, copyFromWeek, days } = body;
+    requestedStartDate = body.startDate || body.weekStartDate; // Store for error handling
+
+    if (!requestedStartDate) {
+      return NextResponse.json(
+        { error: 'startDate is required' },
+        { status: 400 }
+      );
+    }
 
-    if (!weekStartDate) {
+    const requestedStart = parseDateInput(requestedStartDate);
+    const requestedEnd = body.endDate ? parseDateInput(body.endDate) : null;
+
+    if (!requestedStart || (body.endDate && !requestedEnd)) {
       return NextResponse.json(
-        { error: 'weekStartDate is required' },
+        { error: 'startDate and endDate must be valid dates' },
         { status: 400 }
       );
     }
@@ -121,43 +161,89 @@ export async function POST(request: NextRequest) {
     const userId = session.user.id || session.user.email!;
     console.log('👤 Using userId:', userId);
 
-    // Check if meal plan already exists for this week
-    const weekStart = getWeekStartDate(new Date(weekStartDate));
-    const existingPlan = await MealPlanService.findByUserAndWeek(userId, weekStart);
+    // Without an end date, plan the week containing the start date
+    let startDate = requestedStart;
+    let endDate = requestedEnd;
+    const weekStartsOn = endDate ? undefined : (await UserSettingsService.getUserSettings(userId)).mealPlanning?.weekStartsOn;
+    if (!endDate) {
+      startDate = getWeekStartDate(requestedStart, weekStartsOn);
+      endDate = addDaysToDate(startDate, 6);
+    }
+
+    const dayCount = countDaysInRange(startDate, endDate);
+    if (dayCount < 1 || dayCount > MAX_MEAL_PLAN_DAYS) {
+      return NextResponse.json(
+        { error: `A meal plan must cover between 1 and ${MAX_MEAL_PLAN_DAYS} days` },
+        { status: 400 }
+      );
+    }
+    if (Array.isArray(days) && days.length !== dayCount) {
+      return NextResponse.json(
+        { error: `days must contain ${dayCount} entries, one per day of the plan` },
+        { status: 400 }
+      );
+    }
+
+    // Check if meal plan already exists for this range
+    const existingPlan = await MealPlanService.findByUserAndRange(userId, startDate, endDate);
 
     if (existingPlan) {
       // Return existing meal plan instead of creating a duplicate
-      console.log(`✅ Returning existing meal plan for week ${weekStart.toISOString()}`);
+      console.log(`✅ Returning existing meal plan for ${formatDateRange(startDate, endDate)}`);
       return NextResponse.json({
         success: true,
         data: existingPlan,
-        message: 'Existing meal plan found for this week'
+        message: 'Existing meal plan found for these dates'
       }, { status: 200 });
     }
 
+    // A new week without content of its own comes from the user's rotation
+    if (!requestedEnd && !isTemplate && !Array.isArray(days) && !copyFromWeek) {
+      const rotatedMealPlan = await createWeeklyPlanFromRotation(userId, startDate, weekStartsOn);
+      if (rotatedMealPlan) {
+        return NextResponse.json({
+          success: true,
+          data: {
+            ...rotatedMealPlan,
+            _id: rotatedMealPlan._id?.toString()
+          },
+          message: 'Meal plan created from your rotation'
+        }, { status: 201 });
+      }
+    }
+
     const mealPlanData: any = {
       userId: userId,
-      weekStartDate: weekStart,
-      title: title || `Week of ${weekStart.toLocaleDateString()}`,
+      startDate,
+      endDate,
+      title: title || (dayCount === 7 ? `Week of ${startDate.toLocaleDateString()}` : `Meal Plan ${formatDateRange(startDate, endDate)}`),
       isTemplate: isTemplate || false
     };
 
-    // If copying from another week
-    if (copyFromWeek) {
-      const sourceMealPlan = await MealPlanService.findByUserAndWeek(userId, new Date(copyFromWeek));
+    if (Array.isArray(days)) {
+      mealPlanData.days = days.map((day: any, index: number) => ({
+        ...day,
+        date: addDaysToDate(startDate, index)
+      }));
+    }
+
+    // If copying from another plan, day by day from its first day
+    if (copyFromWeek && !mealPlanData.days) {
+      const copyFromDate = parseDateInput(copyFromWeek);
+      const sourceMealPlan = copyFromDate ? await MealPlanService.findByUserAndDate(userId, copyFromDate) : null;
 
       if (sourceMealPlan) {
-        mealPlanData.days = sourceMealPlan.days.map((day: any) => ({
-          ...day,
-          date: new Date(mealPlanData.weekStartDate.getTime() + 
-            (day.date.getDay() * 24 * 60 * 60 * 1000))
+        mealPlanData.days = Array.from({ length: dayCount }, (_, index) => ({
+          ...sourceMealPlan.days[index % sourceMealPlan.days.length],
+          date: addDaysToDate(startDate, index)
         }));
       }
     }
 
     console.log('💾 Creating meal plan with data:', {
       userId: userId,
-      weekStartDate: mealPlanData.weekStartDate,
+      startDate: mealPlanData.startDate,
+      endDate: mealPlanData.endDate,
       title: mealPlanData.title
     });
 
@@ -178,15 +264,15 @@ export async function POST(request: NextRequest) {
     console.error('❌ POST /api/meal-plans error:', {
       errorMessage: error instanceof Error ? error.message : 'Unknown error',
       errorStack: error instanceof Error ? error.stack : undefined,
-      weekStartDate
+      startDate: requestedStartDate
     });
     
-    // Handle duplicate key error (user already has meal plan for this week)
+    // Handle duplicate key error (user already has meal plan for these dates)
     if (error instanceof Error && (error.message.includes('duplicate key') || error.message.includes('E11000'))) {
       return NextResponse.json(
         { 
-          error: 'Meal plan already exists for this week',
-          details: 'You can only have one meal plan per week. Try updating the existing plan.'
+          error: 'Meal plan already exists for these dates',
+          details: 'You can only have one meal plan per date range. Try updating the existing plan.'
         },
         { status: 409 }
       );
@@ -0,0 +1,222 @@
+/**
+ * Apply Meal Plan Template API Route
+ *
+ * POST /api/meal-plans/templates/[id]/apply
+ * Fills a meal plan from a template, repeating the template's days when the
+ * plan is longer. Slots of the plan holding a cooked meal or leftovers are
+ * kept, like the generator does; uncooked batch-cooked meals that get replaced
+ * lose their leftovers, also in the user's other plans. Each saved apply counts
+ * as a use of the template.
+ *
+ * Body:
+ * - mealPlanId or startDate (yyyy-MM-dd): the plan to fill
+ * - endDate: the last day (inclusive), at most MAX_MEAL_PLAN_DAYS after startDate;
+ *   without it, the plan covering startDate or else the week containing it is filled
+ * - skipOptional: leave out the meals marked optional
+ * - choices: { [getTemplateSlotKey]: option } per meal, where 0 is the meal
+ *   itself, 1 its first alternative and so on, and null skips an optional meal
+ * - save: store the plan (default true); false returns a preview
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { format } from 'date-fns';
+import { authOptions } from '@/lib/auth';
+import { isValidObjectId } from '@/lib/db';
+import { MealPlanService, type DayMeals, type IMealPlan, type MealSlot } from '@/models/MealPlan';
+import { SavedMealPlansService } from '@/services/savedMealPlansService.server';
+import { syncLeftoverRequests } from '@/services/mealLeftoverService.server';
+import { recordMealPlanRevision } from '@/services/mealPlanRevisionService.server';
+import { UserSettingsService } from '@/services/userSettingsService.server';
+import { addDaysToDate, countDaysInRange, getWeekStartDate, MAX_MEAL_PLAN_DAYS, parseDateInput } from '@/types/meal-planning';
+import { applyTemplateToRange } from '@/types/meal-plan-templates';
+import { getDayMealTypeIds, getMealsOfType, setMealsOfType } from '@/utils/mealTypes';
+import { isBatchSource, reconcileBatchSources, type LeftoverSyncRequest } from '@/utils/mealLeftovers';
+
+/**
+ * Checks the per-meal choices of a request body
+ */
+function isValidChoices(choices: unknown): choices is Record<string, number | null> {
+  return Boolean(choices) && typeof choices === 'object' && !Array.isArray(choices) &&
+    Object.values(choices as object).every(choice => choice === null || (Number.isInteger(choice) && choice >= 0));
+}
+
+/**
+ * Takes the uncooked batch sources the template replaces out of the existing
+ * days, together with their leftovers
+ *
+ * @returns The remaining days and what has to happen in the user's other plans
+ */
+function releaseReplacedBatches(existingDays: DayMeals[]): { days: DayMeals[]; requests: LeftoverSyncRequest[] } {
+  const withoutSources = existingDays.map(day => getDayMealTypeIds(day).reduce((updated, mealType) => {
+    const meals = getMealsOfType(day, mealType);
+    return meals.some(meal => meal.cookedAt || meal.isLeftover)
+      ? updated
+      : setMealsOfType(updated, mealType, meals.filter(meal => !isBatchSource(meal)));
+  }, day));
+  return reconcileBatchSources<MealSlot, DayMeals>(existingDays, withoutSources, () => true);
+}
+
+/**
+ * Puts back the slots of the existing days that hold a cooked meal or leftovers
+ */
+function keepLockedSlots(days: DayMeals[], existingDays: DayMeals[]): DayMeals[] {
+  const existingByDate = new Map(existingDays.map(day => [format(new Date(day.date), 'yyyy-MM-dd'), day]));
+  return days.map(day => {
+    const existing = existingByDate.get(format(new Date(day.date), 'yyyy-MM-dd'));
+    if (!existing) return day;
+    return getDayMealTypeIds(existing).reduce((updated, mealType) => {
+      const meals = getMealsOfType(existing, mealType);
+      return meals.some(meal => meal.cookedAt || meal.isLeftover) ? setMealsOfType(updated, mealType, meals) : updated;
+    }, day);
+  });
+}
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id && !session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await context.params;
+
+    // Use email as fallback for userId if id is not available
+    const userId = session.user.id || session.user.email!;
+    const body = await request.json();
+
+    if (!body.mealPlanId && !parseDateInput(body.startDate)) {
+      return NextResponse.json(
+        { error: 'mealPlanId or startDate (yyyy-MM-dd) is required' },
+        { status: 400 }
+      );
+    }
+    if (body.endDate && (!parseDateInput(body.endDate) || parseDateInput(body.endDate)! < parseDateInput(body.startDate)!)) {
+      return NextResponse.json(
+        { error: 'endDate must be a date (yyyy-MM-dd) on or after startDate' },
+        { status: 400 }
+      );
+    }
+    if (body.endDate && parseDateInput(body.startDate) &&
+        countDaysInRange(parseDateInput(body.startDate)!, parseDateInput(body.endDate)!) > MAX_MEAL_PLAN_DAYS) {
+      return NextResponse.json(
+        { error: `A meal plan must cover between 1 and ${MAX_MEAL_PLAN_DAYS} days` },
+        { status: 400 }
+      );
+    }
+    if (body.choices !== undefined && !isValidChoices(body.choices)) {
+      return NextResponse.json(
+        { error: 'choices must map meals to an option number, or null to skip an optional meal' },
+        { status: 400 }
+      );
+    }
+
+    const template = isValidObjectId(id) ? await SavedMealPlansService.getTemplate(id, userId) : null;
+    if (!template) {
+      return NextResponse.json(
+        { error: 'Template not found' },
+        { status: 404 }
+      );
+    }
+
+    let mealPlan: IMealPlan | null;
+    if (body.mealPlanId) {
+      mealPlan = isValidObjectId(body.mealPlanId) ? await MealPlanService.findById(body.mealPlanId) : null;
+
+      if (!mealPlan || mealPlan.userId !== userId) {
+        return NextResponse.json(
+          { error: 'Meal plan not found' },
+          { status: 404 }
+        );
+      }
+    } else {
+      const requestedStart = parseDateInput(body.startDate)!;
+      mealPlan = body.endDate
+        ? await MealPlanService.findByUserAndRange(userId, requestedStart, parseDateInput(body.endDate)!)
+        : await MealPlanService.findByUserAndDate(userId, requestedStart);
+    }
+
+    let startDate: Date;
+    let endDate: Date;
+    if (mealPlan) {
+      startDate = new Date(mealPlan.startDate);
+      endDate = new Date(mealPlan.endDate);
+    } else if (body.endDate) {
+      startDate = parseDateInput(body.startDate)!;
+      endDate = parseDateInput(body.endDate)!;
+    } else {
+      const settings = await UserSettingsService.getUserSettings(userId);
+      startDate = getWeekStartDate(parseDateInput(body.startDate)!, settings.mealPlanning?.weekStartsOn);
+      endDate = addDaysToDate(startDate, 6);
+    }
+
+    const applied = applyTemplateToRange(template, userId, startDate, endDate, {
+      skipOptional: body.skipOptional === true,
+      choices: body.choices,
+    });
+    const released = releaseReplacedBatches(mealPlan?.days || []);
+    // Template meals carry no cooking state, so they fit the stored slots
+    const days = keepLockedSlots(applied.days as DayMeals[], released.days);
+
+    let savedPlan: Partial<IMealPlan> | null = null;
+    if (body.save !== false) {
+      if (mealPlan?._id) {
+        const updatedPlan = await MealPlanService.updateById(mealPlan._id, { days });
+        // Keep the version before and after applying in the plan's revision history
+        if (updatedPlan) {
+          await recordMealPlanRevision(mealPlan, updatedPlan, { type: 'edit', label: `Applied the template "${template.name}"` });
+        }
+        savedPlan = updatedPlan;
+      } else {
+        savedPlan = await MealPlanService.create({
+          userId,
+          startDate,
+          endDate,
+          title: applied.title,
+          days,
+          tags: applied.tags,
+        });
+      }
+      if (savedPlan?._id) {
+        await syncLeftoverRequests(userId, released.requests, savedPlan._id.toString());
+      }
+    }
+
+    // A preview is not a use
+    if (savedPlan) {
+      await SavedMealPlansService.incrementTemplateUsage(id);
+    }
+
+    const resultPlan = savedPlan || { ...(mealPlan || { userId, startDate, endDate, title: applied.title }), days };
+
+    console.log(`📚 Applied template "${template.name}" to ${startDate.toLocaleDateString()} for user ${userId}`);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        mealPlan: {
+          ...resultPlan,
+          _id: resultPlan._id?.toString()
+        },
+        saved: savedPlan !== null
+      }
+    });
+
+  } catch (error) {
+    console.error('POST /api/meal-plans/templates/[id]/apply error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to apply meal plan template',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Meal Plan Template Rating API Route
+ *
+ * POST /api/meal-plans/templates/[id]/rate
+ * Rates a public or official template from 1 to 5 stars. Rating again
+ * replaces the user's earlier rating; users cannot rate their own templates.
+ *
+ * Body: { rating }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { isValidObjectId } from '@/lib/db';
+import { SavedMealPlansService } from '@/services/savedMealPlansService.server';
+import { MAX_TEMPLATE_RATING } from '@/types/meal-plan-templates';
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id && !session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await context.params;
+
+    // Use email as fallback for userId if id is not available
+    const userId = session.user.id || session.user.email!;
+    const { rating } = await request.json();
+
+    if (!Number.isInteger(rating) || rating < 1 || rating > MAX_TEMPLATE_RATING) {
+      return NextResponse.json(
+        { error: `rating must be a whole number from 1 to ${MAX_TEMPLATE_RATING}` },
+        { status: 400 }
+      );
+    }
+
+    const template = isValidObjectId(id) ? await SavedMealPlansService.getTemplate(id, userId) : null;
+    if (!template) {
+      return NextResponse.json(
+        { error: 'Template not found' },
+        { status: 404 }
+      );
+    }
+    if (template.userId === userId) {
+      return NextResponse.json(
+        { error: 'You cannot rate your own template' },
+        { status: 400 }
+      );
+    }
+
+    const ratedTemplate = await SavedMealPlansService.rateTemplate(id, userId, rating);
+
+    return NextResponse.json({
+      success: true,
+      data: ratedTemplate
+    });
+
+  } catch (error) {
+    console.error('POST /api/meal-plans/templates/[id]/rate error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to rate meal plan template',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
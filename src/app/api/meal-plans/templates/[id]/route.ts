@@ -0,0 +1,200 @@
+/**
+ * Individual Meal Plan Template API Routes
+ *
+ * GET /api/meal-plans/templates/[id] - Get a template the user owns, or a
+ *   public or official one
+ * PATCH /api/meal-plans/templates/[id] - Update one of the user's templates
+ *   Any of name, description, category, tags, difficulty, prepTime, servings,
+ *   estimatedCalories, dietaryTags, isPublic, isOfficial (admins only) and
+ *   templateDays (with isOptional meals and alternatives)
+ * DELETE /api/meal-plans/templates/[id] - Delete one of the user's templates
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { isValidObjectId } from '@/lib/db';
+import { SavedMealPlansService } from '@/services/savedMealPlansService.server';
+import { parseTemplateDays, validateTemplateInput, type TemplateInput } from '@/types/meal-plan-templates';
+
+const UPDATABLE_FIELDS: (keyof TemplateInput)[] = [
+  'name',
+  'description',
+  'category',
+  'tags',
+  'difficulty',
+  'prepTime',
+  'servings',
+  'estimatedCalories',
+  'dietaryTags',
+  'isPublic',
+  'isOfficial',
+  'templateDays',
+];
+
+// ========================================
+// GET /api/meal-plans/templates/[id]
+// ========================================
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id && !session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await context.params;
+
+    // Use email as fallback for userId if id is not available
+    const userId = session.user.id || session.user.email!;
+
+    const template = isValidObjectId(id) ? await SavedMealPlansService.getTemplate(id, userId) : null;
+    if (!template) {
+      return NextResponse.json(
+        { error: 'Template not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: template
+    });
+
+  } catch (error) {
+    console.error('GET /api/meal-plans/templates/[id] error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch meal plan template',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// ========================================
+// PATCH /api/meal-plans/templates/[id]
+// ========================================
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id && !session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await context.params;
+
+    // Use email as fallback for userId if id is not available
+    const userId = session.user.id || session.user.email!;
+    const body = await request.json();
+
+    const validationError = validateTemplateInput(body, true);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+    if (body.isOfficial !== undefined && session.user.role !== 'admin') {
+      return NextResponse.json(
+        { error: 'Only admins can publish official templates' },
+        { status: 403 }
+      );
+    }
+
+    const updates = Object.fromEntries(
+      UPDATABLE_FIELDS.filter(field => body[field] !== undefined).map(field => [field, body[field]])
+    );
+    if (updates.name) {
+      updates.name = updates.name.trim();
+    }
+    if (updates.templateDays) {
+      updates.templateDays = parseTemplateDays(updates.templateDays);
+    }
+
+    // Only the owner may change a template
+    const template = isValidObjectId(id) ? await SavedMealPlansService.updateTemplate(id, userId, updates) : null;
+    if (!template) {
+      return NextResponse.json(
+        { error: 'Template not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: template
+    });
+
+  } catch (error) {
+    console.error('PATCH /api/meal-plans/templates/[id] error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update meal plan template',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// ========================================
+// DELETE /api/meal-plans/templates/[id]
+// ========================================
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id && !session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await context.params;
+
+    // Use email as fallback for userId if id is not available
+    const userId = session.user.id || session.user.email!;
+
+    const deleted = isValidObjectId(id) && await SavedMealPlansService.deleteTemplate(id, userId);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Template not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Template deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('DELETE /api/meal-plans/templates/[id] error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to delete meal plan template',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
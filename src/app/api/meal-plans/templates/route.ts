@@ -0,0 +1,251 @@
+/**
+ * Meal Plan Templates API Routes
+ *
+ * GET /api/meal-plans/templates - Browse the template library
+ *   ?scope=all|mine|public|official - whose templates (default all: the
+ *   user's own, public and official ones)
+ *   ?category, ?difficulty=easy,medium, ?maxPrepTime, ?dietaryTags=a,b
+ *   (all must match), ?tags=a,b (any may match), ?search
+ *   ?sortBy=popular|rating|newest|name, ?limit, ?offset
+ * POST /api/meal-plans/templates - Add a template to the library
+ *   { planId, name, optionalMeals?, ... } - from one of the user's meal plans;
+ *   optionalMeals lists the meals (by getTemplateSlotKey) that may be skipped
+ *   { templateDays, name, ... } - from template days
+ *   Other fields: description, category, tags, difficulty, prepTime, servings,
+ *   estimatedCalories, dietaryTags, isPublic, isOfficial (admins only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { isValidObjectId } from '@/lib/db';
+import { MealPlanService } from '@/models/MealPlan';
+import {
+  SavedMealPlansService,
+  type TemplateScope,
+  type TemplateSortOption,
+} from '@/services/savedMealPlansService.server';
+import {
+  createTemplateFromMealPlan,
+  getTemplateSlotKey,
+  parseTemplateDays,
+  TEMPLATE_CATEGORIES,
+  validateTemplateInput,
+  type TemplateCategoryType,
+  type TemplateDayMeals,
+  type TemplateFilter,
+} from '@/types/meal-plan-templates';
+
+const TEMPLATE_SCOPES: TemplateScope[] = ['all', 'mine', 'public', 'official'];
+const TEMPLATE_SORT_OPTIONS: TemplateSortOption[] = ['popular', 'rating', 'newest', 'name'];
+const DEFAULT_TEMPLATE_LIMIT = 24;
+const MAX_TEMPLATE_LIMIT = 100;
+
+/**
+ * Reads a comma-separated list from the query
+ */
+function getListParam(searchParams: URLSearchParams, name: string): string[] | undefined {
+  const values = searchParams.get(name)?.split(',').map(value => value.trim()).filter(Boolean);
+  return values && values.length > 0 ? values : undefined;
+}
+
+/**
+ * Marks the listed meals of template days as optional
+ */
+function markOptionalMeals(templateDays: TemplateDayMeals[], optionalMeals: string[]): TemplateDayMeals[] {
+  const keys = new Set(optionalMeals);
+
+  return templateDays.map((day, dayIndex) => {
+    const mark = (mealType: string, meals: TemplateDayMeals['breakfast']) => meals.map((meal, slotIndex) =>
+      keys.has(getTemplateSlotKey(dayIndex, mealType, slotIndex)) ? { ...meal, isOptional: true } : meal
+    );
+    return {
+      ...day,
+      breakfast: mark('breakfast', day.breakfast),
+      lunch: mark('lunch', day.lunch),
+      dinner: mark('dinner', day.dinner),
+      snacks: mark('snacks', day.snacks),
+      customMeals: Object.fromEntries(
+        Object.entries(day.customMeals || {}).map(([mealType, meals]) => [mealType, mark(mealType, meals)])
+      ),
+    };
+  });
+}
+
+// ========================================
+// GET /api/meal-plans/templates
+// ========================================
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id && !session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Use email as fallback for userId if id is not available
+    const userId = session.user.id || session.user.email!;
+    const { searchParams } = new URL(request.url);
+
+    const scope = (searchParams.get('scope') || 'all') as TemplateScope;
+    const sortBy = (searchParams.get('sortBy') || 'popular') as TemplateSortOption;
+    const category = searchParams.get('category') || undefined;
+    const maxPrepTime = searchParams.get('maxPrepTime');
+
+    if (!TEMPLATE_SCOPES.includes(scope) || !TEMPLATE_SORT_OPTIONS.includes(sortBy)) {
+      return NextResponse.json(
+        { error: `scope must be one of ${TEMPLATE_SCOPES.join(', ')} and sortBy one of ${TEMPLATE_SORT_OPTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (category && !TEMPLATE_CATEGORIES.includes(category as TemplateCategoryType)) {
+      return NextResponse.json(
+        { error: `category must be one of ${TEMPLATE_CATEGORIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (maxPrepTime && !(Number(maxPrepTime) >= 0)) {
+      return NextResponse.json(
+        { error: 'maxPrepTime must be a number of minutes' },
+        { status: 400 }
+      );
+    }
+
+    const filter: TemplateFilter = {
+      category: category as TemplateCategoryType | undefined,
+      difficulty: getListParam(searchParams, 'difficulty'),
+      maxPrepTime: maxPrepTime ? Number(maxPrepTime) : undefined,
+      dietaryTags: getListParam(searchParams, 'dietaryTags'),
+      tags: getListParam(searchParams, 'tags'),
+      search: searchParams.get('search')?.trim() || undefined,
+    };
+
+    const limitParam = parseInt(searchParams.get('limit') || '', 10);
+    const offsetParam = parseInt(searchParams.get('offset') || '', 10);
+
+    const templates = await SavedMealPlansService.getTemplates(userId, filter, {
+      scope,
+      sortBy,
+      limit: limitParam > 0 ? Math.min(limitParam, MAX_TEMPLATE_LIMIT) : DEFAULT_TEMPLATE_LIMIT,
+      offset: offsetParam > 0 ? offsetParam : 0,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: templates
+    });
+
+  } catch (error) {
+    console.error('GET /api/meal-plans/templates error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch meal plan templates',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// ========================================
+// POST /api/meal-plans/templates
+// ========================================
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id && !session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Use email as fallback for userId if id is not available
+    const userId = session.user.id || session.user.email!;
+    const body = await request.json();
+
+    const validationError = validateTemplateInput(body);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+    if (!body.planId && !body.templateDays) {
+      return NextResponse.json(
+        { error: 'planId or templateDays is required' },
+        { status: 400 }
+      );
+    }
+    if (body.optionalMeals !== undefined && (!Array.isArray(body.optionalMeals) || !body.optionalMeals.every((key: unknown) => typeof key === 'string'))) {
+      return NextResponse.json(
+        { error: 'optionalMeals must be a list of meal keys' },
+        { status: 400 }
+      );
+    }
+    if (body.isOfficial && session.user.role !== 'admin') {
+      return NextResponse.json(
+        { error: 'Only admins can publish official templates' },
+        { status: 403 }
+      );
+    }
+
+    let templateDays = body.templateDays ? parseTemplateDays(body.templateDays)! : null;
+    let tags: string[] = body.tags || [];
+    let prepTime: number | undefined = body.prepTime;
+
+    if (!templateDays) {
+      const mealPlan = isValidObjectId(body.planId) ? await MealPlanService.findById(body.planId) : null;
+
+      if (!mealPlan || mealPlan.userId !== userId) {
+        return NextResponse.json(
+          { error: 'Meal plan not found' },
+          { status: 404 }
+        );
+      }
+
+      const fromPlan = createTemplateFromMealPlan({ ...mealPlan, _id: mealPlan._id?.toString() }, body.name);
+      templateDays = fromPlan.templateDays;
+      tags = body.tags || fromPlan.tags;
+      prepTime = prepTime ?? fromPlan.prepTime;
+    }
+
+    const template = await SavedMealPlansService.createTemplate({
+      userId,
+      name: body.name,
+      description: body.description,
+      category: body.category || 'custom',
+      tags,
+      difficulty: body.difficulty || 'medium',
+      prepTime: prepTime || 0,
+      servings: body.servings || 4,
+      estimatedCalories: body.estimatedCalories,
+      dietaryTags: body.dietaryTags || [],
+      templateDays: markOptionalMeals(templateDays, body.optionalMeals || []),
+      isPublic: body.isPublic || false,
+      isOfficial: body.isOfficial || false,
+    });
+
+    console.log(`📚 Added template "${template.name}" to the library for user ${userId}`);
+
+    return NextResponse.json({
+      success: true,
+      data: template,
+      message: 'Template added to your library'
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('POST /api/meal-plans/templates error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to create meal plan template',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { ObjectId } from 'mongodb';
+import { authOptions } from '@/lib/auth';
+import { findUserByEmail } from '@/models/User';
+import { updatePantryItem, deletePantryItem } from '@/models/PantryItem';
+import { connectToDatabase } from '@/lib/db';
+
+// PATCH request to edit name, quantity (null = unknown amount), unit or bestBefore (null = none)
+export async function PATCH(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const { id } = await context.params;
+
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user || !session.user.email) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ message: 'Invalid pantry item ID' }, { status: 400 });
+    }
+
+    await connectToDatabase();
+    const user = await findUserByEmail(session.user.email);
+    if (!user?._id) {
+      return NextResponse.json({ message: 'User not found' }, { status: 404 });
+    }
+
+    const { name, quantity, unit, bestBefore } = await req.json();
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+      return NextResponse.json({ message: 'name must not be empty' }, { status: 400 });
+    }
+    if (quantity !== undefined && quantity !== null && (typeof quantity !== 'number' || quantity < 0)) {
+      return NextResponse.json({ message: 'quantity must be a number that is not negative, or null' }, { status: 400 });
+    }
+    if (bestBefore && isNaN(new Date(bestBefore).getTime())) {
+      return NextResponse.json({ message: 'bestBefore must be a valid date' }, { status: 400 });
+    }
+
+    const item = await updatePantryItem(user._id, id, {
+      name,
+      quantity,
+      unit: typeof unit === 'string' ? unit : undefined,
+      bestBefore: bestBefore === undefined ? undefined : bestBefore || null,
+    });
+
+    if (!item) {
+      return NextResponse.json({ message: 'Pantry item not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(item, { status: 200 });
+  } catch (error) {
+    console.error(`[API /pantry/${id} PATCH]`, error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ message: 'Internal Server Error', error: errorMessage }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const { id } = await context.params;
+
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user || !session.user.email) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ message: 'Invalid pantry item ID' }, { status: 400 });
+    }
+
+    await connectToDatabase();
+    const user = await findUserByEmail(session.user.email);
+    if (!user?._id) {
+      return NextResponse.json({ message: 'User not found' }, { status: 404 });
+    }
+
+    const wasDeleted = await deletePantryItem(user._id, id);
+
+    if (!wasDeleted) {
+      return NextResponse.json({ message: 'Pantry item not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: 'Pantry item deleted successfully' }, { status: 200 });
+  } catch (error) {
+    console.error(`[API /pantry/${id} DELETE]`, error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ message: 'Internal Server Error', error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Pantry Deduct API Route
+ *
+ * POST /api/pantry/deduct - Take the ingredients of cooked meals out of the pantry
+ *
+ * Body: { meals: [{ recipeId, servings? }] } or a single { recipeId, servings? }
+ * Ingredients are scaled to the servings like the meal plan grocery list.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { findUserByEmail } from '@/models/User';
+import { deductPantryItems } from '@/models/PantryItem';
+import { connectToDatabase } from '@/lib/db';
+import { collectMealIngredients } from '@/services/mealPlanGroceryService.server';
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user || !session.user.email) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectToDatabase();
+    const user = await findUserByEmail(session.user.email);
+    if (!user?._id) {
+      return NextResponse.json({ message: 'User not found' }, { status: 404 });
+    }
+
+    const body = await req.json();
+    const meals: Array<{ recipeId?: unknown; servings?: unknown }> = Array.isArray(body.meals) ? body.meals : [body];
+
+    const isValid = meals.length > 0 && meals.every(meal =>
+      typeof meal?.recipeId === 'string' && meal.recipeId &&
+      (meal.servings === undefined || (typeof meal.servings === 'number' && meal.servings > 0))
+    );
+    if (!isValid) {
+      return NextResponse.json(
+        { message: 'Every meal needs a recipeId; servings must be a positive number' },
+        { status: 400 }
+      );
+    }
+
+    const { items } = await collectMealIngredients(meals as Array<{ recipeId: string; servings?: number }>);
+    const { updated, removed } = await deductPantryItems(user._id, items);
+
+    return NextResponse.json({
+      updated,
+      removed,
+      message: `Updated ${updated.length} pantry items, ${removed.length} used up`,
+    }, { status: 200 });
+  } catch (error) {
+    console.error('[API /pantry/deduct POST]', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ message: 'Internal Server Error', error: errorMessage }, { status: 500 });
+  }
+}
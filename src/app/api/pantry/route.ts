@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { findUserByEmail } from '@/models/User';
+import { findPantryItemsByUserId, addPantryItems, type PantryItemInput } from '@/models/PantryItem';
+import { connectToDatabase } from '@/lib/db';
+
+/**
+ * Validates a single pantry item from a request body
+ * @returns The cleaned input or null if the item is invalid
+ */
+function toPantryItemInput(raw: any): PantryItemInput | null {
+  if (!raw || typeof raw.name !== 'string' || !raw.name.trim()) return null;
+
+  const quantity = raw.quantity === undefined || raw.quantity === null || raw.quantity === ''
+    ? undefined
+    : Number(raw.quantity);
+  if (quantity !== undefined && (isNaN(quantity) || quantity < 0)) return null;
+
+  const bestBefore = raw.bestBefore ? new Date(raw.bestBefore) : undefined;
+  if (bestBefore && isNaN(bestBefore.getTime())) return null;
+
+  return {
+    name: raw.name,
+    quantity,
+    unit: typeof raw.unit === 'string' ? raw.unit : '',
+    bestBefore,
+    source: 'manual',
+  };
+}
+
+// GET request to fetch the user's pantry
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user || !session.user.email) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectToDatabase();
+    const user = await findUserByEmail(session.user.email);
+    if (!user?._id) {
+      return NextResponse.json({ message: 'User not found' }, { status: 404 });
+    }
+
+    const items = await findPantryItemsByUserId(user._id);
+
+    return NextResponse.json({ items }, { status: 200 });
+  } catch (error) {
+    console.error('[API /pantry GET]', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ message: 'Internal Server Error', error: errorMessage }, { status: 500 });
+  }
+}
+
+// POST request to add one item ({ name, quantity, unit, bestBefore }) or several ({ items: [...] })
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user || !session.user.email) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectToDatabase();
+    const user = await findUserByEmail(session.user.email);
+    if (!user?._id) {
+      return NextResponse.json({ message: 'User not found' }, { status: 404 });
+    }
+
+    const body = await req.json();
+    const rawItems = Array.isArray(body.items) ? body.items : [body];
+    const items = rawItems.map(toPantryItemInput);
+
+    if (items.length === 0 || items.some((item: PantryItemInput | null) => item === null)) {
+      return NextResponse.json(
+        { message: 'Every item needs a name; quantity must not be negative and bestBefore must be a valid date' },
+        { status: 400 }
+      );
+    }
+
+    const pantry = await addPantryItems(user._id, items as PantryItemInput[]);
+
+    return NextResponse.json({ items: pantry }, { status: 201 });
+  } catch (error) {
+    console.error('[API /pantry POST]', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ message: 'Internal Server Error', error: errorMessage }, { status: 500 });
+  }
+}
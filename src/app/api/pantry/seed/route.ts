@@ -0,0 +1,72 @@
+/**
+ * Pantry Seed API Route
+ *
+ * POST /api/pantry/seed - Fill the pantry from other data the user already has
+ *
+ * Body:
+ * - { source: 'preferences' } - adds `UserSettings.dietary.preferredIngredients`
+ * - { source: 'fridge-analysis', ingredients: [...] } - adds the ingredients
+ *   detected by /api/ai/analyze-fridge (names or { name, quantity } objects)
+ *
+ * Seeded items have an unknown amount unless the analysis provided one.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { findUserByEmail } from '@/models/User';
+import { addPantryItems, type PantryItemInput } from '@/models/PantryItem';
+import { UserSettingsService } from '@/services/userSettingsService.server';
+import { connectToDatabase } from '@/lib/db';
+import { parsePantryAmount } from '@/utils/pantryHelper';
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user || !session.user.email) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectToDatabase();
+    const user = await findUserByEmail(session.user.email);
+    if (!user?._id) {
+      return NextResponse.json({ message: 'User not found' }, { status: 404 });
+    }
+
+    const { source, ingredients } = await req.json();
+    let items: PantryItemInput[];
+
+    if (source === 'preferences') {
+      // Settings are keyed by the session id like the rest of the preferences API
+      const settings = await UserSettingsService.getUserSettings(session.user.id || session.user.email);
+      items = (settings.dietary?.preferredIngredients || [])
+        .filter(name => typeof name === 'string' && name.trim())
+        .map(name => ({ name, source: 'preferences' }));
+    } else if (source === 'fridge-analysis') {
+      if (!Array.isArray(ingredients)) {
+        return NextResponse.json({ message: 'Missing required field: ingredients' }, { status: 400 });
+      }
+      items = ingredients
+        .map((ingredient: string | { name?: string; quantity?: string }) => {
+          if (typeof ingredient === 'string') return { name: ingredient, source: 'fridge-analysis' as const };
+          const { quantity, unit } = parsePantryAmount(ingredient?.quantity);
+          return { name: ingredient?.name || '', quantity, unit, source: 'fridge-analysis' as const };
+        })
+        .filter((item: PantryItemInput) => item.name.trim());
+    } else {
+      return NextResponse.json({ message: "source must be 'preferences' or 'fridge-analysis'" }, { status: 400 });
+    }
+
+    if (items.length === 0) {
+      return NextResponse.json({ items: [], added: 0, message: 'Nothing to add' }, { status: 200 });
+    }
+
+    const pantry = await addPantryItems(user._id, items);
+
+    return NextResponse.json({ items: pantry, added: items.length }, { status: 201 });
+  } catch (error) {
+    console.error('[API /pantry/seed POST]', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ message: 'Internal Server Error', error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Recipes by Ingredients API ("What can I cook?")
+ *
+ * GET /api/recipes/by-ingredients?ingredients=chicken,rice
+ * Ranks the recipes of all collections by how few ingredients are missing.
+ * Each recipe comes with its usedIngredients and missedIngredients, so the
+ * missing ones can go straight onto the grocery list.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { searchRecipesByIngredients } from '@/services/recipeSearchService.server';
+import { DIFFICULTY_TIME_BUCKETS } from '@/utils/recipeSearch';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const ingredients = (searchParams.get('ingredients') || '')
+      .split(',')
+      .map(ingredient => ingredient.trim())
+      .filter(Boolean);
+
+    if (ingredients.length === 0) {
+      return NextResponse.json({ error: 'At least one ingredient is required' }, { status: 400 });
+    }
+
+    const maxReadyTime = searchParams.get('maxReadyTime');
+    const difficulty = searchParams.get('difficulty');
+    const { recipes, total } = await searchRecipesByIngredients({
+      ingredients,
+      type: searchParams.get('type') || undefined,
+      diet: searchParams.get('diet') || undefined,
+      intolerances: searchParams.get('intolerances') || undefined,
+      maxReadyTime: maxReadyTime ? parseInt(maxReadyTime, 10) : undefined,
+      timeBucket: difficulty ? DIFFICULTY_TIME_BUCKETS[difficulty] : undefined,
+      limit: parseInt(searchParams.get('limit') || '30', 10),
+    });
+
+    return NextResponse.json({ recipes, total, source: 'ingredient-match' });
+  } catch (error) {
+    console.error('❌ API /api/recipes/by-ingredients error:', error);
+    return NextResponse.json(
+      { error: 'Failed to find recipes by ingredients', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
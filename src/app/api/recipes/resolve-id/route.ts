@@ -1,62 +1,42 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { connectToDatabase, COLLECTIONS } from '@/lib/db';
+import { resolveRecipes, SPOONACULAR_ID_PREFIX } from '@/lib/recipeResolver';
+
+type ResolvedIdSource = 'mongo' | 'spoonacular' | 'preloaded' | 'unknown';
+
+// IDs without a stored recipe keep their shape: Spoonacular numbers get the prefix
+function toUnresolvedId(id: string): { mongoId: string; source: ResolvedIdSource } {
+  if (/^[0-9]+$/.test(id)) {
+    return { mongoId: `${SPOONACULAR_ID_PREFIX}${id}`, source: 'spoonacular' };
+  }
+  if (id.startsWith(SPOONACULAR_ID_PREFIX)) {
+    return { mongoId: id, source: 'spoonacular' };
+  }
+  if (id.startsWith('preloaded-')) {
+    return { mongoId: id, source: 'preloaded' };
+  }
+  return { mongoId: id, source: 'unknown' };
+}
 
 // POST { id: string } -> { mongoId: string, source: 'mongo'|'spoonacular'|'preloaded'|'unknown' }
+// POST { ids: string[] } -> { results: { [id]: { mongoId, source } } }
 export async function POST(request: NextRequest) {
   try {
-    const { id } = await request.json();
-    if (!id) {
+    const { id, ids } = await request.json();
+    const requestedIds: string[] = Array.isArray(ids) ? ids.map(String) : id ? [String(id)] : [];
+    if (requestedIds.length === 0) {
       return NextResponse.json({ error: 'id is required' }, { status: 400 });
     }
 
-    const db = await connectToDatabase();
-    const recipes = db.collection(COLLECTIONS.RECIPES);
-
-    // If already an ObjectId-like string, try direct lookup
-    try {
-      const { ObjectId } = await import('mongodb');
-      if (ObjectId.isValid(id)) {
-        const found = await recipes.findOne({ _id: new ObjectId(id) });
-        if (found) {
-          return NextResponse.json({ mongoId: String(found._id), source: 'mongo' });
-        }
-      }
-    } catch {}
-
-    // If spoonacular ID, try to find by spoonacularId stored in Mongo recipe model
-    const numeric = /^[0-9]+$/.test(id) ? parseInt(id, 10) : null;
-    if (numeric != null) {
-      const foundBySpoon = await recipes.findOne({ spoonacularId: numeric });
-      if (foundBySpoon) {
-        return NextResponse.json({ mongoId: String(foundBySpoon._id), source: 'mongo' });
-      }
-      // Otherwise indicate that it is a spoonacular ID
-      return NextResponse.json({ mongoId: `spoonacular-${id}`, source: 'spoonacular' });
-    }
-
-    if (typeof id === 'string' && id.startsWith('spoonacular-')) {
-      const base = id.replace('spoonacular-', '');
-      const n = /^[0-9]+$/.test(base) ? parseInt(base, 10) : null;
-      if (n != null) {
-        const foundBySpoon = await recipes.findOne({ spoonacularId: n });
-        if (foundBySpoon) {
-          return NextResponse.json({ mongoId: String(foundBySpoon._id), source: 'mongo' });
-        }
-      }
-      return NextResponse.json({ mongoId: id, source: 'spoonacular' });
-    }
+    const resolvedRecipes = await resolveRecipes(requestedIds);
+    const results = Object.fromEntries(requestedIds.map(requestedId => {
+      const resolved = resolvedRecipes.get(requestedId.trim());
+      if (!resolved) return [requestedId, toUnresolvedId(requestedId.trim())];
 
-    if (typeof id === 'string' && id.startsWith('preloaded-')) {
-      return NextResponse.json({ mongoId: id, source: 'preloaded' });
-    }
-
-    // Last try: maybe the recipe was stored with a string id field
-    const foundByStringId = await recipes.findOne({ id });
-    if (foundByStringId) {
-      return NextResponse.json({ mongoId: String(foundByStringId._id), source: 'mongo' });
-    }
+      // Admin and user recipes answer to their Mongo ID, cached Spoonacular ones to 'spoonacular-123'
+      return [requestedId, { mongoId: resolved.id, source: resolved.source === 'spoonacular' ? 'spoonacular' : 'mongo' }];
+    }));
 
-    return NextResponse.json({ mongoId: id, source: 'unknown' });
+    return NextResponse.json(Array.isArray(ids) ? { results } : results[requestedIds[0]]);
   } catch (error) {
     console.error('resolve-id error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -9,12 +9,19 @@ export {};
 import { NextRequest, NextResponse } from 'next/server';
 import { Recipe } from '@/types/recipe';
 import { searchRecipesMongo, createUserRecipe, updateRecipe } from '@/services/recipeService';
+import { invalidateRecipeSearchIndex, isValidSearchCursor, suggestRecipeSearchQuery } from '@/services/recipeSearchService.server';
+import { DIFFICULTY_TIME_BUCKETS, type RecipeSearchFacets } from '@/utils/recipeSearch';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 
 
 /**
  * GET /api/recipes - Get recipes with filtering and pagination
+ * Results are ranked by relevance to `search`. Pass the `nextCursor` of a
+ * response as `cursor` for the next page; `facets` counts the matches by
+ * cuisine, diet, dish type and time bucket. `difficulty` filters by the
+ * cooking time bucket. A search without results comes with a corrected
+ * `suggestion`.
  */
 export async function GET(request: NextRequest) {
   try {
@@ -28,17 +35,25 @@ export async function GET(request: NextRequest) {
       diet: searchParams.get('diet') || undefined,
       intolerances: searchParams.get('intolerances') || undefined,
       maxReadyTime: searchParams.get('maxReadyTime') ? parseInt(searchParams.get('maxReadyTime') as string, 10) : undefined,
+      timeBucket: DIFFICULTY_TIME_BUCKETS[searchParams.get('difficulty') || ''],
     } as const;
   const page = parseInt(searchParams.get('page') || '1', 10);
   const limit = parseInt(searchParams.get('limit') || searchParams.get('number') || '200', 10); // Erhöht auf 200 um alle Spoonacular-Rezepte zu zeigen
   const authorId = searchParams.get('authorId') || undefined;
   const createdBy = searchParams.get('createdBy') || undefined;
   const randomize = searchParams.get('randomize') === 'true';
+  const cursor = searchParams.get('cursor') || undefined;
+
+    if (cursor && !isValidSearchCursor(cursor)) {
+      return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 });
+    }
 
     console.log('Parsed Filters:', filters, 'page:', page, 'limit:', limit);
 
   let recipes: Recipe[] = [];
   let total = 0;
+  let nextCursor: string | null = null;
+  let facets: RecipeSearchFacets | null = null;
   let source: 'mongodb' | 'mongodb-relaxed' | 'spoonacular' | 'fallback-needed' = 'mongodb';
     let notice: string | undefined;
 
@@ -51,13 +66,15 @@ export async function GET(request: NextRequest) {
     await ensureUniqueIndexAndDedupe(spoonacularCollection as any);
 
     // Primary: use central recipeService (Mongo-first)
-    const { recipes: mongoRecipes, total: mongoTotal } = await searchRecipesMongo(
-      { query: filters.query, type: filters.type, diet: filters.diet, intolerances: filters.intolerances || undefined, maxReadyTime: filters.maxReadyTime, authorId: authorId || createdBy },
-      { page, limit },
+    const searchResult = await searchRecipesMongo(
+      { query: filters.query, type: filters.type, diet: filters.diet, intolerances: filters.intolerances || undefined, maxReadyTime: filters.maxReadyTime, timeBucket: filters.timeBucket, authorId: authorId || createdBy },
+      { page, limit, cursor },
       randomize
     );
-    recipes = mongoRecipes as Recipe[];
-    total = mongoTotal;
+    recipes = searchResult.recipes as Recipe[];
+    total = searchResult.total;
+    nextCursor = searchResult.nextCursor;
+    facets = searchResult.facets;
     source = 'mongodb';
 
     // If no cached results, try relaxed Mongo-only fallbacks before external API
@@ -100,6 +117,7 @@ export async function GET(request: NextRequest) {
             const isDup = e?.writeErrors?.every((we: any) => we?.code === 11000);
             if (!isDup) throw e;
           }
+          await invalidateRecipeSearchIndex();
         }
       } catch (spError) {
         console.warn('⚠️ Spoonacular API fallback failed:', spError);
@@ -111,7 +129,21 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    return NextResponse.json({ recipes, total, source, notice });
+    // "Did you mean" for a query that found nothing
+    const communityPrefix = filters.query.includes('community:') ? 'community:' : '';
+    const suggestion = recipes.length === 0 && filters.query
+      ? await suggestRecipeSearchQuery(filters.query.replace('community:', ''))
+      : null;
+
+    return NextResponse.json({
+      recipes,
+      total,
+      nextCursor,
+      facets,
+      suggestion: suggestion && `${communityPrefix}${suggestion}`,
+      source,
+      notice
+    });
   } catch (error) {
     console.error('❌ API /api/recipes error:', error);
     return NextResponse.json({ error: 'Failed to fetch recipes' }, { status: 500 });
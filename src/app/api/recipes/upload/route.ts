@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
 import { getCollection, COLLECTIONS } from '@/lib/db';
+import { syncRecipeSearchEntry } from '@/services/recipeSearchService.server';
 import { v2 as cloudinary } from 'cloudinary';
 
 // Configure Cloudinary
@@ -217,6 +218,7 @@ export async function POST(request: NextRequest) {
     }
 
     console.log(`Recipe saved successfully with ID: ${result.insertedId} in collection: ${targetCollection}`);
+    await syncRecipeSearchEntry(targetCollection, result.insertedId);
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { findUserByEmail } from '@/models/User';
+import { findSavedListById } from '@/models/SavedGroceryList';
+import { replaceGroceryList, createOrUpdateGroceryList } from '@/models/GroceryList';
+import { connectToDatabase } from '@/lib/db';
+
+// POST request to copy a saved list back into the active grocery list
+// Body: { mode?: 'replace' | 'merge' } - replace (default) or merge into the current list
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user || !session.user.email) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectToDatabase();
+    const user = await findUserByEmail(session.user.email);
+    if (!user?._id) {
+      return NextResponse.json({ message: 'User not found' }, { status: 404 });
+    }
+
+    const { mode = 'replace' } = await req.json().catch(() => ({}));
+    if (mode !== 'replace' && mode !== 'merge') {
+      return NextResponse.json({ message: "mode must be 'replace' or 'merge'" }, { status: 400 });
+    }
+
+    const savedList = await findSavedListById(params.id, user._id);
+    if (!savedList) {
+      return NextResponse.json({ message: 'List not found' }, { status: 404 });
+    }
+
+    const groceryList = mode === 'replace'
+      ? await replaceGroceryList(user._id, savedList.ingredients)
+      : await createOrUpdateGroceryList(user._id, savedList.ingredients);
+
+    return NextResponse.json(groceryList, { status: 200 });
+  } catch (error) {
+    console.error(`[API /saved-grocery-lists/${params.id}/restore POST]`, error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ message: 'Internal Server Error', error: errorMessage }, { status: 500 });
+  }
+}
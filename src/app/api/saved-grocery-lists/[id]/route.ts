@@ -3,8 +3,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
 import { findUserByEmail } from '@/models/User';
-import { deleteSavedListById } from '@/models/SavedGroceryList';
+import { deleteSavedListById, findSavedListById, updateSavedList } from '@/models/SavedGroceryList';
 import { connectToDatabase } from '@/lib/db';
+import { isGroceryListOperation } from '@/utils/groceryListOperations';
 
 export async function DELETE(req: NextRequest, { params }: { params: { id: string } }) {
   try {
@@ -39,3 +40,80 @@ export async function DELETE(req: NextRequest, { params }: { params: { id: strin
     return NextResponse.json({ message: 'Internal Server Error', error: errorMessage }, { status: 500 });
   }
 }
+
+// GET request to fetch a single saved list (e.g. to reload it after a conflict)
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user || !session.user.email) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectToDatabase();
+    const user = await findUserByEmail(session.user.email);
+    if (!user?._id) {
+      return NextResponse.json({ message: 'User not found' }, { status: 404 });
+    }
+
+    const list = await findSavedListById(params.id, user._id);
+    if (!list) {
+      return NextResponse.json({ message: 'List not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(list, { status: 200 });
+  } catch (error) {
+    console.error(`[API /saved-grocery-lists/${params.id} GET]`, error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ message: 'Internal Server Error', error: errorMessage }, { status: 500 });
+  }
+}
+
+// PATCH request to rename a saved list and/or change its items
+// Body: { name?, operations?, version? } - with `version`, the update is rejected
+// with 409 (and the current list) if the list changed since that version
+export async function PATCH(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user || !session.user.email) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectToDatabase();
+    const user = await findUserByEmail(session.user.email);
+    if (!user?._id) {
+      return NextResponse.json({ message: 'User not found' }, { status: 404 });
+    }
+
+    const { name, operations, version } = await req.json();
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+      return NextResponse.json({ message: 'name must not be empty' }, { status: 400 });
+    }
+    if (operations !== undefined && (!Array.isArray(operations) || !operations.every(isGroceryListOperation))) {
+      return NextResponse.json({ message: 'operations must be an array of toggle, add, remove, edit or reorder operations' }, { status: 400 });
+    }
+    if (name === undefined && !operations?.length) {
+      return NextResponse.json({ message: 'Nothing to update: send a name or operations' }, { status: 400 });
+    }
+    if (version !== undefined && (typeof version !== 'number' || !Number.isInteger(version))) {
+      return NextResponse.json({ message: 'version must be an integer' }, { status: 400 });
+    }
+
+    const result = await updateSavedList(params.id, user._id, { name, operations }, {
+      id: user._id.toString(),
+    }, version);
+
+    if (result.status === 'not-found') {
+      return NextResponse.json({ message: 'List not found or you do not have permission to edit it' }, { status: 404 });
+    }
+    if (result.status === 'conflict') {
+      return NextResponse.json({ message: 'The list was changed in the meantime', list: result.list }, { status: 409 });
+    }
+
+    return NextResponse.json(result.list, { status: 200 });
+  } catch (error) {
+    console.error(`[API /saved-grocery-lists/${params.id} PATCH]`, error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ message: 'Internal Server Error', error: errorMessage }, { status: 500 });
+  }
+}
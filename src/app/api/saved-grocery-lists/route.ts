@@ -5,6 +5,7 @@ import { authOptions } from '@/lib/auth';
 import { findUserByEmail } from '@/models/User';
 import { saveGroceryList, findSavedListsByUserId } from '@/models/SavedGroceryList';
 import { connectToDatabase } from '@/lib/db';
+import { consolidateGroceryItems } from '@/utils/groceryListHelper';
 
 // POST request to save a new grocery list
 export async function POST(req: NextRequest) {
@@ -22,11 +23,11 @@ export async function POST(req: NextRequest) {
 
     const { name, ingredients } = await req.json();
 
-    if (!name || !ingredients) {
+    if (!name || !Array.isArray(ingredients)) {
         return NextResponse.json({ message: 'Missing required fields: name and ingredients' }, { status: 400 });
     }
 
-    const savedList = await saveGroceryList(user._id, name, ingredients);
+    const savedList = await saveGroceryList(user._id, name, consolidateGroceryItems(ingredients));
 
     return NextResponse.json(savedList, { status: 201 }); // 201 for resource created
 
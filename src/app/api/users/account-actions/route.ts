@@ -8,6 +8,7 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { findUserByEmail, deleteUser } from '@/models/User';
 import { getCollection, COLLECTIONS } from '@/lib/db';
+import { invalidateRecipeSearchIndex } from '@/services/recipeSearchService.server';
 
 // POST endpoint for data export
 export async function POST(request: NextRequest) {
@@ -115,9 +116,12 @@ export async function DELETE(request: NextRequest) {
 
     // Delete user's recipes
     const recipesCollection = await getCollection(COLLECTIONS.RECIPES);
-    await recipesCollection.deleteMany({
+    const deletedRecipes = await recipesCollection.deleteMany({
       createdBy: user._id
     });
+    if (deletedRecipes.deletedCount > 0) {
+      await invalidateRecipeSearchIndex();
+    }
 
     // Delete user's meal plans
     const mealPlansCollection = await getCollection(COLLECTIONS.MEAL_PLANS);
@@ -9,6 +9,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { MealPlanService } from '@/models/MealPlan';
+import { findMealPlanForDate } from '@/types/meal-planning';
+import { getDayMealTypeIds, getMealsOfType } from '@/utils/mealTypes';
 
 export async function GET(request: NextRequest) {
   try {
@@ -61,15 +63,15 @@ export async function GET(request: NextRequest) {
       recentActivity.push({
         id: `plan-${plan._id}`,
         type: 'meal_plan',
-        description: `Created meal plan for ${new Date(plan.weekStartDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`,
+        description: `Created meal plan for ${new Date(plan.startDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`,
         timestamp: new Date(plan.createdAt)
       });
 
       // Count meals and extract unique recipes
       const recipeIds = new Set<string>();
       plan.days.forEach((day: any) => {
-        ['breakfast', 'lunch', 'dinner', 'snacks'].forEach(mealType => {
-          const meals = day[mealType] || [];
+        getDayMealTypeIds(day).forEach(mealType => {
+          const meals = getMealsOfType<any>(day, mealType);
           meals.forEach((meal: any) => {
             if (meal.recipeName) {
               totalMeals++;
@@ -101,11 +103,8 @@ export async function GET(request: NextRequest) {
     recentActivity.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
     recentActivity = recentActivity.slice(0, 10);
 
-    // Get current week meal plan for quick access
-    const currentWeekStart = getWeekStartDate(new Date());
-    const currentWeekPlan = enrichedMealPlans.find(plan => 
-      new Date(plan.weekStartDate).toDateString() === currentWeekStart.toDateString()
-    );
+    // Get the meal plan covering today for quick access
+    const currentWeekPlan = findMealPlanForDate(enrichedMealPlans, new Date());
 
     // Get upcoming meals (next 3 days)
     const upcomingMeals: Array<{
@@ -158,8 +157,9 @@ export async function GET(request: NextRequest) {
         upcomingMeals,
         currentWeekPlan: currentWeekPlan ? {
           id: currentWeekPlan._id,
-          title: currentWeekPlan.title || `Week of ${new Date(currentWeekPlan.weekStartDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`,
-          weekStart: currentWeekPlan.weekStartDate
+          title: currentWeekPlan.title || `Meal plan from ${new Date(currentWeekPlan.startDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`,
+          startDate: currentWeekPlan.startDate,
+          endDate: currentWeekPlan.endDate
         } : null,
         quickLinks: {
           mealPlanUrl: currentWeekPlan ? `/user/${encodeURIComponent(session.user.name || 'user')}/meal-plan/${currentWeekPlan._id}` : '/user/meal-plan/current',
@@ -180,11 +180,3 @@ export async function GET(request: NextRequest) {
     );
   }
 }
-
-// Helper function for week start calculation
-function getWeekStartDate(date: Date): Date {
-  const d = new Date(date);
-  const day = d.getDay();
-  const diff = d.getDate() - day + (day === 0 ? -6 : 1); // Adjust when day is Sunday
-  return new Date(d.setDate(diff));
-}
\ No newline at end of file
@@ -0,0 +1,66 @@
+/**
+ * User Names API Route
+ *
+ * GET /api/users/names?ids=<id>,<id> - Display names of users by ID, e.g. to
+ *     show who checked an item of a shared grocery list.
+ *     Returns { names: { [id]: name } } for the users found. Only the caller's
+ *     household members and the users who checked items on the list shared
+ *     with the caller are resolved; other IDs are dropped.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { findUserByEmail, findUserNamesByIds } from '@/models/User';
+import { findHouseholdByUserId } from '@/models/Household';
+import { findGroceryListByUserId } from '@/models/GroceryList';
+
+const MAX_IDS = 50;
+
+/**
+ * Collects the IDs of the users whose names the caller may see: themselves,
+ * their household's members and whoever checked items on their active list
+ */
+async function findVisibleUserIds(userId: string | ObjectId): Promise<Set<string>> {
+  const [household, groceryList] = await Promise.all([
+    findHouseholdByUserId(userId),
+    findGroceryListByUserId(userId),
+  ]);
+
+  return new Set([
+    userId.toString(),
+    ...(household?.memberIds || []).map(memberId => memberId.toString()),
+    ...(groceryList?.ingredients || []).flatMap(item => (item.checkedBy ? [item.checkedBy] : [])),
+  ]);
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || !session.user || !session.user.email) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const ids = Array.from(new Set((req.nextUrl.searchParams.get('ids') || '').split(',').map(id => id.trim()).filter(Boolean)));
+    if (ids.length === 0 || ids.length > MAX_IDS) {
+      return NextResponse.json({ message: `ids must list 1 to ${MAX_IDS} user IDs` }, { status: 400 });
+    }
+
+    await connectToDatabase();
+    const user = await findUserByEmail(session.user.email);
+    if (!user?._id) {
+      return NextResponse.json({ message: 'User not found' }, { status: 404 });
+    }
+
+    const visibleIds = await findVisibleUserIds(user._id);
+    const names = await findUserNamesByIds(ids.filter(id => visibleIds.has(id)));
+
+    return NextResponse.json({ names }, { status: 200 });
+  } catch (error) {
+    console.error('[API /users/names GET]', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ message: 'Internal Server Error', error: errorMessage }, { status: 500 });
+  }
+}
@@ -9,6 +9,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { MealPlanService, type IMealPlan, type MealSlot } from '@/models/MealPlan';
+import { formatMealTypeName, getDayMealTypeIds, getMealsOfType } from '@/utils/mealTypes';
 
 export async function GET(request: NextRequest) {
   try {
@@ -52,16 +53,16 @@ export async function GET(request: NextRequest) {
     }> = [];
 
     enrichedMealPlans.forEach((plan: IMealPlan) => {
-      const weekStart = new Date(plan.weekStartDate);
-      const weekEnd = new Date(weekStart.getTime() + 6 * 24 * 60 * 60 * 1000);
-      const weekRange = `Week of ${weekStart.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} - ${weekEnd.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
+      const planStart = new Date(plan.startDate);
+      const planEnd = new Date(plan.endDate);
+      const weekRange = `${plan.days.length === 7 ? 'Week of ' : ''}${planStart.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} - ${planEnd.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
 
       plan.days.forEach((day: any) => {
         const dayDate = new Date(day.date);
         
         // Process all meal types
-        ['breakfast', 'lunch', 'dinner', 'snacks'].forEach(mealType => {
-          const meals = day[mealType] as MealSlot[];
+        getDayMealTypeIds(day).forEach(mealType => {
+          const meals = getMealsOfType<MealSlot>(day, mealType);
 
           if (meals && Array.isArray(meals)) {
             meals.forEach((meal, mealIndex) => {
@@ -81,7 +82,7 @@ export async function GET(request: NextRequest) {
                   createdAt: plan.createdAt?.toISOString() || new Date().toISOString(),
                   plannedDate: dayDate.toISOString(),
                   weekRange,
-                  mealType: mealType.charAt(0).toUpperCase() + mealType.slice(1),
+                  mealType: formatMealTypeName(mealType),
                   servings: meal.servings,
                   notes: meal.notes,
                   originalRecipeId: meal.recipeId // Keep the original recipe ID for reference
@@ -0,0 +1,302 @@
+/**
+ * User Preferences API Route
+ *
+ * GET   /api/users/preferences - Get the current user's settings (with defaults)
+ * PATCH /api/users/preferences - Update fields of a single settings section
+ *
+ * PATCH body: { section: 'shopping', data: { storeSectionOrder: [...] } }
+ *             { section: 'mealPlanning', data: { mealTypes: [{ id, name, time, color, emoji }] } }
+ *             { section: 'mealPlanning', data: { nutritionTargets: { calories: 2000, protein: 60 } } }
+ *             { section: 'mealPlanning', data: { householdMembers: [{ id, name, dietType, allergies, portionMultiplier }] } }
+ * Fields not included in `data` keep their current values; unknown fields and
+ * values of the wrong type are rejected with 400.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { UserSettingsService, type UserPreferencesUpdate } from '@/services/userSettingsService.server';
+import { normalizeSectionOrder } from '@/utils/storeSections';
+import { normalizeMealTypes } from '@/utils/mealTypes';
+import { normalizeNutritionTargets } from '@/utils/mealPlanNutrition';
+import { normalizeHouseholdMembers } from '@/utils/household';
+import { MAX_MEAL_PLAN_DAYS } from '@/types/meal-planning';
+
+// Reads one setting from a request; undefined means the value is invalid
+type FieldParser = (value: unknown) => unknown;
+
+// The sections of the settings a client may change
+type EditableSection = Exclude<UserPreferencesUpdate['section'], 'lastActiveAt' | 'onboardingCompleted'>;
+
+// The settings of a section a client may change; nested objects list their own fields
+interface SectionFields {
+  [field: string]: FieldParser | SectionFields;
+}
+
+const MAX_TEXT_LENGTH = 500;
+const MAX_LIST_LENGTH = 50;
+
+const bool: FieldParser = value => typeof value === 'boolean' ? value : undefined;
+
+const text = (maxLength = MAX_TEXT_LENGTH): FieldParser => value =>
+  typeof value === 'string' && value.length <= maxLength ? value.trim() : undefined;
+
+const textList: FieldParser = value =>
+  Array.isArray(value) && value.length <= MAX_LIST_LENGTH && value.every(item => typeof item === 'string')
+    ? Array.from(new Set(value.map(item => item.trim()).filter(Boolean)))
+    : undefined;
+
+const oneOf = (...allowed: Array<string | number>): FieldParser => value =>
+  allowed.includes(value as string | number) ? value : undefined;
+
+const wholeNumber = (min: number, max: number): FieldParser => value =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max ? value : undefined;
+
+const positiveNumber: FieldParser = value =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : undefined;
+
+const timeOfDay: FieldParser = value =>
+  typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value) ? value : undefined;
+
+const SECTION_FIELDS: Record<EditableSection, SectionFields> = {
+  profile: {
+    displayName: text(60),
+    bio: text(),
+    avatar: text(),
+    location: text(100),
+    timezone: text(60),
+    language: value => typeof value === 'string' && /^[a-z]{2}(-[A-Z]{2})?$/.test(value) ? value : undefined,
+    units: oneOf('metric', 'imperial'),
+  },
+  dietary: {
+    allergies: textList,
+    intolerances: textList,
+    dietType: oneOf('omnivore', 'vegetarian', 'vegan', 'pescatarian', 'keto', 'paleo', 'mediterranean', 'custom'),
+    customDietName: text(60),
+    excludedIngredients: textList,
+    preferredIngredients: textList,
+    spiceLevel: oneOf('mild', 'medium', 'hot', 'very-hot'),
+    cookingSkillLevel: oneOf('beginner', 'intermediate', 'advanced'),
+  },
+  mealPlanning: {
+    defaultServings: wholeNumber(1, 20),
+    planningHorizon: wholeNumber(1, MAX_MEAL_PLAN_DAYS),
+    preferredMealTimes: { breakfast: timeOfDay, lunch: timeOfDay, dinner: timeOfDay, snack1: timeOfDay, snack2: timeOfDay },
+    weekStartsOn: oneOf(0, 1, 6),
+    autoGenerateGroceryList: bool,
+    includeLeftovers: bool,
+    batchCookingPreference: bool,
+    budgetPerWeek: positiveNumber,
+    mealTypes: normalizeMealTypes,
+    nutritionTargets: normalizeNutritionTargets,
+    householdMembers: normalizeHouseholdMembers,
+  },
+  recipes: {
+    defaultView: oneOf('grid', 'list', 'card'),
+    sortPreference: oneOf('newest', 'popular', 'rating', 'cook-time', 'difficulty'),
+    showNutritionInfo: bool,
+    showCookingTips: bool,
+    hideComplexRecipes: bool,
+    maxCookTime: wholeNumber(1, 24 * 60),
+    preferredCuisines: textList,
+    bookmarkOrganization: oneOf('categories', 'tags', 'date-added'),
+  },
+  privacy: {
+    profileVisibility: oneOf('public', 'friends', 'private'),
+    showRecipeHistory: bool,
+    showMealPlans: bool,
+    showCollections: bool,
+    allowMessageFromUsers: bool,
+    shareAnalyticsData: bool,
+    emailNotifications: {
+      newRecipeSuggestions: bool,
+      mealPlanReminders: bool,
+      groceryListReminders: bool,
+      weeklyNewsletter: bool,
+      systemUpdates: bool,
+    },
+    pushNotifications: { mealReminders: bool, cookingTimers: bool, groceryReminders: bool },
+  },
+  interface: {
+    theme: oneOf('light', 'dark', 'auto'),
+    compactMode: bool,
+    showTutorials: bool,
+    defaultLandingPage: oneOf('dashboard', 'recipes', 'meal-plans', 'grocery-lists'),
+    sidebarExpanded: bool,
+    enableKeyboardShortcuts: bool,
+    animationsEnabled: bool,
+    highContrastMode: bool,
+    fontSize: oneOf('small', 'medium', 'large', 'x-large'),
+  },
+  ai: {
+    enableSmartSuggestions: bool,
+    fridgeAnalysisConsent: bool,
+    personalizedRecommendations: bool,
+    autoTagRecipes: bool,
+    suggestMealPlans: bool,
+    improveSearchResults: bool,
+    dataRetentionPeriod: oneOf(30, 90, 180, 365),
+  },
+  shopping: {
+    preferredStores: textList,
+    deliveryPreferences: { enabled: bool, defaultService: text(100), defaultAddress: text() },
+    couponsAndDeals: bool,
+    priceTracking: bool,
+    organicPreference: oneOf('always', 'when-available', 'budget-permitting', 'never'),
+    localProducePreference: bool,
+    storeSectionOrder: value => normalizeSectionOrder(Array.isArray(value) ? value : null),
+  },
+  data: {
+    exportFormat: oneOf('json', 'csv', 'pdf'),
+    autoBackup: bool,
+    backupFrequency: oneOf('daily', 'weekly', 'monthly'),
+    syncAcrossDevices: bool,
+    offlineMode: bool,
+  },
+};
+
+const EDITABLE_SECTIONS = Object.keys(SECTION_FIELDS) as EditableSection[];
+
+function isEditableSection(section: unknown): section is EditableSection {
+  return EDITABLE_SECTIONS.includes(section as EditableSection);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Merges the fields of a request into the stored settings of a section
+ *
+ * @param fields - The fields the section allows
+ * @param current - The stored values
+ * @param data - The fields to change
+ * @returns The merged settings, or an error naming the first unknown or invalid field
+ */
+function mergeSectionFields(
+  fields: SectionFields,
+  current: Record<string, unknown>,
+  data: Record<string, unknown>,
+  path = ''
+): { value: Record<string, unknown> } | { error: string } {
+  const merged = { ...current };
+
+  for (const [field, input] of Object.entries(data)) {
+    const parser = fields[field];
+    const name = `${path}${field}`;
+
+    if (!parser) {
+      return { error: `${name} is not a setting of this section` };
+    }
+    if (typeof parser === 'function') {
+      const value = parser(input);
+      if (value === undefined) return { error: `${name} has an invalid value` };
+      merged[field] = value;
+      continue;
+    }
+    if (!isPlainObject(input)) {
+      return { error: `${name} must be an object` };
+    }
+    const nested = mergeSectionFields(parser, isPlainObject(current[field]) ? current[field] : {}, input, `${name}.`);
+    if ('error' in nested) return nested;
+    merged[field] = nested.value;
+  }
+
+  return { value: merged };
+}
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id && !session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const userId = session.user.id || session.user.email!;
+    const settings = await UserSettingsService.getUserSettings(userId);
+
+    return NextResponse.json({ success: true, data: settings });
+
+  } catch (error) {
+    console.error('GET /api/users/preferences error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch preferences',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id && !session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { section, data } = body as Partial<UserPreferencesUpdate>;
+
+    if (!isEditableSection(section)) {
+      return NextResponse.json(
+        { error: `section must be one of: ${EDITABLE_SECTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!isPlainObject(data)) {
+      return NextResponse.json(
+        { error: 'data must be an object' },
+        { status: 400 }
+      );
+    }
+
+    const userId = session.user.id || session.user.email!;
+    const settings = await UserSettingsService.getUserSettings(userId);
+    const stored: unknown = settings[section];
+    const merged = mergeSectionFields(SECTION_FIELDS[section], isPlainObject(stored) ? stored : {}, data);
+
+    if ('error' in merged) {
+      return NextResponse.json(
+        { error: merged.error },
+        { status: 400 }
+      );
+    }
+
+    const sectionData = merged.value;
+    const updated = await UserSettingsService.updateSettingsSection(userId, section, sectionData);
+
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'Failed to update preferences' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { section, [section]: sectionData },
+      message: 'Preferences updated successfully'
+    });
+
+  } catch (error) {
+    console.error('PATCH /api/users/preferences error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update preferences',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -9,6 +9,7 @@ import { getCollection, toObjectId } from '@/lib/db';
 import { COLLECTIONS } from '@/lib/db';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
+import { syncRecipeSearchEntry } from '@/services/recipeSearchService.server';
 
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
@@ -73,6 +74,8 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: 'Recipe not found or user not authorized to delete it.' }, { status: 404 });
     }
 
+    await syncRecipeSearchEntry(COLLECTIONS.USER_RECIPES, toObjectId(recipeId));
+
     return NextResponse.json({ message: 'Recipe deleted successfully' }, { status: 200 });
   } catch (error) {
     console.error('Failed to delete recipe:', error);
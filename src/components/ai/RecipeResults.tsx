@@ -1,14 +1,87 @@
+'use client';
+
+import { useState } from 'react';
+import { ShoppingCart } from 'lucide-react';
 import { RecipeCard } from '@/components/recipe/RecipeCard';
+import { useToast } from '@/components/ui/use-toast';
+import type { RawGroceryIngredient } from '@/utils/groceryListHelper';
+import type { IngredientMatchedRecipe } from '@/utils/ingredientMatch';
+
+// The missing ingredients with their amounts from the recipe, when it has them
+function getMissingGroceryItems(recipe: IngredientMatchedRecipe): RawGroceryIngredient[] {
+  const recipeIngredients = recipe.extendedIngredients?.length ? recipe.extendedIngredients : recipe.ingredients || [];
+  return recipe.missedIngredients.map(name => {
+    const ingredient = recipeIngredients.find(candidate =>
+      typeof candidate !== 'string' && (candidate.name || candidate.originalName || '').trim().toLowerCase() === name
+    );
+    if (!ingredient || typeof ingredient === 'string') return { name };
+    return {
+      name,
+      amount: ingredient.amount ?? ingredient.quantity,
+      unit: ingredient.unit || '',
+      aisle: ingredient.aisle,
+    };
+  });
+}
 
 export default function RecipeResults({ recipes }: { recipes: any[] }) {
+  const { toast } = useToast();
+  const [addedRecipeIds, setAddedRecipeIds] = useState<string[]>([]);
+
+  const handleAddMissing = async (recipe: IngredientMatchedRecipe, recipeId: string) => {
+    try {
+      const response = await fetch('/api/grocery-list', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ingredients: getMissingGroceryItems(recipe), recipeId }),
+      });
+      if (!response.ok) throw new Error('Failed to add ingredients');
+      setAddedRecipeIds(prev => [...prev, recipeId]);
+      toast({ title: 'Success', description: `${recipe.missedIngredients.length} missing ingredients added to your shopping list.` });
+    } catch (error) {
+      console.error('Error adding missing ingredients:', error);
+      toast({ title: 'Error', description: 'Failed to add ingredients to shopping list.', variant: 'destructive' });
+    }
+  };
+
   if (!recipes.length) return <div className="text-center text-muted-foreground mt-8">Keine Rezepte gefunden.</div>;
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 mt-8">
-      {recipes.map((recipe: any) => (
-        <div key={recipe.id || recipe._id} className="shadow-lg hover:shadow-xl transition-shadow duration-300 rounded-lg overflow-hidden">
-          <RecipeCard recipe={recipe} />
-        </div>
-      ))}
+      {recipes.map((recipe: any) => {
+        const recipeId: string = recipe.spoonacularId?.toString() || recipe._id?.toString() || recipe.id?.toString() || '';
+        const isMatched = Array.isArray(recipe.usedIngredients) && Array.isArray(recipe.missedIngredients);
+        return (
+          <div key={recipe.id || recipe._id} className="shadow-lg hover:shadow-xl transition-shadow duration-300 rounded-lg overflow-hidden bg-white flex flex-col">
+            <RecipeCard recipe={recipe} />
+            {/* What the user has and what is missing, from the ingredient search */}
+            {isMatched && (
+              <div className="p-3 text-sm space-y-2 border-t border-gray-100">
+                <p className="text-green-700">
+                  <span className="font-semibold">You have {recipe.usedIngredients.length}:</span> {recipe.usedIngredients.join(', ')}
+                </p>
+                {recipe.missedIngredients.length > 0 ? (
+                  <>
+                    <p className="text-orange-700">
+                      <span className="font-semibold">Missing {recipe.missedIngredients.length}:</span> {recipe.missedIngredients.join(', ')}
+                    </p>
+                    <button
+                      type="button"
+                      onClick={() => handleAddMissing(recipe, recipeId)}
+                      disabled={addedRecipeIds.includes(recipeId)}
+                      className="flex items-center gap-2 text-xs font-semibold px-3 py-1.5 rounded-full bg-[#7D966D] text-white hover:bg-[#6b8560] disabled:opacity-50"
+                    >
+                      <ShoppingCart className="h-3 w-3" />
+                      {addedRecipeIds.includes(recipeId) ? 'Added to shopping list' : 'Add missing to shopping list'}
+                    </button>
+                  </>
+                ) : (
+                  <p className="font-semibold text-green-700">Nothing missing: you can cook this now!</p>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
     </div>
   );
 }
@@ -28,6 +28,7 @@ import {
   Thermometer
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { parseIngredientLines, toIngredientRecord } from '@/utils/ingredientParser';
 import ImageUpload, { type UploadedImage } from '@/components/ui/ImageUpload';
 import Image from 'next/image';
 
@@ -132,6 +133,12 @@ const COMMON_UNITS = [
   'Zehe', 'Bund', 'Dose', 'Packung', 'nach Geschmack'
 ];
 
+// Parsed English units that this form lists in German
+const GERMAN_UNITS: Record<string, string> = {
+  cup: 'Tasse', tbsp: 'EL', tsp: 'TL', piece: 'Stück', clove: 'Zehe', pinch: 'Prise',
+  bunch: 'Bund', can: 'Dose', package: 'Packung'
+};
+
 export function EnhancedRecipeUploadForm({
   onSubmit,
   onSuccess,
@@ -174,6 +181,7 @@ export function EnhancedRecipeUploadForm({
     instruction: '', time: 0, temperature: 0
   });
   const [newTag, setNewTag] = useState('');
+  const [pastedIngredients, setPastedIngredients] = useState('');
   const [errors, setErrors] = useState<Record<string, string>>({});
 
   // Reset form to initial state
@@ -183,6 +191,7 @@ export function EnhancedRecipeUploadForm({
     setNewIngredient({ name: '', amount: 0, unit: '', notes: '' });
     setNewInstruction({ instruction: '', time: 0, temperature: 0 });
     setNewTag('');
+    setPastedIngredients('');
     setErrors({});
   };
 
@@ -341,6 +350,22 @@ export function EnhancedRecipeUploadForm({
     }
   };
 
+  // Adds a pasted ingredient list, one ingredient per line
+  const addPastedIngredients = () => {
+    const timestamp = Date.now();
+    const parsed: EnhancedIngredient[] = parseIngredientLines(pastedIngredients).map((ingredient, index) => {
+      const record = toIngredientRecord(ingredient);
+      const unit = ingredient.amount === null
+        ? 'nach Geschmack'
+        : GERMAN_UNITS[record.unit] || record.unit || 'Stück';
+      return { id: `${timestamp}-${index}`, ...record, unit };
+    });
+    if (parsed.length === 0) return;
+
+    handleFieldChange('ingredients', [...formData.ingredients, ...parsed]);
+    setPastedIngredients('');
+  };
+
   const removeIngredient = (id: string) => {
     const updated = formData.ingredients.filter(ing => ing.id !== id);
     handleFieldChange('ingredients', updated);
@@ -900,13 +925,34 @@ export function EnhancedRecipeUploadForm({
             </Button>
           </div>
 
+          {/* Paste a whole ingredient list */}
+          <div className="space-y-2">
+            <Label htmlFor="paste-ingredients">Zutatenliste einfügen</Label>
+            <Textarea
+              id="paste-ingredients"
+              value={pastedIngredients}
+              onChange={(e) => setPastedIngredients(e.target.value)}
+              placeholder={'Eine Zutat pro Zeile, z.B.\n200 g Mehl\n2-3 Knoblauchzehen, gehackt\nSalz nach Geschmack'}
+              rows={4}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              onClick={addPastedIngredients}
+              disabled={!pastedIngredients.trim()}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Zutaten übernehmen
+            </Button>
+          </div>
+
           {/* Ingredients List */}
           <div className="space-y-2">
             {formData.ingredients.map((ingredient) => (
               <div key={ingredient.id} className="flex items-center justify-between p-3 bg-muted/50 rounded-md">
                 <div className="flex-1">
                   <span className="font-medium">
-                    {ingredient.amount} {ingredient.unit} {ingredient.name}
+                    {ingredient.amount > 0 && `${ingredient.amount} `}{ingredient.unit} {ingredient.name}
                   </span>
                   {ingredient.notes && (
                     <span className="text-sm text-muted-foreground ml-2">
@@ -10,6 +10,7 @@ import { Badge } from '@/components/ui/badge';
 import { X, Plus, Upload, ImageIcon } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { RecipeCategory, RecipeDifficulty, DietaryRestriction } from '@/types/recipe';
+import { parseIngredientLines, toIngredientRecord } from '@/utils/ingredientParser';
 
 interface RecipeIngredientInput {
   name: string;
@@ -85,6 +86,11 @@ const COMMON_UNITS = [
   'g', 'kg', 'ml', 'l', 'cups', 'tbsp', 'tsp', 'pieces', 'slices', 'cloves', 'large', 'medium', 'small'
 ];
 
+// Parsed units that this form lists in the plural
+const PLURAL_UNITS: Record<string, string> = {
+  cup: 'cups', piece: 'pieces', slice: 'slices', clove: 'cloves'
+};
+
 export function RecipeUploadForm({
   onSubmit,
   onCancel,
@@ -112,6 +118,7 @@ export function RecipeUploadForm({
 
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [newTag, setNewTag] = useState('');
+  const [pastedIngredients, setPastedIngredients] = useState('');
 
   // Validation
   const validateForm = useCallback((): boolean => {
@@ -166,6 +173,22 @@ export function RecipeUploadForm({
     }));
   };
 
+  // Turns a pasted ingredient list into rows; amounts "to taste" stay empty to fill in
+  const addPastedIngredients = () => {
+    const parsed: RecipeIngredientInput[] = parseIngredientLines(pastedIngredients).map(ingredient => ({
+      ...toIngredientRecord(ingredient),
+      amount: ingredient.amount ?? '',
+      unit: PLURAL_UNITS[ingredient.unit] || ingredient.unit || (ingredient.amount !== null ? 'pieces' : '')
+    }));
+    if (parsed.length === 0) return;
+
+    setFormData(prev => ({
+      ...prev,
+      ingredients: [...prev.ingredients.filter(ing => ing.name.trim() || ing.amount || ing.unit), ...parsed]
+    }));
+    setPastedIngredients('');
+  };
+
   const removeIngredient = (index: number) => {
     if (formData.ingredients.length > 1) {
       const newIngredients = formData.ingredients.filter((_, i) => i !== index);
@@ -449,6 +472,9 @@ export function RecipeUploadForm({
                   className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
                 >
                   <option value="">Unit</option>
+                  {ingredient.unit && !COMMON_UNITS.includes(ingredient.unit) && (
+                    <option value={ingredient.unit}>{ingredient.unit}</option>
+                  )}
                   {COMMON_UNITS.map((unit) => (
                     <option key={unit} value={unit}>
                       {unit}
@@ -479,6 +505,26 @@ export function RecipeUploadForm({
             <Plus className="h-4 w-4 mr-2" />
             Add Ingredient
           </Button>
+
+          <div className="space-y-2">
+            <Label htmlFor="paste-ingredients">Paste ingredient list</Label>
+            <Textarea
+              id="paste-ingredients"
+              value={pastedIngredients}
+              onChange={(e) => setPastedIngredients(e.target.value)}
+              placeholder={'One ingredient per line, e.g.\n2 ½ cups flour, sifted\n2-3 cloves garlic, minced\nSalt to taste'}
+              rows={4}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              onClick={addPastedIngredients}
+              disabled={!pastedIngredients.trim()}
+              className="w-full"
+            >
+              Add Pasted Ingredients
+            </Button>
+          </div>
           
           {errors.ingredients && <p className="text-sm text-destructive">{errors.ingredients}</p>}
         </CardContent>
@@ -0,0 +1,215 @@
+/**
+ * Budget Panel
+ *
+ * Shows the estimated cost of the displayed shopping list against the
+ * weekly budget (`mealPlanning.budgetPerWeek`), and lets the user enter the
+ * receipt total after a shopping trip to build a spend history.
+ */
+
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import toast from 'react-hot-toast';
+import { Wallet, Trash2 } from 'lucide-react';
+import {
+  estimateGroceryCost,
+  formatPrice,
+  getBudgetStatus,
+  type IngredientPriceEntry,
+} from '@/utils/groceryCostEstimator';
+
+interface SpendEntry {
+  _id: string;
+  amount: number;
+  estimatedCost?: number;
+  store?: string;
+  spentAt: string;
+}
+
+interface BudgetPanelProps {
+  items: Array<{ name: string; quantity: number; unit: string }>;
+  preferredStores: string[];
+}
+
+const RECENT_ENTRIES = 5;
+
+const STATUS_COLORS = {
+  under: 'bg-[#7D966D]',
+  near: 'bg-orange-400',
+  over: 'bg-[#F96850]',
+};
+
+export function BudgetPanel({ items, preferredStores }: BudgetPanelProps) {
+  const [prices, setPrices] = useState<IngredientPriceEntry[]>([]);
+  const [currency, setCurrency] = useState('EUR');
+  const [budget, setBudget] = useState<number | null>(null);
+  const [spentThisWeek, setSpentThisWeek] = useState(0);
+  const [entries, setEntries] = useState<SpendEntry[]>([]);
+  const [receiptTotal, setReceiptTotal] = useState('');
+  const [store, setStore] = useState('');
+  const [budgetInput, setBudgetInput] = useState('');
+
+  const fetchSpend = useCallback(async () => {
+    try {
+      const response = await fetch('/api/grocery-spend');
+      if (response.ok) {
+        const data = await response.json();
+        setEntries(data.entries || []);
+        setSpentThisWeek(data.spentThisWeek || 0);
+        setBudget(data.budgetPerWeek);
+      }
+    } catch (err) {
+      console.error('Error fetching grocery spend:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    const fetchPrices = async () => {
+      try {
+        const response = await fetch('/api/ingredient-prices');
+        if (response.ok) {
+          const data = await response.json();
+          setPrices(data.prices || []);
+          setCurrency(data.currency || 'EUR');
+        }
+      } catch (err) {
+        console.error('Error fetching ingredient prices:', err);
+      }
+    };
+    fetchPrices();
+    fetchSpend();
+  }, [fetchSpend]);
+
+  const estimate = useMemo(
+    () => estimateGroceryCost(items, prices, preferredStores),
+    [items, prices, preferredStores]
+  );
+
+  // The list is still to be bought, so it adds to what was spent this week
+  const projected = spentThisWeek + estimate.total;
+  const status = getBudgetStatus(projected, budget ?? undefined);
+
+  const handleSaveBudget = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(budgetInput);
+    if (!(value > 0)) {
+      toast.error('Please enter a budget above zero.');
+      return;
+    }
+    const response = await fetch('/api/users/preferences', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ section: 'mealPlanning', data: { budgetPerWeek: value } }),
+    });
+    if (response.ok) {
+      setBudget(value);
+      setBudgetInput('');
+      toast.success('Weekly budget saved!');
+    } else {
+      toast.error('Failed to save budget.');
+    }
+  };
+
+  const handleAddReceipt = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseFloat(receiptTotal);
+    if (!(amount > 0)) {
+      toast.error('Please enter the receipt total.');
+      return;
+    }
+
+    const promise = fetch('/api/grocery-spend', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ amount, estimatedCost: estimate.total, store: store || undefined }),
+    }).then(async (response) => {
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || 'Failed to save receipt.');
+      setReceiptTotal('');
+      setStore('');
+      await fetchSpend();
+      return 'Receipt saved!';
+    });
+    toast.promise(promise, { loading: 'Saving...', success: (message) => message, error: (err) => err.message });
+  };
+
+  const handleDeleteEntry = async (entryId: string) => {
+    const response = await fetch(`/api/grocery-spend/${entryId}`, { method: 'DELETE' });
+    if (response.ok) {
+      await fetchSpend();
+    } else {
+      toast.error('Failed to remove entry.');
+    }
+  };
+
+  const inputClassName = 'min-w-0 p-2 border border-[#AABC91] dark:border-[#74766D] bg-white/80 dark:bg-black/20 rounded-lg text-sm text-[#7D966D] dark:text-white focus:ring-[#F96850] focus:border-[#F96850] placeholder:text-[#AABC91] dark:placeholder:text-[#C1D3AF]/70';
+
+  return (
+    <div className="bg-[#EFF4E6] dark:bg-[#373739] p-6 rounded-2xl shadow-lg border border-gray-200 dark:border-gray-700 print:hidden">
+      <h2 className="flex items-center text-xl font-bold mb-4 text-[#7D966D] dark:text-[#CDE7C0]">
+        <Wallet className="h-5 w-5 mr-2" />
+        Budget
+      </h2>
+
+      <div className="space-y-1 text-sm text-[#7D966D] dark:text-[#CDE7C0] mb-3">
+        <p className="flex justify-between"><span>Estimated list cost</span><span className="font-semibold">{formatPrice(estimate.total, currency)}</span></p>
+        <p className="flex justify-between"><span>Spent this week</span><span>{formatPrice(spentThisWeek, currency)}</span></p>
+        {budget && <p className="flex justify-between"><span>Weekly budget</span><span>{formatPrice(budget, currency)}</span></p>}
+      </div>
+
+      {budget && status ? (
+        <div className="mb-3">
+          <div className="h-2 rounded-full bg-white/80 dark:bg-black/20 overflow-hidden">
+            <div className={`h-full ${STATUS_COLORS[status]}`} style={{ width: `${Math.min(100, (projected / budget) * 100)}%` }} />
+          </div>
+          <p className={`text-xs mt-1 ${status === 'over' ? 'text-[#F96850] font-semibold' : 'text-[#AABC91] dark:text-[#C1D3AF]'}`}>
+            {status === 'over'
+              ? `${formatPrice(projected - budget, currency)} over budget with this list`
+              : `${formatPrice(budget - projected, currency)} left after this list`}
+          </p>
+        </div>
+      ) : (
+        <form onSubmit={handleSaveBudget} className="flex gap-2 mb-3">
+          <input type="number" min="0" step="any" value={budgetInput} onChange={(e) => setBudgetInput(e.target.value)} placeholder="Weekly budget" className={`${inputClassName} flex-grow`} aria-label="Weekly budget" />
+          <button type="submit" className="px-3 py-2 rounded-lg text-sm font-semibold bg-[#F96850] text-white hover:bg-[#F96850]/90 transition-colors">Set</button>
+        </form>
+      )}
+
+      {estimate.unpricedItems.length > 0 && (
+        <p className="text-xs text-[#AABC91] dark:text-[#C1D3AF] mb-3" title={estimate.unpricedItems.join(', ')}>
+          {estimate.unpricedItems.length} of {items.length} items have no price yet and are not included.
+        </p>
+      )}
+
+      <form onSubmit={handleAddReceipt} className="grid grid-cols-2 gap-2 mb-4">
+        <input type="number" min="0" step="0.01" value={receiptTotal} onChange={(e) => setReceiptTotal(e.target.value)} placeholder="Receipt total" className={inputClassName} aria-label="Receipt total" />
+        <input type="text" list="budget-preferred-stores" value={store} onChange={(e) => setStore(e.target.value)} placeholder="Store" className={inputClassName} aria-label="Store" />
+        <datalist id="budget-preferred-stores">
+          {preferredStores.map(preferredStore => <option key={preferredStore} value={preferredStore} />)}
+        </datalist>
+        <button type="submit" className="col-span-2 px-4 py-2 rounded-lg text-sm font-semibold bg-[#F96850] text-white hover:bg-[#F96850]/90 transition-colors">Add receipt</button>
+      </form>
+
+      {entries.length > 0 && (
+        <ul className="space-y-2">
+          {entries.slice(0, RECENT_ENTRIES).map(entry => (
+            <li key={entry._id} className="flex justify-between items-center text-sm text-[#7D966D] dark:text-[#CDE7C0]">
+              <span>
+                {new Date(entry.spentAt).toLocaleDateString()}{entry.store && ` · ${entry.store}`}
+                {entry.estimatedCost !== undefined && (
+                  <span className="text-xs text-[#AABC91] dark:text-[#C1D3AF]"> (est. {formatPrice(entry.estimatedCost, currency)})</span>
+                )}
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="font-semibold">{formatPrice(entry.amount, currency)}</span>
+                <button onClick={() => handleDeleteEntry(entry._id)} className="p-1 rounded-full text-[#F96850] dark:text-[#F16B59] hover:bg-[#F96850]/30 transition-colors" title="Remove">
+                  <Trash2 className="h-3 w-3" />
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
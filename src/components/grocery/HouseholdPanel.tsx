@@ -0,0 +1,167 @@
+/**
+ * Household Panel
+ *
+ * Shows the user's household and lets them create one, invite people by
+ * email, accept invites and leave. Household members share one active
+ * shopping list.
+ */
+
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { Users, UserPlus, LogOut } from 'lucide-react';
+
+interface HouseholdMember {
+  _id: string;
+  name: string;
+  email: string;
+}
+
+interface HouseholdData {
+  _id: string;
+  name: string;
+  ownerId: string;
+  members: HouseholdMember[];
+  invites: { email: string }[];
+}
+
+interface PendingInvite {
+  householdId: string;
+  name: string;
+}
+
+interface HouseholdPanelProps {
+  onHouseholdChange: () => void; // Called when the active shopping list changes owner
+}
+
+export function HouseholdPanel({ onHouseholdChange }: HouseholdPanelProps) {
+  const [household, setHousehold] = useState<HouseholdData | null>(null);
+  const [invites, setInvites] = useState<PendingInvite[]>([]);
+  const [householdName, setHouseholdName] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+
+  const fetchHousehold = useCallback(async () => {
+    try {
+      const response = await fetch('/api/households');
+      if (response.ok) {
+        const data = await response.json();
+        setHousehold(data.household);
+        setInvites(data.invites || []);
+      }
+    } catch (err) {
+      console.error('Error fetching household:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchHousehold();
+  }, [fetchHousehold]);
+
+  const request = (url: string, method: string, body?: object) =>
+    fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body ? JSON.stringify(body) : undefined,
+    }).then(async (response) => {
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || 'Something went wrong.');
+      return data;
+    });
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const promise = request('/api/households', 'POST', { name: householdName }).then(async () => {
+      setHouseholdName('');
+      await fetchHousehold();
+      onHouseholdChange();
+      return 'Household created! Your shopping list is now shared.';
+    });
+    toast.promise(promise, { loading: 'Creating...', success: (message) => message, error: (err) => err.message });
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!household || !inviteEmail.trim()) return;
+    const promise = request(`/api/households/${household._id}/invites`, 'POST', { email: inviteEmail }).then(async () => {
+      setInviteEmail('');
+      await fetchHousehold();
+      return 'Invite sent!';
+    });
+    toast.promise(promise, { loading: 'Inviting...', success: (message) => message, error: (err) => err.message });
+  };
+
+  const handleAccept = async (householdId: string) => {
+    const promise = request(`/api/households/${householdId}/members`, 'POST').then(async () => {
+      await fetchHousehold();
+      onHouseholdChange();
+      return 'You joined the household!';
+    });
+    toast.promise(promise, { loading: 'Joining...', success: (message) => message, error: (err) => err.message });
+  };
+
+  const handleLeave = async () => {
+    if (!household || !confirm(`Leave "${household.name}"? You will go back to your own shopping list.`)) return;
+    const promise = request(`/api/households/${household._id}/members`, 'DELETE').then(async () => {
+      await fetchHousehold();
+      onHouseholdChange();
+      return 'You left the household.';
+    });
+    toast.promise(promise, { loading: 'Leaving...', success: (message) => message, error: (err) => err.message });
+  };
+
+  const inputClassName = 'flex-grow min-w-0 p-2 border border-[#AABC91] dark:border-[#74766D] bg-white/80 dark:bg-black/20 rounded-lg text-sm text-[#7D966D] dark:text-white focus:ring-[#F96850] focus:border-[#F96850] placeholder:text-[#AABC91] dark:placeholder:text-[#C1D3AF]/70';
+
+  return (
+    <div className="bg-[#EFF4E6] dark:bg-[#373739] p-6 rounded-2xl shadow-lg border border-gray-200 dark:border-gray-700 print:hidden">
+      <h2 className="flex items-center text-xl font-bold mb-4 text-[#7D966D] dark:text-[#CDE7C0]">
+        <Users className="h-5 w-5 mr-2" />
+        {household ? household.name : 'Household'}
+      </h2>
+
+      {household ? (
+        <>
+          <p className="text-sm text-[#AABC91] dark:text-[#C1D3AF] mb-3">Everyone here shares the shopping list. Check-offs show up for all members.</p>
+          <ul className="space-y-1 mb-4">
+            {household.members.map(member => (
+              <li key={member._id} className="text-sm text-[#7D966D] dark:text-[#CDE7C0]">
+                {member.name}{member._id === household.ownerId && <span className="text-xs text-[#AABC91]"> (owner)</span>}
+              </li>
+            ))}
+            {household.invites.map(invite => (
+              <li key={invite.email} className="text-sm text-[#AABC91] dark:text-[#C1D3AF] italic">{invite.email} (invited)</li>
+            ))}
+          </ul>
+          <form onSubmit={handleInvite} className="flex gap-2 mb-4">
+            <input type="email" value={inviteEmail} onChange={(e) => setInviteEmail(e.target.value)} placeholder="Email to invite" className={inputClassName} aria-label="Email to invite" />
+            <button type="submit" className="p-2 rounded-lg bg-[#F96850] text-white hover:bg-[#F96850]/90 transition-colors" title="Invite">
+              <UserPlus className="h-4 w-4" />
+            </button>
+          </form>
+          <button onClick={handleLeave} className="inline-flex items-center text-sm text-[#F96850] dark:text-[#F16B59] hover:underline">
+            <LogOut className="h-4 w-4 mr-1" />
+            Leave household
+          </button>
+        </>
+      ) : (
+        <>
+          {invites.length > 0 && (
+            <ul className="space-y-2 mb-4">
+              {invites.map(invite => (
+                <li key={invite.householdId} className="flex justify-between items-center p-3 rounded-xl bg-white/80 dark:bg-black/20">
+                  <span className="text-sm text-[#7D966D] dark:text-[#CDE7C0]">Invite to <span className="font-semibold">{invite.name}</span></span>
+                  <button onClick={() => handleAccept(invite.householdId)} className="px-3 py-1 rounded-lg text-sm bg-[#F96850] text-white hover:bg-[#F96850]/90 transition-colors">Join</button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <p className="text-sm text-[#AABC91] dark:text-[#C1D3AF] mb-3">Create a household to share your shopping list with the people you live with.</p>
+          <form onSubmit={handleCreate} className="flex gap-2">
+            <input type="text" value={householdName} onChange={(e) => setHouseholdName(e.target.value)} placeholder="Our flat" className={inputClassName} aria-label="Household name" />
+            <button type="submit" className="px-4 py-2 rounded-lg text-sm font-semibold bg-[#F96850] text-white hover:bg-[#F96850]/90 transition-colors">Create</button>
+          </form>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+/**
+ * Staples Panel
+ *
+ * Lets the user keep a list of items they buy regularly (milk, eggs, bread,
+ * coffee, ...). Each staple is added to the active shopping list once per
+ * week, every few weeks or once a month.
+ */
+
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { Repeat, Trash2 } from 'lucide-react';
+import {
+  formatStapleFrequency,
+  getNextStapleDate,
+  type StapleFrequency,
+  type StapleSchedule,
+  type WeekStartsOn,
+} from '@/utils/groceryStaples';
+
+interface Staple extends StapleSchedule {
+  _id: string;
+}
+
+interface StaplesPanelProps {
+  onStaplesChange: () => void; // Called when a new staple may have been added to the list
+}
+
+export function StaplesPanel({ onStaplesChange }: StaplesPanelProps) {
+  const [staples, setStaples] = useState<Staple[]>([]);
+  const [weekStartsOn, setWeekStartsOn] = useState<WeekStartsOn>(1);
+  const [name, setName] = useState('');
+  const [quantity, setQuantity] = useState('1');
+  const [unit, setUnit] = useState('');
+  const [frequency, setFrequency] = useState<StapleFrequency>('weekly');
+  const [intervalWeeks, setIntervalWeeks] = useState('2');
+
+  const fetchStaples = useCallback(async () => {
+    try {
+      const response = await fetch('/api/grocery-staples');
+      if (response.ok) {
+        const data = await response.json();
+        setStaples(data.staples || []);
+        setWeekStartsOn(data.weekStartsOn ?? 1);
+      }
+    } catch (err) {
+      console.error('Error fetching staples:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStaples();
+  }, [fetchStaples]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseFloat(quantity);
+    if (!name.trim() || !(amount > 0)) {
+      toast.error('Please enter a name and a quantity.');
+      return;
+    }
+
+    const promise = fetch('/api/grocery-staples', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        name,
+        quantity: amount,
+        unit,
+        frequency,
+        ...(frequency === 'every-n-weeks' && { intervalWeeks: parseInt(intervalWeeks, 10) }),
+      }),
+    }).then(async (response) => {
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || 'Failed to add staple.');
+      setName('');
+      setQuantity('1');
+      setUnit('');
+      await fetchStaples();
+      // A new staple is due right away, reloading the list adds it
+      onStaplesChange();
+      return `${data.name} will be added ${formatStapleFrequency(data).toLowerCase()}.`;
+    });
+    toast.promise(promise, { loading: 'Adding...', success: (message) => message, error: (err) => err.message });
+  };
+
+  const handleDelete = async (staple: Staple) => {
+    const response = await fetch(`/api/grocery-staples/${staple._id}`, { method: 'DELETE' });
+    if (response.ok) {
+      setStaples(prev => prev.filter(entry => entry._id !== staple._id));
+    } else {
+      toast.error('Failed to remove staple.');
+    }
+  };
+
+  const inputClassName = 'min-w-0 p-2 border border-[#AABC91] dark:border-[#74766D] bg-white/80 dark:bg-black/20 rounded-lg text-sm text-[#7D966D] dark:text-white focus:ring-[#F96850] focus:border-[#F96850] placeholder:text-[#AABC91] dark:placeholder:text-[#C1D3AF]/70';
+
+  return (
+    <div className="bg-[#EFF4E6] dark:bg-[#373739] p-6 rounded-2xl shadow-lg border border-gray-200 dark:border-gray-700 print:hidden">
+      <h2 className="flex items-center text-xl font-bold mb-4 text-[#7D966D] dark:text-[#CDE7C0]">
+        <Repeat className="h-5 w-5 mr-2" />
+        Staples
+      </h2>
+
+      {staples.length > 0 ? (
+        <ul className="space-y-2 mb-4">
+          {staples.map(staple => (
+            <li key={staple._id} className="flex justify-between items-center text-sm text-[#7D966D] dark:text-[#CDE7C0]">
+              <span>
+                <span className="font-semibold">{staple.name}</span> - {staple.quantity} {staple.unit}
+                <span className="block text-xs text-[#AABC91] dark:text-[#C1D3AF]">
+                  {formatStapleFrequency(staple)} · next {getNextStapleDate(staple, new Date(), weekStartsOn).toLocaleDateString()}
+                </span>
+              </span>
+              <button onClick={() => handleDelete(staple)} className="p-1 rounded-full text-[#F96850] dark:text-[#F16B59] hover:bg-[#F96850]/30 transition-colors" title="Remove">
+                <Trash2 className="h-3 w-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-[#AABC91] dark:text-[#C1D3AF] mb-4">
+          Add items you buy every week, like milk or bread, and they will be put on your list automatically.
+        </p>
+      )}
+
+      <form onSubmit={handleAdd} className="grid grid-cols-3 gap-2">
+        <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="Item" className={`${inputClassName} col-span-3`} aria-label="Staple name" />
+        <input type="number" min="0" step="any" value={quantity} onChange={(e) => setQuantity(e.target.value)} className={inputClassName} aria-label="Quantity" />
+        <input type="text" value={unit} onChange={(e) => setUnit(e.target.value)} placeholder="Unit" className={inputClassName} aria-label="Unit" />
+        <select value={frequency} onChange={(e) => setFrequency(e.target.value as StapleFrequency)} className={inputClassName} aria-label="How often">
+          <option value="weekly">Weekly</option>
+          <option value="every-n-weeks">Every n weeks</option>
+          <option value="monthly">Monthly</option>
+        </select>
+        {frequency === 'every-n-weeks' && (
+          <label className="col-span-3 flex items-center gap-2 text-sm text-[#7D966D] dark:text-[#CDE7C0]">
+            Every
+            <input type="number" min="1" max="52" value={intervalWeeks} onChange={(e) => setIntervalWeeks(e.target.value)} className={`${inputClassName} w-20`} aria-label="Weeks between" />
+            weeks
+          </label>
+        )}
+        <button type="submit" className="col-span-3 px-4 py-2 rounded-lg text-sm font-semibold bg-[#F96850] text-white hover:bg-[#F96850]/90 transition-colors">Add staple</button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+/**
+ * Store Section Order Editor
+ *
+ * Lets the user arrange grocery list sections in the order they walk
+ * through their store. The order is stored in the shopping preferences.
+ */
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { ChevronUp, ChevronDown, RotateCcw } from 'lucide-react';
+import { DEFAULT_SECTION_ORDER, type StoreSection } from '@/utils/storeSections';
+
+interface StoreSectionOrderEditorProps {
+  order: StoreSection[];
+  onSave: (order: StoreSection[]) => Promise<void>;
+  onCancel?: () => void;
+}
+
+export function StoreSectionOrderEditor({ order, onSave, onCancel }: StoreSectionOrderEditorProps) {
+  const [draft, setDraft] = useState<StoreSection[]>(order);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(order);
+  }, [order]);
+
+  const moveSection = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= draft.length) return;
+
+    const next = [...draft];
+    [next[index], next[target]] = [next[target], next[index]];
+    setDraft(next);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(draft);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const buttonClassName = 'p-1 rounded-full text-[#AABC91] dark:text-[#C1D3AF] hover:bg-[#AABC91]/30 dark:hover:bg-[#C1D3AF]/30 transition-colors disabled:opacity-30 disabled:cursor-not-allowed';
+
+  return (
+    <div className="p-4 bg-white/80 dark:bg-black/20 rounded-xl">
+      <p className="text-sm text-[#AABC91] dark:text-[#C1D3AF] mb-3">
+        Arrange the sections in the order you walk through your store.
+      </p>
+
+      <ol className="space-y-2">
+        {draft.map((section, index) => (
+          <li key={section} className="flex items-center justify-between px-3 py-2 rounded-lg bg-[#EFF4E6] dark:bg-[#373739]">
+            <span className="text-[#7D966D] dark:text-[#CDE7C0] font-medium">
+              {index + 1}. {section}
+            </span>
+            <div className="flex items-center space-x-1">
+              <button
+                type="button"
+                onClick={() => moveSection(index, -1)}
+                disabled={index === 0}
+                className={buttonClassName}
+                title={`Move ${section} up`}
+              >
+                <ChevronUp className="h-4 w-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => moveSection(index, 1)}
+                disabled={index === draft.length - 1}
+                className={buttonClassName}
+                title={`Move ${section} down`}
+              >
+                <ChevronDown className="h-4 w-4" />
+              </button>
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      <div className="flex items-center justify-between mt-4">
+        <button
+          type="button"
+          onClick={() => setDraft([...DEFAULT_SECTION_ORDER])}
+          className="inline-flex items-center text-sm text-[#AABC91] dark:text-[#C1D3AF] hover:text-[#7D966D] dark:hover:text-white transition-colors"
+        >
+          <RotateCcw className="h-4 w-4 mr-1" />
+          Reset
+        </button>
+        <div className="flex items-center space-x-2">
+          {onCancel && (
+            <button
+              type="button"
+              onClick={onCancel}
+              disabled={isSaving}
+              className="px-4 py-2 rounded-lg text-[#7D966D] dark:text-[#CDE7C0] hover:bg-[#AABC91]/30 transition-colors"
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={isSaving}
+            className="px-4 py-2 bg-[#F96850] text-white rounded-lg font-semibold hover:bg-[#F96850]/90 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            {isSaving ? 'Saving...' : 'Save Order'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+/**
+ * Substitution Picker
+ *
+ * Shown under a shopping list item the store does not have. Lists the
+ * substitutions that suit the user's diet and replaces the item with the
+ * chosen one, optionally noting the change on the upcoming meals that use it.
+ */
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { describeSubstitution } from '@/utils/ingredientSubstitutions';
+
+interface Suggestion {
+  substitutionId: string;
+  items: Array<{ name: string; quantity: number; unit: string }>;
+  note?: string;
+  approximate: boolean;
+}
+
+interface SubstitutionPickerProps {
+  item: { name: string; quantity: number; unit: string };
+  onApplied: (groceryList: { ingredients: Array<{ name: string; quantity: number; unit: string }>; version?: number }) => void;
+  onClose: () => void;
+}
+
+export function SubstitutionPicker({ item, onApplied, onClose }: SubstitutionPickerProps) {
+  const [suggestions, setSuggestions] = useState<Suggestion[] | null>(null);
+  const [updateMeals, setUpdateMeals] = useState(true);
+
+  useEffect(() => {
+    const fetchSuggestions = async () => {
+      try {
+        const params = new URLSearchParams({ name: item.name, quantity: String(item.quantity), unit: item.unit });
+        const response = await fetch(`/api/grocery-list/substitutions?${params}`);
+        const data = await response.json();
+        setSuggestions(response.ok ? data.suggestions : []);
+      } catch (err) {
+        console.error('Error fetching substitutions:', err);
+        setSuggestions([]);
+      }
+    };
+    fetchSuggestions();
+  }, [item.name, item.quantity, item.unit]);
+
+  const handleApply = (suggestion: Suggestion) => {
+    const promise = fetch('/api/grocery-list/substitutions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: item.name, unit: item.unit, substitutionId: suggestion.substitutionId, updateMeals }),
+    }).then(async (response) => {
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || 'Failed to apply substitution.');
+      onApplied(data.groceryList);
+      return data.updatedMeals > 0
+        ? `Replaced ${item.name} and noted it on ${data.updatedMeals} meals.`
+        : `Replaced ${item.name}.`;
+    });
+    toast.promise(promise, { loading: 'Replacing...', success: (message) => message, error: (err) => err.message });
+  };
+
+  return (
+    <div onClick={(e) => e.stopPropagation()} className="mt-2 mb-1 p-4 rounded-xl bg-white/80 dark:bg-black/20 border border-[#AABC91] dark:border-[#74766D] cursor-default print:hidden">
+      <div className="flex justify-between items-center mb-2">
+        <p className="text-sm font-semibold text-[#7D966D] dark:text-[#CDE7C0]">Instead of {item.name}</p>
+        <button onClick={onClose} className="text-sm text-[#AABC91] dark:text-[#C1D3AF] hover:text-[#7D966D]">Close</button>
+      </div>
+
+      {suggestions === null && <p className="text-sm text-[#AABC91] dark:text-[#C1D3AF]">Looking for substitutions...</p>}
+      {suggestions?.length === 0 && (
+        <p className="text-sm text-[#AABC91] dark:text-[#C1D3AF]">No substitutions that suit your diet are known for this item.</p>
+      )}
+
+      {suggestions && suggestions.length > 0 && (
+        <>
+          <ul className="space-y-2 mb-3">
+            {suggestions.map(suggestion => (
+              <li key={suggestion.substitutionId} className="flex justify-between items-center gap-3">
+                <span className="text-sm text-[#7D966D] dark:text-[#CDE7C0]">
+                  {suggestion.items.map(replacement => `${replacement.quantity} ${replacement.unit} ${replacement.name}`.replace(/\s+/g, ' ')).join(' + ')}
+                  {suggestion.approximate && <span className="text-xs text-[#F96850]"> (approximate amount)</span>}
+                  {suggestion.note && <span className="block text-xs text-[#AABC91] dark:text-[#C1D3AF]">{suggestion.note}</span>}
+                </span>
+                <button onClick={() => handleApply(suggestion)} className="px-3 py-1 rounded-lg text-sm font-semibold bg-[#F96850] text-white hover:bg-[#F96850]/90 transition-colors" title={describeSubstitution(item.name, suggestion.items)}>
+                  Use
+                </button>
+              </li>
+            ))}
+          </ul>
+          <label className="flex items-center gap-2 text-xs text-[#7D966D] dark:text-[#CDE7C0]">
+            <input type="checkbox" checked={updateMeals} onChange={(e) => setUpdateMeals(e.target.checked)} className="accent-[#F96850]" />
+            Add a note to the upcoming meals that use {item.name}
+          </label>
+        </>
+      )}
+    </div>
+  );
+}
@@ -18,7 +18,8 @@ import {
   Users,
   Shield,
   Upload,
-  ShoppingCart
+  ShoppingCart,
+  Package
 } from 'lucide-react';
 import { slugify } from '@/lib/utils';
 
@@ -101,6 +102,12 @@ export default function UserProfileDropdown({ className = '', isMobile = false }
       href: '/user/shopping-list',
       description: 'View your shopping list'
     },
+    {
+      icon: Package,
+      label: 'Pantry',
+      href: '/user/pantry',
+      description: 'What you already have at home'
+    },
     {
       icon: Star,
       label: 'Saved Plans',
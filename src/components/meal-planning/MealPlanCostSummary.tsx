@@ -0,0 +1,122 @@
+/**
+ * Meal Plan Cost Summary
+ *
+ * Shows the estimated grocery cost of the plan against the weekly budget
+ * (scaled to the plan's number of days) and flags the most expensive recipes, so the user knows what to swap
+ * when the plan is over budget.
+ */
+
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Wallet, AlertTriangle } from 'lucide-react';
+import { formatPrice, getBudgetStatus } from '@/utils/groceryCostEstimator';
+import type { IMealPlan } from '@/types/meal-planning';
+import { getAllMeals } from '@/utils/mealTypes';
+
+interface RecipeCost {
+  recipeId: string;
+  title: string;
+  mealCount: number;
+  cost: number;
+}
+
+interface MealPlanCost {
+  total: number;
+  currency: string;
+  recipes: RecipeCost[];
+  unpricedItems: string[];
+  days: number;
+  budgetPerWeek: number | null;
+  budget: number | null; // The weekly budget scaled to `days`
+}
+
+interface MealPlanCostSummaryProps {
+  mealPlan: IMealPlan;
+}
+
+// How many of the most expensive recipes to flag
+const FLAGGED_RECIPES = 3;
+
+export function MealPlanCostSummary({ mealPlan }: MealPlanCostSummaryProps) {
+  const [cost, setCost] = useState<MealPlanCost | null>(null);
+
+  // Only re-estimate when the planned recipes or servings change
+  const planSignature = useMemo(
+    () => mealPlan.days
+      .flatMap(day => getAllMeals(day))
+      .map(meal => `${meal.recipeId}:${meal.servings}`)
+      .join(','),
+    [mealPlan.days]
+  );
+
+  useEffect(() => {
+    if (!mealPlan._id || !planSignature) {
+      setCost(null);
+      return;
+    }
+
+    const fetchCost = async () => {
+      try {
+        const response = await fetch(`/api/meal-plans/${mealPlan._id}/cost`);
+        const result = await response.json();
+        if (response.ok && result.success) {
+          setCost(result.data);
+        }
+      } catch (error) {
+        console.error('Error fetching meal plan cost:', error);
+      }
+    };
+    fetchCost();
+  }, [mealPlan._id, planSignature]);
+
+  if (!cost || cost.recipes.length === 0) return null;
+
+  const status = getBudgetStatus(cost.total, cost.budget ?? undefined);
+  const budgetLabel = cost.days === 7 ? 'budget' : `budget for ${cost.days} days`;
+  const flaggedRecipes = cost.recipes.filter(recipe => recipe.cost > 0).slice(0, FLAGGED_RECIPES);
+
+  return (
+    <div className="bg-white rounded-lg border shadow-sm p-4 sm:p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-4">
+        <h2 className="flex items-center text-lg font-bold text-[#4a5c4a]">
+          <Wallet className="h-5 w-5 mr-2 text-[#a8b89c]" />
+          Estimated grocery cost: {formatPrice(cost.total, cost.currency)}
+        </h2>
+        {cost.budget ? (
+          <span className={`text-sm font-semibold ${status === 'over' ? 'text-red-600' : status === 'near' ? 'text-orange-500' : 'text-[#6b7c6b]'}`}>
+            {status === 'over'
+              ? `${formatPrice(cost.total - cost.budget, cost.currency)} over your ${formatPrice(cost.budget, cost.currency)} ${budgetLabel}`
+              : `${formatPrice(cost.budget - cost.total, cost.currency)} left of your ${formatPrice(cost.budget, cost.currency)} ${budgetLabel}`}
+          </span>
+        ) : (
+          <span className="text-sm text-[#6b7c6b]">Set a weekly budget in your preferences to compare.</span>
+        )}
+      </div>
+
+      {flaggedRecipes.length > 0 && (
+        <div>
+          <p className="text-sm font-semibold text-[#4a5c4a] mb-2">Most expensive recipes in this plan</p>
+          <ul className="space-y-1">
+            {flaggedRecipes.map(recipe => (
+              <li key={recipe.recipeId} className="flex justify-between items-center text-sm text-[#4a5c4a] bg-[#f8faf8] rounded-lg px-3 py-2">
+                <span className="flex items-center">
+                  {status === 'over' && <AlertTriangle className="h-4 w-4 mr-2 text-orange-500" />}
+                  {recipe.title}
+                  {recipe.mealCount > 1 && <span className="text-xs text-[#6b7c6b] ml-1">(×{recipe.mealCount})</span>}
+                </span>
+                <span className="font-semibold">{formatPrice(recipe.cost, cost.currency)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {cost.unpricedItems.length > 0 && (
+        <p className="text-xs text-[#6b7c6b] mt-3" title={cost.unpricedItems.join(', ')}>
+          {cost.unpricedItems.length} ingredients have no price yet and are not included.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+/**
+ * Meal Plan Nutrition Summary
+ *
+ * Charts the calories one person eats each day against the daily target,
+ * compares the daily average of every nutrient with its target, shows what
+ * each household member eats, and lists the recipes without nutrition data,
+ * which the totals leave out.
+ */
+
+'use client';
+
+import React from 'react';
+import { format } from 'date-fns';
+import { Activity, AlertTriangle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  formatNutrient,
+  getTargetStatus,
+  NUTRIENT_INFO,
+  NUTRIENT_KEYS,
+  type MealPlanNutrition,
+  type TargetStatus,
+} from '@/utils/mealPlanNutrition';
+
+interface MealPlanNutritionSummaryProps {
+  nutrition: MealPlanNutrition;
+}
+
+const BAR_CLASSES: Record<TargetStatus | 'none', string> = {
+  under: 'bg-orange-300',
+  within: 'bg-[#a8b89c]',
+  over: 'bg-red-400',
+  none: 'bg-[#b8c8b8]',
+};
+
+const STATUS_TEXT_CLASSES: Record<TargetStatus, string> = {
+  under: 'text-orange-600',
+  within: 'text-green-700',
+  over: 'text-red-600',
+};
+
+export function MealPlanNutritionSummary({ nutrition }: MealPlanNutritionSummaryProps) {
+  if (nutrition.mealCount === 0) return null;
+
+  const calorieTarget = nutrition.targets.calories;
+  const chartMax = Math.max(calorieTarget || 0, ...nutrition.days.map(day => day.perPerson.calories), 1);
+  const hasTargets = NUTRIENT_KEYS.some(key => nutrition.targets[key]);
+
+  return (
+    <div className="bg-white rounded-lg border shadow-sm p-4 sm:p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-4">
+        <h2 className="flex items-center text-lg font-bold text-[#4a5c4a]">
+          <Activity className="h-5 w-5 mr-2 text-[#a8b89c]" />
+          Nutrition: {formatNutrient('calories', nutrition.dailyAverage.calories)} a day per person on average
+        </h2>
+        {!hasTargets && (
+          <span className="text-sm text-[#6b7c6b]">Set daily nutrition targets in your preferences to compare.</span>
+        )}
+      </div>
+
+      {/* Calories per day against the target */}
+      <div className="relative flex items-end gap-2 h-40 border-b border-[#d1ddd1] mb-1">
+        {calorieTarget && (
+          <div
+            className="absolute left-0 right-0 border-t-2 border-dashed border-[#4a5c4a]/40 pointer-events-none"
+            style={{ bottom: `${(calorieTarget / chartMax) * 100}%` }}
+            title={`Target: ${formatNutrient('calories', calorieTarget)}`}
+          />
+        )}
+        {nutrition.days.map(day => {
+          const status = day.targetStatus.calories || 'none';
+          return (
+            <div key={day.date} className="flex-1 flex flex-col items-center justify-end h-full">
+              {day.gapCount > 0 && (
+                <AlertTriangle className="h-3 w-3 text-orange-500 mb-1" aria-label={`${day.gapCount} meals without nutrition data`} />
+              )}
+              <div
+                className={cn('w-full rounded-t', BAR_CLASSES[status])}
+                style={{ height: `${(day.perPerson.calories / chartMax) * 100}%` }}
+                title={`${formatNutrient('calories', day.perPerson.calories)} per person${day.gapCount > 0 ? ` (${day.gapCount} meals without nutrition data)` : ''}`}
+              />
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex gap-2 mb-4">
+        {nutrition.days.map(day => (
+          <span key={day.date} className="flex-1 text-center text-xs text-[#6b7c6b]">
+            {format(new Date(`${day.date}T00:00:00`), 'EEE')}
+          </span>
+        ))}
+      </div>
+
+      {/* Daily average of each nutrient */}
+      <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-7 gap-2">
+        {NUTRIENT_KEYS.map(key => {
+          const target = nutrition.targets[key];
+          const status = getTargetStatus(nutrition.dailyAverage[key], target);
+          return (
+            <div key={key} className="bg-[#f8faf8] rounded-lg px-3 py-2">
+              <p className="text-xs text-[#6b7c6b]">{NUTRIENT_INFO[key].label}</p>
+              <p className={cn('text-sm font-semibold', status ? STATUS_TEXT_CLASSES[status] : 'text-[#4a5c4a]')}>
+                {formatNutrient(key, nutrition.dailyAverage[key])}
+              </p>
+              {target && <p className="text-xs text-[#6b7c6b]">of {formatNutrient(key, target)}</p>}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* What each household member eats of their meals, by portion */}
+      {nutrition.members.length > 0 && (
+        <div className="mt-4">
+          <h3 className="text-sm font-semibold text-[#4a5c4a] mb-2">Per person, daily average</h3>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-[#6b7c6b]">
+                  <th className="font-medium py-1 pr-3">Name</th>
+                  {NUTRIENT_KEYS.map(key => (
+                    <th key={key} className="font-medium py-1 pr-3">{NUTRIENT_INFO[key].label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {nutrition.members.map(member => (
+                  <tr key={member.memberId} className="border-t border-[#d1ddd1] text-[#4a5c4a]">
+                    <td className="py-1 pr-3 font-medium whitespace-nowrap">
+                      {member.name}
+                      {member.gapCount > 0 && (
+                        <span title={`${member.gapCount} of ${member.mealCount} meals have no nutrition data`}>
+                          <AlertTriangle className="inline h-3 w-3 ml-1 text-orange-500" />
+                        </span>
+                      )}
+                    </td>
+                    {NUTRIENT_KEYS.map(key => (
+                      <td key={key} className="py-1 pr-3 whitespace-nowrap">{formatNutrient(key, member.dailyAverage[key])}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {nutrition.gaps.length > 0 && (
+        <div className="mt-4 text-sm bg-orange-50 border border-orange-200 rounded-lg p-3">
+          <p className="flex items-center font-semibold text-orange-700 mb-1">
+            <AlertTriangle className="h-4 w-4 mr-2" />
+            Not included: {nutrition.gaps.length} {nutrition.gaps.length === 1 ? 'recipe has' : 'recipes have'} no nutrition data
+          </p>
+          <ul className="text-[#4a5c4a] space-y-0.5">
+            {nutrition.gaps.map(gap => (
+              <li key={gap.recipeId || gap.recipeName}>
+                {gap.recipeName}
+                {gap.mealCount > 1 && <span className="text-xs text-[#6b7c6b] ml-1">(×{gap.mealCount})</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,7 @@
  * DayColumn Component
  * 
  * Displays a single day's meals with drag & drop functionality
- * Includes breakfast, lunch, dinner, and snacks sections
+ * Includes a section per meal type the user has configured
  */
 
 'use client';
@@ -11,7 +11,22 @@ import React from 'react';
 import { Plus } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
-import type { DayMeals, MealSlot } from '@/types/meal-planning';
+import type { DayMeals, MealSlot, MealType } from '@/types/meal-planning';
+import {
+  DEFAULT_MEAL_TYPES,
+  getMealsOfType,
+  getMealTypesForDays,
+  isBuiltInMealType,
+  setMealsOfType,
+  type BuiltInMealType,
+  type MealTypeDefinition,
+} from '@/utils/mealTypes';
+import {
+  describeAttendeeConflict,
+  getMealAttendees,
+  type AttendeeConflict,
+  type HouseholdMember,
+} from '@/utils/household';
 import { MealSlotComponent } from './MealSlot';
 import { useDrop } from 'react-dnd';
 
@@ -24,7 +39,7 @@ interface DayColumnProps {
   date: Date;
   meals?: DayMeals;
   onMealsChange?: (meals: DayMeals) => void;
-  onAddRecipe?: (dayIndex: number, mealType: 'breakfast' | 'lunch' | 'dinner' | 'snacks') => void;
+  onAddRecipe?: (dayIndex: number, mealType: MealType) => void;
   onEditMeal?: (meal: MealSlot, mealIndex: number, mealType: string) => void;
   onCrossDayMealMove?: (
     draggedMeal: any,
@@ -36,13 +51,17 @@ interface DayColumnProps {
   ) => void;
   onShowRecipe?: (meal: MealSlot, dayIndex: number, mealType: string) => void;
   onCopyRecipe?: (meal: MealSlot) => void;
+  onMealCooked?: (meal: MealSlot) => void;
+  onPlanLeftovers?: (meal: MealSlot, mealIndex: number, mealType: BuiltInMealType) => void;
+  onEditAttendees?: (meal: MealSlot, mealIndex: number, mealType: string) => void;
+  mealTypes?: MealTypeDefinition[]; // The user's meal types, in order
+  householdMembers?: HouseholdMember[];
+  recipeConflicts?: Map<string, AttendeeConflict[]>; // Members each recipe does not suit, by recipe id
   copiedRecipe?: MealSlot | null;
   isToday?: boolean;
   className?: string;
 }
 
-type MealType = 'breakfast' | 'lunch' | 'dinner' | 'snacks';
-
 // ========================================
 // Main Component
 // ========================================
@@ -57,6 +76,12 @@ export function DayColumn({
   onCrossDayMealMove,
   onShowRecipe,
   onCopyRecipe,
+  onMealCooked,
+  onPlanLeftovers,
+  onEditAttendees,
+  mealTypes: configuredMealTypes = DEFAULT_MEAL_TYPES,
+  householdMembers = [],
+  recipeConflicts,
   copiedRecipe,
   isToday = false,
   className
@@ -83,10 +108,11 @@ export function DayColumn({
   const handleRemoveMeal = (mealType: MealType, mealIndex: number) => {
     if (!onMealsChange) return;
 
-    const updatedMeals = {
-      ...dayMeals,
-      [mealType]: dayMeals[mealType].filter((_, index) => index !== mealIndex)
-    };
+    const updatedMeals = setMealsOfType(
+      dayMeals,
+      mealType,
+      getMealsOfType(dayMeals, mealType).filter((_, index) => index !== mealIndex)
+    );
 
     onMealsChange(updatedMeals);
   };
@@ -95,16 +121,26 @@ export function DayColumn({
   const handleMealUpdate = (mealType: MealType, mealIndex: number, updatedMeal: Partial<MealSlot>) => {
     if (!onMealsChange) return;
 
-    const updatedMeals = {
-      ...dayMeals,
-      [mealType]: dayMeals[mealType].map((meal, index) => 
+    const updatedMeals = setMealsOfType(
+      dayMeals,
+      mealType,
+      getMealsOfType(dayMeals, mealType).map((meal, index) => 
         index === mealIndex ? { ...meal, ...updatedMeal } : meal
       )
-    };
+    );
 
     onMealsChange(updatedMeals);
   };
 
+  // Warn about attendees the meal's recipe does not suit
+  const getConflictWarning = (meal: MealSlot): string | undefined => {
+    const conflicts = (meal.recipeId && recipeConflicts?.get(meal.recipeId)) || [];
+    const attendeeConflicts = conflicts.filter(conflict => meal.attendees?.includes(conflict.memberId));
+    return attendeeConflicts.length > 0
+      ? attendeeConflicts.map(conflict => describeAttendeeConflict(conflict, householdMembers)).join('\n')
+      : undefined;
+  };
+
   // Handle drag and drop meal movement
   const handleMealMove = (
     draggedMeal: MealSlot,
@@ -117,55 +153,22 @@ export function DayColumn({
 
     // Only handle moves within the same day for now
     if (sourceDayIndex === dayIndex) {
-      const updatedMeals = { ...dayMeals };
-      
       // Remove from source
-      updatedMeals[sourceMealType] = updatedMeals[sourceMealType].filter((_, index) => index !== sourceMealIndex);
+      let updatedMeals = setMealsOfType(
+        dayMeals,
+        sourceMealType,
+        getMealsOfType(dayMeals, sourceMealType).filter((_, index) => index !== sourceMealIndex)
+      );
       
       // Add to target
-      updatedMeals[targetMealType] = [...updatedMeals[targetMealType], draggedMeal];
+      updatedMeals = setMealsOfType(updatedMeals, targetMealType, [...getMealsOfType(updatedMeals, targetMealType), draggedMeal]);
       
       onMealsChange(updatedMeals);
     }
   };
 
-  // Meal type configurations
-  const mealTypes: { 
-    key: MealType; 
-    label: string; 
-    icon: string; 
-    color: string;
-    bgColor: string;
-  }[] = [
-    { 
-      key: 'breakfast', 
-      label: 'Breakfast', 
-      icon: '🌅', 
-      color: 'text-orange-600',
-      bgColor: 'bg-orange-50 hover:bg-orange-100 dark:bg-orange-900 dark:hover:bg-orange-800'
-    },
-    { 
-      key: 'lunch', 
-      label: 'Lunch', 
-      icon: '☀️', 
-      color: 'text-yellow-600',
-      bgColor: 'bg-yellow-50 hover:bg-yellow-100 dark:bg-yellow-900 dark:hover:bg-yellow-800'
-    },
-    { 
-      key: 'dinner', 
-      label: 'Dinner', 
-      icon: '🌙', 
-      color: 'text-blue-600',
-      bgColor: 'bg-blue-50 hover:bg-blue-100 dark:bg-blue-900 dark:hover:bg-blue-800'
-    },
-    { 
-      key: 'snacks', 
-      label: 'Snacks', 
-      icon: '🍎', 
-      color: 'text-green-600',
-      bgColor: 'bg-green-50 hover:bg-green-100 dark:bg-green-900 dark:hover:bg-green-800'
-    }
-  ];
+  // Meal types to show: the user's, plus any type this day still has meals of
+  const mealTypes = getMealTypesForDays(configuredMealTypes, [dayMeals]);
 
   // Create drop zone component for each meal type
   const MealDropZone = ({ mealType, children }: { mealType: MealType; children: React.ReactNode }) => {
@@ -217,15 +220,16 @@ export function DayColumn({
 
   return (
     <div className={cn('space-y-3', className)}>
-      {mealTypes.map(({ key, label, icon, color, bgColor }) => {
-        const mealList = dayMeals[key] || [];
+      {mealTypes.map(({ id: key, name: label, color, emoji }) => {
+        const mealList = getMealsOfType(dayMeals, key);
         
         return (
           <div key={key} className="space-y-2">
             {/* Meal Type Header */}
             <div className="flex items-center justify-between">
               <div className="flex items-center space-x-2">
-                <h4 className={cn('text-sm font-medium', color)}>
+                <span className="h-2 w-2 rounded-full" style={{ backgroundColor: color }} />
+                <h4 className="text-sm font-medium" style={{ color }}>
                   {label}
                 </h4>
               </div>
@@ -240,6 +244,7 @@ export function DayColumn({
                       key={`${key}-${mealIndex}`}
                       meal={meal}
                       mealType={key}
+                      emoji={emoji}
                       dayIndex={dayIndex}
                       mealIndex={mealIndex}
                       onRemove={() => handleRemoveMeal(key, mealIndex)}
@@ -256,6 +261,16 @@ export function DayColumn({
                         onShowRecipe?.(meal, dayIndex, key);
                       }}
                       onCopyRecipe={onCopyRecipe}
+                      onMarkCooked={onMealCooked && ((meal) => {
+                        handleMealUpdate(key, mealIndex, { cookedAt: new Date().toISOString() });
+                        onMealCooked(meal);
+                      })}
+                      onPlanLeftovers={onPlanLeftovers && isBuiltInMealType(key) ? (meal) => onPlanLeftovers(meal, mealIndex, key) : undefined}
+                      onEditAttendees={onEditAttendees && householdMembers.length > 0 && !meal.batchId && !meal.isLeftover
+                        ? () => onEditAttendees(meal, mealIndex, key)
+                        : undefined}
+                      attendeeNames={getMealAttendees(meal, householdMembers).map(member => member.name)}
+                      conflictWarning={getConflictWarning(meal)}
                       isToday={isToday}
                     />
                   ))
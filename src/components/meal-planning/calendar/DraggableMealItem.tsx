@@ -8,12 +8,12 @@
 
 import React from 'react';
 import { useDrag } from 'react-dnd';
-import type { MealSlot } from '@/types/meal-planning';
+import type { MealSlot, MealType } from '@/types/meal-planning';
 
 interface DraggableMealItemProps {
   meal: MealSlot;
   date: Date;
-  mealType: 'breakfast' | 'lunch' | 'dinner' | 'snacks';
+  mealType: MealType;
   mealIndex: number;
   onEdit?: () => void;
   onRemove?: () => void;
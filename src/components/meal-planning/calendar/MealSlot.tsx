@@ -8,12 +8,13 @@
 'use client';
 
 import React, { useState } from 'react';
-import { Clock, Users, X, Edit3, MoreVertical, Copy } from 'lucide-react';
+import { Clock, Users, X, Edit3, MoreVertical, Copy, ChefHat, CookingPot, AlertTriangle } from 'lucide-react';
 import Image from 'next/image';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
-import type { MealSlot } from '@/types/meal-planning';
+import type { MealSlot, MealType } from '@/types/meal-planning';
+import { getMealTypeDefinition } from '@/utils/mealTypes';
 import { useDrag, useDrop } from 'react-dnd';
 import {
   DropdownMenu,
@@ -28,7 +29,8 @@ import {
 
 interface MealSlotComponentProps {
   meal: MealSlot;
-  mealType: 'breakfast' | 'lunch' | 'dinner' | 'snacks';
+  mealType: MealType;
+  emoji?: string; // Shown when the meal has no image; defaults to the meal type's
   dayIndex: number;
   mealIndex: number;
   onRemove?: () => void;
@@ -36,6 +38,11 @@ interface MealSlotComponentProps {
   onEdit?: () => void;
   onShowRecipe?: (meal: MealSlot) => void;
   onCopyRecipe?: (meal: MealSlot) => void;
+  onMarkCooked?: (meal: MealSlot) => void;
+  onPlanLeftovers?: (meal: MealSlot) => void;
+  onEditAttendees?: () => void;
+  attendeeNames?: string[]; // Household members eating the meal
+  conflictWarning?: string; // Attendees the recipe does not suit, one per line
   isToday?: boolean;
   className?: string;
 }
@@ -55,6 +62,7 @@ interface DragItem {
 export function MealSlotComponent({
   meal,
   mealType,
+  emoji,
   dayIndex,
   mealIndex,
   onRemove,
@@ -62,6 +70,11 @@ export function MealSlotComponent({
   onEdit,
   onShowRecipe,
   onCopyRecipe,
+  onMarkCooked,
+  onPlanLeftovers,
+  onEditAttendees,
+  attendeeNames = [],
+  conflictWarning,
   isToday = false,
   className
 }: MealSlotComponentProps) {
@@ -172,10 +185,7 @@ export function MealSlotComponent({
             ) : (
               <div className="w-full h-full flex items-center justify-center text-gray-400 dark:text-gray-500 bg-gradient-to-br from-slate-50 to-slate-100 dark:from-gray-700 dark:to-gray-800">
                 <span className="text-sm sm:text-lg">
-                  {mealType === 'breakfast' && '🍳'}
-                  {mealType === 'lunch' && '🥗'}
-                  {mealType === 'dinner' && '🍽️'}
-                  {mealType === 'snacks' && '🍎'}
+                  {emoji || getMealTypeDefinition([], mealType).emoji}
                 </span>
               </div>
             )}
@@ -183,8 +193,13 @@ export function MealSlotComponent({
 
           {/* Title and Action Buttons */}
           <div className="flex-1 flex items-start justify-between min-w-0">
-            <h5 className="font-semibold text-xs sm:text-sm leading-tight text-gray-900 dark:text-gray-100 truncate pr-1">
-              {meal.recipeName || 'Unnamed Recipe'}
+            <h5 className="flex items-center gap-1 font-semibold text-xs sm:text-sm leading-tight text-gray-900 dark:text-gray-100 truncate pr-1">
+              {conflictWarning && (
+                <span className="shrink-0" title={`Not suitable for everyone eating it:\n${conflictWarning}`}>
+                  <AlertTriangle className="h-3 w-3 text-orange-500" />
+                </span>
+              )}
+              <span className="truncate">{meal.recipeName || 'Unnamed Recipe'}</span>
             </h5>
             
             {/* Action Buttons - Mobile Optimized */}
@@ -253,10 +268,27 @@ export function MealSlotComponent({
             )}
 
             {/* Servings - Responsive Editable */}
-            <div className="flex items-center space-x-1 bg-blue-50 dark:bg-gray-700 px-1 sm:px-1.5 py-0.5 rounded">
-              <Users className="h-2.5 w-2.5 sm:h-3 sm:w-3 text-blue-600 dark:text-blue-400" />
+            <div
+              className="flex items-center space-x-1 bg-blue-50 dark:bg-gray-700 px-1 sm:px-1.5 py-0.5 rounded"
+              title={attendeeNames.length > 0 ? `Eaten by ${attendeeNames.join(', ')}` : undefined}
+            >
+              {onEditAttendees ? (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onEditAttendees();
+                  }}
+                  className="flex items-center hover:opacity-70"
+                  title="Choose who is eating"
+                >
+                  <Users className="h-2.5 w-2.5 sm:h-3 sm:w-3 text-blue-600 dark:text-blue-400" />
+                </button>
+              ) : (
+                <Users className="h-2.5 w-2.5 sm:h-3 sm:w-3 text-blue-600 dark:text-blue-400" />
+              )}
               <span className="font-medium text-blue-700 dark:text-blue-300 text-xs">{meal.servings || 1}</span>
-              {onUpdate && (
+              {/* Servings of meals with attendees follow their portions */}
+              {onUpdate && attendeeNames.length === 0 && (
                 <div className="ml-0.5 sm:ml-1 flex space-x-0.5">
                   <button
                     onClick={(e) => {
@@ -284,6 +316,51 @@ export function MealSlotComponent({
               )}
             </div>
           </div>
+
+          {/* Batch Cooking */}
+          {meal.isLeftover ? (
+            <div className="flex items-center space-x-1 bg-[#EFF4E6] dark:bg-[#74765D] px-1 sm:px-1.5 py-0.5 rounded text-xs" title="Eaten from an earlier batch: nothing to cook or buy">
+              <CookingPot className="h-2.5 w-2.5 sm:h-3 sm:w-3 text-[#7D966D] dark:text-[#C1D3AF]" />
+              <span className="font-medium text-[#7D966D] dark:text-[#C1D3AF]">Leftovers</span>
+            </div>
+          ) : onPlanLeftovers && meal.recipeId && !meal.cookedAt && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={(e) => {
+                e.stopPropagation();
+                onPlanLeftovers(meal);
+              }}
+              className={cn(
+                'h-5 w-5 sm:h-6 sm:w-6 p-0 hover:bg-[#EFF4E6] dark:hover:bg-[#74765D] transition-colors',
+                meal.batchId && 'bg-[#EFF4E6] dark:bg-[#74765D]'
+              )}
+              title={meal.batchId ? `Batch cooked for ${meal.servings || 1} servings: change leftovers` : 'Cook extra for leftovers'}
+            >
+              <CookingPot className="h-2.5 w-2.5 sm:h-3 sm:w-3 text-[#7D966D] dark:text-[#C1D3AF]" />
+            </Button>
+          )}
+
+          {/* Cooked Status */}
+          {meal.isLeftover ? null : meal.cookedAt ? (
+            <div className="flex items-center space-x-1 bg-[#EFF4E6] dark:bg-[#74765D] px-1 sm:px-1.5 py-0.5 rounded text-xs" title={`Cooked on ${new Date(meal.cookedAt).toLocaleDateString()}`}>
+              <ChefHat className="h-2.5 w-2.5 sm:h-3 sm:w-3 text-[#7D966D] dark:text-[#C1D3AF]" />
+              <span className="font-medium text-[#7D966D] dark:text-[#C1D3AF]">Cooked</span>
+            </div>
+          ) : onMarkCooked && meal.recipeId && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={(e) => {
+                e.stopPropagation();
+                onMarkCooked(meal);
+              }}
+              className="h-5 w-5 sm:h-6 sm:w-6 p-0 hover:bg-[#EFF4E6] dark:hover:bg-[#74765D] transition-colors"
+              title="Mark as cooked"
+            >
+              <ChefHat className="h-2.5 w-2.5 sm:h-3 sm:w-3 text-[#7D966D] dark:text-[#C1D3AF]" />
+            </Button>
+          )}
         </div>
       </div>
 
@@ -26,8 +26,11 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { cn } from '@/lib/utils';
-import type { IMealPlan, DayMeals, MealSlot } from '@/types/meal-planning';
-import { getWeekStartDate } from '@/types/meal-planning';
+import type { IMealPlan, DayMeals, MealSlot, WeekStartsOn } from '@/types/meal-planning';
+import { DEFAULT_WEEK_STARTS_ON, findMealPlanForDate, getShortDayNames, getWeekStartDate, toDateKey } from '@/types/meal-planning';
+import { countDayMeals, DEFAULT_MEAL_TYPES, getMealsOfType, getMealTypesForDays, type MealTypeDefinition } from '@/utils/mealTypes';
+import type { DayNutrition } from '@/utils/mealPlanNutrition';
+import { NutritionDayBadge } from './NutritionDayBadge';
 
 
 // ========================================
@@ -38,20 +41,25 @@ interface MonthlyCalendarProps {
   currentDate?: Date;
   mealPlans?: IMealPlan[];
   onMealPlansChange?: (mealPlans: IMealPlan[]) => void;
-  onAddRecipe?: (date: Date, mealType: 'breakfast' | 'lunch' | 'dinner' | 'snacks') => void;
+  onAddRecipe?: (date: Date, mealType: string) => void;
   onRemoveMeal?: (planId: string, day: number, mealType: string, index: number) => void;
-  onEditMeal?: (meal: MealSlot, date: Date, mealType: 'breakfast' | 'lunch' | 'dinner' | 'snacks') => void;
+  onEditMeal?: (meal: MealSlot, date: Date, mealType: string) => void;
   onShowRecipe?: (meal: MealSlot, date: Date, mealType: string) => void;
   onCopyRecipe?: (meal: MealSlot) => void;
   copiedRecipe?: MealSlot | null;
   onClearCopiedRecipe?: () => void;
   hideSearch?: boolean;
+  weekStartsOn?: WeekStartsOn; // First column of the grid
+  mealTypes?: MealTypeDefinition[]; // The user's meal types, in order
+  dayNutrition?: Map<string, DayNutrition>; // Nutrition per date (yyyy-MM-dd)
   className?: string;
 }
 
 interface DayData {
   date: Date;
   meals: DayMeals | null;
+  planId: string; // The plan covering the date ('' if none)
+  dayIndex: number; // Position of the date in that plan
   isToday: boolean;
   isCurrentMonth: boolean;
   hasEvents: boolean;
@@ -61,14 +69,12 @@ interface DayData {
 // Utility Functions
 // ========================================
 
-function getMonthData(year: number, month: number): DayData[] {
+function getMonthData(year: number, month: number, weekStartsOn: WeekStartsOn): DayData[] {
   const firstDay = new Date(year, month, 1);
-  const lastDay = new Date(year, month + 1, 0);
-  const startDate = new Date(firstDay);
   const today = new Date();
   
-  // Start from Sunday of the week containing the first day
-  startDate.setDate(firstDay.getDate() - firstDay.getDay());
+  // Start from the first day of the week containing the first day of the month
+  const startDate = getWeekStartDate(firstDay, weekStartsOn);
   
   const days: DayData[] = [];
   const currentDate = new Date(startDate);
@@ -84,6 +90,8 @@ function getMonthData(year: number, month: number): DayData[] {
     days.push({
       date: new Date(currentDate),
       meals: null, // Will be populated from meal plans
+      planId: '',
+      dayIndex: -1,
       isToday,
       isCurrentMonth,
       hasEvents: false
@@ -95,20 +103,9 @@ function getMonthData(year: number, month: number): DayData[] {
   return days;
 }
 
-function getMealCountForDay(meals: DayMeals): number {
-  return (meals.breakfast?.length || 0) + 
-         (meals.lunch?.length || 0) + 
-         (meals.dinner?.length || 0) + 
-         (meals.snacks?.length || 0);
-}
-
-function getMealTypesForDay(meals: DayMeals): string[] {
-  const types: string[] = [];
-  if (meals.breakfast?.length) types.push('🌅');
-  if (meals.lunch?.length) types.push('☀️');
-  if (meals.dinner?.length) types.push('🌙');
-  if (meals.snacks?.length) types.push('🍎');
-  return types;
+// The meal types of a day that have meals, in the user's order
+function getMealTypesForDay(meals: DayMeals, mealTypes: MealTypeDefinition[]): MealTypeDefinition[] {
+  return getMealTypesForDays(mealTypes, [meals]).filter(mealType => getMealsOfType(meals, mealType.id).length > 0);
 }
 
 // ========================================
@@ -117,19 +114,22 @@ function getMealTypesForDay(meals: DayMeals): string[] {
 
 interface DayCellProps {
   dayData: DayData;
-  onAddRecipe?: (date: Date, mealType: 'breakfast' | 'lunch' | 'dinner' | 'snacks') => void;
-  onEditMeal?: (meal: MealSlot, date: Date, mealType: 'breakfast' | 'lunch' | 'dinner' | 'snacks') => void;
+  onAddRecipe?: (date: Date, mealType: string) => void;
+  onEditMeal?: (meal: MealSlot, date: Date, mealType: string) => void;
   onRemoveMeal?: (planId: string, day: number, mealType: string, index: number) => void;
   onShowRecipe?: (meal: MealSlot, date: Date, mealType: string) => void;
   onCopyRecipe?: (meal: MealSlot) => void;
   onDayClick?: (date: Date) => void;
   selectedDate?: Date | null;
+  mealTypes: MealTypeDefinition[];
+  nutrition?: DayNutrition;
 }
 
-function DayCell({ dayData, onAddRecipe, onEditMeal, onRemoveMeal, onShowRecipe, onCopyRecipe, onDayClick, selectedDate }: DayCellProps) {
-  const { date, meals, isToday, isCurrentMonth, hasEvents } = dayData;
-  const mealCount = meals ? getMealCountForDay(meals) : 0;
-  const mealTypes = meals ? getMealTypesForDay(meals) : [];
+function DayCell({ dayData, onAddRecipe, onEditMeal, onRemoveMeal, onShowRecipe, onCopyRecipe, onDayClick, selectedDate, mealTypes: configuredMealTypes, nutrition }: DayCellProps) {
+  const { date, meals, planId, dayIndex, isToday, isCurrentMonth, hasEvents } = dayData;
+  const mealCount = meals ? countDayMeals(meals) : 0;
+  const mealTypes = meals ? getMealTypesForDay(meals, configuredMealTypes) : [];
+  const previewTypes = mealTypes.slice(0, 3);
   const isSelected = selectedDate && date.toDateString() === selectedDate.toDateString();
   
   return (
@@ -163,7 +163,7 @@ function DayCell({ dayData, onAddRecipe, onEditMeal, onRemoveMeal, onShowRecipe,
             className="h-5 w-5 p-0 opacity-0 group-hover:opacity-100 transition-opacity hover:bg-primary/20"
             onClick={(e) => {
               e.stopPropagation();
-              onAddRecipe?.(date, 'breakfast');
+              onAddRecipe?.(date, configuredMealTypes[0]?.id || 'breakfast');
             }}
           >
             <Plus className="h-3 w-3" />
@@ -177,9 +177,9 @@ function DayCell({ dayData, onAddRecipe, onEditMeal, onRemoveMeal, onShowRecipe,
           <>
             {/* Meal Type Icons */}
             <div className="flex items-center space-x-1">
-              {mealTypes.map((emoji, index) => (
-                <span key={index} className="text-xs">
-                  {emoji}
+              {mealTypes.map(mealType => (
+                <span key={mealType.id} className="text-xs" title={mealType.name}>
+                  {mealType.emoji}
                 </span>
               ))}
               {mealCount > 4 && (
@@ -194,27 +194,31 @@ function DayCell({ dayData, onAddRecipe, onEditMeal, onRemoveMeal, onShowRecipe,
             >
               {mealCount} meal{mealCount > 1 ? 's' : ''}
             </Badge>
+
+            {/* Calories of the day */}
+            {nutrition && <div><NutritionDayBadge day={nutrition} /></div>}
             
             {/* Preview of First Few Meals */}
             <div className="space-y-0.5">
-              {meals?.breakfast?.slice(0, 1).map((meal, index) => (
+              {meals && previewTypes.map(({ id: mealType, color, emoji }) => getMealsOfType(meals, mealType).slice(0, 1).map((meal, index) => (
                 <div
-                  key={`breakfast-${index}`}
-                  className="group flex items-center gap-1 text-xs text-green-700 bg-green-100 px-1 py-0.5 rounded cursor-pointer hover:bg-green-200 transition-colors"
+                  key={`${mealType}-${index}`}
+                  className="group flex items-center gap-1 text-xs text-gray-700 bg-gray-100 px-1 py-0.5 rounded cursor-pointer hover:bg-gray-200 transition-colors"
+                  style={{ borderLeft: `3px solid ${color}` }}
                   onClick={(e) => {
                     e.stopPropagation();
                     if (onShowRecipe) {
-                      onShowRecipe(meal, date, 'breakfast');
+                      onShowRecipe(meal, date, mealType);
                     } else {
-                      onEditMeal?.(meal, date, 'breakfast');
+                      onEditMeal?.(meal, date, mealType);
                     }
                   }}
                 >
-                  <div className="w-4 h-4 bg-green-500 rounded-full flex items-center justify-center flex-shrink-0 overflow-hidden">
+                  <div className="w-4 h-4 rounded-full flex items-center justify-center flex-shrink-0 overflow-hidden" style={{ backgroundColor: color }}>
                     {meal.image ? (
                       <img src={meal.image} alt={meal.recipeName} className="w-full h-full object-cover" />
                     ) : (
-                      <span className="text-xs">🍳</span>
+                      <span className="text-xs">{emoji}</span>
                     )}
                   </div>
                   <span className="truncate flex-1">{meal.recipeName}</span>
@@ -234,114 +238,17 @@ function DayCell({ dayData, onAddRecipe, onEditMeal, onRemoveMeal, onShowRecipe,
                     className="opacity-0 group-hover:opacity-100 w-3 h-3 flex items-center justify-center text-red-500 hover:text-red-600 transition-all"
                     onClick={(e) => {
                       e.stopPropagation();
-                      // Find the meal plan and remove the meal
-                      const weekStart = getWeekStartDate(date);
-                      const daysDiff = Math.floor((date.getTime() - weekStart.getTime()) / (1000 * 60 * 60 * 24));
-                      onRemoveMeal?.('', daysDiff, 'breakfast', index);
+                      onRemoveMeal?.(planId, dayIndex, mealType, index);
                     }}
                     title="Delete meal"
                   >
                     ×
                   </button>
                 </div>
-              ))}
-              {meals?.lunch?.slice(0, 1).map((meal, index) => (
-                <div
-                  key={`lunch-${index}`}
-                  className="group flex items-center gap-1 text-xs text-blue-700 bg-blue-100 px-1 py-0.5 rounded cursor-pointer hover:bg-blue-200 transition-colors"
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    if (onShowRecipe) {
-                      onShowRecipe(meal, date, 'lunch');
-                    } else {
-                      onEditMeal?.(meal, date, 'lunch');
-                    }
-                  }}
-                >
-                  <div className="w-4 h-4 bg-blue-500 rounded-full flex items-center justify-center flex-shrink-0 overflow-hidden">
-                    {meal.image ? (
-                      <img src={meal.image} alt={meal.recipeName} className="w-full h-full object-cover" />
-                    ) : (
-                      <span className="text-xs">🥗</span>
-                    )}
-                  </div>
-                  <span className="truncate flex-1">{meal.recipeName}</span>
-                  {onCopyRecipe && (
-                    <button
-                      className="opacity-0 group-hover:opacity-100 w-3 h-3 flex items-center justify-center text-gray-600 hover:text-red-500 transition-all"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        onCopyRecipe(meal);
-                      }}
-                      title="Copy recipe"
-                    >
-                      <Copy className="w-2 h-2" />
-                    </button>
-                  )}
-                  <button
-                    className="opacity-0 group-hover:opacity-100 w-3 h-3 flex items-center justify-center text-red-500 hover:text-red-600 transition-all"
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      const weekStart = getWeekStartDate(date);
-                      const daysDiff = Math.floor((date.getTime() - weekStart.getTime()) / (1000 * 60 * 60 * 24));
-                      onRemoveMeal?.('', daysDiff, 'lunch', index);
-                    }}
-                    title="Delete meal"
-                  >
-                    ×
-                  </button>
-                </div>
-              ))}
-              {meals?.dinner?.slice(0, 1).map((meal, index) => (
-                <div
-                  key={`dinner-${index}`}
-                  className="group flex items-center gap-1 text-xs text-gray-600 bg-blue-100 px-1 py-0.5 rounded cursor-pointer hover:bg-blue-200 transition-colors"
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    if (onShowRecipe) {
-                      onShowRecipe(meal, date, 'dinner');
-                    } else {
-                      onEditMeal?.(meal, date, 'dinner');
-                    }
-                  }}
-                >
-                  <div className="w-4 h-4 bg-blue-200 rounded-full flex items-center justify-center flex-shrink-0 overflow-hidden">
-                    {meal.image ? (
-                      <img src={meal.image} alt={meal.recipeName} className="w-full h-full object-cover" />
-                    ) : (
-                      <span className="text-xs">🍽️</span>
-                    )}
-                  </div>
-                  <span className="truncate flex-1">{meal.recipeName}</span>
-                  {onCopyRecipe && (
-                    <button
-                      className="opacity-0 group-hover:opacity-100 w-3 h-3 flex items-center justify-center text-green-500 hover:text-green-700 transition-all"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        onCopyRecipe(meal);
-                      }}
-                      title="Copy recipe"
-                    >
-                      <Copy className="w-2 h-2" />
-                    </button>
-                  )}
-                  <button
-                    className="opacity-0 group-hover:opacity-100 w-3 h-3 flex items-center justify-center text-red-500 hover:text-red-700 transition-all"
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      const weekStart = getWeekStartDate(date);
-                      const daysDiff = Math.floor((date.getTime() - weekStart.getTime()) / (1000 * 60 * 60 * 24));
-                      onRemoveMeal?.('', daysDiff, 'dinner', index);
-                    }}
-                    title="Delete meal"
-                  >
-                    ×
-                  </button>
-                </div>
-              ))}
-              {mealCount > 3 && (
+              )))}
+              {mealCount > previewTypes.length && (
                 <div className="text-xs text-gray-400">
-                  +{mealCount - 3} more...
+                  +{mealCount - previewTypes.length} more...
                 </div>
               )}
             </div>
@@ -373,6 +280,9 @@ export function MonthlyCalendar({
   copiedRecipe,
   onClearCopiedRecipe,
   hideSearch = false,
+  weekStartsOn = DEFAULT_WEEK_STARTS_ON,
+  mealTypes = DEFAULT_MEAL_TYPES,
+  dayNutrition,
   className
 }: MonthlyCalendarProps) {
   const [currentMonth, setCurrentMonth] = useState(currentDate || new Date());
@@ -404,7 +314,8 @@ export function MonthlyCalendar({
   // Generate month data
   const monthData = getMonthData(
     currentMonth.getFullYear(),
-    currentMonth.getMonth()
+    currentMonth.getMonth(),
+    weekStartsOn
   );
   
   // Create state for month data to force re-renders
@@ -418,72 +329,20 @@ export function MonthlyCalendar({
       currentMonth: currentMonth.toDateString()
     });
     
-    // Create a new copy of month data
-    const updatedMonthData = monthData.map(dayData => ({
-      ...dayData,
-      meals: null as DayMeals | null,
-      hasEvents: false
-    }));
-    
-    // Process each meal plan
-    mealPlans.forEach((plan, planIndex) => {
-      console.log(`Processing plan ${planIndex} with weekStart:`, plan.weekStartDate.toDateString());
-      
-      plan.days.forEach((planDay, dayIndex) => {
-        // Normalize dates to avoid timezone issues
-        const planDate = new Date(planDay.date);
-        planDate.setHours(0, 0, 0, 0);
-        const planDayStr = planDate.toDateString();
-        
-        console.log(`Plan ${planIndex}, Day ${dayIndex}: ${planDayStr}`);
-        
-        // Find matching day in month data with normalized comparison
-        const monthDayIndex = updatedMonthData.findIndex((monthDay, index) => {
-          const monthDate = new Date(monthDay.date);
-          monthDate.setHours(0, 0, 0, 0);
-          const monthDayStr = monthDate.toDateString();
-          const matches = monthDayStr === planDayStr;
-          
-          if (matches) {
-            console.log(`✓ Match found: Month[${index}] ${monthDayStr} = Plan[${planIndex}][${dayIndex}] ${planDayStr}`);
-          }
-          
-          return matches;
-        });
-        
-        if (monthDayIndex !== -1) {
-          const mealCount = getMealCountForDay(planDay);
-          if (mealCount > 0) {
-            console.log(`MonthlyCalendar: Adding ${mealCount} meals to month day ${monthDayIndex} (${planDayStr})`);
-            
-            // Check if this day already has meals (merge instead of replace)
-            if (updatedMonthData[monthDayIndex].meals) {
-              console.log('WARNING: Day already has meals, merging...');
-              const existingMeals = updatedMonthData[monthDayIndex].meals!;
-              updatedMonthData[monthDayIndex] = {
-                ...updatedMonthData[monthDayIndex],
-                meals: {
-                  date: planDay.date,
-                  breakfast: [...existingMeals.breakfast, ...planDay.breakfast],
-                  lunch: [...existingMeals.lunch, ...planDay.lunch],
-                  dinner: [...existingMeals.dinner, ...planDay.dinner],
-                  snacks: [...existingMeals.snacks, ...planDay.snacks]
-                },
-                hasEvents: true
-              };
-            } else {
-              updatedMonthData[monthDayIndex] = {
-                ...updatedMonthData[monthDayIndex],
-                meals: planDay,
-                hasEvents: true
-              };
-            }
-          }
-        } else {
-          console.warn(`MonthlyCalendar: Could not find matching day for ${planDayStr} in month data`);
-          console.warn('Available month dates:', updatedMonthData.slice(0, 5).map(d => d.date.toDateString()), '...');
-        }
-      });
+    // Each date shows the day of the plan covering it
+    const updatedMonthData = monthData.map(dayData => {
+      const plan = findMealPlanForDate(mealPlans, dayData.date);
+      const dayIndex = plan ? plan.days.findIndex(day => toDateKey(new Date(day.date)) === toDateKey(dayData.date)) : -1;
+      const planDay = plan && dayIndex !== -1 ? plan.days[dayIndex] : null;
+      const hasEvents = planDay !== null && countDayMeals(planDay) > 0;
+
+      return {
+        ...dayData,
+        meals: hasEvents ? planDay : null,
+        planId: plan?._id || '',
+        dayIndex,
+        hasEvents
+      };
     });
     
     const daysWithMeals = updatedMonthData.filter(day => day.hasEvents).length;
@@ -491,13 +350,13 @@ export function MonthlyCalendar({
     console.log('MonthlyCalendar: Processed month data summary:', 
       updatedMonthData.filter(day => day.hasEvents).map(day => ({
         date: day.date.toDateString(),
-        mealCount: day.meals ? getMealCountForDay(day.meals) : 0
+        mealCount: day.meals ? countDayMeals(day.meals) : 0
       }))
     );
     
     // Update state to trigger re-render
     setProcessedMonthData(updatedMonthData);
-  }, [mealPlans, currentMonth]);
+  }, [mealPlans, currentMonth, weekStartsOn]);
 
   // Navigation handlers
   const handlePreviousMonth = () => {
@@ -524,7 +383,7 @@ export function MonthlyCalendar({
     year: 'numeric'
   });
 
-  const weekDays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+  const weekDays = getShortDayNames(weekStartsOn);
 
   return (
     <Card id="monthly-calendar" className={cn('w-full', className)}>
@@ -564,6 +423,8 @@ export function MonthlyCalendar({
               onCopyRecipe={handleCopyRecipe}
               onDayClick={handleDayClick}
               selectedDate={selectedDate}
+              mealTypes={mealTypes}
+              nutrition={dayNutrition?.get(toDateKey(dayData.date))}
             />
           ))}
         </div>
@@ -574,7 +435,7 @@ export function MonthlyCalendar({
             <span>
               Total planned meals this month: {
                 processedMonthData.reduce((total, day) => 
-                  total + (day.meals ? getMealCountForDay(day.meals) : 0), 0
+                  total + (day.meals ? countDayMeals(day.meals) : 0), 0
                 )
               }
             </span>
@@ -0,0 +1,48 @@
+/**
+ * Nutrition Day Badge
+ *
+ * The calories one person eats on a calendar day, coloured by the user's calorie target,
+ * with a warning when some of the day's meals have no nutrition data.
+ */
+
+'use client';
+
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatNutrient, NUTRIENT_INFO, NUTRIENT_KEYS, type DayNutrition } from '@/utils/mealPlanNutrition';
+
+interface NutritionDayBadgeProps {
+  day: DayNutrition;
+  className?: string;
+}
+
+const STATUS_CLASSES = {
+  under: 'bg-orange-50 text-orange-700 border-orange-200',
+  within: 'bg-green-50 text-green-700 border-green-200',
+  over: 'bg-red-50 text-red-700 border-red-200',
+};
+
+export function NutritionDayBadge({ day, className }: NutritionDayBadgeProps) {
+  if (day.meals.length === 0) return null;
+
+  const status = day.targetStatus.calories;
+  const details = NUTRIENT_KEYS.map(key => `${NUTRIENT_INFO[key].label}: ${formatNutrient(key, day.perPerson[key])} per person`);
+  if (day.gapCount > 0) {
+    details.push(`${day.gapCount} ${day.gapCount === 1 ? 'meal has' : 'meals have'} no nutrition data and ${day.gapCount === 1 ? 'is' : 'are'} not counted`);
+  }
+
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-[10px] sm:text-xs font-medium',
+        status ? STATUS_CLASSES[status] : 'bg-gray-50 text-gray-600 border-gray-200',
+        className
+      )}
+      title={details.join('\n')}
+    >
+      {formatNutrient('calories', day.perPerson.calories)}
+      {day.gapCount > 0 && <AlertTriangle className="h-3 w-3 text-orange-500" aria-label="Some meals have no nutrition data" />}
+    </span>
+  );
+}
@@ -2,10 +2,11 @@
  * Weekly Calendar Component for Meal Planning
  * 
  * Features:
- * - 7-day weekly view (Monday to Sunday)
- * - Meal slots for breakfast, lunch, dinner, snacks
+ * - Day-by-day view of the plan's date range (a week by default)
+ * - Meal slots for each of the user's meal types
  * - Drag & Drop support
- * - Week navigation
+ * - Batch cooking with linked leftovers
+ * - Plan navigation
  * - Responsive design
  */
 
@@ -25,18 +26,47 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { cn } from '@/lib/utils';
 import { DayColumn } from './DayColumn';
+import { NutritionDayBadge } from './NutritionDayBadge';
+import { BatchCookingModal, type BatchCookingOptions } from '../modals/BatchCookingModal';
+import { MealAttendeesModal } from '../modals/MealAttendeesModal';
 import { MealPlanService } from '@/services/mealPlanService';
 import { useAuth } from '@/context/authContext';
 import type { 
   IMealPlan, 
   MealSlot, 
-  DayMeals
+  DayMeals,
+  MealType
 } from '@/types/meal-planning';
 import { 
+  addDaysToDate,
+  DEFAULT_WEEK_STARTS_ON,
+  findMealPlanForDate,
+  formatDateRange,
+  getDatesInRange,
   getWeekStartDate,
-  getWeekDates,
-  formatWeekRange
+  toDateKey,
+  type WeekStartsOn
 } from '@/types/meal-planning';
+import {
+  DEFAULT_LEFTOVER_SETTINGS,
+  getBatchSourceChangePrompt,
+  planBatch,
+  reconcileBatchSources,
+  releaseLeftoversFromDays,
+  withoutBatchFields,
+  type LeftoverSettings,
+  type LeftoverSyncRequest,
+} from '@/utils/mealLeftovers';
+import {
+  countDayMeals,
+  DEFAULT_MEAL_TYPES,
+  getMealsOfType,
+  setMealsOfType,
+  type BuiltInMealType,
+  type MealTypeDefinition,
+} from '@/utils/mealTypes';
+import type { DayNutrition } from '@/utils/mealPlanNutrition';
+import { getAttendeeServings, type AttendeeConflict, type HouseholdMember } from '@/utils/household';
 
 // ========================================
 // Types
@@ -47,15 +77,23 @@ interface WeeklyCalendarProps {
   mealPlans?: IMealPlan[];
   currentDate?: Date;
   onMealPlanChange?: (mealPlan: IMealPlan) => void;
-  onAddRecipe?: (dayIndex: number, mealType: 'breakfast' | 'lunch' | 'dinner' | 'snacks') => void;
+  onAddRecipe?: (dayIndex: number, mealType: MealType) => void;
   onAddMeal?: (slot: any) => void;
   onEditMeal?: (slot: any) => void; // Add edit meal handler
   onRemoveMeal?: (planId: string, day: number, mealType: string, index: number) => void;
   onShowRecipe?: (meal: MealSlot) => void;
   onCopyRecipe?: (meal: MealSlot) => void;
+  onMealCooked?: (meal: MealSlot) => void;
+  leftoverSettings?: LeftoverSettings;
+  onSyncLeftovers?: (requests: LeftoverSyncRequest[], excludeMealPlanId?: string) => void; // Leftover changes outside this plan
   copiedRecipe?: MealSlot | null;
   onClearCopiedRecipe?: () => void;
   onWeekNavigation?: (direction: 'previous' | 'next' | 'current') => void; // Week navigation handler
+  weekStartsOn?: WeekStartsOn; // First day of the week shown when there is no plan
+  mealTypes?: MealTypeDefinition[]; // The user's meal types, in order
+  dayNutrition?: Map<string, DayNutrition>; // Nutrition per date (yyyy-MM-dd)
+  householdMembers?: HouseholdMember[];
+  recipeConflicts?: Map<string, AttendeeConflict[]>; // Members each recipe does not suit, by recipe id
   hideSearch?: boolean;
   className?: string;
 }
@@ -75,9 +113,17 @@ export function WeeklyCalendar({
   onRemoveMeal,
   onShowRecipe,
   onCopyRecipe,
+  onMealCooked,
+  leftoverSettings = DEFAULT_LEFTOVER_SETTINGS,
+  onSyncLeftovers,
   copiedRecipe,
   onClearCopiedRecipe,
   onWeekNavigation,
+  weekStartsOn = DEFAULT_WEEK_STARTS_ON,
+  mealTypes = DEFAULT_MEAL_TYPES,
+  dayNutrition,
+  householdMembers = [],
+  recipeConflicts,
   hideSearch = false,
   className 
 }: WeeklyCalendarProps) {
@@ -85,16 +131,17 @@ export function WeeklyCalendar({
   const { user, status } = useAuth();
   const authLoading = status === 'loading';
   
-  // Use mealPlan.weekStartDate if available, otherwise fallback to currentDate
-  const [currentWeekStart, setCurrentWeekStart] = useState<Date>(() => {
-    // Priority: 1. mealPlan.weekStartDate, 2. currentDate, 3. today
-    if (mealPlan?.weekStartDate) {
-      console.log('📅 WeeklyCalendar: Using meal plan weekStartDate:', mealPlan.weekStartDate.toDateString());
-      return new Date(mealPlan.weekStartDate);
+  // Use the meal plan's date range if available, otherwise the week of currentDate
+  const [currentRange, setCurrentRange] = useState<{ start: Date; end: Date }>(() => {
+    // Priority: 1. mealPlan range, 2. currentDate, 3. today
+    if (mealPlan?.startDate && mealPlan?.endDate) {
+      console.log('📅 WeeklyCalendar: Using meal plan range:', formatDateRange(mealPlan.startDate, mealPlan.endDate));
+      return { start: new Date(mealPlan.startDate), end: new Date(mealPlan.endDate) };
     }
     const fallbackDate = currentDate || new Date();
     console.log('📅 WeeklyCalendar: Using fallback currentDate:', fallbackDate.toDateString());
-    return getWeekStartDate(fallbackDate);
+    const weekStart = getWeekStartDate(fallbackDate, weekStartsOn);
+    return { start: weekStart, end: addDaysToDate(weekStart, 6) };
   });
   const [weekDates, setWeekDates] = useState<Date[]>([]);
   const [, setIsLoading] = useState(false);
@@ -104,6 +151,22 @@ export function WeeklyCalendar({
   const [currentMealPlan, setCurrentMealPlan] = useState<IMealPlan | null>(mealPlan || null);
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
 
+  // Meal being batch cooked
+  const [batchTarget, setBatchTarget] = useState<{
+    dayIndex: number;
+    mealType: BuiltInMealType;
+    mealIndex: number;
+    meal: MealSlot;
+  } | null>(null);
+
+  // Meal whose attendees are being chosen
+  const [attendeesTarget, setAttendeesTarget] = useState<{
+    dayIndex: number;
+    mealType: string;
+    mealIndex: number;
+    meal: MealSlot;
+  } | null>(null);
+
   // Handle showing recipe details
   const handleShowRecipe = (meal: MealSlot, dayIndex: number, mealType: string) => {
     console.log('📅 WeeklyCalendar: handleShowRecipe called', { meal: meal.recipeName, dayIndex, mealType });
@@ -143,7 +206,15 @@ export function WeeklyCalendar({
       return;
     }
     
-    const updatedPlan = updater(sourcePlan);
+    // Updaters may change the days array in place, so keep the days as they were
+    const previousDays = [...sourcePlan.days];
+    const changedPlan = updater(sourcePlan);
+
+    // Leftovers follow their batch source when it is moved or removed
+    const reconciled = reconcileBatchSources(previousDays, changedPlan.days, change =>
+      window.confirm(getBatchSourceChangePrompt(change))
+    );
+    const updatedPlan = { ...changedPlan, days: reconciled.days };
     console.log('📅 WeeklyCalendar: Updating meal plan', {
       source: sourcePlan === currentMealPlan ? 'currentMealPlan' : 'mealPlan prop',
       updated: updatedPlan
@@ -152,22 +223,26 @@ export function WeeklyCalendar({
     setCurrentMealPlan(updatedPlan);
     onMealPlanChange?.(updatedPlan);
     saveMealPlan(updatedPlan);
-  }, [currentMealPlan, mealPlan, onMealPlanChange, saveMealPlan]);
 
-  // Sync with parent currentDate prop - but prioritize mealPlan weekStartDate
+    if (reconciled.requests.length > 0) {
+      onSyncLeftovers?.(reconciled.requests, updatedPlan._id);
+    }
+  }, [currentMealPlan, mealPlan, onMealPlanChange, saveMealPlan, onSyncLeftovers]);
+
+  // Sync with parent currentDate prop - but prioritize the meal plan's range
   useEffect(() => {
-    if (currentDate && !mealPlan?.weekStartDate) {
-      // Only use currentDate if mealPlan doesn't have a weekStartDate
-      console.log('📅 WeeklyCalendar: Using currentDate as fallback (no meal plan weekStartDate)');
-      const newWeekStart = getWeekStartDate(currentDate);
-      setCurrentWeekStart(newWeekStart);
+    if (currentDate && !mealPlan?.startDate) {
+      // Only use currentDate if there is no meal plan range
+      console.log('📅 WeeklyCalendar: Using currentDate as fallback (no meal plan range)');
+      const newWeekStart = getWeekStartDate(currentDate, weekStartsOn);
+      setCurrentRange({ start: newWeekStart, end: addDaysToDate(newWeekStart, 6) });
     }
-  }, [currentDate, mealPlan]);
+  }, [currentDate, mealPlan, weekStartsOn]);
 
-  // Update week dates when current week changes
+  // Update the shown dates when the range changes
   useEffect(() => {
-    setWeekDates(getWeekDates(currentWeekStart));
-  }, [currentWeekStart]);
+    setWeekDates(getDatesInRange(currentRange.start, currentRange.end));
+  }, [currentRange]);
 
   // Use meal plan from parent props instead of creating independently
   useEffect(() => {
@@ -175,14 +250,13 @@ export function WeeklyCalendar({
       console.log('📅 WeeklyCalendar: Syncing meal plan from props', mealPlan);
       setCurrentMealPlan(mealPlan);
       
-      // CRITICAL: Sync currentWeekStart with meal plan's weekStartDate
-      if (mealPlan.weekStartDate) {
-        const mealPlanWeekStart = new Date(mealPlan.weekStartDate);
-        console.log('📅 WeeklyCalendar: Syncing week start with meal plan:', {
-          currentWeekStart: currentWeekStart.toDateString(),
-          mealPlanWeekStart: mealPlanWeekStart.toDateString()
+      // CRITICAL: Sync the shown range with the meal plan's range
+      if (mealPlan.startDate && mealPlan.endDate) {
+        console.log('📅 WeeklyCalendar: Syncing range with meal plan:', {
+          currentRange: formatDateRange(currentRange.start, currentRange.end),
+          mealPlanRange: formatDateRange(mealPlan.startDate, mealPlan.endDate)
         });
-        setCurrentWeekStart(mealPlanWeekStart);
+        setCurrentRange({ start: new Date(mealPlan.startDate), end: new Date(mealPlan.endDate) });
       }
     }
   }, [mealPlan]);
@@ -190,13 +264,13 @@ export function WeeklyCalendar({
   // Re-sync when week changes to ensure proper data loading
   useEffect(() => {
     if (mealPlan && weekDates.length > 0) {
-      console.log('📅 WeeklyCalendar: Week changed, re-syncing meal plan', {
-        weekStart: currentWeekStart.toDateString(),
-        mealPlanWeek: mealPlan.weekStartDate
+      console.log('📅 WeeklyCalendar: Range changed, re-syncing meal plan', {
+        rangeStart: currentRange.start.toDateString(),
+        mealPlanStart: mealPlan.startDate
       });
       setCurrentMealPlan(mealPlan);
     }
-  }, [currentWeekStart, weekDates, mealPlan]);
+  }, [currentRange, weekDates, mealPlan]);
 
   // Navigation handlers - Simplified delegation to parent
   const goToPreviousWeek = () => {
@@ -260,10 +334,15 @@ export function WeeklyCalendar({
       targetDate = new Date(parseInt(year), parseInt(month) - 1, 1);
     }
     
-    // Navigate to the week containing the target date
+    // Navigate to the plan or week containing the target date
     if (targetDate && !isNaN(targetDate.getTime())) {
-      const weekStart = getWeekStartDate(targetDate);
-      setCurrentWeekStart(weekStart);
+      const targetPlan = findMealPlanForDate(mealPlans, targetDate);
+      if (targetPlan) {
+        setCurrentRange({ start: new Date(targetPlan.startDate), end: new Date(targetPlan.endDate) });
+      } else {
+        const weekStart = getWeekStartDate(targetDate, weekStartsOn);
+        setCurrentRange({ start: weekStart, end: addDaysToDate(weekStart, 6) });
+      }
     }
   };
 
@@ -283,7 +362,7 @@ export function WeeklyCalendar({
       currentMealPlan: !!currentMealPlan,
       mealPlan: !!mealPlan,
       mealPlansCount: mealPlans.length,
-      mealPlansWeeks: mealPlans.map(p => getWeekStartDate(p.weekStartDate).toDateString())
+      mealPlansRanges: mealPlans.map(p => formatDateRange(p.startDate, p.endDate))
     });
 
     // Priority 1: Current MongoDB meal plan (most reliable)
@@ -298,31 +377,18 @@ export function WeeklyCalendar({
       return mealPlan.days[dayIndex];
     }
     
-    // Priority 3: Cross-week synchronization from meal plans array
-    const targetWeekStart = getWeekStartDate(targetDate);
-    const targetWeekKey = targetWeekStart.toISOString().split('T')[0];
+    // Priority 3: Cross-plan synchronization from meal plans array
+    const targetKey = toDateKey(targetDate);
     
-    console.log(`🔍 Looking for meal plan for week: ${targetWeekKey} (${targetWeekStart.toDateString()})`);
+    console.log(`🔍 Looking for meal plan covering: ${targetKey}`);
     
-    // Look through all meal plans for cross-week functionality
-    const matchingPlan = mealPlans.find(plan => {
-      const planWeekKey = getWeekStartDate(plan.weekStartDate).toISOString().split('T')[0];
-      console.log(`  - Checking plan week: ${planWeekKey} (${getWeekStartDate(plan.weekStartDate).toDateString()})`);
-      return planWeekKey === targetWeekKey;
-    });
+    // Look through all meal plans for the one covering the date
+    const matchingPlan = findMealPlanForDate(mealPlans, targetDate);
     
     if (matchingPlan && matchingPlan.days) {
-      console.log(`✅ Found matching plan for week ${targetWeekKey}, searching for date ${targetDate.toDateString()}`);
+      console.log(`✅ Found matching plan ${formatDateRange(matchingPlan.startDate, matchingPlan.endDate)}, searching for date ${targetDate.toDateString()}`);
       
-      const matchingDay = matchingPlan.days.find(day => {
-        const dayDate = new Date(day.date);
-        dayDate.setHours(0, 0, 0, 0);
-        const normalizedTargetDate = new Date(targetDate);
-        normalizedTargetDate.setHours(0, 0, 0, 0);
-        const matches = dayDate.getTime() === normalizedTargetDate.getTime();
-        console.log(`    - Day ${dayDate.toDateString()} matches ${normalizedTargetDate.toDateString()}?`, matches);
-        return matches;
-      });
+      const matchingDay = matchingPlan.days.find(day => toDateKey(day.date) === targetKey);
       
       if (matchingDay) {
         console.log('📅 WeeklyCalendar: Cross-week meals found for', targetDate.toDateString(), {
@@ -336,7 +402,7 @@ export function WeeklyCalendar({
         console.log('❌ No matching day found in plan for', targetDate.toDateString());
       }
     } else {
-      console.log('❌ No matching meal plan found for week', targetWeekKey);
+      console.log('❌ No matching meal plan found for', targetKey);
     }
     
     console.log('📅 WeeklyCalendar: No meals found for day', dayIndex, targetDate.toDateString());
@@ -363,7 +429,7 @@ export function WeeklyCalendar({
   };
 
   // Handle adding a new meal - Enhanced with edit capability
-  const handleAddRecipe = (dayIndex: number, mealType: 'breakfast' | 'lunch' | 'dinner' | 'snacks') => {
+  const handleAddRecipe = (dayIndex: number, mealType: MealType) => {
     // If there's a copied recipe, paste it instead of opening add dialog
     if (copiedRecipe) {
       handlePasteRecipe(dayIndex, mealType);
@@ -386,7 +452,7 @@ export function WeeklyCalendar({
   };
 
   // Handle editing existing meal
-  const handleEditMeal = (dayIndex: number, mealType: 'breakfast' | 'lunch' | 'dinner' | 'snacks', meal: MealSlot, mealIndex: number) => {
+  const handleEditMeal = (dayIndex: number, mealType: MealType, meal: MealSlot, mealIndex: number) => {
     console.log('📝 WeeklyCalendar: Edit meal requested for:', meal.recipeName);
     
     if (onEditMeal) {
@@ -421,7 +487,7 @@ export function WeeklyCalendar({
   };
 
   // Handle pasting copied recipe
-  const handlePasteRecipe = (dayIndex: number, mealType: 'breakfast' | 'lunch' | 'dinner' | 'snacks') => {
+  const handlePasteRecipe = (dayIndex: number, mealType: MealType) => {
     const sourcePlan = currentMealPlan || mealPlan;
     if (!copiedRecipe || !sourcePlan) {
       console.warn('📅 WeeklyCalendar: Cannot paste recipe - missing copied recipe or meal plan');
@@ -437,7 +503,7 @@ export function WeeklyCalendar({
 
     // Update the meal plan using the updateMealPlan function
     updateMealPlan(plan => {
-      const updatedPlan = { ...plan };
+      const updatedPlan = { ...plan, days: [...plan.days] };
       if (!updatedPlan.days[dayIndex]) {
         updatedPlan.days[dayIndex] = {
           date: weekDates[dayIndex],
@@ -448,7 +514,8 @@ export function WeeklyCalendar({
         };
       }
 
-      updatedPlan.days[dayIndex][mealType].push(newMeal);
+      const day = updatedPlan.days[dayIndex];
+      updatedPlan.days[dayIndex] = setMealsOfType(day, mealType, [...getMealsOfType(day, mealType), newMeal]);
       updatedPlan.updatedAt = new Date();
       
       return updatedPlan;
@@ -483,28 +550,24 @@ export function WeeklyCalendar({
     });
 
     updateMealPlan(plan => {
-      const updatedPlan = { ...plan };
-      
-      // Remove from source
-      const sourceMealTypeKey = sourceMealType as keyof DayMeals;
-      const targetMealTypeKey = targetMealType as keyof DayMeals;
+      const updatedPlan = { ...plan, days: [...plan.days] };
       
       if (updatedPlan.days[sourceDayIndex] && updatedPlan.days[targetDayIndex]) {
         // Remove from source day
         const sourceDay = updatedPlan.days[sourceDayIndex];
-        const sourceMeals = sourceDay[sourceMealTypeKey] as any[];
-        updatedPlan.days[sourceDayIndex] = {
-          ...sourceDay,
-          [sourceMealTypeKey]: sourceMeals.filter((_, index) => index !== sourceMealIndex)
-        };
+        updatedPlan.days[sourceDayIndex] = setMealsOfType(
+          sourceDay,
+          sourceMealType,
+          getMealsOfType(sourceDay, sourceMealType).filter((_, index) => index !== sourceMealIndex)
+        );
         
         // Add to target day
         const targetDay = updatedPlan.days[targetDayIndex];
-        const targetMeals = targetDay[targetMealTypeKey] as any[];
-        updatedPlan.days[targetDayIndex] = {
-          ...targetDay,
-          [targetMealTypeKey]: [...targetMeals, draggedMeal.meal]
-        };
+        updatedPlan.days[targetDayIndex] = setMealsOfType(
+          targetDay,
+          targetMealType,
+          [...getMealsOfType(targetDay, targetMealType), draggedMeal.meal]
+        );
       }
 
       updatedPlan.updatedAt = new Date();
@@ -512,9 +575,76 @@ export function WeeklyCalendar({
     });
   };
 
-  // Week day names
-  const dayNames = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
-  const shortDayNames = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+  // Handle batch cooking a meal with leftovers on the following days
+  const handleConfirmBatch = (options: BatchCookingOptions) => {
+    const sourcePlan = currentMealPlan || mealPlan;
+    if (!batchTarget || !sourcePlan) return;
+    const { dayIndex, mealType, mealIndex, meal } = batchTarget;
+
+    const planned = planBatch(sourcePlan.days, { dayIndex, mealType, mealIndex }, {
+      batchId: crypto.randomUUID(),
+      ...options,
+    });
+    updateMealPlan(plan => ({ ...plan, days: planned.days, updatedAt: new Date() }));
+
+    // Leftovers in other weeks, or earlier leftovers of a batch planned again
+    if (meal.batchId || planned.request.portions.length > 0) {
+      onSyncLeftovers?.([planned.request], sourcePlan._id);
+    }
+    setBatchTarget(null);
+  };
+
+  // Handle cooking a batch meal just once again, without leftovers
+  const handleStopBatch = () => {
+    if (!batchTarget?.meal.batchId) return;
+    const { dayIndex, mealType, mealIndex, meal } = batchTarget;
+    const batchId = meal.batchId!;
+
+    updateMealPlan(plan => {
+      const released = releaseLeftoversFromDays(plan.days, batchId, 'remove').days;
+      return {
+        ...plan,
+        days: released.map((day, index) => index !== dayIndex ? day : {
+          ...day,
+          [mealType]: day[mealType].map((existing, position) => position !== mealIndex ? existing : {
+            ...withoutBatchFields(existing),
+            servings: existing.leftoverServings || existing.servings,
+          }),
+        }),
+        updatedAt: new Date()
+      };
+    });
+
+    onSyncLeftovers?.([{ batchId, action: 'remove' }], (currentMealPlan || mealPlan)?._id);
+    setBatchTarget(null);
+  };
+
+  // Handle choosing who eats a meal: its servings follow their portions
+  const handleConfirmAttendees = (attendees: string[]) => {
+    if (!attendeesTarget) return;
+    const { dayIndex, mealType, mealIndex } = attendeesTarget;
+    const attendeeMembers = householdMembers.filter(member => attendees.includes(member.id));
+
+    updateMealPlan(plan => ({
+      ...plan,
+      days: plan.days.map((day, index) => index !== dayIndex ? day : setMealsOfType(
+        day,
+        mealType,
+        getMealsOfType(day, mealType).map((existing, position) => {
+          if (position !== mealIndex) return existing;
+          return attendeeMembers.length > 0
+            ? { ...existing, attendees, servings: getAttendeeServings(attendeeMembers) }
+            : { ...existing, attendees: undefined };
+        })
+      )),
+      updatedAt: new Date()
+    }));
+    setAttendeesTarget(null);
+  };
+
+  // Day names of the shown dates (plans can start on any day)
+  const dayNames = weekDates.map(date => date.toLocaleDateString('en-US', { weekday: 'long' }));
+  const shortDayNames = weekDates.map(date => date.toLocaleDateString('en-US', { weekday: 'short' }));
 
   return (
       <div id="weekly-calendar" className={cn('w-full space-y-4', className)}>
@@ -524,7 +654,7 @@ export function WeeklyCalendar({
             <div className="flex items-center space-x-2 justify-center">
               <Calendar className="h-5 w-5 text-primary" />
               <CardTitle className="text-lg sm:text-xl text-center">
-                Weekly Meal Plan
+                {weekDates.length === 7 ? 'Weekly Meal Plan' : 'Meal Plan'}
               </CardTitle>
             </div>
             
@@ -536,7 +666,7 @@ export function WeeklyCalendar({
                 onClick={goToCurrentWeek}
                 className="text-xs px-2 py-1 h-auto"
               >
-                {formatWeekRange(currentWeekStart)}
+                {formatDateRange(currentRange.start, currentRange.end)}
               </Button>
               
               {/* Save status indicator */}
@@ -563,6 +693,7 @@ export function WeeklyCalendar({
           {weekDates.map((date, dayIndex) => {
             const dayMeals = getMealsForDay(dayIndex);
             const isToday = date.toDateString() === new Date().toDateString();
+            const nutrition = dayNutrition?.get(toDateKey(date));
             
             return (
               <Card 
@@ -594,6 +725,9 @@ export function WeeklyCalendar({
                         {date.toLocaleDateString('en-US', { month: 'short' })}
                       </div>
                     )}
+
+                    {/* Calories of the day */}
+                    {nutrition && <NutritionDayBadge day={nutrition} className="mt-1" />}
                   </div>
                 </CardHeader>
                 
@@ -605,11 +739,19 @@ export function WeeklyCalendar({
                     onMealsChange={(meals: DayMeals) => handleMealChange(dayIndex, meals)}
                     onAddRecipe={handleAddRecipe}
                     onEditMeal={(meal: MealSlot, mealIndex: number, mealType: string) => 
-                      handleEditMeal(dayIndex, mealType as 'breakfast' | 'lunch' | 'dinner' | 'snacks', meal, mealIndex)
+                      handleEditMeal(dayIndex, mealType, meal, mealIndex)
                     }
                     onCrossDayMealMove={handleCrossDayMealMove}
                     onShowRecipe={handleShowRecipe}
                     onCopyRecipe={handleCopyRecipe}
+                    onMealCooked={onMealCooked}
+                    onPlanLeftovers={leftoverSettings.includeLeftovers
+                      ? (meal, mealIndex, mealType) => setBatchTarget({ dayIndex, mealType, mealIndex, meal })
+                      : undefined}
+                    onEditAttendees={(meal, mealIndex, mealType) => setAttendeesTarget({ dayIndex, mealType, mealIndex, meal })}
+                    mealTypes={mealTypes}
+                    householdMembers={householdMembers}
+                    recipeConflicts={recipeConflicts}
                     copiedRecipe={copiedRecipe}
                     isToday={isToday}
                   />
@@ -619,6 +761,26 @@ export function WeeklyCalendar({
           })}
         </div>
 
+        <BatchCookingModal
+          isOpen={batchTarget !== null}
+          onClose={() => setBatchTarget(null)}
+          onConfirm={handleConfirmBatch}
+          onStopBatch={handleStopBatch}
+          meal={batchTarget?.meal || null}
+          date={batchTarget ? weekDates[batchTarget.dayIndex] : null}
+          defaultServings={leftoverSettings.defaultServings}
+          batchCookingPreference={leftoverSettings.batchCookingPreference}
+        />
+
+        <MealAttendeesModal
+          isOpen={attendeesTarget !== null}
+          onClose={() => setAttendeesTarget(null)}
+          onConfirm={handleConfirmAttendees}
+          meal={attendeesTarget?.meal || null}
+          members={householdMembers}
+          conflicts={(attendeesTarget?.meal.recipeId && recipeConflicts?.get(attendeesTarget.meal.recipeId)) || []}
+        />
+
         {/* Empty State */}
         {!mealPlan && (
           <Card className="py-12 bg-[#EFF4E6] dark:bg-[#74765D] border-[#AAC91] dark:border-[#C1D3AF]">
@@ -649,10 +811,7 @@ export function WeeklyCalendar({
                     <span className="font-medium">Total Meals:</span>
                     <span className="ml-2">
                       {mealPlan.days?.reduce((total, day) => 
-                        total + (day?.breakfast?.length || 0) + 
-                        (day?.lunch?.length || 0) + 
-                        (day?.dinner?.length || 0) + 
-                        (day?.snacks?.length || 0), 0
+                        total + (day ? countDayMeals(day) : 0), 0
                       ) || 0}
                     </span>
                   </div>
@@ -660,11 +819,8 @@ export function WeeklyCalendar({
                     <span className="font-medium">Days Planned:</span>
                     <span className="ml-2">
                       {mealPlan.days?.filter(day => 
-                        (day?.breakfast?.length || 0) + 
-                        (day?.lunch?.length || 0) + 
-                        (day?.dinner?.length || 0) + 
-                        (day?.snacks?.length || 0) > 0
-                      ).length || 0}/7
+                        day && countDayMeals(day) > 0
+                      ).length || 0}/{mealPlan.days?.length || 0}
                     </span>
                   </div>
                 </div>
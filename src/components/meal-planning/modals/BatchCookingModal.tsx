@@ -0,0 +1,194 @@
+/**
+ * Batch Cooking Modal
+ *
+ * Lets the user cook a meal for more servings than are eaten at once:
+ * - Choose the servings to cook and the servings eaten per meal
+ * - Choose the meal the leftovers are eaten at
+ * - Preview the days the leftovers are placed on
+ * Leftovers are linked to the meal and left out of the grocery list.
+ */
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { CookingPot } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import type { MealSlot } from '@/types/meal-planning';
+import {
+  DEFAULT_LEFTOVER_MEAL_TYPE,
+  getDefaultBatchServings,
+  LEFTOVER_MEAL_TYPES,
+  planLeftoverPortions,
+  type LeftoverMealType,
+} from '@/utils/mealLeftovers';
+
+export interface BatchCookingOptions {
+  totalServings: number;
+  servingsPerMeal: number;
+  leftoverMealType: LeftoverMealType;
+}
+
+interface BatchCookingModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (options: BatchCookingOptions) => void;
+  onStopBatch?: () => void; // Only for meals that are already batch cooked
+  meal: MealSlot | null;
+  date: Date | null;
+  defaultServings: number;
+  batchCookingPreference: boolean;
+}
+
+const MEAL_TYPE_LABELS: Record<LeftoverMealType, string> = {
+  breakfast: 'Breakfast',
+  lunch: 'Lunch',
+  dinner: 'Dinner',
+  snacks: 'Snacks',
+};
+
+export function BatchCookingModal({
+  isOpen,
+  onClose,
+  onConfirm,
+  onStopBatch,
+  meal,
+  date,
+  defaultServings,
+  batchCookingPreference
+}: BatchCookingModalProps) {
+  const [totalServings, setTotalServings] = useState(0);
+  const [servingsPerMeal, setServingsPerMeal] = useState(0);
+  const [leftoverMealType, setLeftoverMealType] = useState<LeftoverMealType>(DEFAULT_LEFTOVER_MEAL_TYPE);
+
+  // Start from the meal's batch, or suggest one from the settings
+  useEffect(() => {
+    if (!isOpen || !meal) return;
+    if (meal.batchId) {
+      setServingsPerMeal(meal.leftoverServings || defaultServings);
+      setTotalServings(meal.servings || defaultServings);
+      setLeftoverMealType(meal.leftoverMealType || DEFAULT_LEFTOVER_MEAL_TYPE);
+    } else {
+      const perMeal = meal.servings || defaultServings;
+      setServingsPerMeal(perMeal);
+      setTotalServings(getDefaultBatchServings(perMeal, batchCookingPreference));
+      setLeftoverMealType(DEFAULT_LEFTOVER_MEAL_TYPE);
+    }
+  }, [isOpen, meal, defaultServings, batchCookingPreference]);
+
+  const portions = date && servingsPerMeal > 0
+    ? planLeftoverPortions(date, totalServings, servingsPerMeal, leftoverMealType)
+    : [];
+  const isValid = servingsPerMeal > 0 && portions.length > 0;
+
+  const handleConfirm = () => {
+    if (!isValid) return;
+    onConfirm({ totalServings, servingsPerMeal, leftoverMealType });
+  };
+
+  const inputClassName = 'w-full px-3 py-2 border border-[#d1ddd1] rounded-lg focus:outline-none focus:ring-2 focus:ring-[#a8b89c] bg-[#fafcfa] text-[#4a5c4a]';
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[480px] bg-gradient-to-br from-[#f8faf8] to-[#f0f4f0]">
+        <DialogHeader className="text-center pb-2">
+          <div className="flex justify-center mb-4">
+            <div className="bg-[#a8b89c] rounded-full p-3">
+              <CookingPot className="h-8 w-8 text-white" />
+            </div>
+          </div>
+          <DialogTitle className="text-2xl font-bold text-[#4a5c4a]">
+            Cook Extra for Leftovers
+          </DialogTitle>
+          <DialogDescription className="text-[#6b7c6b] text-base">
+            Cook {meal?.recipeName ? `"${meal.recipeName}"` : 'this meal'} once and eat it again on the following days.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="batch-total-servings" className="text-sm font-semibold text-[#4a5c4a] mb-1 block">Servings to cook</label>
+              <input id="batch-total-servings" type="number" min="1" max="50" value={totalServings || ''} onChange={(e) => setTotalServings(parseInt(e.target.value, 10) || 0)} className={inputClassName} />
+            </div>
+            <div>
+              <label htmlFor="batch-servings-per-meal" className="text-sm font-semibold text-[#4a5c4a] mb-1 block">Servings per meal</label>
+              <input id="batch-servings-per-meal" type="number" min="1" max="20" value={servingsPerMeal || ''} onChange={(e) => setServingsPerMeal(parseInt(e.target.value, 10) || 0)} className={inputClassName} />
+            </div>
+          </div>
+
+          <div>
+            <p className="text-sm font-semibold text-[#4a5c4a] mb-2">Eat leftovers at</p>
+            <div className="flex flex-wrap gap-2">
+              {LEFTOVER_MEAL_TYPES.map(mealType => (
+                <button
+                  key={mealType}
+                  type="button"
+                  onClick={() => setLeftoverMealType(mealType)}
+                  className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                    leftoverMealType === mealType
+                      ? 'bg-[#a8b89c] border-[#a8b89c] text-white'
+                      : 'bg-white border-[#d1ddd1] text-[#6b7c6b] hover:bg-[#f0f4f0]'
+                  }`}
+                >
+                  {MEAL_TYPE_LABELS[mealType]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg p-4 border border-[#d1ddd1]">
+            {portions.length === 0 ? (
+              <p className="text-sm text-[#6b7c6b]">Cook more servings than you eat per meal to plan leftovers.</p>
+            ) : (
+              <>
+                <p className="text-sm font-semibold text-[#4a5c4a] mb-2">{portions.length === 1 ? '1 leftover meal' : `${portions.length} leftover meals`}</p>
+                <ul className="space-y-1">
+                  {portions.map(portion => (
+                    <li key={portion.date} className="text-sm text-[#6b7c6b]">
+                      {format(parseISO(portion.date), 'EEEE, MMM d')} {MEAL_TYPE_LABELS[portion.mealType].toLowerCase()}: {portion.servings} {portion.servings === 1 ? 'serving' : 'servings'}
+                    </li>
+                  ))}
+                </ul>
+                <p className="text-xs text-[#6b7c6b] mt-2">Only the cooked meal goes on the grocery list.</p>
+              </>
+            )}
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-4 border-t border-[#d1ddd1]">
+            {onStopBatch && meal?.batchId && (
+              <Button
+                variant="outline"
+                onClick={onStopBatch}
+                className="mr-auto px-4 py-2 border-[#b8c8b8] text-[#6b7c6b] hover:bg-[#f0f4f0]"
+              >
+                Remove Leftovers
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              onClick={onClose}
+              className="px-6 py-2 border-[#b8c8b8] text-[#6b7c6b] hover:bg-[#f0f4f0]"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleConfirm}
+              disabled={!isValid}
+              className="px-6 py-2 bg-[#a8b89c] hover:bg-[#98a88c] text-white font-semibold rounded-lg disabled:opacity-50"
+            >
+              Plan Leftovers
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
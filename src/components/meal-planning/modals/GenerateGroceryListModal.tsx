@@ -0,0 +1,158 @@
+/**
+ * Generate Grocery List Modal
+ *
+ * Lets the user turn a whole meal plan week (or a range of days)
+ * into one consolidated grocery list:
+ * - Choose the first and last day to include
+ * - Merge into the active list or replace it
+ */
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { ShoppingCart } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+
+export interface GenerateGroceryListOptions {
+  startDate: string;
+  endDate: string;
+  replace: boolean;
+}
+
+interface GenerateGroceryListModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onGenerate: (options: GenerateGroceryListOptions) => Promise<void>;
+  days: Date[];
+  isLoading?: boolean;
+}
+
+export function GenerateGroceryListModal({
+  isOpen,
+  onClose,
+  onGenerate,
+  days,
+  isLoading = false
+}: GenerateGroceryListModalProps) {
+  const dayOptions = days.map(day => ({
+    value: format(day, 'yyyy-MM-dd'),
+    label: format(day, 'EEEE, MMM d')
+  }));
+
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [replace, setReplace] = useState(false);
+
+  // Default to the whole plan whenever the modal is opened
+  useEffect(() => {
+    if (isOpen && dayOptions.length > 0) {
+      setStartDate(dayOptions[0].value);
+      setEndDate(dayOptions[dayOptions.length - 1].value);
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, days]);
+
+  const isRangeValid = Boolean(startDate && endDate && startDate <= endDate);
+
+  const handleGenerate = async () => {
+    if (!isRangeValid) return;
+    await onGenerate({ startDate, endDate, replace });
+  };
+
+  const selectClassName = 'w-full px-3 py-2 border border-[#d1ddd1] rounded-lg focus:outline-none focus:ring-2 focus:ring-[#a8b89c] bg-[#fafcfa] text-[#4a5c4a]';
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[480px] bg-gradient-to-br from-[#f8faf8] to-[#f0f4f0]">
+        <DialogHeader className="text-center pb-2">
+          <div className="flex justify-center mb-4">
+            <div className="bg-[#a8b89c] rounded-full p-3">
+              <ShoppingCart className="h-8 w-8 text-white" />
+            </div>
+          </div>
+          <DialogTitle className="text-2xl font-bold text-[#4a5c4a]">
+            Generate Shopping List
+          </DialogTitle>
+          <DialogDescription className="text-[#6b7c6b] text-base">
+            Combine the ingredients of all planned meals into one list, scaled to your planned servings.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="grocery-start-date" className="text-sm font-semibold text-[#4a5c4a] mb-1 block">From</label>
+              <select
+                id="grocery-start-date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className={selectClassName}
+              >
+                {dayOptions.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="grocery-end-date" className="text-sm font-semibold text-[#4a5c4a] mb-1 block">To</label>
+              <select
+                id="grocery-end-date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                className={selectClassName}
+              >
+                {dayOptions.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {!isRangeValid && startDate && endDate && (
+            <p className="text-sm text-red-600">The first day must not be after the last day.</p>
+          )}
+
+          <div className="flex items-start space-x-3 bg-white rounded-lg p-4 border border-[#d1ddd1]">
+            <input
+              type="checkbox"
+              id="grocery-replace"
+              checked={replace}
+              onChange={(e) => setReplace(e.target.checked)}
+              className="w-5 h-5 text-[#a8b89c] border-[#b8c8b8] rounded focus:ring-[#a8b89c] mt-0.5"
+            />
+            <label htmlFor="grocery-replace" className="text-sm text-[#4a5c4a] cursor-pointer">
+              <span className="font-semibold">Start a fresh list</span>
+              <span className="block text-[#6b7c6b]">Replace your current shopping list instead of adding to it.</span>
+            </label>
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-4 border-t border-[#d1ddd1]">
+            <Button
+              variant="outline"
+              onClick={onClose}
+              disabled={isLoading}
+              className="px-6 py-2 border-[#b8c8b8] text-[#6b7c6b] hover:bg-[#f0f4f0]"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleGenerate}
+              disabled={isLoading || !isRangeValid}
+              className="px-6 py-2 bg-[#a8b89c] hover:bg-[#98a88c] text-white font-semibold rounded-lg disabled:opacity-50"
+            >
+              {isLoading ? 'Generating...' : 'Generate List'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
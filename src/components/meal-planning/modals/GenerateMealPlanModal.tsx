@@ -0,0 +1,270 @@
+/**
+ * Generate Meal Plan Modal
+ *
+ * Lets the user fill the week automatically from the recipe catalogue:
+ * - Choose the meal types to fill
+ * - Lock slots whose meals should stay
+ * - Optional goals: no repeats within N days, a weekday time limit and a daily calorie target
+ * - Re-use a seed to get the same plan again
+ * Slots that stayed empty are listed with the reasons no recipe fit.
+ */
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Sparkles, Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import type { DayMeals } from '@/types/meal-planning';
+import {
+  DEFAULT_GENERATOR_MEAL_TYPES,
+  DEFAULT_NO_REPEAT_DAYS,
+  GENERATOR_MEAL_TYPES,
+  type GeneratorMealType,
+  type PlanSlot,
+} from '@/utils/mealPlanGenerator';
+
+export interface GenerateMealPlanOptions {
+  mealTypes: GeneratorMealType[];
+  lockedSlots: PlanSlot[];
+  noRepeatDays?: number;
+  weekdayMaxTime?: number;
+  dailyCalories?: number;
+  seed?: number;
+}
+
+export interface GenerateMealPlanResult {
+  emptySlots: Array<PlanSlot & { date: string; reasons: string[] }>;
+  seed: number;
+}
+
+interface GenerateMealPlanModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onGenerate: (options: GenerateMealPlanOptions) => Promise<GenerateMealPlanResult | null>;
+  days: DayMeals[];
+  isLoading?: boolean;
+}
+
+const MEAL_TYPE_LABELS: Record<GeneratorMealType, string> = {
+  breakfast: 'Breakfast',
+  lunch: 'Lunch',
+  dinner: 'Dinner',
+  snacks: 'Snacks',
+};
+
+/**
+ * Reads an optional positive number from an input
+ */
+function parseOptionalNumber(value: string): number | undefined {
+  const number = parseInt(value, 10);
+  return number > 0 ? number : undefined;
+}
+
+export function GenerateMealPlanModal({
+  isOpen,
+  onClose,
+  onGenerate,
+  days,
+  isLoading = false
+}: GenerateMealPlanModalProps) {
+  const [mealTypes, setMealTypes] = useState<GeneratorMealType[]>(DEFAULT_GENERATOR_MEAL_TYPES);
+  const [lockedSlots, setLockedSlots] = useState<PlanSlot[]>([]);
+  const [noRepeatDays, setNoRepeatDays] = useState(String(DEFAULT_NO_REPEAT_DAYS));
+  const [weekdayMaxTime, setWeekdayMaxTime] = useState('');
+  const [dailyCalories, setDailyCalories] = useState('');
+  const [seed, setSeed] = useState('');
+  const [result, setResult] = useState<GenerateMealPlanResult | null>(null);
+
+  // Start without locks or an old result whenever the modal is opened
+  useEffect(() => {
+    if (isOpen) {
+      setLockedSlots([]);
+      setResult(null);
+    }
+  }, [isOpen]);
+
+  const isSlotLocked = (dayIndex: number, mealType: GeneratorMealType) =>
+    lockedSlots.some(slot => slot.dayIndex === dayIndex && slot.mealType === mealType);
+
+  const toggleMealType = (mealType: GeneratorMealType) => {
+    setMealTypes(prev => prev.includes(mealType)
+      ? prev.filter(type => type !== mealType)
+      : GENERATOR_MEAL_TYPES.filter(type => type === mealType || prev.includes(type)));
+  };
+
+  const toggleLock = (dayIndex: number, mealType: GeneratorMealType) => {
+    setLockedSlots(prev => isSlotLocked(dayIndex, mealType)
+      ? prev.filter(slot => slot.dayIndex !== dayIndex || slot.mealType !== mealType)
+      : [...prev, { dayIndex, mealType }]);
+  };
+
+  const handleGenerate = async () => {
+    if (mealTypes.length === 0) return;
+    const generated = await onGenerate({
+      mealTypes,
+      lockedSlots: lockedSlots.filter(slot => mealTypes.includes(slot.mealType)),
+      noRepeatDays: parseOptionalNumber(noRepeatDays),
+      weekdayMaxTime: parseOptionalNumber(weekdayMaxTime),
+      dailyCalories: parseOptionalNumber(dailyCalories),
+      seed: seed.trim() ? parseInt(seed, 10) : undefined,
+    });
+    if (generated) setResult(generated);
+  };
+
+  const inputClassName = 'w-full px-3 py-2 border border-[#d1ddd1] rounded-lg focus:outline-none focus:ring-2 focus:ring-[#a8b89c] bg-[#fafcfa] text-[#4a5c4a]';
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto bg-gradient-to-br from-[#f8faf8] to-[#f0f4f0]">
+        <DialogHeader className="text-center pb-2">
+          <div className="flex justify-center mb-4">
+            <div className="bg-[#a8b89c] rounded-full p-3">
+              <Sparkles className="h-8 w-8 text-white" />
+            </div>
+          </div>
+          <DialogTitle className="text-2xl font-bold text-[#4a5c4a]">
+            Generate Meal Plan
+          </DialogTitle>
+          <DialogDescription className="text-[#6b7c6b] text-base">
+            Fill the week with recipes that suit your diet, allergies, cooking time and skill level.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <p className="text-sm font-semibold text-[#4a5c4a] mb-2">Meals to fill</p>
+            <div className="flex flex-wrap gap-2">
+              {GENERATOR_MEAL_TYPES.map(mealType => (
+                <button
+                  key={mealType}
+                  type="button"
+                  onClick={() => toggleMealType(mealType)}
+                  className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                    mealTypes.includes(mealType)
+                      ? 'bg-[#a8b89c] border-[#a8b89c] text-white'
+                      : 'bg-white border-[#d1ddd1] text-[#6b7c6b] hover:bg-[#f0f4f0]'
+                  }`}
+                >
+                  {MEAL_TYPE_LABELS[mealType]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg p-4 border border-[#d1ddd1]">
+            <p className="text-sm font-semibold text-[#4a5c4a]">Keep these meals</p>
+            <p className="text-xs text-[#6b7c6b] mb-3">Locked slots keep their meals; everything else is regenerated. Cooked meals always stay.</p>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr>
+                    <th className="text-left font-medium text-[#6b7c6b] pb-1"></th>
+                    {mealTypes.map(mealType => (
+                      <th key={mealType} className="font-medium text-[#6b7c6b] pb-1">{MEAL_TYPE_LABELS[mealType]}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {days.map((day, dayIndex) => (
+                    <tr key={dayIndex}>
+                      <td className="pr-2 py-1 text-[#4a5c4a] whitespace-nowrap">{format(new Date(day.date), 'EEE, MMM d')}</td>
+                      {mealTypes.map(mealType => {
+                        const meals = day[mealType] || [];
+                        const label = meals.map(meal => meal.recipeName).filter(Boolean).join(', ');
+                        return (
+                          <td key={mealType} className="py-1 text-center">
+                            <button
+                              type="button"
+                              onClick={() => toggleLock(dayIndex, mealType)}
+                              disabled={meals.length === 0}
+                              title={label || 'Nothing planned'}
+                              className={`inline-flex items-center justify-center w-8 h-8 rounded-lg border transition-colors disabled:opacity-30 ${
+                                isSlotLocked(dayIndex, mealType)
+                                  ? 'bg-[#4a5c4a] border-[#4a5c4a] text-white'
+                                  : 'bg-[#fafcfa] border-[#d1ddd1] text-[#a8b89c] hover:bg-[#f0f4f0]'
+                              }`}
+                            >
+                              <Lock className="h-4 w-4" />
+                            </button>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="generator-no-repeat" className="text-sm font-semibold text-[#4a5c4a] mb-1 block">No repeats within (days)</label>
+              <input id="generator-no-repeat" type="number" min="1" value={noRepeatDays} onChange={(e) => setNoRepeatDays(e.target.value)} className={inputClassName} />
+            </div>
+            <div>
+              <label htmlFor="generator-weekday-time" className="text-sm font-semibold text-[#4a5c4a] mb-1 block">Weekday time limit (min)</label>
+              <input id="generator-weekday-time" type="number" min="1" placeholder="No limit" value={weekdayMaxTime} onChange={(e) => setWeekdayMaxTime(e.target.value)} className={inputClassName} />
+            </div>
+            <div>
+              <label htmlFor="generator-calories" className="text-sm font-semibold text-[#4a5c4a] mb-1 block">Calories per day</label>
+              <input id="generator-calories" type="number" min="1" placeholder="No target" value={dailyCalories} onChange={(e) => setDailyCalories(e.target.value)} className={inputClassName} />
+            </div>
+            <div>
+              <label htmlFor="generator-seed" className="text-sm font-semibold text-[#4a5c4a] mb-1 block">Seed</label>
+              <input id="generator-seed" type="number" placeholder="Random" value={seed} onChange={(e) => setSeed(e.target.value)} className={inputClassName} />
+            </div>
+          </div>
+
+          {result && (
+            <div className="bg-white rounded-lg p-4 border border-[#d1ddd1]">
+              {result.emptySlots.length === 0 ? (
+                <p className="text-sm text-[#4a5c4a]">Every slot was filled.</p>
+              ) : (
+                <>
+                  <p className="text-sm font-semibold text-[#4a5c4a] mb-2">{result.emptySlots.length} slots stayed empty</p>
+                  <ul className="space-y-2">
+                    {result.emptySlots.map(slot => (
+                      <li key={`${slot.dayIndex}-${slot.mealType}`} className="text-sm">
+                        <span className="font-medium text-[#4a5c4a]">{format(new Date(slot.date), 'EEEE')} {MEAL_TYPE_LABELS[slot.mealType].toLowerCase()}</span>
+                        <ul className="list-disc list-inside text-xs text-[#6b7c6b]">
+                          {slot.reasons.map(reason => <li key={reason}>{reason}</li>)}
+                        </ul>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+              <p className="text-xs text-[#6b7c6b] mt-2">Seed {result.seed}: enter it above to get this plan again.</p>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-4 border-t border-[#d1ddd1]">
+            <Button
+              variant="outline"
+              onClick={onClose}
+              disabled={isLoading}
+              className="px-6 py-2 border-[#b8c8b8] text-[#6b7c6b] hover:bg-[#f0f4f0]"
+            >
+              {result ? 'Done' : 'Cancel'}
+            </Button>
+            <Button
+              onClick={handleGenerate}
+              disabled={isLoading || mealTypes.length === 0}
+              className="px-6 py-2 bg-[#a8b89c] hover:bg-[#98a88c] text-white font-semibold rounded-lg disabled:opacity-50"
+            >
+              {isLoading ? 'Generating...' : result ? 'Generate Again' : 'Generate Plan'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
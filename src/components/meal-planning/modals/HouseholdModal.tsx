@@ -0,0 +1,223 @@
+/**
+ * Household Modal
+ *
+ * Lets the user edit the people they cook for:
+ * - Name, diet and allergies of each member
+ * - Portion size, e.g. 1 for an adult or 0.5 for a toddler
+ * - Add and remove members
+ * Meals eaten by a removed member keep their other attendees.
+ */
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import {
+  HOUSEHOLD_DIET_TYPES,
+  MAX_HOUSEHOLD_MEMBERS,
+  MAX_PORTION_MULTIPLIER,
+  MIN_PORTION_MULTIPLIER,
+  type HouseholdDietType,
+  type HouseholdMember,
+} from '@/utils/household';
+
+interface HouseholdModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (members: HouseholdMember[]) => Promise<void>;
+  members: HouseholdMember[];
+  isLoading?: boolean;
+}
+
+// Allergies are edited as comma-separated text
+type DraftMember = Omit<HouseholdMember, 'allergies'> & { allergies: string };
+
+export function HouseholdModal({
+  isOpen,
+  onClose,
+  onSave,
+  members,
+  isLoading = false
+}: HouseholdModalProps) {
+  const [draft, setDraft] = useState<DraftMember[]>([]);
+  const [newMemberName, setNewMemberName] = useState('');
+
+  // Start from the saved members each time the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setDraft(members.map(member => ({ ...member, allergies: member.allergies.join(', ') })));
+    setNewMemberName('');
+  }, [isOpen, members]);
+
+  const updateMember = (index: number, changes: Partial<DraftMember>) => {
+    setDraft(prev => prev.map((member, position) => position === index ? { ...member, ...changes } : member));
+  };
+
+  const removeMember = (index: number) => {
+    setDraft(prev => prev.filter((_, position) => position !== index));
+  };
+
+  const addMember = () => {
+    const name = newMemberName.trim();
+    if (!name || draft.length >= MAX_HOUSEHOLD_MEMBERS) return;
+
+    setDraft(prev => [...prev, { id: crypto.randomUUID(), name, allergies: '', portionMultiplier: 1 }]);
+    setNewMemberName('');
+  };
+
+  const isValid = draft.every(member => member.name.trim()
+    && member.portionMultiplier >= MIN_PORTION_MULTIPLIER
+    && member.portionMultiplier <= MAX_PORTION_MULTIPLIER);
+
+  const handleSave = async () => {
+    if (!isValid) return;
+    try {
+      await onSave(draft.map(member => ({
+        ...member,
+        name: member.name.trim(),
+        allergies: member.allergies.split(',').map(allergy => allergy.trim()).filter(Boolean),
+      })));
+      onClose();
+    } catch (error) {
+      console.error('Failed to save household members:', error);
+    }
+  };
+
+  const inputClassName = 'px-3 py-2 border border-[#d1ddd1] rounded-lg focus:outline-none focus:ring-2 focus:ring-[#a8b89c] bg-[#fafcfa] text-[#4a5c4a]';
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto bg-gradient-to-br from-[#f8faf8] to-[#f0f4f0]">
+        <DialogHeader className="text-center pb-2">
+          <div className="flex justify-center mb-4">
+            <div className="bg-[#a8b89c] rounded-full p-3">
+              <Users className="h-8 w-8 text-white" />
+            </div>
+          </div>
+          <DialogTitle className="text-2xl font-bold text-[#4a5c4a]">
+            Household
+          </DialogTitle>
+          <DialogDescription className="text-[#6b7c6b] text-base">
+            Who do you cook for? Pick who eats each meal in the calendar: servings follow their portions and you are warned about recipes that do not suit someone.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {draft.length === 0 && (
+            <p className="text-sm text-[#6b7c6b] text-center py-2">No household members yet.</p>
+          )}
+
+          <ul className="space-y-2">
+            {draft.map((member, index) => (
+              <li key={member.id} className="bg-white rounded-lg p-3 border border-[#d1ddd1] space-y-2">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={member.name}
+                    onChange={(e) => updateMember(index, { name: e.target.value })}
+                    maxLength={40}
+                    className={`${inputClassName} flex-1 min-w-0`}
+                    aria-label="Name"
+                  />
+                  <select
+                    value={member.dietType || 'omnivore'}
+                    onChange={(e) => updateMember(index, { dietType: e.target.value as HouseholdDietType })}
+                    className={`${inputClassName} w-36`}
+                    aria-label={`${member.name} diet`}
+                  >
+                    {HOUSEHOLD_DIET_TYPES.map(dietType => (
+                      <option key={dietType} value={dietType}>
+                        {dietType.charAt(0).toUpperCase() + dietType.slice(1)}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => removeMember(index)}
+                    className="p-1 text-[#6b7c6b] hover:text-red-600"
+                    title="Remove this member"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={member.allergies}
+                    onChange={(e) => updateMember(index, { allergies: e.target.value })}
+                    placeholder="Allergies, e.g. tree nuts, lactose"
+                    className={`${inputClassName} flex-1 min-w-0`}
+                    aria-label={`${member.name} allergies`}
+                  />
+                  <label className="flex items-center gap-1 text-sm text-[#6b7c6b] whitespace-nowrap">
+                    Portion
+                    <input
+                      type="number"
+                      value={member.portionMultiplier}
+                      onChange={(e) => updateMember(index, { portionMultiplier: Number(e.target.value) })}
+                      min={MIN_PORTION_MULTIPLIER}
+                      max={MAX_PORTION_MULTIPLIER}
+                      step={0.25}
+                      className={`${inputClassName} w-20`}
+                    />
+                  </label>
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={newMemberName}
+              onChange={(e) => setNewMemberName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addMember()}
+              placeholder="Name of a new member"
+              maxLength={40}
+              disabled={draft.length >= MAX_HOUSEHOLD_MEMBERS}
+              className={`${inputClassName} flex-1`}
+            />
+            <Button
+              variant="outline"
+              onClick={addMember}
+              disabled={!newMemberName.trim() || draft.length >= MAX_HOUSEHOLD_MEMBERS}
+              className="flex items-center gap-1 border-[#b8c8b8] text-[#4a5c4a] hover:bg-[#f0f4f0]"
+            >
+              <Plus className="h-4 w-4" /> Add
+            </Button>
+          </div>
+          {!isValid && (
+            <p className="text-xs text-red-600">
+              Every member needs a name and a portion between {MIN_PORTION_MULTIPLIER} and {MAX_PORTION_MULTIPLIER}.
+            </p>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-4 border-t border-[#d1ddd1]">
+            <Button
+              variant="outline"
+              onClick={onClose}
+              className="px-6 py-2 border-[#b8c8b8] text-[#6b7c6b] hover:bg-[#f0f4f0]"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={!isValid || isLoading}
+              className="px-6 py-2 bg-[#a8b89c] hover:bg-[#98a88c] text-white font-semibold rounded-lg disabled:opacity-50"
+            >
+              {isLoading ? 'Saving...' : 'Save'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
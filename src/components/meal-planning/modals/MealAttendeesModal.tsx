@@ -0,0 +1,166 @@
+/**
+ * Meal Attendees Modal
+ *
+ * Lets the user pick the household members eating a meal:
+ * - The servings of the meal follow their portions
+ * - Members the recipe does not suit are flagged
+ * Clearing the attendees goes back to the servings set by hand.
+ */
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import type { MealSlot } from '@/types/meal-planning';
+import {
+  describeAttendeeConflict,
+  getAttendeeServings,
+  type AttendeeConflict,
+  type HouseholdMember,
+} from '@/utils/household';
+
+interface MealAttendeesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (attendees: string[]) => void; // Empty to clear the attendees
+  meal: MealSlot | null;
+  members: HouseholdMember[];
+  conflicts: AttendeeConflict[]; // Members the meal's recipe does not suit
+}
+
+export function MealAttendeesModal({
+  isOpen,
+  onClose,
+  onConfirm,
+  meal,
+  members,
+  conflicts
+}: MealAttendeesModalProps) {
+  const [selected, setSelected] = useState<string[]>([]);
+
+  // Start from the meal's attendees, or everyone for a meal without any
+  useEffect(() => {
+    if (!isOpen || !meal) return;
+    const attendees = (meal.attendees || []).filter(id => members.some(member => member.id === id));
+    setSelected(attendees.length > 0 ? attendees : members.map(member => member.id));
+  }, [isOpen, meal, members]);
+
+  const toggleMember = (memberId: string) => {
+    setSelected(prev => prev.includes(memberId) ? prev.filter(id => id !== memberId) : [...prev, memberId]);
+  };
+
+  const attendees = members.filter(member => selected.includes(member.id));
+  const attendeeConflicts = conflicts.filter(conflict => selected.includes(conflict.memberId));
+
+  const handleConfirm = () => {
+    if (attendees.length === 0) return;
+    if (attendeeConflicts.length > 0 && !window.confirm(
+      `"${meal?.recipeName || 'This recipe'}" does not suit everyone eating it:\n\n${attendeeConflicts.map(conflict => describeAttendeeConflict(conflict, members)).join('\n')}\n\nPlan it for them anyway?`
+    )) {
+      return;
+    }
+    onConfirm(attendees.map(member => member.id));
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[480px] bg-gradient-to-br from-[#f8faf8] to-[#f0f4f0]">
+        <DialogHeader className="text-center pb-2">
+          <div className="flex justify-center mb-4">
+            <div className="bg-[#a8b89c] rounded-full p-3">
+              <Users className="h-8 w-8 text-white" />
+            </div>
+          </div>
+          <DialogTitle className="text-2xl font-bold text-[#4a5c4a]">
+            Who Is Eating?
+          </DialogTitle>
+          <DialogDescription className="text-[#6b7c6b] text-base">
+            Pick who eats {meal?.recipeName ? `"${meal.recipeName}"` : 'this meal'}. The servings follow their portions.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <ul className="space-y-2">
+            {members.map(member => {
+              const conflict = conflicts.find(candidate => candidate.memberId === member.id);
+              const isSelected = selected.includes(member.id);
+              return (
+                <li key={member.id}>
+                  <label
+                    className={cn(
+                      'flex items-start gap-3 bg-white rounded-lg p-3 border cursor-pointer transition-colors',
+                      isSelected ? 'border-[#a8b89c]' : 'border-[#d1ddd1] opacity-70'
+                    )}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={isSelected}
+                      onChange={() => toggleMember(member.id)}
+                      className="mt-1 h-4 w-4 accent-[#a8b89c]"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="font-semibold text-[#4a5c4a]">
+                        {member.name}
+                        <span className="ml-2 text-xs font-normal text-[#6b7c6b]">
+                          {member.portionMultiplier} {member.portionMultiplier === 1 ? 'serving' : 'servings'}
+                          {member.dietType && ` · ${member.dietType}`}
+                        </span>
+                      </p>
+                      {conflict && (
+                        <p className="flex items-center gap-1 text-xs text-orange-700 mt-1">
+                          <AlertTriangle className="h-3 w-3 shrink-0" />
+                          {describeAttendeeConflict(conflict, members)}
+                        </p>
+                      )}
+                    </div>
+                  </label>
+                </li>
+              );
+            })}
+          </ul>
+
+          <p className="text-sm text-[#4a5c4a]">
+            {attendees.length > 0
+              ? `${getAttendeeServings(attendees)} servings for ${attendees.length} ${attendees.length === 1 ? 'person' : 'people'}`
+              : 'Pick at least one person.'}
+          </p>
+
+          <div className="flex justify-end space-x-3 pt-4 border-t border-[#d1ddd1]">
+            {Boolean(meal?.attendees?.length) && (
+              <Button
+                variant="outline"
+                onClick={() => onConfirm([])}
+                className="mr-auto px-4 py-2 border-[#b8c8b8] text-[#6b7c6b] hover:bg-[#f0f4f0]"
+              >
+                Clear
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              onClick={onClose}
+              className="px-6 py-2 border-[#b8c8b8] text-[#6b7c6b] hover:bg-[#f0f4f0]"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleConfirm}
+              disabled={attendees.length === 0}
+              className="px-6 py-2 bg-[#a8b89c] hover:bg-[#98a88c] text-white font-semibold rounded-lg disabled:opacity-50"
+            >
+              Save
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,226 @@
+/**
+ * Meal Types Modal
+ *
+ * Lets the user edit their ordered list of meal types:
+ * - Rename, retime, recolour or change the emoji of a type
+ * - Add their own types, e.g. "Second Breakfast" or "Pre-Workout"
+ * - Remove and reorder types
+ * Meals of a removed type stay in the plan and keep showing until moved.
+ */
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { ArrowDown, ArrowUp, Clock, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import {
+  createMealTypeId,
+  CUSTOM_MEAL_TYPE_EMOJI,
+  DEFAULT_MEAL_TYPES,
+  isBuiltInMealType,
+  MAX_MEAL_TYPES,
+  type MealTypeDefinition,
+} from '@/utils/mealTypes';
+
+interface MealTypesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (mealTypes: MealTypeDefinition[]) => Promise<void>;
+  mealTypes: MealTypeDefinition[];
+  isLoading?: boolean;
+}
+
+export function MealTypesModal({
+  isOpen,
+  onClose,
+  onSave,
+  mealTypes,
+  isLoading = false
+}: MealTypesModalProps) {
+  const [draft, setDraft] = useState<MealTypeDefinition[]>([]);
+  const [newTypeName, setNewTypeName] = useState('');
+
+  // Start from the saved list each time the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setDraft(mealTypes.map(mealType => ({ ...mealType })));
+    setNewTypeName('');
+  }, [isOpen, mealTypes]);
+
+  const updateType = (index: number, changes: Partial<MealTypeDefinition>) => {
+    setDraft(prev => prev.map((mealType, position) => position === index ? { ...mealType, ...changes } : mealType));
+  };
+
+  const moveType = (index: number, offset: number) => {
+    setDraft(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const removeType = (index: number) => {
+    setDraft(prev => prev.filter((_, position) => position !== index));
+  };
+
+  const addType = () => {
+    const name = newTypeName.trim();
+    if (!name || draft.length >= MAX_MEAL_TYPES) return;
+
+    // Re-adding a removed built-in restores it instead of creating a copy
+    const builtIn = DEFAULT_MEAL_TYPES.find(mealType => mealType.name.toLowerCase() === name.toLowerCase());
+    const id = builtIn && !draft.some(mealType => mealType.id === builtIn.id)
+      ? builtIn.id
+      : createMealTypeId(name, [...draft.map(mealType => mealType.id), ...DEFAULT_MEAL_TYPES.map(mealType => mealType.id)]);
+
+    setDraft(prev => [...prev, { id, name, time: '12:00', color: '#6b7c6b', emoji: CUSTOM_MEAL_TYPE_EMOJI, ...(builtIn?.id === id && builtIn) }]);
+    setNewTypeName('');
+  };
+
+  const isValid = draft.length > 0 && draft.every(mealType => mealType.name.trim());
+
+  const handleSave = async () => {
+    if (!isValid) return;
+    try {
+      await onSave(draft.map(mealType => ({ ...mealType, name: mealType.name.trim() })));
+      onClose();
+    } catch (error) {
+      console.error('Failed to save meal types:', error);
+    }
+  };
+
+  const inputClassName = 'px-3 py-2 border border-[#d1ddd1] rounded-lg focus:outline-none focus:ring-2 focus:ring-[#a8b89c] bg-[#fafcfa] text-[#4a5c4a]';
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto bg-gradient-to-br from-[#f8faf8] to-[#f0f4f0]">
+        <DialogHeader className="text-center pb-2">
+          <div className="flex justify-center mb-4">
+            <div className="bg-[#a8b89c] rounded-full p-3">
+              <Clock className="h-8 w-8 text-white" />
+            </div>
+          </div>
+          <DialogTitle className="text-2xl font-bold text-[#4a5c4a]">
+            Meal Types
+          </DialogTitle>
+          <DialogDescription className="text-[#6b7c6b] text-base">
+            Choose the meals you plan, their default time and colour. The order here is the order in your calendar.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <ul className="space-y-2">
+            {draft.map((mealType, index) => (
+              <li key={mealType.id} className="flex items-center gap-2 bg-white rounded-lg p-2 border border-[#d1ddd1]">
+                <input
+                  type="color"
+                  value={mealType.color}
+                  onChange={(e) => updateType(index, { color: e.target.value })}
+                  className="h-9 w-9 shrink-0 cursor-pointer rounded border border-[#d1ddd1] bg-white"
+                  aria-label={`${mealType.name} colour`}
+                />
+                <input
+                  type="text"
+                  value={mealType.emoji || ''}
+                  onChange={(e) => updateType(index, { emoji: e.target.value })}
+                  maxLength={8}
+                  className={`${inputClassName} w-14 text-center`}
+                  aria-label={`${mealType.name} emoji`}
+                />
+                <input
+                  type="text"
+                  value={mealType.name}
+                  onChange={(e) => updateType(index, { name: e.target.value })}
+                  maxLength={40}
+                  className={`${inputClassName} flex-1 min-w-0`}
+                  aria-label="Meal type name"
+                />
+                <input
+                  type="time"
+                  value={mealType.time}
+                  onChange={(e) => e.target.value && updateType(index, { time: e.target.value })}
+                  className={`${inputClassName} w-28`}
+                  aria-label={`${mealType.name} time`}
+                />
+                <div className="flex shrink-0">
+                  <button type="button" onClick={() => moveType(index, -1)} disabled={index === 0} className="p-1 text-[#6b7c6b] hover:text-[#4a5c4a] disabled:opacity-30" title="Move up">
+                    <ArrowUp className="h-4 w-4" />
+                  </button>
+                  <button type="button" onClick={() => moveType(index, 1)} disabled={index === draft.length - 1} className="p-1 text-[#6b7c6b] hover:text-[#4a5c4a] disabled:opacity-30" title="Move down">
+                    <ArrowDown className="h-4 w-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => removeType(index)}
+                    disabled={draft.length === 1}
+                    className="p-1 text-[#6b7c6b] hover:text-red-600 disabled:opacity-30"
+                    title={isBuiltInMealType(mealType.id) ? 'Hide this meal type' : 'Remove this meal type'}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={newTypeName}
+              onChange={(e) => setNewTypeName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addType()}
+              placeholder="New meal type, e.g. Pre-Workout"
+              maxLength={40}
+              disabled={draft.length >= MAX_MEAL_TYPES}
+              className={`${inputClassName} flex-1`}
+            />
+            <Button
+              variant="outline"
+              onClick={addType}
+              disabled={!newTypeName.trim() || draft.length >= MAX_MEAL_TYPES}
+              className="flex items-center gap-1 border-[#b8c8b8] text-[#4a5c4a] hover:bg-[#f0f4f0]"
+            >
+              <Plus className="h-4 w-4" /> Add
+            </Button>
+          </div>
+          {draft.length >= MAX_MEAL_TYPES && (
+            <p className="text-xs text-[#6b7c6b]">You can have up to {MAX_MEAL_TYPES} meal types.</p>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-4 border-t border-[#d1ddd1]">
+            <Button
+              variant="outline"
+              onClick={() => setDraft(DEFAULT_MEAL_TYPES.map(mealType => ({ ...mealType })))}
+              className="mr-auto px-4 py-2 border-[#b8c8b8] text-[#6b7c6b] hover:bg-[#f0f4f0]"
+            >
+              Reset
+            </Button>
+            <Button
+              variant="outline"
+              onClick={onClose}
+              className="px-6 py-2 border-[#b8c8b8] text-[#6b7c6b] hover:bg-[#f0f4f0]"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={!isValid || isLoading}
+              className="px-6 py-2 bg-[#a8b89c] hover:bg-[#98a88c] text-white font-semibold rounded-lg disabled:opacity-50"
+            >
+              {isLoading ? 'Saving...' : 'Save'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -11,12 +11,14 @@ import { Recipe } from '@/types/recipe';
 import { Search, Plus, ChevronDown, Clock, Users } from 'lucide-react';
 import Image from 'next/image';
 import { Pagination } from '@/components/ui/pagination';
+import { formatMealTypeName } from '@/utils/mealTypes';
 
 interface QuickAddRecipeModalProps {
   isOpen: boolean;
   onClose: () => void;
   onAddRecipe: (id: string, title: string, servings: number, cookTime: number, image?: string) => void;
-  mealType: 'breakfast' | 'lunch' | 'dinner' | 'snacks';
+  mealType: string;
+  mealTypeName?: string; // Display name of the meal type, defaults to one derived from its id
   dayName: string;
   className?: string;
 }
@@ -26,6 +28,7 @@ export function QuickAddRecipeModal({
   onClose,
   onAddRecipe,
   mealType,
+  mealTypeName,
   dayName,
   className,
 }: QuickAddRecipeModalProps) {
@@ -200,7 +203,7 @@ export function QuickAddRecipeModal({
         <DialogHeader className="pb-4">
           <DialogTitle className="text-xl font-bold flex items-center gap-2">
             <Plus className="h-5 w-5 text-primary" />
-            Add Recipe to {mealType.charAt(0).toUpperCase() + mealType.slice(1)}
+            Add Recipe to {mealTypeName || formatMealTypeName(mealType)}
           </DialogTitle>
           <DialogDescription>
             Choose a recipe for {dayName}
@@ -0,0 +1,237 @@
+/**
+ * Revision History Modal
+ *
+ * Lists the stored versions of a meal plan, one per edit, newest first:
+ * - What each edit did and when
+ * - Preview the meals of any version
+ * - Restore a version; the restore is kept in the history as well
+ */
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { ArrowLeft, History } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import type { DayMeals } from '@/types/meal-planning';
+import type { MealPlanOperation } from '@/utils/mealPlanHistory';
+import {
+  getDayMealTypeIds,
+  getMealsOfType,
+  getMealTypeDefinition,
+  type MealTypeDefinition,
+} from '@/utils/mealTypes';
+
+export interface RevisionSummary {
+  _id: string;
+  operation: MealPlanOperation;
+  mealCount: number;
+  createdAt: string;
+}
+
+interface Revision extends RevisionSummary {
+  days: DayMeals[];
+}
+
+interface RevisionHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onRestored: (days: DayMeals[], revision: RevisionSummary) => Promise<void>;
+  mealPlanId: string;
+  mealTypes: MealTypeDefinition[];
+}
+
+export function RevisionHistoryModal({
+  isOpen,
+  onClose,
+  onRestored,
+  mealPlanId,
+  mealTypes
+}: RevisionHistoryModalProps) {
+  const [revisions, setRevisions] = useState<RevisionSummary[]>([]);
+  const [selectedRevision, setSelectedRevision] = useState<Revision | null>(null);
+  const [isFetching, setIsFetching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload the list each time the modal opens, edits may have been made since
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const loadRevisions = async () => {
+      setIsFetching(true);
+      setError(null);
+      setSelectedRevision(null);
+      try {
+        const response = await fetch(`/api/meal-plans/${mealPlanId}/revisions`);
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to load history');
+        }
+        setRevisions(result.data || []);
+      } catch (loadError) {
+        console.error('❌ Error loading meal plan history:', loadError);
+        setError('Unable to load the history of this plan. Please try again.');
+      } finally {
+        setIsFetching(false);
+      }
+    };
+
+    loadRevisions();
+  }, [isOpen, mealPlanId]);
+
+  const openRevision = async (revision: RevisionSummary) => {
+    setIsFetching(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/meal-plans/${mealPlanId}/revisions/${revision._id}`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load version');
+      }
+      setSelectedRevision(result.data);
+    } catch (loadError) {
+      console.error('❌ Error loading meal plan revision:', loadError);
+      setError('Unable to load this version. Please try again.');
+    } finally {
+      setIsFetching(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!selectedRevision) return;
+    if (!window.confirm(`Replace the meals of this plan with the version of ${format(new Date(selectedRevision.createdAt), 'MMM d, HH:mm')}?`)) return;
+
+    setIsFetching(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/meal-plans/${mealPlanId}/revisions/${selectedRevision._id}/restore`, { method: 'POST' });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to restore version');
+      }
+      await onRestored(result.data.days, selectedRevision);
+      onClose();
+    } catch (restoreError) {
+      console.error('❌ Error restoring meal plan revision:', restoreError);
+      setError(restoreError instanceof Error ? restoreError.message : 'Failed to restore version');
+    } finally {
+      setIsFetching(false);
+    }
+  };
+
+  const renderList = () => (
+    revisions.length === 0 && !isFetching ? (
+      <p className="text-sm text-[#6b7c6b] bg-white rounded-lg p-4 border border-[#d1ddd1]">
+        No earlier versions yet. A version is kept each time you change the meals of this plan.
+      </p>
+    ) : (
+      <ul className="space-y-2">
+        {revisions.map((revision, index) => (
+          <li key={revision._id}>
+            <button
+              type="button"
+              onClick={() => openRevision(revision)}
+              className="w-full text-left bg-white rounded-lg p-3 border border-[#d1ddd1] hover:border-[#a8b89c] transition-colors"
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-semibold text-[#4a5c4a] truncate">{revision.operation.label}</span>
+                {index === 0 && <span className="text-xs px-2 py-0.5 rounded-full bg-[#a8b89c] text-white flex-shrink-0">Current</span>}
+              </div>
+              <div className="flex flex-wrap items-center gap-3 mt-1 text-xs text-[#6b7c6b]">
+                <span>{format(new Date(revision.createdAt), 'EEE, MMM d, HH:mm')}</span>
+                <span>{revision.mealCount} {revision.mealCount === 1 ? 'meal' : 'meals'}</span>
+              </div>
+            </button>
+          </li>
+        ))}
+      </ul>
+    )
+  );
+
+  const renderRevision = (revision: Revision) => (
+    <>
+      <button type="button" onClick={() => setSelectedRevision(null)} className="flex items-center gap-1 text-sm text-[#6b7c6b] hover:text-[#4a5c4a]">
+        <ArrowLeft className="h-4 w-4" /> All versions
+      </button>
+
+      <div className="bg-white rounded-lg p-4 border border-[#d1ddd1]">
+        <h3 className="text-lg font-semibold text-[#4a5c4a]">{revision.operation.label}</h3>
+        <p className="text-sm text-[#6b7c6b]">{format(new Date(revision.createdAt), 'EEEE, MMM d, yyyy HH:mm')}</p>
+      </div>
+
+      <div className="space-y-3">
+        {revision.days.map((day, dayIndex) => (
+          <div key={dayIndex} className="bg-white rounded-lg p-3 border border-[#d1ddd1]">
+            <p className="text-sm font-semibold text-[#4a5c4a] mb-1">{format(new Date(day.date), 'EEEE, MMM d')}</p>
+            <div className="space-y-1">
+              {getDayMealTypeIds(day).flatMap(mealType => getMealsOfType(day, mealType).map((meal, mealIndex) => (
+                <div key={`${mealType}-${mealIndex}`} className="flex items-center gap-2 text-sm">
+                  <span className="w-24 flex-shrink-0 text-[#6b7c6b]">{getMealTypeDefinition(mealTypes, mealType).name}</span>
+                  <span className="text-[#4a5c4a] truncate">{meal.recipeName || 'Unknown Recipe'}</span>
+                  {Boolean(meal.servings) && <span className="text-xs text-[#6b7c6b] flex-shrink-0">{meal.servings} servings</span>}
+                </div>
+              )))}
+              {getDayMealTypeIds(day).every(mealType => getMealsOfType(day, mealType).length === 0) && (
+                <p className="text-sm text-[#6b7c6b]">No meals</p>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto bg-gradient-to-br from-[#f8faf8] to-[#f0f4f0]">
+        <DialogHeader className="text-center pb-2">
+          <div className="flex justify-center mb-4">
+            <div className="bg-[#a8b89c] rounded-full p-3">
+              <History className="h-8 w-8 text-white" />
+            </div>
+          </div>
+          <DialogTitle className="text-2xl font-bold text-[#4a5c4a]">
+            Plan History
+          </DialogTitle>
+          <DialogDescription className="text-[#6b7c6b] text-base">
+            Every change to the meals of this plan, newest first. Open a version to see it or restore it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {error && (
+            <p className="text-sm text-red-600 bg-red-50 border border-red-200 rounded-lg p-3">{error}</p>
+          )}
+
+          {selectedRevision ? renderRevision(selectedRevision) : renderList()}
+
+          <div className="flex justify-end space-x-3 pt-4 border-t border-[#d1ddd1]">
+            <Button
+              variant="outline"
+              onClick={onClose}
+              className="px-6 py-2 border-[#b8c8b8] text-[#6b7c6b] hover:bg-[#f0f4f0]"
+            >
+              Close
+            </Button>
+            {selectedRevision && (
+              <Button
+                onClick={handleRestore}
+                disabled={isFetching || selectedRevision._id === revisions[0]?._id}
+                className="px-6 py-2 bg-[#a8b89c] hover:bg-[#98a88c] text-white font-semibold rounded-lg disabled:opacity-50"
+              >
+                {isFetching ? 'Restoring...' : 'Restore This Version'}
+              </Button>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,295 @@
+/**
+ * Rotation Modal
+ *
+ * Lets the user alternate between template meal plans week by week:
+ * - Choose the templates and their order (a template may appear more than once)
+ * - Choose the first week and optionally the last one
+ * - Pause, resume or end the rotation
+ * New weeks are filled from the rotation when they are first opened.
+ */
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { ArrowDown, ArrowUp, Repeat, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { toDateKey, type IMealPlan } from '@/types/meal-planning';
+import { MAX_ROTATION_TEMPLATES, type RotationStatus, type RotationWeek } from '@/utils/mealPlanRotation';
+
+interface RotationModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// The rotation as the API returns it
+interface RotationData {
+  templateIds: string[];
+  startDate: string;
+  endDate?: string;
+  status: RotationStatus;
+  skipOptionalMeals: boolean;
+  upcomingWeeks: RotationWeek[];
+}
+
+const STATUS_LABELS: Record<RotationStatus, string> = {
+  active: 'Active',
+  paused: 'Paused',
+  ended: 'Ended',
+};
+
+export function RotationModal({ isOpen, onClose }: RotationModalProps) {
+  const [rotation, setRotation] = useState<RotationData | null>(null);
+  const [templates, setTemplates] = useState<IMealPlan[]>([]);
+  const [templateIds, setTemplateIds] = useState<string[]>([]);
+  const [startDate, setStartDate] = useState(toDateKey(new Date()));
+  const [endDate, setEndDate] = useState('');
+  const [skipOptionalMeals, setSkipOptionalMeals] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyRotation = (data: RotationData | null) => {
+    setRotation(data);
+    if (!data) return;
+    setTemplateIds(data.templateIds);
+    setStartDate(toDateKey(new Date(data.startDate)));
+    setEndDate(data.endDate ? toDateKey(new Date(data.endDate)) : '');
+    setSkipOptionalMeals(data.skipOptionalMeals);
+  };
+
+  // Load the rotation and the templates it can use each time the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const loadRotation = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const [rotationResponse, templatesResponse] = await Promise.all([
+          fetch('/api/meal-plans/rotation'),
+          fetch('/api/meal-plans?template=true'),
+        ]);
+        if (!rotationResponse.ok || !templatesResponse.ok) {
+          throw new Error('Failed to load rotation');
+        }
+        const rotationResult = await rotationResponse.json();
+        const templatesResult = await templatesResponse.json();
+        setTemplates(templatesResult.data || []);
+        applyRotation(rotationResult.data);
+      } catch (loadError) {
+        console.error('❌ Error loading rotation:', loadError);
+        setError('Unable to load your rotation. Please try again.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadRotation();
+  }, [isOpen]);
+
+  const getTemplateTitle = (templateId: string) =>
+    templates.find(template => template._id === templateId)?.title || 'Deleted template';
+
+  const moveTemplate = (index: number, offset: number) => {
+    setTemplateIds(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const sendRequest = async (method: 'PUT' | 'PATCH', body: object) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/meal-plans/rotation', {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to update rotation');
+      }
+      return result;
+    } catch (requestError) {
+      console.error('❌ Error updating rotation:', requestError);
+      setError(requestError instanceof Error ? requestError.message : 'Failed to update rotation');
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (rotation && rotation.status !== 'ended' && !window.confirm('Starting the rotation again replaces your current one. Weeks you already have are kept.')) {
+      return;
+    }
+    const result = await sendRequest('PUT', { templateIds, startDate, endDate: endDate || null, skipOptionalMeals });
+    if (result) applyRotation(result.data);
+  };
+
+  const handleStatusChange = async (status: RotationStatus) => {
+    if (status === 'ended' && !window.confirm('End this rotation? No more weeks will be planned from it.')) return;
+    const result = await sendRequest('PATCH', { status });
+    if (result) applyRotation(result.data);
+  };
+
+  const inputClassName = 'w-full px-3 py-2 border border-[#d1ddd1] rounded-lg focus:outline-none focus:ring-2 focus:ring-[#a8b89c] bg-[#fafcfa] text-[#4a5c4a]';
+  const availableTemplates = templates.filter(template => template._id);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto bg-gradient-to-br from-[#f8faf8] to-[#f0f4f0]">
+        <DialogHeader className="text-center pb-2">
+          <div className="flex justify-center mb-4">
+            <div className="bg-[#a8b89c] rounded-full p-3">
+              <Repeat className="h-8 w-8 text-white" />
+            </div>
+          </div>
+          <DialogTitle className="text-2xl font-bold text-[#4a5c4a]">
+            Meal Plan Rotation
+          </DialogTitle>
+          <DialogDescription className="text-[#6b7c6b] text-base">
+            Alternate between your templates every week. New weeks are filled in when you first open them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {error && (
+            <p className="text-sm text-red-600 bg-red-50 border border-red-200 rounded-lg p-3">{error}</p>
+          )}
+
+          {rotation && (
+            <div className="flex items-center justify-between bg-white rounded-lg p-3 border border-[#d1ddd1]">
+              <span className="text-sm text-[#4a5c4a]">
+                Status: <span className="font-semibold">{STATUS_LABELS[rotation.status]}</span>
+              </span>
+              {rotation.status !== 'ended' && (
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={isLoading}
+                    onClick={() => handleStatusChange(rotation.status === 'active' ? 'paused' : 'active')}
+                    className="border-[#b8c8b8] text-[#4a5c4a] hover:bg-[#f0f4f0]"
+                  >
+                    {rotation.status === 'active' ? 'Pause' : 'Resume'}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={isLoading}
+                    onClick={() => handleStatusChange('ended')}
+                    className="border-[#b8c8b8] text-[#6b7c6b] hover:bg-[#f0f4f0]"
+                  >
+                    End
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {availableTemplates.length === 0 && !isLoading ? (
+            <p className="text-sm text-[#6b7c6b] bg-white rounded-lg p-4 border border-[#d1ddd1]">
+              You have no templates yet. Turn meal plans into templates on the Saved Meal Plans page first.
+            </p>
+          ) : (
+            <>
+              <div>
+                <p className="text-sm font-semibold text-[#4a5c4a] mb-2">Templates, in order</p>
+                <ol className="space-y-2">
+                  {templateIds.map((templateId, index) => (
+                    <li key={`${templateId}-${index}`} className="flex items-center gap-2 bg-white rounded-lg p-2 border border-[#d1ddd1]">
+                      <span className="w-6 text-center text-sm font-semibold text-[#6b7c6b]">{String.fromCharCode(65 + index)}</span>
+                      <span className="flex-1 text-sm text-[#4a5c4a] truncate">{getTemplateTitle(templateId)}</span>
+                      <button type="button" onClick={() => moveTemplate(index, -1)} disabled={index === 0} className="p-1 text-[#6b7c6b] hover:text-[#4a5c4a] disabled:opacity-30" title="Move up">
+                        <ArrowUp className="h-4 w-4" />
+                      </button>
+                      <button type="button" onClick={() => moveTemplate(index, 1)} disabled={index === templateIds.length - 1} className="p-1 text-[#6b7c6b] hover:text-[#4a5c4a] disabled:opacity-30" title="Move down">
+                        <ArrowDown className="h-4 w-4" />
+                      </button>
+                      <button type="button" onClick={() => setTemplateIds(prev => prev.filter((_, position) => position !== index))} className="p-1 text-[#6b7c6b] hover:text-red-600" title="Remove">
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+                <select
+                  value=""
+                  onChange={(e) => e.target.value && setTemplateIds(prev => [...prev, e.target.value])}
+                  disabled={templateIds.length >= MAX_ROTATION_TEMPLATES}
+                  className={`${inputClassName} mt-2`}
+                  aria-label="Add a template"
+                >
+                  <option value="">+ Add a template</option>
+                  {availableTemplates.map(template => (
+                    <option key={template._id} value={template._id}>{template.title || 'Untitled template'}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label htmlFor="rotation-start-date" className="text-sm font-semibold text-[#4a5c4a] mb-1 block">First week</label>
+                  <input id="rotation-start-date" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={inputClassName} />
+                </div>
+                <div>
+                  <label htmlFor="rotation-end-date" className="text-sm font-semibold text-[#4a5c4a] mb-1 block">Until (optional)</label>
+                  <input id="rotation-end-date" type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} className={inputClassName} />
+                </div>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-[#4a5c4a]">
+                <input type="checkbox" checked={skipOptionalMeals} onChange={(e) => setSkipOptionalMeals(e.target.checked)} className="accent-[#a8b89c]" />
+                Leave out meals marked optional
+              </label>
+            </>
+          )}
+
+          {rotation && rotation.upcomingWeeks.length > 0 && (
+            <div className="bg-white rounded-lg p-4 border border-[#d1ddd1]">
+              <p className="text-sm font-semibold text-[#4a5c4a] mb-2">Coming up</p>
+              <ul className="space-y-1">
+                {rotation.upcomingWeeks.map(week => (
+                  <li key={week.weekStart} className="text-sm text-[#6b7c6b]">
+                    Week of {format(parseISO(week.weekStart), 'MMM d')}: {getTemplateTitle(week.templateId)}
+                  </li>
+                ))}
+              </ul>
+              {rotation.status === 'paused' && (
+                <p className="text-xs text-[#6b7c6b] mt-2">Paused: weeks are not filled in until you resume.</p>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-4 border-t border-[#d1ddd1]">
+            <Button
+              variant="outline"
+              onClick={onClose}
+              className="px-6 py-2 border-[#b8c8b8] text-[#6b7c6b] hover:bg-[#f0f4f0]"
+            >
+              Close
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={isLoading || templateIds.length === 0 || !startDate}
+              className="px-6 py-2 bg-[#a8b89c] hover:bg-[#98a88c] text-white font-semibold rounded-lg disabled:opacity-50"
+            >
+              {rotation && rotation.status !== 'ended' ? 'Restart Rotation' : 'Start Rotation'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,224 @@
+/**
+ * Save Template Modal
+ *
+ * Adds a meal plan to the template library:
+ * - Name, description, category, difficulty and dietary tags to find it by
+ * - Mark meals as optional, so they can be left out when the template is applied
+ * - Share it publicly with other users
+ */
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { BookOpen } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import type { IMealPlan } from '@/types/meal-planning';
+import {
+  getTemplateSlotKey,
+  TEMPLATE_CATEGORIES,
+  TEMPLATE_CATEGORY_LABELS,
+  TEMPLATE_DIFFICULTIES,
+  TEMPLATE_DIFFICULTY_LABELS,
+  type MealPlanTemplate,
+  type TemplateCategoryType,
+} from '@/types/meal-plan-templates';
+import { formatMealTypeName, getDayMealTypeIds, getMealsOfType } from '@/utils/mealTypes';
+
+interface SaveTemplateModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved: (template: MealPlanTemplate) => void;
+  plan: IMealPlan | null;
+}
+
+export function SaveTemplateModal({ isOpen, onClose, onSaved, plan }: SaveTemplateModalProps) {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [category, setCategory] = useState<TemplateCategoryType>('custom');
+  const [difficulty, setDifficulty] = useState<MealPlanTemplate['difficulty']>('medium');
+  const [dietaryTags, setDietaryTags] = useState('');
+  const [isPublic, setIsPublic] = useState(false);
+  const [optionalMeals, setOptionalMeals] = useState<Set<string>>(new Set());
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the plan's title each time the modal opens for a plan
+  useEffect(() => {
+    if (!isOpen || !plan) return;
+    setName(plan.title || '');
+    setDescription('');
+    setCategory('custom');
+    setDifficulty('medium');
+    setDietaryTags('');
+    setIsPublic(false);
+    setOptionalMeals(new Set());
+    setError(null);
+  }, [isOpen, plan]);
+
+  const toggleOptionalMeal = (key: string) => {
+    setOptionalMeals(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    if (!plan?._id) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/meal-plans/templates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          planId: plan._id,
+          name: name.trim(),
+          description: description.trim() || undefined,
+          category,
+          difficulty,
+          dietaryTags: dietaryTags.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean),
+          isPublic,
+          optionalMeals: [...optionalMeals],
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save template');
+      }
+      onSaved(result.data);
+      onClose();
+    } catch (saveError) {
+      console.error('❌ Error saving template:', saveError);
+      setError(saveError instanceof Error ? saveError.message : 'Failed to save template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClassName = 'w-full px-3 py-2 border border-[#d1ddd1] rounded-lg focus:outline-none focus:ring-2 focus:ring-[#a8b89c] bg-[#fafcfa] text-[#4a5c4a]';
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto bg-gradient-to-br from-[#f8faf8] to-[#f0f4f0]">
+        <DialogHeader className="text-center pb-2">
+          <div className="flex justify-center mb-4">
+            <div className="bg-[#a8b89c] rounded-full p-3">
+              <BookOpen className="h-8 w-8 text-white" />
+            </div>
+          </div>
+          <DialogTitle className="text-2xl font-bold text-[#4a5c4a]">
+            Add to Template Library
+          </DialogTitle>
+          <DialogDescription className="text-[#6b7c6b] text-base">
+            Reuse this plan for any week from the Templates button of your meal plan.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {error && (
+            <p className="text-sm text-red-600 bg-red-50 border border-red-200 rounded-lg p-3">{error}</p>
+          )}
+
+          <div>
+            <label htmlFor="template-name" className="text-sm font-semibold text-[#4a5c4a] mb-1 block">Name</label>
+            <input id="template-name" type="text" value={name} maxLength={100} onChange={(e) => setName(e.target.value)} className={inputClassName} />
+          </div>
+
+          <div>
+            <label htmlFor="template-description" className="text-sm font-semibold text-[#4a5c4a] mb-1 block">Description (optional)</label>
+            <textarea id="template-description" value={description} maxLength={500} rows={2} onChange={(e) => setDescription(e.target.value)} className={inputClassName} />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="template-category" className="text-sm font-semibold text-[#4a5c4a] mb-1 block">Category</label>
+              <select id="template-category" value={category} onChange={(e) => setCategory(e.target.value as TemplateCategoryType)} className={inputClassName}>
+                {TEMPLATE_CATEGORIES.map(option => (
+                  <option key={option} value={option}>{TEMPLATE_CATEGORY_LABELS[option]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="template-difficulty" className="text-sm font-semibold text-[#4a5c4a] mb-1 block">Difficulty</label>
+              <select id="template-difficulty" value={difficulty} onChange={(e) => setDifficulty(e.target.value as MealPlanTemplate['difficulty'])} className={inputClassName}>
+                {TEMPLATE_DIFFICULTIES.map(option => (
+                  <option key={option} value={option}>{TEMPLATE_DIFFICULTY_LABELS[option]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="template-dietary-tags" className="text-sm font-semibold text-[#4a5c4a] mb-1 block">Dietary tags (comma separated)</label>
+            <input id="template-dietary-tags" type="text" value={dietaryTags} placeholder="vegetarian, gluten-free" onChange={(e) => setDietaryTags(e.target.value)} className={inputClassName} />
+          </div>
+
+          {plan && plan.days.some(day => getDayMealTypeIds(day).some(mealType => getMealsOfType(day, mealType).length > 0)) && (
+            <div className="bg-white rounded-lg p-4 border border-[#d1ddd1]">
+              <p className="text-sm font-semibold text-[#4a5c4a] mb-1">Optional meals</p>
+              <p className="text-xs text-[#6b7c6b] mb-3">Ticked meals can be left out when the template is applied.</p>
+              <div className="space-y-2">
+                {plan.days.map((day, dayIndex) => {
+                  const meals = getDayMealTypeIds(day).flatMap(mealType =>
+                    getMealsOfType(day, mealType).map((meal, slotIndex) => ({ meal, mealType, key: getTemplateSlotKey(dayIndex, mealType, slotIndex) }))
+                  );
+                  if (meals.length === 0) return null;
+
+                  return (
+                    <div key={dayIndex}>
+                      <p className="text-xs font-semibold text-[#6b7c6b]">
+                        {new Date(day.date).toLocaleDateString('en-US', { weekday: 'long' })}
+                      </p>
+                      {meals.map(({ meal, mealType, key }) => (
+                        <label key={key} className="flex items-center gap-2 text-sm text-[#4a5c4a]">
+                          <input type="checkbox" checked={optionalMeals.has(key)} onChange={() => toggleOptionalMeal(key)} className="accent-[#a8b89c]" />
+                          <span className="text-[#6b7c6b]">{formatMealTypeName(mealType)}:</span>
+                          <span className="truncate">{meal.recipeName || meal.name || 'Unknown Recipe'}</span>
+                        </label>
+                      ))}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          <label className="flex items-center gap-2 text-sm text-[#4a5c4a]">
+            <input type="checkbox" checked={isPublic} onChange={(e) => setIsPublic(e.target.checked)} className="accent-[#a8b89c]" />
+            Share publicly, so other users can find and rate it
+          </label>
+
+          <div className="flex justify-end space-x-3 pt-4 border-t border-[#d1ddd1]">
+            <Button
+              variant="outline"
+              onClick={onClose}
+              className="px-6 py-2 border-[#b8c8b8] text-[#6b7c6b] hover:bg-[#f0f4f0]"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={isSaving || !name.trim() || !plan?._id}
+              className="px-6 py-2 bg-[#a8b89c] hover:bg-[#98a88c] text-white font-semibold rounded-lg disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Add to Library'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,464 @@
+/**
+ * Template Library Modal
+ *
+ * Lets the user browse meal plan templates and apply one to the open plan:
+ * - Filter by whose templates, category, difficulty, prep time, dietary tags and text
+ * - Rate other users' templates, publish or delete their own
+ * - Choose among a meal's alternatives and leave out optional meals
+ * The template's days are repeated when the plan is longer than the template.
+ */
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { ArrowLeft, BookOpen, Star, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import {
+  getTemplateSlotKey,
+  MAX_TEMPLATE_RATING,
+  TEMPLATE_CATEGORIES,
+  TEMPLATE_CATEGORY_LABELS,
+  TEMPLATE_DIFFICULTIES,
+  TEMPLATE_DIFFICULTY_LABELS,
+  type MealPlanTemplate,
+} from '@/types/meal-plan-templates';
+import {
+  getDayMealTypeIds,
+  getMealsOfType,
+  getMealTypeDefinition,
+  type MealTypeDefinition,
+} from '@/utils/mealTypes';
+
+export interface ApplyTemplateSelection {
+  skipOptional: boolean;
+  choices: Record<string, number | null>;
+}
+
+interface TemplateLibraryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onApply: (template: MealPlanTemplate, selection: ApplyTemplateSelection) => Promise<boolean>;
+  mealTypes: MealTypeDefinition[];
+  isLoading?: boolean;
+}
+
+type TemplateScope = 'all' | 'mine' | 'public' | 'official';
+
+const SCOPE_LABELS: Record<TemplateScope, string> = {
+  all: 'All',
+  mine: 'Mine',
+  public: 'Community',
+  official: 'Official',
+};
+
+export function TemplateLibraryModal({
+  isOpen,
+  onClose,
+  onApply,
+  mealTypes,
+  isLoading = false
+}: TemplateLibraryModalProps) {
+  const { data: session } = useSession();
+  const currentUserId = session?.user?.id || session?.user?.email;
+
+  const [templates, setTemplates] = useState<MealPlanTemplate[]>([]);
+  const [selectedTemplate, setSelectedTemplate] = useState<MealPlanTemplate | null>(null);
+  const [scope, setScope] = useState<TemplateScope>('all');
+  const [category, setCategory] = useState('');
+  const [difficulty, setDifficulty] = useState('');
+  const [maxPrepTime, setMaxPrepTime] = useState('');
+  const [dietaryTags, setDietaryTags] = useState('');
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [skipOptional, setSkipOptional] = useState(false);
+  const [choices, setChoices] = useState<Record<string, number | null>>({});
+  const [isFetching, setIsFetching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload the list whenever the modal opens or a filter changes
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const loadTemplates = async () => {
+      setIsFetching(true);
+      setError(null);
+      try {
+        const params = new URLSearchParams({ scope });
+        if (category) params.set('category', category);
+        if (difficulty) params.set('difficulty', difficulty);
+        if (parseInt(maxPrepTime, 10) > 0) params.set('maxPrepTime', String(parseInt(maxPrepTime, 10)));
+        if (dietaryTags.trim()) params.set('dietaryTags', dietaryTags);
+        if (search) params.set('search', search);
+
+        const response = await fetch(`/api/meal-plans/templates?${params}`);
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to load templates');
+        }
+        setTemplates(result.data || []);
+      } catch (loadError) {
+        console.error('❌ Error loading templates:', loadError);
+        setError('Unable to load templates. Please try again.');
+      } finally {
+        setIsFetching(false);
+      }
+    };
+
+    loadTemplates();
+  }, [isOpen, scope, category, difficulty, maxPrepTime, dietaryTags, search]);
+
+  const openTemplate = (template: MealPlanTemplate | null) => {
+    setSelectedTemplate(template);
+    setChoices({});
+    setSkipOptional(false);
+    setError(null);
+  };
+
+  // Keeps the list and the open template in sync after a change
+  const replaceTemplate = (template: MealPlanTemplate) => {
+    setTemplates(prev => prev.map(item => item._id === template._id ? template : item));
+    setSelectedTemplate(template);
+  };
+
+  const sendTemplateRequest = async (url: string, method: 'POST' | 'PATCH' | 'DELETE', body?: object) => {
+    setIsFetching(true);
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        ...(body && { body: JSON.stringify(body) }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to update template');
+      }
+      return result;
+    } catch (requestError) {
+      console.error('❌ Error updating template:', requestError);
+      setError(requestError instanceof Error ? requestError.message : 'Failed to update template');
+      return null;
+    } finally {
+      setIsFetching(false);
+    }
+  };
+
+  const handleRate = async (template: MealPlanTemplate, rating: number) => {
+    const result = await sendTemplateRequest(`/api/meal-plans/templates/${template._id}/rate`, 'POST', { rating });
+    if (result) replaceTemplate(result.data);
+  };
+
+  const handleTogglePublic = async (template: MealPlanTemplate) => {
+    const result = await sendTemplateRequest(`/api/meal-plans/templates/${template._id}`, 'PATCH', { isPublic: !template.isPublic });
+    if (result) replaceTemplate(result.data);
+  };
+
+  const handleDelete = async (template: MealPlanTemplate) => {
+    if (!window.confirm(`Delete the template "${template.name}"? Plans made from it are kept.`)) return;
+    const result = await sendTemplateRequest(`/api/meal-plans/templates/${template._id}`, 'DELETE');
+    if (result) {
+      setTemplates(prev => prev.filter(item => item._id !== template._id));
+      openTemplate(null);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!selectedTemplate) return;
+    if (!window.confirm(`Replace the meals of this plan with "${selectedTemplate.name}"?`)) return;
+
+    const applied = await onApply(selectedTemplate, { skipOptional, choices });
+    if (applied) {
+      setTemplates(prev => prev.map(item => item._id === selectedTemplate._id ? { ...item, usageCount: item.usageCount + 1 } : item));
+      openTemplate(null);
+      onClose();
+    }
+  };
+
+  const inputClassName = 'w-full px-3 py-2 border border-[#d1ddd1] rounded-lg focus:outline-none focus:ring-2 focus:ring-[#a8b89c] bg-[#fafcfa] text-[#4a5c4a]';
+  const isBusy = isFetching || isLoading;
+
+  const renderRating = (template: MealPlanTemplate) => (
+    <span className="inline-flex items-center gap-1 text-xs text-[#6b7c6b]">
+      <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
+      {template.ratingCount ? `${template.rating?.toFixed(1)} (${template.ratingCount})` : 'No ratings'}
+    </span>
+  );
+
+  const renderBrowser = () => (
+    <>
+      <div className="flex gap-2">
+        {(Object.keys(SCOPE_LABELS) as TemplateScope[]).map(option => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => setScope(option)}
+            className={`px-3 py-1 rounded-full text-sm border ${scope === option ? 'bg-[#a8b89c] border-[#a8b89c] text-white' : 'bg-white border-[#d1ddd1] text-[#4a5c4a] hover:bg-[#f0f4f0]'}`}
+          >
+            {SCOPE_LABELS[option]}
+          </button>
+        ))}
+      </div>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          setSearch(searchInput.trim());
+        }}
+      >
+        <input
+          type="search"
+          value={searchInput}
+          onChange={(e) => setSearchInput(e.target.value)}
+          placeholder="Search templates and press Enter"
+          className={inputClassName}
+          aria-label="Search templates"
+        />
+      </form>
+
+      <div className="grid grid-cols-2 gap-3">
+        <select value={category} onChange={(e) => setCategory(e.target.value)} className={inputClassName} aria-label="Category">
+          <option value="">Any category</option>
+          {TEMPLATE_CATEGORIES.map(option => (
+            <option key={option} value={option}>{TEMPLATE_CATEGORY_LABELS[option]}</option>
+          ))}
+        </select>
+        <select value={difficulty} onChange={(e) => setDifficulty(e.target.value)} className={inputClassName} aria-label="Difficulty">
+          <option value="">Any difficulty</option>
+          {TEMPLATE_DIFFICULTIES.map(option => (
+            <option key={option} value={option}>{TEMPLATE_DIFFICULTY_LABELS[option]}</option>
+          ))}
+        </select>
+        <input
+          type="number"
+          min="0"
+          value={maxPrepTime}
+          onChange={(e) => setMaxPrepTime(e.target.value)}
+          placeholder="Max prep time (min)"
+          className={inputClassName}
+          aria-label="Maximum prep time in minutes"
+        />
+        <input
+          type="text"
+          value={dietaryTags}
+          onChange={(e) => setDietaryTags(e.target.value)}
+          placeholder="Dietary tags, e.g. vegan"
+          className={inputClassName}
+          aria-label="Dietary tags, comma separated"
+        />
+      </div>
+
+      {templates.length === 0 && !isFetching ? (
+        <p className="text-sm text-[#6b7c6b] bg-white rounded-lg p-4 border border-[#d1ddd1]">
+          No templates match. Add your own from the Saved Meal Plans page.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {templates.map(template => (
+            <li key={template._id}>
+              <button
+                type="button"
+                onClick={() => openTemplate(template)}
+                className="w-full text-left bg-white rounded-lg p-3 border border-[#d1ddd1] hover:border-[#a8b89c] transition-colors"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-semibold text-[#4a5c4a] truncate">{template.name}</span>
+                  <span className="flex gap-1 flex-shrink-0">
+                    {template.isOfficial && <span className="text-xs px-2 py-0.5 rounded-full bg-[#a8b89c] text-white">Official</span>}
+                    {template.userId === currentUserId && <span className="text-xs px-2 py-0.5 rounded-full bg-[#f0f4f0] text-[#4a5c4a]">{template.isPublic ? 'Yours, public' : 'Yours'}</span>}
+                  </span>
+                </div>
+                {template.description && (
+                  <p className="text-sm text-[#6b7c6b] mt-1 line-clamp-2">{template.description}</p>
+                )}
+                <div className="flex flex-wrap items-center gap-3 mt-2 text-xs text-[#6b7c6b]">
+                  <span>{TEMPLATE_CATEGORY_LABELS[template.category] || template.category}</span>
+                  <span>{template.templateDays.length} {template.templateDays.length === 1 ? 'day' : 'days'}</span>
+                  <span>{TEMPLATE_DIFFICULTY_LABELS[template.difficulty] || template.difficulty}</span>
+                  {template.prepTime > 0 && <span>{template.prepTime} min prep</span>}
+                  {renderRating(template)}
+                  <span>Used {template.usageCount} {template.usageCount === 1 ? 'time' : 'times'}</span>
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </>
+  );
+
+  const renderTemplate = (template: MealPlanTemplate) => {
+    const isOwn = template.userId === currentUserId;
+
+    return (
+      <>
+        <button type="button" onClick={() => openTemplate(null)} className="flex items-center gap-1 text-sm text-[#6b7c6b] hover:text-[#4a5c4a]">
+          <ArrowLeft className="h-4 w-4" /> All templates
+        </button>
+
+        <div className="bg-white rounded-lg p-4 border border-[#d1ddd1] space-y-2">
+          <div className="flex items-start justify-between gap-2">
+            <h3 className="text-lg font-semibold text-[#4a5c4a]">{template.name}</h3>
+            {renderRating(template)}
+          </div>
+          {template.description && <p className="text-sm text-[#6b7c6b]">{template.description}</p>}
+          {template.dietaryTags && template.dietaryTags.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {template.dietaryTags.map(tag => (
+                <span key={tag} className="text-xs px-2 py-0.5 rounded-full bg-[#f0f4f0] text-[#4a5c4a]">{tag}</span>
+              ))}
+            </div>
+          )}
+
+          {isOwn ? (
+            <div className="flex gap-2 pt-1">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={isBusy}
+                onClick={() => handleTogglePublic(template)}
+                className="border-[#b8c8b8] text-[#4a5c4a] hover:bg-[#f0f4f0]"
+              >
+                {template.isPublic ? 'Make Private' : 'Share Publicly'}
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={isBusy}
+                onClick={() => handleDelete(template)}
+                className="border-[#b8c8b8] text-[#6b7c6b] hover:bg-[#f0f4f0]"
+              >
+                <Trash2 className="h-4 w-4 mr-1" /> Delete
+              </Button>
+            </div>
+          ) : (
+            <div className="flex items-center gap-1 pt-1" aria-label="Your rating">
+              <span className="text-sm text-[#6b7c6b] mr-1">Your rating:</span>
+              {Array.from({ length: MAX_TEMPLATE_RATING }, (_, index) => index + 1).map(rating => (
+                <button
+                  key={rating}
+                  type="button"
+                  disabled={isBusy}
+                  onClick={() => handleRate(template, rating)}
+                  title={`${rating} ${rating === 1 ? 'star' : 'stars'}`}
+                >
+                  <Star className={`h-5 w-5 ${rating <= (template.userRating || 0) ? 'fill-yellow-400 text-yellow-400' : 'text-[#b8c8b8]'}`} />
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-[#4a5c4a]">
+          <input type="checkbox" checked={skipOptional} onChange={(e) => setSkipOptional(e.target.checked)} className="accent-[#a8b89c]" />
+          Leave out meals marked optional
+        </label>
+
+        <div className="space-y-3">
+          {template.templateDays.map((day, dayIndex) => (
+            <div key={dayIndex} className="bg-white rounded-lg p-3 border border-[#d1ddd1]">
+              <p className="text-sm font-semibold text-[#4a5c4a] mb-2">{day.dayName || `Day ${dayIndex + 1}`}</p>
+              <div className="space-y-1">
+                {getDayMealTypeIds(day).flatMap(mealType => getMealsOfType(day, mealType).map((meal, slotIndex) => {
+                  const key = getTemplateSlotKey(dayIndex, mealType, slotIndex);
+                  const choice = choices[key];
+                  const isSkipped = meal.isOptional && (choice === null || (choice === undefined && skipOptional));
+                  const options = [meal, ...(meal.alternatives || [])];
+
+                  return (
+                    <div key={key} className={`flex items-center gap-2 text-sm ${isSkipped ? 'opacity-50' : ''}`}>
+                      <span className="w-24 flex-shrink-0 text-[#6b7c6b]">{getMealTypeDefinition(mealTypes, mealType).name}</span>
+                      {options.length > 1 ? (
+                        <select
+                          value={typeof choice === 'number' ? choice : 0}
+                          onChange={(e) => setChoices(prev => ({ ...prev, [key]: Number(e.target.value) }))}
+                          disabled={isSkipped}
+                          className="flex-1 min-w-0 px-2 py-1 border border-[#d1ddd1] rounded-md bg-[#fafcfa] text-[#4a5c4a]"
+                          aria-label={`Choose ${getMealTypeDefinition(mealTypes, mealType).name} on ${day.dayName || `day ${dayIndex + 1}`}`}
+                        >
+                          {options.map((option, optionIndex) => (
+                            <option key={optionIndex} value={optionIndex}>{option.recipeName}</option>
+                          ))}
+                        </select>
+                      ) : (
+                        <span className="flex-1 min-w-0 truncate text-[#4a5c4a]">{meal.recipeName}</span>
+                      )}
+                      {meal.isOptional && (
+                        <label className="flex items-center gap-1 text-xs text-[#6b7c6b] flex-shrink-0">
+                          <input
+                            type="checkbox"
+                            checked={!isSkipped}
+                            onChange={(e) => setChoices(prev => ({ ...prev, [key]: e.target.checked ? (typeof choice === 'number' ? choice : 0) : null }))}
+                            className="accent-[#a8b89c]"
+                          />
+                          Optional
+                        </label>
+                      )}
+                    </div>
+                  );
+                }))}
+                {getDayMealTypeIds(day).every(mealType => getMealsOfType(day, mealType).length === 0) && (
+                  <p className="text-sm text-[#6b7c6b]">No meals</p>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </>
+    );
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto bg-gradient-to-br from-[#f8faf8] to-[#f0f4f0]">
+        <DialogHeader className="text-center pb-2">
+          <div className="flex justify-center mb-4">
+            <div className="bg-[#a8b89c] rounded-full p-3">
+              <BookOpen className="h-8 w-8 text-white" />
+            </div>
+          </div>
+          <DialogTitle className="text-2xl font-bold text-[#4a5c4a]">
+            Template Library
+          </DialogTitle>
+          <DialogDescription className="text-[#6b7c6b] text-base">
+            Start this plan from your own templates, the community&apos;s or official ones.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {error && (
+            <p className="text-sm text-red-600 bg-red-50 border border-red-200 rounded-lg p-3">{error}</p>
+          )}
+
+          {selectedTemplate ? renderTemplate(selectedTemplate) : renderBrowser()}
+
+          <div className="flex justify-end space-x-3 pt-4 border-t border-[#d1ddd1]">
+            <Button
+              variant="outline"
+              onClick={onClose}
+              className="px-6 py-2 border-[#b8c8b8] text-[#6b7c6b] hover:bg-[#f0f4f0]"
+            >
+              Close
+            </Button>
+            {selectedTemplate && (
+              <Button
+                onClick={handleApply}
+                disabled={isBusy}
+                className="px-6 py-2 bg-[#a8b89c] hover:bg-[#98a88c] text-white font-semibold rounded-lg disabled:opacity-50"
+              >
+                {isLoading ? 'Applying...' : 'Apply Template'}
+              </Button>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -79,17 +79,17 @@ export function RecipeActions({ recipe, contentRef, currentServings }: RecipeAct
         return;
       }
 
+      const recipeId: string = (recipe.spoonacularId?.toString()) || recipe._id?.toString() || '';
       const response: Response = await fetch('/api/grocery-list', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ ingredients }),
+        body: JSON.stringify({ ingredients, recipeId }),
       });
 
       if (response.ok) {
         toast({ title: 'Success', description: 'Ingredients added to your shopping list.' });
-        const recipeId: string = (recipe.spoonacularId?.toString()) || recipe._id?.toString() || '';
         router.push(`/user/shopping-list?recipeId=${recipeId}&servings=${currentServings}`);
       } else {
         const errorData = await response.json();
@@ -2,6 +2,7 @@
 
 import { useState, useRef, useEffect } from 'react';
 import { Search, ChevronDown, Users, BarChart3 } from 'lucide-react';
+import { DIFFICULTY_TIME_BUCKETS, getFacetCount, type RecipeSearchFacets } from '@/utils/recipeSearch';
 
 interface RecipeFiltersProps {
   searchQuery: string;
@@ -17,6 +18,7 @@ interface RecipeFiltersProps {
   communityOnly: boolean;
   setCommunityOnly: (communityOnly: boolean) => void;
   onFilterChange: () => void;
+  facets?: RecipeSearchFacets | null; // Recipe counts shown next to the options
 }
 
 export function RecipeFilters({
@@ -32,7 +34,8 @@ export function RecipeFilters({
   setSelectedAllergy,
   communityOnly,
   setCommunityOnly,
-  onFilterChange
+  onFilterChange,
+  facets
 }: RecipeFiltersProps) {
   const [categoryDropdownOpen, setCategoryDropdownOpen] = useState(false);
   const [difficultyDropdownOpen, setDifficultyDropdownOpen] = useState(false);
@@ -87,6 +90,11 @@ export function RecipeFilters({
     { value: 'wheat', label: '🌾 Wheat' },
   ];
 
+  // Number of recipes an option would give; nothing for the "All" options or without facets
+  const renderCount = (count: number | undefined) => count !== undefined && (
+    <span className="text-xs text-muted-foreground">{count}</span>
+  );
+
   // Close dropdowns on outside click
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -170,9 +178,10 @@ export function RecipeFilters({
                     onFilterChange();
                     setCategoryDropdownOpen(false);
                   }}
-                  className="w-full px-3 py-2 text-left hover:bg-neutral-100 dark:hover:bg-neutral-800 first:rounded-t-md last:rounded-b-md"
+                  className="w-full px-3 py-2 text-left hover:bg-neutral-100 dark:hover:bg-neutral-800 first:rounded-t-md last:rounded-b-md flex items-center justify-between"
                 >
-                  {category.label}
+                  <span>{category.label}</span>
+                  {category.value && renderCount(getFacetCount(facets?.dishTypes, category.value))}
                 </button>
               ))}
             </div>
@@ -201,9 +210,10 @@ export function RecipeFilters({
                     onFilterChange();
                     setDietDropdownOpen(false);
                   }}
-                  className="w-full px-3 py-2 text-left hover:bg-neutral-100 dark:hover:bg-neutral-800 first:rounded-t-md last:rounded-b-md"
+                  className="w-full px-3 py-2 text-left hover:bg-neutral-100 dark:hover:bg-neutral-800 first:rounded-t-md last:rounded-b-md flex items-center justify-between"
                 >
-                  {diet.label}
+                  <span>{diet.label}</span>
+                  {diet.value && renderCount(getFacetCount(facets?.diets, diet.value))}
                 </button>
               ))}
             </div>
@@ -263,9 +273,10 @@ export function RecipeFilters({
                     onFilterChange();
                     setDifficultyDropdownOpen(false);
                   }}
-                  className="w-full px-3 py-2 text-left hover:bg-neutral-100 dark:hover:bg-neutral-800 first:rounded-t-md last:rounded-b-md"
+                  className="w-full px-3 py-2 text-left hover:bg-neutral-100 dark:hover:bg-neutral-800 first:rounded-t-md last:rounded-b-md flex items-center justify-between"
                 >
-                  {difficulty.label}
+                  <span>{difficulty.label}</span>
+                  {difficulty.value && renderCount(getFacetCount(facets?.timeBuckets, DIFFICULTY_TIME_BUCKETS[difficulty.value]))}
                 </button>
               ))}
             </div>
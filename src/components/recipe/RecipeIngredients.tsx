@@ -2,54 +2,24 @@
  * Recipe Ingredients Component
  * 
  * Displays recipe ingredients with quantities and units.
- * Includes serving size adjustment functionality.
+ * Includes serving size adjustment functionality, scaling by the amount of a
+ * key ingredient and switching between US and metric units.
  */
 
 'use client';
 
 import React from 'react';
-import { Plus, Minus, Globe } from 'lucide-react';
+import { Plus, Minus, Globe, Scale, AlertTriangle } from 'lucide-react';
 import { Recipe } from '@/types/recipe';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-
-type UnitSystem = 'us' | 'metric';
-
-interface UnitConversion {
-  [key: string]: {
-    metric?: { unit: string; factor: number };
-    us?: { unit: string; factor: number };
-  };
-}
-
-const unitConversions: UnitConversion = {
-  'cup': { metric: { unit: 'ml', factor: 236.588 } },
-  'cups': { metric: { unit: 'ml', factor: 236.588 } },
-  'fluid ounce': { metric: { unit: 'ml', factor: 29.5735 } },
-  'fluid ounces': { metric: { unit: 'ml', factor: 29.5735 } },
-  'fl oz': { metric: { unit: 'ml', factor: 29.5735 } },
-  'tablespoon': { metric: { unit: 'ml', factor: 14.7868 } },
-  'tablespoons': { metric: { unit: 'ml', factor: 14.7868 } },
-  'tbsp': { metric: { unit: 'ml', factor: 14.7868 } },
-  'teaspoon': { metric: { unit: 'ml', factor: 4.92892 } },
-  'teaspoons': { metric: { unit: 'ml', factor: 4.92892 } },
-  'tsp': { metric: { unit: 'ml', factor: 4.92892 } },
-  'pint': { metric: { unit: 'ml', factor: 473.176 } },
-  'pints': { metric: { unit: 'ml', factor: 473.176 } },
-  'quart': { metric: { unit: 'l', factor: 0.946353 } },
-  'quarts': { metric: { unit: 'l', factor: 0.946353 } },
-  'gallon': { metric: { unit: 'l', factor: 3.78541 } },
-  'gallons': { metric: { unit: 'l', factor: 3.78541 } },
-  'ounce': { metric: { unit: 'g', factor: 28.3495 } },
-  'ounces': { metric: { unit: 'g', factor: 28.3495 } },
-  'oz': { metric: { unit: 'g', factor: 28.3495 } },
-  'pound': { metric: { unit: 'g', factor: 453.592 } },
-  'pounds': { metric: { unit: 'g', factor: 453.592 } },
-  'lb': { metric: { unit: 'g', factor: 453.592 } },
-  'lbs': { metric: { unit: 'g', factor: 453.592 } },
-  'fahrenheit': { metric: { unit: '°C', factor: 1 } }, 
-  'f': { metric: { unit: '°C', factor: 1 } },
-};
+import {
+  detectUnitSystem,
+  getKeyIngredientScale,
+  getServingsScale,
+  scaleIngredient,
+  type UnitSystem,
+} from '@/utils/recipeScaling';
 
 interface RecipeIngredientsProps {
   recipe: Recipe;
@@ -58,11 +28,18 @@ interface RecipeIngredientsProps {
 }
 
 export function RecipeIngredients({ recipe, currentServings, setCurrentServings }: RecipeIngredientsProps) {
-  const [unitSystem, setUnitSystem] = React.useState<UnitSystem>('us');
   const ingredients = recipe.extendedIngredients || [];
+  const [unitSystem, setUnitSystem] = React.useState<UnitSystem>(() => detectUnitSystem(ingredients));
+  const [keyIngredientIndex, setKeyIngredientIndex] = React.useState<number | null>(null);
+  const [keyAmount, setKeyAmount] = React.useState('');
+  const [keyUnit, setKeyUnit] = React.useState('');
+  const [keyError, setKeyError] = React.useState<string | null>(null);
+
+  const scale = getServingsScale(recipe.servings || 1, currentServings);
 
+  // Whole servings from the buttons, also after scaling by an ingredient gave e.g. 2.5
   const adjustServings = (increment: boolean) => {
-    const newServings = increment ? currentServings + 1 : Math.max(1, currentServings - 1);
+    const newServings = increment ? Math.floor(currentServings) + 1 : Math.max(1, Math.ceil(currentServings) - 1);
     setCurrentServings(newServings);
   };
 
@@ -70,48 +47,25 @@ export function RecipeIngredients({ recipe, currentServings, setCurrentServings
     setUnitSystem(prev => prev === 'us' ? 'metric' : 'us');
   };
 
-  const convertUnit = (amount: number, originalUnit: string): { amount: number; unit: string } => {
-    if (unitSystem === 'us') {
-      return { amount, unit: originalUnit };
-    }
-    const unitKey = originalUnit.toLowerCase().trim();
-    const conversion = unitConversions[unitKey];
-    if (conversion && conversion.metric) {
-      const convertedAmount = amount * conversion.metric.factor;
-      let finalAmount = convertedAmount;
-      let finalUnit = conversion.metric.unit;
-      if (finalUnit === 'ml' && convertedAmount >= 1000) {
-        finalAmount = convertedAmount / 1000;
-        finalUnit = 'l';
-      }
-      if (finalUnit === 'g' && convertedAmount >= 1000) {
-        finalAmount = convertedAmount / 1000;
-        finalUnit = 'kg';
-      }
-      return { amount: Math.round(finalAmount * 100) / 100, unit: finalUnit };
-    }
-    return { amount, unit: originalUnit };
-  };
-
-  const getAdjustedQuantity = (originalQuantity: number) => {
-    if (!originalQuantity || isNaN(originalQuantity)) return 0;
-    const ratio = currentServings / recipe.servings;
-    const adjusted = originalQuantity * ratio;
-    if (adjusted < 1) return Math.round(adjusted * 100) / 100;
-    if (adjusted < 10) return Math.round(adjusted * 10) / 10;
-    return Math.round(adjusted);
+  const selectKeyIngredient = (value: string) => {
+    const index = value === '' ? null : Number(value);
+    setKeyIngredientIndex(index);
+    setKeyUnit(index === null ? '' : ingredients[index].unit || '');
+    setKeyError(null);
   };
 
-  const formatQuantity = (quantity: number) => {
-    if (!quantity || quantity === 0) return '';
-    if (unitSystem === 'us') {
-      if (quantity === 0.25) return '¼';
-      if (quantity === 0.33) return '⅓';
-      if (quantity === 0.5) return '½';
-      if (quantity === 0.67) return '⅔';
-      if (quantity === 0.75) return '¾';
+  // "I have 750 g of chicken": the servings that use exactly that much
+  const applyKeyIngredient = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (keyIngredientIndex === null) return;
+    const ingredient = ingredients[keyIngredientIndex];
+    const keyScale = getKeyIngredientScale(ingredient, parseFloat(keyAmount.replace(',', '.')), keyUnit);
+    if (keyScale === null) {
+      setKeyError(`Can't scale ${ingredient.name} from ${keyUnit || 'pieces'}. Try ${ingredient.unit || 'pieces'}.`);
+      return;
     }
-    return quantity % 1 === 0 ? quantity.toString() : quantity.toString();
+    setKeyError(null);
+    setCurrentServings(Math.round((recipe.servings || 1) * keyScale * 10) / 10);
   };
 
   return (
@@ -138,22 +92,66 @@ export function RecipeIngredients({ recipe, currentServings, setCurrentServings
             <span className="text-sm">{unitSystem === 'us' ? 'Switch to Metric (g, ml, l)' : 'Switch to US (cups, oz, lb)'}</span>
           </Button>
         </div>
+        {ingredients.length > 0 && (
+          <form onSubmit={applyKeyIngredient} className="mt-4 space-y-2">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Scale className="h-4 w-4 text-muted-foreground" />
+              <span className="text-muted-foreground">I have</span>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={keyAmount}
+                onChange={(event) => setKeyAmount(event.target.value)}
+                placeholder="750"
+                aria-label="Amount you have"
+                className="w-16 rounded-md border border-input bg-background px-2 py-1"
+              />
+              <input
+                type="text"
+                value={keyUnit}
+                onChange={(event) => setKeyUnit(event.target.value)}
+                placeholder="g"
+                aria-label="Unit"
+                className="w-16 rounded-md border border-input bg-background px-2 py-1"
+              />
+              <select
+                value={keyIngredientIndex ?? ''}
+                onChange={(event) => selectKeyIngredient(event.target.value)}
+                aria-label="Ingredient"
+                className="flex-1 min-w-[8rem] rounded-md border border-input bg-background px-2 py-1"
+              >
+                <option value="">Choose an ingredient</option>
+                {ingredients.map((ingredient, index) => (
+                  <option key={`${ingredient.id}-${index}`} value={index}>{ingredient.name}</option>
+                ))}
+              </select>
+              <Button type="submit" variant="outline" size="sm" disabled={keyIngredientIndex === null || !keyAmount}>
+                Scale
+              </Button>
+            </div>
+            {keyError && <p className="text-xs text-destructive">{keyError}</p>}
+          </form>
+        )}
       </CardHeader>
       <CardContent>
         <ul className="space-y-3">
           {ingredients.map((ingredient, index) => {
-            const adjustedAmount = getAdjustedQuantity(ingredient.amount);
-            const converted = convertUnit(adjustedAmount, ingredient.unit);
-            const formattedAmount = formatQuantity(converted.amount);
+            const scaled = scaleIngredient(ingredient, scale, { unitSystem });
             const uniqueKey = `ingredient-${ingredient.id || 'no-id'}-${ingredient.name?.replace(/[^a-zA-Z0-9]/g, '') || 'unnamed'}-${index}`;
             return (
               <li key={uniqueKey} className="flex items-start gap-3 py-2 border-b border-border last:border-b-0">
                 <div className="flex-1">
                   <div className="flex items-baseline gap-2">
-                    {formattedAmount && <span className="font-medium text-primary">{formattedAmount}</span>}
-                    {converted.unit && <span className="text-sm text-muted-foreground">{converted.unit}</span>}
-                    <span className="font-medium">{ingredient.name}</span>
+                    {scaled.amountText && <span className="font-medium text-primary">{scaled.amountText}</span>}
+                    {scaled.unit && <span className="text-sm text-muted-foreground">{scaled.unit}</span>}
+                    <span className="font-medium">{scaled.name}</span>
                   </div>
+                  {scaled.warning && (
+                    <p className="flex items-center gap-1 text-xs text-orange-600 mt-1">
+                      <AlertTriangle className="h-3 w-3" />
+                      {scaled.warning}
+                    </p>
+                  )}
                 </div>
               </li>
             );
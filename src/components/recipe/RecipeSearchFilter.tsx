@@ -19,7 +19,7 @@ export default function RecipeSearchFilter({ className }: { className?: string }
 		const [diet, setDiet] = useState('');
 		const [tags, setTags] = useState<string[]>([]);
 		const [quick, setQuick] = useState(false);
-		const { results, loading, error, searchRecipes } = useRecipeSearch();
+		const { results, loading, error, suggestion, searchRecipes } = useRecipeSearch();
 			const [details, setDetails] = useState<Record<string, Partial<Recipe>>>({});
 
 	// Helper: Handle Spoonacular images with direct loading
@@ -143,6 +143,22 @@ export default function RecipeSearchFilter({ className }: { className?: string }
 			<div className="mt-6">
 				{loading && <div className="animate-pulse">Lade Rezepte...</div>}
 				{error && <div className="text-red-500">{error}</div>}
+				{suggestion && (
+					<div className="mb-4 text-sm">
+						Meinten Sie{' '}
+						<button
+							type="button"
+							className="font-semibold text-primary underline"
+							onClick={() => {
+								setQuery(suggestion);
+								searchRecipes({ search: suggestion, category, dietaryRestrictions: diet ? [diet] : [], tags, maxTime: quick ? 20 : undefined });
+							}}
+						>
+							{suggestion}
+						</button>
+						?
+					</div>
+				)}
 						<div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-6">
 										{results.map((recipe: Recipe) => {
 											const recipeId = recipe.id || recipe._id;
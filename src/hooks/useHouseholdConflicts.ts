@@ -0,0 +1,60 @@
+/**
+ * Household Conflicts Hook
+ *
+ * Loads which household members each recipe of a meal plan does not suit
+ * from `/api/meal-plans/[id]/household-conflicts`, and again whenever the
+ * plan's recipes or the household members change.
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { IMealPlan } from '@/types/meal-planning';
+import type { AttendeeConflict, HouseholdMember } from '@/utils/household';
+import { getDayMealTypeIds, getMealsOfType } from '@/utils/mealTypes';
+
+// Calendar edits are saved after a 1s debounce; reload once they have reached the server
+const RELOAD_DELAY_MS = 1500;
+
+export function useHouseholdConflicts(mealPlan: IMealPlan | null, members: HouseholdMember[]) {
+  const [conflicts, setConflicts] = useState<Map<string, AttendeeConflict[]>>(new Map());
+  const hasLoadedRef = useRef(false);
+
+  const planId = mealPlan?._id && mealPlan._id !== 'temp-id' ? mealPlan._id : '';
+
+  // Only reload when the planned recipes or the members change
+  const recipesSignature = useMemo(
+    () => Array.from(new Set((mealPlan?.days || []).flatMap(day => getDayMealTypeIds(day).flatMap(mealType =>
+      getMealsOfType(day, mealType).flatMap(meal => meal.recipeId ? [meal.recipeId] : [])
+    )))).sort().join(','),
+    [mealPlan]
+  );
+  const membersSignature = JSON.stringify(members);
+
+  useEffect(() => {
+    if (!planId || !recipesSignature || membersSignature === '[]') {
+      setConflicts(new Map());
+      return;
+    }
+
+    let cancelled = false;
+    const fetchConflicts = async () => {
+      try {
+        const response = await fetch(`/api/meal-plans/${planId}/household-conflicts`);
+        const result = await response.json();
+        if (!cancelled && response.ok && result.success) {
+          setConflicts(new Map(Object.entries(result.data.conflicts as Record<string, AttendeeConflict[]>)));
+        }
+      } catch (error) {
+        console.error('Error fetching household conflicts:', error);
+      }
+    };
+    const timeout = setTimeout(fetchConflicts, hasLoadedRef.current ? RELOAD_DELAY_MS : 0);
+    hasLoadedRef.current = true;
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [planId, recipesSignature, membersSignature]);
+
+  return conflicts;
+}
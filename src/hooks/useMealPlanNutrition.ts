@@ -0,0 +1,70 @@
+/**
+ * Meal Plan Nutrition Hook
+ *
+ * Loads the nutrition of the given meal plans from
+ * `/api/meal-plans/[id]/nutrition`, and again whenever their recipes or
+ * servings change. Days are keyed by date (yyyy-MM-dd) for the calendars.
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { IMealPlan } from '@/types/meal-planning';
+import type { DayNutrition, MealPlanNutrition } from '@/utils/mealPlanNutrition';
+import { getAllMeals } from '@/utils/mealTypes';
+
+// Calendar edits are saved after a 1s debounce; reload once they have reached the server
+const RELOAD_DELAY_MS = 1500;
+
+export function useMealPlanNutrition(mealPlans: IMealPlan[]) {
+  const [nutritionByPlan, setNutritionByPlan] = useState<Map<string, MealPlanNutrition>>(new Map());
+  const hasLoadedRef = useRef(false);
+
+  // Only reload when the planned recipes or servings change
+  const plansSignature = useMemo(
+    () => mealPlans
+      .filter(plan => plan._id && plan._id !== 'temp-id')
+      .map(plan => `${plan._id}=${plan.days.flatMap(day => getAllMeals(day)).map(meal => `${meal.recipeId}:${meal.servings}`).join(',')}`)
+      .join(';'),
+    [mealPlans]
+  );
+
+  useEffect(() => {
+    const planIds = plansSignature ? plansSignature.split(';').map(entry => entry.split('=')[0]) : [];
+    if (planIds.length === 0) {
+      setNutritionByPlan(new Map());
+      return;
+    }
+
+    let cancelled = false;
+    const fetchNutrition = async () => {
+      const results = await Promise.all(planIds.map(async (planId): Promise<[string, MealPlanNutrition] | null> => {
+        try {
+          const response = await fetch(`/api/meal-plans/${planId}/nutrition`);
+          const result = await response.json();
+          return response.ok && result.success ? [planId, result.data] : null;
+        } catch (error) {
+          console.error('Error fetching meal plan nutrition:', error);
+          return null;
+        }
+      }));
+
+      if (!cancelled) {
+        setNutritionByPlan(new Map(results.filter((entry): entry is [string, MealPlanNutrition] => entry !== null)));
+      }
+    };
+    const timeout = setTimeout(fetchNutrition, hasLoadedRef.current ? RELOAD_DELAY_MS : 0);
+    hasLoadedRef.current = true;
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [plansSignature]);
+
+  const nutritionByDate = useMemo(() => {
+    const days = new Map<string, DayNutrition>();
+    nutritionByPlan.forEach(nutrition => nutrition.days.forEach(day => days.set(day.date, day)));
+    return days;
+  }, [nutritionByPlan]);
+
+  return { nutritionByPlan, nutritionByDate };
+}
@@ -6,10 +6,12 @@ export function useRecipeSearch() {
   const [results, setResults] = useState([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [suggestion, setSuggestion] = useState<string | null>(null); // "Did you mean", when nothing was found
 
   async function searchRecipes(params: Record<string, any>) {
     setLoading(true);
     setError(null);
+    setSuggestion(null);
     try {
       const queryParams = new URLSearchParams();
       if (params.search) queryParams.append('search', params.search);
@@ -29,6 +31,7 @@ export function useRecipeSearch() {
         console.log('API Response:', data);
       }
       setResults(data.recipes || []);
+      setSuggestion(data.suggestion || null);
     } catch (err: any) {
       setError('Fehler bei der Rezeptsuche');
       setResults([]);
@@ -37,5 +40,5 @@ export function useRecipeSearch() {
     }
   }
 
-  return { results, loading, error, searchRecipes };
+  return { results, loading, error, suggestion, searchRecipes };
 }
@@ -1,14 +1,21 @@
 import { useState, useEffect } from 'react';
 import type { Recipe } from '@/types/recipe';
+import type { RecipeSearchFacets } from '@/utils/recipeSearch';
 
 // Unified hooks for fetching recipes via the Mongo-first /api/recipes endpoints
 
+// Error of useAllRecipes when the first page is empty
+export const NO_RECIPES_FOUND = 'Keine Rezepte gefunden';
+
 export function useAllRecipes(query = '', options: Record<string, string> = {}) {
   const [recipes, setRecipes] = useState<Recipe[]>([]);
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(true);
   const [hasMore, setHasMore] = useState(false);
   const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [facets, setFacets] = useState<RecipeSearchFacets | null>(null);
+  const [suggestion, setSuggestion] = useState<string | null>(null); // "Did you mean", when a search found nothing
 
   useEffect(() => {
     const fetchRecipes = async () => {
@@ -29,16 +36,20 @@ export function useAllRecipes(query = '', options: Record<string, string> = {})
 
         // For pagination, always replace recipes instead of accumulating
         setRecipes(batch);
+        setNextCursor(data.nextCursor ?? null);
+        setFacets(data.facets ?? null);
+        setSuggestion(data.suggestion ?? null);
 
         if (typeof data.total === 'number') {
           setTotal(data.total);
-          setHasMore(page * perPage < data.total);
+          // Pages fetched with a cursor do not know their page number
+          setHasMore(options.cursor ? Boolean(data.nextCursor) : page * perPage < data.total);
         } else {
           setTotal(batch.length);
           setHasMore(batch.length >= perPage);
         }
 
-        setError(batch.length === 0 && page === 1 ? 'Keine Rezepte gefunden' : '');
+        setError(batch.length === 0 && page === 1 ? NO_RECIPES_FOUND : '');
       } catch {
         if (options.page && parseInt(options.page, 10) > 1) {
           setError('Fehler beim Laden weiterer Rezepte');
@@ -54,7 +65,7 @@ export function useAllRecipes(query = '', options: Record<string, string> = {})
     fetchRecipes();
   }, [query, options]);
 
-  return { recipes, error, loading, hasMore, total };
+  return { recipes, error, loading, hasMore, total, nextCursor, facets, suggestion };
 }
 
 export function useRecipeById(recipeId: string) {
@@ -0,0 +1,46 @@
+/**
+ * User Names Hook
+ *
+ * Resolves user ids (like the `checkedBy` of grocery items) to display names
+ * through `/api/users/names`. Names already loaded are kept, so only new ids
+ * are requested.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+
+// User ids are MongoDB ObjectIds; anything else (e.g. a name stored before ids) is shown as is
+const USER_ID_PATTERN = /^[a-f0-9]{24}$/i;
+
+export function useUserNames(values: Array<string | undefined>) {
+  const [names, setNames] = useState<Record<string, string>>({});
+
+  const idsSignature = useMemo(
+    () => Array.from(new Set(values.filter((value): value is string => Boolean(value && USER_ID_PATTERN.test(value))))).sort().join(','),
+    [values]
+  );
+
+  useEffect(() => {
+    const missing = idsSignature.split(',').filter(id => id && !(id in names));
+    if (missing.length === 0) return;
+
+    fetch(`/api/users/names?ids=${missing.join(',')}`)
+      .then(response => (response.ok ? response.json() : { names: {} }))
+      .then(data => setNames(previous => ({
+        ...previous,
+        // Remember ids without a user too, so they are not requested again
+        ...Object.fromEntries(missing.map(id => [id, data.names?.[id] || ''])),
+      })))
+      .catch(error => console.error('Error loading user names:', error));
+  // Only new ids trigger a request
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [idsSignature]);
+
+  /**
+   * Gets the name to show for a user id
+   * @returns The name, the value itself if it is not an id, or null while unknown
+   */
+  return (value: string): string | null => {
+    if (!USER_ID_PATTERN.test(value)) return value;
+    return names[value] || null;
+  };
+}
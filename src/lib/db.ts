@@ -126,6 +126,17 @@ export const COLLECTIONS = {
   GROCERY_LISTS: 'grocerylists',
   SAVED_GROCERY_LISTS: 'savedgrocerylists', // Added for saved lists
   FAVORITES: 'favorites', // Added for favorite recipes
+  PANTRY_ITEMS: 'pantryitems', // Per-user pantry inventory
+  HOUSEHOLDS: 'households', // Groups of users sharing one grocery list
+  INGREDIENT_PRICES: 'ingredientprices', // Price catalogue for grocery cost estimates
+  GROCERY_SPEND: 'groceryspend', // Receipt totals entered after shopping trips
+  GROCERY_STAPLES: 'grocerystaples', // Recurring items added to the grocery list automatically
+  INGREDIENT_SUBSTITUTIONS: 'ingredientsubstitutions', // Substitution knowledge base for unavailable items
+  MEAL_PLAN_ROTATIONS: 'mealplanrotations', // Weekly rotations between template meal plans
+  MEAL_PLAN_REVISIONS: 'mealplanrevisions', // Earlier versions of meal plans, one per edit
+  SPOONACULAR_RECIPES: 'spoonacular_recipes', // Recipes cached from the Spoonacular API
+  RECIPE_SEARCH: 'recipesearch', // Search index over all recipe collections, rebuilt from them
+  RECIPE_SEARCH_STATE: 'recipesearchstate', // Statistics and rebuild lock of the recipe search index
 } as const;
 
 /**
@@ -0,0 +1,237 @@
+/**
+ * Recipe Resolver
+ *
+ * Meal plans and grocery lists point at recipes with IDs of several shapes:
+ * 'spoonacular-123', a bare Spoonacular number, a MongoDB ObjectId or a user
+ * recipe's slug. The recipe itself may be an admin recipe (`recipes`), a user
+ * upload (`userRecipes`) or a cached Spoonacular recipe (`spoonacular_recipes`).
+ *
+ * resolveRecipes() looks up a whole batch of such IDs with one query per
+ * collection, and one more for the authors when they are asked for.
+ */
+
+import { ObjectId, type Document } from 'mongodb';
+import { getCollection, COLLECTIONS } from '@/lib/db';
+import { shouldBeAdmin } from '@/config/team';
+
+export type RecipeSource = 'admin' | 'user' | 'spoonacular';
+
+export interface RecipeAuthor {
+  name: string;
+  email?: string;
+  type: 'admin' | 'user';
+}
+
+export interface ResolvedRecipe {
+  requestedId: string; // The ID as it was passed in
+  id: string; // Canonical ID: the ObjectId of admin and user recipes, 'spoonacular-123' for Spoonacular ones
+  source: RecipeSource;
+  recipe: Document;
+  author?: RecipeAuthor; // Only with the withAuthors option
+}
+
+export interface ResolveRecipesOptions {
+  withAuthors?: boolean;
+  fallbackAuthorEmail?: string; // Author of recipes that name none, e.g. the owner of the meal plan
+}
+
+export const SPOONACULAR_ID_PREFIX = 'spoonacular-';
+
+// Searched in this order: the first collection with a match wins
+const RECIPE_SOURCES: { source: RecipeSource; collection: string }[] = [
+  { source: 'admin', collection: COLLECTIONS.RECIPES },
+  { source: 'user', collection: COLLECTIONS.USER_RECIPES },
+  { source: 'spoonacular', collection: COLLECTIONS.SPOONACULAR_RECIPES },
+];
+
+// What a requested ID can match, as lookup keys ('field:value') and query values
+interface ParsedRecipeId {
+  keys: string[];
+  objectId?: ObjectId;
+  stringIds: string[];
+  numericId?: number;
+  slug?: string;
+}
+
+function parseRecipeId(id: string): ParsedRecipeId {
+  const spoonacularNumber = id.startsWith(SPOONACULAR_ID_PREFIX) ? id.slice(SPOONACULAR_ID_PREFIX.length) : id;
+
+  if (/^\d+$/.test(spoonacularNumber)) {
+    const numericId = parseInt(spoonacularNumber, 10);
+    const prefixedId = `${SPOONACULAR_ID_PREFIX}${numericId}`;
+    return {
+      keys: [`_id:${prefixedId}`, `spoonacularId:${numericId}`, `id:${numericId}`, `id:${id}`],
+      stringIds: [prefixedId, id],
+      numericId,
+    };
+  }
+
+  if (/^[0-9a-fA-F]{24}$/.test(id)) {
+    return {
+      keys: [`_id:${id.toLowerCase()}`, `id:${id}`],
+      objectId: new ObjectId(id),
+      stringIds: [id],
+    };
+  }
+
+  return {
+    keys: [`_id:${id}`, `id:${id}`, `slug:${id}`],
+    stringIds: [id],
+    slug: id,
+  };
+}
+
+// The keys a recipe document answers to, matching those of parseRecipeId
+function getDocumentKeys(recipe: Document): string[] {
+  const keys = [`_id:${String(recipe._id)}`];
+  if (recipe.id != null) keys.push(`id:${recipe.id}`);
+  if (recipe.spoonacularId != null) keys.push(`spoonacularId:${recipe.spoonacularId}`);
+  if (recipe.slug) keys.push(`slug:${recipe.slug}`);
+  return keys;
+}
+
+function getCanonicalId(source: RecipeSource, recipe: Document): string {
+  if (source === 'spoonacular' && typeof recipe._id !== 'string') {
+    const spoonacularId = Number(recipe.spoonacularId ?? recipe.id);
+    if (Number.isInteger(spoonacularId) && spoonacularId > 0) {
+      return `${SPOONACULAR_ID_PREFIX}${spoonacularId}`;
+    }
+  }
+  return String(recipe._id);
+}
+
+/**
+ * Looks up the documents of one collection matching any of the parsed IDs
+ */
+async function findInCollection(collectionName: string, parsedIds: ParsedRecipeId[]): Promise<Map<string, Document>> {
+  const objectIds = parsedIds.flatMap(parsed => parsed.objectId ? [parsed.objectId] : []);
+  const stringIds = parsedIds.flatMap(parsed => parsed.stringIds);
+  const numericIds = parsedIds.flatMap(parsed => parsed.numericId !== undefined ? [parsed.numericId] : []);
+  const slugs = parsedIds.flatMap(parsed => parsed.slug ? [parsed.slug] : []);
+
+  const conditions: Document[] = [
+    { _id: { $in: [...objectIds, ...stringIds] } },
+    { id: { $in: [...stringIds, ...numericIds] } },
+  ];
+  if (numericIds.length > 0) conditions.push({ spoonacularId: { $in: numericIds } });
+  if (slugs.length > 0) conditions.push({ slug: { $in: slugs } });
+
+  const collection = await getCollection<Document>(collectionName);
+  const recipes = await collection.find({ $or: conditions }).toArray();
+
+  const recipesByKey = new Map<string, Document>();
+  recipes.forEach(recipe => getDocumentKeys(recipe).forEach(key => {
+    if (!recipesByKey.has(key)) recipesByKey.set(key, recipe);
+  }));
+  return recipesByKey;
+}
+
+/**
+ * Looks up the authors of the recipes with a single query and attaches them
+ */
+async function attachAuthors(resolved: ResolvedRecipe[], fallbackAuthorEmail?: string): Promise<void> {
+  const authorIds = new Set<string>();
+  const authorEmails = new Set<string>();
+
+  const addReference = (reference: unknown, isEmail: boolean) => {
+    if (!reference) return;
+    const value = String(reference);
+    if (!isEmail && ObjectId.isValid(value)) {
+      authorIds.add(value);
+    } else {
+      authorEmails.add(value);
+    }
+  };
+
+  resolved.forEach(({ recipe }) => {
+    addReference(recipe.authorId, false);
+    addReference(recipe.authorEmail, true);
+  });
+  // Meal plans are keyed by the session user id or, failing that, the email
+  addReference(fallbackAuthorEmail, false);
+
+  if (authorIds.size === 0 && authorEmails.size === 0) return;
+
+  const usersCollection = await getCollection<Document>(COLLECTIONS.USERS);
+  const users = await usersCollection.find({
+    $or: [
+      { _id: { $in: Array.from(authorIds, id => new ObjectId(id)) } },
+      { email: { $in: Array.from(authorEmails) } },
+    ]
+  }, { projection: { name: 1, displayName: 1, email: 1 } }).toArray();
+
+  const usersByKey = new Map<string, Document>();
+  users.forEach(user => {
+    usersByKey.set(`_id:${String(user._id)}`, user);
+    if (user.email) usersByKey.set(`email:${user.email}`, user);
+  });
+
+  const findUser = (reference: unknown) => reference
+    ? usersByKey.get(`_id:${String(reference)}`) || usersByKey.get(`email:${String(reference)}`)
+    : undefined;
+
+  resolved.forEach(entry => {
+    const { authorId, authorEmail } = entry.recipe;
+    const user = authorId || authorEmail
+      ? findUser(authorId) || findUser(authorEmail)
+      : findUser(fallbackAuthorEmail);
+
+    if (user) {
+      entry.author = {
+        name: user.name || user.displayName || 'Unknown',
+        email: user.email,
+        type: user.email && shouldBeAdmin(user.email) ? 'admin' : 'user',
+      };
+    }
+  });
+}
+
+/**
+ * Resolves a batch of recipe IDs of any shape across all recipe collections
+ *
+ * @param recipeIds - The IDs to look up; duplicates and empty IDs are ignored
+ * @param options - Whether to look up the recipes' authors as well
+ * @returns The found recipes by requested ID; IDs without a recipe are left out
+ */
+export async function resolveRecipes(recipeIds: string[], options: ResolveRecipesOptions = {}): Promise<Map<string, ResolvedRecipe>> {
+  const resolved = new Map<string, ResolvedRecipe>();
+  const uniqueIds = Array.from(new Set(recipeIds.map(id => String(id ?? '').trim()).filter(Boolean)));
+  if (uniqueIds.length === 0) return resolved;
+
+  const parsedIds = new Map(uniqueIds.map(id => [id, parseRecipeId(id)]));
+  const collections = await Promise.all(
+    RECIPE_SOURCES.map(async ({ source, collection }) => ({
+      source,
+      recipesByKey: await findInCollection(collection, Array.from(parsedIds.values())),
+    }))
+  );
+
+  parsedIds.forEach((parsed, requestedId) => {
+    for (const { source, recipesByKey } of collections) {
+      const recipe = parsed.keys.map(key => recipesByKey.get(key)).find(Boolean);
+      if (recipe) {
+        resolved.set(requestedId, { requestedId, id: getCanonicalId(source, recipe), source, recipe });
+        return;
+      }
+    }
+  });
+
+  if (options.withAuthors) {
+    await attachAuthors(Array.from(resolved.values()), options.fallbackAuthorEmail);
+  }
+
+  console.log(`🔎 Resolved ${resolved.size} of ${uniqueIds.length} recipe IDs`);
+  return resolved;
+}
+
+/**
+ * Resolves a single recipe ID of any shape
+ *
+ * @param recipeId - The ID to look up
+ * @param options - Whether to look up the recipe's author as well
+ * @returns The recipe, or null if no collection has it
+ */
+export async function resolveRecipe(recipeId: string, options: ResolveRecipesOptions = {}): Promise<ResolvedRecipe | null> {
+  const resolved = await resolveRecipes([recipeId], options);
+  return resolved.get(String(recipeId ?? '').trim()) || null;
+}
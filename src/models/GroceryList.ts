@@ -1,22 +1,84 @@
-
 import { getCollection, COLLECTIONS, toObjectId } from "@/lib/db";
-import { ObjectId } from "mongodb";
+import { Filter, ObjectId } from "mongodb";
+import { GroceryItem, mergeGroceryItems } from "@/utils/groceryListHelper";
+import {
+  applyGroceryListOperations,
+  type GroceryListActor,
+  type GroceryListOperation,
+} from "@/utils/groceryListOperations";
+import { findHouseholdByUserId } from "@/models/Household";
 
 // This interface can be expanded if there are more properties in a grocery list
 export interface GroceryList {
   _id: ObjectId;
-  userId: ObjectId;
-  ingredients: {
-    name: string;
-    quantity: number;
-    unit: string;
-  }[];
+  userId: ObjectId; // The user who created the list
+  householdId?: ObjectId; // Set when the list is shared by a household
+  ingredients: GroceryItem[];
+  alreadyHave?: GroceryItem[]; // Needed items covered by the user's pantry
+  version?: number; // Increased on every write; missing on lists from before versioning
   createdAt: Date;
   updatedAt: Date;
 }
 
+type GroceryListContent = Pick<GroceryList, 'ingredients' | 'alreadyHave'>;
+
+const MAX_UPDATE_ATTEMPTS = 5;
+
+/**
+ * Builds the filter for the list a user works on: the household's shared
+ * list if the user is in a household, otherwise their personal list.
+ */
+async function getActiveListScope(userId: string | ObjectId): Promise<{ filter: Filter<GroceryList>; householdId?: ObjectId }> {
+  const household = await findHouseholdByUserId(userId);
+  if (household) {
+    return { filter: { householdId: household._id }, householdId: household._id };
+  }
+  return { filter: { userId: toObjectId(userId), householdId: { $exists: false } } };
+}
+
+/**
+ * Reads the active list, computes its new content and writes it only if
+ * nobody else wrote in between (compare-and-set on `version`). On a conflict
+ * the change is recomputed from the fresh list, so concurrent edits merge.
+ */
+async function updateActiveGroceryList(
+  userId: string | ObjectId,
+  update: (existing: GroceryList | null) => GroceryListContent
+): Promise<GroceryList> {
+  const groceryCollection = await getCollection<GroceryList>(COLLECTIONS.GROCERY_LISTS);
+  const { filter, householdId } = await getActiveListScope(userId);
+
+  for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+    const existing = await groceryCollection.findOne(filter);
+    const content = update(existing);
+
+    if (!existing) {
+      const newList: Omit<GroceryList, '_id'> = {
+        userId: toObjectId(userId),
+        ...(householdId && { householdId }),
+        ...content,
+        version: 1,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      const result = await groceryCollection.insertOne(newList as GroceryList);
+      return { _id: result.insertedId, ...newList };
+    }
+
+    const result = await groceryCollection.findOneAndUpdate(
+      { _id: existing._id, version: existing.version ?? { $exists: false } },
+      { $set: { ...content, updatedAt: new Date() }, $inc: { version: 1 } },
+      { returnDocument: "after" }
+    );
+    if (result) return result;
+  }
+
+  throw new Error("Grocery list is being edited by someone else, please try again.");
+}
+
 /**
- * Finds a grocery list for a specific user.
+ * Finds the grocery list a user works on: the household's shared list if
+ * the user is in a household, otherwise their own.
  *
  * @param userId The ID of the user.
  * @returns The user's grocery list or null if not found.
@@ -24,7 +86,8 @@ export interface GroceryList {
 export async function findGroceryListByUserId(userId: string | ObjectId): Promise<GroceryList | null> {
   try {
     const groceryCollection = await getCollection<GroceryList>(COLLECTIONS.GROCERY_LISTS);
-    const list = await groceryCollection.findOne({ userId: toObjectId(userId) });
+    const { filter } = await getActiveListScope(userId);
+    const list = await groceryCollection.findOne(filter);
     return list;
   } catch (error) {
     console.error("Error finding grocery list by user ID:", error);
@@ -34,36 +97,121 @@ export async function findGroceryListByUserId(userId: string | ObjectId): Promis
 
 /**
  * Creates or updates a grocery list for a user.
- * If a list exists, it adds the new ingredients. If not, it creates a new list.
+ * If a list exists, the new ingredients are consolidated into it (same item,
+ * compatible unit → one line). If not, it creates a new list.
  *
  * @param userId The ID of the user.
- * @param ingredients The ingredients to add.
+ * @param ingredients The ingredients to add, already normalized via groceryListHelper.
+ * @param alreadyHave Optional items covered by the pantry, merged into the "already have" list.
  * @returns The created or updated grocery list.
  */
-export async function createOrUpdateGroceryList(userId: string | ObjectId, ingredients: any[]): Promise<GroceryList> {
+export async function createOrUpdateGroceryList(
+  userId: string | ObjectId,
+  ingredients: GroceryItem[],
+  alreadyHave: GroceryItem[] = []
+): Promise<GroceryList> {
   try {
-    const groceryCollection = await getCollection<GroceryList>(COLLECTIONS.GROCERY_LISTS);
+    return await updateActiveGroceryList(userId, existing => ({
+      ingredients: mergeGroceryItems(existing?.ingredients || [], ingredients),
+      alreadyHave: mergeGroceryItems(existing?.alreadyHave || [], alreadyHave),
+    }));
+  } catch (error) {
+    console.error("Error creating or updating grocery list:", error);
+    throw error;
+  }
+}
 
-    const result = await groceryCollection.findOneAndUpdate(
-      { userId: toObjectId(userId) },
-      {
-        $push: { ingredients: { $each: ingredients } },
-        $setOnInsert: { createdAt: new Date(), userId: toObjectId(userId) },
-        $set: { updatedAt: new Date() }
-      },
-      { 
-        upsert: true, // Create the document if it doesn't exist
-        returnDocument: "after" // Return the updated document
-      }
+/**
+ * Replaces all ingredients of a user's grocery list, creating the list if needed.
+ * Used when a fresh list is generated from a meal plan.
+ *
+ * @param userId The ID of the user.
+ * @param ingredients The consolidated ingredients for the new list.
+ * @param alreadyHave Optional items covered by the pantry.
+ * @returns The replaced grocery list.
+ */
+export async function replaceGroceryList(
+  userId: string | ObjectId,
+  ingredients: GroceryItem[],
+  alreadyHave: GroceryItem[] = []
+): Promise<GroceryList> {
+  try {
+    return await updateActiveGroceryList(userId, () => ({ ingredients, alreadyHave }));
+  } catch (error) {
+    console.error("Error replacing grocery list:", error);
+    throw error;
+  }
+}
+
+/**
+ * Applies check-offs, additions and removals to a user's grocery list.
+ * The operations are applied to the latest stored list, so changes made by
+ * other household members in the meantime are kept.
+ *
+ * @param userId The ID of the user making the changes.
+ * @param operations The operations, in the order they were made.
+ * @param actor Who made the changes, recorded on check-offs.
+ * @returns The updated grocery list.
+ */
+export async function applyOperationsToGroceryList(
+  userId: string | ObjectId,
+  operations: GroceryListOperation[],
+  actor: GroceryListActor
+): Promise<GroceryList> {
+  try {
+    return await updateActiveGroceryList(userId, existing => ({
+      ingredients: applyGroceryListOperations(existing?.ingredients || [], operations, actor),
+      alreadyHave: existing?.alreadyHave || [],
+    }));
+  } catch (error) {
+    console.error("Error applying grocery list operations:", error);
+    throw error;
+  }
+}
+
+/**
+ * Turns a user's personal list into the household's shared list.
+ * Does nothing if the user has no personal list.
+ *
+ * @param userId The ID of the user.
+ * @param householdId The ID of the household.
+ */
+export async function shareGroceryListWithHousehold(userId: string | ObjectId, householdId: string | ObjectId): Promise<void> {
+  try {
+    const groceryCollection = await getCollection<GroceryList>(COLLECTIONS.GROCERY_LISTS);
+    await groceryCollection.updateOne(
+      { userId: toObjectId(userId), householdId: { $exists: false } },
+      { $set: { householdId: toObjectId(householdId), updatedAt: new Date() }, $inc: { version: 1 } }
     );
+  } catch (error) {
+    console.error("Error sharing grocery list with household:", error);
+    throw new Error("Failed to share grocery list.");
+  }
+}
+
+/**
+ * Hands the shared list of a dissolved household to its last member.
+ * If that member still has a personal list, the shared list is dropped.
+ *
+ * @param householdId The ID of the dissolved household.
+ * @param userId The ID of the last member.
+ */
+export async function releaseHouseholdGroceryList(householdId: string | ObjectId, userId: string | ObjectId): Promise<void> {
+  try {
+    const groceryCollection = await getCollection<GroceryList>(COLLECTIONS.GROCERY_LISTS);
+    const personalList = await groceryCollection.findOne({ userId: toObjectId(userId), householdId: { $exists: false } });
 
-    if (!result) {
-        throw new Error("Failed to create or update grocery list.");
+    if (personalList) {
+      await groceryCollection.deleteOne({ householdId: toObjectId(householdId) });
+      return;
     }
 
-    return result;
+    await groceryCollection.updateOne(
+      { householdId: toObjectId(householdId) },
+      { $set: { userId: toObjectId(userId), updatedAt: new Date() }, $unset: { householdId: "" }, $inc: { version: 1 } }
+    );
   } catch (error) {
-    console.error("Error creating or updating grocery list:", error);
-    throw error;
+    console.error("Error releasing household grocery list:", error);
+    throw new Error("Failed to release household grocery list.");
   }
 }
@@ -0,0 +1,84 @@
+import { getCollection, COLLECTIONS, toObjectId } from "@/lib/db";
+import { ObjectId } from "mongodb";
+
+// The receipt total of one shopping trip
+export interface GrocerySpend {
+  _id: ObjectId;
+  userId: ObjectId;
+  amount: number; // Actual receipt total
+  estimatedCost?: number; // Estimate of the list at the time, for comparison
+  store?: string;
+  note?: string;
+  spentAt: Date; // Day of the shopping trip
+  createdAt: Date;
+}
+
+// Fields a client may set when entering a receipt
+export type GrocerySpendInput = Pick<GrocerySpend, 'amount'> & Partial<Pick<GrocerySpend, 'estimatedCost' | 'store' | 'note' | 'spentAt'>>;
+
+/**
+ * Finds the spend history of a user, most recent trip first.
+ *
+ * @param userId The ID of the user.
+ * @param since Optional earliest trip date to include.
+ * @returns The user's receipt entries.
+ */
+export async function findGrocerySpendByUserId(userId: string | ObjectId, since?: Date): Promise<GrocerySpend[]> {
+  try {
+    const spendCollection = await getCollection<GrocerySpend>(COLLECTIONS.GROCERY_SPEND);
+    return await spendCollection
+      .find({ userId: toObjectId(userId), ...(since && { spentAt: { $gte: since } }) })
+      .sort({ spentAt: -1, createdAt: -1 })
+      .toArray();
+  } catch (error) {
+    console.error("Error finding grocery spend by user ID:", error);
+    throw new Error("Failed to find grocery spend.");
+  }
+}
+
+/**
+ * Records the receipt total of a shopping trip.
+ *
+ * @param userId The ID of the user.
+ * @param input The amount and optional details of the trip.
+ * @returns The created entry.
+ */
+export async function addGrocerySpend(userId: string | ObjectId, input: GrocerySpendInput): Promise<GrocerySpend> {
+  try {
+    const spendCollection = await getCollection<GrocerySpend>(COLLECTIONS.GROCERY_SPEND);
+
+    const newEntry: Omit<GrocerySpend, '_id'> = {
+      userId: toObjectId(userId),
+      amount: input.amount,
+      ...(input.estimatedCost !== undefined && { estimatedCost: input.estimatedCost }),
+      ...(input.store && { store: input.store.trim() }),
+      ...(input.note && { note: input.note.trim() }),
+      spentAt: input.spentAt ? new Date(input.spentAt) : new Date(),
+      createdAt: new Date(),
+    };
+
+    const result = await spendCollection.insertOne(newEntry as GrocerySpend);
+    return { _id: result.insertedId, ...newEntry };
+  } catch (error) {
+    console.error("Error adding grocery spend:", error);
+    throw new Error("Failed to add grocery spend.");
+  }
+}
+
+/**
+ * Deletes a receipt entry.
+ *
+ * @param spendId The ID of the entry.
+ * @param userId The ID of the user who owns the entry, for security.
+ * @returns A boolean indicating if the deletion was successful.
+ */
+export async function deleteGrocerySpend(spendId: string | ObjectId, userId: string | ObjectId): Promise<boolean> {
+  try {
+    const spendCollection = await getCollection<GrocerySpend>(COLLECTIONS.GROCERY_SPEND);
+    const result = await spendCollection.deleteOne({ _id: toObjectId(spendId), userId: toObjectId(userId) });
+    return result.deletedCount === 1;
+  } catch (error) {
+    console.error("Error deleting grocery spend:", error);
+    throw new Error("Failed to delete grocery spend.");
+  }
+}
@@ -0,0 +1,244 @@
+import { getCollection, COLLECTIONS, toObjectId } from "@/lib/db";
+import { ObjectId } from "mongodb";
+import {
+  getNextStaplePeriodStart,
+  isStapleDue,
+  MAX_STAPLE_INTERVAL_WEEKS,
+  STAPLE_FREQUENCIES,
+  type StapleFrequency,
+  type StapleSchedule,
+  type WeekStartsOn,
+} from "@/utils/groceryStaples";
+
+// An item the user buys regularly, added to the active grocery list once per period
+export interface GroceryStaple extends StapleSchedule {
+  _id: ObjectId;
+  userId: ObjectId;
+  name: string;
+  quantity: number;
+  unit: string;
+  frequency: StapleFrequency;
+  intervalWeeks?: number;
+  lastAddedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// A staple claimed for a period, with what to reset it to if adding it fails
+export interface ClaimedGroceryStaple extends GroceryStaple {
+  previousAddedAt: Date | null;
+}
+
+// Fields a client may set when adding or editing a staple
+export interface GroceryStapleInput {
+  name: string;
+  quantity: number;
+  unit?: string;
+  frequency: StapleFrequency;
+  intervalWeeks?: number;
+}
+
+/**
+ * Validates a staple from a request body.
+ *
+ * @param input The request body.
+ * @param partial Whether missing fields are allowed (for edits).
+ * @returns An error message, or null if the input is valid.
+ */
+export function validateGroceryStapleInput(input: Partial<Record<keyof GroceryStapleInput, unknown>>, partial = false): string | null {
+  const { name, quantity, unit, frequency, intervalWeeks } = input;
+
+  if ((!partial || name !== undefined) && (typeof name !== 'string' || !name.trim())) {
+    return 'name is required';
+  }
+  if ((!partial || quantity !== undefined) && (typeof quantity !== 'number' || !(quantity > 0))) {
+    return 'quantity must be a number above zero';
+  }
+  if (unit !== undefined && typeof unit !== 'string') {
+    return "unit must be a string ('' for pieces)";
+  }
+  if ((!partial || frequency !== undefined) && !STAPLE_FREQUENCIES.includes(frequency as StapleFrequency)) {
+    return `frequency must be one of ${STAPLE_FREQUENCIES.join(', ')}`;
+  }
+  if (frequency === 'every-n-weeks' || intervalWeeks !== undefined) {
+    const isValid = typeof intervalWeeks === 'number' && Number.isInteger(intervalWeeks) &&
+      intervalWeeks >= 1 && intervalWeeks <= MAX_STAPLE_INTERVAL_WEEKS;
+    if (!isValid) return `intervalWeeks must be a whole number from 1 to ${MAX_STAPLE_INTERVAL_WEEKS}`;
+  }
+  return null;
+}
+
+/**
+ * Finds all staples of a user, sorted by name.
+ *
+ * @param userId The ID of the user.
+ * @returns The user's staples.
+ */
+export async function findGroceryStaplesByUserId(userId: string | ObjectId): Promise<GroceryStaple[]> {
+  try {
+    const staplesCollection = await getCollection<GroceryStaple>(COLLECTIONS.GROCERY_STAPLES);
+    return await staplesCollection
+      .find({ userId: toObjectId(userId) })
+      .sort({ name: 1 })
+      .toArray();
+  } catch (error) {
+    console.error("Error finding grocery staples by user ID:", error);
+    throw new Error("Failed to find grocery staples.");
+  }
+}
+
+/**
+ * Adds a staple for a user. It is due right away, so it is added to the
+ * grocery list the next time the shopping list opens or a list is generated.
+ *
+ * @param userId The ID of the user.
+ * @param input The validated staple.
+ * @returns The created staple.
+ */
+export async function createGroceryStaple(userId: string | ObjectId, input: GroceryStapleInput): Promise<GroceryStaple> {
+  try {
+    const staplesCollection = await getCollection<GroceryStaple>(COLLECTIONS.GROCERY_STAPLES);
+    const now = new Date();
+    const newStaple: Omit<GroceryStaple, '_id'> = {
+      userId: toObjectId(userId),
+      name: input.name.trim(),
+      quantity: input.quantity,
+      unit: (input.unit || '').trim(),
+      frequency: input.frequency,
+      ...(input.frequency === 'every-n-weeks' && { intervalWeeks: input.intervalWeeks }),
+      createdAt: now,
+      updatedAt: now,
+    };
+    const result = await staplesCollection.insertOne(newStaple as GroceryStaple);
+    return { _id: result.insertedId, ...newStaple };
+  } catch (error) {
+    console.error("Error creating grocery staple:", error);
+    throw new Error("Failed to create grocery staple.");
+  }
+}
+
+/**
+ * Updates a single staple of a user.
+ *
+ * @param userId The ID of the user.
+ * @param stapleId The ID of the staple.
+ * @param updates The validated fields to change.
+ * @returns The updated staple or null if not found.
+ */
+export async function updateGroceryStaple(
+  userId: string | ObjectId,
+  stapleId: string | ObjectId,
+  updates: Partial<GroceryStapleInput>
+): Promise<GroceryStaple | null> {
+  try {
+    const staplesCollection = await getCollection<GroceryStaple>(COLLECTIONS.GROCERY_STAPLES);
+    const $set: Partial<GroceryStaple> = { updatedAt: new Date() };
+    const $unset: Record<string, ''> = {};
+
+    if (updates.name !== undefined) $set.name = updates.name.trim();
+    if (updates.quantity !== undefined) $set.quantity = updates.quantity;
+    if (updates.unit !== undefined) $set.unit = updates.unit.trim();
+    if (updates.frequency !== undefined) {
+      $set.frequency = updates.frequency;
+      // Only "every n weeks" has an interval
+      if (updates.frequency !== 'every-n-weeks') $unset.intervalWeeks = '';
+    }
+    if (updates.intervalWeeks !== undefined && updates.frequency !== 'weekly' && updates.frequency !== 'monthly') {
+      $set.intervalWeeks = updates.intervalWeeks;
+    }
+
+    return await staplesCollection.findOneAndUpdate(
+      { _id: toObjectId(stapleId), userId: toObjectId(userId) },
+      { $set, ...(Object.keys($unset).length > 0 && { $unset }) },
+      { returnDocument: "after" }
+    );
+  } catch (error) {
+    console.error("Error updating grocery staple:", error);
+    throw new Error("Failed to update grocery staple.");
+  }
+}
+
+/**
+ * Deletes a single staple of a user.
+ *
+ * @param userId The ID of the user.
+ * @param stapleId The ID of the staple.
+ * @returns True if the staple was deleted.
+ */
+export async function deleteGroceryStaple(userId: string | ObjectId, stapleId: string | ObjectId): Promise<boolean> {
+  try {
+    const staplesCollection = await getCollection<GroceryStaple>(COLLECTIONS.GROCERY_STAPLES);
+    const result = await staplesCollection.deleteOne({
+      _id: toObjectId(stapleId),
+      userId: toObjectId(userId),
+    });
+    return result.deletedCount > 0;
+  } catch (error) {
+    console.error("Error deleting grocery staple:", error);
+    throw new Error("Failed to delete grocery staple.");
+  }
+}
+
+/**
+ * Marks the staples that have to be added for the period containing `at` as
+ * added and returns them. Each staple is claimed with a compare-and-set on
+ * `lastAddedAt`, so two requests at the same time never add it twice.
+ *
+ * @param userId The ID of the user.
+ * @param at A date inside the period to add the staples for.
+ * @param weekStartsOn The user's first day of the week.
+ * @param includeAddedThisPeriod Also return staples already added in this period
+ *   (used when the list they were added to is being replaced).
+ * @returns The claimed staples; release them with releaseGroceryStaples() if they cannot be added.
+ */
+export async function claimDueGroceryStaples(
+  userId: string | ObjectId,
+  at: Date,
+  weekStartsOn: WeekStartsOn = 1,
+  includeAddedThisPeriod = false
+): Promise<ClaimedGroceryStaple[]> {
+  try {
+    const staplesCollection = await getCollection<GroceryStaple>(COLLECTIONS.GROCERY_STAPLES);
+    const staples = await findGroceryStaplesByUserId(userId);
+    const claimed: ClaimedGroceryStaple[] = [];
+
+    for (const staple of staples) {
+      const isDue = isStapleDue(staple, at, weekStartsOn);
+      // Not due and last added before the next period: added for this one
+      const wasAddedThisPeriod = !isDue && staple.lastAddedAt! < getNextStaplePeriodStart(staple, at, weekStartsOn);
+      if (!isDue && !(includeAddedThisPeriod && wasAddedThisPeriod)) continue;
+
+      const result = await staplesCollection.updateOne(
+        { _id: staple._id, lastAddedAt: staple.lastAddedAt ?? { $exists: false } },
+        { $set: { lastAddedAt: at } }
+      );
+      if (result.modifiedCount > 0) claimed.push({ ...staple, lastAddedAt: at, previousAddedAt: staple.lastAddedAt ?? null });
+    }
+
+    return claimed;
+  } catch (error) {
+    console.error("Error claiming due grocery staples:", error);
+    throw new Error("Failed to add grocery staples.");
+  }
+}
+
+/**
+ * Releases claimed staples, e.g. when adding them to the grocery list failed,
+ * so they are added the next time. A staple claimed again since is left alone.
+ *
+ * @param staples The staples returned by claimDueGroceryStaples().
+ */
+export async function releaseGroceryStaples(staples: ClaimedGroceryStaple[]): Promise<void> {
+  try {
+    const staplesCollection = await getCollection<GroceryStaple>(COLLECTIONS.GROCERY_STAPLES);
+    for (const staple of staples) {
+      await staplesCollection.updateOne(
+        { _id: staple._id, lastAddedAt: staple.lastAddedAt },
+        staple.previousAddedAt ? { $set: { lastAddedAt: staple.previousAddedAt } } : { $unset: { lastAddedAt: '' } }
+      );
+    }
+  } catch (error) {
+    console.error("Error releasing grocery staples:", error);
+    throw new Error("Failed to release grocery staples.");
+  }
+}
@@ -0,0 +1,190 @@
+import { getCollection, COLLECTIONS, toObjectId } from "@/lib/db";
+import { ObjectId } from "mongodb";
+
+// An invitation that has not been accepted yet
+export interface HouseholdInvite {
+  email: string; // Lowercased
+  invitedBy: ObjectId;
+  invitedAt: Date;
+}
+
+// A group of users that share one active grocery list
+export interface Household {
+  _id: ObjectId;
+  name: string;
+  ownerId: ObjectId;
+  memberIds: ObjectId[]; // Includes the owner
+  invites: HouseholdInvite[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Finds the household a user belongs to.
+ *
+ * @param userId The ID of the user.
+ * @returns The household or null if the user is not in one.
+ */
+export async function findHouseholdByUserId(userId: string | ObjectId): Promise<Household | null> {
+  try {
+    const householdCollection = await getCollection<Household>(COLLECTIONS.HOUSEHOLDS);
+    return await householdCollection.findOne({ memberIds: toObjectId(userId) });
+  } catch (error) {
+    console.error("Error finding household by user ID:", error);
+    throw new Error("Failed to find household.");
+  }
+}
+
+/**
+ * Finds all households with a pending invite for an email address.
+ *
+ * @param email The invited email address.
+ * @returns The households that invited the address.
+ */
+export async function findHouseholdsInvitingEmail(email: string): Promise<Household[]> {
+  try {
+    const householdCollection = await getCollection<Household>(COLLECTIONS.HOUSEHOLDS);
+    return await householdCollection.find({ "invites.email": email.toLowerCase() }).toArray();
+  } catch (error) {
+    console.error("Error finding household invites:", error);
+    throw new Error("Failed to find household invites.");
+  }
+}
+
+/**
+ * Creates a household with the given user as owner and only member.
+ *
+ * @param ownerId The ID of the user creating the household.
+ * @param name A name for the household, e.g. "Our flat".
+ * @returns The created household.
+ */
+export async function createHousehold(ownerId: string | ObjectId, name: string): Promise<Household> {
+  try {
+    const householdCollection = await getCollection<Household>(COLLECTIONS.HOUSEHOLDS);
+
+    const newHousehold: Omit<Household, '_id'> = {
+      name,
+      ownerId: toObjectId(ownerId),
+      memberIds: [toObjectId(ownerId)],
+      invites: [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const result = await householdCollection.insertOne(newHousehold as Household);
+    return { _id: result.insertedId, ...newHousehold };
+  } catch (error) {
+    console.error("Error creating household:", error);
+    throw new Error("Failed to create household.");
+  }
+}
+
+/**
+ * Invites an email address to a household. Inviting the same address twice
+ * only refreshes the invite.
+ *
+ * @param householdId The ID of the household.
+ * @param email The email address to invite.
+ * @param invitedBy The ID of the member sending the invite.
+ * @returns The updated household or null if not found.
+ */
+export async function inviteToHousehold(
+  householdId: string | ObjectId,
+  email: string,
+  invitedBy: string | ObjectId
+): Promise<Household | null> {
+  try {
+    const householdCollection = await getCollection<Household>(COLLECTIONS.HOUSEHOLDS);
+    const normalizedEmail = email.trim().toLowerCase();
+
+    await householdCollection.updateOne(
+      { _id: toObjectId(householdId) },
+      { $pull: { invites: { email: normalizedEmail } } }
+    );
+
+    return await householdCollection.findOneAndUpdate(
+      { _id: toObjectId(householdId) },
+      {
+        $push: { invites: { email: normalizedEmail, invitedBy: toObjectId(invitedBy), invitedAt: new Date() } },
+        $set: { updatedAt: new Date() }
+      },
+      { returnDocument: "after" }
+    );
+  } catch (error) {
+    console.error("Error inviting to household:", error);
+    throw new Error("Failed to invite to household.");
+  }
+}
+
+/**
+ * Accepts a pending invite: the user becomes a member and the invite is removed.
+ *
+ * @param householdId The ID of the household.
+ * @param userId The ID of the invited user.
+ * @param email The invited user's email address.
+ * @returns The updated household or null if there was no invite for the email.
+ */
+export async function acceptHouseholdInvite(
+  householdId: string | ObjectId,
+  userId: string | ObjectId,
+  email: string
+): Promise<Household | null> {
+  try {
+    const householdCollection = await getCollection<Household>(COLLECTIONS.HOUSEHOLDS);
+    const normalizedEmail = email.toLowerCase();
+
+    return await householdCollection.findOneAndUpdate(
+      { _id: toObjectId(householdId), "invites.email": normalizedEmail },
+      {
+        $addToSet: { memberIds: toObjectId(userId) },
+        $pull: { invites: { email: normalizedEmail } },
+        $set: { updatedAt: new Date() }
+      },
+      { returnDocument: "after" }
+    );
+  } catch (error) {
+    console.error("Error accepting household invite:", error);
+    throw new Error("Failed to accept household invite.");
+  }
+}
+
+/**
+ * Removes a user from a household. If the owner leaves, the longest-standing
+ * member becomes the owner; the last member leaving deletes the household.
+ *
+ * @param householdId The ID of the household.
+ * @param userId The ID of the leaving user.
+ * @returns The updated household, or null if it was deleted.
+ */
+export async function leaveHousehold(
+  householdId: string | ObjectId,
+  userId: string | ObjectId
+): Promise<Household | null> {
+  try {
+    const householdCollection = await getCollection<Household>(COLLECTIONS.HOUSEHOLDS);
+    const household = await householdCollection.findOne({ _id: toObjectId(householdId) });
+    if (!household) return null;
+
+    const remainingIds = household.memberIds.filter(memberId => !memberId.equals(toObjectId(userId)));
+
+    if (remainingIds.length === 0) {
+      await householdCollection.deleteOne({ _id: household._id });
+      return null;
+    }
+
+    return await householdCollection.findOneAndUpdate(
+      { _id: household._id },
+      {
+        $pull: { memberIds: toObjectId(userId) },
+        $set: {
+          ownerId: household.ownerId.equals(toObjectId(userId)) ? remainingIds[0] : household.ownerId,
+          updatedAt: new Date()
+        }
+      },
+      { returnDocument: "after" }
+    );
+  } catch (error) {
+    console.error("Error leaving household:", error);
+    throw new Error("Failed to leave household.");
+  }
+}
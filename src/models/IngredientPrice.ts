@@ -0,0 +1,151 @@
+import { getCollection, COLLECTIONS, toObjectId } from "@/lib/db";
+import { ObjectId } from "mongodb";
+import type { IngredientPriceEntry } from "@/utils/groceryCostEstimator";
+import seedPrices from "@/lib/ingredientPrices.json";
+
+// Currency of all catalogue prices
+export const PRICE_CURRENCY = seedPrices.currency;
+
+// A catalogue price, editable by admins
+export interface IngredientPrice extends IngredientPriceEntry {
+  _id: ObjectId;
+  name: string;
+  unit: string;
+  price: number;
+  storePrices: Record<string, number>;
+  updatedAt: Date;
+}
+
+// Fields an admin may set when adding or editing a price
+export type IngredientPriceInput = Pick<IngredientPrice, 'name' | 'unit' | 'price'> & {
+  storePrices?: Record<string, number>;
+};
+
+/**
+ * Fills an empty catalogue from the bundled seed file (src/lib/ingredientPrices.json).
+ */
+async function seedIngredientPricesIfEmpty(): Promise<void> {
+  const priceCollection = await getCollection<IngredientPrice>(COLLECTIONS.INGREDIENT_PRICES);
+  if (await priceCollection.estimatedDocumentCount() > 0) return;
+
+  const now = new Date();
+  const seeded: Omit<IngredientPrice, '_id'>[] = seedPrices.prices.map(entry => ({ ...entry, updatedAt: now }));
+  await priceCollection.insertMany(seeded as IngredientPrice[]);
+}
+
+/**
+ * Finds all catalogue prices, sorted by name. The catalogue is seeded on first use.
+ *
+ * @returns The price catalogue.
+ */
+export async function findAllIngredientPrices(): Promise<IngredientPrice[]> {
+  try {
+    await seedIngredientPricesIfEmpty();
+    const priceCollection = await getCollection<IngredientPrice>(COLLECTIONS.INGREDIENT_PRICES);
+    return await priceCollection.find({}).sort({ name: 1 }).toArray();
+  } catch (error) {
+    console.error("Error finding ingredient prices:", error);
+    throw new Error("Failed to find ingredient prices.");
+  }
+}
+
+/**
+ * Adds a price to the catalogue.
+ *
+ * @param input The ingredient, unit and prices.
+ * @returns The created price.
+ */
+export async function createIngredientPrice(input: IngredientPriceInput): Promise<IngredientPrice> {
+  try {
+    const priceCollection = await getCollection<IngredientPrice>(COLLECTIONS.INGREDIENT_PRICES);
+
+    const newPrice: Omit<IngredientPrice, '_id'> = {
+      name: input.name.trim(),
+      unit: input.unit.trim(),
+      price: input.price,
+      storePrices: input.storePrices || {},
+      updatedAt: new Date(),
+    };
+
+    const result = await priceCollection.insertOne(newPrice as IngredientPrice);
+    return { _id: result.insertedId, ...newPrice };
+  } catch (error) {
+    console.error("Error creating ingredient price:", error);
+    throw new Error("Failed to create ingredient price.");
+  }
+}
+
+/**
+ * Edits a catalogue price. Store prices are replaced as a whole.
+ *
+ * @param priceId The ID of the price.
+ * @param changes The fields to change.
+ * @returns The updated price or null if not found.
+ */
+export async function updateIngredientPrice(
+  priceId: string | ObjectId,
+  changes: Partial<IngredientPriceInput>
+): Promise<IngredientPrice | null> {
+  try {
+    const priceCollection = await getCollection<IngredientPrice>(COLLECTIONS.INGREDIENT_PRICES);
+
+    const $set: Partial<IngredientPrice> = { updatedAt: new Date() };
+    if (changes.name !== undefined) $set.name = changes.name.trim();
+    if (changes.unit !== undefined) $set.unit = changes.unit.trim();
+    if (changes.price !== undefined) $set.price = changes.price;
+    if (changes.storePrices !== undefined) $set.storePrices = changes.storePrices;
+
+    return await priceCollection.findOneAndUpdate(
+      { _id: toObjectId(priceId) },
+      { $set },
+      { returnDocument: "after" }
+    );
+  } catch (error) {
+    console.error("Error updating ingredient price:", error);
+    throw new Error("Failed to update ingredient price.");
+  }
+}
+
+/**
+ * Removes a price from the catalogue.
+ *
+ * @param priceId The ID of the price.
+ * @returns A boolean indicating if the deletion was successful.
+ */
+export async function deleteIngredientPrice(priceId: string | ObjectId): Promise<boolean> {
+  try {
+    const priceCollection = await getCollection<IngredientPrice>(COLLECTIONS.INGREDIENT_PRICES);
+    const result = await priceCollection.deleteOne({ _id: toObjectId(priceId) });
+    return result.deletedCount === 1;
+  } catch (error) {
+    console.error("Error deleting ingredient price:", error);
+    throw new Error("Failed to delete ingredient price.");
+  }
+}
+
+/**
+ * Checks admin input for a catalogue price.
+ *
+ * @param input The request body.
+ * @param partial Whether missing fields are allowed (for edits).
+ * @returns An error message, or null if the input is valid.
+ */
+export function validateIngredientPriceInput(input: Partial<Record<keyof IngredientPriceInput, unknown>>, partial = false): string | null {
+  const { name, unit, price, storePrices } = input;
+
+  if ((!partial || name !== undefined) && (typeof name !== 'string' || !name.trim())) {
+    return 'name is required';
+  }
+  if ((!partial || unit !== undefined) && typeof unit !== 'string') {
+    return "unit must be a string ('' for per piece)";
+  }
+  if ((!partial || price !== undefined) && (typeof price !== 'number' || !(price >= 0))) {
+    return 'price must be a number that is not negative';
+  }
+  if (storePrices !== undefined) {
+    const isValid = typeof storePrices === 'object' && storePrices !== null &&
+      Object.values(storePrices).every(storePrice => typeof storePrice === 'number' && storePrice >= 0);
+    if (!isValid) return 'storePrices must map store names to prices that are not negative';
+  }
+  return null;
+}
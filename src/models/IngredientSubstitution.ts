@@ -0,0 +1,176 @@
+import { getCollection, COLLECTIONS, toObjectId } from "@/lib/db";
+import { ObjectId } from "mongodb";
+import { SUBSTITUTION_TAGS, type SubstitutionRule, type SubstitutionTag } from "@/utils/ingredientSubstitutions";
+import seedSubstitutions from "@/lib/ingredientSubstitutions.json";
+
+// A substitution rule, editable by admins
+export interface IngredientSubstitution extends SubstitutionRule {
+  _id: ObjectId;
+  updatedAt: Date;
+}
+
+// Fields an admin may set when adding or editing a rule
+export type IngredientSubstitutionInput = Pick<SubstitutionRule, 'ingredient' | 'unit' | 'replacements'> & {
+  note?: string;
+  contains?: SubstitutionTag[];
+};
+
+/**
+ * Fills an empty knowledge base from the bundled seed file (src/lib/ingredientSubstitutions.json).
+ */
+async function seedSubstitutionsIfEmpty(): Promise<void> {
+  const substitutionCollection = await getCollection<IngredientSubstitution>(COLLECTIONS.INGREDIENT_SUBSTITUTIONS);
+  if (await substitutionCollection.estimatedDocumentCount() > 0) return;
+
+  const now = new Date();
+  const seeded = seedSubstitutions.rules.map(rule => ({ ...rule, updatedAt: now })) as Omit<IngredientSubstitution, '_id'>[];
+  await substitutionCollection.insertMany(seeded as IngredientSubstitution[]);
+}
+
+/**
+ * Finds all substitution rules, sorted by ingredient. The knowledge base is seeded on first use.
+ *
+ * @returns The substitution rules.
+ */
+export async function findAllIngredientSubstitutions(): Promise<IngredientSubstitution[]> {
+  try {
+    await seedSubstitutionsIfEmpty();
+    const substitutionCollection = await getCollection<IngredientSubstitution>(COLLECTIONS.INGREDIENT_SUBSTITUTIONS);
+    return await substitutionCollection.find({}).sort({ ingredient: 1 }).toArray();
+  } catch (error) {
+    console.error("Error finding ingredient substitutions:", error);
+    throw new Error("Failed to find ingredient substitutions.");
+  }
+}
+
+/**
+ * Finds a single substitution rule.
+ *
+ * @param substitutionId The ID of the rule.
+ * @returns The rule or null if not found.
+ */
+export async function findIngredientSubstitutionById(substitutionId: string | ObjectId): Promise<IngredientSubstitution | null> {
+  try {
+    const substitutionCollection = await getCollection<IngredientSubstitution>(COLLECTIONS.INGREDIENT_SUBSTITUTIONS);
+    return await substitutionCollection.findOne({ _id: toObjectId(substitutionId) });
+  } catch (error) {
+    console.error("Error finding ingredient substitution by ID:", error);
+    throw new Error("Failed to find ingredient substitution.");
+  }
+}
+
+/**
+ * Adds a rule to the knowledge base.
+ *
+ * @param input The ingredient, replacements and what they contain.
+ * @returns The created rule.
+ */
+export async function createIngredientSubstitution(input: IngredientSubstitutionInput): Promise<IngredientSubstitution> {
+  try {
+    const substitutionCollection = await getCollection<IngredientSubstitution>(COLLECTIONS.INGREDIENT_SUBSTITUTIONS);
+
+    const newSubstitution: Omit<IngredientSubstitution, '_id'> = {
+      ingredient: input.ingredient.trim(),
+      unit: input.unit.trim(),
+      replacements: input.replacements.map(replacement => ({ ...replacement, name: replacement.name.trim(), unit: replacement.unit.trim() })),
+      ...(input.note?.trim() && { note: input.note.trim() }),
+      contains: input.contains || [],
+      updatedAt: new Date(),
+    };
+
+    const result = await substitutionCollection.insertOne(newSubstitution as IngredientSubstitution);
+    return { _id: result.insertedId, ...newSubstitution };
+  } catch (error) {
+    console.error("Error creating ingredient substitution:", error);
+    throw new Error("Failed to create ingredient substitution.");
+  }
+}
+
+/**
+ * Edits a substitution rule. Replacements and tags are replaced as a whole.
+ *
+ * @param substitutionId The ID of the rule.
+ * @param changes The fields to change; an empty note removes it.
+ * @returns The updated rule or null if not found.
+ */
+export async function updateIngredientSubstitution(
+  substitutionId: string | ObjectId,
+  changes: Partial<IngredientSubstitutionInput>
+): Promise<IngredientSubstitution | null> {
+  try {
+    const substitutionCollection = await getCollection<IngredientSubstitution>(COLLECTIONS.INGREDIENT_SUBSTITUTIONS);
+
+    const $set: Partial<IngredientSubstitution> = { updatedAt: new Date() };
+    const $unset: Record<string, ''> = {};
+    if (changes.ingredient !== undefined) $set.ingredient = changes.ingredient.trim();
+    if (changes.unit !== undefined) $set.unit = changes.unit.trim();
+    if (changes.replacements !== undefined) {
+      $set.replacements = changes.replacements.map(replacement => ({ ...replacement, name: replacement.name.trim(), unit: replacement.unit.trim() }));
+    }
+    if (changes.contains !== undefined) $set.contains = changes.contains;
+    if (changes.note !== undefined) {
+      if (changes.note.trim()) $set.note = changes.note.trim();
+      else $unset.note = '';
+    }
+
+    return await substitutionCollection.findOneAndUpdate(
+      { _id: toObjectId(substitutionId) },
+      { $set, ...(Object.keys($unset).length > 0 && { $unset }) },
+      { returnDocument: "after" }
+    );
+  } catch (error) {
+    console.error("Error updating ingredient substitution:", error);
+    throw new Error("Failed to update ingredient substitution.");
+  }
+}
+
+/**
+ * Removes a rule from the knowledge base.
+ *
+ * @param substitutionId The ID of the rule.
+ * @returns A boolean indicating if the deletion was successful.
+ */
+export async function deleteIngredientSubstitution(substitutionId: string | ObjectId): Promise<boolean> {
+  try {
+    const substitutionCollection = await getCollection<IngredientSubstitution>(COLLECTIONS.INGREDIENT_SUBSTITUTIONS);
+    const result = await substitutionCollection.deleteOne({ _id: toObjectId(substitutionId) });
+    return result.deletedCount === 1;
+  } catch (error) {
+    console.error("Error deleting ingredient substitution:", error);
+    throw new Error("Failed to delete ingredient substitution.");
+  }
+}
+
+/**
+ * Validates a substitution rule from an admin request.
+ *
+ * @param input The request body.
+ * @param partial Whether missing fields are allowed (for edits).
+ * @returns An error message, or null if the input is valid.
+ */
+export function validateIngredientSubstitutionInput(input: Partial<Record<keyof IngredientSubstitutionInput, unknown>>, partial = false): string | null {
+  const { ingredient, unit, replacements, note, contains } = input;
+
+  if ((!partial || ingredient !== undefined) && (typeof ingredient !== 'string' || !ingredient.trim())) {
+    return 'ingredient is required';
+  }
+  if ((!partial || unit !== undefined) && typeof unit !== 'string') {
+    return "unit must be a string ('' for per piece)";
+  }
+  if (!partial || replacements !== undefined) {
+    const isValid = Array.isArray(replacements) && replacements.length > 0 && replacements.every(replacement =>
+      typeof replacement?.name === 'string' && replacement.name.trim() &&
+      typeof replacement.quantity === 'number' && replacement.quantity > 0 &&
+      typeof replacement.unit === 'string'
+    );
+    if (!isValid) return 'replacements must be a non-empty list of { name, quantity above zero, unit }';
+  }
+  if (note !== undefined && typeof note !== 'string') {
+    return 'note must be a string';
+  }
+  if (contains !== undefined) {
+    const isValid = Array.isArray(contains) && contains.every(tag => SUBSTITUTION_TAGS.includes(tag));
+    if (!isValid) return `contains must only use ${SUBSTITUTION_TAGS.join(', ')}`;
+  }
+  return null;
+}
@@ -1,8 +1,9 @@
 /**
  * MealPlan Model & Types
  * 
- * This model handles weekly meal planning with support for:
- * - Multiple meals per day (breakfast, lunch, dinner, snacks)
+ * This model handles meal planning over a range of days (a week, a
+ * holiday, a rotation, a month) with support for:
+ * - Multiple meals per day (breakfast, lunch, dinner, snacks and the user's own meal types)
  * - Recipe associations (ready for real Recipe integration)
  * - User-specific meal plans
  * - Date-based organization
@@ -10,7 +11,18 @@
 
 import { ObjectId, type Collection } from 'mongodb';
 import { getCollection, COLLECTIONS } from '@/lib/db';
-import { shouldBeAdmin } from '@/config/team';
+import { resolveRecipe, resolveRecipes, type ResolvedRecipe } from '@/lib/recipeResolver';
+import {
+  addDaysToDate,
+  countDaysInRange,
+  DEFAULT_WEEK_STARTS_ON,
+  formatDateRange,
+  getWeekStartDate,
+  MAX_MEAL_PLAN_DAYS,
+  type WeekStartsOn,
+} from '@/types/meal-planning';
+import { countDayMeals, getDayMealTypeIds, getMealsOfType, setMealsOfType, type BuiltInMealType } from '@/utils/mealTypes';
+import { MIN_PORTION_MULTIPLIER } from '@/utils/household';
 
 // ========================================
 // TypeScript Interfaces
@@ -35,6 +47,14 @@ export interface MealSlot {
   totalTime?: number; // Total cooking time (prep + cook)
   difficulty?: 'easy' | 'medium' | 'hard'; // Recipe difficulty
   category?: string; // Recipe category
+  cookedAt?: Date; // Set once the meal has been cooked
+  attendees?: string[]; // Ids of the household members eating this meal; servings follow their portions
+
+  // Batch cooking: the source meal is cooked for all servings, its leftovers share the batchId
+  batchId?: string; // Links a batch-cooked meal to its leftovers
+  leftoverServings?: number; // Source only: servings eaten per meal, the rest becomes leftovers
+  leftoverMealType?: BuiltInMealType; // Source only: meal type the leftovers are placed in
+  isLeftover?: boolean; // Eaten from an earlier batch: nothing to cook or buy
 }
 
 /**
@@ -46,22 +66,23 @@ export interface DayMeals {
   lunch: MealSlot[];
   dinner: MealSlot[];
   snacks: MealSlot[];
+  customMeals?: Record<string, MealSlot[]>; // Meals of the user's own meal types, by type id
   dailyNotes?: string; // Notes for the entire day
 }
 
 /**
- * Complete meal plan for a week
+ * Complete meal plan for a range of days
  */
 export interface IMealPlan {
   _id?: ObjectId;
   userId: string;
-  weekStartDate: Date; // Monday of the week
-  weekEndDate: Date; // Sunday of the week
+  startDate: Date; // First day of the plan
+  endDate: Date; // Last day of the plan (inclusive)
   title?: string; // User-defined name for the meal plan
-  days: DayMeals[]; // 7 days of meals
+  days: DayMeals[]; // One entry per day from startDate to endDate
   totalCalories?: number; // Calculated total (optional)
   shoppingListGenerated?: boolean; // Has shopping list been created
-  isTemplate?: boolean; // Can be used as a template for future weeks
+  isTemplate?: boolean; // Can be used as a template for future plans
   tags?: string[]; // User tags for organization
   createdAt: Date;
   updatedAt: Date;
@@ -80,17 +101,31 @@ export class MealPlanService {
    * Validates meal plan data
    */
   private static validateMealPlan(mealPlan: Partial<IMealPlan>): void {
-    if (mealPlan.days && mealPlan.days.length !== 7) {
-      throw new Error('A meal plan must contain exactly 7 days');
+    if (mealPlan.startDate && mealPlan.endDate) {
+      const dayCount = countDaysInRange(new Date(mealPlan.startDate), new Date(mealPlan.endDate));
+      if (dayCount < 1) {
+        throw new Error('The end date of a meal plan must not be before its start date');
+      }
+      if (dayCount > MAX_MEAL_PLAN_DAYS) {
+        throw new Error(`A meal plan can cover at most ${MAX_MEAL_PLAN_DAYS} days`);
+      }
+      if (mealPlan.days && mealPlan.days.length !== dayCount) {
+        throw new Error(`A meal plan from ${formatDateRange(new Date(mealPlan.startDate), new Date(mealPlan.endDate))} must contain ${dayCount} days`);
+      }
+    }
+
+    if (mealPlan.days && (mealPlan.days.length < 1 || mealPlan.days.length > MAX_MEAL_PLAN_DAYS)) {
+      throw new Error(`A meal plan must contain between 1 and ${MAX_MEAL_PLAN_DAYS} days`);
     }
 
     // Validate meal slots
     if (mealPlan.days) {
       for (const day of mealPlan.days) {
-        for (const mealType of ['breakfast', 'lunch', 'dinner', 'snacks'] as const) {
-          for (const meal of day[mealType] || []) {
-            if (meal.servings && (meal.servings < 1 || meal.servings > 20)) {
-              throw new Error('Servings must be between 1 and 20');
+        for (const mealType of getDayMealTypeIds(day)) {
+          for (const meal of getMealsOfType(day, mealType)) {
+            // A toddler's portion is the smallest a meal can be planned for
+            if (meal.servings && (meal.servings < MIN_PORTION_MULTIPLIER || meal.servings > 20)) {
+              throw new Error(`Servings must be between ${MIN_PORTION_MULTIPLIER} and 20`);
             }
             if (meal.cookingTime && (meal.cookingTime < 0 || meal.cookingTime > 1440)) {
               throw new Error('Cooking time must be between 0 and 1440 minutes');
@@ -123,35 +158,31 @@ export class MealPlanService {
   }
 
   /**
-   * Adjusts date to Monday of the week
+   * Strips the time from a date
    */
-  private static adjustToMonday(date: Date): Date {
-    const dayOfWeek = date.getDay();
-    if (dayOfWeek === 1) return new Date(date); // Already Monday
-    
-    const daysToSubtract = dayOfWeek === 0 ? 6 : dayOfWeek - 1;
-    return new Date(date.getTime() - (daysToSubtract * 24 * 60 * 60 * 1000));
+  private static toStartOfDay(date: Date): Date {
+    return addDaysToDate(date, 0);
   }
 
   /**
    * Creates a new meal plan
    */
-  static async create(mealPlanData: Omit<IMealPlan, '_id' | 'createdAt' | 'updatedAt'>): Promise<IMealPlan> {
-    this.validateMealPlan(mealPlanData);
+  static async create(mealPlanData: Omit<IMealPlan, '_id' | 'endDate' | 'days' | 'createdAt' | 'updatedAt'> & Partial<Pick<IMealPlan, 'endDate' | 'days'>>): Promise<IMealPlan> {
+    // A plan covers a week unless it says otherwise
+    const startDate = this.toStartOfDay(new Date(mealPlanData.startDate));
+    const endDate = mealPlanData.endDate ? this.toStartOfDay(new Date(mealPlanData.endDate)) : addDaysToDate(startDate, 6);
+
+    this.validateMealPlan({ ...mealPlanData, startDate, endDate });
     
     const collection = await this.getCollection();
     const now = new Date();
     
-    // Adjust weekStartDate to Monday
-    const weekStartDate = this.adjustToMonday(new Date(mealPlanData.weekStartDate));
-    const weekEndDate = new Date(weekStartDate.getTime() + (6 * 24 * 60 * 60 * 1000));
-    
     const mealPlan: Omit<IMealPlan, '_id'> = {
       ...mealPlanData,
-      weekStartDate,
-      weekEndDate,
-      title: mealPlanData.title || `Meal Plan - Week of ${weekStartDate.toLocaleDateString()}`,
-      days: mealPlanData.days || this.createEmptyWeek(weekStartDate),
+      startDate,
+      endDate,
+      title: mealPlanData.title || `Meal Plan - ${formatDateRange(startDate, endDate)}`,
+      days: mealPlanData.days || this.createEmptyDays(startDate, endDate),
       shoppingListGenerated: mealPlanData.shoppingListGenerated || false,
       isTemplate: mealPlanData.isTemplate || false,
       tags: mealPlanData.tags || [],
@@ -164,12 +195,12 @@ export class MealPlanService {
   }
 
   /**
-   * Creates empty week structure
+   * Creates empty days from startDate to endDate
    */
-  private static createEmptyWeek(weekStartDate: Date): DayMeals[] {
+  private static createEmptyDays(startDate: Date, endDate: Date): DayMeals[] {
     const days: DayMeals[] = [];
-    for (let i = 0; i < 7; i++) {
-      const dayDate = new Date(weekStartDate.getTime() + (i * 24 * 60 * 60 * 1000));
+    for (let i = 0; i < countDaysInRange(startDate, endDate); i++) {
+      const dayDate = addDaysToDate(startDate, i);
       days.push({
         date: dayDate,
         breakfast: [],
@@ -191,18 +222,57 @@ export class MealPlanService {
   }
 
   /**
-   * Finds meal plan by user and week
+   * Finds the meal plan of a user that covers a date
+   * When plans overlap (e.g. a holiday inside a week), the one starting last wins
    */
-  static async findByUserAndWeek(userId: string, weekStartDate: Date): Promise<IMealPlan | null> {
+  static async findByUserAndDate(userId: string, date: Date): Promise<IMealPlan | null> {
+    const collection = await this.getCollection();
+    const day = this.toStartOfDay(date);
+    
+    const [mealPlan] = await collection
+      .find({
+        userId,
+        isTemplate: { $ne: true },
+        startDate: { $lte: day },
+        endDate: { $gte: day }
+      })
+      .sort({ startDate: -1 })
+      .limit(1)
+      .toArray();
+    return mealPlan || null;
+  }
+
+  /**
+   * Finds the meal plan of a user that covers exactly a range of days
+   */
+  static async findByUserAndRange(userId: string, startDate: Date, endDate: Date): Promise<IMealPlan | null> {
     const collection = await this.getCollection();
-    const adjustedWeekStart = this.adjustToMonday(weekStartDate);
     
     return await collection.findOne({
       userId,
-      weekStartDate: adjustedWeekStart
+      isTemplate: { $ne: true },
+      startDate: this.toStartOfDay(startDate),
+      endDate: this.toStartOfDay(endDate)
     });
   }
 
+  /**
+   * Finds the meal plans of a user that overlap a range of days
+   */
+  static async findByUserInRange(userId: string, startDate: Date, endDate: Date): Promise<IMealPlan[]> {
+    const collection = await this.getCollection();
+    
+    return await collection
+      .find({
+        userId,
+        isTemplate: { $ne: true },
+        startDate: { $lte: this.toStartOfDay(endDate) },
+        endDate: { $gte: this.toStartOfDay(startDate) }
+      })
+      .sort({ startDate: 1 })
+      .toArray();
+  }
+
   /**
    * Finds all meal plans for a user
    */
@@ -214,7 +284,7 @@ export class MealPlanService {
       query.isTemplate = options.isTemplate;
     }
 
-    let cursor = collection.find(query).sort({ weekStartDate: -1 });
+    let cursor = collection.find(query).sort({ startDate: -1 });
     
     if (options?.skip) cursor = cursor.skip(options.skip);
     if (options?.limit) cursor = cursor.limit(options.limit);
@@ -248,35 +318,6 @@ export class MealPlanService {
     return result || null;
   }
 
-  /**
-   * Updates meal plan by user and week
-   */
-  static async updateByUserAndWeek(userId: string, weekStartDate: Date, updates: Partial<IMealPlan>): Promise<IMealPlan | null> {
-    this.validateMealPlan(updates);
-    
-    const collection = await this.getCollection();
-    const adjustedWeekStart = this.adjustToMonday(weekStartDate);
-    
-    const updateData = {
-      ...updates,
-      updatedAt: new Date()
-    };
-    
-    // Remove _id from updates if present
-    delete (updateData as any)._id;
-    
-    const result = await collection.findOneAndUpdate(
-      { 
-        userId,
-        weekStartDate: adjustedWeekStart
-      },
-      { $set: updateData },
-      { returnDocument: 'after' }
-    );
-    
-    return result || null;
-  }
-
   /**
    * Deletes a meal plan by ID
    */
@@ -289,18 +330,16 @@ export class MealPlanService {
   }
 
   /**
-   * Creates a weekly meal plan with empty structure
+   * Creates an empty meal plan for the week containing a date
    */
-  static async createWeeklyPlan(userId: string, weekStartDate: Date): Promise<IMealPlan> {
-    const adjustedWeekStart = this.adjustToMonday(weekStartDate);
-    const weekEndDate = new Date(adjustedWeekStart.getTime() + (6 * 24 * 60 * 60 * 1000));
+  static async createWeeklyPlan(userId: string, date: Date, weekStartsOn: WeekStartsOn = DEFAULT_WEEK_STARTS_ON): Promise<IMealPlan> {
+    const weekStartDate = getWeekStartDate(date, weekStartsOn);
     
     return await this.create({
       userId,
-      weekStartDate: adjustedWeekStart,
-      weekEndDate,
-      title: `Week of ${adjustedWeekStart.toLocaleDateString()}`,
-      days: this.createEmptyWeek(adjustedWeekStart)
+      startDate: weekStartDate,
+      endDate: addDaysToDate(weekStartDate, 6),
+      title: `Week of ${weekStartDate.toLocaleDateString()}`
     });
   }
 
@@ -333,84 +372,35 @@ export class MealPlanService {
   }
 
   /**
-   * Enriches meal slots with recipe information from spoonacular_recipes collection
+   * Copies the display fields of a resolved recipe onto a meal slot
+   */
+  private static applyResolvedRecipe(mealSlot: MealSlot, resolved: ResolvedRecipe, authorEmail?: string): MealSlot {
+    const { recipe, author } = resolved;
+
+    return {
+      ...mealSlot,
+      image: recipe.image || recipe.imageUrl || '/placeholder-recipe.svg',
+      authorName: author?.name || 'Unknown',
+      authorEmail: recipe.authorEmail || authorEmail,
+      authorType: author?.type || 'user',
+      totalTime: (recipe.readyInMinutes || recipe.cookingTime || 0) + (recipe.preparationMinutes || recipe.prepTime || 0),
+      difficulty: recipe.difficulty || 'medium',
+      category: recipe.dishTypes?.[0] || recipe.category || 'General',
+      cookingTime: recipe.readyInMinutes || recipe.cookingTime || mealSlot.cookingTime,
+      prepTime: recipe.preparationMinutes || recipe.prepTime || mealSlot.prepTime
+    };
+  }
+
+  /**
+   * Enriches a meal slot with recipe information from any recipe collection
    */
   static async enrichMealSlotWithRecipe(mealSlot: MealSlot, authorEmail?: string): Promise<MealSlot> {
     if (!mealSlot.recipeId) return mealSlot;
 
     try {
-      // Try to get recipe from spoonacular_recipes collection
-      const recipesCollection = await getCollection(COLLECTIONS.RECIPES);
-      
-      // Build query conditions based on the recipeId format
-      const queryConditions: any[] = [];
-      
-      // If it looks like a spoonacular ID (contains 'spoonacular-' or is just numbers)
-      if (mealSlot.recipeId.includes('spoonacular-')) {
-        const spoonacularId = mealSlot.recipeId.replace('spoonacular-', '');
-        if (!isNaN(parseInt(spoonacularId))) {
-          queryConditions.push({ id: parseInt(spoonacularId) });
-          queryConditions.push({ spoonacularId: parseInt(spoonacularId) });
-        }
-      } else if (/^\d+$/.test(mealSlot.recipeId)) {
-        // If it's just a number, try both id and spoonacularId
-        queryConditions.push({ id: parseInt(mealSlot.recipeId) });
-        queryConditions.push({ spoonacularId: parseInt(mealSlot.recipeId) });
-      } else if (/^[0-9a-fA-F]{24}$/.test(mealSlot.recipeId)) {
-        // Only try ObjectId if it's a valid 24-character hex string
-        queryConditions.push({ _id: new ObjectId(mealSlot.recipeId) });
-      }
-      
-      // If no valid conditions, skip enrichment
-      if (queryConditions.length === 0) {
-        console.warn(`Invalid recipe ID format: ${mealSlot.recipeId}`);
-        return mealSlot;
-      }
-      
-      const recipe = await recipesCollection.findOne({ 
-        $or: queryConditions
-      });
-
-      if (recipe) {
-        // Determine author information
-        let authorName = 'Unknown';
-        let authorType: 'admin' | 'user' = 'user';
-        
-        if (recipe.authorId || recipe.authorEmail) {
-          const usersCollection = await getCollection(COLLECTIONS.USERS);
-          const author = await usersCollection.findOne({ 
-            $or: [
-              { _id: recipe.authorId ? new ObjectId(recipe.authorId) : undefined },
-              { email: recipe.authorEmail }
-            ].filter(Boolean)
-          });
-          
-          if (author) {
-            authorName = author.name || author.displayName || 'Unknown';
-            authorType = shouldBeAdmin(author.email) ? 'admin' : 'user';
-          }
-        } else if (authorEmail) {
-          // Use current user as author if no recipe author found
-          const usersCollection = await getCollection(COLLECTIONS.USERS);
-          const currentUser = await usersCollection.findOne({ email: authorEmail });
-          if (currentUser) {
-            authorName = currentUser.name || currentUser.displayName || 'Unknown';
-            authorType = shouldBeAdmin(authorEmail) ? 'admin' : 'user';
-          }
-        }
-
-        return {
-          ...mealSlot,
-          image: recipe.image || recipe.imageUrl || '/placeholder-recipe.svg',
-          authorName,
-          authorEmail: recipe.authorEmail || authorEmail,
-          authorType,
-          totalTime: (recipe.readyInMinutes || recipe.cookingTime || 0) + (recipe.preparationMinutes || recipe.prepTime || 0),
-          difficulty: recipe.difficulty || 'medium',
-          category: recipe.dishTypes?.[0] || recipe.category || 'General',
-          cookingTime: recipe.readyInMinutes || recipe.cookingTime || mealSlot.cookingTime,
-          prepTime: recipe.preparationMinutes || recipe.prepTime || mealSlot.prepTime
-        };
+      const resolved = await resolveRecipe(mealSlot.recipeId, { withAuthors: true, fallbackAuthorEmail: authorEmail });
+      if (resolved) {
+        return this.applyResolvedRecipe(mealSlot, resolved, authorEmail);
       }
     } catch (error) {
       console.error('Error enriching meal slot with recipe:', error);
@@ -421,23 +411,32 @@ export class MealPlanService {
 
   /**
    * Enriches a full meal plan with recipe information
+   *
+   * All recipes of the plan are resolved in one batch, so a week costs a
+   * query per recipe collection rather than several per meal.
    */
   static async enrichMealPlanWithRecipes(mealPlan: IMealPlan): Promise<IMealPlan> {
     try {
-      const enrichedDays = await Promise.all(
-        mealPlan.days.map(async (day) => {
-          const enrichedDay = { ...day };
-          
-          // Enrich all meal types
-          for (const mealType of ['breakfast', 'lunch', 'dinner', 'snacks'] as const) {
-            enrichedDay[mealType] = await Promise.all(
-              day[mealType].map(meal => this.enrichMealSlotWithRecipe(meal, mealPlan.userId))
-            );
-          }
-          
-          return enrichedDay;
-        })
-      );
+      const recipeIds = mealPlan.days.flatMap(day => getDayMealTypeIds(day).flatMap(mealType =>
+        getMealsOfType(day, mealType).flatMap(meal => meal.recipeId ? [meal.recipeId] : [])
+      ));
+      const resolvedRecipes = await resolveRecipes(recipeIds, { withAuthors: true, fallbackAuthorEmail: mealPlan.userId });
+
+      const enrichedDays = mealPlan.days.map(day => {
+        let enrichedDay = { ...day };
+
+        // Enrich all meal types
+        for (const mealType of getDayMealTypeIds(day)) {
+          const meals = getMealsOfType(day, mealType);
+          if (meals.length === 0) continue;
+          enrichedDay = setMealsOfType(enrichedDay, mealType, meals.map(meal => {
+            const resolved = meal.recipeId ? resolvedRecipes.get(meal.recipeId.trim()) : undefined;
+            return resolved ? this.applyResolvedRecipe(meal, resolved, mealPlan.userId) : meal;
+          }));
+        }
+
+        return enrichedDay;
+      });
 
       return {
         ...mealPlan,
@@ -453,13 +452,7 @@ export class MealPlanService {
    * Gets total meals count
    */
   static getTotalMealsCount(mealPlan: IMealPlan): number {
-    return mealPlan.days.reduce((total: number, day: DayMeals) => {
-      return total + 
-        day.breakfast.length + 
-        day.lunch.length + 
-        day.dinner.length + 
-        day.snacks.length;
-    }, 0);
+    return mealPlan.days.reduce((total: number, day: DayMeals) => total + countDayMeals(day), 0);
   }
 
   /**
@@ -472,10 +465,10 @@ export class MealPlanService {
   }
 
   /**
-   * Gets week number
+   * Gets the week number of the first day
    */
   static getWeekNumber(mealPlan: IMealPlan): number {
-    const startDate = new Date(mealPlan.weekStartDate);
+    const startDate = new Date(mealPlan.startDate);
     const oneJan = new Date(startDate.getFullYear(), 0, 1);
     const numberOfDays = Math.floor((startDate.valueOf() - oneJan.valueOf()) / (24 * 60 * 60 * 1000));
     return Math.ceil((startDate.getDay() + 1 + numberOfDays) / 7);
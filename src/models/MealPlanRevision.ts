@@ -0,0 +1,121 @@
+import { getCollection, COLLECTIONS } from "@/lib/db";
+import { ObjectId } from "mongodb";
+import type { DayMeals } from "@/models/MealPlan";
+import type { MealPlanOperation } from "@/utils/mealPlanHistory";
+
+export const MAX_REVISIONS_PER_PLAN = 100;
+
+// A meal plan's days as they were after an edit
+export interface MealPlanRevision {
+  _id: ObjectId;
+  mealPlanId: string;
+  userId: string; // Keyed like meal plans: the session user id, or the email
+  days: DayMeals[];
+  operation: MealPlanOperation; // The edit that led to this version
+  mealCount: number;
+  createdAt: Date;
+}
+
+// A revision without its days, for listing
+export type MealPlanRevisionSummary = Omit<MealPlanRevision, "days">;
+
+/**
+ * Stores a version of a meal plan. Only the newest revisions of a plan are
+ * kept, older ones are deleted.
+ *
+ * @param revision The version to store.
+ * @returns The stored revision.
+ */
+export async function createMealPlanRevision(revision: Omit<MealPlanRevision, "_id" | "createdAt"> & { createdAt?: Date }): Promise<MealPlanRevision> {
+  try {
+    const revisionsCollection = await getCollection<MealPlanRevision>(COLLECTIONS.MEAL_PLAN_REVISIONS);
+    const newRevision = { ...revision, createdAt: revision.createdAt || new Date() };
+
+    const result = await revisionsCollection.insertOne(newRevision as MealPlanRevision);
+
+    const staleRevisions = await revisionsCollection
+      .find({ mealPlanId: revision.mealPlanId }, { projection: { _id: 1 } })
+      .sort({ createdAt: -1, _id: -1 })
+      .skip(MAX_REVISIONS_PER_PLAN)
+      .toArray();
+    if (staleRevisions.length > 0) {
+      await revisionsCollection.deleteMany({ _id: { $in: staleRevisions.map(stale => stale._id) } });
+    }
+
+    return { ...newRevision, _id: result.insertedId };
+  } catch (error) {
+    console.error("Error creating meal plan revision:", error);
+    throw new Error("Failed to create meal plan revision.");
+  }
+}
+
+/**
+ * Lists the revisions of a meal plan, newest first, without their days.
+ *
+ * @param mealPlanId The ID of the meal plan.
+ * @param userId The ID of the plan's owner.
+ * @param limit The maximum number of revisions.
+ * @returns The revisions.
+ */
+export async function findMealPlanRevisions(mealPlanId: string, userId: string, limit = MAX_REVISIONS_PER_PLAN): Promise<MealPlanRevisionSummary[]> {
+  try {
+    const revisionsCollection = await getCollection<MealPlanRevision>(COLLECTIONS.MEAL_PLAN_REVISIONS);
+    return await revisionsCollection
+      .find({ mealPlanId, userId }, { projection: { days: 0 } })
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(limit)
+      .toArray();
+  } catch (error) {
+    console.error("Error finding meal plan revisions:", error);
+    throw new Error("Failed to find meal plan revisions.");
+  }
+}
+
+/**
+ * Checks whether a meal plan has any revisions.
+ *
+ * @param mealPlanId The ID of the meal plan.
+ * @returns True if at least one revision is stored.
+ */
+export async function hasMealPlanRevisions(mealPlanId: string): Promise<boolean> {
+  try {
+    const revisionsCollection = await getCollection<MealPlanRevision>(COLLECTIONS.MEAL_PLAN_REVISIONS);
+    return (await revisionsCollection.countDocuments({ mealPlanId }, { limit: 1 })) > 0;
+  } catch (error) {
+    console.error("Error checking meal plan revisions:", error);
+    throw new Error("Failed to check meal plan revisions.");
+  }
+}
+
+/**
+ * Finds a revision of a meal plan, with its days.
+ *
+ * @param revisionId The ID of the revision.
+ * @param mealPlanId The ID of the meal plan.
+ * @param userId The ID of the plan's owner.
+ * @returns The revision or null if it was not found.
+ */
+export async function findMealPlanRevisionById(revisionId: string, mealPlanId: string, userId: string): Promise<MealPlanRevision | null> {
+  try {
+    const revisionsCollection = await getCollection<MealPlanRevision>(COLLECTIONS.MEAL_PLAN_REVISIONS);
+    return await revisionsCollection.findOne({ _id: new ObjectId(revisionId), mealPlanId, userId });
+  } catch (error) {
+    console.error("Error finding meal plan revision by ID:", error);
+    throw new Error("Failed to find meal plan revision.");
+  }
+}
+
+/**
+ * Deletes all revisions of a meal plan, e.g. when the plan is deleted.
+ *
+ * @param mealPlanId The ID of the meal plan.
+ */
+export async function deleteMealPlanRevisions(mealPlanId: string): Promise<void> {
+  try {
+    const revisionsCollection = await getCollection<MealPlanRevision>(COLLECTIONS.MEAL_PLAN_REVISIONS);
+    await revisionsCollection.deleteMany({ mealPlanId });
+  } catch (error) {
+    console.error("Error deleting meal plan revisions:", error);
+    throw new Error("Failed to delete meal plan revisions.");
+  }
+}
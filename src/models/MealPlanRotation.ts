@@ -0,0 +1,143 @@
+import { getCollection, COLLECTIONS } from "@/lib/db";
+import { ObjectId } from "mongodb";
+import type { RotationSchedule, RotationStatus } from "@/utils/mealPlanRotation";
+
+// A user's rotation between template meal plans; each user has at most one
+export interface MealPlanRotation extends RotationSchedule {
+  _id: ObjectId;
+  userId: string; // Keyed like meal plans: the session user id, or the email
+  startDate: Date;
+  endDate?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Fields set when a rotation is started or changed
+export interface MealPlanRotationUpdate {
+  templateIds: string[];
+  startDate: Date;
+  endDate?: Date | null;
+  skipOptionalMeals: boolean;
+}
+
+/**
+ * Finds the rotation of a user.
+ *
+ * @param userId The ID of the user.
+ * @returns The rotation or null if the user has none.
+ */
+export async function findMealPlanRotationByUserId(userId: string): Promise<MealPlanRotation | null> {
+  try {
+    const rotationsCollection = await getCollection<MealPlanRotation>(COLLECTIONS.MEAL_PLAN_ROTATIONS);
+    return await rotationsCollection.findOne({ userId });
+  } catch (error) {
+    console.error("Error finding meal plan rotation by user ID:", error);
+    throw new Error("Failed to find meal plan rotation.");
+  }
+}
+
+/**
+ * Starts a rotation for a user, replacing the one they had. The new rotation
+ * is active and has not planned any week yet.
+ *
+ * @param userId The ID of the user.
+ * @param update The validated rotation.
+ * @returns The saved rotation.
+ */
+export async function saveMealPlanRotation(userId: string, update: MealPlanRotationUpdate): Promise<MealPlanRotation> {
+  try {
+    const rotationsCollection = await getCollection<MealPlanRotation>(COLLECTIONS.MEAL_PLAN_ROTATIONS);
+    const now = new Date();
+    const { endDate, ...fields } = update;
+
+    const rotation = await rotationsCollection.findOneAndUpdate(
+      { userId },
+      {
+        $set: { ...fields, status: 'active', materializedWeeks: [], updatedAt: now, ...(endDate && { endDate }) },
+        ...(!endDate && { $unset: { endDate: '' } }),
+        $setOnInsert: { createdAt: now },
+      },
+      { upsert: true, returnDocument: "after" }
+    );
+    return rotation!;
+  } catch (error) {
+    console.error("Error saving meal plan rotation:", error);
+    throw new Error("Failed to save meal plan rotation.");
+  }
+}
+
+/**
+ * Pauses, resumes or ends the rotation of a user.
+ *
+ * @param userId The ID of the user.
+ * @param status The new status.
+ * @returns The updated rotation or null if the user has none.
+ */
+export async function updateMealPlanRotationStatus(userId: string, status: RotationStatus): Promise<MealPlanRotation | null> {
+  try {
+    const rotationsCollection = await getCollection<MealPlanRotation>(COLLECTIONS.MEAL_PLAN_ROTATIONS);
+    return await rotationsCollection.findOneAndUpdate(
+      { userId },
+      { $set: { status, updatedAt: new Date() } },
+      { returnDocument: "after" }
+    );
+  } catch (error) {
+    console.error("Error updating meal plan rotation status:", error);
+    throw new Error("Failed to update meal plan rotation.");
+  }
+}
+
+/**
+ * Deletes the rotation of a user. Plans it created are kept.
+ *
+ * @param userId The ID of the user.
+ * @returns True if the rotation was deleted.
+ */
+export async function deleteMealPlanRotation(userId: string): Promise<boolean> {
+  try {
+    const rotationsCollection = await getCollection<MealPlanRotation>(COLLECTIONS.MEAL_PLAN_ROTATIONS);
+    const result = await rotationsCollection.deleteOne({ userId });
+    return result.deletedCount > 0;
+  } catch (error) {
+    console.error("Error deleting meal plan rotation:", error);
+    throw new Error("Failed to delete meal plan rotation.");
+  }
+}
+
+/**
+ * Marks a week of an active rotation as planned. The week is claimed with a
+ * conditional update, so two requests at the same time never plan it twice.
+ *
+ * @param rotationId The ID of the rotation.
+ * @param weekStart The yyyy-MM-dd start of the week.
+ * @returns True if this call claimed the week.
+ */
+export async function claimMealPlanRotationWeek(rotationId: ObjectId, weekStart: string): Promise<boolean> {
+  try {
+    const rotationsCollection = await getCollection<MealPlanRotation>(COLLECTIONS.MEAL_PLAN_ROTATIONS);
+    const result = await rotationsCollection.updateOne(
+      { _id: rotationId, status: 'active', materializedWeeks: { $ne: weekStart } },
+      { $push: { materializedWeeks: weekStart } }
+    );
+    return result.modifiedCount > 0;
+  } catch (error) {
+    console.error("Error claiming meal plan rotation week:", error);
+    throw new Error("Failed to claim meal plan rotation week.");
+  }
+}
+
+/**
+ * Releases a claimed week, e.g. when planning it failed.
+ *
+ * @param rotationId The ID of the rotation.
+ * @param weekStart The yyyy-MM-dd start of the week.
+ */
+export async function releaseMealPlanRotationWeek(rotationId: ObjectId, weekStart: string): Promise<void> {
+  try {
+    const rotationsCollection = await getCollection<MealPlanRotation>(COLLECTIONS.MEAL_PLAN_ROTATIONS);
+    await rotationsCollection.updateOne({ _id: rotationId }, { $pull: { materializedWeeks: weekStart } });
+  } catch (error) {
+    console.error("Error releasing meal plan rotation week:", error);
+    throw new Error("Failed to release meal plan rotation week.");
+  }
+}
@@ -0,0 +1,205 @@
+import { getCollection, COLLECTIONS, toObjectId } from "@/lib/db";
+import { ObjectId } from "mongodb";
+import { convertQuantity, normalizeIngredientName, roundQuantity, type GroceryItem } from "@/utils/groceryListHelper";
+import { deductFromPantry, findPantryMatch, type PantryStock } from "@/utils/pantryHelper";
+
+export type PantryItemSource = 'manual' | 'preferences' | 'fridge-analysis' | 'shopping';
+
+// A single item in a user's pantry
+export interface PantryItem extends PantryStock {
+  _id: ObjectId;
+  userId: ObjectId;
+  name: string;
+  quantity?: number; // Missing = in stock, amount unknown
+  unit: string;
+  bestBefore?: Date;
+  source: PantryItemSource;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Fields a client may set when adding or editing an item
+export interface PantryItemInput {
+  name: string;
+  quantity?: number;
+  unit?: string;
+  bestBefore?: Date | string | null;
+  source?: PantryItemSource;
+}
+
+/**
+ * Finds all pantry items of a user, sorted by name.
+ *
+ * @param userId The ID of the user.
+ * @returns The user's pantry items.
+ */
+export async function findPantryItemsByUserId(userId: string | ObjectId): Promise<PantryItem[]> {
+  try {
+    const pantryCollection = await getCollection<PantryItem>(COLLECTIONS.PANTRY_ITEMS);
+    return await pantryCollection
+      .find({ userId: toObjectId(userId) })
+      .sort({ name: 1 })
+      .toArray();
+  } catch (error) {
+    console.error("Error finding pantry items by user ID:", error);
+    throw new Error("Failed to find pantry items.");
+  }
+}
+
+/**
+ * Adds items to a user's pantry. Stock of an item that is already in the
+ * pantry (same name, convertible unit) is added to the existing entry.
+ *
+ * @param userId The ID of the user.
+ * @param items The items to add.
+ * @returns The user's updated pantry.
+ */
+export async function addPantryItems(userId: string | ObjectId, items: PantryItemInput[]): Promise<PantryItem[]> {
+  try {
+    const pantryCollection = await getCollection<PantryItem>(COLLECTIONS.PANTRY_ITEMS);
+    const pantry = await findPantryItemsByUserId(userId);
+    const now = new Date();
+
+    for (const input of items) {
+      const name = input.name.trim();
+      const unit = (input.unit || '').trim();
+      const bestBefore = input.bestBefore ? new Date(input.bestBefore) : undefined;
+      const index = findPantryMatch(pantry, { name, quantity: input.quantity, unit });
+
+      if (index === -1) {
+        const newItem: Omit<PantryItem, '_id'> = {
+          userId: toObjectId(userId),
+          name,
+          ...(input.quantity !== undefined && { quantity: input.quantity }),
+          unit,
+          ...(bestBefore && { bestBefore }),
+          source: input.source || 'manual',
+          createdAt: now,
+          updatedAt: now,
+        };
+        const result = await pantryCollection.insertOne(newItem as PantryItem);
+        pantry.push({ ...newItem, _id: result.insertedId } as PantryItem);
+        continue;
+      }
+
+      const existing = pantry[index];
+      const update: Partial<PantryItem> = { updatedAt: now };
+
+      // Unknown amounts stay unknown; known amounts are converted and added up
+      if (existing.quantity !== undefined && input.quantity !== undefined) {
+        const converted = convertQuantity(input.quantity, unit, existing.unit, normalizeIngredientName(name));
+        update.quantity = roundQuantity(existing.quantity + (converted ?? 0));
+      }
+      // The earliest best-before date is the one that matters
+      if (bestBefore && (!existing.bestBefore || bestBefore < existing.bestBefore)) {
+        update.bestBefore = bestBefore;
+      }
+
+      await pantryCollection.updateOne({ _id: existing._id }, { $set: update });
+      pantry[index] = { ...existing, ...update };
+    }
+
+    return pantry;
+  } catch (error) {
+    console.error("Error adding pantry items:", error);
+    throw new Error("Failed to add pantry items.");
+  }
+}
+
+/**
+ * Updates a single pantry item of a user.
+ *
+ * @param userId The ID of the user.
+ * @param itemId The ID of the pantry item.
+ * @param updates The fields to change; `quantity: null` marks the amount as unknown.
+ * @returns The updated item or null if not found.
+ */
+export async function updatePantryItem(
+  userId: string | ObjectId,
+  itemId: string | ObjectId,
+  updates: Partial<Omit<PantryItemInput, 'quantity'>> & { quantity?: number | null }
+): Promise<PantryItem | null> {
+  try {
+    const pantryCollection = await getCollection<PantryItem>(COLLECTIONS.PANTRY_ITEMS);
+    const $set: Partial<PantryItem> = { updatedAt: new Date() };
+    const $unset: Record<string, ''> = {};
+
+    if (updates.name !== undefined) $set.name = updates.name.trim();
+    if (updates.unit !== undefined) $set.unit = updates.unit.trim();
+    if (updates.quantity === null) $unset.quantity = '';
+    else if (updates.quantity !== undefined) $set.quantity = updates.quantity;
+    if (updates.bestBefore === null) $unset.bestBefore = '';
+    else if (updates.bestBefore !== undefined) $set.bestBefore = new Date(updates.bestBefore);
+
+    return await pantryCollection.findOneAndUpdate(
+      { _id: toObjectId(itemId), userId: toObjectId(userId) },
+      { $set, ...(Object.keys($unset).length > 0 && { $unset }) },
+      { returnDocument: "after" }
+    );
+  } catch (error) {
+    console.error("Error updating pantry item:", error);
+    throw new Error("Failed to update pantry item.");
+  }
+}
+
+/**
+ * Deletes a single pantry item of a user.
+ *
+ * @param userId The ID of the user.
+ * @param itemId The ID of the pantry item.
+ * @returns True if the item was deleted.
+ */
+export async function deletePantryItem(userId: string | ObjectId, itemId: string | ObjectId): Promise<boolean> {
+  try {
+    const pantryCollection = await getCollection<PantryItem>(COLLECTIONS.PANTRY_ITEMS);
+    const result = await pantryCollection.deleteOne({
+      _id: toObjectId(itemId),
+      userId: toObjectId(userId),
+    });
+    return result.deletedCount > 0;
+  } catch (error) {
+    console.error("Error deleting pantry item:", error);
+    throw new Error("Failed to delete pantry item.");
+  }
+}
+
+/**
+ * Takes used ingredients (e.g. of a cooked meal) out of a user's pantry.
+ * Items that are used up are removed; items with an unknown amount stay.
+ *
+ * @param userId The ID of the user.
+ * @param used The consolidated ingredients that were used.
+ * @returns The updated and removed pantry items.
+ */
+export async function deductPantryItems(
+  userId: string | ObjectId,
+  used: GroceryItem[]
+): Promise<{ updated: PantryItem[]; removed: PantryItem[] }> {
+  try {
+    const pantryCollection = await getCollection<PantryItem>(COLLECTIONS.PANTRY_ITEMS);
+    const pantry = await findPantryItemsByUserId(userId);
+    const remaining = deductFromPantry(pantry, used);
+    const now = new Date();
+
+    const changed = remaining.filter((item, index) => item.quantity !== pantry[index].quantity);
+    const removed = changed.filter(item => item.quantity !== undefined && item.quantity <= 0);
+    const updated = changed.filter(item => !removed.includes(item));
+
+    if (removed.length > 0) {
+      await pantryCollection.deleteMany({ _id: { $in: removed.map(item => item._id) } });
+    }
+    if (updated.length > 0) {
+      await pantryCollection.bulkWrite(updated.map(item => ({
+        updateOne: {
+          filter: { _id: item._id },
+          update: { $set: { quantity: item.quantity, updatedAt: now } },
+        },
+      })));
+    }
+
+    return { updated, removed };
+  } catch (error) {
+    console.error("Error deducting pantry items:", error);
+    throw new Error("Failed to deduct pantry items.");
+  }
+}
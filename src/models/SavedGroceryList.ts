@@ -1,30 +1,40 @@
 
 import { getCollection, COLLECTIONS, toObjectId } from "@/lib/db";
 import { ObjectId } from "mongodb";
+import { GroceryItem } from "@/utils/groceryListHelper";
+import {
+  applyGroceryListOperations,
+  type GroceryListActor,
+  type GroceryListOperation,
+} from "@/utils/groceryListOperations";
 
 // Interface for a single saved grocery list
 export interface SavedGroceryList {
   _id: ObjectId;
   userId: ObjectId;
   name: string; // e.g., "Shopping Trip - 2023-10-28"
-  ingredients: {
-    name: string;
-    quantity: number;
-    unit: string;
-    checked: boolean;
-  }[];
+  ingredients: GroceryItem[];
+  version?: number; // Increased on every change; used for optimistic concurrency
   createdAt: Date;
+  updatedAt?: Date;
 }
 
+export type SavedGroceryListUpdateResult =
+  | { status: 'updated'; list: SavedGroceryList }
+  | { status: 'conflict'; list: SavedGroceryList } // Changed since the client's version
+  | { status: 'not-found' };
+
+const MAX_UPDATE_ATTEMPTS = 5;
+
 /**
  * Saves a new grocery list for a user.
  *
  * @param userId The ID of the user.
  * @param name A name for the saved list.
- * @param ingredients The array of ingredients to save.
+ * @param ingredients The consolidated ingredients to save.
  * @returns The newly created saved list.
  */
-export async function saveGroceryList(userId: string | ObjectId, name: string, ingredients: any[]): Promise<SavedGroceryList> {
+export async function saveGroceryList(userId: string | ObjectId, name: string, ingredients: GroceryItem[]): Promise<SavedGroceryList> {
   try {
     const savedListsCollection = await getCollection<SavedGroceryList>(COLLECTIONS.SAVED_GROCERY_LISTS);
 
@@ -32,7 +42,9 @@ export async function saveGroceryList(userId: string | ObjectId, name: string, i
       userId: toObjectId(userId),
       name,
       ingredients,
+      version: 1,
       createdAt: new Date(),
+      updatedAt: new Date(),
     };
 
     const result = await savedListsCollection.insertOne(newList);
@@ -85,3 +97,80 @@ export async function deleteSavedListById(listId: string | ObjectId, userId: str
     throw new Error("Failed to delete the saved list.");
   }
 }
+
+/**
+ * Finds a single saved grocery list.
+ *
+ * @param listId The ID of the list.
+ * @param userId The ID of the user who owns the list, for security.
+ * @returns The list or null if not found.
+ */
+export async function findSavedListById(listId: string | ObjectId, userId: string | ObjectId): Promise<SavedGroceryList | null> {
+  try {
+    const savedListsCollection = await getCollection<SavedGroceryList>(COLLECTIONS.SAVED_GROCERY_LISTS);
+    return await savedListsCollection.findOne({ _id: toObjectId(listId), userId: toObjectId(userId) });
+  } catch (error) {
+    console.error("Error finding saved list by ID:", error);
+    throw new Error("Failed to find the saved list.");
+  }
+}
+
+/**
+ * Renames a saved list and/or applies item operations to it (check-offs,
+ * additions, removals, edits, reordering).
+ *
+ * With `expectedVersion` the update only happens if nobody changed the list
+ * since the client loaded it; otherwise the current list is returned as a
+ * conflict. Without it, operations are applied to the latest version and
+ * retried if the list changed in between.
+ *
+ * @param listId The ID of the saved list.
+ * @param userId The ID of the user who owns the list, for security.
+ * @param update The new name and/or operations, in the order they were made.
+ * @param actor Who made the changes, recorded on check-offs.
+ * @param expectedVersion Optional version the client's changes are based on.
+ * @returns The updated list, the current list on a conflict, or not-found.
+ */
+export async function updateSavedList(
+  listId: string | ObjectId,
+  userId: string | ObjectId,
+  update: { name?: string; operations?: GroceryListOperation[] },
+  actor: GroceryListActor,
+  expectedVersion?: number
+): Promise<SavedGroceryListUpdateResult> {
+  try {
+    const savedListsCollection = await getCollection<SavedGroceryList>(COLLECTIONS.SAVED_GROCERY_LISTS);
+
+    for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+      const existing = await savedListsCollection.findOne({ _id: toObjectId(listId), userId: toObjectId(userId) });
+      if (!existing) return { status: 'not-found' };
+
+      const currentVersion = existing.version ?? 0;
+      if (expectedVersion !== undefined && expectedVersion !== currentVersion) {
+        return { status: 'conflict', list: existing };
+      }
+
+      const $set: Partial<SavedGroceryList> = { updatedAt: new Date() };
+      if (update.name !== undefined) $set.name = update.name.trim();
+      if (update.operations?.length) {
+        $set.ingredients = applyGroceryListOperations(existing.ingredients, update.operations, actor);
+      }
+
+      const result = await savedListsCollection.findOneAndUpdate(
+        { _id: existing._id, version: existing.version ?? { $exists: false } },
+        { $set, $inc: { version: 1 } },
+        { returnDocument: "after" }
+      );
+      if (result) return { status: 'updated', list: result };
+      if (expectedVersion !== undefined) {
+        const current = await savedListsCollection.findOne({ _id: existing._id });
+        return current ? { status: 'conflict', list: current } : { status: 'not-found' };
+      }
+    }
+
+    throw new Error("Saved list is being edited by someone else, please try again.");
+  } catch (error) {
+    console.error("Error updating saved list:", error);
+    throw error;
+  }
+}
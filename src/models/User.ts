@@ -303,3 +303,28 @@ export async function removeSavedRecipeForUser(
     throw new Error("Failed to remove saved recipe");
   }
 }
+
+/**
+ * Looks up the display names of some users, e.g. who checked a grocery item
+ *
+ * @param userIds - User IDs; invalid ones are skipped
+ * @returns Promise<Record<string, string>> - Name (or email) by user ID, for the users found
+ */
+export async function findUserNamesByIds(
+  userIds: string[]
+): Promise<Record<string, string>> {
+  try {
+    const usersCollection = await getCollection<User>(COLLECTIONS.USERS);
+    const ids = userIds.filter(id => ObjectId.isValid(id)).map(id => toObjectId(id));
+    if (ids.length === 0) return {};
+
+    const users = await usersCollection
+      .find({ _id: { $in: ids } }, { projection: { _id: 1, name: 1, email: 1 } })
+      .toArray();
+
+    return Object.fromEntries(users.map(user => [user._id!.toString(), user.name || user.email]));
+  } catch (error) {
+    console.error("Error finding user names:", error);
+    throw new Error("Failed to find user names");
+  }
+}
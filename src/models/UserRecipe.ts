@@ -7,6 +7,7 @@
 
 import { ObjectId } from "mongodb";
 import { getCollection, COLLECTIONS, toObjectId } from "@/lib/db";
+import { syncRecipeSearchEntry } from "@/services/recipeSearchService.server";
 
 export interface UserRecipe {
   _id: ObjectId;
@@ -238,6 +239,7 @@ export async function createUserRecipe(recipeData: CreateUserRecipeInput): Promi
     };
     
     const result = await userRecipesCollection.insertOne(newRecipe as any);
+    await syncRecipeSearchEntry(COLLECTIONS.USER_RECIPES, result.insertedId);
     
     return {
       ...newRecipe,
@@ -302,6 +304,7 @@ export async function updateUserRecipe(id: string, updateData: UpdateUserRecipeI
       { $set: updates },
       { returnDocument: 'after' }
     );
+    if (result) await syncRecipeSearchEntry(COLLECTIONS.USER_RECIPES, result._id);
     
     return result || null;
   } catch (error) {
@@ -491,6 +494,7 @@ export async function deleteUserRecipe(id: string): Promise<boolean> {
     const userRecipesCollection = await getCollection<UserRecipe>(COLLECTIONS.USER_RECIPES);
     
     const result = await userRecipesCollection.deleteOne({ _id: toObjectId(id) });
+    if (result.deletedCount > 0) await syncRecipeSearchEntry(COLLECTIONS.USER_RECIPES, toObjectId(id));
     
     return result.deletedCount > 0;
   } catch (error) {
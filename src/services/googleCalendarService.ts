@@ -5,7 +5,13 @@
  * Note: This is a client-side implementation for demonstration
  */
 
-import type { IMealPlan } from '@/types/meal-planning';
+import { toDateKey, type IMealPlan } from '@/types/meal-planning';
+import {
+  DEFAULT_MEAL_TYPES,
+  getMealsOfType,
+  getMealTypesForDays,
+  type MealTypeDefinition,
+} from '@/utils/mealTypes';
 
 interface GoogleCalendarEvent {
   summary: string;
@@ -21,70 +27,104 @@ interface GoogleCalendarEvent {
   colorId?: string;
 }
 
-// Default meal times
-const MEAL_TIMES = {
-  breakfast: { hour: 8, minute: 0, duration: 60 },
-  lunch: { hour: 12, minute: 30, duration: 60 },
-  dinner: { hour: 18, minute: 0, duration: 90 },
-  snacks: { hour: 15, minute: 0, duration: 30 }
+// Event length per built-in meal type in minutes; custom types get an hour
+const MEAL_DURATIONS: Record<string, number> = {
+  breakfast: 60,
+  lunch: 60,
+  dinner: 90,
+  snacks: 30
 };
+const DEFAULT_MEAL_DURATION = 60;
 
-// Color IDs for different meal types in Google Calendar
-const MEAL_COLORS = {
-  breakfast: '6', // Orange
-  lunch: '5',     // Yellow
-  dinner: '1',    // Blue
-  snacks: '2'     // Green
+/**
+ * Gets the calendar event length of a meal type in minutes
+ */
+export function getMealEventDuration(mealType: string): number {
+  return MEAL_DURATIONS[mealType] || DEFAULT_MEAL_DURATION;
+}
+
+// Event colours Google Calendar offers, by color id
+const GOOGLE_CALENDAR_COLORS: Record<string, string> = {
+  '1': '#7986cb', // Lavender
+  '2': '#33b679', // Sage
+  '3': '#8e24aa', // Grape
+  '4': '#e67c73', // Flamingo
+  '5': '#f6bf26', // Banana
+  '6': '#f4511e', // Tangerine
+  '7': '#039be5', // Peacock
+  '8': '#616161', // Graphite
+  '9': '#3f51b5', // Blueberry
+  '10': '#0b8043', // Basil
+  '11': '#d50000' // Tomato
 };
 
+/**
+ * Finds the Google Calendar event colour closest to a meal type colour
+ */
+export function getGoogleCalendarColorId(hexColor: string): string {
+  const toRgb = (hex: string) => [1, 3, 5].map(offset => parseInt(hex.slice(offset, offset + 2), 16) || 0);
+  const [red, green, blue] = toRgb(hexColor);
+
+  let closestId = '1';
+  let closestDistance = Infinity;
+  for (const [colorId, candidate] of Object.entries(GOOGLE_CALENDAR_COLORS)) {
+    const [r, g, b] = toRgb(candidate);
+    const distance = (red - r) ** 2 + (green - g) ** 2 + (blue - b) ** 2;
+    if (distance < closestDistance) {
+      closestId = colorId;
+      closestDistance = distance;
+    }
+  }
+  return closestId;
+}
+
 /**
  * Generate Google Calendar events from meal plan
  */
-function generateCalendarEvents(mealPlan: IMealPlan): GoogleCalendarEvent[] {
+function generateCalendarEvents(mealPlan: IMealPlan, mealTypes: MealTypeDefinition[] = DEFAULT_MEAL_TYPES): GoogleCalendarEvent[] {
   const events: GoogleCalendarEvent[] = [];
   const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
 
   mealPlan.days.forEach(day => {
-    const dayStr = day.date.toISOString().split('T')[0];
+    const dayStr = toDateKey(new Date(day.date));
 
-    // Process each meal type
-    Object.entries(MEAL_TIMES).forEach(([mealType, timeInfo]) => {
-      const meals = day[mealType as keyof typeof day] as any[];
-      
-      if (meals && meals.length > 0) {
-        meals.forEach((meal, index) => {
-          const startTime = new Date(`${dayStr}T${timeInfo.hour.toString().padStart(2, '0')}:${timeInfo.minute.toString().padStart(2, '0')}:00`);
-          const endTime = new Date(startTime.getTime() + (timeInfo.duration * 60 * 1000));
-
-          // Adjust time if multiple meals of same type
-          if (index > 0) {
-            startTime.setMinutes(startTime.getMinutes() + (index * 15));
-            endTime.setMinutes(endTime.getMinutes() + (index * 15));
-          }
-
-          events.push({
-            summary: `${mealType.charAt(0).toUpperCase() + mealType.slice(1)}: ${meal.recipeName || 'Meal'}`,
-            description: [
-              meal.recipeName ? `Recipe: ${meal.recipeName}` : '',
-              meal.servings ? `Servings: ${meal.servings}` : '',
-              meal.cookingTime ? `Cooking time: ${meal.cookingTime} minutes` : '',
-              meal.prepTime ? `Prep time: ${meal.prepTime} minutes` : '',
-              meal.notes ? `Notes: ${meal.notes}` : '',
-              '',
-              'Created with SmartPlates Meal Planning'
-            ].filter(Boolean).join('\n'),
-            start: {
-              dateTime: startTime.toISOString(),
-              timeZone
-            },
-            end: {
-              dateTime: endTime.toISOString(),
-              timeZone
-            },
-            colorId: MEAL_COLORS[mealType as keyof typeof MEAL_COLORS]
-          });
+    // Process each meal type at its default time
+    getMealTypesForDays(mealTypes, [day]).forEach(mealType => {
+      const meals = getMealsOfType(day, mealType.id);
+      const duration = getMealEventDuration(mealType.id);
+
+      meals.forEach((meal, index) => {
+        const startTime = new Date(`${dayStr}T${mealType.time}:00`);
+        const endTime = new Date(startTime.getTime() + (duration * 60 * 1000));
+
+        // Adjust time if multiple meals of same type
+        if (index > 0) {
+          startTime.setMinutes(startTime.getMinutes() + (index * 15));
+          endTime.setMinutes(endTime.getMinutes() + (index * 15));
+        }
+
+        events.push({
+          summary: `${mealType.name}: ${meal.recipeName || 'Meal'}`,
+          description: [
+            meal.recipeName ? `Recipe: ${meal.recipeName}` : '',
+            meal.servings ? `Servings: ${meal.servings}` : '',
+            meal.cookingTime ? `Cooking time: ${meal.cookingTime} minutes` : '',
+            meal.prepTime ? `Prep time: ${meal.prepTime} minutes` : '',
+            meal.notes ? `Notes: ${meal.notes}` : '',
+            '',
+            'Created with SmartPlates Meal Planning'
+          ].filter(Boolean).join('\n'),
+          start: {
+            dateTime: startTime.toISOString(),
+            timeZone
+          },
+          end: {
+            dateTime: endTime.toISOString(),
+            timeZone
+          },
+          colorId: getGoogleCalendarColorId(mealType.color)
         });
-      }
+      });
     });
   });
 
@@ -94,9 +134,9 @@ function generateCalendarEvents(mealPlan: IMealPlan): GoogleCalendarEvent[] {
 /**
  * Create Google Calendar link for adding events
  */
-export function generateGoogleCalendarLink(mealPlan: IMealPlan): string {
+export function generateGoogleCalendarLink(mealPlan: IMealPlan, mealTypes?: MealTypeDefinition[]): string {
   const baseUrl = 'https://calendar.google.com/calendar/render?action=TEMPLATE';
-  const events = generateCalendarEvents(mealPlan);
+  const events = generateCalendarEvents(mealPlan, mealTypes);
   
   if (events.length === 0) {
     return '';
@@ -119,13 +159,13 @@ export function generateGoogleCalendarLink(mealPlan: IMealPlan): string {
 /**
  * Export meal plan to Google Calendar (browser-based)
  */
-export async function exportToGoogleCalendar(mealPlan: IMealPlan): Promise<{
+export async function exportToGoogleCalendar(mealPlan: IMealPlan, mealTypes?: MealTypeDefinition[]): Promise<{
   success: boolean;
   message?: string;
   links?: string[];
 }> {
   try {
-    const events = generateCalendarEvents(mealPlan);
+    const events = generateCalendarEvents(mealPlan, mealTypes);
     
     if (events.length === 0) {
       return {
@@ -172,8 +212,8 @@ export async function exportToGoogleCalendar(mealPlan: IMealPlan): Promise<{
 /**
  * Generate .ics file for calendar import
  */
-export function generateICSFile(mealPlan: IMealPlan): Blob {
-  const events = generateCalendarEvents(mealPlan);
+export function generateICSFile(mealPlan: IMealPlan, mealTypes?: MealTypeDefinition[]): Blob {
+  const events = generateCalendarEvents(mealPlan, mealTypes);
   
   const icsContent = [
     'BEGIN:VCALENDAR',
@@ -211,13 +251,13 @@ export function generateICSFile(mealPlan: IMealPlan): Blob {
 /**
  * Download meal plan as .ics file
  */
-export function downloadICSFile(mealPlan: IMealPlan): void {
-  const blob = generateICSFile(mealPlan);
+export function downloadICSFile(mealPlan: IMealPlan, mealTypes?: MealTypeDefinition[]): void {
+  const blob = generateICSFile(mealPlan, mealTypes);
   const url = URL.createObjectURL(blob);
   
   const link = document.createElement('a');
   link.href = url;
-  link.download = `meal-plan-${mealPlan.weekStartDate.toISOString().split('T')[0]}.ics`;
+  link.download = `meal-plan-${toDateKey(new Date(mealPlan.startDate))}.ics`;
   document.body.appendChild(link);
   link.click();
   document.body.removeChild(link);
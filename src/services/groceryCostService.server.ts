@@ -0,0 +1,75 @@
+/**
+ * Grocery Cost Service
+ *
+ * Estimates the grocery cost of a meal plan from the price catalogue and
+ * ranks its recipes by cost, so the most expensive ones can be flagged
+ * against the user's weekly budget.
+ */
+
+import type { IMealPlan, MealSlot } from '@/models/MealPlan';
+import { findAllIngredientPrices, PRICE_CURRENCY } from '@/models/IngredientPrice';
+import { collectIngredientsByRecipe, collectPlannedMeals, type MealPlanGroceryOptions } from '@/services/mealPlanGroceryService.server';
+import { estimateGroceryCost, roundPrice } from '@/utils/groceryCostEstimator';
+
+export interface RecipeCostEstimate {
+  recipeId: string;
+  title: string;
+  mealCount: number; // Planned meals of this recipe inside the range
+  cost: number; // For all of those meals
+  unpricedItems: string[];
+}
+
+export interface MealPlanCostEstimate {
+  total: number;
+  currency: string;
+  mealCount: number;
+  recipes: RecipeCostEstimate[]; // Most expensive first
+  unpricedItems: string[]; // Ingredients without a usable price, across all recipes
+}
+
+/**
+ * Picks a display title for a recipe from the meals that use it
+ */
+function getRecipeTitle(meals: MealSlot[]): string {
+  return meals.find(meal => meal.recipeName)?.recipeName || 'Untitled recipe';
+}
+
+/**
+ * Estimates the grocery cost of a meal plan (or a date range of it)
+ *
+ * @param mealPlan - The meal plan to walk
+ * @param options - Optional inclusive date range and the household members
+ * @param preferredStores - The user's preferred stores (`shopping.preferredStores`)
+ * @returns Total, cost per recipe and the ingredients that could not be priced
+ */
+export async function estimateMealPlanCost(
+  mealPlan: IMealPlan,
+  options: Pick<MealPlanGroceryOptions, 'startDate' | 'endDate' | 'householdMembers'> = {},
+  preferredStores: string[] = []
+): Promise<MealPlanCostEstimate> {
+  const meals = collectPlannedMeals(mealPlan, options);
+  const [catalogue, ingredientsByRecipe] = await Promise.all([
+    findAllIngredientPrices(),
+    collectIngredientsByRecipe(meals),
+  ]);
+
+  const recipes: RecipeCostEstimate[] = Array.from(ingredientsByRecipe, ([recipeId, items]) => {
+    const recipeMeals = meals.filter(meal => meal.recipeId === recipeId);
+    const estimate = estimateGroceryCost(items, catalogue, preferredStores);
+    return {
+      recipeId,
+      title: getRecipeTitle(recipeMeals),
+      mealCount: recipeMeals.length,
+      cost: estimate.total,
+      unpricedItems: estimate.unpricedItems,
+    };
+  }).sort((a, b) => b.cost - a.cost);
+
+  return {
+    total: roundPrice(recipes.reduce((sum, recipe) => sum + recipe.cost, 0)),
+    currency: PRICE_CURRENCY,
+    mealCount: meals.length,
+    recipes,
+    unpricedItems: Array.from(new Set(recipes.flatMap(recipe => recipe.unpricedItems))),
+  };
+}
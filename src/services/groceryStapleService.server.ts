@@ -0,0 +1,93 @@
+/**
+ * Grocery Staple Service
+ *
+ * Adds a user's recurring staples to their active grocery list once per
+ * period. Runs when the shopping list page opens (so staples appear when the
+ * week or month rolls over) and when a meal plan week's list is generated.
+ * Staples are claimed before the list is written and released again when
+ * the write fails.
+ */
+
+import type { ObjectId } from 'mongodb';
+import { createOrUpdateGroceryList, type GroceryList } from '@/models/GroceryList';
+import {
+  claimDueGroceryStaples,
+  findGroceryStaplesByUserId,
+  releaseGroceryStaples,
+  type ClaimedGroceryStaple,
+  type GroceryStaple,
+} from '@/models/GroceryStaple';
+import { UserSettingsService } from '@/services/userSettingsService.server';
+import { isStapleDue, stapleToGroceryItem, type WeekStartsOn } from '@/utils/groceryStaples';
+import type { GroceryItem } from '@/utils/groceryListHelper';
+
+export interface StapleItems {
+  staples: GroceryStaple[];
+  items: GroceryItem[];
+  claimed: ClaimedGroceryStaple[]; // The staples marked as added; empty for a preview
+}
+
+/**
+ * Reads the user's first day of the week from their settings
+ * @param settingsUserId - The session user id (settings are keyed like the preferences API)
+ */
+export async function getWeekStartsOn(settingsUserId: string): Promise<WeekStartsOn> {
+  const settings = await UserSettingsService.getUserSettings(settingsUserId);
+  return settings.mealPlanning?.weekStartsOn ?? 1;
+}
+
+/**
+ * Collects the staples for the period containing `at` as grocery items
+ *
+ * @param userId - The user's ObjectId
+ * @param at - A date inside the period
+ * @param weekStartsOn - The user's first day of the week
+ * @param options.claim - Mark the staples as added (false = preview only)
+ * @param options.includeAddedThisPeriod - Also include staples already added in this
+ *   period, for a list that replaces the one they were added to
+ */
+export async function collectStapleItems(
+  userId: string | ObjectId,
+  at: Date,
+  weekStartsOn: WeekStartsOn,
+  options: { claim: boolean; includeAddedThisPeriod?: boolean }
+): Promise<StapleItems> {
+  const claimed = options.claim
+    ? await claimDueGroceryStaples(userId, at, weekStartsOn, options.includeAddedThisPeriod)
+    : [];
+  const staples = options.claim
+    ? claimed
+    : (await findGroceryStaplesByUserId(userId)).filter(staple => isStapleDue(staple, at, weekStartsOn));
+
+  return { staples, items: staples.map(stapleToGroceryItem), claimed };
+}
+
+/**
+ * Writes a grocery list that contains claimed staples; if the write fails,
+ * the staples are released so the next load adds them again
+ *
+ * @param claimed - The staples claimed by collectStapleItems()
+ * @param write - Stores the list
+ */
+export async function writeWithClaimedStaples<T>(claimed: ClaimedGroceryStaple[], write: () => Promise<T>): Promise<T> {
+  try {
+    return await write();
+  } catch (error) {
+    if (claimed.length > 0) await releaseGroceryStaples(claimed);
+    throw error;
+  }
+}
+
+/**
+ * Adds the staples that are due now to the user's active grocery list.
+ * Staples are consolidated with what is already on the list.
+ *
+ * @param userId - The user's ObjectId
+ * @param weekStartsOn - The user's first day of the week
+ * @returns The updated list, or null if no staple was due
+ */
+export async function addDueStaplesToGroceryList(userId: string | ObjectId, weekStartsOn: WeekStartsOn): Promise<GroceryList | null> {
+  const { items, claimed } = await collectStapleItems(userId, new Date(), weekStartsOn, { claim: true });
+  if (items.length === 0) return null;
+  return writeWithClaimedStaples(claimed, () => createOrUpdateGroceryList(userId, items));
+}
@@ -0,0 +1,44 @@
+/**
+ * Household Conflict Service
+ *
+ * Checks the recipes of a meal plan against the diet and allergies of each
+ * household member, so the planner can warn when a meal's attendees include
+ * someone the recipe does not suit.
+ */
+
+import type { IMealPlan } from '@/models/MealPlan';
+import { resolveRecipes } from '@/lib/recipeResolver';
+import { toPlannerRecipe } from '@/services/mealPlanGeneratorService.server';
+import { findAttendeeConflicts, type AttendeeConflict, type HouseholdMember } from '@/utils/household';
+import { getDayMealTypeIds, getMealsOfType } from '@/utils/mealTypes';
+
+/**
+ * Finds the household members each recipe of a meal plan does not suit
+ *
+ * @param mealPlan - The meal plan to check
+ * @param members - The user's household members
+ * @returns The conflicts by recipe ID; recipes without conflicts are left out
+ */
+export async function findHouseholdConflicts(
+  mealPlan: IMealPlan,
+  members: HouseholdMember[]
+): Promise<Record<string, AttendeeConflict[]>> {
+  const recipeIds = Array.from(new Set(mealPlan.days.flatMap(day => getDayMealTypeIds(day).flatMap(mealType =>
+    getMealsOfType(day, mealType).flatMap(meal => meal.recipeId ? [meal.recipeId] : [])
+  ))));
+  if (members.length === 0 || recipeIds.length === 0) return {};
+
+  const resolvedRecipes = await resolveRecipes(recipeIds);
+  const conflicts: Record<string, AttendeeConflict[]> = {};
+
+  for (const recipeId of recipeIds) {
+    const resolved = resolvedRecipes.get(recipeId.trim());
+    const recipe = resolved ? toPlannerRecipe(resolved.recipe) : null;
+    if (!recipe) continue;
+
+    const recipeConflicts = findAttendeeConflicts(recipe, members);
+    if (recipeConflicts.length > 0) conflicts[recipeId] = recipeConflicts;
+  }
+
+  return conflicts;
+}
@@ -0,0 +1,162 @@
+/**
+ * Meal Leftover Service
+ *
+ * Applies batch cooking changes to the meal plans the edited plan cannot
+ * change itself: leftovers that fall into another plan, and leftovers that
+ * have to be removed or detached when their source is removed or moved.
+ */
+
+import { parseISO } from 'date-fns';
+import { ObjectId } from 'mongodb';
+import { MealPlanService, type DayMeals, type IMealPlan, type MealSlot } from '@/models/MealPlan';
+import { UserSettingsService } from '@/services/userSettingsService.server';
+import { createWeeklyPlanFromRotation } from '@/services/mealPlanRotationService.server';
+import { recordMealPlanRevision } from '@/services/mealPlanRevisionService.server';
+import { isDateInMealPlan } from '@/types/meal-planning';
+import {
+  addLeftoversToDays,
+  LEFTOVER_MEAL_TYPES,
+  releaseLeftoversFromDays,
+  type LeftoverPortion,
+  type LeftoverSyncRequest,
+} from '@/utils/mealLeftovers';
+
+// Leftover meals one request may place; each may create a weekly plan
+const MAX_LEFTOVER_PORTIONS = 14;
+
+/**
+ * Finds the user's plans that hold leftovers of a batch
+ */
+async function findPlansWithLeftovers(userId: string, batchId: string, excludeMealPlanId?: string): Promise<IMealPlan[]> {
+  const query: Record<string, unknown> = {
+    userId,
+    $or: LEFTOVER_MEAL_TYPES.map(mealType => ({ [`days.${mealType}.batchId`]: batchId })),
+  };
+  if (excludeMealPlanId) {
+    query._id = { $ne: new ObjectId(excludeMealPlanId) };
+  }
+  return await MealPlanService.find(query);
+}
+
+/**
+ * Removes or detaches the leftovers of a batch in every plan but the excluded one
+ */
+async function releaseLeftovers(userId: string, batchId: string, mode: 'remove' | 'detach', excludeMealPlanId?: string): Promise<IMealPlan[]> {
+  const plans = await findPlansWithLeftovers(userId, batchId, excludeMealPlanId);
+  const updatedPlans: IMealPlan[] = [];
+
+  for (const plan of plans) {
+    const released = releaseLeftoversFromDays<MealSlot, DayMeals>(plan.days, batchId, mode);
+    if (released.count === 0) continue;
+    const updated = await MealPlanService.updateById(plan._id!, { days: released.days });
+    if (updated) {
+      await recordMealPlanRevision(plan, updated);
+      updatedPlans.push(updated);
+    }
+  }
+
+  return updatedPlans;
+}
+
+/**
+ * Places leftover portions into the plans covering their dates, creating
+ * weekly plans (starting on the user's week start day, from their rotation
+ * if they have one) where there are none
+ */
+async function placeLeftovers(userId: string, source: MealSlot, portions: LeftoverPortion[]): Promise<IMealPlan[]> {
+  const settings = await UserSettingsService.getUserSettings(userId);
+  const plans = new Map<string, IMealPlan>();
+  let remaining = portions;
+
+  while (remaining.length > 0) {
+    const date = parseISO(remaining[0].date);
+    const plan = [...plans.values()].find(candidate => isDateInMealPlan(candidate, date))
+      || await MealPlanService.findByUserAndDate(userId, date)
+      || await createWeeklyPlanFromRotation(userId, date, settings.mealPlanning?.weekStartsOn)
+      || await MealPlanService.createWeeklyPlan(userId, date, settings.mealPlanning?.weekStartsOn);
+
+    const key = plan._id!.toString();
+    const previous = plans.get(key) || plan;
+    const placed = addLeftoversToDays<MealSlot, DayMeals>(previous.days, source, remaining);
+    const updated = await MealPlanService.updateById(plan._id!, { days: placed.days });
+    if (updated) await recordMealPlanRevision(previous, updated);
+    plans.set(key, updated || { ...plan, days: placed.days });
+
+    // A plan whose days do not match its range cannot take the portion
+    if (placed.outside.length === remaining.length) break;
+    remaining = placed.outside;
+  }
+
+  return Array.from(plans.values());
+}
+
+/**
+ * Applies a batch change to the user's other meal plans
+ *
+ * Placing replaces the batch's earlier leftovers outside the edited plan.
+ *
+ * @param userId - The owner of the plans
+ * @param request - What has to happen to the batch's leftovers
+ * @param excludeMealPlanId - The plan being edited, which applies its own changes
+ * @returns The plans that were changed
+ */
+export async function syncLeftovers(userId: string, request: LeftoverSyncRequest, excludeMealPlanId?: string): Promise<IMealPlan[]> {
+  if (request.action !== 'place') {
+    return await releaseLeftovers(userId, request.batchId, request.action, excludeMealPlanId);
+  }
+
+  const released = await releaseLeftovers(userId, request.batchId, 'remove', excludeMealPlanId);
+  const placed = await placeLeftovers(userId, request.source as MealSlot, request.portions);
+
+  // A plan can be changed twice; keep its last version
+  const plans = new Map<string, IMealPlan>();
+  for (const plan of [...released, ...placed]) {
+    plans.set(plan._id!.toString(), plan);
+  }
+  return Array.from(plans.values());
+}
+
+/**
+ * Applies the leftover changes of a server-side edit of a plan to the user's other plans
+ *
+ * @param userId - The owner of the plans
+ * @param requests - The changes, e.g. from `reconcileBatchSources`
+ * @param excludeMealPlanId - The edited plan, which holds its own changes already
+ */
+export async function syncLeftoverRequests(userId: string, requests: LeftoverSyncRequest[], excludeMealPlanId?: string): Promise<void> {
+  for (const request of requests) {
+    await syncLeftovers(userId, request, excludeMealPlanId);
+  }
+}
+
+/**
+ * Validates a leftover sync request
+ *
+ * @param input - The request body
+ * @returns An error message, or null if the input is valid
+ */
+export function validateLeftoverSyncInput(input: Record<string, unknown>): string | null {
+  const { batchId, action, source, portions, excludeMealPlanId } = input;
+
+  if (!batchId || typeof batchId !== 'string') {
+    return 'batchId is required';
+  }
+  if (action !== 'place' && action !== 'remove' && action !== 'detach') {
+    return 'action must be place, remove or detach';
+  }
+  if (excludeMealPlanId !== undefined && (typeof excludeMealPlanId !== 'string' || !ObjectId.isValid(excludeMealPlanId))) {
+    return 'excludeMealPlanId must be a meal plan id';
+  }
+  if (action === 'place') {
+    if (!source || typeof source !== 'object' || (source as MealSlot).batchId !== batchId) {
+      return 'source must be the batch-cooked meal';
+    }
+    const isValid = Array.isArray(portions) && portions.length <= MAX_LEFTOVER_PORTIONS && portions.every(portion =>
+      typeof portion?.date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(portion.date) &&
+      LEFTOVER_MEAL_TYPES.includes(portion.mealType) &&
+      typeof portion.servings === 'number' && portion.servings > 0
+    );
+    if (!isValid) return `portions must be a list of up to ${MAX_LEFTOVER_PORTIONS} { date yyyy-MM-dd, mealType, servings }`;
+  }
+  return null;
+}
@@ -0,0 +1,300 @@
+/**
+ * Meal Plan Generator Service
+ *
+ * Loads the recipe catalogue and the user's settings and fills a week with
+ * the meal plan generator. Slots the user locked, meals that were already
+ * cooked, leftovers and meal types that are not being generated keep their meals.
+ * Batch-cooked meals that get replaced take their leftovers with them.
+ */
+
+import { addDays, startOfDay } from 'date-fns';
+import type { DayMeals, IMealPlan, MealSlot } from '@/models/MealPlan';
+import { countDaysInRange, MAX_MEAL_PLAN_DAYS, parseDateInput } from '@/types/meal-planning';
+import { searchRecipesMongo } from '@/services/recipeService';
+import { UserSettingsService } from '@/services/userSettingsService.server';
+import {
+  estimateRecipeDifficulty,
+  generateMealPlan,
+  GENERATOR_MEAL_TYPES,
+  type EmptyPlanSlot,
+  type GeneratorMealType,
+  type MealPlanConstraints,
+  type PlannedMeal,
+  type PlannerRecipe,
+  type PlanSlot,
+  type RecipeDifficulty,
+} from '@/utils/mealPlanGenerator';
+import { isBatchSource, reconcileBatchSources, type LeftoverSyncRequest } from '@/utils/mealLeftovers';
+
+const DIFFICULTIES: RecipeDifficulty[] = ['easy', 'medium', 'hard'];
+
+// The fields of spoonacular, chef and community recipes the generator reads
+interface CatalogueRecipe {
+  _id?: { toString(): string } | string;
+  id?: string | number;
+  spoonacularId?: number;
+  title?: string;
+  image?: string;
+  readyInMinutes?: number;
+  totalTime?: number;
+  prepTime?: number;
+  cookTime?: number;
+  difficulty?: string;
+  cuisines?: string[];
+  cuisine?: string;
+  dishTypes?: string[];
+  category?: string;
+  diets?: string[];
+  dietaryTags?: string[];
+  vegan?: boolean;
+  vegetarian?: boolean;
+  glutenFree?: boolean;
+  dairyFree?: boolean;
+  extendedIngredients?: Array<{ name?: string; nameClean?: string }>;
+  ingredients?: Array<{ name?: string } | string>;
+  allergens?: string[];
+  nutrition?: { nutrients?: Array<{ name: string; amount: number }>; calories?: number };
+  calories?: number;
+}
+
+export interface GenerateWeekOptions {
+  settingsUserId: string; // The session user id (settings are keyed like the preferences API)
+  startDate: Date;
+  endDate: Date; // Inclusive
+  mealPlan?: IMealPlan | null; // The existing plan of the range, if any
+  mealTypes: GeneratorMealType[];
+  lockedSlots?: PlanSlot[];
+  goals?: Pick<MealPlanConstraints, 'noRepeatDays' | 'weekdayMaxTime' | 'dailyCalories'>;
+  seed: number;
+}
+
+export interface GeneratedWeek {
+  days: DayMeals[];
+  emptySlots: Array<EmptyPlanSlot & { date: Date }>;
+  seed: number;
+  leftoverRequests: LeftoverSyncRequest[]; // Leftovers of replaced batches in the user's other plans
+}
+
+/**
+ * Reduces a catalogue recipe to what the generator looks at
+ * @returns The recipe, or null if it has no usable id
+ */
+export function toPlannerRecipe(recipe: CatalogueRecipe): PlannerRecipe | null {
+  const id = recipe.spoonacularId ? String(recipe.spoonacularId) : (recipe._id?.toString() || (recipe.id !== undefined ? String(recipe.id) : ''));
+  if (!id || !recipe.title) return null;
+
+  const ingredients = recipe.extendedIngredients?.length
+    ? recipe.extendedIngredients.map(ingredient => ingredient.nameClean || ingredient.name || '')
+    : (recipe.ingredients || []).map(ingredient => typeof ingredient === 'string' ? ingredient : ingredient.name || '');
+  const totalTime = recipe.readyInMinutes || recipe.totalTime || ((recipe.prepTime || 0) + (recipe.cookTime || 0)) || undefined;
+  const diets = [
+    ...(recipe.diets || []),
+    ...(recipe.dietaryTags || []),
+    ...(recipe.vegan ? ['vegan'] : []),
+    ...(recipe.vegetarian ? ['vegetarian'] : []),
+    ...(recipe.glutenFree ? ['gluten free'] : []),
+    ...(recipe.dairyFree ? ['dairy free'] : []),
+  ].map(diet => diet.toLowerCase().replace(/-/g, ' '));
+  const calories = recipe.nutrition?.nutrients?.find(nutrient => nutrient.name.toLowerCase() === 'calories')?.amount
+    ?? recipe.nutrition?.calories
+    ?? recipe.calories;
+
+  return {
+    id,
+    title: recipe.title,
+    image: recipe.image,
+    totalTime,
+    difficulty: DIFFICULTIES.includes(recipe.difficulty as RecipeDifficulty)
+      ? recipe.difficulty as RecipeDifficulty
+      : estimateRecipeDifficulty(totalTime, ingredients.length),
+    cuisines: recipe.cuisines?.length ? recipe.cuisines : (recipe.cuisine ? [recipe.cuisine] : []),
+    dishTypes: recipe.dishTypes?.length ? recipe.dishTypes : (recipe.category ? [recipe.category] : []),
+    diets: Array.from(new Set(diets)),
+    ingredients: ingredients.filter(Boolean),
+    allergens: recipe.allergens || [],
+    calories: calories || undefined,
+  };
+}
+
+/**
+ * Loads the recipe catalogue (spoonacular, chef and community recipes)
+ */
+export async function loadPlannerRecipes(): Promise<PlannerRecipe[]> {
+  const { recipes } = await searchRecipesMongo({}, { limit: 500 });
+  return (recipes as CatalogueRecipe[])
+    .map(recipe => toPlannerRecipe(recipe))
+    .filter((recipe): recipe is PlannerRecipe => recipe !== null);
+}
+
+/**
+ * Describes a meal that is not in the catalogue (e.g. deleted), so it still counts toward repeats
+ */
+function toKeptRecipe(meal: MealSlot, catalogue: Map<string, PlannerRecipe>): PlannerRecipe | null {
+  if (!meal.recipeId) return null;
+  return catalogue.get(meal.recipeId) || {
+    id: meal.recipeId,
+    title: meal.recipeName || 'Untitled recipe',
+    totalTime: meal.totalTime || meal.cookingTime,
+    difficulty: meal.difficulty || 'medium',
+    cuisines: [],
+    dishTypes: [],
+    diets: [],
+    ingredients: [],
+    allergens: [],
+  };
+}
+
+/**
+ * Turns a generated meal into a meal slot
+ */
+function toMealSlot(recipe: PlannerRecipe, servings: number): MealSlot {
+  return {
+    recipeId: recipe.id,
+    recipeName: recipe.title,
+    servings,
+    cookingTime: recipe.totalTime,
+    totalTime: recipe.totalTime,
+    image: recipe.image,
+    difficulty: recipe.difficulty,
+    category: recipe.dishTypes[0],
+  };
+}
+
+/**
+ * Fills a week with generated meals
+ *
+ * @param options - The week, its existing plan, which slots to fill and the seed
+ * @returns The new days plus the slots that stayed empty and why
+ */
+export async function generateWeek(options: GenerateWeekOptions): Promise<GeneratedWeek> {
+  const { settingsUserId, startDate, endDate, mealPlan, mealTypes, lockedSlots = [], goals = {}, seed } = options;
+  const [recipes, settings] = await Promise.all([
+    loadPlannerRecipes(),
+    UserSettingsService.getUserSettings(settingsUserId),
+  ]);
+  const catalogue = new Map(recipes.map(recipe => [recipe.id, recipe]));
+
+  const planDays: DayMeals[] = mealPlan?.days.length
+    ? mealPlan.days
+    : Array.from({ length: countDaysInRange(startDate, endDate) }, (_, index) => ({
+        date: addDays(startOfDay(startDate), index),
+        breakfast: [],
+        lunch: [],
+        dinner: [],
+        snacks: [],
+      }));
+
+  // Uncooked batch sources in slots that get replaced are not cooked any more,
+  // so their leftovers are removed (which frees those slots as well)
+  const isKept = (meals: MealSlot[]) => meals.some(meal => meal.cookedAt || meal.isLeftover);
+  const withoutReplacedSources = planDays.map((day, dayIndex) => {
+    const updatedDay = { ...day };
+    for (const mealType of mealTypes) {
+      const meals = day[mealType] || [];
+      if (isKept(meals) || lockedSlots.some(slot => slot.dayIndex === dayIndex && slot.mealType === mealType)) continue;
+      updatedDay[mealType] = meals.filter(meal => !isBatchSource(meal));
+    }
+    return updatedDay;
+  });
+  const { days, requests: leftoverRequests } = reconcileBatchSources<MealSlot, DayMeals>(planDays, withoutReplacedSources, () => true);
+
+  // Cooked meals and leftovers of a batch are never replaced
+  const locked: PlanSlot[] = [...lockedSlots];
+  days.forEach((day, dayIndex) => {
+    for (const mealType of mealTypes) {
+      if (isKept(day[mealType] || [])) locked.push({ dayIndex, mealType });
+    }
+  });
+  const isLocked = (dayIndex: number, mealType: GeneratorMealType) =>
+    locked.some(slot => slot.dayIndex === dayIndex && slot.mealType === mealType);
+
+  const keptMeals: PlannedMeal[] = days.flatMap((day, dayIndex) =>
+    GENERATOR_MEAL_TYPES
+      .filter(mealType => !mealTypes.includes(mealType) || isLocked(dayIndex, mealType))
+      .flatMap(mealType => (day[mealType] || []).flatMap(meal => {
+        const recipe = toKeptRecipe(meal, catalogue);
+        return recipe ? [{ dayIndex, mealType, recipe }] : [];
+      }))
+  );
+
+  const generated = generateMealPlan(recipes, {
+    dates: days.map(day => new Date(day.date)),
+    mealTypes,
+    constraints: {
+      restrictions: settings.dietary,
+      maxCookTime: settings.recipes?.maxCookTime,
+      skillLevel: settings.dietary?.cookingSkillLevel,
+      preferredCuisines: settings.recipes?.preferredCuisines,
+      ...goals,
+    },
+    lockedSlots: locked,
+    keptMeals,
+    seed,
+  });
+
+  const servings = settings.mealPlanning?.defaultServings || 2;
+  const generatedDays = days.map((day, dayIndex) => {
+    const updatedDay = { ...day };
+    for (const mealType of mealTypes) {
+      if (isLocked(dayIndex, mealType)) continue;
+      updatedDay[mealType] = generated.meals
+        .filter(meal => meal.dayIndex === dayIndex && meal.mealType === mealType)
+        .map(meal => toMealSlot(meal.recipe, servings));
+    }
+    return updatedDay;
+  });
+
+  return {
+    days: generatedDays,
+    emptySlots: generated.emptySlots.map(slot => ({ ...slot, date: new Date(days[slot.dayIndex].date) })),
+    seed: generated.seed,
+    leftoverRequests,
+  };
+}
+
+/**
+ * Validates a generator request
+ *
+ * @param input - The request body
+ * @returns An error message, or null if the input is valid
+ */
+export function validateGenerateWeekInput(input: Record<string, unknown>): string | null {
+  const { mealPlanId, endDate, seed, mealTypes, lockedSlots, noRepeatDays, weekdayMaxTime, dailyCalories } = input;
+  const startDate = input.startDate ?? input.weekStartDate;
+
+  if (!mealPlanId && !startDate) {
+    return 'mealPlanId or startDate is required';
+  }
+  if (mealPlanId !== undefined && typeof mealPlanId !== 'string') {
+    return 'mealPlanId must be a string';
+  }
+  if (startDate !== undefined && (typeof startDate !== 'string' || !parseDateInput(startDate))) {
+    return 'startDate must be a date';
+  }
+  if (endDate !== undefined) {
+    const end = typeof endDate === 'string' ? parseDateInput(endDate) : null;
+    if (!end || typeof startDate !== 'string') return 'endDate must be a date and needs a startDate';
+    const dayCount = countDaysInRange(parseDateInput(startDate)!, end);
+    if (dayCount < 1 || dayCount > MAX_MEAL_PLAN_DAYS) return `A meal plan must cover between 1 and ${MAX_MEAL_PLAN_DAYS} days`;
+  }
+  if (seed !== undefined && !Number.isInteger(seed)) {
+    return 'seed must be an integer';
+  }
+  if (mealTypes !== undefined) {
+    const isValid = Array.isArray(mealTypes) && mealTypes.length > 0 && mealTypes.every(type => GENERATOR_MEAL_TYPES.includes(type));
+    if (!isValid) return `mealTypes must be a non-empty list of ${GENERATOR_MEAL_TYPES.join(', ')}`;
+  }
+  if (lockedSlots !== undefined) {
+    const isValid = Array.isArray(lockedSlots) && lockedSlots.every(slot =>
+      Number.isInteger(slot?.dayIndex) && slot.dayIndex >= 0 && slot.dayIndex < MAX_MEAL_PLAN_DAYS &&
+      GENERATOR_MEAL_TYPES.includes(slot.mealType)
+    );
+    if (!isValid) return `lockedSlots must be a list of { dayIndex 0-${MAX_MEAL_PLAN_DAYS - 1}, mealType }`;
+  }
+  for (const [field, value] of Object.entries({ noRepeatDays, weekdayMaxTime, dailyCalories })) {
+    if (value !== undefined && value !== null && (typeof value !== 'number' || value <= 0)) {
+      return `${field} must be a number above zero`;
+    }
+  }
+  return null;
+}
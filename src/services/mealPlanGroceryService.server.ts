@@ -0,0 +1,176 @@
+/**
+ * Meal Plan Grocery Service
+ *
+ * Builds one consolidated grocery list from every planned meal of a meal plan.
+ * Ingredients are fetched from all recipe collections, scaled by the planned
+ * servings of each slot (or the portions of the household members eating it)
+ * and merged via the grocery list consolidation engine.
+ * Stock from the user's pantry can be subtracted from the result.
+ */
+
+import { format } from 'date-fns';
+import type { IMealPlan, MealSlot } from '@/models/MealPlan';
+import { batchFetchRecipeIngredientData, type NormalizedIngredient } from '@/utils/ingredientsFetcher';
+import { consolidateGroceryItems, type RawGroceryIngredient, type GroceryItem } from '@/utils/groceryListHelper';
+import { subtractPantryStock, type PantryStock } from '@/utils/pantryHelper';
+import { getDayMealTypeIds, getMealsOfType } from '@/utils/mealTypes';
+import { getMealServings, type HouseholdMember } from '@/utils/household';
+import { getServingsScale, scaleIngredient } from '@/utils/recipeScaling';
+
+export interface MealPlanGroceryOptions {
+  startDate?: string; // Inclusive, yyyy-MM-dd
+  endDate?: string; // Inclusive, yyyy-MM-dd
+  pantry?: PantryStock[]; // Stock to subtract; covered amounts end up in `alreadyHave`
+  householdMembers?: HouseholdMember[]; // Servings of meals with attendees follow their portions
+}
+
+export interface MealPlanGroceryResult {
+  items: GroceryItem[];
+  alreadyHave: GroceryItem[]; // Amounts covered by the pantry
+  mealCount: number; // Planned meals with a recipe inside the range
+  recipeCount: number; // Distinct recipes inside the range
+  missingRecipeIds: string[]; // Recipes without any ingredient data
+  range: { startDate: string | null; endDate: string | null };
+}
+
+/**
+ * Formats a stored day date as yyyy-MM-dd for range comparisons
+ */
+function toDayKey(date: Date | string): string {
+  return format(new Date(date), 'yyyy-MM-dd');
+}
+
+/**
+ * Collects all meal slots with a recipe that fall inside the requested date range
+ *
+ * Leftovers are skipped: their batch is bought with the meal that cooks it.
+ * Meals with attendees get the servings of their portions.
+ */
+export function collectPlannedMeals(mealPlan: IMealPlan, options: MealPlanGroceryOptions = {}): MealSlot[] {
+  return mealPlan.days
+    .filter(day => {
+      const dayKey = toDayKey(day.date);
+      if (options.startDate && dayKey < options.startDate) return false;
+      if (options.endDate && dayKey > options.endDate) return false;
+      return true;
+    })
+    .flatMap(day => getDayMealTypeIds(day).flatMap(mealType => getMealsOfType(day, mealType)))
+    .filter(meal => Boolean(meal.recipeId) && !meal.isLeftover)
+    .map(meal => meal.attendees?.length ? { ...meal, servings: getMealServings(meal, options.householdMembers) } : meal);
+}
+
+/**
+ * Scales a recipe's ingredients to the servings planned for a slot
+ * Amounts like "1/2" are read by the recipe scaling engine, which also keeps
+ * pinches and "to taste" amounts as they are.
+ */
+function scaleIngredients(
+  ingredients: NormalizedIngredient[],
+  recipeId: string,
+  plannedServings?: number,
+  baseServings?: number
+): RawGroceryIngredient[] {
+  const scale = getServingsScale(baseServings, plannedServings);
+
+  return ingredients.map(ingredient => {
+    const scaled = scaleIngredient(ingredient, scale);
+    return {
+      name: scaled.name || ingredient.name,
+      quantity: scaled.amount ?? 1,
+      unit: scaled.unit,
+      category: ingredient.category,
+      recipeId,
+    };
+  });
+}
+
+/**
+ * Fetches the ingredients of the given meals, scaled to each meal's servings
+ */
+async function fetchScaledIngredients(
+  meals: Array<Pick<MealSlot, 'recipeId' | 'servings'>>
+): Promise<{ rawIngredients: RawGroceryIngredient[]; recipeIds: string[]; missingRecipeIds: string[] }> {
+  const recipeIds = Array.from(new Set(meals.map(meal => meal.recipeId!).filter(Boolean)));
+  const recipeData = await batchFetchRecipeIngredientData(recipeIds);
+
+  const rawIngredients = meals.flatMap(meal => {
+    const data = meal.recipeId ? recipeData.get(meal.recipeId) : undefined;
+    if (!data) return [];
+    return scaleIngredients(data.ingredients, meal.recipeId!, meal.servings, data.servings);
+  });
+
+  return {
+    rawIngredients,
+    recipeIds,
+    missingRecipeIds: recipeIds.filter(id => !recipeData.get(id)?.ingredients.length),
+  };
+}
+
+/**
+ * Fetches, scales and consolidates the ingredients of the given meals
+ *
+ * @param meals - Meal slots with a recipe (servings default to the recipe's servings)
+ * @returns Consolidated items plus the recipes that were involved
+ */
+export async function collectMealIngredients(
+  meals: Array<Pick<MealSlot, 'recipeId' | 'servings'>>
+): Promise<{ items: GroceryItem[]; recipeIds: string[]; missingRecipeIds: string[] }> {
+  const { rawIngredients, recipeIds, missingRecipeIds } = await fetchScaledIngredients(meals);
+
+  return {
+    items: consolidateGroceryItems(rawIngredients),
+    recipeIds,
+    missingRecipeIds,
+  };
+}
+
+/**
+ * Like `collectMealIngredients`, but keeps each recipe's ingredients apart
+ * (all meals of the same recipe are added up)
+ *
+ * @param meals - Meal slots with a recipe
+ * @returns Consolidated items per recipe ID
+ */
+export async function collectIngredientsByRecipe(
+  meals: Array<Pick<MealSlot, 'recipeId' | 'servings'>>
+): Promise<Map<string, GroceryItem[]>> {
+  const { rawIngredients } = await fetchScaledIngredients(meals);
+
+  const byRecipe = new Map<string, RawGroceryIngredient[]>();
+  for (const ingredient of rawIngredients) {
+    const recipeIngredients = byRecipe.get(ingredient.recipeId!) || [];
+    recipeIngredients.push(ingredient);
+    byRecipe.set(ingredient.recipeId!, recipeIngredients);
+  }
+
+  return new Map(
+    Array.from(byRecipe, ([recipeId, ingredients]) => [recipeId, consolidateGroceryItems(ingredients)])
+  );
+}
+
+/**
+ * Generates a consolidated grocery list for a meal plan (or a date range of it)
+ *
+ * @param mealPlan - The meal plan to walk
+ * @param options - Optional inclusive date range and pantry stock
+ * @returns Consolidated items plus some statistics for the UI
+ */
+export async function generateMealPlanGroceryList(
+  mealPlan: IMealPlan,
+  options: MealPlanGroceryOptions = {}
+): Promise<MealPlanGroceryResult> {
+  const meals = collectPlannedMeals(mealPlan, options);
+  const { items, recipeIds, missingRecipeIds } = await collectMealIngredients(meals);
+  const { toBuy, alreadyHave } = options.pantry
+    ? subtractPantryStock(items, options.pantry)
+    : { toBuy: items, alreadyHave: [] };
+
+  return {
+    items: toBuy,
+    alreadyHave,
+    mealCount: meals.length,
+    recipeCount: recipeIds.length,
+    missingRecipeIds,
+    range: { startDate: options.startDate || null, endDate: options.endDate || null },
+  };
+}
@@ -0,0 +1,161 @@
+/**
+ * Meal Plan Nutrition Service
+ *
+ * Adds up the nutrients of a meal plan per meal, per day and for the whole
+ * plan, from each recipe's nutrition scaled by the servings of the meal,
+ * and compares what one person eats each day (one serving of every meal)
+ * against the user's daily targets. Household members
+ * get their own totals from the meals they attend, scaled by their portion.
+ */
+
+import { format } from 'date-fns';
+import type { IMealPlan } from '@/models/MealPlan';
+import { resolveRecipes } from '@/lib/recipeResolver';
+import type { MealPlanGroceryOptions } from '@/services/mealPlanGroceryService.server';
+import {
+  addNutrition,
+  createEmptyNutrition,
+  getTargetStatus,
+  NUTRIENT_KEYS,
+  readRecipeNutrition,
+  roundNutrition,
+  type DayNutrition,
+  type MealNutrition,
+  type MealPlanNutrition,
+  type MemberNutrition,
+  type NutritionGap,
+  type NutritionTargets,
+  type NutritionValues,
+} from '@/utils/mealPlanNutrition';
+import { getDayMealTypeIds, getMealsOfType } from '@/utils/mealTypes';
+import { getEatenServings, getMealAttendees } from '@/utils/household';
+
+/**
+ * Divides totals by a number of days
+ */
+function averageNutrition(totals: NutritionValues, dayCount: number): NutritionValues {
+  return Object.fromEntries(
+    NUTRIENT_KEYS.map(key => [key, dayCount > 0 ? totals[key] / dayCount : 0])
+  ) as NutritionValues;
+}
+
+/**
+ * Calculates the nutrition of a meal plan (or a date range of it)
+ *
+ * @param mealPlan - The meal plan to walk
+ * @param options - Optional inclusive date range and the household members
+ * @param targets - The user's daily targets (`mealPlanning.nutritionTargets`)
+ * @returns Totals per meal, day and plan, and the meals without nutrition data
+ */
+export async function calculateMealPlanNutrition(
+  mealPlan: IMealPlan,
+  options: Pick<MealPlanGroceryOptions, 'startDate' | 'endDate' | 'householdMembers'> = {},
+  targets: NutritionTargets = {}
+): Promise<MealPlanNutrition> {
+  const days = mealPlan.days
+    .map(day => ({ day, date: format(new Date(day.date), 'yyyy-MM-dd') }))
+    .filter(({ date }) => (!options.startDate || date >= options.startDate) && (!options.endDate || date <= options.endDate));
+
+  const recipeIds = days.flatMap(({ day }) => getDayMealTypeIds(day).flatMap(mealType =>
+    getMealsOfType(day, mealType).flatMap(meal => meal.recipeId ? [meal.recipeId] : [])
+  ));
+  const resolvedRecipes = await resolveRecipes(recipeIds);
+
+  const gaps = new Map<string, NutritionGap>();
+  let totals = createEmptyNutrition();
+  let perPersonTotals = createEmptyNutrition();
+  let mealCount = 0;
+  let daysWithMeals = 0;
+  const members = new Map<string, MemberNutrition & { days: Set<string> }>();
+
+  const dayNutrition: DayNutrition[] = days.map(({ day, date }) => {
+    const meals: MealNutrition[] = getDayMealTypeIds(day).flatMap(mealType => getMealsOfType(day, mealType).map(meal => {
+      const plannedServings = getEatenServings(meal, options.householdMembers);
+      const servings = plannedServings && plannedServings > 0 ? plannedServings : 1;
+      const resolved = meal.recipeId ? resolvedRecipes.get(meal.recipeId.trim()) : undefined;
+      const perServing = resolved ? readRecipeNutrition(resolved.recipe) : null;
+      const attendees = getMealAttendees(meal, options.householdMembers || []);
+
+      attendees.forEach(member => {
+        const memberNutrition = members.get(member.id) || {
+          memberId: member.id,
+          name: member.name,
+          totals: createEmptyNutrition(),
+          dailyAverage: createEmptyNutrition(),
+          mealCount: 0,
+          gapCount: 0,
+          days: new Set<string>(),
+        };
+        members.set(member.id, {
+          ...memberNutrition,
+          totals: perServing ? addNutrition(memberNutrition.totals, perServing, member.portionMultiplier) : memberNutrition.totals,
+          mealCount: memberNutrition.mealCount + 1,
+          gapCount: memberNutrition.gapCount + (perServing ? 0 : 1),
+          days: memberNutrition.days.add(date),
+        });
+      });
+
+      return {
+        recipeId: meal.recipeId,
+        recipeName: meal.recipeName || 'Unknown Recipe',
+        mealType,
+        servings,
+        attendees: attendees.map(member => member.id),
+        nutrition: perServing ? roundNutrition(addNutrition(createEmptyNutrition(), perServing, servings)) : null,
+      };
+    }));
+
+    const dayTotals = meals.reduce(
+      (sum, meal) => meal.nutrition ? addNutrition(sum, meal.nutrition) : sum,
+      createEmptyNutrition()
+    );
+    // One serving of each meal is one person's day
+    const dayPerPerson = meals.reduce(
+      (sum, meal) => meal.nutrition ? addNutrition(sum, meal.nutrition, 1 / meal.servings) : sum,
+      createEmptyNutrition()
+    );
+    meals.filter(meal => !meal.nutrition).forEach(meal => {
+      const key = meal.recipeId || meal.recipeName;
+      const gap = gaps.get(key) || { recipeId: meal.recipeId, recipeName: meal.recipeName, mealCount: 0 };
+      gaps.set(key, { ...gap, mealCount: gap.mealCount + 1 });
+    });
+
+    totals = addNutrition(totals, dayTotals);
+    perPersonTotals = addNutrition(perPersonTotals, dayPerPerson);
+    mealCount += meals.length;
+    if (meals.length > 0) daysWithMeals++;
+
+    const targetStatus: DayNutrition['targetStatus'] = {};
+    if (meals.length > 0) {
+      NUTRIENT_KEYS.forEach(key => {
+        const status = getTargetStatus(dayPerPerson[key], targets[key]);
+        if (status) targetStatus[key] = status;
+      });
+    }
+
+    return {
+      date,
+      totals: roundNutrition(dayTotals),
+      perPerson: roundNutrition(dayPerPerson),
+      meals,
+      gapCount: meals.filter(meal => !meal.nutrition).length,
+      targetStatus,
+    };
+  });
+
+  return {
+    days: dayNutrition,
+    totals: roundNutrition(totals),
+    dailyAverage: roundNutrition(averageNutrition(perPersonTotals, daysWithMeals)),
+    targets,
+    mealCount,
+    gaps: Array.from(gaps.values()).sort((a, b) => b.mealCount - a.mealCount),
+    members: (options.householdMembers || [])
+      .flatMap(member => members.has(member.id) ? [members.get(member.id)!] : [])
+      .map(({ days: memberDays, ...member }) => ({
+        ...member,
+        totals: roundNutrition(member.totals),
+        dailyAverage: roundNutrition(averageNutrition(member.totals, memberDays.size)),
+      })),
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * Meal Plan Revision Service
+ *
+ * Keeps a version of a meal plan after each edit, so the user can look back
+ * at an earlier version of a week and restore it. Before the first recorded
+ * edit, the plan as it was is stored too.
+ */
+
+import { format } from 'date-fns';
+import { MealPlanService, type IMealPlan } from '@/models/MealPlan';
+import {
+  createMealPlanRevision,
+  findMealPlanRevisionById,
+  hasMealPlanRevisions,
+} from '@/models/MealPlanRevision';
+import { describeMealPlanChange, type MealPlanOperation } from '@/utils/mealPlanHistory';
+import { countDayMeals } from '@/utils/mealTypes';
+
+/**
+ * Stores the version of a plan after an edit
+ *
+ * Saves that did not change the days are skipped. Failures are logged
+ * only: the history never stops an edit from being saved.
+ *
+ * @param previousPlan - The plan before the edit
+ * @param updatedPlan - The plan after the edit
+ * @param operation - What the edit did; described from the days by default
+ */
+export async function recordMealPlanRevision(previousPlan: IMealPlan, updatedPlan: IMealPlan, operation?: MealPlanOperation): Promise<void> {
+  try {
+    const change = operation || describeMealPlanChange(previousPlan.days, updatedPlan.days);
+    if (!change) return;
+
+    const mealPlanId = updatedPlan._id!.toString();
+    const countMeals = (plan: IMealPlan) => plan.days.reduce((total, day) => total + countDayMeals(day), 0);
+
+    if (!(await hasMealPlanRevisions(mealPlanId))) {
+      await createMealPlanRevision({
+        mealPlanId,
+        userId: previousPlan.userId,
+        days: previousPlan.days,
+        operation: { type: 'edit', label: 'Earlier version' },
+        mealCount: countMeals(previousPlan),
+        createdAt: previousPlan.updatedAt ? new Date(previousPlan.updatedAt) : undefined,
+      });
+    }
+
+    await createMealPlanRevision({
+      mealPlanId,
+      userId: updatedPlan.userId,
+      days: updatedPlan.days,
+      operation: change,
+      mealCount: countMeals(updatedPlan),
+    });
+  } catch (error) {
+    console.error('❌ Failed to record meal plan revision:', error);
+  }
+}
+
+/**
+ * Puts an earlier version of a plan back; the restore is a revision of its own
+ *
+ * @param userId - The owner of the plan
+ * @param mealPlanId - The plan to restore
+ * @param revisionId - The version to restore
+ * @returns The restored plan, or null if the plan or the revision does not exist
+ */
+export async function restoreMealPlanRevision(userId: string, mealPlanId: string, revisionId: string): Promise<IMealPlan | null> {
+  const mealPlan = await MealPlanService.findById(mealPlanId);
+  if (!mealPlan || mealPlan.userId !== userId) return null;
+
+  const revision = await findMealPlanRevisionById(revisionId, mealPlanId, userId);
+  if (!revision) return null;
+
+  const restoredPlan = await MealPlanService.updateById(mealPlanId, { days: revision.days });
+  if (!restoredPlan) return null;
+
+  await recordMealPlanRevision(mealPlan, restoredPlan, {
+    type: 'restore',
+    label: `Restored the version of ${format(revision.createdAt, 'MMM d, HH:mm')}`,
+  });
+  console.log(`🕘 Restored revision ${revisionId} of meal plan ${mealPlanId}`);
+  return restoredPlan;
+}
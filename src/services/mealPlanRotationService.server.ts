@@ -0,0 +1,86 @@
+/**
+ * Meal Plan Rotation Service
+ *
+ * Plans a week from the user's rotation the first time it is opened: the
+ * template meal plan the rotation has for that week is laid out over it with
+ * `applyTemplateToRange`, so optional meals and alternatives are respected.
+ */
+
+import { MealPlanService, type DayMeals, type IMealPlan } from '@/models/MealPlan';
+import {
+  claimMealPlanRotationWeek,
+  findMealPlanRotationByUserId,
+  releaseMealPlanRotationWeek,
+} from '@/models/MealPlanRotation';
+import { addDaysToDate, getWeekStartDate, type WeekStartsOn } from '@/types/meal-planning';
+import { applyTemplateToRange, createTemplateFromMealPlan } from '@/types/meal-plan-templates';
+import { getWeekToMaterialize } from '@/utils/mealPlanRotation';
+
+/**
+ * Finds a template meal plan of a user
+ */
+async function findTemplatePlan(userId: string, templateId: string): Promise<IMealPlan | null> {
+  if (!/^[0-9a-fA-F]{24}$/.test(templateId)) return null;
+  const template = await MealPlanService.findById(templateId);
+  return template && template.userId === userId && template.isTemplate ? template : null;
+}
+
+/**
+ * Creates the plan of the week containing a date from the user's rotation
+ *
+ * Nothing is planned when the rotation is paused or ended, when the week is
+ * outside the rotation or was planned before, when the user already has a
+ * plan overlapping the week, or when its template was deleted.
+ *
+ * @param userId - The owner of the plans
+ * @param date - A day inside the week
+ * @param weekStartsOn - The user's first day of the week
+ * @returns The created plan, or null if the rotation does not plan this week
+ */
+export async function createWeeklyPlanFromRotation(userId: string, date: Date, weekStartsOn?: WeekStartsOn): Promise<IMealPlan | null> {
+  const rotation = await findMealPlanRotationByUserId(userId);
+  if (!rotation) return null;
+
+  const weekStart = getWeekStartDate(date, weekStartsOn);
+  const week = getWeekToMaterialize(rotation, weekStart, weekStartsOn);
+  if (!week) return null;
+
+  // Weeks the user already planned themselves are skipped
+  const existingPlans = await MealPlanService.findByUserInRange(userId, weekStart, addDaysToDate(weekStart, 6));
+  if (existingPlans.length > 0) return null;
+
+  const templatePlan = await findTemplatePlan(userId, week.templateId);
+  if (!templatePlan) {
+    console.warn(`⚠️ Rotation template ${week.templateId} of user ${userId} no longer exists`);
+    return null;
+  }
+
+  if (!(await claimMealPlanRotationWeek(rotation._id, week.weekStart))) return null;
+
+  try {
+    const template = createTemplateFromMealPlan({ ...templatePlan, _id: templatePlan._id?.toString() }, templatePlan.title || 'Rotation');
+    // A template shorter or longer than a week still fills exactly one week
+    const planned = applyTemplateToRange(template, userId, weekStart, addDaysToDate(weekStart, 6), {
+      skipOptional: rotation.skipOptionalMeals,
+      alternativeIndex: week.cycle,
+    });
+    // Template meals carry no cooking state, so they fit the stored slots
+    const days = planned.days as DayMeals[];
+
+    const mealPlan = await MealPlanService.create({
+      userId,
+      startDate: weekStart,
+      endDate: addDaysToDate(weekStart, 6),
+      title: `${templatePlan.title || 'Rotation'} - Week of ${weekStart.toLocaleDateString()}`,
+      days,
+      tags: planned.tags,
+      shoppingListGenerated: false,
+      isTemplate: false,
+    });
+    console.log(`🔁 Planned week ${week.weekStart} from rotation template ${week.templateId}`);
+    return mealPlan;
+  } catch (error) {
+    await releaseMealPlanRotationWeek(rotation._id, week.weekStart);
+    throw error;
+  }
+}
@@ -4,19 +4,19 @@
  * Handles communication between meal planning components and MongoDB backend
  */
 
-import type { IMealPlan } from '@/types/meal-planning';
+import { toDateKey, type IMealPlan } from '@/types/meal-planning';
 
 export class MealPlanService {
   private static baseUrl = '/api/meal-plans';
 
   /**
-   * Get meal plans for a specific user
+   * Get the user's meal plans, or the plan covering a date (yyyy-MM-dd)
    */
-  static async getMealPlans(weekStart?: string): Promise<IMealPlan[]> {
+  static async getMealPlans(date?: string): Promise<IMealPlan[]> {
     try {
       const params = new URLSearchParams();
-      if (weekStart) {
-        params.append('weekStart', weekStart);
+      if (date) {
+        params.append('date', date);
       }
 
       const response = await fetch(`${this.baseUrl}?${params}`);
@@ -33,6 +33,26 @@ export class MealPlanService {
     }
   }
 
+  /**
+   * Get the meal plans overlapping a date range (yyyy-MM-dd, inclusive)
+   */
+  static async getMealPlansInRange(startDate: string, endDate: string): Promise<IMealPlan[]> {
+    try {
+      const params = new URLSearchParams({ startDate, endDate });
+      const response = await fetch(`${this.baseUrl}?${params}`);
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch meal plans: ${response.statusText}`);
+      }
+
+      const result = await response.json();
+      return result.data || [];
+    } catch (error) {
+      console.error('Error fetching meal plans:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get a specific meal plan by ID
    */
@@ -57,9 +77,11 @@ export class MealPlanService {
 
   /**
    * Create a new meal plan
+   * Without an end date the server plans the week containing the start date.
    */
   static async createMealPlan(data: {
-    weekStartDate: string;
+    startDate: string; // yyyy-MM-dd
+    endDate?: string; // yyyy-MM-dd, inclusive
     title?: string;
     isTemplate?: boolean;
     copyFromWeek?: string;
@@ -132,14 +154,14 @@ export class MealPlanService {
   }
 
   /**
-   * Get meal plan for a specific week, create if it doesn't exist
+   * Get the meal plan covering a date, create the week containing it if there is none
    */
-  static async getOrCreateWeeklyPlan(weekStartDate: Date): Promise<IMealPlan> {
-    const weekKey = weekStartDate.toISOString().split('T')[0];
+  static async getOrCreateWeeklyPlan(date: Date): Promise<IMealPlan> {
+    const dateKey = toDateKey(date);
     
     try {
       // First try to get existing meal plan
-      const existingPlans = await this.getMealPlans(weekKey);
+      const existingPlans = await this.getMealPlans(dateKey);
       
       if (existingPlans && existingPlans.length > 0) {
         return existingPlans[0];
@@ -148,18 +170,17 @@ export class MealPlanService {
       // If no plan exists, create a new one
       try {
         return await this.createMealPlan({
-          weekStartDate: weekKey,
-          title: `Week of ${weekStartDate.toLocaleDateString()}`,
+          startDate: dateKey,
         });
       } catch (createError) {
         // If creation fails due to duplicate, try to get the existing plan again
         if (createError instanceof Error && (
           createError.message.includes('already exists') || 
           createError.message.includes('duplicate') ||
-          createError.message.includes('one meal plan per week')
+          createError.message.includes('one meal plan per date range')
         )) {
           console.log('Meal plan already exists, fetching existing one...');
-          const retryPlans = await this.getMealPlans(weekKey);
+          const retryPlans = await this.getMealPlans(dateKey);
           if (retryPlans && retryPlans.length > 0) {
             return retryPlans[0];
           }
@@ -205,6 +226,17 @@ export class MealPlanService {
     this.saveTimeouts.set(planId, timeout);
   }
 
+  /**
+   * Drop a pending debounced save, e.g. when an edit is undone before it was saved
+   */
+  static cancelPendingSave(planId: string): void {
+    const existingTimeout = this.saveTimeouts.get(planId);
+    if (existingTimeout) {
+      clearTimeout(existingTimeout);
+      this.saveTimeouts.delete(planId);
+    }
+  }
+
   /**
    * Force save immediately (for important operations)
    */
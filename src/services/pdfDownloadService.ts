@@ -2,11 +2,13 @@
  * PDF Download Service
  * 
  * Service for generating and downloading meal plan PDFs
- * Includes weekly calendar view and ingredients list
+ * Includes a day-by-day calendar view and ingredients list
  */
 
 import jsPDF from 'jspdf';
-import type { IMealPlan, DayMeals, MealSlot } from '@/types/meal-planning';
+import { formatDateRange, toDateKey, type IMealPlan, type DayMeals, type MealSlot } from '@/types/meal-planning';
+import { DEFAULT_MEAL_TYPES, getAllMeals, getMealsOfType, getMealTypesForDays } from '@/utils/mealTypes';
+import { formatIngredientAmount } from '@/utils/recipeScaling';
 
 interface IngredientItem {
   name: string;
@@ -45,7 +47,7 @@ export class MealPlanPDFService {
     this.addFooter(doc);
 
     // Download the PDF
-    const fileName = `meal-plan-${this.formatDateForFilename(mealPlan.weekStartDate)}.pdf`;
+    const fileName = `meal-plan-${this.formatDateForFilename(new Date(mealPlan.startDate))}.pdf`;
     doc.save(fileName);
   }
 
@@ -56,14 +58,14 @@ export class MealPlanPDFService {
     // Main title
     doc.setFontSize(18);
     doc.setFont('helvetica', 'bold');
-    const title = mealPlan.title || `Meal Plan - Week of ${mealPlan.weekStartDate.toLocaleDateString()}`;
+    const title = mealPlan.title || `Meal Plan - ${formatDateRange(new Date(mealPlan.startDate), new Date(mealPlan.endDate))}`;
     doc.text(title, this.PAGE_MARGIN, yPosition);
     yPosition += this.TITLE_HEIGHT + 5;
 
     // Date range
     doc.setFontSize(12);
     doc.setFont('helvetica', 'normal');
-    const dateRange = `${mealPlan.weekStartDate.toLocaleDateString()} - ${mealPlan.weekEndDate.toLocaleDateString()}`;
+    const dateRange = `${new Date(mealPlan.startDate).toLocaleDateString()} - ${new Date(mealPlan.endDate).toLocaleDateString()}`;
     doc.text(dateRange, this.PAGE_MARGIN, yPosition);
     yPosition += this.LINE_HEIGHT + 10;
 
@@ -81,15 +83,13 @@ export class MealPlanPDFService {
   private static addWeeklyCalendar(doc: jsPDF, mealPlan: IMealPlan, yPosition: number): number {
     doc.setFontSize(14);
     doc.setFont('helvetica', 'bold');
-    doc.text('Weekly Meal Plan', this.PAGE_MARGIN, yPosition);
+    doc.text(mealPlan.days.length === 7 ? 'Weekly Meal Plan' : 'Meal Plan', this.PAGE_MARGIN, yPosition);
     yPosition += this.TITLE_HEIGHT + 5;
 
-    const dayNames = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
-    const mealTypes = ['breakfast', 'lunch', 'dinner', 'snacks'] as const;
-    const mealIcons = { breakfast: '🌅', lunch: '☀️', dinner: '🌙', snacks: '🍎' };
+    const mealIcons: Record<string, string> = { breakfast: '🌅', lunch: '☀️', dinner: '🌙', snacks: '🍎' };
 
     // Add each day
-    mealPlan.days.forEach((day, dayIndex) => {
+    mealPlan.days.forEach((day) => {
       // Check if we need a new page
       if (yPosition > 250) {
         doc.addPage();
@@ -99,8 +99,8 @@ export class MealPlanPDFService {
       // Day header
       doc.setFontSize(12);
       doc.setFont('helvetica', 'bold');
-      const dayName = dayNames[dayIndex];
-      const dateStr = day.date.toLocaleDateString('en-US', { 
+      const dayName = new Date(day.date).toLocaleDateString('en-US', { weekday: 'long' });
+      const dateStr = new Date(day.date).toLocaleDateString('en-US', { 
         weekday: 'short', 
         month: 'short', 
         day: 'numeric' 
@@ -109,13 +109,13 @@ export class MealPlanPDFService {
       yPosition += this.LINE_HEIGHT + 3;
 
       // Meals for this day
-      mealTypes.forEach(mealType => {
-        const meals = day[mealType];
-        if (meals && meals.length > 0) {
+      getMealTypesForDays(DEFAULT_MEAL_TYPES, [day]).forEach(mealType => {
+        const meals = getMealsOfType(day, mealType.id);
+        if (meals.length > 0) {
           // Meal type header
           doc.setFontSize(10);
           doc.setFont('helvetica', 'bold');
-          const mealLabel = `${mealIcons[mealType]} ${mealType.charAt(0).toUpperCase() + mealType.slice(1)}`;
+          const mealLabel = `${mealIcons[mealType.id] || mealType.emoji} ${mealType.name}`;
           doc.text(mealLabel, this.PAGE_MARGIN + 10, yPosition);
           yPosition += this.LINE_HEIGHT;
 
@@ -184,7 +184,8 @@ export class MealPlanPDFService {
       doc.setFontSize(10);
       doc.setFont('helvetica', 'normal');
       items.forEach(ingredient => {
-        const ingredientText = `• ${ingredient.name}${ingredient.amount ? ` - ${ingredient.amount} ${ingredient.unit}` : ''}`;
+        const amount = formatIngredientAmount(ingredient.amount, ingredient.unit, { fractions: 'text' });
+        const ingredientText = `• ${ingredient.name}${amount ? ` - ${amount}` : ''}`;
         doc.text(ingredientText, this.PAGE_MARGIN + 10, yPosition);
         yPosition += this.LINE_HEIGHT;
       });
@@ -248,7 +249,7 @@ export class MealPlanPDFService {
     // This is a mock implementation
     // In a real app, you would extract ingredients from actual recipes
     mealPlan.days.forEach(day => {
-      const allMeals = [...day.breakfast, ...day.lunch, ...day.dinner, ...day.snacks];
+      const allMeals = getAllMeals(day);
       
       allMeals.forEach(meal => {
         if (meal.recipeName) {
@@ -343,6 +344,6 @@ export class MealPlanPDFService {
    * Format date for filename
    */
   private static formatDateForFilename(date: Date): string {
-    return date.toISOString().split('T')[0]; // YYYY-MM-DD format
+    return toDateKey(date); // YYYY-MM-DD format
   }
 }
\ No newline at end of file
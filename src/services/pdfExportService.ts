@@ -5,7 +5,9 @@
  * Uses jsPDF for PDF generation and html2canvas for layout capture
  */
 
-import type { IMealPlan, MealSlot } from '@/types/meal-planning';
+import { formatDateRange, toDateKey, type IMealPlan } from '@/types/meal-planning';
+import { DEFAULT_MEAL_TYPES, getAllMeals, getMealsOfType, getMealTypesForDays, type MealTypeDefinition } from '@/utils/mealTypes';
+import { formatIngredientAmount } from '@/utils/recipeScaling';
 
 // Interface for ingredient aggregation
 interface Ingredient {
@@ -48,40 +50,36 @@ function generateShoppingList(mealPlan: IMealPlan): Record<string, Ingredient[]>
   
   // Process each day's meals
   mealPlan.days.forEach(day => {
-    ['breakfast', 'lunch', 'dinner', 'snacks'].forEach(mealType => {
-      const meals = day[mealType as keyof typeof day] as MealSlot[];
-      
-      meals.forEach(meal => {
-        if (meal.recipeName && mockIngredients[meal.recipeName]) {
-          const ingredients = mockIngredients[meal.recipeName];
+    getAllMeals(day).forEach(meal => {
+      if (meal.recipeName && mockIngredients[meal.recipeName]) {
+        const ingredients = mockIngredients[meal.recipeName];
+        
+        ingredients.forEach(ingredient => {
+          if (!aggregatedIngredients[ingredient.category]) {
+            aggregatedIngredients[ingredient.category] = [];
+          }
           
-          ingredients.forEach(ingredient => {
-            if (!aggregatedIngredients[ingredient.category]) {
-              aggregatedIngredients[ingredient.category] = [];
-            }
-            
-            // Check if ingredient already exists in category
-            const existingIngredient = aggregatedIngredients[ingredient.category].find(
-              item => item.name === ingredient.name
-            );
-            
-            if (existingIngredient) {
-              // For simplicity, just increase quantity (in real app, would handle units properly)
-              const currentAmount = parseFloat(existingIngredient.amount) || 1;
-              const additionalAmount = parseFloat(ingredient.amount) || 1;
-              existingIngredient.amount = (currentAmount + additionalAmount * (meal.servings || 1)).toString();
-            } else {
-              // Add new ingredient with adjusted quantity for servings
-              const servings = meal.servings || 1;
-              const adjustedAmount = (parseFloat(ingredient.amount) || 1) * servings;
-              aggregatedIngredients[ingredient.category].push({
-                ...ingredient,
-                amount: adjustedAmount.toString()
-              });
-            }
-          });
-        }
-      });
+          // Check if ingredient already exists in category
+          const existingIngredient = aggregatedIngredients[ingredient.category].find(
+            item => item.name === ingredient.name
+          );
+          
+          if (existingIngredient) {
+            // For simplicity, just increase quantity (in real app, would handle units properly)
+            const currentAmount = parseFloat(existingIngredient.amount) || 1;
+            const additionalAmount = parseFloat(ingredient.amount) || 1;
+            existingIngredient.amount = (currentAmount + additionalAmount * (meal.servings || 1)).toString();
+          } else {
+            // Add new ingredient with adjusted quantity for servings
+            const servings = meal.servings || 1;
+            const adjustedAmount = (parseFloat(ingredient.amount) || 1) * servings;
+            aggregatedIngredients[ingredient.category].push({
+              ...ingredient,
+              amount: adjustedAmount.toString()
+            });
+          }
+        });
+      }
     });
   });
   
@@ -94,8 +92,9 @@ function generateShoppingList(mealPlan: IMealPlan): Record<string, Ingredient[]>
 export async function exportMealPlanToPDF(mealPlan: IMealPlan, options: {
   includeIngredients?: boolean;
   format?: 'A4' | 'Letter';
+  mealTypes?: MealTypeDefinition[]; // The user's meal types, in order
 } = {}) {
-  const { includeIngredients = true, format = 'A4' } = options;
+  const { includeIngredients = true, format = 'A4', mealTypes = DEFAULT_MEAL_TYPES } = options;
   
   try {
     // Dynamic import to avoid SSR issues
@@ -124,15 +123,11 @@ export async function exportMealPlanToPDF(mealPlan: IMealPlan, options: {
     // Date range
     doc.setFontSize(12);
     doc.setFont('helvetica', 'normal');
-    const startDate = mealPlan.weekStartDate.toLocaleDateString();
-    const endDate = mealPlan.weekEndDate.toLocaleDateString();
-    doc.text(`${startDate} - ${endDate}`, margin, yPosition);
+    doc.text(formatDateRange(new Date(mealPlan.startDate), new Date(mealPlan.endDate)), margin, yPosition);
     yPosition += 20;
     
     // Days and meals
-    const dayNames = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
-    
-    mealPlan.days.forEach((day, dayIndex) => {
+    mealPlan.days.forEach((day) => {
       // Check if we need a new page
       if (yPosition > pageHeight - 60) {
         doc.addPage();
@@ -142,20 +137,16 @@ export async function exportMealPlanToPDF(mealPlan: IMealPlan, options: {
       // Day header
       doc.setFontSize(16);
       doc.setFont('helvetica', 'bold');
-      doc.text(dayNames[dayIndex], margin, yPosition);
-      doc.text(day.date.toLocaleDateString(), pageWidth - margin - 40, yPosition);
+      doc.text(new Date(day.date).toLocaleDateString('en-US', { weekday: 'long' }), margin, yPosition);
+      doc.text(new Date(day.date).toLocaleDateString(), pageWidth - margin - 40, yPosition);
       yPosition += 10;
       
       // Meal types
-      const mealTypes = [
-        { key: 'breakfast', label: 'Breakfast', emoji: '🌅' },
-        { key: 'lunch', label: 'Lunch', emoji: '☀️' },
-        { key: 'dinner', label: 'Dinner', emoji: '🌙' },
-        { key: 'snacks', label: 'Snacks', emoji: '🍎' }
-      ];
+      const mealIcons: Record<string, string> = { breakfast: '🌅', lunch: '☀️', dinner: '🌙', snacks: '🍎' };
       
-      mealTypes.forEach(mealType => {
-        const meals = day[mealType.key as keyof typeof day] as MealSlot[];
+      getMealTypesForDays(mealTypes, [day]).forEach(definition => {
+        const mealType = { label: definition.name, emoji: mealIcons[definition.id] || definition.emoji };
+        const meals = getMealsOfType(day, definition.id);
         
         if (meals && meals.length > 0) {
           doc.setFontSize(12);
@@ -219,7 +210,8 @@ export async function exportMealPlanToPDF(mealPlan: IMealPlan, options: {
         ingredients.forEach(ingredient => {
           doc.setFontSize(10);
           doc.setFont('helvetica', 'normal');
-          doc.text(`• ${ingredient.amount} ${ingredient.unit} ${ingredient.name}`, margin + 5, yPosition);
+          const amount = formatIngredientAmount(ingredient.amount, ingredient.unit, { fractions: 'text' });
+          doc.text(`• ${amount ? `${amount} ` : ''}${ingredient.name}`, margin + 5, yPosition);
           yPosition += 5;
         });
         
@@ -228,7 +220,7 @@ export async function exportMealPlanToPDF(mealPlan: IMealPlan, options: {
     }
     
     // Generate filename
-    const dateStr = mealPlan.weekStartDate.toISOString().split('T')[0];
+    const dateStr = toDateKey(new Date(mealPlan.startDate));
     const filename = `meal-plan-${dateStr}.pdf`;
     
     // Save the PDF
@@ -271,9 +263,7 @@ export async function exportShoppingListToPDF(mealPlan: IMealPlan) {
     // Date range
     doc.setFontSize(12);
     doc.setFont('helvetica', 'normal');
-    const startDate = mealPlan.weekStartDate.toLocaleDateString();
-    const endDate = mealPlan.weekEndDate.toLocaleDateString();
-    doc.text(`For meal plan: ${startDate} - ${endDate}`, margin, yPosition);
+    doc.text(`For meal plan: ${formatDateRange(new Date(mealPlan.startDate), new Date(mealPlan.endDate))}`, margin, yPosition);
     yPosition += 15;
     
     const shoppingList = generateShoppingList(mealPlan);
@@ -296,7 +286,7 @@ export async function exportShoppingListToPDF(mealPlan: IMealPlan) {
       yPosition += 5;
     });
     
-    const dateStr = mealPlan.weekStartDate.toISOString().split('T')[0];
+    const dateStr = toDateKey(new Date(mealPlan.startDate));
     doc.save(`shopping-list-${dateStr}.pdf`);
     
     return { success: true };
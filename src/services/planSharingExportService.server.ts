@@ -7,8 +7,10 @@
 
 import clientPromise from '@/lib/db';
 import { ObjectId } from 'mongodb';
-import type { IMealPlan } from '@/types/meal-planning';
+import type { DayMeals, IMealPlan } from '@/types/meal-planning';
 import type { SavedMealPlan } from './savedMealPlansService.server';
+import { UserSettingsService } from './userSettingsService.server';
+import { DEFAULT_MEAL_TYPES, getMealsOfType, getMealTypesForDays, type MealTypeDefinition } from '@/utils/mealTypes';
 
 export interface SharedPlan {
   _id?: string;
@@ -268,20 +270,24 @@ export class PlanSharingExportService {
         throw new Error('Plan not found');
       }
 
+      // Meal types are exported in the user's order and under their names
+      const settings = await UserSettingsService.getUserSettings(userId);
+      const mealTypes = settings.mealPlanning?.mealTypes || DEFAULT_MEAL_TYPES;
+
       let exportResult: { fileUrl: string; fileName: string; fileSize: number };
 
       switch (options.format) {
         case 'pdf':
-          exportResult = await this.generatePDF(planData, options);
+          exportResult = await this.generatePDF(planData, options, mealTypes);
           break;
         case 'html':
-          exportResult = await this.generateHTML(planData, options);
+          exportResult = await this.generateHTML(planData, options, mealTypes);
           break;
         case 'json':
           exportResult = await this.generateJSON(planData, options);
           break;
         case 'text':
-          exportResult = await this.generateText(planData, options);
+          exportResult = await this.generateText(planData, options, mealTypes);
           break;
         default:
           throw new Error('Unsupported export format');
@@ -320,7 +326,8 @@ export class PlanSharingExportService {
    */
   private static async generatePDF(
     planData: SavedMealPlan,
-    options: ExportOptions
+    options: ExportOptions,
+    mealTypes: MealTypeDefinition[]
   ): Promise<{ fileUrl: string; fileName: string; fileSize: number }> {
     // In a real implementation, you would use a PDF library like Puppeteer or jsPDF
     // For now, we'll create a placeholder
@@ -329,7 +336,7 @@ export class PlanSharingExportService {
     const fileUrl = `/exports/pdf/${fileName}`;
     
     // Simulate PDF generation
-    const pdfContent = this.generatePDFContent(planData, options);
+    const pdfContent = this.generatePDFContent(planData, options, mealTypes);
     const fileSize = pdfContent.length * 2; // Estimated PDF size
     
     // In production, save the actual PDF file to storage
@@ -343,12 +350,13 @@ export class PlanSharingExportService {
    */
   private static async generateHTML(
     planData: SavedMealPlan,
-    options: ExportOptions
+    options: ExportOptions,
+    mealTypes: MealTypeDefinition[]
   ): Promise<{ fileUrl: string; fileName: string; fileSize: number }> {
     const fileName = `meal-plan-${planData.name.replace(/[^a-z0-9]/gi, '-').toLowerCase()}-${Date.now()}.html`;
     const fileUrl = `/exports/html/${fileName}`;
     
-    const htmlContent = this.generateHTMLContent(planData, options);
+    const htmlContent = this.generateHTMLContent(planData, options, mealTypes);
     const fileSize = new Blob([htmlContent]).size;
     
     // In production, save the HTML file to storage
@@ -378,12 +386,13 @@ export class PlanSharingExportService {
    */
   private static async generateText(
     planData: SavedMealPlan,
-    options: ExportOptions
+    options: ExportOptions,
+    mealTypes: MealTypeDefinition[]
   ): Promise<{ fileUrl: string; fileName: string; fileSize: number }> {
     const fileName = `meal-plan-${planData.name.replace(/[^a-z0-9]/gi, '-').toLowerCase()}-${Date.now()}.txt`;
     const fileUrl = `/exports/text/${fileName}`;
     
-    const textContent = this.generateTextContent(planData, options);
+    const textContent = this.generateTextContent(planData, options, mealTypes);
     const fileSize = new Blob([textContent]).size;
     
     return { fileUrl, fileName, fileSize };
@@ -392,7 +401,7 @@ export class PlanSharingExportService {
   /**
    * Generate PDF content
    */
-  private static generatePDFContent(planData: SavedMealPlan, options: ExportOptions): string {
+  private static generatePDFContent(planData: SavedMealPlan, options: ExportOptions, mealTypes: MealTypeDefinition[]): string {
     let content = `MEAL PLAN: ${planData.name}\n\n`;
     
     if (planData.description && options.includeSections.overview) {
@@ -403,14 +412,11 @@ export class PlanSharingExportService {
       content += "DAILY MEALS\n";
       content += "============\n\n";
       
-      planData.planData.days.forEach((day: any, index: number) => {
+      planData.planData.days.forEach((day, index) => {
         content += `Day ${index + 1} - ${day.date.toLocaleDateString()}\n`;
-        content += `Breakfast: ${day.breakfast.map((m: any) => m.recipeName).join(', ') || 'Not planned'}\n`;
-        content += `Lunch: ${day.lunch.map((m: any) => m.recipeName).join(', ') || 'Not planned'}\n`;
-        content += `Dinner: ${day.dinner.map((m: any) => m.recipeName).join(', ') || 'Not planned'}\n`;
-        if (day.snacks.length > 0) {
-          content += `Snacks: ${day.snacks.map((m: any) => m.recipeName).join(', ')}\n`;
-        }
+        this.getDayMeals(day, mealTypes).forEach(({ name, recipes }) => {
+          content += `${name}: ${recipes}\n`;
+        });
         content += "\n";
       });
     }
@@ -418,10 +424,21 @@ export class PlanSharingExportService {
     return content;
   }
 
+  /**
+   * List the meals of a day by meal type, in the user's order; removed types
+   * only show up while they still have meals
+   */
+  private static getDayMeals(day: DayMeals, mealTypes: MealTypeDefinition[]): { name: string; recipes: string }[] {
+    return getMealTypesForDays(mealTypes, [day]).map(definition => ({
+      name: definition.name,
+      recipes: getMealsOfType(day, definition.id).map(meal => meal.recipeName).join(', ') || 'Not planned'
+    }));
+  }
+
   /**
    * Generate HTML content
    */
-  private static generateHTMLContent(planData: SavedMealPlan, options: ExportOptions): string {
+  private static generateHTMLContent(planData: SavedMealPlan, options: ExportOptions, mealTypes: MealTypeDefinition[]): string {
     const theme = options.theme === 'dark' ? 'background: #1a1a1a; color: white;' : 'background: white; color: black;';
     
     let html = `
@@ -446,19 +463,13 @@ export class PlanSharingExportService {
     </div>`;
 
     if (options.includeSections.dailyMeals) {
-      planData.planData.days.forEach((day: any, index: number) => {
+      planData.planData.days.forEach((day, index) => {
         html += `
     <div class="day">
         <h3>Day ${index + 1} - ${day.date.toLocaleDateString()}</h3>
-        <div class="meal-type">Breakfast:</div>
-        <div class="meal-list">${day.breakfast.map((m: any) => m.recipeName).join(', ') || 'Not planned'}</div>
-        <div class="meal-type">Lunch:</div>
-        <div class="meal-list">${day.lunch.map((m: any) => m.recipeName).join(', ') || 'Not planned'}</div>
-        <div class="meal-type">Dinner:</div>
-        <div class="meal-list">${day.dinner.map((m: any) => m.recipeName).join(', ') || 'Not planned'}</div>
-        ${day.snacks.length > 0 ? `
-        <div class="meal-type">Snacks:</div>
-        <div class="meal-list">${day.snacks.map((m: any) => m.recipeName).join(', ')}</div>` : ''}
+        ${this.getDayMeals(day, mealTypes).map(({ name, recipes }) => `
+        <div class="meal-type">${name}:</div>
+        <div class="meal-list">${recipes}</div>`).join('')}
     </div>`;
       });
     }
@@ -473,7 +484,7 @@ export class PlanSharingExportService {
   /**
    * Generate text content
    */
-  private static generateTextContent(planData: SavedMealPlan, options: ExportOptions): string {
+  private static generateTextContent(planData: SavedMealPlan, options: ExportOptions, mealTypes: MealTypeDefinition[]): string {
     let content = `MEAL PLAN: ${planData.name}\n`;
     content += "=".repeat(planData.name.length + 12) + "\n\n";
     
@@ -484,15 +495,12 @@ export class PlanSharingExportService {
     if (options.includeSections.dailyMeals) {
       content += "DAILY MEALS:\n\n";
       
-      planData.planData.days.forEach((day: any, index: number) => {
+      planData.planData.days.forEach((day, index) => {
         content += `Day ${index + 1} - ${day.date.toLocaleDateString()}\n`;
         content += "-".repeat(30) + "\n";
-        content += `Breakfast: ${day.breakfast.map((m: any) => m.recipeName).join(', ') || 'Not planned'}\n`;
-        content += `Lunch: ${day.lunch.map((m: any) => m.recipeName).join(', ') || 'Not planned'}\n`;
-        content += `Dinner: ${day.dinner.map((m: any) => m.recipeName).join(', ') || 'Not planned'}\n`;
-        if (day.snacks.length > 0) {
-          content += `Snacks: ${day.snacks.map((m: any) => m.recipeName).join(', ')}\n`;
-        }
+        this.getDayMeals(day, mealTypes).forEach(({ name, recipes }) => {
+          content += `${name}: ${recipes}\n`;
+        });
         content += "\n";
       });
     }
@@ -0,0 +1,859 @@
+/**
+ * Recipe Search Service
+ *
+ * Ranked search over the spoonacular, chef and community recipes. Every recipe
+ * is indexed in `recipesearch` with the tokens of its searchable fields, its
+ * facets and a boost for its rating and popularity.
+ *
+ * Saving or deleting a recipe updates its entry right away (syncRecipeSearchEntry).
+ * The whole index is rebuilt by `npm run search:rebuild`, and in the background
+ * when it is older than REFRESH_INTERVAL_MS or after a bulk write; searches
+ * keep using the current index meanwhile. The statistics and a rebuild lock
+ * live in `recipesearchstate`, so only one instance rebuilds at a time.
+ *
+ * Queries are ranked with BM25F: the term frequency of each field is weighted
+ * and normalized by the field's length before it is saturated. Ranking, cursor
+ * pagination and facet counts all run in the database. Every query word has
+ * to match: itself, a German or English synonym, a longer indexed term it
+ * starts ("chick" → chicken) or an indexed term it is a typo of ("chiken").
+ */
+
+import { type AnyBulkWriteOperation, type Collection, type Document, type Filter, type ObjectId } from 'mongodb';
+import { getCollection, COLLECTIONS } from '@/lib/db';
+import {
+  getTimeBucket,
+  normalizeDietName,
+  RECIPE_SEARCH_FIELD_WEIGHTS,
+  RECIPE_SEARCH_FIELDS,
+  tokenizeSearchText,
+  type FacetCount,
+  type RecipeSearchFacets,
+  type RecipeSearchField,
+  type RecipeTimeBucket,
+} from '@/utils/recipeSearch';
+import { findFuzzyWords, getSearchSynonyms, splitSearchWords, suggestSearchQuery } from '@/utils/fuzzySearch';
+import {
+  compareIngredientMatches,
+  matchRecipeIngredients,
+  prepareOwnedIngredients,
+  type IngredientMatchedRecipe,
+} from '@/utils/ingredientMatch';
+
+export type RecipeSearchSource = 'spoonacular' | 'chef' | 'community';
+
+export interface RecipeSearchParams {
+  query?: string;
+  type?: string; // Dish type
+  diet?: string;
+  intolerances?: string; // Leaves out recipes with an ingredient of this intolerance
+  maxReadyTime?: number;
+  timeBucket?: RecipeTimeBucket;
+  authorId?: string;
+  communityOnly?: boolean; // Only chef and community recipes
+  cursor?: string; // nextCursor of the previous page
+  page?: number; // Used when there is no cursor
+  limit?: number;
+  randomize?: boolean; // A random sample of the matches instead of the best ones
+}
+
+export interface IngredientSearchParams {
+  ingredients: string[]; // What the user has
+  type?: string; // Dish type
+  diet?: string;
+  intolerances?: string;
+  maxReadyTime?: number;
+  timeBucket?: RecipeTimeBucket;
+  limit?: number;
+}
+
+export interface RecipeSearchResult {
+  recipes: Document[];
+  total: number;
+  nextCursor: string | null; // null on the last page
+  facets: RecipeSearchFacets;
+}
+
+interface RecipeSearchDocument {
+  _id: string; // '<collection>:<recipe _id>'
+  collection: string;
+  recipeId: ObjectId | string; // _id of the recipe in its collection
+  source: RecipeSearchSource;
+  title: string;
+  titleKey: string; // Trimmed, lowercase title for finding duplicates
+  duplicate: boolean; // An earlier recipe has the same title
+  communityDuplicate: boolean; // An earlier chef or community recipe has the same title
+  terms: string[]; // Distinct tokens of all fields
+  fields: Record<RecipeSearchField, string[]>;
+  cuisines: string[];
+  diets: string[];
+  dishTypes: string[];
+  ingredientNames: string[];
+  readyInMinutes: number;
+  timeBucket: RecipeTimeBucket;
+  authorId?: string;
+  boost: number;
+  indexedAt: Date;
+}
+
+export interface SearchIndexState {
+  builtAt: number;
+  stale: boolean; // Old, or invalidated since it was built
+  documentCount: number; // Recipes other than duplicates
+  averageFieldLengths: Record<RecipeSearchField, number>;
+}
+
+interface SearchIndexStateDocument {
+  _id: string;
+  builtAt?: number; // When the last rebuild started
+  documentCount?: number;
+  averageFieldLengths?: Record<RecipeSearchField, number>;
+  invalidatedAt?: Date; // Last bulk write to a recipe collection
+  lockedUntil?: Date; // Set while a rebuild runs
+}
+
+interface SearchCursor {
+  score: number;
+  id: string;
+}
+
+const REFRESH_INTERVAL_MS = 10 * 60 * 1000;
+const STATE_CACHE_MS = 30 * 1000; // How long an instance keeps the statistics it read
+const REBUILD_LOCK_MS = 30 * 60 * 1000; // A rebuild that crashed frees the lock after this
+const STATE_ID = 'index';
+const WRITE_BATCH_SIZE = 500;
+const MAX_QUERY_WORDS = 8;
+const MIN_PREFIX_LENGTH = 3;
+const MAX_PREFIX_TERMS = 10; // Per query word, the most common ones
+const MAX_FUZZY_TERMS = 5; // Per query word, the closest ones
+const PREFIX_MATCH_WEIGHT = 0.5; // A term the query word only starts counts half
+const FUZZY_MATCH_WEIGHT = 0.4; // A term the query word is a typo of counts less
+const FACET_LIMIT = 20;
+
+// BM25 term frequency saturation and length normalization
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// The boost adds up to 30% for the rating and 20% for the popularity
+const RATING_BOOST = 0.3;
+const POPULARITY_BOOST = 0.2;
+const PRIOR_RATING = 3; // Recipes with few ratings are pulled toward this
+const PRIOR_RATINGS_COUNT = 5;
+const MAX_POPULARITY_LOG = 4; // 10,000 likes and ratings give the full popularity boost
+
+// Spoonacular recipes without ingredients or steps are not offered
+const COMPLETE_RECIPE_FILTER: Document = {
+  'analyzedInstructions.0': { $exists: true },
+  'analyzedInstructions.0.steps.0': { $exists: true },
+  'analyzedInstructions.0.steps.0.step': { $exists: true, $ne: '', $not: { $regex: /^\s*$/ } },
+  'extendedIngredients.0': { $exists: true },
+};
+
+// Indexed in this order: of recipes with the same title, the first one is kept
+const SEARCH_SOURCES: { source: RecipeSearchSource; collection: string; filter: Document }[] = [
+  { source: 'spoonacular', collection: COLLECTIONS.SPOONACULAR_RECIPES, filter: COMPLETE_RECIPE_FILTER },
+  { source: 'chef', collection: COLLECTIONS.RECIPES, filter: {} },
+  { source: 'community', collection: COLLECTIONS.USER_RECIPES, filter: {} },
+];
+
+const COMMUNITY_SOURCES: RecipeSearchSource[] = ['chef', 'community'];
+
+const EMPTY_INDEX_STATE: SearchIndexState = {
+  builtAt: 0,
+  stale: true,
+  documentCount: 0,
+  averageFieldLengths: Object.fromEntries(RECIPE_SEARCH_FIELDS.map(field => [field, 0])) as Record<RecipeSearchField, number>,
+};
+
+const INDEXED_FIELDS: Document = {
+  title: 1, summary: 1, description: 1,
+  'extendedIngredients.name': 1, 'extendedIngredients.originalName': 1, ingredients: 1,
+  cuisines: 1, cuisine: 1, dishTypes: 1, category: 1, diets: 1, dietaryTags: 1, tags: 1, occasions: 1,
+  vegetarian: 1, vegan: 1, glutenFree: 1, dairyFree: 1,
+  readyInMinutes: 1, totalTime: 1, prepTime: 1, cookTime: 1,
+  rating: 1, ratingsCount: 1, likesCount: 1, aggregateLikes: 1, authorId: 1,
+};
+
+const INTOLERANCE_PATTERNS: Record<string, RegExp> = {
+  egg: /\begg(s)?\b/i,
+  gluten: /(gluten|wheat|flour|barley|rye)/i,
+  dairy: /(milk|cheese|butter|cream|yogurt|lactose)/i,
+  peanut: /peanut/i,
+  seafood: /(fish|shrimp|prawn|crab|lobster|tuna|salmon)/i,
+  sesame: /sesame/i,
+  soy: /(soy|soya|tofu|soybean)/i,
+  sulfite: /(sulfite|sulphite)/i,
+  'tree nut': /(almond|walnut|hazelnut|cashew|pecan|pistachio|macadamia)/i,
+  wheat: /(wheat|flour)/i,
+};
+
+let cachedState: { state: SearchIndexState; readAt: number } | null = null;
+let rebuildPromise: Promise<SearchIndexState | null> | null = null;
+let indexesEnsured = false;
+let vocabulary: { builtAt: number; words: Promise<Map<string, number>> } | null = null; // Terms of the index with their counts
+
+function uniqueLowercase(values: unknown[]): string[] {
+  return Array.from(new Set(values
+    .filter((value): value is string => typeof value === 'string' && value.trim().length > 0)
+    .map(value => value.trim().toLowerCase())));
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+/**
+ * Scores a recipe's rating and popularity, from 0 to RATING_BOOST + POPULARITY_BOOST
+ */
+function getRecipeBoost(recipe: Document): number {
+  const rating = Number(recipe.rating) || 0;
+  const ratingsCount = Number(recipe.ratingsCount) || 0;
+  const likes = Number(recipe.likesCount ?? recipe.aggregateLikes) || 0;
+
+  const averageRating = (rating * ratingsCount + PRIOR_RATING * PRIOR_RATINGS_COUNT) / (ratingsCount + PRIOR_RATINGS_COUNT);
+  const popularity = Math.min(1, Math.log10(1 + likes + ratingsCount) / MAX_POPULARITY_LOG);
+
+  return round(RATING_BOOST * (averageRating / 5) + POPULARITY_BOOST * popularity);
+}
+
+/**
+ * Builds the index entry of a recipe, without the duplicate flags
+ */
+function toSearchDocument(
+  recipe: Document,
+  source: RecipeSearchSource,
+  collection: string,
+  indexedAt: Date
+): Omit<RecipeSearchDocument, 'duplicate' | 'communityDuplicate'> {
+  const ingredientNames = uniqueLowercase(recipe.extendedIngredients?.length
+    ? recipe.extendedIngredients.map((ingredient: Document) => ingredient.name || ingredient.originalName)
+    : (recipe.ingredients || []).map((ingredient: Document | string) => typeof ingredient === 'string' ? ingredient : ingredient.name));
+  const cuisines = uniqueLowercase([...(recipe.cuisines || []), recipe.cuisine]);
+  const dishTypes = uniqueLowercase([...(recipe.dishTypes || []), recipe.category]);
+  const diets = Array.from(new Set(uniqueLowercase([
+    ...(recipe.diets || []),
+    ...(recipe.dietaryTags || []),
+    ...(recipe.vegan ? ['vegan'] : []),
+    ...(recipe.vegetarian ? ['vegetarian'] : []),
+    ...(recipe.glutenFree ? ['gluten free'] : []),
+    ...(recipe.dairyFree ? ['dairy free'] : []),
+  ]).map(normalizeDietName)));
+  const tags = uniqueLowercase([...(recipe.tags || []), ...(recipe.occasions || []), ...dishTypes, ...diets]);
+
+  const fields: Record<RecipeSearchField, string[]> = {
+    title: tokenizeSearchText(recipe.title),
+    ingredients: tokenizeSearchText(ingredientNames.join(' ')),
+    cuisines: tokenizeSearchText(cuisines.join(' ')),
+    tags: tokenizeSearchText(tags.join(' ')),
+    summary: tokenizeSearchText(recipe.summary || recipe.description),
+  };
+  const readyInMinutes = Number(recipe.readyInMinutes || recipe.totalTime || ((recipe.prepTime || 0) + (recipe.cookTime || 0))) || 0;
+
+  return {
+    _id: `${collection}:${String(recipe._id)}`,
+    collection,
+    recipeId: recipe._id,
+    source,
+    title: recipe.title,
+    titleKey: recipe.title.trim().toLowerCase(),
+    terms: Array.from(new Set(RECIPE_SEARCH_FIELDS.flatMap(field => fields[field]))),
+    fields,
+    cuisines,
+    diets,
+    dishTypes,
+    ingredientNames,
+    readyInMinutes,
+    timeBucket: getTimeBucket(readyInMinutes),
+    ...(typeof recipe.authorId === 'string' && { authorId: recipe.authorId }),
+    boost: getRecipeBoost(recipe),
+    indexedAt,
+  };
+}
+
+async function getSearchCollection(): Promise<Collection<RecipeSearchDocument>> {
+  const collection = await getCollection<RecipeSearchDocument>(COLLECTIONS.RECIPE_SEARCH);
+  if (!indexesEnsured) {
+    await collection.createIndexes([
+      { key: { terms: 1 } },
+      { key: { titleKey: 1 } },
+      { key: { dishTypes: 1 } },
+      { key: { diets: 1 } },
+      { key: { readyInMinutes: 1 } },
+      { key: { indexedAt: 1 } },
+    ]);
+    indexesEnsured = true;
+  }
+  return collection;
+}
+
+function getStateCollection(): Promise<Collection<SearchIndexStateDocument>> {
+  return getCollection<SearchIndexStateDocument>(COLLECTIONS.RECIPE_SEARCH_STATE);
+}
+
+function isDuplicateKeyError(error: unknown): boolean {
+  const { code, writeErrors } = (error || {}) as { code?: number; writeErrors?: { code?: number }[] };
+  return code === 11000 || (Array.isArray(writeErrors) && writeErrors.length > 0 && writeErrors.every(writeError => writeError?.code === 11000));
+}
+
+/**
+ * Takes the rebuild lock, so that no rebuild deletes the entries another one just wrote
+ * @returns false when another rebuild holds the lock
+ */
+async function acquireRebuildLock(): Promise<boolean> {
+  const now = new Date();
+  try {
+    // When the lock is held the filter fails and the upsert runs into the existing _id
+    await (await getStateCollection()).updateOne(
+      { _id: STATE_ID, $or: [{ lockedUntil: { $exists: false } }, { lockedUntil: { $lt: now } }] },
+      { $set: { lockedUntil: new Date(now.getTime() + REBUILD_LOCK_MS) } },
+      { upsert: true }
+    );
+    return true;
+  } catch (error) {
+    if (isDuplicateKeyError(error)) return false;
+    throw error;
+  }
+}
+
+/**
+ * Writes index entries, except over newer ones a recipe save wrote while the rebuild ran
+ */
+async function writeSearchDocuments(collection: Collection<RecipeSearchDocument>, documents: RecipeSearchDocument[]): Promise<void> {
+  try {
+    await collection.bulkWrite(documents.map((document): AnyBulkWriteOperation<RecipeSearchDocument> => ({
+      replaceOne: { filter: { _id: document._id, indexedAt: { $lt: document.indexedAt } }, replacement: document, upsert: true },
+    })), { ordered: false });
+  } catch (error) {
+    if (!isDuplicateKeyError(error)) throw error;
+  }
+}
+
+/**
+ * Rebuilds the index under the rebuild lock
+ * @returns The new statistics, or null when another rebuild is running
+ */
+async function rebuildIndex(): Promise<SearchIndexState | null> {
+  if (!(await acquireRebuildLock())) return null;
+
+  const indexedAt = new Date();
+  const stateCollection = await getStateCollection();
+
+  try {
+    const searchCollection = await getSearchCollection();
+    const seenTitles = new Set<string>();
+    const seenCommunityTitles = new Set<string>();
+    const fieldLengthTotals = Object.fromEntries(RECIPE_SEARCH_FIELDS.map(field => [field, 0])) as Record<RecipeSearchField, number>;
+    let documentCount = 0;
+
+    for (const { source, collection, filter } of SEARCH_SOURCES) {
+      const recipes = await getCollection(collection);
+      let batch: RecipeSearchDocument[] = [];
+
+      for await (const recipe of recipes.find(filter, { projection: INDEXED_FIELDS })) {
+        if (typeof recipe.title !== 'string' || !recipe.title.trim()) continue;
+
+        const entry = toSearchDocument(recipe, source, collection, indexedAt);
+        const isCommunity = source !== 'spoonacular';
+        const document: RecipeSearchDocument = {
+          ...entry,
+          duplicate: seenTitles.has(entry.titleKey),
+          communityDuplicate: isCommunity && seenCommunityTitles.has(entry.titleKey),
+        };
+        seenTitles.add(entry.titleKey);
+        if (isCommunity) seenCommunityTitles.add(entry.titleKey);
+
+        if (!document.duplicate) {
+          documentCount++;
+          RECIPE_SEARCH_FIELDS.forEach(field => { fieldLengthTotals[field] += document.fields[field].length; });
+        }
+
+        batch.push(document);
+        if (batch.length >= WRITE_BATCH_SIZE) {
+          await writeSearchDocuments(searchCollection, batch);
+          batch = [];
+        }
+      }
+
+      if (batch.length > 0) await writeSearchDocuments(searchCollection, batch);
+    }
+
+    await searchCollection.deleteMany({ indexedAt: { $lt: indexedAt } });
+
+    const state: SearchIndexState = {
+      builtAt: indexedAt.getTime(),
+      stale: false,
+      documentCount,
+      averageFieldLengths: Object.fromEntries(RECIPE_SEARCH_FIELDS.map(field =>
+        [field, documentCount > 0 ? fieldLengthTotals[field] / documentCount : 0]
+      )) as Record<RecipeSearchField, number>,
+    };
+    await stateCollection.updateOne(
+      { _id: STATE_ID },
+      {
+        $set: { builtAt: state.builtAt, documentCount: state.documentCount, averageFieldLengths: state.averageFieldLengths },
+        $unset: { lockedUntil: '' },
+      }
+    );
+    cachedState = { state, readAt: Date.now() };
+    console.log(`🔎 Recipe search index rebuilt: ${documentCount} recipes`);
+    return state;
+  } catch (error) {
+    await stateCollection.updateOne({ _id: STATE_ID }, { $unset: { lockedUntil: '' } });
+    throw error;
+  }
+}
+
+/**
+ * Rebuilds the search index from all recipe collections
+ * Recipes that are gone from their collection are removed from the index.
+ * Run by `npm run search:rebuild`; searches rebuild in the background on their own.
+ *
+ * @throws When another rebuild is running
+ */
+export async function rebuildRecipeSearchIndex(): Promise<SearchIndexState> {
+  const state = await rebuildIndex();
+  if (!state) throw new Error('The recipe search index is already being rebuilt');
+  return state;
+}
+
+/**
+ * Has the search index rebuilt in the background, after a write that changed many recipes at once
+ */
+export async function invalidateRecipeSearchIndex(): Promise<void> {
+  await (await getStateCollection()).updateOne(
+    { _id: STATE_ID },
+    { $set: { invalidatedAt: new Date() } },
+    { upsert: true }
+  );
+  cachedState = null;
+}
+
+/**
+ * Marks the entry that takes over a title when the entry shown for it goes away
+ */
+async function promoteDuplicate(
+  collection: Collection<RecipeSearchDocument>,
+  previous: Pick<RecipeSearchDocument, 'titleKey' | 'source' | 'duplicate' | 'communityDuplicate'>
+): Promise<void> {
+  if (!previous.duplicate) {
+    await collection.updateOne({ titleKey: previous.titleKey, duplicate: true }, { $set: { duplicate: false } });
+  }
+  if (previous.source !== 'spoonacular' && !previous.communityDuplicate) {
+    await collection.updateOne(
+      { titleKey: previous.titleKey, source: { $in: COMMUNITY_SOURCES }, communityDuplicate: true },
+      { $set: { communityDuplicate: false } }
+    );
+  }
+}
+
+/**
+ * Updates the index entry of one recipe after it was saved or deleted
+ * A recipe that is gone or incomplete leaves the index. The document count and
+ * field lengths stay as they are until the next rebuild.
+ *
+ * @param collection - Collection of the recipe
+ * @param recipeId - _id of the recipe
+ */
+export async function syncRecipeSearchEntry(collection: string, recipeId: ObjectId | string): Promise<void> {
+  const searchSource = SEARCH_SOURCES.find(candidate => candidate.collection === collection);
+  if (!searchSource) return;
+
+  const searchCollection = await getSearchCollection();
+  const entryId = `${collection}:${String(recipeId)}`;
+  const [previous, recipe] = await Promise.all([
+    searchCollection.findOne({ _id: entryId }, { projection: { titleKey: 1, source: 1, duplicate: 1, communityDuplicate: 1 } }),
+    getCollection(collection).then(recipes =>
+      recipes.findOne({ _id: recipeId, ...searchSource.filter } as Filter<Document>, { projection: INDEXED_FIELDS })
+    ),
+  ]);
+
+  const titleKey = typeof recipe?.title === 'string' ? recipe.title.trim().toLowerCase() : '';
+  if (recipe && titleKey) {
+    const isCommunity = searchSource.source !== 'spoonacular';
+    const [original, communityOriginal] = await Promise.all([
+      searchCollection.findOne({ _id: { $ne: entryId }, titleKey, duplicate: false }, { projection: { _id: 1 } }),
+      isCommunity
+        ? searchCollection.findOne(
+          { _id: { $ne: entryId }, titleKey, source: { $in: COMMUNITY_SOURCES }, communityDuplicate: false },
+          { projection: { _id: 1 } }
+        )
+        : null,
+    ]);
+    await searchCollection.replaceOne({ _id: entryId }, {
+      ...toSearchDocument(recipe, searchSource.source, collection, new Date()),
+      duplicate: Boolean(original),
+      communityDuplicate: Boolean(communityOriginal),
+    }, { upsert: true });
+  } else if (previous) {
+    await searchCollection.deleteOne({ _id: entryId });
+  }
+
+  if (previous?.titleKey && previous.titleKey !== titleKey) {
+    await promoteDuplicate(searchCollection, previous);
+  }
+}
+
+async function readIndexState(): Promise<SearchIndexState | null> {
+  const stored = await (await getStateCollection()).findOne({ _id: STATE_ID });
+  if (!stored?.builtAt || !stored.averageFieldLengths) return null;
+
+  return {
+    builtAt: stored.builtAt,
+    stale: Date.now() - stored.builtAt >= REFRESH_INTERVAL_MS
+      || Boolean(stored.invalidatedAt && stored.invalidatedAt.getTime() > stored.builtAt),
+    documentCount: stored.documentCount || 0,
+    averageFieldLengths: stored.averageFieldLengths,
+  };
+}
+
+/**
+ * Starts a rebuild unless this instance already runs one
+ * @returns The new statistics, or null when the rebuild was skipped or failed
+ */
+function startRebuild(): Promise<SearchIndexState | null> {
+  if (!rebuildPromise) {
+    rebuildPromise = rebuildIndex()
+      .catch(error => {
+        console.error('❌ Recipe search index rebuild failed:', error);
+        return null;
+      })
+      .finally(() => { rebuildPromise = null; });
+  }
+  return rebuildPromise;
+}
+
+/**
+ * Reads the index statistics and starts a background rebuild when they are stale
+ * Only the first search, before there is any index, waits for a rebuild.
+ */
+async function getIndexState(): Promise<SearchIndexState> {
+  if (cachedState && Date.now() - cachedState.readAt < STATE_CACHE_MS) {
+    return cachedState.state;
+  }
+
+  const state = await readIndexState();
+  if (!state) return (await startRebuild()) || EMPTY_INDEX_STATE;
+
+  if (state.stale) void startRebuild();
+  cachedState = { state, readAt: Date.now() };
+  return state;
+}
+
+/**
+ * Loads the indexed terms with how many recipes use each, once per rebuild
+ * Terms of recipes saved since the last rebuild are only found by their exact words.
+ */
+async function getVocabulary(state: SearchIndexState): Promise<Map<string, number>> {
+  if (!vocabulary || vocabulary.builtAt !== state.builtAt) {
+    const words = getSearchCollection()
+      .then(collection => collection.aggregate<{ _id: string; count: number }>([
+        { $match: { duplicate: false } },
+        { $project: { terms: 1 } },
+        { $unwind: '$terms' },
+        { $group: { _id: '$terms', count: { $sum: 1 } } },
+      ]).toArray())
+      .then(counts => new Map(counts.map(({ _id, count }) => [_id, count])));
+    vocabulary = { builtAt: state.builtAt, words };
+    // Loaded again by the next search when it failed
+    words.catch(() => { if (vocabulary?.words === words) vocabulary = null; });
+  }
+  return vocabulary.words;
+}
+
+/**
+ * Finds the longer indexed terms that start with any of the terms, like the substring search before the index
+ * @returns The most common ones, at most MAX_PREFIX_TERMS
+ */
+function getPrefixTerms(terms: string[], words: Map<string, number>): string[] {
+  const prefixes = terms.filter(term => term.length >= MIN_PREFIX_LENGTH);
+  if (prefixes.length === 0) return [];
+
+  return Array.from(words)
+    .filter(([word]) => !terms.includes(word) && prefixes.some(prefix => word.startsWith(prefix)))
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_PREFIX_TERMS)
+    .map(([word]) => word);
+}
+
+/**
+ * Turns each word of a query into the terms it matches, with how much a match counts:
+ * the word and its synonyms fully, longer terms they start and terms it is a typo of less
+ */
+function buildQueryTermGroups(query: string, words: Map<string, number>): Map<string, number>[] {
+  return splitSearchWords(query)
+    .slice(0, MAX_QUERY_WORDS)
+    .map(word => {
+      const exactTerms = Array.from(new Set(getSearchSynonyms(word).flatMap(tokenizeSearchText)));
+      const group = new Map<string, number>();
+      findFuzzyWords(word, words, MAX_FUZZY_TERMS).forEach(term => group.set(term, FUZZY_MATCH_WEIGHT));
+      getPrefixTerms(exactTerms, words).forEach(term => group.set(term, PREFIX_MATCH_WEIGHT));
+      exactTerms.forEach(term => group.set(term, 1));
+      return group;
+    })
+    .filter(group => group.size > 0);
+}
+
+function encodeCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): SearchCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return typeof parsed?.score === 'number' && typeof parsed?.id === 'string' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Checks a cursor passed in by a client before searching with it
+ */
+export function isValidSearchCursor(cursor: string): boolean {
+  return decodeCursor(cursor) !== null;
+}
+
+/**
+ * Computes the inverse document frequency of each query term, times how much a match of it counts
+ * Terms that no recipe contains are left out.
+ */
+async function getTermWeights(
+  collection: Collection<RecipeSearchDocument>,
+  termFactors: Map<string, number>,
+  state: SearchIndexState
+): Promise<{ term: string; idf: number }[]> {
+  const terms = Array.from(termFactors.keys());
+  const counts = await collection.aggregate<{ _id: string; count: number }>([
+    { $match: { duplicate: false, terms: { $in: terms } } },
+    { $unwind: '$terms' },
+    { $match: { terms: { $in: terms } } },
+    { $group: { _id: '$terms', count: { $sum: 1 } } },
+  ]).toArray();
+
+  return counts.map(({ _id, count }) => ({
+    term: _id,
+    idf: (termFactors.get(_id) || 1) * Math.log(1 + Math.max(0, state.documentCount - count + 0.5) / (count + 0.5)),
+  }));
+}
+
+/**
+ * Builds the BM25F relevance of a recipe to the query terms as an aggregation expression
+ */
+function buildRelevanceExpression(termWeights: { term: string; idf: number }[], state: SearchIndexState): Document {
+  return {
+    $add: termWeights.map(({ term, idf }) => ({
+      $let: {
+        vars: {
+          frequency: {
+            $add: RECIPE_SEARCH_FIELDS.map(field => ({
+              $divide: [
+                { $multiply: [RECIPE_SEARCH_FIELD_WEIGHTS[field], { $size: { $filter: { input: `$fields.${field}`, cond: { $eq: ['$$this', term] } } } }] },
+                { $add: [1 - BM25_B, { $multiply: [BM25_B, { $divide: [{ $size: `$fields.${field}` }, state.averageFieldLengths[field] || 1] }] }] },
+              ],
+            })),
+          },
+        },
+        in: { $multiply: [idf, { $divide: [{ $multiply: ['$$frequency', BM25_K1 + 1] }, { $add: ['$$frequency', BM25_K1] }] }] },
+      },
+    })),
+  };
+}
+
+function countValues(field: string): Document[] {
+  return [
+    { $unwind: `$${field}` },
+    { $group: { _id: `$${field}`, count: { $sum: 1 } } },
+    { $sort: { count: -1, _id: 1 } },
+    { $limit: FACET_LIMIT },
+  ];
+}
+
+function toFacetCounts(groups: { _id: string; count: number }[] | undefined): FacetCount[] {
+  return (groups || []).map(group => ({ value: group._id, count: group.count }));
+}
+
+/**
+ * Matches the ingredient names of recipes without an ingredient of an intolerance
+ */
+function getIntoleranceFilter(intolerance: string): Filter<RecipeSearchDocument>['ingredientNames'] {
+  const key = intolerance.toLowerCase();
+  return { $not: INTOLERANCE_PATTERNS[key] || new RegExp(key.replace(/[-/\\^$*+?.()|[\]{}]/g, '\\$&'), 'i') };
+}
+
+/**
+ * Loads the recipes of a page of search results from their collections, in the order of the results
+ */
+async function loadRecipes(hits: Pick<RecipeSearchDocument, '_id' | 'collection' | 'recipeId' | 'source'>[]): Promise<Document[]> {
+  const idsByCollection = new Map<string, (ObjectId | string)[]>();
+  hits.forEach(hit => idsByCollection.set(hit.collection, [...(idsByCollection.get(hit.collection) || []), hit.recipeId]));
+
+  const recipes = new Map<string, Document>();
+  await Promise.all(Array.from(idsByCollection, async ([collection, ids]) => {
+    const found = await (await getCollection(collection)).find({ _id: { $in: ids } } as Filter<Document>).toArray();
+    found.forEach(recipe => recipes.set(`${collection}:${String(recipe._id)}`, recipe));
+  }));
+
+  return hits.flatMap(hit => {
+    const recipe = recipes.get(hit._id);
+    if (!recipe) return [];
+    if (hit.source === 'spoonacular') return [{ ...recipe, source: recipe.source || 'spoonacular' }];
+    return [{
+      ...recipe,
+      source: hit.source,
+      id: recipe._id?.toString() || recipe.id,
+      // Ensure image field is properly set from different possible sources
+      image: recipe.image || recipe.primaryImageUrl || (recipe.images && recipe.images[0]?.url) || '/placeholder-recipe.svg',
+    }];
+  });
+}
+
+/**
+ * Searches all recipe collections, best matches first
+ *
+ * Without a query the recipes are ordered by their rating and popularity.
+ * Each facet counts the matches of all filters except its own, so the
+ * filters can show how many recipes picking another value would give.
+ *
+ * @param params - Query, filters and page
+ * @returns The page of recipes, the total of matches, the cursor of the next page and the facets
+ */
+export async function searchRecipeIndex(params: RecipeSearchParams = {}): Promise<RecipeSearchResult> {
+  const limit = Math.min(500, Math.max(1, params.limit || 200));
+  const state = await getIndexState();
+  const collection = await getSearchCollection();
+
+  // Each term once, with the most it counts for any query word
+  const termGroups = params.query ? buildQueryTermGroups(params.query, await getVocabulary(state)) : [];
+  const termFactors = new Map<string, number>();
+  termGroups.forEach(group => group.forEach((factor, term) => {
+    termFactors.set(term, Math.max(factor, termFactors.get(term) || 0));
+  }));
+  const termWeights = termFactors.size > 0 ? await getTermWeights(collection, termFactors, state) : [];
+
+  const baseFilter: Filter<RecipeSearchDocument> = params.communityOnly
+    ? { communityDuplicate: false, source: { $in: ['chef', 'community'] } }
+    : { duplicate: false };
+  // Every query word has to match one of its terms
+  if (termGroups.length > 0) baseFilter.$and = termGroups.map(group => ({ terms: { $in: Array.from(group.keys()) } }));
+  if (params.authorId) baseFilter.authorId = params.authorId;
+  if (params.intolerances) baseFilter.ingredientNames = getIntoleranceFilter(params.intolerances);
+
+  // The filters that are also facets, apart so each facet can leave out its own
+  const dishTypeFilter: Filter<RecipeSearchDocument> = params.type ? { dishTypes: params.type.toLowerCase() } : {};
+  const dietFilter: Filter<RecipeSearchDocument> = params.diet ? { diets: normalizeDietName(params.diet) } : {};
+  const timeFilter: Filter<RecipeSearchDocument> = {
+    ...(typeof params.maxReadyTime === 'number' && { readyInMinutes: { $lte: params.maxReadyTime } }),
+    ...(params.timeBucket && { timeBucket: params.timeBucket }),
+  };
+  const filter = { ...baseFilter, ...dishTypeFilter, ...dietFilter, ...timeFilter };
+
+  const score = termWeights.length > 0
+    ? { $round: [{ $multiply: [buildRelevanceExpression(termWeights, state), { $add: [1, '$boost'] }] }, 6] }
+    : '$boost';
+  const after = params.cursor ? decodeCursor(params.cursor) : null;
+  const skip = !after && params.page && params.page > 1 ? (params.page - 1) * limit : 0;
+  const hitProjection = { $project: { collection: 1, recipeId: 1, source: 1, score: 1 } };
+
+  const [hits, [facetResult]] = await Promise.all([
+    collection.aggregate<Pick<RecipeSearchDocument, '_id' | 'collection' | 'recipeId' | 'source'> & { score: number }>(params.randomize
+      ? [{ $match: filter }, { $sample: { size: limit } }, hitProjection]
+      : [
+        { $match: filter },
+        { $addFields: { score } },
+        ...(after ? [{ $match: { $or: [{ score: { $lt: after.score } }, { score: after.score, _id: { $gt: after.id } }] } }] : []),
+        { $sort: { score: -1, _id: 1 } },
+        ...(skip > 0 ? [{ $skip: skip }] : []),
+        { $limit: limit + 1 },
+        hitProjection,
+      ]
+    ).toArray(),
+    collection.aggregate<Record<keyof RecipeSearchFacets | 'total', { _id: string; count: number }[]>>([
+      { $match: baseFilter },
+      {
+        $facet: {
+          total: [{ $match: { ...dishTypeFilter, ...dietFilter, ...timeFilter } }, { $group: { _id: null, count: { $sum: 1 } } }],
+          cuisines: [{ $match: { ...dishTypeFilter, ...dietFilter, ...timeFilter } }, ...countValues('cuisines')],
+          diets: [{ $match: { ...dishTypeFilter, ...timeFilter } }, ...countValues('diets')],
+          dishTypes: [{ $match: { ...dietFilter, ...timeFilter } }, ...countValues('dishTypes')],
+          timeBuckets: [{ $match: { ...dishTypeFilter, ...dietFilter } }, { $group: { _id: '$timeBucket', count: { $sum: 1 } } }],
+        },
+      },
+    ]).toArray(),
+  ]);
+
+  const pageHits = params.randomize ? hits : hits.slice(0, limit);
+  const lastHit = pageHits[pageHits.length - 1];
+  const nextCursor = !params.randomize && hits.length > limit && lastHit
+    ? encodeCursor({ score: lastHit.score, id: lastHit._id })
+    : null;
+
+  return {
+    recipes: await loadRecipes(pageHits),
+    total: facetResult?.total[0]?.count || 0,
+    nextCursor,
+    facets: {
+      cuisines: toFacetCounts(facetResult?.cuisines),
+      diets: toFacetCounts(facetResult?.diets),
+      dishTypes: toFacetCounts(facetResult?.dishTypes),
+      timeBuckets: toFacetCounts(facetResult?.timeBuckets),
+    },
+  };
+}
+
+/**
+ * Finds the recipes that can be cooked with what the user has ("What can I cook?")
+ *
+ * Every recipe that uses at least one of the ingredients is matched against
+ * all of them. Recipes with the fewest missing ingredients come first; pantry
+ * basics like salt and water never count as missing.
+ *
+ * @param params - Owned ingredients and filters
+ * @returns The best recipes, each with its used and missed ingredients, and the total of matches
+ */
+export async function searchRecipesByIngredients(
+  params: IngredientSearchParams
+): Promise<{ recipes: (Document & IngredientMatchedRecipe)[]; total: number }> {
+  const limit = Math.min(100, Math.max(1, params.limit || 30));
+  const owned = prepareOwnedIngredients(params.ingredients);
+  const ownedTerms = Array.from(new Set(owned.flatMap(slots => slots.flatMap(slot => Array.from(slot)))));
+  if (ownedTerms.length === 0) return { recipes: [], total: 0 };
+
+  await getIndexState();
+  const collection = await getSearchCollection();
+
+  const filter: Filter<RecipeSearchDocument> = { duplicate: false, terms: { $in: ownedTerms } };
+  if (params.type) filter.dishTypes = params.type.toLowerCase();
+  if (params.diet) filter.diets = normalizeDietName(params.diet);
+  if (params.intolerances) filter.ingredientNames = getIntoleranceFilter(params.intolerances);
+  if (typeof params.maxReadyTime === 'number') filter.readyInMinutes = { $lte: params.maxReadyTime };
+  if (params.timeBucket) filter.timeBucket = params.timeBucket;
+
+  const candidates = await collection
+    .find(filter, { projection: { collection: 1, recipeId: 1, source: 1, ingredientNames: 1, boost: 1 } })
+    .toArray();
+
+  // The terms include titles and summaries, so only the ingredients decide whether a recipe matches
+  const matches = candidates
+    .map(candidate => ({ candidate, match: matchRecipeIngredients(candidate.ingredientNames, owned) }))
+    .filter(({ match }) => match.usedIngredientCount > 0)
+    .sort((a, b) => compareIngredientMatches(a.match, b.match) || b.candidate.boost - a.candidate.boost);
+
+  const page = matches.slice(0, limit);
+  const matchByRecipeId = new Map(page.map(({ candidate, match }) => [String(candidate.recipeId), match]));
+  const recipes = await loadRecipes(page.map(({ candidate }) => candidate));
+
+  return {
+    recipes: recipes.map(recipe => ({ ...recipe, ...matchByRecipeId.get(String(recipe._id)) } as Document & IngredientMatchedRecipe)),
+    total: matches.length,
+  };
+}
+
+/**
+ * Proposes a query that would find recipes, for one that found none ("did you mean")
+ *
+ * @param query - The query without results
+ * @returns The query with its unknown words replaced by the closest indexed terms, or null
+ */
+export async function suggestRecipeSearchQuery(query: string): Promise<string | null> {
+  const words = await getVocabulary(await getIndexState());
+  return suggestSearchQuery(query, words);
+}
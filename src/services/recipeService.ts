@@ -2,6 +2,8 @@ import { ObjectId, type Filter, type UpdateFilter } from 'mongodb';
 import { Recipe, RecipeIngredient, RecipeInstructionBlock } from '@/types/recipe';
 import { getCollection } from '@/lib/db';
 import RecipeModel from '@/models/Recipe';
+import { searchRecipeIndex, syncRecipeSearchEntry } from '@/services/recipeSearchService.server';
+import type { RecipeTimeBucket } from '@/utils/recipeSearch';
 
 const COLLECTION_NAME = 'spoonacular_recipes';
 
@@ -20,7 +22,7 @@ function isRecipeComplete(recipe: Partial<Recipe>): boolean {
 	);
 }
 
-export type Pagination = { page?: number; limit?: number };
+export type Pagination = { page?: number; limit?: number; cursor?: string };
 
 export type SearchFilters = {
 	query?: string;
@@ -28,6 +30,7 @@ export type SearchFilters = {
 	diet?: string;
 	intolerances?: string;
 	maxReadyTime?: number;
+	timeBucket?: RecipeTimeBucket;
 	authorId?: string;
 };
 
@@ -37,136 +40,8 @@ export async function searchRecipesMongo(filters: SearchFilters = {}, pagination
 		return await searchCommunityRecipes(filters, pagination, randomize);
 	}
 
-	const page = Math.max(1, pagination.page || 1);
-	const limit = Math.min(500, Math.max(1, pagination.limit || 200)); // Erhöht für alle Spoonacular-Rezepte
-
-	// Search both Spoonacular and Community recipes in parallel
-	const [spoonacularResult, communityResult] = await Promise.all([
-		searchSpoonacularRecipesOnly(filters, pagination, randomize),
-		searchCommunityRecipes(filters, pagination, randomize)
-	]);
-
-	// Combine results
-	const combinedRecipes: (Recipe & { source: string })[] = [
-		...spoonacularResult.recipes.map((recipe: any) => ({ ...recipe, source: recipe.source || 'spoonacular' })),
-		...communityResult.recipes // Keep original source values ('chef' and 'community') from searchCommunityRecipes
-	];
-
-	// Remove duplicates by title
-	const seen = new Set();
-	const uniqueRecipes = combinedRecipes.filter((recipe: Recipe & { source: string }) => {
-		const key = recipe.title?.toLowerCase();
-		if (key && seen.has(key)) {
-			return false;
-		}
-		if (key) seen.add(key);
-		return true;
-	});
-
-	// Sort by creation date or randomize
-	let sortedRecipes = uniqueRecipes.sort((a: Recipe & { source: string }, b: Recipe & { source: string }) => {
-		const dateA = new Date(a.createdAt || 0).getTime();
-		const dateB = new Date(b.createdAt || 0).getTime();
-		return dateB - dateA;
-	});
-
-	if (randomize) {
-		sortedRecipes = sortedRecipes.sort(() => Math.random() - 0.5);
-	}
-
-	// Apply pagination
-	const startIndex = (page - 1) * limit;
-	const paginatedRecipes = sortedRecipes.slice(startIndex, startIndex + limit);
-
-	console.log(`🔍 Combined search: ${spoonacularResult.recipes.length} Spoonacular + ${communityResult.recipes.length} Community = ${paginatedRecipes.length} total recipes`);
-
-	return {
-		recipes: paginatedRecipes,
-		total: sortedRecipes.length
-	};
-}
-
-// Original spoonacular-only search function
-async function searchSpoonacularRecipesOnly(filters: SearchFilters = {}, pagination: Pagination = {}, randomize: boolean = false) {
-	const page = Math.max(1, pagination.page || 1);
-	const limit = Math.min(500, Math.max(1, pagination.limit || 200)); // Erhöht für alle Spoonacular-Rezepte
-	const col = await getCollection<Recipe>(COLLECTION_NAME);
-
-	const query: Filter<Recipe> = {
-		// Nur Rezepte mit vollständigen analyzedInstructions
-		'analyzedInstructions.0': { $exists: true },
-		'analyzedInstructions.0.steps.0': { $exists: true },
-		'analyzedInstructions.0.steps.0.step': { $exists: true, $ne: '', $not: { $regex: /^\s*$/ } },
-		// Nur Rezepte mit Zutaten
-		'extendedIngredients.0': { $exists: true }
-	};
-	if (filters.query) {
-		query.$or = [
-			{ title: { $regex: filters.query, $options: 'i' } },
-			{ description: { $regex: filters.query, $options: 'i' } },
-		];
-	}
-	if (filters.type) {
-		query.dishTypes = { $in: [filters.type] };
-	}
-	if (filters.diet) {
-		// Map frontend diet names to database diet names
-		const dietMapping: Record<string, string[]> = {
-			'vegetarian': ['lacto ovo vegetarian', 'vegetarian'],
-			'vegan': ['vegan'],
-			'gluten free': ['gluten free'],
-			'ketogenic': ['ketogenic'],
-			'paleo': ['paleolithic'],
-			'primal': ['primal'],
-			'whole30': ['whole 30'],
-			'pescatarian': ['pescatarian'],
-			'dairy free': ['dairy free']
-		};
-		
-		const mappedDiets = dietMapping[filters.diet.toLowerCase()] || [filters.diet];
-		query.diets = { $in: mappedDiets };
-	}
-	if (typeof filters.maxReadyTime === 'number') {
-		query.readyInMinutes = { $lte: filters.maxReadyTime };
-	}
-	if (filters.intolerances) {
-		const intoleranceKey = filters.intolerances.toLowerCase();
-		const regexMap: Record<string, RegExp> = {
-			egg: /\begg(s)?\b/i,
-			gluten: /(gluten|wheat|flour|barley|rye)/i,
-			dairy: /(milk|cheese|butter|cream|yogurt|lactose)/i,
-			peanut: /peanut/i,
-			seafood: /(fish|shrimp|prawn|crab|lobster|tuna|salmon)/i,
-			sesame: /sesame/i,
-			soy: /(soy|soya|tofu|soybean)/i,
-			sulfite: /(sulfite|sulphite)/i,
-			'tree nut': /(almond|walnut|hazelnut|cashew|pecan|pistachio|macadamia)/i,
-			wheat: /(wheat|flour)/i,
-		};
-		const rx = regexMap[intoleranceKey] || new RegExp(intoleranceKey.replace(/[-/\\^$*+?.()|[\]{}]/g, '\\$&'), 'i');
-			(query as Filter<Recipe> & { extendedIngredients?: { $not: { $elemMatch: { name: RegExp } } } }).extendedIngredients = {
-				$not: { $elemMatch: { name: rx } }
-			};
-	}
-	if (filters.authorId) {
-		query.authorId = filters.authorId;
-	}
-
-	const [items, total] = await Promise.all([
-		randomize 
-			? col.aggregate([
-				{ $match: query },
-				{ $sample: { size: limit } }
-			]).toArray()
-			: col.find(query)
-				.sort({ createdAt: -1, _id: 1 }) // Consistent sorting for pagination
-				.skip((page - 1) * limit)
-				.limit(limit)
-				.toArray(),
-		col.countDocuments(query),
-	]);
-
-	return { recipes: items, total };
+	// Spoonacular-, Chef- und Community-Rezepte, nach Relevanz sortiert
+	return await searchRecipeIndex({ ...filters, ...pagination, randomize });
 }
 
 export async function findRecipeById(id: string) {
@@ -301,6 +176,7 @@ export async function createUserRecipe(input: CreateUserRecipeInput): Promise<Re
 	}
 
 	const res = await col.insertOne(doc as unknown as Omit<Recipe, '_id'>);
+	await syncRecipeSearchEntry(COLLECTION_NAME, res.insertedId);
 	return { ...doc, _id: res.insertedId } as Recipe;
 }
 
@@ -310,7 +186,8 @@ export async function updateRecipe(id: string, updates: Partial<Recipe>) {
 			try { return { _id: new ObjectId(id) } as unknown as Filter<Recipe>; } catch { return { id } as unknown as Filter<Recipe>; }
 		})();
 		const update: UpdateFilter<Recipe> = { $set: { ...updates, updatedAt: new Date().toISOString() } as Partial<Recipe> } as UpdateFilter<Recipe>;
-		await col.updateOne(filter, update);
+		const updated = await col.findOneAndUpdate(filter, update, { projection: { _id: 1 } });
+	if (updated) await syncRecipeSearchEntry(COLLECTION_NAME, updated._id);
 	return findRecipeById(id);
 }
 
@@ -319,8 +196,9 @@ export async function deleteRecipe(id: string) {
 		const filter: Filter<Recipe> = (() => {
 			try { return { _id: new ObjectId(id) } as unknown as Filter<Recipe>; } catch { return { id } as unknown as Filter<Recipe>; }
 		})();
-	const res = await col.deleteOne(filter);
-	return res.deletedCount === 1;
+	const deleted = await col.findOneAndDelete(filter, { projection: { _id: 1 } });
+	if (deleted) await syncRecipeSearchEntry(COLLECTION_NAME, deleted._id);
+	return deleted !== null;
 }
 
 export async function listRecipesByUser(
@@ -372,6 +250,7 @@ export async function cleanupIncompleteRecipes(): Promise<{ deletedCount: number
 		]
 	};
 
+	// Incomplete recipes are not in the search index, so it stays as it is
 	const result = await col.deleteMany(incompleteFilter);
 	
 	console.log(`🗑️ Gelöscht: ${result.deletedCount} unvollständige Rezepte`);
@@ -394,6 +273,7 @@ export async function saveRecipeToDb(recipe: Recipe, userId: string) {
 	};
 	
 	const res = await col.insertOne(doc as unknown as Omit<Recipe, '_id'>);
+	await syncRecipeSearchEntry(COLLECTION_NAME, res.insertedId);
 	return { ...doc, _id: res.insertedId } as Recipe;
 }
 
@@ -401,98 +281,8 @@ export async function saveRecipeToDb(recipe: Recipe, userId: string) {
  * Search Community Recipes (Admin + User recipes only)
  */
 export async function searchCommunityRecipes(filters: SearchFilters = {}, pagination: Pagination = {}, randomize: boolean = false) {
-	const page = Math.max(1, pagination.page || 1);
-	const limit = Math.min(500, Math.max(1, pagination.limit || 200)); // Erhöht für alle Community-Rezepte
-	
-	try {
-		// Clean the query from community: prefix
-		const cleanQuery = filters.query?.replace('community:', '').trim() || '';
-		
-		// Build search query
-		const searchQuery = cleanQuery ? {
-			$or: [
-				{ title: { $regex: cleanQuery, $options: 'i' } },
-				{ description: { $regex: cleanQuery, $options: 'i' } }
-			]
-		} : {};
-		
-		const additionalFilters = {
-			...(filters.type && { dishTypes: { $in: [filters.type] } }),
-			...(filters.diet && { diets: { $in: [filters.diet] } }),
-			...(filters.maxReadyTime && { readyInMinutes: { $lte: filters.maxReadyTime } })
-		};
-
-		// Get recipes from Admin and User collections
-		const [adminRecipes, userRecipes] = await Promise.all([
-			// Admin recipes (from 'recipes' collection)
-			getCollection('recipes').then(collection => 
-				collection.find({ ...searchQuery, ...additionalFilters })
-					.sort({ createdAt: -1 }).toArray()
-			).catch(() => []),
-			
-			// User recipes (from 'userRecipes' collection)
-			getCollection('userRecipes').then(collection => 
-				collection.find({ ...searchQuery, ...additionalFilters })
-					.sort({ createdAt: -1 }).toArray()
-			).catch(() => [])
-		]);
-
-		// Combine recipes and mark their source
-		const allRecipes: (Recipe & { source?: string })[] = [
-			...adminRecipes.map((recipe: any) => ({ 
-				...recipe, 
-				source: 'chef',
-				id: recipe._id?.toString() || recipe.id,
-				// Ensure image field is properly set from different possible sources
-				image: recipe.image || recipe.primaryImageUrl || (recipe.images && recipe.images[0]?.url) || '/placeholder-recipe.svg'
-			})),
-			...userRecipes.map((recipe: any) => ({ 
-				...recipe, 
-				source: 'community',
-				id: recipe._id?.toString() || recipe.id,
-				// Ensure image field is properly set from different possible sources
-				image: recipe.image || recipe.primaryImageUrl || (recipe.images && recipe.images[0]?.url) || '/placeholder-recipe.svg'
-			}))
-		];
-
-		// Remove duplicates by title
-		const seen = new Set();
-		const uniqueRecipes = allRecipes.filter(recipe => {
-			const key = recipe.title?.toLowerCase();
-			if (key && seen.has(key)) {
-				return false;
-			}
-			if (key) seen.add(key);
-			return true;
-		});
-
-		// Sort by creation date or randomize
-		let sortedRecipes = uniqueRecipes.sort((a, b) => {
-			const dateA = new Date(a.createdAt || 0).getTime();
-			const dateB = new Date(b.createdAt || 0).getTime();
-			return dateB - dateA;
-		});
-
-		if (randomize) {
-			sortedRecipes = sortedRecipes.sort(() => Math.random() - 0.5);
-		}
-
-		// Apply pagination
-		const startIndex = (page - 1) * limit;
-		const paginatedRecipes = sortedRecipes.slice(startIndex, startIndex + limit);
-
-		console.log(`Found ${allRecipes.length} community recipes (${adminRecipes.length} chef, ${userRecipes.length} user)`);
+	// Clean the query from community: prefix
+	const cleanQuery = filters.query?.replace('community:', '').trim() || '';
 
-		return {
-			recipes: paginatedRecipes,
-			total: sortedRecipes.length
-		};
-
-	} catch (error) {
-		console.error('Error searching community recipes:', error);
-		return {
-			recipes: [],
-			total: 0
-		};
-	}
+	return await searchRecipeIndex({ ...filters, query: cleanQuery, ...pagination, randomize, communityOnly: true });
 }
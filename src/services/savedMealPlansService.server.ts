@@ -13,6 +13,20 @@ import type {
   TemplateFilter 
 } from '@/types/meal-plan-templates';
 
+// Which templates a listing includes
+export type TemplateScope = 'all' | 'mine' | 'public' | 'official';
+export type TemplateSortOption = 'popular' | 'rating' | 'newest' | 'name';
+
+// One user's rating of a template, kept on the template to compute its average
+interface TemplateRating {
+  userId: string;
+  rating: number;
+}
+
+type StoredMealPlanTemplate = Omit<MealPlanTemplate, '_id' | 'userRating'> & {
+  ratings?: TemplateRating[];
+};
+
 export interface SavedMealPlan {
   _id?: string;
   userId: string;
@@ -449,4 +463,288 @@ export class SavedMealPlansService {
       };
     }
   }
+  // ========================================
+  // Meal Plan Templates
+  // ========================================
+
+  /**
+   * Save a template to the template library
+   */
+  static async createTemplate(
+    template: Omit<MealPlanTemplate, '_id' | 'createdAt' | 'updatedAt' | 'usageCount' | 'rating' | 'ratingCount' | 'userRating'>
+  ): Promise<MealPlanTemplate> {
+    try {
+      const client = await clientPromise;
+      const db = client.db('smartplates');
+      const collection = db.collection<StoredMealPlanTemplate>(this.TEMPLATES_COLLECTION_NAME);
+
+      const storedTemplate: StoredMealPlanTemplate = {
+        ...template,
+        name: template.name.trim(),
+        description: template.description?.trim(),
+        usageCount: 0,
+        ratingCount: 0,
+        ratings: [],
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+
+      const result = await collection.insertOne(storedTemplate);
+
+      return this.toTemplate({ ...storedTemplate, _id: result.insertedId }, template.userId);
+    } catch (error) {
+      console.error('Error creating meal plan template:', error);
+      throw new Error('Failed to create meal plan template');
+    }
+  }
+
+  /**
+   * Get the templates a user can see: their own, public and official ones
+   */
+  static async getTemplates(
+    userId: string,
+    filter: TemplateFilter = {},
+    options: {
+      scope?: TemplateScope;
+      sortBy?: TemplateSortOption;
+      limit?: number;
+      offset?: number;
+    } = {}
+  ): Promise<MealPlanTemplate[]> {
+    try {
+      const client = await clientPromise;
+      const db = client.db('smartplates');
+      const collection = db.collection<StoredMealPlanTemplate>(this.TEMPLATES_COLLECTION_NAME);
+
+      const query: any = {
+        $and: [this.getTemplateScopeQuery(userId, options.scope || 'all')]
+      };
+
+      if (filter.category) {
+        query.category = filter.category;
+      }
+
+      if (filter.dietaryTags && filter.dietaryTags.length > 0) {
+        // Dietary needs all have to be met
+        query.dietaryTags = { $all: filter.dietaryTags };
+      }
+
+      if (filter.maxPrepTime !== undefined) {
+        query.prepTime = { $lte: filter.maxPrepTime };
+      }
+
+      if (filter.difficulty && filter.difficulty.length > 0) {
+        query.difficulty = { $in: filter.difficulty };
+      }
+
+      if (filter.tags && filter.tags.length > 0) {
+        query.tags = { $in: filter.tags };
+      }
+
+      if (filter.search) {
+        const search = new RegExp(filter.search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+        query.$and.push({
+          $or: [
+            { name: search },
+            { description: search },
+            { tags: search }
+          ]
+        });
+      }
+
+      const sortOptions: Record<TemplateSortOption, any> = {
+        popular: { isOfficial: -1, usageCount: -1, createdAt: -1 },
+        rating: { rating: -1, ratingCount: -1, createdAt: -1 },
+        newest: { createdAt: -1 },
+        name: { name: 1 }
+      };
+
+      let cursor = collection
+        .find(query)
+        .sort(sortOptions[options.sortBy || 'popular']);
+
+      if (options.offset) {
+        cursor = cursor.skip(options.offset);
+      }
+
+      if (options.limit) {
+        cursor = cursor.limit(options.limit);
+      }
+
+      const templates = await cursor.toArray();
+
+      return templates.map(template => this.toTemplate(template, userId));
+    } catch (error) {
+      console.error('Error getting meal plan templates:', error);
+      throw new Error('Failed to retrieve meal plan templates');
+    }
+  }
+
+  /**
+   * Get a template the user owns or that is public or official
+   */
+  static async getTemplate(templateId: string, userId: string): Promise<MealPlanTemplate | null> {
+    try {
+      const client = await clientPromise;
+      const db = client.db('smartplates');
+      const collection = db.collection<StoredMealPlanTemplate>(this.TEMPLATES_COLLECTION_NAME);
+
+      const template = await collection.findOne({
+        _id: new ObjectId(templateId) as any,
+        ...this.getTemplateScopeQuery(userId, 'all')
+      });
+
+      return template ? this.toTemplate(template, userId) : null;
+    } catch (error) {
+      console.error('Error getting meal plan template:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Update a template of the user
+   */
+  static async updateTemplate(
+    templateId: string,
+    userId: string,
+    updates: Partial<Omit<MealPlanTemplate, '_id' | 'userId' | 'createdAt' | 'updatedAt' | 'usageCount' | 'rating' | 'ratingCount' | 'userRating' | 'lastUsed'>>
+  ): Promise<MealPlanTemplate | null> {
+    try {
+      const client = await clientPromise;
+      const db = client.db('smartplates');
+      const collection = db.collection<StoredMealPlanTemplate>(this.TEMPLATES_COLLECTION_NAME);
+
+      const template = await collection.findOneAndUpdate(
+        {
+          _id: new ObjectId(templateId) as any,
+          userId
+        },
+        { $set: { ...updates, updatedAt: new Date() } },
+        { returnDocument: 'after' }
+      );
+
+      return template ? this.toTemplate(template, userId) : null;
+    } catch (error) {
+      console.error('Error updating meal plan template:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Delete a template of the user
+   */
+  static async deleteTemplate(templateId: string, userId: string): Promise<boolean> {
+    try {
+      const client = await clientPromise;
+      const db = client.db('smartplates');
+      const collection = db.collection<StoredMealPlanTemplate>(this.TEMPLATES_COLLECTION_NAME);
+
+      const result = await collection.deleteOne({
+        _id: new ObjectId(templateId) as any,
+        userId
+      });
+
+      return result.deletedCount > 0;
+    } catch (error) {
+      console.error('Error deleting meal plan template:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Increment usage count when a template is applied
+   */
+  static async incrementTemplateUsage(templateId: string): Promise<void> {
+    try {
+      const client = await clientPromise;
+      const db = client.db('smartplates');
+      const collection = db.collection<StoredMealPlanTemplate>(this.TEMPLATES_COLLECTION_NAME);
+
+      await collection.updateOne(
+        { _id: new ObjectId(templateId) as any },
+        {
+          $inc: { usageCount: 1 },
+          $set: { lastUsed: new Date() }
+        }
+      );
+    } catch (error) {
+      console.error('Error incrementing template usage count:', error);
+    }
+  }
+
+  /**
+   * Rate a template, replacing the user's earlier rating of it
+   */
+  static async rateTemplate(templateId: string, userId: string, rating: number): Promise<MealPlanTemplate | null> {
+    try {
+      const client = await clientPromise;
+      const db = client.db('smartplates');
+      const collection = db.collection<StoredMealPlanTemplate>(this.TEMPLATES_COLLECTION_NAME);
+
+      // One pipeline update, so the average always matches the ratings
+      const template = await collection.findOneAndUpdate(
+        { _id: new ObjectId(templateId) as any },
+        [
+          {
+            $set: {
+              ratings: {
+                $concatArrays: [
+                  {
+                    $filter: {
+                      input: { $ifNull: ['$ratings', []] },
+                      cond: { $ne: ['$$this.userId', userId] }
+                    }
+                  },
+                  [{ userId, rating }]
+                ]
+              }
+            }
+          },
+          {
+            $set: {
+              rating: { $round: [{ $avg: '$ratings.rating' }, 1] },
+              ratingCount: { $size: '$ratings' }
+            }
+          }
+        ],
+        { returnDocument: 'after' }
+      );
+
+      return template ? this.toTemplate(template, userId) : null;
+    } catch (error) {
+      console.error('Error rating meal plan template:', error);
+      throw new Error('Failed to rate meal plan template');
+    }
+  }
+
+  /**
+   * Build the query of the templates in a scope
+   */
+  private static getTemplateScopeQuery(userId: string, scope: TemplateScope): any {
+    switch (scope) {
+      case 'mine':
+        return { userId };
+      case 'official':
+        return { isOfficial: true };
+      case 'public':
+        return { $or: [{ isPublic: true }, { isOfficial: true }] };
+      default:
+        return { $or: [{ userId }, { isPublic: true }, { isOfficial: true }] };
+    }
+  }
+
+  /**
+   * Convert a stored template for a response, with the user's own rating
+   * instead of everyone's
+   */
+  private static toTemplate(template: StoredMealPlanTemplate & { _id: ObjectId }, userId: string): MealPlanTemplate {
+    const { ratings, ...rest } = template;
+    const userRating = ratings?.find(rating => rating.userId === userId)?.rating;
+
+    return {
+      ...rest,
+      _id: template._id.toString(),
+      ...(userRating !== undefined && { userRating })
+    };
+  }
 }
\ No newline at end of file
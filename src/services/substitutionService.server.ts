@@ -0,0 +1,153 @@
+/**
+ * Substitution Service
+ *
+ * Suggests substitutions for grocery list items that suit the user's
+ * dietary settings, and applies a chosen one: the item is replaced on the
+ * active grocery list and, optionally, a note is added to the upcoming meals
+ * that use it so the cook knows what changed.
+ */
+
+import type { ObjectId } from 'mongodb';
+import { startOfDay } from 'date-fns';
+import { MealPlanService, type IMealPlan } from '@/models/MealPlan';
+import { applyOperationsToGroceryList, findGroceryListByUserId, type GroceryList } from '@/models/GroceryList';
+import { findAllIngredientSubstitutions, findIngredientSubstitutionById, type IngredientSubstitution } from '@/models/IngredientSubstitution';
+import { UserSettingsService } from '@/services/userSettingsService.server';
+import { recordMealPlanRevision } from '@/services/mealPlanRevisionService.server';
+import { groceryItemKey, type GroceryItem } from '@/utils/groceryListHelper';
+import type { GroceryListActor } from '@/utils/groceryListOperations';
+import {
+  applySubstitutionRule,
+  describeSubstitution,
+  findSubstitutionRules,
+  getSubstitutionConflicts,
+  suggestSubstitutions,
+  type DietaryRestrictions,
+  type SubstitutionSuggestion,
+} from '@/utils/ingredientSubstitutions';
+import { getDayMealTypeIds, getMealsOfType, setMealsOfType } from '@/utils/mealTypes';
+
+export type AppliedSubstitution =
+  | { status: 'applied'; groceryList: GroceryList; suggestion: SubstitutionSuggestion<IngredientSubstitution>; updatedMeals: number }
+  | { status: 'item-not-found' | 'rule-not-found' | 'rule-mismatch' }
+  | { status: 'not-suitable'; conflicts: string[] };
+
+/**
+ * Reads the user's dietary settings
+ * @param settingsUserId - The session user id (settings are keyed like the preferences API)
+ */
+export async function getDietaryRestrictions(settingsUserId: string): Promise<DietaryRestrictions> {
+  const settings = await UserSettingsService.getUserSettings(settingsUserId);
+  return settings.dietary || {};
+}
+
+/**
+ * Suggests substitutions for an item that suit the user
+ *
+ * @param item - The item to replace, with its quantity on the list
+ * @param settingsUserId - The session user id
+ */
+export async function getSubstitutionSuggestions(
+  item: Pick<GroceryItem, 'name' | 'quantity' | 'unit'>,
+  settingsUserId: string
+): Promise<SubstitutionSuggestion<IngredientSubstitution>[]> {
+  const [rules, restrictions] = await Promise.all([
+    findAllIngredientSubstitutions(),
+    getDietaryRestrictions(settingsUserId),
+  ]);
+  return suggestSubstitutions(item, rules, restrictions);
+}
+
+/**
+ * Adds a note to every upcoming, uncooked meal that uses one of the recipes
+ *
+ * @param mealPlanUserId - The meal plans' userId (session id or email)
+ * @param recipeIds - Recipes that used the replaced item
+ * @param note - The note to add
+ * @returns How many meals were updated
+ */
+export async function addSubstitutionNoteToMeals(mealPlanUserId: string, recipeIds: string[], note: string): Promise<number> {
+  if (recipeIds.length === 0) return 0;
+
+  const today = startOfDay(new Date());
+  const mealPlans: IMealPlan[] = await MealPlanService.find({
+    userId: mealPlanUserId,
+    isTemplate: { $ne: true },
+    endDate: { $gte: today },
+  });
+  let updatedMeals = 0;
+
+  for (const mealPlan of mealPlans) {
+    let changed = false;
+    const days = mealPlan.days.map(day => {
+      if (new Date(day.date) < today) return day;
+      let updatedDay = { ...day };
+      for (const mealType of getDayMealTypeIds(day)) {
+        updatedDay = setMealsOfType(updatedDay, mealType, getMealsOfType(day, mealType).map(meal => {
+          const usesRecipe = meal.recipeId && recipeIds.includes(meal.recipeId);
+          if (!usesRecipe || meal.cookedAt || meal.notes?.includes(note)) return meal;
+          changed = true;
+          updatedMeals++;
+          return { ...meal, notes: meal.notes ? `${meal.notes}\n${note}` : note };
+        }));
+      }
+      return updatedDay;
+    });
+
+    if (changed && mealPlan._id) {
+      const updatedPlan = await MealPlanService.updateById(mealPlan._id, { days });
+      if (updatedPlan) {
+        await recordMealPlanRevision(mealPlan, updatedPlan, { type: 'notes', label: 'Added a substitution note' });
+      }
+    }
+  }
+
+  return updatedMeals;
+}
+
+/**
+ * Replaces an item on the user's active grocery list with a substitution
+ *
+ * @param userId - The user's ObjectId
+ * @param settingsUserId - The session user id (settings and meal plans are keyed by it)
+ * @param item - The item on the list (name and unit identify it)
+ * @param substitutionId - The chosen substitution rule
+ * @param actor - Who made the change
+ * @param updateMeals - Also add a note to the upcoming meals that use the item
+ */
+export async function applySubstitution(
+  userId: string | ObjectId,
+  settingsUserId: string,
+  item: { name: string; unit?: string },
+  substitutionId: string,
+  actor: GroceryListActor,
+  updateMeals = false
+): Promise<AppliedSubstitution> {
+  const [groceryList, rule, restrictions] = await Promise.all([
+    findGroceryListByUserId(userId),
+    findIngredientSubstitutionById(substitutionId),
+    getDietaryRestrictions(settingsUserId),
+  ]);
+
+  const listItem = groceryList?.ingredients.find(ingredient => groceryItemKey(ingredient) === groceryItemKey(item));
+  if (!listItem) return { status: 'item-not-found' };
+  if (!rule) return { status: 'rule-not-found' };
+  // A rule for another ingredient must not replace this item
+  if (findSubstitutionRules([rule], listItem.name).length === 0) return { status: 'rule-mismatch' };
+
+  const conflicts = getSubstitutionConflicts(rule, restrictions);
+  if (conflicts.length > 0) return { status: 'not-suitable', conflicts };
+
+  const suggestion = applySubstitutionRule(listItem, rule);
+  const recipeIds = listItem.recipeIds || [];
+
+  const updatedList = await applyOperationsToGroceryList(userId, [
+    { type: 'remove', name: listItem.name, unit: listItem.unit },
+    { type: 'add', items: suggestion.items.map(replacement => ({ ...replacement, recipeIds })) },
+  ], actor);
+
+  const note = `Substitution: ${describeSubstitution(listItem.name, suggestion.items)}${rule.note ? ` (${rule.note})` : ''}`;
+  const updatedMeals = updateMeals ? await addSubstitutionNoteToMeals(settingsUserId, recipeIds, note) : 0;
+
+  return { status: 'applied', groceryList: updatedList, suggestion, updatedMeals };
+}
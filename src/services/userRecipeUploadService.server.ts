@@ -7,6 +7,7 @@
 
 import clientPromise from '@/lib/db';
 import { ObjectId } from 'mongodb';
+import { syncRecipeSearchEntry } from '@/services/recipeSearchService.server';
 
 export interface UserRecipe {
   _id?: string;
@@ -232,6 +233,7 @@ export class UserRecipeUploadService {
       const collection = db.collection<UserRecipe>(this.COLLECTION_NAME);
 
       const result = await collection.insertOne(recipe);
+      await syncRecipeSearchEntry(this.COLLECTION_NAME, result.insertedId);
 
       return {
         recipe: {
@@ -358,6 +360,9 @@ export class UserRecipeUploadService {
         }
       );
 
+      if (result.matchedCount > 0) {
+        await syncRecipeSearchEntry(this.COLLECTION_NAME, new ObjectId(recipeId));
+      }
       return result.matchedCount > 0;
     } catch (error) {
       console.error('Error updating recipe:', error);
@@ -379,6 +384,9 @@ export class UserRecipeUploadService {
         userId
       });
 
+      if (result.deletedCount > 0) {
+        await syncRecipeSearchEntry(this.COLLECTION_NAME, new ObjectId(recipeId));
+      }
       return result.deletedCount > 0;
     } catch (error) {
       console.error('Error deleting recipe:', error);
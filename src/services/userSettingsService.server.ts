@@ -7,6 +7,10 @@
 
 import clientPromise from '@/lib/db';
 import { ObjectId, WithId } from 'mongodb';
+import { DEFAULT_SECTION_ORDER, type StoreSection } from '@/utils/storeSections';
+import { DEFAULT_MEAL_TYPES, type MealTypeDefinition } from '@/utils/mealTypes';
+import type { NutritionTargets } from '@/utils/mealPlanNutrition';
+import type { HouseholdMember } from '@/utils/household';
 
 export interface UserSettings {
   _id?: string;
@@ -51,6 +55,9 @@ export interface UserSettings {
     includeLeftovers: boolean;
     batchCookingPreference: boolean;
     budgetPerWeek?: number; // Estimated grocery budget
+    nutritionTargets?: NutritionTargets; // Daily calories and nutrients to compare meal plans against
+    mealTypes?: MealTypeDefinition[]; // The meals of a day, in calendar order (built-ins and the user's own)
+    householdMembers?: HouseholdMember[]; // The people meals are planned for, with their diets and portions
   };
   
   // Recipe preferences
@@ -123,6 +130,7 @@ export interface UserSettings {
     priceTracking: boolean;
     organicPreference: 'always' | 'when-available' | 'budget-permitting' | 'never';
     localProducePreference: boolean;
+    storeSectionOrder?: StoreSection[]; // Grocery list section order (matches the user's store layout)
   };
   
   // Data and backup
@@ -511,7 +519,8 @@ export class UserSettingsService {
         weekStartsOn: 1, // Monday
         autoGenerateGroceryList: true,
         includeLeftovers: true,
-        batchCookingPreference: false
+        batchCookingPreference: false,
+        mealTypes: DEFAULT_MEAL_TYPES.map(mealType => ({ ...mealType }))
       },
       recipes: {
         defaultView: 'grid',
@@ -570,7 +579,8 @@ export class UserSettingsService {
         couponsAndDeals: true,
         priceTracking: false,
         organicPreference: 'when-available',
-        localProducePreference: true
+        localProducePreference: true,
+        storeSectionOrder: [...DEFAULT_SECTION_ORDER]
       },
       data: {
         exportFormat: 'json',
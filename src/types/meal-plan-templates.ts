@@ -4,7 +4,8 @@
  * Professional template system for reusable meal plans
  */
 
-import { IMealPlan, MealSlot, DayMeals } from './meal-planning';
+import { IMealPlan, MealSlot, DayMeals, MAX_MEAL_PLAN_DAYS, addDaysToDate, getDatesInRange } from './meal-planning';
+import { getDayMealTypeIds, getMealsOfType, isBuiltInMealType } from '@/utils/mealTypes';
 
 export interface MealPlanTemplate {
   _id?: string;
@@ -27,6 +28,8 @@ export interface MealPlanTemplate {
   // Usage tracking
   usageCount: number;
   rating?: number; // Average user rating
+  ratingCount?: number;
+  userRating?: number; // The requesting user's own rating, in responses only
   lastUsed?: Date;
   
   // Sharing and visibility
@@ -43,6 +46,7 @@ export interface TemplateDayMeals {
   lunch: TemplateMealSlot[];
   dinner: TemplateMealSlot[];
   snacks: TemplateMealSlot[];
+  customMeals?: Record<string, TemplateMealSlot[]>; // Meals of the user's own meal types, by type id
   notes?: string;
 }
 
@@ -76,109 +80,169 @@ export interface TemplateFilter {
   search?: string;
 }
 
+export const TEMPLATE_CATEGORIES: TemplateCategoryType[] = [
+  'weekly-meal-prep',
+  'family-friendly',
+  'quick-meals',
+  'diet-specific',
+  'seasonal',
+  'budget-friendly',
+  'custom'
+];
+
+export const TEMPLATE_CATEGORY_LABELS: Record<TemplateCategoryType, string> = {
+  'weekly-meal-prep': 'Weekly Meal Prep',
+  'family-friendly': 'Family Friendly',
+  'quick-meals': 'Quick Meals',
+  'diet-specific': 'Diet Specific',
+  'seasonal': 'Seasonal',
+  'budget-friendly': 'Budget Friendly',
+  'custom': 'Custom'
+};
+
+export const TEMPLATE_DIFFICULTIES: MealPlanTemplate['difficulty'][] = ['easy', 'medium', 'hard'];
+
+export const TEMPLATE_DIFFICULTY_LABELS: Record<MealPlanTemplate['difficulty'], string> = {
+  easy: 'Easy',
+  medium: 'Medium',
+  hard: 'Hard'
+};
+export const MAX_TEMPLATE_RATING = 5;
+export const MAX_TEMPLATE_ALTERNATIVES = 5;
+
+// Fields a client may set when creating or changing a template
+export interface TemplateInput {
+  name: string;
+  description?: string;
+  category?: TemplateCategoryType;
+  tags?: string[];
+  difficulty?: MealPlanTemplate['difficulty'];
+  prepTime?: number;
+  servings?: number;
+  estimatedCalories?: number;
+  dietaryTags?: string[];
+  isPublic?: boolean;
+  isOfficial?: boolean; // Admins only
+  templateDays?: TemplateDayMeals[];
+}
+
+// Keeps only the fields a template meal has, so cooking state and batch links are not copied
+function toTemplateMeals(meals: MealSlot[] = []): TemplateMealSlot[] {
+  return meals.map(meal => ({
+    ...(meal.recipeId && { recipeId: meal.recipeId }),
+    recipeName: meal.recipeName || 'Unknown Recipe',
+    servings: meal.servings || 1,
+    ...(meal.notes && { notes: meal.notes }),
+    ...(meal.cookingTime !== undefined && { cookingTime: meal.cookingTime }),
+    ...(meal.prepTime !== undefined && { prepTime: meal.prepTime }),
+    ...(meal.image && { image: meal.image })
+  }));
+}
+
 // Utility functions for templates
 export function createTemplateFromMealPlan(
   mealPlan: IMealPlan, 
   templateName: string,
   category: TemplateCategoryType = 'custom'
 ): Omit<MealPlanTemplate, '_id' | 'createdAt' | 'updatedAt'> {
+  const templateDays = mealPlan.days.map(day => ({
+    dayName: new Date(day.date).toLocaleDateString('en-US', { weekday: 'long' }),
+    breakfast: toTemplateMeals(day.breakfast),
+    lunch: toTemplateMeals(day.lunch),
+    dinner: toTemplateMeals(day.dinner),
+    snacks: toTemplateMeals(day.snacks),
+    customMeals: Object.fromEntries(Object.entries(day.customMeals || {}).map(([mealType, meals]) => [
+      mealType,
+      toTemplateMeals(meals)
+    ])),
+    notes: day.dailyNotes
+  }));
+
   return {
     userId: mealPlan.userId,
     name: templateName,
     category,
     tags: mealPlan.tags || [],
     difficulty: 'medium',
-    prepTime: 0, // Calculate based on meals
+    prepTime: templateDays
+      .flatMap(day => getDayMealTypeIds(day).flatMap(mealType => getMealsOfType(day, mealType)))
+      .reduce((total, meal) => total + (meal.prepTime || 0), 0),
     servings: 4, // Default
-    templateDays: mealPlan.days.map(day => ({
-      dayName: day.date.toLocaleDateString('en-US', { weekday: 'long' }),
-      breakfast: day.breakfast.map(meal => ({
-        ...meal,
-        recipeName: meal.recipeName || 'Unknown Recipe',
-        servings: meal.servings || 1
-      })),
-      lunch: day.lunch.map(meal => ({
-        ...meal,
-        recipeName: meal.recipeName || 'Unknown Recipe',
-        servings: meal.servings || 1
-      })),
-      dinner: day.dinner.map(meal => ({
-        ...meal,
-        recipeName: meal.recipeName || 'Unknown Recipe',
-        servings: meal.servings || 1
-      })),
-      snacks: day.snacks.map(meal => ({
-        ...meal,
-        recipeName: meal.recipeName || 'Unknown Recipe',
-        servings: meal.servings || 1
-      })),
-      notes: day.dailyNotes
-    })),
+    templateDays,
     usageCount: 0,
     isPublic: false,
     isOfficial: false
   };
 }
 
+// Identifies one meal of a template, e.g. to choose its alternative when applying
+export function getTemplateSlotKey(dayIndex: number, mealType: string, slotIndex: number): string {
+  return `${dayIndex}:${mealType}:${slotIndex}`;
+}
+
+// How a template's meals are turned into plan meals
+export interface ApplyTemplateOptions {
+  skipOptional?: boolean; // Leave out meals marked isOptional
+  alternativeIndex?: number; // Which option of a meal with alternatives to use: 0 is the meal itself, then its alternatives (wraps around)
+  choices?: Record<string, number | null>; // Per meal by getTemplateSlotKey: the option to use, or null to skip an optional meal; overrides the two above
+}
+
+// Picks the option of a template meal to plan, or null if it is skipped
+function chooseTemplateMeal(slot: TemplateMealSlot, slotKey: string, options: ApplyTemplateOptions): TemplateMealSlot | null {
+  const choice = options.choices?.[slotKey];
+  if (slot.isOptional && (choice === null || (choice === undefined && options.skipOptional))) return null;
+
+  const choices = [slot, ...(slot.alternatives || [])];
+  const index = typeof choice === 'number' ? choice : options.alternativeIndex || 0;
+  return choices[index % choices.length];
+}
+
+function toPlanMeals(slots: TemplateMealSlot[] = [], dayIndex: number, mealType: string, options: ApplyTemplateOptions): MealSlot[] {
+  return slots.flatMap((slot, slotIndex) => {
+    const meal = chooseTemplateMeal(slot, getTemplateSlotKey(dayIndex, mealType, slotIndex), options);
+    return meal ? [{
+      recipeId: meal.recipeId,
+      recipeName: meal.recipeName,
+      servings: meal.servings,
+      notes: meal.notes,
+      cookingTime: meal.cookingTime,
+      prepTime: meal.prepTime,
+      image: meal.image
+    }] : [];
+  });
+}
+
+// Lays the template's days out from the start date, one plan day per template day
 export function applyTemplateToWeek(
-  template: MealPlanTemplate,
+  template: Pick<MealPlanTemplate, 'name' | 'templateDays' | 'tags'>,
   userId: string,
-  weekStartDate: Date
+  startDate: Date,
+  options: ApplyTemplateOptions = {}
 ): IMealPlan {
-  const weekEndDate = new Date(weekStartDate.getTime() + (6 * 24 * 60 * 60 * 1000));
-  const weekDates: Date[] = [];
-  
-  for (let i = 0; i < 7; i++) {
-    const date = new Date(weekStartDate);
-    date.setDate(weekStartDate.getDate() + i);
-    weekDates.push(date);
-  }
+  const endDate = addDaysToDate(startDate, Math.max(template.templateDays.length, 1) - 1);
+  const dates = getDatesInRange(startDate, endDate);
   
   return {
     userId,
-    weekStartDate,
-    weekEndDate,
-    title: `${template.name} - Week of ${weekStartDate.toLocaleDateString()}`,
-    days: template.templateDays.map((templateDay, index) => ({
-      date: weekDates[index],
-      breakfast: templateDay.breakfast.map(meal => ({
-        recipeId: meal.recipeId,
-        recipeName: meal.recipeName,
-        servings: meal.servings,
-        notes: meal.notes,
-        cookingTime: meal.cookingTime,
-        prepTime: meal.prepTime,
-        image: meal.image
-      })),
-      lunch: templateDay.lunch.map(meal => ({
-        recipeId: meal.recipeId,
-        recipeName: meal.recipeName,
-        servings: meal.servings,
-        notes: meal.notes,
-        cookingTime: meal.cookingTime,
-        prepTime: meal.prepTime,
-        image: meal.image
-      })),
-      dinner: templateDay.dinner.map(meal => ({
-        recipeId: meal.recipeId,
-        recipeName: meal.recipeName,
-        servings: meal.servings,
-        notes: meal.notes,
-        cookingTime: meal.cookingTime,
-        prepTime: meal.prepTime,
-        image: meal.image
-      })),
-      snacks: templateDay.snacks.map(meal => ({
-        recipeId: meal.recipeId,
-        recipeName: meal.recipeName,
-        servings: meal.servings,
-        notes: meal.notes,
-        cookingTime: meal.cookingTime,
-        prepTime: meal.prepTime,
-        image: meal.image
-      })),
-      dailyNotes: templateDay.notes
-    })),
+    startDate,
+    endDate,
+    title: `${template.name} - ${dates.length === 7 ? 'Week of ' : ''}${startDate.toLocaleDateString()}`,
+    days: template.templateDays.map((templateDay, index): DayMeals => {
+      const customMeals = Object.fromEntries(
+        Object.entries(templateDay.customMeals || {})
+          .map(([mealType, meals]) => [mealType, toPlanMeals(meals, index, mealType, options)] as const)
+          .filter(([, meals]) => meals.length > 0)
+      );
+      return {
+        date: dates[index],
+        breakfast: toPlanMeals(templateDay.breakfast, index, 'breakfast', options),
+        lunch: toPlanMeals(templateDay.lunch, index, 'lunch', options),
+        dinner: toPlanMeals(templateDay.dinner, index, 'dinner', options),
+        snacks: toPlanMeals(templateDay.snacks, index, 'snacks', options),
+        ...(Object.keys(customMeals).length > 0 && { customMeals }),
+        dailyNotes: templateDay.notes
+      };
+    }),
     shoppingListGenerated: false,
     isTemplate: false,
     tags: [...template.tags],
@@ -187,6 +251,143 @@ export function applyTemplateToWeek(
   };
 }
 
+// Fills every day of a range from the template, repeating its days when the range is longer
+export function applyTemplateToRange(
+  template: Pick<MealPlanTemplate, 'name' | 'templateDays' | 'tags'>,
+  userId: string,
+  startDate: Date,
+  endDate: Date,
+  options: ApplyTemplateOptions = {}
+): IMealPlan {
+  const planned = applyTemplateToWeek(template, userId, startDate, options);
+  const days = getDatesInRange(startDate, endDate).map((date, index): DayMeals => ({
+    ...(planned.days[index % planned.days.length] || { breakfast: [], lunch: [], dinner: [], snacks: [] }),
+    date
+  }));
+
+  return { ...planned, endDate, days };
+}
+
+// Reads a template meal from a request body; alternatives cannot have alternatives of their own
+function parseTemplateMeal(value: unknown, allowAlternatives: boolean): TemplateMealSlot | null {
+  if (!value || typeof value !== 'object') return null;
+  const meal = value as Record<string, unknown>;
+  const servings = meal.servings ?? 1;
+  const isMinutes = (minutes: unknown) => minutes === undefined || (typeof minutes === 'number' && minutes >= 0);
+
+  if (typeof meal.recipeName !== 'string' || !meal.recipeName.trim()) return null;
+  if (typeof servings !== 'number' || servings <= 0) return null;
+  if (!isMinutes(meal.cookingTime) || !isMinutes(meal.prepTime)) return null;
+  if (meal.isOptional !== undefined && typeof meal.isOptional !== 'boolean') return null;
+
+  let alternatives: TemplateMealSlot[] = [];
+  if (meal.alternatives !== undefined) {
+    if (!allowAlternatives || !Array.isArray(meal.alternatives) || meal.alternatives.length > MAX_TEMPLATE_ALTERNATIVES) return null;
+    const parsed = meal.alternatives.map(alternative => parseTemplateMeal(alternative, false));
+    if (parsed.some(alternative => !alternative)) return null;
+    alternatives = parsed as TemplateMealSlot[];
+  }
+
+  return {
+    ...(typeof meal.recipeId === 'string' && meal.recipeId && { recipeId: meal.recipeId }),
+    recipeName: meal.recipeName.trim(),
+    servings,
+    ...(typeof meal.notes === 'string' && meal.notes && { notes: meal.notes }),
+    ...(meal.isOptional === true && { isOptional: true }),
+    ...(alternatives.length > 0 && { alternatives }),
+    ...(meal.cookingTime !== undefined && { cookingTime: meal.cookingTime as number }),
+    ...(meal.prepTime !== undefined && { prepTime: meal.prepTime as number }),
+    ...(typeof meal.image === 'string' && meal.image && { image: meal.image })
+  };
+}
+
+function parseTemplateMeals(value: unknown): TemplateMealSlot[] | null {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) return null;
+  const meals = value.map(meal => parseTemplateMeal(meal, true));
+  return meals.some(meal => !meal) ? null : meals as TemplateMealSlot[];
+}
+
+/**
+ * Reads template days from a request body, keeping only the known fields
+ *
+ * @returns The days, or null if they are not valid template days
+ */
+export function parseTemplateDays(value: unknown): TemplateDayMeals[] | null {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_MEAL_PLAN_DAYS) return null;
+
+  const days: TemplateDayMeals[] = [];
+  for (const item of value) {
+    if (!item || typeof item !== 'object') return null;
+    const day = item as Record<string, unknown>;
+
+    const [breakfast, lunch, dinner, snacks] = [day.breakfast, day.lunch, day.dinner, day.snacks].map(parseTemplateMeals);
+    if (!breakfast || !lunch || !dinner || !snacks) return null;
+
+    const customMeals: Record<string, TemplateMealSlot[]> = {};
+    if (day.customMeals !== undefined) {
+      if (!day.customMeals || typeof day.customMeals !== 'object' || Array.isArray(day.customMeals)) return null;
+      for (const [mealType, mealsValue] of Object.entries(day.customMeals)) {
+        const meals = parseTemplateMeals(mealsValue);
+        if (!meals || isBuiltInMealType(mealType)) return null;
+        if (meals.length > 0) customMeals[mealType] = meals;
+      }
+    }
+
+    days.push({
+      dayName: typeof day.dayName === 'string' ? day.dayName : '',
+      breakfast,
+      lunch,
+      dinner,
+      snacks,
+      ...(Object.keys(customMeals).length > 0 && { customMeals }),
+      ...(typeof day.notes === 'string' && day.notes && { notes: day.notes })
+    });
+  }
+  return days;
+}
+
+/**
+ * Validates a template from a request body
+ *
+ * @param input - The request body
+ * @param isUpdate - Whether only the changed fields are sent
+ * @returns An error message, or null if the input is valid
+ */
+export function validateTemplateInput(input: Partial<Record<keyof TemplateInput, unknown>>, isUpdate = false): string | null {
+  const { name, description, category, tags, difficulty, prepTime, servings, estimatedCalories, dietaryTags, isPublic, isOfficial, templateDays } = input;
+  const isStringList = (value: unknown) => Array.isArray(value) && value.length <= 20 && value.every(item => typeof item === 'string');
+
+  if ((!isUpdate || name !== undefined) && (typeof name !== 'string' || !name.trim() || name.length > 100)) {
+    return 'name must be 1 to 100 characters';
+  }
+  if (description !== undefined && (typeof description !== 'string' || description.length > 500)) {
+    return 'description must be at most 500 characters';
+  }
+  if (category !== undefined && !TEMPLATE_CATEGORIES.includes(category as TemplateCategoryType)) {
+    return `category must be one of ${TEMPLATE_CATEGORIES.join(', ')}`;
+  }
+  if (difficulty !== undefined && !TEMPLATE_DIFFICULTIES.includes(difficulty as MealPlanTemplate['difficulty'])) {
+    return `difficulty must be one of ${TEMPLATE_DIFFICULTIES.join(', ')}`;
+  }
+  if ((tags !== undefined && !isStringList(tags)) || (dietaryTags !== undefined && !isStringList(dietaryTags))) {
+    return 'tags and dietaryTags must be lists of at most 20 words';
+  }
+  if (servings !== undefined && (typeof servings !== 'number' || servings < 1 || servings > 50)) {
+    return 'servings must be between 1 and 50';
+  }
+  if ([prepTime, estimatedCalories].some(value => value !== undefined && (typeof value !== 'number' || value < 0))) {
+    return 'prepTime and estimatedCalories must be positive numbers';
+  }
+  if ([isPublic, isOfficial].some(value => value !== undefined && typeof value !== 'boolean')) {
+    return 'isPublic and isOfficial must be true or false';
+  }
+  if (templateDays !== undefined && !parseTemplateDays(templateDays)) {
+    return `templateDays must list 1 to ${MAX_MEAL_PLAN_DAYS} days of meals with a recipeName and positive servings`;
+  }
+  return null;
+}
+
 export const DEFAULT_TEMPLATES: Partial<MealPlanTemplate>[] = [
   {
     name: "Quick & Easy Week",
@@ -5,6 +5,8 @@
  * in both client and server components without Mongoose dependencies.
  */
 
+import type { BuiltInMealType } from '@/utils/mealTypes';
+
 // ========================================
 // TypeScript Interfaces
 // ========================================
@@ -53,22 +55,30 @@ export interface MealSlot {
   ingredients?: RecipeIngredient[]; // Direct ingredients list
   tags?: string[]; // Optional tags used in UI
   planId?: string; // Optional plan reference used in UI
+  cookedAt?: Date | string; // Set once the meal has been cooked
+  attendees?: string[]; // Ids of the household members eating this meal; servings follow their portions
+
+  // Batch cooking: the source meal is cooked for all servings, its leftovers share the batchId
+  batchId?: string; // Links a batch-cooked meal to its leftovers
+  leftoverServings?: number; // Source only: servings eaten per meal, the rest becomes leftovers
+  leftoverMealType?: BuiltInMealType; // Source only: meal type the leftovers are placed in
+  isLeftover?: boolean; // Eaten from an earlier batch: nothing to cook or buy
 }
 
 /**
  * Extended meal slot for planning operations
  */
 export interface MealPlanningSlot extends MealSlot {
-  dayOfWeek?: number; // Day index (0-6) for weekly planning
-  mealType?: 'breakfast' | 'lunch' | 'dinner' | 'snacks'; // Meal type
+  dayOfWeek?: number; // Index of the day in its meal plan
+  mealType?: MealType; // Meal type
   tags?: string[]; // Recipe tags
-  targetDate?: Date; // Target date when adding from monthly calendar
+  targetDate?: Date; // Target date when adding outside the weekly calendar (today and monthly views)
 }
 
 /**
- * Meal type enum for type safety
+ * A built-in meal type or the id of one of the user's own (see `@/utils/mealTypes`)
  */
-export type MealType = 'breakfast' | 'lunch' | 'dinner' | 'snacks';
+export type MealType = string;
 
 /**
  * Drag and drop item type for react-dnd
@@ -89,97 +99,176 @@ export interface DayMeals {
   lunch: MealSlot[];
   dinner: MealSlot[];
   snacks: MealSlot[];
+  customMeals?: Record<string, MealSlot[]>; // Meals of the user's own meal types, by type id
   dailyNotes?: string; // Notes for the entire day
 }
 
 /**
- * Complete meal plan for a week
+ * Complete meal plan for a range of days (a week, a 4-day holiday, a 14-day rotation, a month)
  */
 export interface IMealPlan {
   _id?: string; // MongoDB ObjectId as string
   userId: string;
-  weekStartDate: Date; // Monday of the week
-  weekEndDate: Date; // Sunday of the week
+  startDate: Date; // First day of the plan
+  endDate: Date; // Last day of the plan (inclusive)
   title?: string; // User-defined name for the meal plan
-  days: DayMeals[]; // 7 days of meals
+  days: DayMeals[]; // One entry per day from startDate to endDate
   totalCalories?: number; // Calculated total (optional)
   shoppingListGenerated?: boolean; // Has shopping list been created
-  isTemplate?: boolean; // Can be used as a template for future weeks
+  isTemplate?: boolean; // Can be used as a template for future plans
   tags?: string[]; // User tags for organization
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * First day of the week: Sunday, Monday or Saturday (`UserSettings.mealPlanning.weekStartsOn`)
+ */
+export type WeekStartsOn = 0 | 1 | 6;
+
+export const DEFAULT_WEEK_STARTS_ON: WeekStartsOn = 1;
+export const MAX_MEAL_PLAN_DAYS = 31;
+
 // ========================================
 // Utility Functions
 // ========================================
 
 /**
- * Get the start of the week (Monday) for any given date
+ * Get the start of the week for any given date
  * Timezone-safe version that doesn't modify the original date
  */
-export function getWeekStartDate(date: Date): Date {
+export function getWeekStartDate(date: Date, weekStartsOn: WeekStartsOn = DEFAULT_WEEK_STARTS_ON): Date {
   const d = new Date(date.getFullYear(), date.getMonth(), date.getDate()); // Create new date without time
-  const day = d.getDay();
-  const diff = d.getDate() - day + (day === 0 ? -6 : 1); // Adjust when day is Sunday
-  d.setDate(diff);
+  const daysSinceWeekStart = (d.getDay() - weekStartsOn + 7) % 7;
+  d.setDate(d.getDate() - daysSinceWeekStart);
   d.setHours(0, 0, 0, 0); // Ensure time is set to start of day
   return d;
 }
 
 /**
- * Get all dates in a week starting from a given Monday
+ * Get the date a number of days after a given date, at the start of the day
+ */
+export function addDaysToDate(date: Date, days: number): Date {
+  const result = new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+  result.setHours(0, 0, 0, 0);
+  return result;
+}
+
+/**
+ * Count the days from startDate to endDate, both included
+ */
+export function countDaysInRange(startDate: Date, endDate: Date): number {
+  const start = addDaysToDate(startDate, 0);
+  const end = addDaysToDate(endDate, 0);
+  return Math.round((end.getTime() - start.getTime()) / (24 * 60 * 60 * 1000)) + 1;
+}
+
+/**
+ * Get all dates from startDate to endDate, both included
  * Timezone-safe version that creates proper local dates
  */
+export function getDatesInRange(startDate: Date, endDate: Date): Date[] {
+  const dayCount = countDaysInRange(startDate, endDate);
+  return Array.from({ length: Math.max(dayCount, 0) }, (_, index) => addDaysToDate(startDate, index));
+}
+
+/**
+ * Get all dates in a week starting from a given date
+ */
 export function getWeekDates(weekStartDate: Date): Date[] {
-  const dates: Date[] = [];
-  for (let i = 0; i < 7; i++) {
-    // Create new date based on year, month, day to avoid timezone issues
-    const date = new Date(
-      weekStartDate.getFullYear(),
-      weekStartDate.getMonth(), 
-      weekStartDate.getDate() + i
-    );
-    date.setHours(0, 0, 0, 0); // Ensure time is set to start of day
-    dates.push(date);
-  }
-  return dates;
+  return getDatesInRange(weekStartDate, addDaysToDate(weekStartDate, 6));
 }
 
 /**
- * Format week range for display
+ * Format a date range for display
  */
-export function formatWeekRange(weekStartDate: Date): string {
-  const weekEndDate = new Date(weekStartDate.getTime() + (6 * 24 * 60 * 60 * 1000));
+export function formatDateRange(startDate: Date, endDate: Date): string {
   const options: Intl.DateTimeFormatOptions = { 
     month: 'short', 
     day: 'numeric' 
   };
-  const startStr = weekStartDate.toLocaleDateString('en-US', options);
-  const endStr = weekEndDate.toLocaleDateString('en-US', options);
-  return `${startStr} - ${endStr}`;
+  const startStr = startDate.toLocaleDateString('en-US', options);
+  const endStr = endDate.toLocaleDateString('en-US', options);
+  return startStr === endStr ? startStr : `${startStr} - ${endStr}`;
 }
 
 /**
- * Get the current week's start date (Monday)
+ * Format week range for display
  */
-export function getCurrentWeekStart(): Date {
-  return getWeekStartDate(new Date());
+export function formatWeekRange(weekStartDate: Date): string {
+  return formatDateRange(weekStartDate, addDaysToDate(weekStartDate, 6));
 }
 
 /**
- * Create an empty meal plan structure for a given week
+ * Get the current week's start date
  */
-export function createEmptyMealPlan(userId: string, weekStartDate: Date): IMealPlan {
-  const weekEndDate = new Date(weekStartDate.getTime() + (6 * 24 * 60 * 60 * 1000));
-  const weekDates = getWeekDates(weekStartDate);
+export function getCurrentWeekStart(weekStartsOn: WeekStartsOn = DEFAULT_WEEK_STARTS_ON): Date {
+  return getWeekStartDate(new Date(), weekStartsOn);
+}
+
+/**
+ * Format a date as yyyy-MM-dd in local time
+ */
+export function toDateKey(date: Date): string {
+  const d = new Date(date);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Read a date sent by a client: yyyy-MM-dd is a local date, anything else is parsed as is
+ * @returns The date, or null if it is not a valid date
+ */
+export function parseDateInput(value: unknown): Date | null {
+  if (typeof value !== 'string' && !(value instanceof Date)) return null;
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const [year, month, day] = value.split('-').map(Number);
+    return new Date(year, month - 1, day);
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Key a meal plan by its first day, e.g. in a map of loaded plans
+ */
+export function getMealPlanKey(mealPlan: Pick<IMealPlan, 'startDate'>): string {
+  return toDateKey(new Date(mealPlan.startDate));
+}
+
+/**
+ * Check whether a date falls inside a meal plan's range
+ */
+export function isDateInMealPlan(mealPlan: Pick<IMealPlan, 'startDate' | 'endDate'>, date: Date): boolean {
+  const key = toDateKey(date);
+  return key >= toDateKey(new Date(mealPlan.startDate)) && key <= toDateKey(new Date(mealPlan.endDate));
+}
+
+/**
+ * Find the meal plan whose range contains a date
+ * When plans overlap (a holiday plan inside a week), the one starting last wins.
+ */
+export function findMealPlanForDate<T extends Pick<IMealPlan, 'startDate' | 'endDate'>>(mealPlans: Iterable<T>, date: Date): T | undefined {
+  let found: T | undefined;
+  for (const mealPlan of mealPlans) {
+    if (!isDateInMealPlan(mealPlan, date)) continue;
+    if (!found || new Date(mealPlan.startDate).getTime() > new Date(found.startDate).getTime()) found = mealPlan;
+  }
+  return found;
+}
+
+/**
+ * Create an empty meal plan structure for a range of days (a week by default)
+ */
+export function createEmptyMealPlan(userId: string, startDate: Date, endDate: Date = addDaysToDate(startDate, 6)): IMealPlan {
+  const dates = getDatesInRange(startDate, endDate);
+  const isWeek = dates.length === 7;
   
   return {
     userId,
-    weekStartDate,
-    weekEndDate,
-    title: `Week of ${weekStartDate.toLocaleDateString()}`,
-    days: weekDates.map(date => ({
+    startDate: dates[0],
+    endDate: dates[dates.length - 1],
+    title: isWeek ? `Week of ${dates[0].toLocaleDateString()}` : `Meal Plan ${formatDateRange(dates[0], dates[dates.length - 1])}`,
+    days: dates.map(date => ({
       date,
       breakfast: [],
       lunch: [],
@@ -194,16 +283,18 @@ export function createEmptyMealPlan(userId: string, weekStartDate: Date): IMealP
   };
 }
 
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
 /**
- * Get day names for the week
+ * Get day names for the week, starting on the user's first day of the week
  */
-export function getDayNames(): string[] {
-  return ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+export function getDayNames(weekStartsOn: WeekStartsOn = DEFAULT_WEEK_STARTS_ON): string[] {
+  return [...DAY_NAMES.slice(weekStartsOn), ...DAY_NAMES.slice(0, weekStartsOn)];
 }
 
 /**
  * Get abbreviated day names
  */
-export function getShortDayNames(): string[] {
-  return ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
-}
\ No newline at end of file
+export function getShortDayNames(weekStartsOn: WeekStartsOn = DEFAULT_WEEK_STARTS_ON): string[] {
+  return getDayNames(weekStartsOn).map(name => name.slice(0, 3));
+}
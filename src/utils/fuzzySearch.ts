@@ -1,89 +1,189 @@
+/**
+ * Fuzzy Recipe Search
+ *
+ * Typo tolerance and synonyms for the recipe search index:
+ * - A query word may be one or two edits away (Damerau-Levenshtein) from a
+ *   word of a recipe, depending on the query word's length
+ * - German and English names of a food find each other through the synonym
+ *   groups in src/lib/searchSynonyms.json, e.g. "Kartoffel" ↔ potato
+ * When nothing matches, suggestSearchQuery() replaces the unknown words with
+ * the closest ones the recipes do use ("did you mean").
+ */
+
 import type { Recipe } from '@/types/recipe';
+import synonymData from '@/lib/searchSynonyms.json';
 
-// Simplified and precise Fuzzy Search for Title + Ingredients
-export const fuzzySearchRecipes = (recipes: Recipe[], searchQuery: string): Recipe[] => {
-  console.log('🔍 Fuzzy Search started:', { 
-    recipesCount: recipes.length, 
-    searchQuery: `"${searchQuery}"` 
-  });
+// Words left out of queries, in English and German
+const QUERY_STOP_WORDS = new Set([
+  'and', 'with', 'the', 'of', 'in', 'or', 'a', 'an', 'mit', 'und', 'oder', 'der', 'die', 'das', 'ein', 'eine', 'im', 'von',
+]);
 
-  if (!searchQuery || searchQuery.trim().length === 0) {
-    console.log('✅ Empty query, returning all recipes:', recipes.length);
-    return recipes;
-  }
-  
-  const query = searchQuery.toLowerCase().trim();
-  console.log('🔍 Normalized query:', `"${query}"`);
-  
-  // Simple but effective typo corrections - Array-based
-  const commonMisspellings: { [key: string]: string[] } = {
-    'pasta': ['pata', 'past', 'pasta'],
-    'pepper': ['pep', 'peppe', 'peppr', 'peper'],
-    'chicken': ['chiken', 'chicen', 'chikken', 'chicken'],
-    'tomato': ['tomate', 'tomatoe', 'tomatos', 'tomato'],
-    'potato': ['potatoe', 'kartoffel', 'kartoffeln', 'potato'],
-    'cheese': ['chese', 'ches', 'käse', 'cheese'],
-    'mushroom': ['mushrom', 'pilz', 'pilze', 'mushroom'],
-    'salmon': ['salomon', 'lachs', 'salmon'],
-    'beef': ['beaf', 'bef', 'rindfleisch', 'beef'],
-    'pork': ['prok', 'schwein', 'schweinefleisch', 'pork'],
-    'soup': ['sope', 'supe', 'soupe', 'suppe', 'soup'],
-  };
-
-  // Find the correct word if typo detected
-  let correctedQuery = query;
-  for (const [correct, variants] of Object.entries(commonMisspellings)) {
-    if (variants.includes(query)) {
-      correctedQuery = correct;
-      console.log(`🔧 Typo corrected: "${query}" → "${correctedQuery}"`);
-      break;
+/**
+ * Lowercases a word and drops its accents, so "Hähnchen" and "hahnchen" are the same
+ */
+export function normalizeSearchWord(word: string): string {
+  return word
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/ß/g, 'ss')
+    .trim();
+}
+
+/**
+ * Splits text into normalized words, without stop words
+ */
+export function splitSearchWords(text: string): string[] {
+  return normalizeSearchWord(text)
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 1 && !QUERY_STOP_WORDS.has(word));
+}
+
+// Every word of a synonym group, mapped to the whole group
+const SYNONYMS = new Map<string, string[]>();
+synonymData.groups.forEach(group => {
+  const words = Array.from(new Set(group.map(normalizeSearchWord)));
+  words.forEach(word => SYNONYMS.set(word, words));
+});
+
+/**
+ * Finds the words that mean the same as a word
+ * @param word - A normalized word
+ * @returns The word and its synonyms
+ */
+export function getSearchSynonyms(word: string): string[] {
+  return SYNONYMS.get(word) || [word];
+}
+
+/**
+ * Counts the insertions, deletions, substitutions and swaps of neighbouring
+ * letters that turn one word into the other (optimal string alignment)
+ */
+export function getEditDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
     }
+    beforePrevious = previous;
+    previous = current;
   }
 
-  const results = recipes.filter((recipe) => {
-    const title = recipe.title.toLowerCase();
-    const ingredients = recipe.extendedIngredients || [];
-    
-    // ONLY use correctedQuery if there was actually a correction
-    const searchTerm = correctedQuery !== query ? correctedQuery : query;
-    
-    // 1. Exact match in title (highest priority)
-    if (title.includes(searchTerm)) {
-      console.log(`✅ Title match: "${searchTerm}" in "${recipe.title}"`);
-      return true;
+  return previous[b.length];
+}
+
+/**
+ * How many typos a query word may have: none up to 3 letters, one up to 6, two beyond
+ */
+function getMaxEdits(word: string): number {
+  if (word.length <= 3) return 0;
+  return word.length <= 6 ? 1 : 2;
+}
+
+/**
+ * Checks a query word against a word of a recipe, allowing for typos
+ * The recipe word may go on after the query word, so "chiken" matches "chickens".
+ */
+function isFuzzyMatch(queryWord: string, recipeWord: string): boolean {
+  const maxEdits = getMaxEdits(queryWord);
+  if (maxEdits === 0 || recipeWord.length < queryWord.length - maxEdits) return false;
+
+  return getEditDistance(queryWord, recipeWord) <= maxEdits
+    || (recipeWord.length > queryWord.length + 1
+      && getEditDistance(queryWord, recipeWord.slice(0, queryWord.length + 1)) <= maxEdits);
+}
+
+/**
+ * Checks whether a recipe word contains a query word
+ * Short words only match at the start, so "rice" does not find "price".
+ */
+function containsWord(recipeWord: string, queryWord: string): boolean {
+  return recipeWord.startsWith(queryWord) || (queryWord.length >= 5 && recipeWord.includes(queryWord));
+}
+
+/**
+ * Finds the known words a query word may be a typo of
+ *
+ * @param queryWord - A normalized query word
+ * @param vocabulary - Known words with how often they occur
+ * @param limit - How many words to return at most
+ * @returns The closest words, the most common first among equally close ones
+ */
+export function findFuzzyWords(queryWord: string, vocabulary: Map<string, number>, limit: number): string[] {
+  const matches: { word: string; distance: number; count: number }[] = [];
+  for (const [word, count] of vocabulary) {
+    if (word === queryWord || !isFuzzyMatch(queryWord, word)) continue;
+    const distance = Math.min(getEditDistance(queryWord, word), getEditDistance(queryWord, word.slice(0, queryWord.length + 1)));
+    matches.push({ word, distance, count });
+  }
+  return matches
+    .sort((a, b) => a.distance - b.distance || b.count - a.count)
+    .slice(0, limit)
+    .map(match => match.word);
+}
+
+/**
+ * Proposes a query that would find something ("did you mean")
+ *
+ * Each word that no known word contains, itself or as a synonym, is
+ * replaced with the closest known word; of equally close words the most
+ * common one wins.
+ *
+ * @param query - The query that found nothing
+ * @param vocabulary - Words that can be found, with how often they occur
+ * @returns The corrected query, or null when no word could be corrected
+ */
+export function suggestSearchQuery(query: string, vocabulary: Map<string, number>): string | null {
+  let corrected = false;
+
+  const words = splitSearchWords(query).map(word => {
+    const variants = getSearchSynonyms(word);
+    if (variants.some(variant => vocabulary.has(variant))) return word;
+    for (const known of vocabulary.keys()) {
+      if (variants.some(variant => containsWord(known, variant))) return word;
     }
-    
-    // 2. Exact match in ingredients
-    const ingredientMatch = ingredients.some(ingredient => {
-      const ingredientName = (ingredient.name || ingredient.originalName || '').toLowerCase();
-      if (ingredientName.includes(searchTerm)) {
-        console.log(`✅ Ingredient match: "${searchTerm}" in "${ingredientName}" for "${recipe.title}"`);
-        return true;
+
+    const maxDistance = getMaxEdits(word) + 1;
+    let closest: { word: string; distance: number; count: number } | null = null;
+    for (const [candidate, count] of vocabulary) {
+      if (Math.abs(candidate.length - word.length) > maxDistance) continue;
+      const distance = getEditDistance(word, candidate);
+      if (distance > maxDistance) continue;
+      if (!closest || distance < closest.distance || (distance === closest.distance && count > closest.count)) {
+        closest = { word: candidate, distance, count };
       }
-      return false;
-    });
-    
-    if (ingredientMatch) return true;
-    
-    // 3. NO Fuzzy-Matches anymore - only exact search
-    return false;
+    }
+
+    if (!closest) return word;
+    corrected = true;
+    return closest.word;
   });
-  
-  console.log(`🎯 Final results: ${results.length} von ${recipes.length} recipes found`);
-  return results;
-};
+
+  return corrected ? words.join(' ') : null;
+}
 
 // Difficulty Filter
 export const filterRecipesByDifficulty = (recipes: Recipe[], difficulty: string): Recipe[] => {
   if (!difficulty) return recipes;
-  
+
   return recipes.filter((recipe) => {
     const cookTime = recipe.readyInMinutes || 0;
-    
+
     if (difficulty === 'easy') return cookTime <= 15; // Easy: up to 15 minutes
     if (difficulty === 'medium') return cookTime > 15 && cookTime < 35; // Medium: 16-34 minutes
     if (difficulty === 'hard') return cookTime >= 35; // Hard: 35+ minutes
-    
+
     return true;
   });
-};
\ No newline at end of file
+};
@@ -0,0 +1,163 @@
+/**
+ * Grocery Cost Estimator
+ *
+ * Estimates what a grocery list will cost from the price catalogue.
+ * Catalogue prices are per unit (e.g. per kg, per l or per piece) and may
+ * differ per store; the cheapest of the user's preferred stores is used,
+ * falling back to the catalogue's default price.
+ *
+ * Items that cannot be priced (no catalogue entry, or a unit that cannot be
+ * converted, e.g. "1 can") are reported so the UI can say the estimate is partial.
+ */
+
+import { convertQuantity, normalizeIngredientName, type GroceryItem } from '@/utils/groceryListHelper';
+
+/**
+ * A catalogue price for one ingredient
+ */
+export interface IngredientPriceEntry {
+  name: string;
+  unit: string; // Unit the prices refer to ('' = per piece)
+  price: number; // Default price per unit
+  storePrices?: Record<string, number>; // Price per unit by store name
+}
+
+export interface ItemCostEstimate {
+  name: string;
+  cost: number;
+  store?: string; // Store the price was taken from, if not the default
+}
+
+export interface GroceryCostEstimate {
+  total: number;
+  items: ItemCostEstimate[];
+  unpricedItems: string[]; // Names of items without a usable price
+}
+
+export type BudgetStatus = 'under' | 'near' | 'over';
+
+// Share of the budget from which the estimate is shown as "near"
+const NEAR_BUDGET_RATIO = 0.9;
+
+/**
+ * Rounds an amount of money to cents
+ */
+export function roundPrice(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Formats an amount of money for display
+ */
+export function formatPrice(amount: number, currency = 'EUR'): string {
+  return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+}
+
+/**
+ * Finds the catalogue entry for an ingredient by the longest matching name
+ * ("cherry tomato" falls back to "tomato", "tomato paste" does not match "paste")
+ */
+export function findPriceEntry<T extends IngredientPriceEntry>(catalogue: T[], name: string): T | undefined {
+  const nameKey = normalizeIngredientName(name);
+  let best: T | undefined;
+  let bestLength = 0;
+
+  for (const entry of catalogue) {
+    const entryKey = normalizeIngredientName(entry.name);
+    const matches = nameKey === entryKey || nameKey.endsWith(` ${entryKey}`);
+    if (matches && entryKey.length > bestLength) {
+      best = entry;
+      bestLength = entryKey.length;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Picks the unit price to use: the cheapest preferred store, else the default
+ */
+export function resolveUnitPrice(entry: IngredientPriceEntry, preferredStores: string[] = []): { price: number; store?: string } {
+  const wanted = new Set(preferredStores.map(store => store.trim().toLowerCase()));
+  let result: { price: number; store?: string } = { price: entry.price };
+
+  for (const [store, price] of Object.entries(entry.storePrices || {})) {
+    if (!wanted.has(store.toLowerCase())) continue;
+    if (result.store === undefined || price < result.price) {
+      result = { price, store };
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Estimates the cost of a single item
+ * @returns The estimate, or null if the item cannot be priced
+ */
+export function estimateItemCost(
+  item: Pick<GroceryItem, 'name' | 'quantity' | 'unit'>,
+  catalogue: IngredientPriceEntry[],
+  preferredStores: string[] = []
+): ItemCostEstimate | null {
+  const entry = findPriceEntry(catalogue, item.name);
+  if (!entry) return null;
+
+  const quantity = convertQuantity(item.quantity, item.unit, entry.unit, normalizeIngredientName(item.name));
+  if (quantity === null) return null;
+
+  const { price, store } = resolveUnitPrice(entry, preferredStores);
+  return { name: item.name, cost: roundPrice(quantity * price), ...(store && { store }) };
+}
+
+/**
+ * Estimates the total cost of a list of items
+ *
+ * @param items - Grocery items (quantities as on the list)
+ * @param catalogue - Price catalogue
+ * @param preferredStores - The user's preferred stores (`shopping.preferredStores`)
+ * @returns Total, per-item costs and the items that could not be priced
+ */
+export function estimateGroceryCost(
+  items: Array<Pick<GroceryItem, 'name' | 'quantity' | 'unit'>>,
+  catalogue: IngredientPriceEntry[],
+  preferredStores: string[] = []
+): GroceryCostEstimate {
+  const estimates: ItemCostEstimate[] = [];
+  const unpricedItems: string[] = [];
+
+  for (const item of items) {
+    const estimate = estimateItemCost(item, catalogue, preferredStores);
+    if (estimate) {
+      estimates.push(estimate);
+    } else {
+      unpricedItems.push(item.name);
+    }
+  }
+
+  return {
+    total: roundPrice(estimates.reduce((sum, estimate) => sum + estimate.cost, 0)),
+    items: estimates,
+    unpricedItems,
+  };
+}
+
+/**
+ * Scales the weekly budget to a number of days, e.g. a 10-day plan gets 10/7 of it
+ * @returns null when no budget is set
+ */
+export function getBudgetForDays(budgetPerWeek: number | undefined, days: number): number | null {
+  if (!budgetPerWeek || budgetPerWeek <= 0 || days <= 0) return null;
+  return roundPrice(budgetPerWeek * days / 7);
+}
+
+/**
+ * Compares an amount with a budget (see `getBudgetForDays` for plans that are not one week long)
+ * @returns null when no budget is set
+ */
+export function getBudgetStatus(amount: number, budget?: number): BudgetStatus | null {
+  if (!budget || budget <= 0) return null;
+  if (amount > budget) return 'over';
+  if (amount >= budget * NEAR_BUDGET_RATIO) return 'near';
+  return 'under';
+}
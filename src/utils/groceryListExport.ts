@@ -0,0 +1,293 @@
+/**
+ * Grocery List Export
+ *
+ * Turns grocery lists into files and back:
+ * - csv: one row per item (name, quantity, unit, section, checked, recipe_ids)
+ * - md: GitHub-style checklist grouped by store section ("- [x] milk (2 l)")
+ * - txt: compact text for messaging apps, one line per section, open items only
+ * - json: the items as stored
+ *
+ * CSV and Markdown exports can be imported again; imported items are
+ * consolidated like any other grocery items.
+ */
+
+import {
+  mergeGroceryItems,
+  roundQuantity,
+  toGroceryItem,
+  type GroceryItem,
+  type RawGroceryIngredient,
+} from '@/utils/groceryListHelper';
+import { groupItemsBySection } from '@/utils/storeSections';
+
+export type GroceryExportFormat = 'csv' | 'md' | 'txt' | 'json';
+
+export type GroceryImportFormat = 'csv' | 'md';
+
+export const GROCERY_EXPORT_FORMATS: GroceryExportFormat[] = ['csv', 'md', 'txt', 'json'];
+
+export interface GroceryExportOptions {
+  title?: string;
+  sectionOrder?: string[] | null; // User's preferred store section order
+}
+
+export interface GroceryExportFile {
+  content: string;
+  contentType: string;
+  extension: string;
+}
+
+export interface GroceryImportResult {
+  items: GroceryItem[]; // Consolidated items
+  skippedLines: number; // Non-empty lines that were not items (headings excluded)
+}
+
+const CSV_COLUMNS = ['name', 'quantity', 'unit', 'section', 'checked', 'recipe_ids'] as const;
+
+// Excel needs the byte order mark to read UTF-8 (umlauts, ½, ...)
+const BYTE_ORDER_MARK = '\uFEFF';
+
+const CHECKLIST_LINE = /^\s*[-*+]\s+(?:\[([ xX])\]\s+)?(.+?)\s*$/;
+const HEADING_LINE = /^\s*#{1,6}\s+(.+?)\s*$/;
+const AMOUNT = /^(\d+\/\d+|\d+(?:[.,]\d+)?)\s*(.*)$/;
+
+/**
+ * Formats a quantity with its unit ("2 l", "3")
+ */
+function formatAmount(item: Pick<GroceryItem, 'quantity' | 'unit'>): string {
+  return [roundQuantity(item.quantity), item.unit].filter(Boolean).join(' ');
+}
+
+/**
+ * Quotes a CSV field if needed
+ */
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Splits CSV content into rows of fields (supports quoted fields with commas,
+ * quotes and line breaks)
+ */
+function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Parses "2", "1.5", "1,5" or "1/2"
+ */
+function parseQuantity(value: string): number {
+  if (value.includes('/')) {
+    const [numerator, denominator] = value.split('/').map(Number);
+    return denominator ? numerator / denominator : NaN;
+  }
+  return parseFloat(value.replace(',', '.'));
+}
+
+/**
+ * Splits "milk (2 l)" into name, quantity and unit
+ */
+function parseItemText(text: string): RawGroceryIngredient {
+  const match = text.match(/^(.+?)\s*\(([^()]*)\)$/);
+  const amount = match?.[2].trim().match(AMOUNT);
+  if (!match || !amount) {
+    return { name: text, quantity: 1, unit: '' };
+  }
+  return { name: match[1], quantity: parseQuantity(amount[1]), unit: amount[2].trim() };
+}
+
+/**
+ * Exports items as CSV
+ */
+export function toGroceryCsv(items: GroceryItem[]): string {
+  const rows = items.map(item => [
+    item.name,
+    String(roundQuantity(item.quantity)),
+    item.unit,
+    item.section || '',
+    item.checked ? 'true' : 'false',
+    (item.recipeIds || []).join(';'),
+  ].map(escapeCsvField).join(','));
+
+  return BYTE_ORDER_MARK + [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+/**
+ * Exports items as a Markdown checklist grouped by store section
+ */
+export function toGroceryMarkdown(items: GroceryItem[], options: GroceryExportOptions = {}): string {
+  const lines = [`# ${options.title || 'Grocery List'}`];
+
+  for (const { section, items: sectionItems } of groupItemsBySection(items, options.sectionOrder)) {
+    lines.push('', `## ${section}`, '');
+    for (const { item } of sectionItems) {
+      lines.push(`- [${item.checked ? 'x' : ' '}] ${item.name} (${formatAmount(item)})`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Exports the items still to buy as compact text for messaging apps
+ */
+export function toGroceryPlainText(items: GroceryItem[], options: GroceryExportOptions = {}): string {
+  const openItems = items.filter(item => !item.checked);
+  const lines = [`${options.title || 'Grocery List'} (${openItems.length} items)`, ''];
+
+  for (const { section, items: sectionItems } of groupItemsBySection(openItems, options.sectionOrder)) {
+    lines.push(`${section}: ${sectionItems.map(({ item }) => `${formatAmount(item)} ${item.name}`).join(', ')}`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Exports a grocery list in the given format
+ *
+ * @param items - The list's items
+ * @param format - csv, md, txt or json
+ * @param options - Title and section order
+ * @returns The file content with its content type and extension
+ */
+export function exportGroceryList(
+  items: GroceryItem[],
+  format: GroceryExportFormat,
+  options: GroceryExportOptions = {}
+): GroceryExportFile {
+  switch (format) {
+    case 'csv':
+      return { content: toGroceryCsv(items), contentType: 'text/csv; charset=utf-8', extension: 'csv' };
+    case 'md':
+      return { content: toGroceryMarkdown(items, options), contentType: 'text/markdown; charset=utf-8', extension: 'md' };
+    case 'txt':
+      return { content: toGroceryPlainText(items, options), contentType: 'text/plain; charset=utf-8', extension: 'txt' };
+    case 'json':
+      return {
+        content: JSON.stringify({ title: options.title || 'Grocery List', items }, null, 2),
+        contentType: 'application/json; charset=utf-8',
+        extension: 'json',
+      };
+  }
+}
+
+/**
+ * Reads a CSV export back into grocery items. Only the name column is required.
+ */
+export function parseGroceryCsv(content: string): GroceryImportResult {
+  const [header = [], ...rows] = parseCsvRows(content.replace(BYTE_ORDER_MARK, ''))
+    .filter(row => row.some(field => field.trim()));
+  const columns = header.map(column => column.trim().toLowerCase());
+  const column = (row: string[], name: typeof CSV_COLUMNS[number]) => {
+    const index = columns.indexOf(name);
+    return index === -1 ? '' : (row[index] || '').trim();
+  };
+
+  if (!columns.includes('name')) {
+    return { items: [], skippedLines: rows.length };
+  }
+
+  const raw: RawGroceryIngredient[] = [];
+  for (const row of rows) {
+    const name = column(row, 'name');
+    if (!name) continue;
+    const quantity = parseQuantity(column(row, 'quantity'));
+    raw.push({
+      name,
+      quantity: isNaN(quantity) ? 1 : quantity,
+      unit: column(row, 'unit'),
+      section: column(row, 'section') || undefined,
+      checked: column(row, 'checked').toLowerCase() === 'true',
+      recipeIds: column(row, 'recipe_ids').split(';').map(id => id.trim()).filter(Boolean),
+    });
+  }
+
+  return {
+    items: mergeGroceryItems([], raw.map(ingredient => toGroceryItem(ingredient))),
+    skippedLines: rows.length - raw.length,
+  };
+}
+
+/**
+ * Reads a Markdown checklist back into grocery items. "## Section" headings
+ * set the store section of the items below them.
+ */
+export function parseGroceryMarkdown(content: string): GroceryImportResult {
+  const raw: RawGroceryIngredient[] = [];
+  let section: string | undefined;
+  let skippedLines = 0;
+
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+
+    const heading = line.match(HEADING_LINE);
+    if (heading) {
+      section = heading[1];
+      continue;
+    }
+
+    const item = line.match(CHECKLIST_LINE);
+    if (!item) {
+      skippedLines++;
+      continue;
+    }
+    raw.push({ ...parseItemText(item[2]), checked: item[1]?.toLowerCase() === 'x', section });
+  }
+
+  return { items: mergeGroceryItems([], raw.map(ingredient => toGroceryItem(ingredient))), skippedLines };
+}
+
+/**
+ * Guesses the format of an import: CSV if the first line is a header with a name column
+ */
+export function detectGroceryImportFormat(content: string): GroceryImportFormat {
+  const firstLine = content.replace(BYTE_ORDER_MARK, '').split(/\r?\n/).find(line => line.trim()) || '';
+  return /^"?name"?\s*,/i.test(firstLine.trim()) ? 'csv' : 'md';
+}
+
+/**
+ * Reads a CSV or Markdown export back into grocery items
+ *
+ * @param content - The file content
+ * @param format - The file format; detected from the content when missing
+ */
+export function importGroceryList(content: string, format: GroceryImportFormat = detectGroceryImportFormat(content)): GroceryImportResult {
+  return format === 'csv' ? parseGroceryCsv(content) : parseGroceryMarkdown(content);
+}
@@ -0,0 +1,406 @@
+/**
+ * Grocery List Helper
+ *
+ * Server-side consolidation engine for grocery lists. Incoming ingredients
+ * are normalized (name + unit) and merged with the existing items, so three
+ * recipes that each use onions end up as a single "onion" line.
+ *
+ * Merging rules:
+ * 1. Names are compared by a normalized key (lowercase, singular, Spoonacular `nameClean` when available)
+ * 2. Volume ↔ volume and mass ↔ mass are always convertible
+ * 3. Volume ↔ mass uses a density table for common staples
+ * 4. Pieces ↔ mass uses an average piece weight for common produce
+ * 5. Anything else (e.g. "1 can" vs "200 g") stays on a separate line
+ *
+ * Every item is also classified into a store section (see storeSections.ts).
+ */
+
+import { classifyStoreSection, isStoreSection, type StoreSection } from '@/utils/storeSections';
+
+export type UnitDimension = 'volume' | 'mass' | 'count' | 'other';
+
+/**
+ * A single consolidated grocery list item
+ */
+export interface GroceryItem {
+  name: string;
+  quantity: number;
+  unit: string;
+  checked?: boolean;
+  checkedBy?: string; // Id of the user who checked the item
+  checkedAt?: Date | string;
+  recipeIds?: string[];
+  section?: StoreSection;
+}
+
+/**
+ * Raw ingredient as sent by clients or read from recipe documents
+ */
+export interface RawGroceryIngredient {
+  name?: string;
+  nameClean?: string;
+  original?: string;
+  quantity?: number | string;
+  amount?: number | string;
+  unit?: string;
+  checked?: boolean;
+  recipeId?: string;
+  recipeIds?: string[];
+  aisle?: string; // Spoonacular aisle
+  category?: string; // NormalizedIngredient category (usually the aisle)
+  section?: string;
+}
+
+interface UnitDefinition {
+  canonical: string;
+  dimension: UnitDimension;
+  factor: number; // Factor to the dimension's base unit (ml, g or piece)
+}
+
+const UNIT_ALIASES: Record<string, UnitDefinition> = {
+  // Volume (base: ml)
+  ml: { canonical: 'ml', dimension: 'volume', factor: 1 },
+  milliliter: { canonical: 'ml', dimension: 'volume', factor: 1 },
+  millilitre: { canonical: 'ml', dimension: 'volume', factor: 1 },
+  cl: { canonical: 'cl', dimension: 'volume', factor: 10 },
+  dl: { canonical: 'dl', dimension: 'volume', factor: 100 },
+  l: { canonical: 'l', dimension: 'volume', factor: 1000 },
+  liter: { canonical: 'l', dimension: 'volume', factor: 1000 },
+  litre: { canonical: 'l', dimension: 'volume', factor: 1000 },
+  tsp: { canonical: 'tsp', dimension: 'volume', factor: 4.92892 },
+  teaspoon: { canonical: 'tsp', dimension: 'volume', factor: 4.92892 },
+  tl: { canonical: 'tsp', dimension: 'volume', factor: 4.92892 },
+  tbsp: { canonical: 'tbsp', dimension: 'volume', factor: 14.7868 },
+  tbs: { canonical: 'tbsp', dimension: 'volume', factor: 14.7868 },
+  tablespoon: { canonical: 'tbsp', dimension: 'volume', factor: 14.7868 },
+  el: { canonical: 'tbsp', dimension: 'volume', factor: 14.7868 },
+  cup: { canonical: 'cup', dimension: 'volume', factor: 236.588 },
+  c: { canonical: 'cup', dimension: 'volume', factor: 236.588 },
+  'fl oz': { canonical: 'fl oz', dimension: 'volume', factor: 29.5735 },
+  'fluid ounce': { canonical: 'fl oz', dimension: 'volume', factor: 29.5735 },
+  pint: { canonical: 'pint', dimension: 'volume', factor: 473.176 },
+  pt: { canonical: 'pint', dimension: 'volume', factor: 473.176 },
+  quart: { canonical: 'quart', dimension: 'volume', factor: 946.353 },
+  qt: { canonical: 'quart', dimension: 'volume', factor: 946.353 },
+  gallon: { canonical: 'gallon', dimension: 'volume', factor: 3785.41 },
+  gal: { canonical: 'gallon', dimension: 'volume', factor: 3785.41 },
+  // Mass (base: g)
+  mg: { canonical: 'mg', dimension: 'mass', factor: 0.001 },
+  g: { canonical: 'g', dimension: 'mass', factor: 1 },
+  gr: { canonical: 'g', dimension: 'mass', factor: 1 },
+  gram: { canonical: 'g', dimension: 'mass', factor: 1 },
+  gramm: { canonical: 'g', dimension: 'mass', factor: 1 },
+  kg: { canonical: 'kg', dimension: 'mass', factor: 1000 },
+  kilogram: { canonical: 'kg', dimension: 'mass', factor: 1000 },
+  oz: { canonical: 'oz', dimension: 'mass', factor: 28.3495 },
+  ounce: { canonical: 'oz', dimension: 'mass', factor: 28.3495 },
+  lb: { canonical: 'lb', dimension: 'mass', factor: 453.592 },
+  pound: { canonical: 'lb', dimension: 'mass', factor: 453.592 },
+  // Count (base: piece)
+  '': { canonical: '', dimension: 'count', factor: 1 },
+  whole: { canonical: '', dimension: 'count', factor: 1 },
+  piece: { canonical: '', dimension: 'count', factor: 1 },
+  pc: { canonical: '', dimension: 'count', factor: 1 },
+  pcs: { canonical: '', dimension: 'count', factor: 1 },
+  each: { canonical: '', dimension: 'count', factor: 1 },
+  stück: { canonical: '', dimension: 'count', factor: 1 },
+  stk: { canonical: '', dimension: 'count', factor: 1 },
+  small: { canonical: '', dimension: 'count', factor: 1 },
+  medium: { canonical: '', dimension: 'count', factor: 1 },
+  large: { canonical: '', dimension: 'count', factor: 1 },
+};
+
+/**
+ * Density table (g per ml) for common staples
+ * Keys are normalized ingredient names; the longest matching key wins
+ */
+const DENSITIES: Record<string, number> = {
+  water: 1,
+  milk: 1.03,
+  cream: 1.0,
+  yogurt: 1.03,
+  broth: 1.0,
+  stock: 1.0,
+  oil: 0.92,
+  'olive oil': 0.92,
+  butter: 0.96,
+  honey: 1.42,
+  'maple syrup': 1.32,
+  flour: 0.53,
+  'all purpose flour': 0.53,
+  sugar: 0.85,
+  'brown sugar': 0.93,
+  'powdered sugar': 0.5,
+  salt: 1.2,
+  rice: 0.85,
+  oat: 0.34,
+  'rolled oat': 0.34,
+  'cocoa powder': 0.42,
+  'parmesan cheese': 0.42,
+  'cheddar cheese': 0.45,
+  onion: 0.6,
+};
+
+/**
+ * Average weight of one piece (g) for common produce and staples
+ */
+const PIECE_WEIGHTS: Record<string, number> = {
+  egg: 50,
+  onion: 150,
+  'red onion': 150,
+  shallot: 40,
+  tomato: 120,
+  potato: 170,
+  carrot: 60,
+  lemon: 100,
+  lime: 65,
+  apple: 180,
+  banana: 120,
+  'bell pepper': 160,
+  avocado: 200,
+  zucchini: 200,
+  cucumber: 300,
+};
+
+const UNIT_PREFERENCE: Record<UnitDimension, number> = {
+  count: 0,
+  mass: 1,
+  volume: 2,
+  other: 3,
+};
+
+const SINGULAR_EXCEPTIONS = new Set([
+  'asparagus', 'couscous', 'hummus', 'molasses', 'swiss', 'grits', 'citrus', 'lettuce', 'cheese',
+]);
+
+const IRREGULAR_PLURALS: Record<string, string> = {
+  leaves: 'leaf',
+  loaves: 'loaf',
+  halves: 'half',
+  knives: 'knife',
+};
+
+const UNICODE_FRACTIONS: Record<string, string> = {
+  '½': '1/2', '⅓': '1/3', '⅔': '2/3', '¼': '1/4', '¾': '3/4', '⅕': '1/5', '⅖': '2/5', '⅗': '3/5', '⅘': '4/5',
+  '⅙': '1/6', '⅚': '5/6', '⅛': '1/8', '⅜': '3/8', '⅝': '5/8', '⅞': '7/8',
+};
+
+// Mixed numbers and fractions first, so "1/2" is not read as 1
+const AMOUNT_PATTERN = /^(?:(\d+)\s+)?(\d+)\/(\d+)|^(\d+(?:[.,]\d+)?)/;
+
+/**
+ * Reduces a single English word to its singular form
+ */
+function singularize(word: string): string {
+  if (word.length <= 3 || SINGULAR_EXCEPTIONS.has(word)) return word;
+  if (IRREGULAR_PLURALS[word]) return IRREGULAR_PLURALS[word];
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.endsWith('oes')) return word.slice(0, -2);
+  if (/(ches|shes|xes|sses)$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s') && !/(ss|us|is)$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Builds the key used to decide whether two ingredients are "the same item"
+ * @param name - Display name of the ingredient
+ * @param nameClean - Optional Spoonacular `nameClean`, preferred when present
+ */
+export function normalizeIngredientName(name: string, nameClean?: string): string {
+  const source = (nameClean || name || '').toLowerCase();
+  return source
+    .replace(/\(.*?\)/g, ' ')
+    .replace(/[^a-z0-9äöüß\s-]/g, ' ')
+    .replace(/-/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(singularize)
+    .join(' ');
+}
+
+/**
+ * Builds the key that identifies an item on a list (name + canonical unit),
+ * used to address items in list operations
+ */
+export function groceryItemKey(item: { name: string; unit?: string }): string {
+  return `${normalizeIngredientName(item.name)}|${resolveUnit(item.unit).canonical}`;
+}
+
+/**
+ * Resolves a unit string (any alias, plural, casing) to its definition
+ * Unknown units are treated as their own "other" dimension
+ */
+export function resolveUnit(unit?: string): UnitDefinition {
+  const raw = (unit || '').trim();
+  // German EL/TL and US T/t are case-sensitive abbreviations
+  if (raw === 'T') return UNIT_ALIASES.tbsp;
+  if (raw === 't') return UNIT_ALIASES.tsp;
+
+  const key = raw.toLowerCase().replace(/\.$/, '');
+  const candidates = [key, key.replace(/s$/, ''), key.replace(/es$/, '')];
+  for (const candidate of candidates) {
+    if (UNIT_ALIASES[candidate]) return UNIT_ALIASES[candidate];
+  }
+  return { canonical: singularize(key), dimension: 'other', factor: 1 };
+}
+
+/**
+ * Looks up a per-ingredient conversion value by the longest matching key
+ */
+function lookupByName(table: Record<string, number>, nameKey: string): number | undefined {
+  const keys = Object.keys(table).sort((a, b) => b.length - a.length);
+  const match = keys.find(key => nameKey === key || nameKey.endsWith(` ${key}`) || nameKey.startsWith(`${key} `));
+  return match ? table[match] : undefined;
+}
+
+/**
+ * Converts a quantity of an ingredient from one unit to another
+ * @returns The converted quantity, or null if the units are not compatible
+ */
+export function convertQuantity(quantity: number, fromUnit: string, toUnit: string, nameKey: string): number | null {
+  const from = resolveUnit(fromUnit);
+  const to = resolveUnit(toUnit);
+
+  if (from.dimension === 'other' || to.dimension === 'other') {
+    return from.canonical === to.canonical ? quantity : null;
+  }
+
+  const baseAmount = quantity * from.factor;
+  if (from.dimension === to.dimension) {
+    return baseAmount / to.factor;
+  }
+
+  // Cross-dimension conversions go through grams
+  const density = lookupByName(DENSITIES, nameKey);
+  const pieceWeight = lookupByName(PIECE_WEIGHTS, nameKey);
+  const toGrams: Partial<Record<UnitDimension, number | undefined>> = {
+    mass: 1,
+    volume: density,
+    count: pieceWeight,
+  };
+
+  const fromFactor = toGrams[from.dimension];
+  const toFactor = toGrams[to.dimension];
+  if (!fromFactor || !toFactor) return null;
+
+  return (baseAmount * fromFactor) / toFactor / to.factor;
+}
+
+/**
+ * Rounds quantities to something readable on a shopping list
+ */
+export function roundQuantity(quantity: number): number {
+  return Math.round(quantity * 100) / 100;
+}
+
+/**
+ * Writes unicode fractions out: "2½" → "2 1/2"
+ */
+export function expandUnicodeFractions(text: string): string {
+  return text.replace(/(\d)?\s*([½⅓⅔¼¾⅕⅖⅗⅘⅙⅚⅛⅜⅝⅞])/g, (_, whole: string | undefined, glyph: string) =>
+    `${whole ? `${whole} ` : ''}${UNICODE_FRACTIONS[glyph]}`);
+}
+
+/**
+ * Reads the amount at the start of a text: "2", "1,5", "1/2", "1 1/2" or "½"
+ * @returns The amount, or null when the text does not start with a valid one
+ */
+export function parseIngredientAmount(text: string): number | null {
+  const match = expandUnicodeFractions(text.trim()).match(AMOUNT_PATTERN);
+  if (!match) return null;
+  if (match[4]) return Number(match[4].replace(',', '.'));
+
+  const denominator = Number(match[3]);
+  return denominator > 0 ? Number(match[1] || 0) + Number(match[2]) / denominator : null;
+}
+
+/**
+ * Turns a raw client/recipe ingredient into a GroceryItem
+ * @param ingredient - Ingredient in any of the supported shapes
+ * @param recipeId - Recipe the ingredient was taken from, if known
+ */
+export function toGroceryItem(ingredient: RawGroceryIngredient, recipeId?: string): GroceryItem {
+  const rawQuantity = ingredient.quantity ?? ingredient.amount;
+  const quantity = typeof rawQuantity === 'number' ? rawQuantity : parseIngredientAmount(rawQuantity || '') ?? NaN;
+  const recipeIds = new Set(ingredient.recipeIds || []);
+  if (ingredient.recipeId) recipeIds.add(ingredient.recipeId);
+  if (recipeId) recipeIds.add(recipeId);
+
+  const name = (ingredient.nameClean || ingredient.name || ingredient.original || 'Unknown ingredient').trim();
+
+  return {
+    name,
+    quantity: isNaN(quantity) ? 1 : quantity,
+    unit: (ingredient.unit || '').trim(),
+    checked: ingredient.checked ?? false,
+    recipeIds: Array.from(recipeIds),
+    section: isStoreSection(ingredient.section)
+      ? ingredient.section
+      : classifyStoreSection(name, ingredient.aisle || ingredient.category),
+  };
+}
+
+/**
+ * Merges incoming items into an existing list
+ * Existing items keep their unit and position; incoming quantities are
+ * converted into that unit. Items that cannot be converted are appended.
+ *
+ * @param existing - Items already on the list
+ * @param incoming - New items to add
+ * @returns A new, consolidated array of items
+ */
+export function mergeGroceryItems(existing: GroceryItem[], incoming: GroceryItem[]): GroceryItem[] {
+  const merged: GroceryItem[] = existing.map(item => ({ ...item, recipeIds: [...(item.recipeIds || [])] }));
+
+  for (const item of incoming) {
+    const nameKey = normalizeIngredientName(item.name);
+    let target: GroceryItem | undefined;
+    let converted: number | null = null;
+
+    for (const candidate of merged) {
+      if (normalizeIngredientName(candidate.name) !== nameKey) continue;
+      converted = convertQuantity(item.quantity, item.unit, candidate.unit, nameKey);
+      if (converted !== null) {
+        target = candidate;
+        break;
+      }
+    }
+
+    if (!target || converted === null) {
+      merged.push({ ...item, recipeIds: [...(item.recipeIds || [])] });
+      continue;
+    }
+
+    // Prefer the unit you actually buy in: pieces over weight over volume
+    const switchedQuantity = UNIT_PREFERENCE[resolveUnit(item.unit).dimension] < UNIT_PREFERENCE[resolveUnit(target.unit).dimension]
+      ? convertQuantity(target.quantity, target.unit, item.unit, nameKey)
+      : null;
+
+    if (switchedQuantity !== null) {
+      target.quantity = roundQuantity(switchedQuantity + item.quantity);
+      target.unit = item.unit;
+    } else {
+      target.quantity = roundQuantity(target.quantity + converted);
+    }
+    // A newly required amount means the item needs to be bought again
+    target.checked = Boolean(target.checked && item.checked);
+    if (!target.checked) {
+      delete target.checkedBy;
+      delete target.checkedAt;
+    }
+    target.recipeIds = Array.from(new Set([...(target.recipeIds || []), ...(item.recipeIds || [])]));
+    target.section = target.section || item.section;
+  }
+
+  return merged;
+}
+
+/**
+ * Consolidates a flat list of raw ingredients into unique grocery items
+ * @param ingredients - Raw ingredients (any supported shape)
+ * @param recipeId - Optional recipe ID applied to every ingredient
+ */
+export function consolidateGroceryItems(ingredients: RawGroceryIngredient[], recipeId?: string): GroceryItem[] {
+  const items = (ingredients || []).map(ingredient => toGroceryItem(ingredient, recipeId));
+  return mergeGroceryItems([], items);
+}
@@ -0,0 +1,171 @@
+/**
+ * Grocery List Operations
+ *
+ * Changes to shared grocery lists are sent as small operations instead of
+ * whole lists. The server applies them to the latest stored version, so two
+ * household members editing at the same time never overwrite each other:
+ * - toggle: sets (not flips) the checked state and records who/when
+ * - add: merges new items via the consolidation engine
+ * - remove: drops an item
+ * - edit: changes an item's name, quantity or unit
+ * - reorder: moves the listed items to the front, in the given order
+ *
+ * Items are addressed by name + unit (see `groceryItemKey`).
+ */
+
+import {
+  consolidateGroceryItems,
+  groceryItemKey,
+  mergeGroceryItems,
+  normalizeIngredientName,
+  type GroceryItem,
+  type RawGroceryIngredient,
+} from '@/utils/groceryListHelper';
+import { classifyStoreSection } from '@/utils/storeSections';
+
+export interface GroceryItemChanges {
+  name?: string;
+  quantity?: number;
+  unit?: string;
+}
+
+export type GroceryListOperation =
+  | { type: 'toggle'; name: string; unit?: string; checked: boolean }
+  | { type: 'add'; items: RawGroceryIngredient[] }
+  | { type: 'remove'; name: string; unit?: string }
+  | { type: 'edit'; name: string; unit?: string; changes: GroceryItemChanges }
+  | { type: 'reorder'; order: Array<{ name: string; unit?: string }> };
+
+export interface GroceryListActor {
+  id: string; // User id stored in `checkedBy`; the name is looked up when shown
+}
+
+/**
+ * Finds the item an operation refers to. Falls back to the name alone when
+ * exactly one item has that name (its unit may have changed in a merge).
+ */
+function findItemIndex(items: GroceryItem[], name: string, unit?: string): number {
+  const key = groceryItemKey({ name, unit });
+  const exactIndex = items.findIndex(item => groceryItemKey(item) === key);
+  if (exactIndex !== -1) return exactIndex;
+
+  const nameKey = normalizeIngredientName(name);
+  const sameName = items
+    .map((item, index) => ({ item, index }))
+    .filter(({ item }) => normalizeIngredientName(item.name) === nameKey);
+  return sameName.length === 1 ? sameName[0].index : -1;
+}
+
+/**
+ * Applies an edit to an item. An item whose new name and unit match another
+ * item is merged into it, so the list never has two lines for the same thing.
+ */
+function applyEdit(items: GroceryItem[], index: number, changes: GroceryItemChanges): GroceryItem[] {
+  const item = items[index];
+  const edited: GroceryItem = {
+    ...item,
+    ...(changes.name !== undefined && { name: changes.name.trim(), section: classifyStoreSection(changes.name) }),
+    ...(changes.quantity !== undefined && { quantity: changes.quantity }),
+    ...(changes.unit !== undefined && { unit: changes.unit.trim() }),
+  };
+
+  const others = items.filter((_, otherIndex) => otherIndex !== index);
+  const duplicateIndex = others.findIndex(other => groceryItemKey(other) === groceryItemKey(edited));
+  if (duplicateIndex === -1) {
+    return items.map((current, currentIndex) => (currentIndex === index ? edited : current));
+  }
+
+  return mergeGroceryItems(others, [edited]);
+}
+
+/**
+ * Moves the listed items to the front in the given order; unlisted items
+ * (e.g. added by someone else meanwhile) keep their order after them
+ */
+function applyReorder(items: GroceryItem[], order: Array<{ name: string; unit?: string }>): GroceryItem[] {
+  const remaining = [...items];
+  const ordered: GroceryItem[] = [];
+
+  for (const { name, unit } of order) {
+    const index = findItemIndex(remaining, name, unit);
+    if (index === -1) continue;
+    ordered.push(...remaining.splice(index, 1));
+  }
+
+  return [...ordered, ...remaining];
+}
+
+/**
+ * Checks that an unknown value is a well-formed operation (for API input)
+ */
+export function isGroceryListOperation(value: unknown): value is GroceryListOperation {
+  const operation = value as GroceryListOperation;
+  if (!operation || typeof operation !== 'object') return false;
+
+  switch (operation.type) {
+    case 'toggle':
+      return typeof operation.name === 'string' && typeof operation.checked === 'boolean';
+    case 'add':
+      return Array.isArray(operation.items);
+    case 'remove':
+      return typeof operation.name === 'string';
+    case 'edit': {
+      const changes = operation.changes;
+      return typeof operation.name === 'string' && !!changes && typeof changes === 'object' &&
+        (changes.name === undefined || (typeof changes.name === 'string' && changes.name.trim() !== '')) &&
+        (changes.quantity === undefined || (typeof changes.quantity === 'number' && changes.quantity > 0)) &&
+        (changes.unit === undefined || typeof changes.unit === 'string');
+    }
+    case 'reorder':
+      return Array.isArray(operation.order) && operation.order.every(entry => typeof entry?.name === 'string');
+    default:
+      return false;
+  }
+}
+
+/**
+ * Applies operations to a list of items
+ *
+ * @param items - Current items (not modified)
+ * @param operations - Operations in the order they were made
+ * @param actor - Who made the changes
+ * @param now - Timestamp recorded for check-offs
+ * @returns The new list of items
+ */
+export function applyGroceryListOperations(
+  items: GroceryItem[],
+  operations: GroceryListOperation[],
+  actor: GroceryListActor,
+  now: Date = new Date()
+): GroceryItem[] {
+  let result = items.map(item => ({ ...item }));
+
+  for (const operation of operations) {
+    if (operation.type === 'add') {
+      result = mergeGroceryItems(result, consolidateGroceryItems(operation.items));
+      continue;
+    }
+    if (operation.type === 'reorder') {
+      result = applyReorder(result, operation.order);
+      continue;
+    }
+
+    const index = findItemIndex(result, operation.name, operation.unit);
+    if (index === -1) continue; // Already removed by someone else
+
+    if (operation.type === 'remove') {
+      result.splice(index, 1);
+    } else if (operation.type === 'edit') {
+      result = applyEdit(result, index, operation.changes);
+    } else if (operation.checked) {
+      result[index] = { ...result[index], checked: true, checkedBy: actor.id, checkedAt: now };
+    } else {
+      const item = { ...result[index], checked: false };
+      delete item.checkedBy;
+      delete item.checkedAt;
+      result[index] = item;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,103 @@
+/**
+ * Grocery Staples
+ *
+ * Schedules for staple items (milk, eggs, bread, ...) that are added to the
+ * active grocery list automatically. A staple is added once per period:
+ * - weekly: once per week (weeks start on the user's `weekStartsOn` day)
+ * - every-n-weeks: once every `intervalWeeks` weeks, counted from the week it was created
+ * - monthly: once per calendar month
+ *
+ * Staples become normal grocery items, so they are consolidated with recipe
+ * ingredients for the same item into one line.
+ */
+
+import { addMonths, addWeeks, differenceInCalendarWeeks, startOfMonth, startOfWeek } from 'date-fns';
+import { toGroceryItem, type GroceryItem } from '@/utils/groceryListHelper';
+
+export type StapleFrequency = 'weekly' | 'every-n-weeks' | 'monthly';
+
+export type WeekStartsOn = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+export const STAPLE_FREQUENCIES: StapleFrequency[] = ['weekly', 'every-n-weeks', 'monthly'];
+
+export const MAX_STAPLE_INTERVAL_WEEKS = 52;
+
+/**
+ * Minimal staple shape shared by the model and the UI
+ */
+export interface StapleSchedule {
+  name: string;
+  quantity: number;
+  unit: string;
+  frequency: StapleFrequency;
+  intervalWeeks?: number; // Only for 'every-n-weeks'
+  createdAt: Date | string; // Anchor for 'every-n-weeks'
+  lastAddedAt?: Date | string; // Date of the period the staple was last added for
+}
+
+/**
+ * Finds the start of the period that contains a date
+ */
+export function getStaplePeriodStart(staple: StapleSchedule, at: Date, weekStartsOn: WeekStartsOn = 1): Date {
+  if (staple.frequency === 'monthly') {
+    return startOfMonth(at);
+  }
+
+  const weekStart = startOfWeek(at, { weekStartsOn });
+  if (staple.frequency === 'weekly') {
+    return weekStart;
+  }
+
+  const interval = staple.intervalWeeks || 1;
+  const anchor = startOfWeek(new Date(staple.createdAt), { weekStartsOn });
+  const weeksSinceAnchor = differenceInCalendarWeeks(weekStart, anchor, { weekStartsOn });
+  return addWeeks(anchor, Math.floor(weeksSinceAnchor / interval) * interval);
+}
+
+/**
+ * Finds the start of the period after the one that contains a date
+ */
+export function getNextStaplePeriodStart(staple: StapleSchedule, at: Date, weekStartsOn: WeekStartsOn = 1): Date {
+  const periodStart = getStaplePeriodStart(staple, at, weekStartsOn);
+  if (staple.frequency === 'monthly') {
+    return addMonths(periodStart, 1);
+  }
+  return addWeeks(periodStart, staple.frequency === 'weekly' ? 1 : staple.intervalWeeks || 1);
+}
+
+/**
+ * Checks whether a staple still has to be added for the period that contains a date
+ */
+export function isStapleDue(staple: StapleSchedule, at: Date, weekStartsOn: WeekStartsOn = 1): boolean {
+  if (!staple.lastAddedAt) return true;
+  return new Date(staple.lastAddedAt) < getStaplePeriodStart(staple, at, weekStartsOn);
+}
+
+/**
+ * Finds when a staple will be added next
+ * @returns The start of the current period if the staple is due, else the start of the next one
+ */
+export function getNextStapleDate(staple: StapleSchedule, at: Date, weekStartsOn: WeekStartsOn = 1): Date {
+  const lastAddedAt = staple.lastAddedAt ? new Date(staple.lastAddedAt) : at;
+  return isStapleDue(staple, at, weekStartsOn)
+    ? getStaplePeriodStart(staple, at, weekStartsOn)
+    : getNextStaplePeriodStart(staple, lastAddedAt, weekStartsOn);
+}
+
+/**
+ * Describes a staple's recurrence for display
+ */
+export function formatStapleFrequency(staple: Pick<StapleSchedule, 'frequency' | 'intervalWeeks'>): string {
+  if (staple.frequency === 'monthly') return 'Every month';
+  if (staple.frequency === 'every-n-weeks' && (staple.intervalWeeks || 1) > 1) {
+    return `Every ${staple.intervalWeeks} weeks`;
+  }
+  return 'Every week';
+}
+
+/**
+ * Turns a staple into a grocery list item
+ */
+export function stapleToGroceryItem(staple: Pick<StapleSchedule, 'name' | 'quantity' | 'unit'>): GroceryItem {
+  return toGroceryItem({ name: staple.name, quantity: staple.quantity, unit: staple.unit });
+}
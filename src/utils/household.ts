@@ -0,0 +1,148 @@
+/**
+ * Household Members
+ *
+ * The people a user cooks for, each with their own diet, allergies and
+ * portion size (`UserSettings.mealPlanning.householdMembers`). A meal slot
+ * lists who is eating it in `attendees`; its servings are then the sum of
+ * their portions, e.g. two adults and a toddler eat 2.5 servings.
+ *
+ * Batch-cooked meals and their leftovers keep the servings of the batch.
+ */
+
+import { getDietaryConflicts, type DietaryConflict, type PlannerRecipe } from '@/utils/mealPlanGenerator';
+
+export type HouseholdDietType = 'omnivore' | 'vegetarian' | 'vegan' | 'pescatarian' | 'keto' | 'paleo';
+
+export const HOUSEHOLD_DIET_TYPES: HouseholdDietType[] = ['omnivore', 'vegetarian', 'vegan', 'pescatarian', 'keto', 'paleo'];
+export const MAX_HOUSEHOLD_MEMBERS = 12;
+export const MIN_PORTION_MULTIPLIER = 0.25;
+export const MAX_PORTION_MULTIPLIER = 3;
+
+export interface HouseholdMember {
+  id: string;
+  name: string;
+  dietType?: HouseholdDietType;
+  allergies: string[]; // Free text, e.g. "tree nuts" or "lactose"
+  portionMultiplier: number; // Servings this person eats, 1 for an adult, 0.5 for a toddler
+}
+
+export interface AttendeeConflict {
+  memberId: string;
+  memberName: string;
+  conflicts: DietaryConflict[]; // 'diet' and/or 'allergy'
+}
+
+// Meal slot fields that decide who eats and how much
+type AttendedMeal = {
+  servings?: number;
+  attendees?: string[];
+  batchId?: string;
+  leftoverServings?: number;
+  isLeftover?: boolean;
+};
+
+/**
+ * Rounds a number of servings to a quarter
+ */
+function roundServings(servings: number): number {
+  return Math.round(servings * 4) / 4;
+}
+
+/**
+ * Finds the members eating a meal; attendees that were since removed are skipped
+ */
+export function getMealAttendees(meal: AttendedMeal, members: HouseholdMember[]): HouseholdMember[] {
+  if (!meal.attendees?.length) return [];
+  return members.filter(member => meal.attendees!.includes(member.id));
+}
+
+/**
+ * Adds up the portions of some members
+ */
+export function getAttendeeServings(attendees: HouseholdMember[]): number {
+  return roundServings(attendees.reduce((sum, member) => sum + member.portionMultiplier, 0));
+}
+
+/**
+ * Gets the servings of a meal: the portions of its attendees, or the
+ * servings stored on the slot for meals without attendees and batch meals
+ */
+export function getMealServings(meal: AttendedMeal, members: HouseholdMember[] = []): number | undefined {
+  const attendees = meal.batchId || meal.isLeftover ? [] : getMealAttendees(meal, members);
+  return attendees.length > 0 ? getAttendeeServings(attendees) : meal.servings;
+}
+
+/**
+ * Gets the servings eaten at a meal: a batch source is cooked for the whole
+ * batch but only eats `leftoverServings`, the rest is eaten at its leftovers
+ */
+export function getEatenServings(meal: AttendedMeal, members: HouseholdMember[] = []): number | undefined {
+  if (meal.batchId && !meal.isLeftover) return meal.leftoverServings || meal.servings;
+  return getMealServings(meal, members);
+}
+
+/**
+ * Checks a recipe against the diet and allergies of each member
+ *
+ * @param recipe - The recipe, reduced to what the checks look at
+ * @param members - The members to check, usually a meal's attendees
+ * @returns The members the recipe does not suit, and why
+ */
+export function findAttendeeConflicts(recipe: PlannerRecipe, members: HouseholdMember[]): AttendeeConflict[] {
+  return members
+    .map(member => ({
+      memberId: member.id,
+      memberName: member.name,
+      conflicts: getDietaryConflicts(recipe, { dietType: member.dietType, allergies: member.allergies }),
+    }))
+    .filter(conflict => conflict.conflicts.length > 0);
+}
+
+/**
+ * Describes a conflict, e.g. 'Sam: allergic to tree nuts' or 'Alex: not vegetarian'
+ */
+export function describeAttendeeConflict(conflict: AttendeeConflict, members: HouseholdMember[]): string {
+  const member = members.find(candidate => candidate.id === conflict.memberId);
+  const reasons = conflict.conflicts.map(reason => reason === 'allergy'
+    ? `allergic to ${member?.allergies.join(', ') || 'an ingredient'}`
+    : `not ${member?.dietType || 'suitable for their diet'}`);
+  return `${conflict.memberName}: ${reasons.join('; ')}`;
+}
+
+/**
+ * Cleans up a list of household members (e.g. from a settings update)
+ *
+ * Entries without an id or name and duplicate ids are dropped, portions are
+ * kept between MIN_PORTION_MULTIPLIER and MAX_PORTION_MULTIPLIER and the list
+ * is capped at MAX_HOUSEHOLD_MEMBERS.
+ */
+export function normalizeHouseholdMembers(input: unknown): HouseholdMember[] {
+  if (!Array.isArray(input)) return [];
+
+  const seen = new Set<string>();
+  const members: HouseholdMember[] = [];
+
+  for (const entry of input) {
+    if (!entry || typeof entry !== 'object') continue;
+    const { id, name, dietType, allergies, portionMultiplier } = entry as Partial<HouseholdMember>;
+    if (typeof id !== 'string' || !id.trim() || seen.has(id)) continue;
+    if (typeof name !== 'string' || !name.trim()) continue;
+
+    const portion = Number(portionMultiplier);
+    seen.add(id);
+    members.push({
+      id,
+      name: name.trim().slice(0, 40),
+      ...(HOUSEHOLD_DIET_TYPES.includes(dietType as HouseholdDietType) && dietType !== 'omnivore' && { dietType }),
+      allergies: Array.isArray(allergies)
+        ? Array.from(new Set(allergies.filter((allergy): allergy is string => typeof allergy === 'string').map(allergy => allergy.trim().toLowerCase()).filter(Boolean))).slice(0, 20)
+        : [],
+      portionMultiplier: Number.isFinite(portion)
+        ? Math.min(MAX_PORTION_MULTIPLIER, Math.max(MIN_PORTION_MULTIPLIER, roundServings(portion)))
+        : 1,
+    });
+    if (members.length === MAX_HOUSEHOLD_MEMBERS) break;
+  }
+
+  return members;
+}
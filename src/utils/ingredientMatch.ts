@@ -0,0 +1,137 @@
+/**
+ * Ingredient Matching ("What can I cook?")
+ *
+ * Compares the ingredients of a recipe with the ones the user has:
+ * - An owned ingredient covers a recipe ingredient when the words of one are
+ *   all found in the other, so "chicken" covers "chicken breasts" and "red
+ *   onion" covers "onion"
+ * - German and English names find each other through the search synonyms
+ * - Pantry basics like salt, pepper, water and oil are never missing
+ * Recipes are ranked by how few ingredients are missing, then by how many
+ * owned ones they use.
+ */
+
+import { tokenizeSearchText } from '@/utils/recipeSearch';
+import { getSearchSynonyms, splitSearchWords } from '@/utils/fuzzySearch';
+
+export interface IngredientMatch {
+  usedIngredients: string[]; // Recipe ingredients the user has
+  missedIngredients: string[]; // Recipe ingredients the user has to buy, without pantry basics
+  usedIngredientCount: number;
+  missedIngredientCount: number;
+}
+
+// A recipe ingredient as the recipe collections store it
+export interface MatchedRecipeIngredient {
+  name?: string;
+  originalName?: string;
+  amount?: number | string;
+  quantity?: number | string;
+  unit?: string;
+  aisle?: string;
+}
+
+/**
+ * A recipe as the ingredient search returns it: the recipe document and its match
+ */
+export interface IngredientMatchedRecipe extends IngredientMatch {
+  _id?: string;
+  id?: string | number;
+  spoonacularId?: number;
+  extendedIngredients?: MatchedRecipeIngredient[];
+  ingredients?: Array<string | MatchedRecipeIngredient>;
+}
+
+// Ingredients every kitchen has; an ingredient is a basic when it names one of these
+const PANTRY_BASIC_WORDS = new Set([
+  'salt', 'pepper', 'peppercorn', 'water', 'ice', 'oil', 'sugar', 'salz', 'pfeffer', 'wasser', 'ol', 'olivenol', 'rapsol',
+  'sonnenblumenol', 'zucker',
+]);
+
+// Words that may come with a pantry basic without making it something else
+const PANTRY_BASIC_QUALIFIERS = new Set([
+  'black', 'white', 'ground', 'freshly', 'fresh', 'kosher', 'sea', 'table', 'fine', 'coarse', 'flaky', 'extra',
+  'virgin', 'olive', 'vegetable', 'canola', 'sunflower', 'rapeseed', 'neutral', 'cooking', 'spray', 'cold', 'warm',
+  'hot', 'boiling', 'lukewarm', 'tap', 'granulated', 'cube', 'crushed', 'taste', 'needed', 'optional',
+  'schwarzer', 'frisch', 'gemahlen', 'gemahlener', 'kaltes', 'warmes', 'heisses', 'prise',
+]);
+
+/**
+ * Checks whether an ingredient is a pantry basic that no recipe counts as missing
+ * "Salt and pepper" and "extra virgin olive oil" are basics, "bell pepper" and "olives" are not.
+ */
+export function isPantryBasic(name: string): boolean {
+  const tokens = tokenizeSearchText(name);
+  return tokens.some(token => PANTRY_BASIC_WORDS.has(token))
+    && tokens.every(token => PANTRY_BASIC_WORDS.has(token) || PANTRY_BASIC_QUALIFIERS.has(token));
+}
+
+/**
+ * Turns an owned ingredient into one set of accepted tokens per word: the word itself and its synonyms
+ */
+function toOwnedSlots(name: string): Set<string>[] {
+  return splitSearchWords(name)
+    .map(word => new Set([word, ...getSearchSynonyms(word)].flatMap(tokenizeSearchText)))
+    .filter(slot => slot.size > 0);
+}
+
+function tokenMatches(recipeToken: string, slot: Set<string>): boolean {
+  for (const token of slot) {
+    if (recipeToken === token || (token.length >= 4 && recipeToken.startsWith(token))) return true;
+  }
+  return false;
+}
+
+/**
+ * Checks whether an owned ingredient covers a recipe ingredient
+ * @param recipeTokens - Tokens of the recipe ingredient
+ * @param ownedSlots - Accepted tokens of each word of the owned ingredient
+ */
+function coversIngredient(recipeTokens: string[], ownedSlots: Set<string>[]): boolean {
+  if (recipeTokens.length === 0 || ownedSlots.length === 0) return false;
+  return ownedSlots.every(slot => recipeTokens.some(token => tokenMatches(token, slot)))
+    || recipeTokens.every(token => ownedSlots.some(slot => tokenMatches(token, slot)));
+}
+
+/**
+ * Prepares the owned ingredients for matching many recipes against them
+ * @param ownedIngredients - Ingredient names as typed or recognized in a fridge photo
+ */
+export function prepareOwnedIngredients(ownedIngredients: string[]): Set<string>[][] {
+  return ownedIngredients.map(toOwnedSlots).filter(slots => slots.length > 0);
+}
+
+/**
+ * Sorts the ingredients of a recipe into the ones the user has and the ones to buy
+ *
+ * @param recipeIngredients - Ingredient names of the recipe
+ * @param owned - Owned ingredients, from prepareOwnedIngredients()
+ * @returns The used and missed ingredients; pantry basics the user does not list count as neither
+ */
+export function matchRecipeIngredients(recipeIngredients: string[], owned: Set<string>[][]): IngredientMatch {
+  const usedIngredients: string[] = [];
+  const missedIngredients: string[] = [];
+
+  Array.from(new Set(recipeIngredients.map(name => name.trim()).filter(Boolean))).forEach(name => {
+    const tokens = tokenizeSearchText(name);
+    if (owned.some(slots => coversIngredient(tokens, slots))) {
+      usedIngredients.push(name);
+    } else if (!isPantryBasic(name)) {
+      missedIngredients.push(name);
+    }
+  });
+
+  return {
+    usedIngredients,
+    missedIngredients,
+    usedIngredientCount: usedIngredients.length,
+    missedIngredientCount: missedIngredients.length,
+  };
+}
+
+/**
+ * Orders matches for "What can I cook?": fewest missing ingredients first, then most used ones
+ */
+export function compareIngredientMatches(a: IngredientMatch, b: IngredientMatch): number {
+  return a.missedIngredientCount - b.missedIngredientCount || b.usedIngredientCount - a.usedIngredientCount;
+}
@@ -0,0 +1,227 @@
+/**
+ * Ingredient Line Parser
+ *
+ * Turns free-form ingredient lines into structured ingredients:
+ *   "2 ½ cups finely chopped red onion, divided"
+ *     → { amount: 2.5, unit: 'cup', name: 'red onion', preparation: 'finely chopped', notes: 'divided' }
+ *   "200g Mehl" → { amount: 200, unit: 'g', name: 'Mehl' }
+ *   "Prise Salz" → { amount: null, unit: 'Prise', name: 'Salz' }
+ *
+ * Understands unicode and written fractions (½, 1 1/2, 1,5), ranges ("2-3",
+ * "2 bis 3"), English and German units and "to taste" / "nach Geschmack".
+ * Used to paste whole ingredient lists into the upload forms and to migrate
+ * ingredients that were saved as plain strings.
+ */
+
+import { expandUnicodeFractions } from '@/utils/groceryListHelper';
+
+export interface ParsedIngredient {
+  amount: number | null; // null for "salt to taste" and lines without a number
+  amountMax?: number; // Upper end of a range ("2-3")
+  unit: string; // '' for whole items ("3 eggs")
+  name: string;
+  preparation?: string; // "finely chopped"
+  notes?: string; // "divided", "to taste"
+  original: string;
+}
+
+/**
+ * Ingredient as the recipe forms and community recipes store it
+ */
+export interface IngredientRecord {
+  name: string;
+  amount: number;
+  unit: string;
+  notes?: string;
+}
+
+// Unit as written (lowercase, without a final dot) → unit as stored
+const UNIT_ALIASES: Record<string, string> = {
+  // English
+  cup: 'cup', cups: 'cup', c: 'cup',
+  tablespoon: 'tbsp', tablespoons: 'tbsp', tbsp: 'tbsp', tbsps: 'tbsp', tbs: 'tbsp', tbl: 'tbsp',
+  teaspoon: 'tsp', teaspoons: 'tsp', tsp: 'tsp', tsps: 'tsp',
+  'fluid ounce': 'fl oz', 'fluid ounces': 'fl oz', 'fl oz': 'fl oz', 'fl. oz': 'fl oz',
+  ounce: 'oz', ounces: 'oz', oz: 'oz',
+  pound: 'lb', pounds: 'lb', lb: 'lb', lbs: 'lb',
+  gram: 'g', grams: 'g', gramm: 'g', g: 'g', gr: 'g',
+  kilogram: 'kg', kilograms: 'kg', kilo: 'kg', kg: 'kg',
+  milligram: 'mg', milligrams: 'mg', mg: 'mg',
+  milliliter: 'ml', milliliters: 'ml', millilitre: 'ml', millilitres: 'ml', ml: 'ml',
+  liter: 'l', liters: 'l', litre: 'l', litres: 'l', l: 'l',
+  cl: 'cl', dl: 'dl',
+  pint: 'pint', pints: 'pint', quart: 'quart', quarts: 'quart', gallon: 'gallon', gallons: 'gallon',
+  pinch: 'pinch', pinches: 'pinch', dash: 'dash', dashes: 'dash',
+  clove: 'clove', cloves: 'clove', can: 'can', cans: 'can', slice: 'slice', slices: 'slice',
+  piece: 'piece', pieces: 'piece', pc: 'piece', pcs: 'piece', bunch: 'bunch', bunches: 'bunch',
+  handful: 'handful', handfuls: 'handful', sprig: 'sprig', sprigs: 'sprig', stick: 'stick', sticks: 'stick',
+  package: 'package', packages: 'package', pkg: 'package', packet: 'package', packets: 'package',
+  jar: 'jar', jars: 'jar', head: 'head', heads: 'head',
+  // German
+  el: 'EL', esslöffel: 'EL', tl: 'TL', teelöffel: 'TL',
+  tasse: 'Tasse', tassen: 'Tasse', prise: 'Prise', prisen: 'Prise',
+  msp: 'Messerspitze', messerspitze: 'Messerspitze', messerspitzen: 'Messerspitze',
+  zehe: 'Zehe', zehen: 'Zehe', bund: 'Bund', dose: 'Dose', dosen: 'Dose',
+  packung: 'Packung', packungen: 'Packung', pck: 'Packung', päckchen: 'Packung',
+  stück: 'Stück', stk: 'Stück', scheibe: 'Scheibe', scheiben: 'Scheibe',
+  becher: 'Becher', glas: 'Glas', gläser: 'Glas', handvoll: 'Handvoll', zweig: 'Zweig', zweige: 'Zweig',
+};
+
+// Longest first, so "fl oz" wins over "fl" and "tbsp" over "t"
+const UNIT_PATTERN = Object.keys(UNIT_ALIASES)
+  .sort((a, b) => b.length - a.length)
+  .map(alias => alias.replace(/[.]/g, '\\.'))
+  .join('|');
+
+// Mixed numbers and fractions first, so "1/2" is not read as 1
+const NUMBER = '\\d+\\s+\\d+\\/\\d+|\\d+\\/\\d+|\\d+(?:[.,]\\d+)?';
+const AMOUNT_PATTERN = new RegExp(`^(${NUMBER})(?:\\s*(?:-|–|to|bis)\\s*(${NUMBER}))?\\s*`, 'i');
+const SPOON_LETTER_PATTERN = /^([Tt])\.?\s+/; // A bare "T" is a tablespoon and "t" a teaspoon
+const WORD_AMOUNT_PATTERN = /^(?:a|an|one|ein|eine|einen)\s+/i;
+const UNIT_START_PATTERN = new RegExp(`^(${UNIT_PATTERN})\\.?(?![a-zäöüß])\\s*(?:of\\s+)?`, 'i');
+const TO_TASTE_PATTERN = /[,\s]*\b(?:or\s+)?(to taste|as needed|nach geschmack|nach belieben|optional)\s*$/i;
+
+// Words that describe how an ingredient is prepared
+const PREPARATION_WORDS = new Set([
+  'chopped', 'diced', 'minced', 'sliced', 'grated', 'crushed', 'peeled', 'shredded', 'melted', 'softened', 'beaten',
+  'cubed', 'julienned', 'halved', 'quartered', 'drained', 'rinsed', 'toasted', 'cooked', 'pitted', 'seeded',
+  'trimmed', 'zested', 'juiced', 'mashed', 'sifted', 'thawed', 'cut', 'torn', 'crumbled', 'cored', 'deveined',
+  'gehackt', 'gehackte', 'gehackter', 'gewürfelt', 'gewürfelte', 'gerieben', 'geriebener', 'geriebene', 'geschält',
+  'geschälte', 'geschnitten', 'geschnittene', 'zerlassen', 'zerlassene', 'gepresst', 'gepresste', 'halbiert',
+  'geviertelt', 'abgetropft', 'weich', 'weiche',
+]);
+
+// Words that only go with a preparation word ("finely chopped", but "freshly ground pepper" stays a name)
+const PREPARATION_ADVERBS = new Set(['finely', 'roughly', 'coarsely', 'thinly', 'thickly', 'freshly', 'fein', 'grob', 'frisch', 'and', 'und']);
+
+/**
+ * Parses an amount like "2", "1,5", "1/2" or "2 1/2"
+ * @returns null for fractions like "1/0"
+ */
+function parseNumber(text: string): number | null {
+  let sum = 0;
+  for (const part of text.trim().split(/\s+/)) {
+    const [numerator, denominator] = part.split('/');
+    if (denominator && Number(denominator) === 0) return null;
+    sum += denominator ? Number(numerator) / Number(denominator) : Number(numerator.replace(',', '.'));
+  }
+  return sum;
+}
+
+function isPreparation(text: string): boolean {
+  const words = text.toLowerCase().split(/\s+/).filter(Boolean);
+  const firstWord = words.find(word => !PREPARATION_ADVERBS.has(word));
+  return Boolean(firstWord && PREPARATION_WORDS.has(firstWord));
+}
+
+/**
+ * Splits the preparation words off the start of a name ("finely chopped red onion")
+ */
+function splitLeadingPreparation(text: string): { preparation: string; name: string } {
+  const words = text.split(/\s+/).filter(Boolean);
+  let end = 0;
+  for (let index = 0; index < words.length; index++) {
+    const word = words[index].toLowerCase();
+    if (PREPARATION_WORDS.has(word)) end = index + 1;
+    else if (!PREPARATION_ADVERBS.has(word)) break;
+  }
+  // Keep at least one word as the name
+  if (end >= words.length) end = 0;
+  return { preparation: words.slice(0, end).join(' '), name: words.slice(end).join(' ') };
+}
+
+/**
+ * Parses one ingredient line
+ * @param line - E.g. "2 ½ cups finely chopped red onion, divided" or "200g Mehl"
+ */
+export function parseIngredientLine(line: string): ParsedIngredient {
+  const original = line.trim();
+  const notes: string[] = [];
+  const preparations: string[] = [];
+
+  let text = expandUnicodeFractions(original.replace(/^[-*•·–]\s*/, ''))
+    .replace(/\(([^)]*)\)/g, (_, note: string) => {
+      if (note.trim()) notes.push(note.trim());
+      return ' ';
+    })
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  // Amount or range, also "a pinch of salt"
+  let amount: number | null = null;
+  let amountMax: number | undefined;
+  const amountMatch = text.match(AMOUNT_PATTERN);
+  if (amountMatch) {
+    amount = parseNumber(amountMatch[1]);
+    if (amountMatch[2]) amountMax = parseNumber(amountMatch[2]) ?? undefined;
+    text = text.slice(amountMatch[0].length);
+  } else if (WORD_AMOUNT_PATTERN.test(text) && UNIT_START_PATTERN.test(text.replace(WORD_AMOUNT_PATTERN, ''))) {
+    amount = 1;
+    text = text.replace(WORD_AMOUNT_PATTERN, '');
+  }
+
+  // Unit right after the amount, or at the start ("Prise Salz"); sizes like "large" stay in the name
+  let unit = '';
+  const unitMatch = amount !== null ? text.match(UNIT_START_PATTERN) || text.match(SPOON_LETTER_PATTERN) : text.match(UNIT_START_PATTERN);
+  if (unitMatch && text.slice(unitMatch[0].length).trim()) {
+    const written = unitMatch[1];
+    if (written === 'T') unit = 'tbsp';
+    else if (written === 't') unit = 'tsp';
+    else unit = UNIT_ALIASES[written.toLowerCase()];
+    text = text.slice(unitMatch[0].length);
+  }
+
+  // "red onion, finely chopped, divided": the name first, then preparations and notes
+  const [namePart, ...details] = text.split(',').map(part => part.trim()).filter(Boolean);
+  details.forEach(detail => (isPreparation(detail) ? preparations : notes).push(detail));
+
+  let nameText = namePart || '';
+  const toTaste = nameText.match(TO_TASTE_PATTERN);
+  if (toTaste) {
+    notes.push(toTaste[1]);
+    nameText = nameText.slice(0, toTaste.index).trim();
+  }
+
+  const { preparation, name } = splitLeadingPreparation(nameText);
+  if (preparation) preparations.unshift(preparation);
+
+  return {
+    amount,
+    ...(amountMax !== undefined && amountMax > (amount || 0) && { amountMax }),
+    unit,
+    name: name || nameText || original,
+    ...(preparations.length > 0 && { preparation: preparations.join(', ') }),
+    ...(notes.length > 0 && { notes: notes.join(', ') }),
+    original,
+  };
+}
+
+/**
+ * Parses pasted text with one ingredient per line; empty lines and headings ending in ":" are skipped
+ */
+export function parseIngredientLines(text: string): ParsedIngredient[] {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !/:$/.test(line))
+    .map(parseIngredientLine);
+}
+
+/**
+ * Turns a parsed ingredient into the shape recipes store
+ * A range keeps its lower end as the amount; the range, preparation and notes go into the notes.
+ */
+export function toIngredientRecord(parsed: ParsedIngredient): IngredientRecord {
+  const notes = [
+    parsed.amountMax !== undefined ? `${parsed.amount}-${parsed.amountMax}` : undefined,
+    parsed.preparation,
+    parsed.notes,
+  ].filter(Boolean).join(', ');
+
+  return {
+    name: parsed.name,
+    amount: parsed.amount ?? 0,
+    unit: parsed.unit,
+    ...(notes && { notes }),
+  };
+}
@@ -0,0 +1,189 @@
+/**
+ * Ingredient Substitutions
+ *
+ * Suggests replacements for a grocery item that the store does not have,
+ * e.g. buttermilk → milk + lemon juice. Rules come from the substitution
+ * knowledge base (src/lib/ingredientSubstitutions.json, editable by admins).
+ *
+ * A rule's replacement amounts are given per one `unit` of the original
+ * ingredient, so "500 ml buttermilk" becomes "470 ml milk + 30 ml lemon juice".
+ *
+ * Rules list what their replacements contain (dairy, egg, gluten, meat, ...)
+ * and are left out when that conflicts with the user's allergies,
+ * intolerances, diet type or excluded ingredients.
+ */
+
+import { convertQuantity, normalizeIngredientName, roundQuantity, type GroceryItem } from '@/utils/groceryListHelper';
+
+export const SUBSTITUTION_TAGS = [
+  'dairy', 'egg', 'gluten', 'soy', 'peanuts', 'nuts', 'sesame', 'fish', 'shellfish', 'meat', 'honey',
+] as const;
+
+export type SubstitutionTag = typeof SUBSTITUTION_TAGS[number];
+
+export interface SubstitutionReplacement {
+  name: string;
+  quantity: number; // Per one `unit` of the original ingredient
+  unit: string;
+}
+
+/**
+ * A knowledge base rule for one way to replace an ingredient
+ */
+export interface SubstitutionRule {
+  ingredient: string;
+  unit: string; // Unit the replacement amounts refer to ('' = per piece)
+  replacements: SubstitutionReplacement[];
+  note?: string; // How to use the replacement
+  contains: SubstitutionTag[]; // What the replacements contain, checked against dietary settings
+}
+
+/**
+ * The parts of `UserSettings.dietary` that rule out substitutions
+ */
+export interface DietaryRestrictions {
+  allergies?: string[];
+  intolerances?: string[];
+  dietType?: string;
+  excludedIngredients?: string[];
+}
+
+export interface SubstitutionSuggestion<R extends SubstitutionRule = SubstitutionRule> {
+  rule: R;
+  items: Array<Pick<GroceryItem, 'name' | 'quantity' | 'unit'>>; // Replacements for the item's amount
+  approximate: boolean; // The item's unit could not be converted to the rule's unit
+}
+
+// Tags a diet type does not allow
+const DIET_EXCLUSIONS: Record<string, SubstitutionTag[]> = {
+  vegan: ['dairy', 'egg', 'meat', 'fish', 'shellfish', 'honey'],
+  vegetarian: ['meat', 'fish', 'shellfish'],
+  pescatarian: ['meat'],
+};
+
+// Words in free-text allergies and intolerances, checked in order (the first match wins)
+const ALLERGY_KEYWORDS: Array<[string, SubstitutionTag]> = [
+  ['peanut', 'peanuts'],
+  ['shellfish', 'shellfish'],
+  ['shrimp', 'shellfish'],
+  ['crustacean', 'shellfish'],
+  ['lactose', 'dairy'],
+  ['dairy', 'dairy'],
+  ['milk', 'dairy'],
+  ['casein', 'dairy'],
+  ['egg', 'egg'],
+  ['gluten', 'gluten'],
+  ['wheat', 'gluten'],
+  ['celiac', 'gluten'],
+  ['coeliac', 'gluten'],
+  ['soy', 'soy'],
+  ['sesame', 'sesame'],
+  ['nut', 'nuts'],
+  ['almond', 'nuts'],
+  ['cashew', 'nuts'],
+  ['fish', 'fish'],
+];
+
+/**
+ * Finds the rules for an ingredient by the longest matching name
+ * ("cultured buttermilk" uses the "buttermilk" rules)
+ */
+export function findSubstitutionRules<R extends SubstitutionRule>(rules: R[], name: string): R[] {
+  const nameKey = normalizeIngredientName(name);
+  let matches: R[] = [];
+  let bestLength = 0;
+
+  for (const rule of rules) {
+    const ruleKey = normalizeIngredientName(rule.ingredient);
+    if (nameKey !== ruleKey && !nameKey.endsWith(` ${ruleKey}`)) continue;
+    if (ruleKey.length > bestLength) {
+      matches = [rule];
+      bestLength = ruleKey.length;
+    } else if (ruleKey.length === bestLength) {
+      matches.push(rule);
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Lists the tags the user has to avoid
+ */
+export function getAvoidedTags(restrictions: DietaryRestrictions): Set<SubstitutionTag> {
+  const avoided = new Set<SubstitutionTag>(DIET_EXCLUSIONS[restrictions.dietType || ''] || []);
+
+  for (const entry of [...(restrictions.allergies || []), ...(restrictions.intolerances || [])]) {
+    const text = entry.toLowerCase();
+    const match = ALLERGY_KEYWORDS.find(([keyword]) => text.includes(keyword));
+    if (match) avoided.add(match[1]);
+  }
+
+  return avoided;
+}
+
+/**
+ * Explains why a rule does not suit the user
+ * @returns The reasons, empty if the rule is fine
+ */
+export function getSubstitutionConflicts(rule: SubstitutionRule, restrictions: DietaryRestrictions): string[] {
+  const avoided = getAvoidedTags(restrictions);
+  const conflicts = rule.contains.filter(tag => avoided.has(tag)).map(tag => `contains ${tag}`);
+
+  const excluded = (restrictions.excludedIngredients || []).map(name => normalizeIngredientName(name)).filter(Boolean);
+  for (const replacement of rule.replacements) {
+    const replacementKey = normalizeIngredientName(replacement.name);
+    if (excluded.some(key => replacementKey === key || replacementKey.includes(key))) {
+      conflicts.push(`uses ${replacement.name}`);
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Works out the replacement amounts for an item
+ */
+export function applySubstitutionRule<R extends SubstitutionRule>(
+  item: Pick<GroceryItem, 'name' | 'quantity' | 'unit'>,
+  rule: R
+): SubstitutionSuggestion<R> {
+  const converted = convertQuantity(item.quantity, item.unit, rule.unit, normalizeIngredientName(item.name));
+  // Without a conversion the item's amount is used as if it were in the rule's unit
+  const amount = converted ?? item.quantity;
+
+  return {
+    rule,
+    items: rule.replacements.map(replacement => ({
+      name: replacement.name,
+      quantity: roundQuantity(amount * replacement.quantity),
+      unit: replacement.unit,
+    })),
+    approximate: converted === null,
+  };
+}
+
+/**
+ * Suggests substitutions for a grocery item that suit the user
+ *
+ * @param item - The item to replace
+ * @param rules - The substitution knowledge base
+ * @param restrictions - The user's dietary settings
+ * @returns Suggestions with amounts for the item's quantity
+ */
+export function suggestSubstitutions<R extends SubstitutionRule>(
+  item: Pick<GroceryItem, 'name' | 'quantity' | 'unit'>,
+  rules: R[],
+  restrictions: DietaryRestrictions = {}
+): SubstitutionSuggestion<R>[] {
+  return findSubstitutionRules(rules, item.name)
+    .filter(rule => getSubstitutionConflicts(rule, restrictions).length === 0)
+    .map(rule => applySubstitutionRule(item, rule));
+}
+
+/**
+ * Describes a substitution for notes ("buttermilk → milk + lemon juice")
+ */
+export function describeSubstitution(original: string, replacements: Array<{ name: string }>): string {
+  return `${original} → ${replacements.map(replacement => replacement.name).join(' + ')}`;
+}
@@ -2,13 +2,15 @@
  * Ingredient Fetcher Utility
  * 
  * This utility fetches ingredients from multiple MongoDB collections
- * to populate grocery lists. It handles three recipe sources:
+ * to populate grocery lists, resolving the recipe IDs with the shared
+ * recipe resolver. It handles three recipe sources:
  * 1. spoonacular_recipes (Spoonacular API data)
  * 2. recipes (Admin uploaded recipes)
  * 3. userRecipes (User uploaded recipes)
  */
 
-import { getCollection, toObjectId, isValidObjectId } from '@/lib/db';
+import { resolveRecipes } from '@/lib/recipeResolver';
+import { parseIngredientLine } from '@/utils/ingredientParser';
 
 /**
  * Interface for normalized ingredient data
@@ -21,6 +23,14 @@ export interface NormalizedIngredient {
   original?: string;
 }
 
+/**
+ * Ingredients of a recipe together with the servings they are written for
+ */
+export interface RecipeIngredientData {
+  ingredients: NormalizedIngredient[];
+  servings?: number;
+}
+
 /**
  * Interface for recipe ingredient from different sources
  */
@@ -51,192 +61,76 @@ interface UserRecipeIngredient {
  * @returns Promise<NormalizedIngredient[]> - Array of normalized ingredients
  */
 export async function fetchRecipeIngredients(recipeId: string): Promise<NormalizedIngredient[]> {
+  const { ingredients } = await fetchRecipeIngredientData(recipeId);
+  return ingredients;
+}
+
+/**
+ * Fetches ingredients and base servings for a recipe from multiple collections
+ * @param recipeId - The recipe ID (can be spoonacular-123, mongo ObjectId, etc.)
+ * @returns Promise<RecipeIngredientData> - Normalized ingredients plus the recipe's servings
+ */
+export async function fetchRecipeIngredientData(recipeId: string): Promise<RecipeIngredientData> {
   if (!recipeId) {
     console.log('🔍 No recipeId provided for ingredient fetching');
-    return [];
+    return { ingredients: [] };
   }
 
-  console.log(`🔍 Fetching ingredients for recipe: ${recipeId}`);
-
-  try {
-    // 1. Try spoonacular_recipes collection first (most common)
-    if (recipeId.startsWith('spoonacular-') || !isNaN(Number(recipeId))) {
-      const spoonacularIngredients = await fetchFromSpoonacularRecipes(recipeId);
-      if (spoonacularIngredients.length > 0) {
-        console.log(`✅ Found ${spoonacularIngredients.length} ingredients in spoonacular_recipes`);
-        return spoonacularIngredients;
-      }
-    }
-
-    // 2. Try recipes collection (admin uploaded)
-    const adminRecipeIngredients = await fetchFromRecipesCollection(recipeId);
-    if (adminRecipeIngredients.length > 0) {
-      console.log(`✅ Found ${adminRecipeIngredients.length} ingredients in recipes collection`);
-      return adminRecipeIngredients;
-    }
-
-    // 3. Try userRecipes collection (user uploaded)
-    const userRecipeIngredients = await fetchFromUserRecipesCollection(recipeId);
-    if (userRecipeIngredients.length > 0) {
-      console.log(`✅ Found ${userRecipeIngredients.length} ingredients in userRecipes collection`);
-      return userRecipeIngredients;
-    }
-
-    console.log(`⚠️ No ingredients found for recipe: ${recipeId}`);
-    return [];
-
-  } catch (error) {
-    console.error(`❌ Error fetching ingredients for recipe ${recipeId}:`, error);
-    return [];
-  }
+  const dataMap = await batchFetchRecipeIngredientData([recipeId]);
+  return dataMap.get(recipeId) || { ingredients: [] };
 }
 
 /**
- * Fetch ingredients from spoonacular_recipes collection
+ * Reads a positive servings count from a recipe document
  */
-async function fetchFromSpoonacularRecipes(recipeId: string): Promise<NormalizedIngredient[]> {
-  try {
-    const collection = await getCollection('spoonacular_recipes');
-    
-    // Try different ID formats for Spoonacular recipes
-    let query: any;
-    if (recipeId.startsWith('spoonacular-')) {
-      query = { _id: recipeId };
-    } else {
-      const numericId = parseInt(recipeId);
-      query = { $or: [
-        { _id: `spoonacular-${recipeId}` },
-        { id: numericId },
-        { spoonacularId: numericId }
-      ]};
-    }
-
-    const recipe = await collection.findOne(query);
-    
-    if (!recipe || !recipe.extendedIngredients) {
-      return [];
-    }
-
-    console.log(`🥕 Found spoonacular recipe with ${recipe.extendedIngredients.length} ingredients`);
+function readServings(recipe: any): number | undefined {
+  const servings = Number(recipe?.servings);
+  return servings > 0 ? servings : undefined;
+}
 
-    return recipe.extendedIngredients.map((ing: SpoonacularIngredient) => ({
+/**
+ * Normalizes the ingredients of a recipe from any collection: Spoonacular
+ * recipes list `extendedIngredients`, admin and user recipes `ingredients`
+ */
+function toRecipeIngredientData(recipe: any): RecipeIngredientData {
+  if (Array.isArray(recipe.extendedIngredients) && recipe.extendedIngredients.length > 0) {
+    const ingredients = recipe.extendedIngredients.map((ing: SpoonacularIngredient) => ({
       name: ing.name || ing.nameClean || ing.original || 'Unknown ingredient',
       amount: ing.amount?.toString() || ing.measures?.metric?.amount?.toString() || '',
       unit: ing.unit || ing.measures?.metric?.unitShort || '',
       category: ing.aisle || 'General',
       original: ing.original || ing.name
     }));
-
-  } catch (error) {
-    console.error('❌ Error fetching from spoonacular_recipes:', error);
-    return [];
+    return { ingredients, servings: readServings(recipe) };
   }
-}
-
-/**
- * Fetch ingredients from recipes collection (admin uploaded)
- */
-async function fetchFromRecipesCollection(recipeId: string): Promise<NormalizedIngredient[]> {
-  try {
-    const collection = await getCollection('recipes');
-    
-    // Try both string and ObjectId formats
-    let query: any;
-    if (isValidObjectId(recipeId)) {
-      query = { $or: [
-        { _id: toObjectId(recipeId) },
-        { id: recipeId }
-      ]};
-    } else {
-      query = { id: recipeId };
-    }
-
-    const recipe = await collection.findOne(query);
-    
-    if (!recipe || !recipe.ingredients) {
-      return [];
-    }
 
-    console.log(`🍳 Found admin recipe with ${recipe.ingredients.length} ingredients`);
+  if (!Array.isArray(recipe.ingredients)) {
+    return { ingredients: [] };
+  }
 
-    // Handle different ingredient formats
-    return recipe.ingredients.map((ing: any) => {
-      if (typeof ing === 'string') {
-        return {
-          name: ing,
-          amount: '',
-          unit: '',
-          category: 'General',
-          original: ing
-        };
-      }
-      
+  // Handle different ingredient formats; plain strings are whole lines like "2 cups flour"
+  const ingredients = recipe.ingredients.map((ing: string | (UserRecipeIngredient & Record<string, any>)) => {
+    if (typeof ing === 'string') {
+      const parsed = parseIngredientLine(ing);
       return {
-        name: ing.name || ing.ingredient || 'Unknown ingredient',
-        amount: ing.amount || ing.quantity || '',
-        unit: ing.unit || ing.measurement || '',
-        category: ing.category || 'General',
-        original: ing.original || ing.name || ing.ingredient
+        name: parsed.name,
+        amount: parsed.amount?.toString() || '',
+        unit: parsed.unit,
+        category: 'General',
+        original: ing
       };
-    });
-
-  } catch (error) {
-    console.error('❌ Error fetching from recipes collection:', error);
-    return [];
-  }
-}
-
-/**
- * Fetch ingredients from userRecipes collection (user uploaded)
- */
-async function fetchFromUserRecipesCollection(recipeId: string): Promise<NormalizedIngredient[]> {
-  try {
-    const collection = await getCollection('userRecipes');
-    
-    // Try both string and ObjectId formats
-    let query: any;
-    if (isValidObjectId(recipeId)) {
-      query = { $or: [
-        { _id: toObjectId(recipeId) },
-        { id: recipeId }
-      ]};
-    } else {
-      query = { id: recipeId };
     }
 
-    const recipe = await collection.findOne(query);
-    
-    if (!recipe || !recipe.ingredients) {
-      return [];
-    }
-
-    console.log(`👤 Found user recipe with ${recipe.ingredients.length} ingredients`);
-
-    // Handle different ingredient formats
-    return recipe.ingredients.map((ing: any) => {
-      if (typeof ing === 'string') {
-        return {
-          name: ing,
-          amount: '',
-          unit: '',
-          category: 'General',
-          original: ing
-        };
-      }
-      
-      return {
-        name: ing.name || ing.ingredient || 'Unknown ingredient',
-        amount: ing.amount || ing.quantity || '',
-        unit: ing.unit || ing.measurement || '',
-        category: ing.category || 'General',
-        original: ing.original || ing.name || ing.ingredient
-      };
-    });
+    return {
+      name: ing.name || ing.ingredient || 'Unknown ingredient',
+      amount: ing.amount || ing.quantity || '',
+      unit: ing.unit || ing.measurement || '',
+      category: ing.category || 'General',
+      original: ing.original || ing.name || ing.ingredient
+    };
+  });
 
-  } catch (error) {
-    console.error('❌ Error fetching from userRecipes collection:', error);
-    return [];
-  }
+  return { ingredients, servings: readServings(recipe) };
 }
 
 /**
@@ -245,20 +139,43 @@ async function fetchFromUserRecipesCollection(recipeId: string): Promise<Normali
  * @returns Promise<Map<string, NormalizedIngredient[]>> - Map of recipeId to ingredients
  */
 export async function batchFetchRecipeIngredients(recipeIds: string[]): Promise<Map<string, NormalizedIngredient[]>> {
+  const dataMap = await batchFetchRecipeIngredientData(recipeIds);
   const ingredientsMap = new Map<string, NormalizedIngredient[]>();
+  dataMap.forEach((data, recipeId) => ingredientsMap.set(recipeId, data.ingredients));
+  return ingredientsMap;
+}
+
+/**
+ * Batch fetch ingredients and base servings for multiple recipes
+ * Duplicate IDs are only fetched once.
+ * @param recipeIds - Array of recipe IDs
+ * @returns Promise<Map<string, RecipeIngredientData>> - Map of recipeId to ingredient data
+ */
+export async function batchFetchRecipeIngredientData(recipeIds: string[]): Promise<Map<string, RecipeIngredientData>> {
+  const dataMap = new Map<string, RecipeIngredientData>();
+  const uniqueIds = Array.from(new Set(recipeIds.filter(Boolean)));
   
-  console.log(`🔍 Batch fetching ingredients for ${recipeIds.length} recipes`);
-  
-  // Process recipes in parallel for better performance
-  const promises = recipeIds.map(async (recipeId) => {
-    const ingredients = await fetchRecipeIngredients(recipeId);
-    ingredientsMap.set(recipeId, ingredients);
-  });
-  
-  await Promise.all(promises);
+  console.log(`🔍 Batch fetching ingredients for ${uniqueIds.length} recipes`);
+
+  try {
+    // One query per recipe collection for the whole batch
+    const resolvedRecipes = await resolveRecipes(uniqueIds);
+
+    uniqueIds.forEach(recipeId => {
+      const resolved = resolvedRecipes.get(recipeId.trim());
+      const data = resolved ? toRecipeIngredientData(resolved.recipe) : { ingredients: [] };
+      if (data.ingredients.length === 0) {
+        console.log(`⚠️ No ingredients found for recipe: ${recipeId}`);
+      }
+      dataMap.set(recipeId, data);
+    });
+  } catch (error) {
+    console.error('❌ Error fetching recipe ingredients:', error);
+    uniqueIds.forEach(recipeId => dataMap.set(recipeId, { ingredients: [] }));
+  }
   
-  console.log(`✅ Batch fetch completed: ${ingredientsMap.size} recipes processed`);
-  return ingredientsMap;
+  console.log(`✅ Batch fetch completed: ${dataMap.size} recipes processed`);
+  return dataMap;
 }
 
 /**
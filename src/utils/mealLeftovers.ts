@@ -0,0 +1,334 @@
+/**
+ * Meal Leftovers
+ *
+ * Batch cooking: a meal is cooked for more servings than are eaten at once
+ * and the rest is eaten later. The source meal keeps all servings (so the
+ * grocery list buys for the whole batch) and each later meal becomes a
+ * leftover entry that shares the source's `batchId` and is never shopped for.
+ *
+ * A Sunday dinner cooked for 6 with 2 servings per meal places 2-serving
+ * leftovers into Monday and Tuesday lunch. Leftovers may fall into the next
+ * week's plan, so the helpers here work on the days of one plan and report
+ * what has to happen in the other plans.
+ */
+
+import { addDays, format } from 'date-fns';
+
+export type LeftoverMealType = 'breakfast' | 'lunch' | 'dinner' | 'snacks';
+
+export const LEFTOVER_MEAL_TYPES: LeftoverMealType[] = ['breakfast', 'lunch', 'dinner', 'snacks'];
+export const DEFAULT_LEFTOVER_MEAL_TYPE: LeftoverMealType = 'lunch';
+
+// The fields of a meal slot batch cooking reads and writes
+export interface BatchMeal {
+  recipeId?: string;
+  recipeName?: string;
+  image?: string;
+  servings?: number;
+  cookedAt?: Date | string;
+  batchId?: string;
+  leftoverServings?: number;
+  leftoverMealType?: LeftoverMealType;
+  isLeftover?: boolean;
+}
+
+export type LeftoverDay<M extends BatchMeal = BatchMeal> = { date: Date | string } & Record<LeftoverMealType, M[]>;
+
+/**
+ * A leftover meal to place, by date
+ */
+export interface LeftoverPortion {
+  date: string; // yyyy-MM-dd
+  mealType: LeftoverMealType;
+  servings: number;
+}
+
+/**
+ * What has to happen to a batch's leftovers outside the plan being edited
+ */
+export type LeftoverSyncRequest =
+  | { batchId: string; action: 'remove' | 'detach' }
+  | { batchId: string; action: 'place'; source: BatchMeal; portions: LeftoverPortion[] };
+
+export interface BatchSourceChange {
+  type: 'moved' | 'removed';
+  meal: BatchMeal;
+}
+
+// The meal planning settings batch cooking follows
+export interface LeftoverSettings {
+  includeLeftovers: boolean; // Offer to cook extra for leftovers
+  batchCookingPreference: boolean; // Prefer bigger batches
+  defaultServings: number;
+}
+
+export const DEFAULT_LEFTOVER_SETTINGS: LeftoverSettings = {
+  includeLeftovers: true,
+  batchCookingPreference: false,
+  defaultServings: 4,
+};
+
+/**
+ * Formats a day's date as yyyy-MM-dd
+ */
+export function toLeftoverDateKey(date: Date | string): string {
+  return format(new Date(date), 'yyyy-MM-dd');
+}
+
+/**
+ * Checks whether a meal was cooked as a batch with leftovers
+ */
+export function isBatchSource(meal: BatchMeal): boolean {
+  return Boolean(meal.batchId && !meal.isLeftover);
+}
+
+/**
+ * Splits the servings that are not eaten at the source meal into leftover portions
+ *
+ * @param totalServings - Servings cooked
+ * @param servingsPerMeal - Servings eaten per meal
+ * @returns The servings of each leftover meal (the last one may be smaller)
+ */
+export function splitLeftoverServings(totalServings: number, servingsPerMeal: number): number[] {
+  const portions: number[] = [];
+  let remaining = totalServings - servingsPerMeal;
+  while (servingsPerMeal > 0 && remaining > 0) {
+    portions.push(Math.min(servingsPerMeal, remaining));
+    remaining -= servingsPerMeal;
+  }
+  return portions;
+}
+
+/**
+ * Suggests how many servings to cook: enough for one leftover meal, or two when the user prefers batch cooking
+ */
+export function getDefaultBatchServings(servingsPerMeal: number, batchCookingPreference: boolean): number {
+  return servingsPerMeal * (batchCookingPreference ? 3 : 2);
+}
+
+/**
+ * Plans the leftovers of a batch: one portion per following day
+ *
+ * @param sourceDate - The day the batch is cooked
+ * @param totalServings - Servings cooked
+ * @param servingsPerMeal - Servings eaten per meal
+ * @param mealType - Meal type the leftovers are eaten at
+ */
+export function planLeftoverPortions(
+  sourceDate: Date | string,
+  totalServings: number,
+  servingsPerMeal: number,
+  mealType: LeftoverMealType = DEFAULT_LEFTOVER_MEAL_TYPE
+): LeftoverPortion[] {
+  return splitLeftoverServings(totalServings, servingsPerMeal).map((servings, index) => ({
+    date: toLeftoverDateKey(addDays(new Date(sourceDate), index + 1)),
+    mealType,
+    servings,
+  }));
+}
+
+/**
+ * Creates the leftover entry of a batch
+ */
+export function createLeftoverMeal<M extends BatchMeal>(source: M, servings: number): BatchMeal {
+  return {
+    recipeId: source.recipeId,
+    recipeName: source.recipeName,
+    image: source.image,
+    servings,
+    batchId: source.batchId,
+    isLeftover: true,
+  };
+}
+
+/**
+ * Removes the batch fields from a meal, e.g. when it is copied
+ */
+export function withoutBatchFields<M extends BatchMeal>(meal: M): M {
+  const copy = { ...meal };
+  delete copy.batchId;
+  delete copy.leftoverServings;
+  delete copy.leftoverMealType;
+  delete copy.isLeftover;
+  return copy;
+}
+
+/**
+ * Counts the leftover entries of a batch in a plan
+ */
+export function countLeftovers<M extends BatchMeal>(days: LeftoverDay<M>[], batchId: string): number {
+  return days.reduce((count, day) =>
+    count + LEFTOVER_MEAL_TYPES.reduce((sum, mealType) =>
+      sum + (day[mealType] || []).filter(meal => meal.isLeftover && meal.batchId === batchId).length, 0), 0);
+}
+
+/**
+ * Adds leftover portions to the days of a plan
+ *
+ * @returns The updated days and the portions whose date is not in this plan
+ */
+export function addLeftoversToDays<M extends BatchMeal, D extends LeftoverDay<M>>(
+  days: D[],
+  source: M,
+  portions: LeftoverPortion[]
+): { days: D[]; outside: LeftoverPortion[] } {
+  const outside: LeftoverPortion[] = [];
+  const updatedDays = [...days];
+
+  for (const portion of portions) {
+    const dayIndex = updatedDays.findIndex(day => toLeftoverDateKey(day.date) === portion.date);
+    if (dayIndex === -1) {
+      outside.push(portion);
+      continue;
+    }
+    const day = updatedDays[dayIndex];
+    updatedDays[dayIndex] = {
+      ...day,
+      [portion.mealType]: [...(day[portion.mealType] || []), createLeftoverMeal(source, portion.servings)],
+    };
+  }
+
+  return { days: updatedDays, outside };
+}
+
+/**
+ * Takes the leftovers of a batch out of a plan
+ *
+ * @param mode - 'remove' deletes them, 'detach' turns them into regular meals (cooked and shopped for)
+ * @returns The updated days and how many leftovers were changed
+ */
+export function releaseLeftoversFromDays<M extends BatchMeal, D extends LeftoverDay<M>>(
+  days: D[],
+  batchId: string,
+  mode: 'remove' | 'detach'
+): { days: D[]; count: number } {
+  let count = 0;
+
+  const updatedDays = days.map(day => {
+    const updatedDay = { ...day };
+    for (const mealType of LEFTOVER_MEAL_TYPES) {
+      const meals = day[mealType] || [];
+      if (!meals.some(meal => meal.isLeftover && meal.batchId === batchId)) continue;
+
+      updatedDay[mealType] = meals.flatMap(meal => {
+        if (!meal.isLeftover || meal.batchId !== batchId) return [meal];
+        count++;
+        return mode === 'remove' ? [] : [withoutBatchFields(meal)];
+      }) as D[typeof mealType];
+    }
+    return updatedDay;
+  });
+
+  return { days: updatedDays, count };
+}
+
+/**
+ * Turns a meal into a batch source and places its leftovers
+ *
+ * Planning an existing batch again replaces its leftovers.
+ *
+ * @param days - The days of the plan holding the meal
+ * @param location - Where the meal is
+ * @param batch - The batch id, servings cooked, servings per meal and the leftovers' meal type
+ * @returns The updated days and the request for leftovers that fall outside this plan
+ */
+export function planBatch<M extends BatchMeal, D extends LeftoverDay<M>>(
+  days: D[],
+  location: { dayIndex: number; mealType: LeftoverMealType; mealIndex: number },
+  batch: { batchId: string; totalServings: number; servingsPerMeal: number; leftoverMealType: LeftoverMealType }
+): { days: D[]; request: LeftoverSyncRequest & { action: 'place' } } {
+  const { dayIndex, mealType, mealIndex } = location;
+  const meal = days[dayIndex][mealType][mealIndex];
+  const batchId = meal.batchId || batch.batchId;
+  const source: M = {
+    ...meal,
+    batchId,
+    servings: batch.totalServings,
+    leftoverServings: batch.servingsPerMeal,
+    leftoverMealType: batch.leftoverMealType,
+  };
+
+  const released = releaseLeftoversFromDays(days, batchId, 'remove').days;
+  const withSource = released.map((day, index) => index !== dayIndex ? day : {
+    ...day,
+    [mealType]: day[mealType].map((existing, position) => position === mealIndex ? source : existing),
+  } as D);
+  const portions = planLeftoverPortions(days[dayIndex].date, batch.totalServings, batch.servingsPerMeal, batch.leftoverMealType);
+  const placed = addLeftoversToDays(withSource, source, portions);
+
+  return { days: placed.days, request: { batchId, action: 'place', source, portions: placed.outside } };
+}
+
+/**
+ * Asks what should happen to the leftovers of a moved or removed batch source
+ */
+export function getBatchSourceChangePrompt(change: BatchSourceChange): string {
+  const name = change.meal.recipeName || 'this meal';
+  return change.type === 'removed'
+    ? `"${name}" was cooked for leftovers. Remove its leftovers too?\n\nCancel keeps them as regular meals.`
+    : `"${name}" was cooked for leftovers. Move its leftovers so they follow it?`;
+}
+
+/**
+ * Finds where each batch source of a plan is
+ */
+function findBatchSources<M extends BatchMeal>(days: LeftoverDay<M>[]): Map<string, { date: string; mealType: LeftoverMealType; meal: M }> {
+  const sources = new Map<string, { date: string; mealType: LeftoverMealType; meal: M }>();
+  for (const day of days) {
+    for (const mealType of LEFTOVER_MEAL_TYPES) {
+      for (const meal of day[mealType] || []) {
+        if (isBatchSource(meal)) sources.set(meal.batchId!, { date: toLeftoverDateKey(day.date), mealType, meal });
+      }
+    }
+  }
+  return sources;
+}
+
+/**
+ * Keeps leftovers in line with their source after an edit of a plan
+ *
+ * When a batch source was removed, its leftovers are removed or (if the user
+ * declines) turned into regular meals. When it was moved, its leftovers are
+ * re-planned after the new slot if the user agrees.
+ *
+ * @param previousDays - The days before the edit
+ * @param updatedDays - The days after the edit
+ * @param confirmChange - Asks the user; true removes or moves the leftovers
+ * @returns The reconciled days and what has to happen in other plans
+ */
+export function reconcileBatchSources<M extends BatchMeal, D extends LeftoverDay<M>>(
+  previousDays: D[],
+  updatedDays: D[],
+  confirmChange: (change: BatchSourceChange) => boolean
+): { days: D[]; requests: LeftoverSyncRequest[] } {
+  const before = findBatchSources(previousDays);
+  const after = findBatchSources(updatedDays);
+  const requests: LeftoverSyncRequest[] = [];
+  let days = updatedDays;
+
+  for (const [batchId, previous] of before) {
+    const current = after.get(batchId);
+
+    if (!current) {
+      const mode = confirmChange({ type: 'removed', meal: previous.meal }) ? 'remove' : 'detach';
+      days = releaseLeftoversFromDays(days, batchId, mode).days;
+      requests.push({ batchId, action: mode });
+      continue;
+    }
+
+    const moved = current.date !== previous.date || current.mealType !== previous.mealType;
+    if (!moved || !confirmChange({ type: 'moved', meal: current.meal })) continue;
+
+    const portions = planLeftoverPortions(
+      current.date,
+      current.meal.servings || 0,
+      current.meal.leftoverServings || 0,
+      current.meal.leftoverMealType
+    );
+    const placed = addLeftoversToDays(releaseLeftoversFromDays(days, batchId, 'remove').days, current.meal, portions);
+    days = placed.days;
+    requests.push({ batchId, action: 'place', source: current.meal, portions: placed.outside });
+  }
+
+  return { days, requests };
+}
@@ -6,6 +6,9 @@
 
 import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
+import { groupItemsBySection, type StoreSection } from '@/utils/storeSections';
+import { DEFAULT_MEAL_TYPES, getMealsOfType, getMealTypesForDays, type MealTypeDefinition } from '@/utils/mealTypes';
+import { formatIngredientAmount } from '@/utils/recipeScaling';
 
 export interface ExportOptions {
   format: 'pdf' | 'png' | 'jpeg';
@@ -13,6 +16,7 @@ export interface ExportOptions {
   includeHeader?: boolean;
   includeFooter?: boolean;
   quality?: number; // 0.1 to 1.0 for image formats
+  mealTypes?: MealTypeDefinition[]; // The user's meal types, in order
 }
 
 /**
@@ -689,9 +693,11 @@ export async function exportMealPlanToPDF(
     pdf.setFontSize(24);
     pdf.setFont('helvetica', 'bold');
     
-    // Get the week date range
-    const startDate = mealPlanData.weekStartDate ? new Date(mealPlanData.weekStartDate) : new Date();
-    const weekTitle = `Week of ${startDate.toLocaleDateString('en-GB', { day: '2-digit', month: '2-digit', year: 'numeric' })}`;
+    // Get the plan's date range
+    const startDate = mealPlanData.startDate ? new Date(mealPlanData.startDate) : new Date();
+    const dayCount = mealPlanData.days?.length || 7;
+    const isWeek = dayCount === 7;
+    const weekTitle = `${isWeek ? 'Week of' : 'Meal Plan from'} ${startDate.toLocaleDateString('en-GB', { day: '2-digit', month: '2-digit', year: 'numeric' })}`;
     
     const titleWidth = pdf.getTextWidth(weekTitle);
     pdf.text(weekTitle, (pageWidth - titleWidth) / 2, 40);
@@ -699,7 +705,7 @@ export async function exportMealPlanToPDF(
     // Add "Created with SmartPlates" subtitle
     pdf.setFontSize(10);
     pdf.setFont('helvetica', 'normal');
-    const subtitleText = 'Your Weekly Meal Plan';
+    const subtitleText = isWeek ? 'Your Weekly Meal Plan' : `Your ${dayCount}-Day Meal Plan`;
     const subtitleWidth = pdf.getTextWidth(subtitleText);
     pdf.text(subtitleText, (pageWidth - subtitleWidth) / 2, 50);
 
@@ -711,8 +717,8 @@ export async function exportMealPlanToPDF(
     setColor([255, 255, 255]);
     pdf.setFontSize(12);
     pdf.setFont('helvetica', 'bold');
-    const endDate = new Date(startDate);
-    endDate.setDate(endDate.getDate() + 6);
+    const endDate = mealPlanData.endDate ? new Date(mealPlanData.endDate) : new Date(startDate);
+    if (!mealPlanData.endDate) endDate.setDate(endDate.getDate() + dayCount - 1);
     const weekRange = `${startDate.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })} - ${endDate.toLocaleDateString('en-US', { month: 'long', day: 'numeric' })}`;
     const weekRangeWidth = pdf.getTextWidth(weekRange);
     pdf.text(weekRange, (pageWidth - weekRangeWidth) / 2, 63);
@@ -722,8 +728,6 @@ export async function exportMealPlanToPDF(
     const dayWidth = pageWidth - 2 * margin;
 
     // Process each day
-    const daysOfWeek = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
-    
     mealPlanData.days?.forEach((day: any, dayIndex: number) => {
       // Check if we need a new page
       if (yPosition + dayHeight > pageHeight - margin) {
@@ -731,8 +735,8 @@ export async function exportMealPlanToPDF(
         yPosition = margin;
       }
 
-      const dayName = daysOfWeek[dayIndex] || `Day ${dayIndex + 1}`;
       const dayDate = day.date ? new Date(day.date) : new Date(startDate.getTime() + dayIndex * 24 * 60 * 60 * 1000);
+      const dayName = dayDate.toLocaleDateString('en-US', { weekday: 'long' });
       const formattedDate = `${dayName}, ${dayDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`;
 
       // Day header background
@@ -747,15 +751,15 @@ export async function exportMealPlanToPDF(
 
       yPosition += 15;
 
-      // Meal types row
-      const mealTypes = [
-        { name: 'Breakfast', key: 'breakfast', color: colors.meal.breakfast },
-        { name: 'Lunch', key: 'lunch', color: colors.meal.lunch },
-        { name: 'Dinner', key: 'dinner', color: colors.meal.dinner },
-        { name: 'Snacks', key: 'snacks', color: colors.meal.snacks }
-      ];
+      // Meal types row: built-ins keep the soft theme colours, custom types use their own
+      const mealTypes = getMealTypesForDays(options.mealTypes || DEFAULT_MEAL_TYPES, [day]).map(definition => ({
+        name: definition.name,
+        key: definition.id,
+        color: colors.meal[definition.id as keyof typeof colors.meal]
+          || [1, 3, 5].map(offset => parseInt(definition.color.slice(offset, offset + 2), 16))
+      }));
 
-      const mealWidth = dayWidth / 4;
+      const mealWidth = dayWidth / mealTypes.length;
 
       mealTypes.forEach((mealType, mealIndex) => {
         const xPosition = margin + (mealIndex * mealWidth);
@@ -781,7 +785,7 @@ export async function exportMealPlanToPDF(
         pdf.rect(xPosition, yPosition + 8, mealWidth, 30, 'S');
 
         // Meal content
-        const meals = day[mealType.key] || [];
+        const meals = getMealsOfType(day, mealType.key);
         setColor(colors.text.dark);
         pdf.setFontSize(8);
         pdf.setFont('helvetica', 'normal');
@@ -896,22 +900,26 @@ export async function exportCalendarAsImage(
 }
 
 /**
- * Exports grocery list as text file
+ * Exports grocery list as text file, grouped by store section
+ * @param sectionOrder - User's preferred store section order
  */
-export function exportGroceryListAsText(groceryList: any[], filename?: string): void {
+export function exportGroceryListAsText(groceryList: any[], filename?: string, sectionOrder?: string[]): void {
   try {
     let content = 'Grocery List\n';
-    content += '='.repeat(20) + '\n\n';
+    content += '='.repeat(20) + '\n';
 
-    groceryList.forEach(item => {
-      content += `☐ ${item.name}`;
-      if (item.amount) {
-        content += ` (${item.amount} ${item.unit || ''})`;
-      }
-      if (item.category) {
-        content += ` - ${item.category}`;
-      }
-      content += '\n';
+    groupItemsBySection(groceryList, sectionOrder).forEach(({ section, items }) => {
+      content += `\n${section}\n`;
+      content += '-'.repeat(section.length) + '\n';
+
+      items.forEach(({ item }) => {
+        const amount = formatIngredientAmount(item.quantity || item.amount, item.unit);
+        content += `${item.checked ? '☑' : '☐'} ${item.name}`;
+        if (amount) {
+          content += ` (${amount})`;
+        }
+        content += '\n';
+      });
     });
 
     const blob = new Blob([content], { type: 'text/plain' });
@@ -932,9 +940,11 @@ export function exportGroceryListAsText(groceryList: any[], filename?: string):
 }
 
 /**
- * Exports grocery list as professional PDF with SmartPlates branding
+ * Exports grocery list as professional PDF with SmartPlates branding,
+ * grouped by store section
+ * @param sectionOrder - User's preferred store section order
  */
-export function exportGroceryListAsPDF(groceryList: any[], filename?: string): void {
+export function exportGroceryListAsPDF(groceryList: any[], filename?: string, sectionOrder?: string[]): void {
   try {
     console.log('🛒 Creating professional grocery list PDF...');
     
@@ -960,14 +970,17 @@ export function exportGroceryListAsPDF(groceryList: any[], filename?: string): v
         medium: [90, 105, 90],     // Medium sage for body
         light: [155, 170, 155]     // Light sage for metadata
       },
-      category: {
-        vegetables: [130, 180, 140],   // Green for vegetables
-        fruits: [255, 200, 100],       // Orange for fruits
-        dairy: [200, 220, 255],        // Light blue for dairy
-        meat: [255, 180, 180],         // Light red for meat
-        grains: [240, 210, 140],       // Yellow for grains
-        general: [220, 220, 220]       // Gray for general items
-      }
+      section: {
+        'Produce': [130, 180, 140],             // Green
+        'Bakery': [240, 210, 140],              // Yellow
+        'Meat & Fish': [255, 180, 180],         // Light red
+        'Dairy & Eggs': [200, 220, 255],        // Light blue
+        'Frozen': [170, 210, 230],              // Ice blue
+        'Pantry': [215, 190, 160],              // Tan
+        'Spices & Seasonings': [255, 200, 100], // Orange
+        'Beverages': [190, 170, 220],           // Lavender
+        'Other': [220, 220, 220]                // Gray
+      } as Record<StoreSection, number[]>
     };
 
     // Helper functions for colors
@@ -1034,26 +1047,8 @@ export function exportGroceryListAsPDF(groceryList: any[], filename?: string): v
     const dateWidth = pdf.getTextWidth(dateText);
     pdf.text(dateText, (pageWidth - dateWidth) / 2, 63);
 
-    // Group items by category
-    const groupedItems = groceryList.reduce((groups: Record<string, any[]>, item) => {
-      const category = item.category || 'General';
-      if (!groups[category]) {
-        groups[category] = [];
-      }
-      groups[category].push(item);
-      return groups;
-    }, {});
-
-    // Sort categories to put common ones first
-    const categoryOrder = ['Vegetables', 'Fruits', 'Dairy', 'Meat', 'Grains', 'General'];
-    const sortedCategories = Object.keys(groupedItems).sort((a, b) => {
-      const indexA = categoryOrder.indexOf(a);
-      const indexB = categoryOrder.indexOf(b);
-      if (indexA === -1 && indexB === -1) return a.localeCompare(b);
-      if (indexA === -1) return 1;
-      if (indexB === -1) return -1;
-      return indexA - indexB;
-    });
+    // Group items by store section in the user's preferred order
+    const sections = groupItemsBySection(groceryList, sectionOrder);
 
     let yPosition = 75; // Start much closer to the header
     const itemHeight = 6; // Reduce item height to fit more items
@@ -1069,8 +1064,8 @@ export function exportGroceryListAsPDF(groceryList: any[], filename?: string): v
     yPosition += 10; // Reduce space after total items
 
     // Process each category
-    sortedCategories.forEach((categoryName, categoryIndex) => {
-      const items = groupedItems[categoryName];
+    sections.forEach(({ section: categoryName, items: entries }, categoryIndex) => {
+      const items = entries.map(entry => entry.item);
       
       // Check if we need a new page for the whole category - be less aggressive
       const estimatedHeight = categoryHeaderHeight + (items.length * itemHeight) + 5;
@@ -1080,7 +1075,7 @@ export function exportGroceryListAsPDF(groceryList: any[], filename?: string): v
       }
 
       // Category header with colored background
-      const categoryColor = colors.category[categoryName.toLowerCase() as keyof typeof colors.category] || colors.category.general;
+      const categoryColor = colors.section[categoryName];
       setFillColor(categoryColor);
       pdf.roundedRect(margin, yPosition - 2, pageWidth - 2 * margin, categoryHeaderHeight - 2, 3, 3, 'F');
 
@@ -1126,17 +1121,12 @@ export function exportGroceryListAsPDF(groceryList: any[], filename?: string): v
         }
 
         // Item details
-        const amount = item.quantity || item.amount || '';
-        const unit = item.unit || '';
+        // The PDF font has no ½, so fractions are written as 1/2
+        const amount = formatIngredientAmount(item.quantity || item.amount, item.unit, { fractions: 'text' });
         const name = item.name || 'Unknown item';
         
         // Format item text
-        let itemText = name;
-        if (amount && unit) {
-          itemText = `${amount} ${unit} ${name}`;
-        } else if (amount) {
-          itemText = `${amount} ${name}`;
-        }
+        const itemText = amount ? `${amount} ${name}` : name;
 
         // Main item text
         setColor(colors.text.dark);
@@ -1183,7 +1173,7 @@ export function exportGroceryListAsPDF(groceryList: any[], filename?: string): v
     pdf.setFont('helvetica', 'normal');
     
     const summaryLines = [
-      `Total Categories: ${sortedCategories.length}`,
+      `Total Sections: ${sections.length}`,
       `Total Items: ${totalItems}`,
       `Generated: ${new Date().toLocaleString('en-US')}`
     ];
@@ -0,0 +1,409 @@
+/**
+ * Meal Plan Generator
+ *
+ * Fills the empty slots of a week from the recipe catalogue. The result
+ * only depends on the recipes, the constraints and the seed, so the same
+ * request always produces the same plan and a new seed gives a new one.
+ *
+ * Hard constraints rule a recipe out completely:
+ * - diet type, allergies, intolerances and excluded ingredients (`UserSettings.dietary`)
+ * - maximum cooking time (`UserSettings.recipes.maxCookTime`)
+ * - cooking skill level (beginners only get easy recipes, intermediate cooks easy and medium ones)
+ * - the meal type (a breakfast slot only takes recipes that are served for breakfast)
+ *
+ * Soft goals only change which of the remaining recipes wins a slot:
+ * - no recipe repeated within `noRepeatDays` days
+ * - a variety of cuisines, preferring the user's favourite ones
+ * - a time limit on weekdays
+ * - a daily calorie target
+ *
+ * A slot only stays empty when no recipe passes the hard constraints; the
+ * generator then explains which constraints ruled the recipes out.
+ */
+
+import { normalizeIngredientName } from '@/utils/groceryListHelper';
+import { getAvoidedTags, type DietaryRestrictions, type SubstitutionTag } from '@/utils/ingredientSubstitutions';
+
+export type GeneratorMealType = 'breakfast' | 'lunch' | 'dinner' | 'snacks';
+export type RecipeDifficulty = 'easy' | 'medium' | 'hard';
+export type CookingSkillLevel = 'beginner' | 'intermediate' | 'advanced';
+
+export const GENERATOR_MEAL_TYPES: GeneratorMealType[] = ['breakfast', 'lunch', 'dinner', 'snacks'];
+export const DEFAULT_GENERATOR_MEAL_TYPES: GeneratorMealType[] = ['breakfast', 'lunch', 'dinner'];
+export const DEFAULT_NO_REPEAT_DAYS = 7;
+
+/**
+ * A catalogue recipe reduced to what the generator looks at
+ */
+export interface PlannerRecipe {
+  id: string; // The recipeId stored on meal slots
+  title: string;
+  image?: string;
+  totalTime?: number; // Minutes, unknown times pass every time limit
+  difficulty: RecipeDifficulty;
+  cuisines: string[];
+  dishTypes: string[];
+  diets: string[]; // Lowercase labels such as "vegan" or "gluten free"
+  ingredients: string[];
+  allergens: string[];
+  calories?: number; // Per serving
+}
+
+export interface MealPlanConstraints {
+  restrictions?: DietaryRestrictions;
+  maxCookTime?: number;
+  skillLevel?: CookingSkillLevel;
+  preferredCuisines?: string[];
+  noRepeatDays?: number;
+  weekdayMaxTime?: number; // Minutes, Monday to Friday
+  dailyCalories?: number;
+}
+
+export interface PlanSlot {
+  dayIndex: number;
+  mealType: GeneratorMealType;
+}
+
+export interface PlannedMeal extends PlanSlot {
+  recipe: PlannerRecipe;
+}
+
+export interface EmptyPlanSlot extends PlanSlot {
+  reasons: string[];
+}
+
+export interface GenerateMealPlanOptions {
+  dates: Date[]; // One per day of the plan
+  mealTypes: GeneratorMealType[]; // The meal types to fill
+  constraints: MealPlanConstraints;
+  lockedSlots?: PlanSlot[]; // Slots that keep whatever they hold
+  keptMeals?: PlannedMeal[]; // Meals that stay in the plan; they count toward variety and calories
+  seed: number;
+}
+
+export interface GeneratedMealPlan {
+  meals: PlannedMeal[];
+  emptySlots: EmptyPlanSlot[];
+  seed: number;
+}
+
+type Rejection = DietaryConflict | 'cook-time' | 'skill' | 'meal-type';
+
+// Dish types (lowercase) that fit each meal type; recipes without dish types fit every slot
+const MEAL_TYPE_DISH_TYPES: Record<GeneratorMealType, string[]> = {
+  breakfast: ['breakfast', 'morning meal', 'brunch'],
+  lunch: ['lunch', 'main course', 'main dish', 'salad', 'soup', 'brunch'],
+  dinner: ['dinner', 'main course', 'main dish', 'soup'],
+  snacks: ['snack', 'snacks', 'appetizer', 'starter', 'fingerfood', 'dessert', 'side dish'],
+};
+
+// Share of the daily calorie target each meal type should cover
+const MEAL_CALORIE_SHARES: Record<GeneratorMealType, number> = {
+  breakfast: 0.25,
+  lunch: 0.35,
+  dinner: 0.3,
+  snacks: 0.1,
+};
+
+// Ingredient words that put a recipe in a tag (matched against whole normalized words)
+const INGREDIENT_TAG_KEYWORDS: Record<SubstitutionTag, string[]> = {
+  dairy: ['milk', 'cheese', 'butter', 'cream', 'yogurt', 'yoghurt', 'parmesan', 'mozzarella', 'cheddar', 'feta', 'ricotta', 'ghee', 'whey', 'buttermilk'],
+  egg: ['egg', 'egg yolk', 'egg white', 'mayonnaise'],
+  gluten: ['flour', 'wheat', 'bread', 'breadcrumb', 'pasta', 'spaghetti', 'noodle', 'barley', 'rye', 'couscous', 'bulgur', 'tortilla', 'semolina'],
+  soy: ['soy', 'soy sauce', 'tofu', 'tempeh', 'edamame', 'miso'],
+  peanuts: ['peanut'],
+  nuts: ['almond', 'walnut', 'pecan', 'cashew', 'hazelnut', 'pistachio', 'macadamia', 'pine nut'],
+  sesame: ['sesame', 'tahini'],
+  fish: ['fish', 'salmon', 'tuna', 'cod', 'anchovy', 'sardine', 'trout', 'halibut', 'tilapia', 'mackerel'],
+  shellfish: ['shrimp', 'prawn', 'crab', 'lobster', 'scallop', 'mussel', 'clam', 'oyster', 'squid'],
+  meat: ['chicken', 'beef', 'pork', 'bacon', 'ham', 'lamb', 'turkey', 'sausage', 'veal', 'prosciutto', 'salami', 'chorizo', 'duck', 'pancetta', 'gelatin'],
+  honey: ['honey'],
+};
+
+// Plant-based ingredients whose names would otherwise look like dairy
+const DAIRY_FREE_PHRASES = ['coconut milk', 'coconut cream', 'almond milk', 'oat milk', 'soy milk', 'rice milk', 'peanut butter', 'almond butter', 'cocoa butter', 'cream of tartar'];
+
+// Diet labels that vouch for a recipe not containing a tag
+const TAG_FREE_DIETS: Record<SubstitutionTag, string[]> = {
+  dairy: ['vegan', 'dairy free'],
+  egg: ['vegan'],
+  gluten: ['gluten free'],
+  soy: [],
+  peanuts: [],
+  nuts: [],
+  sesame: [],
+  fish: ['vegan', 'vegetarian', 'lacto ovo vegetarian'],
+  shellfish: ['vegan', 'vegetarian', 'lacto ovo vegetarian'],
+  meat: ['vegan', 'vegetarian', 'lacto ovo vegetarian', 'pescatarian'],
+  honey: [],
+};
+
+// Diet types that need a matching label on the recipe, since ingredients alone do not tell
+const LABELLED_DIETS: Record<string, string[]> = {
+  keto: ['ketogenic', 'keto'],
+  paleo: ['paleolithic', 'paleo', 'primal'],
+};
+
+const SKILL_DIFFICULTIES: Record<CookingSkillLevel, RecipeDifficulty[]> = {
+  beginner: ['easy'],
+  intermediate: ['easy', 'medium'],
+  advanced: ['easy', 'medium', 'hard'],
+};
+
+// Score weights
+const REPEAT_PENALTY = 100;
+const WEEK_REPEAT_PENALTY = 10;
+const CUISINE_REPEAT_PENALTY = 4;
+const SAME_DAY_CUISINE_PENALTY = 8;
+const PREFERRED_CUISINE_BONUS = 3;
+const WEEKDAY_TIME_PENALTY = 20;
+const CALORIE_PENALTY = 20;
+const UNKNOWN_CALORIES_PENALTY = 5;
+const JITTER = 3;
+
+/**
+ * Creates a seeded random number generator (mulberry32)
+ * @returns A function returning numbers in [0, 1)
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Guesses a difficulty for recipes that do not state one, from time and ingredient count
+ */
+export function estimateRecipeDifficulty(totalTime?: number, ingredientCount = 0): RecipeDifficulty {
+  if ((totalTime ?? 0) > 60 || ingredientCount > 15) return 'hard';
+  if ((totalTime ?? 0) <= 30 && ingredientCount <= 8) return 'easy';
+  return 'medium';
+}
+
+/**
+ * Checks whether a normalized ingredient name contains a keyword as whole words
+ */
+function containsKeyword(nameKey: string, keyword: string): boolean {
+  return ` ${nameKey} `.includes(` ${keyword} `);
+}
+
+/**
+ * Works out which tags (dairy, meat, gluten, ...) a recipe contains, from its
+ * ingredients and declared allergens; diet labels such as "vegan" clear tags
+ */
+export function getRecipeTags(recipe: PlannerRecipe): Set<SubstitutionTag> {
+  const tags = new Set<SubstitutionTag>();
+  const names = [...recipe.ingredients, ...recipe.allergens].map(name => normalizeIngredientName(name));
+
+  for (const [tag, keywords] of Object.entries(INGREDIENT_TAG_KEYWORDS) as Array<[SubstitutionTag, string[]]>) {
+    if (TAG_FREE_DIETS[tag].some(diet => recipe.diets.includes(diet))) continue;
+    const matches = names.some(name => {
+      const nameKey = tag === 'dairy'
+        ? DAIRY_FREE_PHRASES.reduce((key, phrase) => key.replace(phrase, ' '), name)
+        : name;
+      return keywords.some(keyword => containsKeyword(nameKey, keyword));
+    });
+    if (matches) tags.add(tag);
+  }
+
+  return tags;
+}
+
+/**
+ * Checks whether a recipe is served for a meal type
+ */
+export function suitsMealType(recipe: PlannerRecipe, mealType: GeneratorMealType): boolean {
+  if (recipe.dishTypes.length === 0) return true;
+  return recipe.dishTypes.some(dishType => MEAL_TYPE_DISH_TYPES[mealType].includes(dishType.toLowerCase()));
+}
+
+export type DietaryConflict = 'diet' | 'allergy' | 'excluded';
+
+/**
+ * Lists the dietary restrictions a recipe breaks (diet type, allergies and
+ * intolerances, excluded ingredients)
+ */
+export function getDietaryConflicts(recipe: PlannerRecipe, restrictions: DietaryRestrictions): DietaryConflict[] {
+  const conflicts: DietaryConflict[] = [];
+  const tags = getRecipeTags(recipe);
+
+  const dietTags = getAvoidedTags({ dietType: restrictions.dietType });
+  const dietLabels = LABELLED_DIETS[restrictions.dietType || ''];
+  if ([...dietTags].some(tag => tags.has(tag)) || (dietLabels && !dietLabels.some(label => recipe.diets.includes(label)))) {
+    conflicts.push('diet');
+  }
+
+  const allergyTags = getAvoidedTags({ allergies: restrictions.allergies, intolerances: restrictions.intolerances });
+  const allergyNames = [...(restrictions.allergies || []), ...(restrictions.intolerances || [])]
+    .map(name => normalizeIngredientName(name))
+    .filter(Boolean);
+  const recipeNames = [...recipe.ingredients, ...recipe.allergens].map(name => normalizeIngredientName(name));
+  if ([...allergyTags].some(tag => tags.has(tag)) || recipeNames.some(name => allergyNames.some(key => containsKeyword(name, key)))) {
+    conflicts.push('allergy');
+  }
+
+  const excluded = (restrictions.excludedIngredients || []).map(name => normalizeIngredientName(name)).filter(Boolean);
+  if (recipeNames.some(name => excluded.some(key => name === key || containsKeyword(name, key)))) {
+    conflicts.push('excluded');
+  }
+
+  return conflicts;
+}
+
+/**
+ * Lists the hard constraints a recipe breaks (meal type aside)
+ */
+function getRecipeRejections(recipe: PlannerRecipe, constraints: MealPlanConstraints): Rejection[] {
+  const rejections: Rejection[] = getDietaryConflicts(recipe, constraints.restrictions || {});
+
+  if (constraints.maxCookTime && recipe.totalTime !== undefined && recipe.totalTime > constraints.maxCookTime) {
+    rejections.push('cook-time');
+  }
+
+  if (constraints.skillLevel && !SKILL_DIFFICULTIES[constraints.skillLevel].includes(recipe.difficulty)) {
+    rejections.push('skill');
+  }
+
+  return rejections;
+}
+
+/**
+ * Turns the rejection counts of a meal type into readable reasons
+ */
+function describeRejections(
+  counts: Map<Rejection, number>,
+  recipeCount: number,
+  mealType: GeneratorMealType,
+  constraints: MealPlanConstraints
+): string[] {
+  if (recipeCount === 0) return ['The recipe catalogue is empty.'];
+
+  const restrictions = constraints.restrictions || {};
+  const labels: Record<Rejection, string> = {
+    'meal-type': `Not served for ${mealType}`,
+    diet: `Not suitable for your ${restrictions.dietType} diet`,
+    allergy: 'Contains something you are allergic or intolerant to',
+    excluded: `Uses an ingredient you excluded (${(restrictions.excludedIngredients || []).join(', ')})`,
+    'cook-time': `Takes longer than your maximum cooking time of ${constraints.maxCookTime} minutes`,
+    skill: `Too difficult for your ${constraints.skillLevel} skill level`,
+  };
+
+  return Array.from(counts, ([rejection, count]) => ({ rejection, count }))
+    .sort((a, b) => b.count - a.count)
+    .map(({ rejection, count }) => `${labels[rejection]}: ${count} ${count === 1 ? 'recipe' : 'recipes'}`)
+    .concat(`No recipe in the catalogue (${recipeCount}) passes all of these for ${mealType}.`);
+}
+
+/**
+ * Generates the meals for the open slots of a plan
+ *
+ * @param recipes - The recipe catalogue
+ * @param options - Days, meal types, constraints, locked slots and the seed
+ * @returns The generated meals plus the slots that stayed empty and why
+ */
+export function generateMealPlan(recipes: PlannerRecipe[], options: GenerateMealPlanOptions): GeneratedMealPlan {
+  const { dates, mealTypes, constraints, lockedSlots = [], keptMeals = [], seed } = options;
+  const random = createSeededRandom(seed);
+  const noRepeatDays = constraints.noRepeatDays ?? DEFAULT_NO_REPEAT_DAYS;
+  const preferredCuisines = (constraints.preferredCuisines || []).map(cuisine => cuisine.toLowerCase());
+
+  // Sorting makes the result independent of the order the catalogue was loaded in
+  const sortedRecipes = [...recipes].sort((a, b) => a.id.localeCompare(b.id));
+  const eligibleRecipes = sortedRecipes.filter(recipe => getRecipeRejections(recipe, constraints).length === 0);
+
+  const candidatesByMealType = new Map<GeneratorMealType, PlannerRecipe[]>();
+  const emptyReasonsByMealType = new Map<GeneratorMealType, string[]>();
+  for (const mealType of mealTypes) {
+    const candidates = eligibleRecipes.filter(recipe => suitsMealType(recipe, mealType));
+    candidatesByMealType.set(mealType, candidates);
+    if (candidates.length > 0) continue;
+
+    const counts = new Map<Rejection, number>();
+    for (const recipe of sortedRecipes) {
+      const rejections = getRecipeRejections(recipe, constraints);
+      if (!suitsMealType(recipe, mealType)) rejections.unshift('meal-type');
+      for (const rejection of rejections) counts.set(rejection, (counts.get(rejection) || 0) + 1);
+    }
+    emptyReasonsByMealType.set(mealType, describeRejections(counts, sortedRecipes.length, mealType, constraints));
+  }
+
+  const recipeDays = new Map<string, number[]>();
+  const cuisineDays = new Map<string, number[]>();
+  const dayCalories = dates.map(() => 0);
+  const planMeal = (meal: PlannedMeal) => {
+    recipeDays.set(meal.recipe.id, [...(recipeDays.get(meal.recipe.id) || []), meal.dayIndex]);
+    for (const cuisine of meal.recipe.cuisines.map(name => name.toLowerCase())) {
+      cuisineDays.set(cuisine, [...(cuisineDays.get(cuisine) || []), meal.dayIndex]);
+    }
+    dayCalories[meal.dayIndex] += meal.recipe.calories || 0;
+  };
+  keptMeals.forEach(planMeal);
+
+  const isLocked = (dayIndex: number, mealType: GeneratorMealType) =>
+    lockedSlots.some(slot => slot.dayIndex === dayIndex && slot.mealType === mealType);
+
+  const meals: PlannedMeal[] = [];
+  const emptySlots: EmptyPlanSlot[] = [];
+
+  dates.forEach((date, dayIndex) => {
+    const openMealTypes = mealTypes.filter(mealType => !isLocked(dayIndex, mealType));
+    const isWeekday = date.getDay() >= 1 && date.getDay() <= 5;
+
+    openMealTypes.forEach((mealType, position) => {
+      const candidates = candidatesByMealType.get(mealType) || [];
+      if (candidates.length === 0) {
+        emptySlots.push({ dayIndex, mealType, reasons: emptyReasonsByMealType.get(mealType) || [] });
+        return;
+      }
+
+      // The calories still open for the day, shared out over the remaining slots
+      const remainingShares = openMealTypes.slice(position).reduce((sum, type) => sum + MEAL_CALORIE_SHARES[type], 0);
+      const calorieTarget = constraints.dailyCalories
+        ? Math.max(0, constraints.dailyCalories - dayCalories[dayIndex]) * MEAL_CALORIE_SHARES[mealType] / remainingShares
+        : undefined;
+
+      let best: PlannerRecipe | null = null;
+      let bestScore = -Infinity;
+      for (const recipe of candidates) {
+        let score = random() * JITTER;
+
+        const plannedDays = recipeDays.get(recipe.id) || [];
+        if (plannedDays.some(day => Math.abs(day - dayIndex) < noRepeatDays)) score -= REPEAT_PENALTY;
+        score -= plannedDays.length * WEEK_REPEAT_PENALTY;
+
+        for (const cuisine of recipe.cuisines.map(name => name.toLowerCase())) {
+          const usedDays = cuisineDays.get(cuisine) || [];
+          score -= usedDays.length * CUISINE_REPEAT_PENALTY;
+          if (usedDays.includes(dayIndex)) score -= SAME_DAY_CUISINE_PENALTY;
+          if (preferredCuisines.includes(cuisine)) score += PREFERRED_CUISINE_BONUS;
+        }
+
+        if (isWeekday && constraints.weekdayMaxTime && recipe.totalTime && recipe.totalTime > constraints.weekdayMaxTime) {
+          score -= WEEKDAY_TIME_PENALTY + (recipe.totalTime - constraints.weekdayMaxTime) / 5;
+        }
+
+        if (calorieTarget !== undefined && constraints.dailyCalories) {
+          score -= recipe.calories
+            ? CALORIE_PENALTY * Math.abs(recipe.calories - calorieTarget) / constraints.dailyCalories
+            : UNKNOWN_CALORIES_PENALTY;
+        }
+
+        if (score > bestScore) {
+          best = recipe;
+          bestScore = score;
+        }
+      }
+
+      const meal = { dayIndex, mealType, recipe: best! };
+      meals.push(meal);
+      planMeal(meal);
+    });
+  });
+
+  return { meals, emptySlots, seed };
+}
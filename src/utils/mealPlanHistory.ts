@@ -0,0 +1,226 @@
+/**
+ * Meal Plan History
+ *
+ * Every edit of a meal plan is described as one operation (a meal added,
+ * moved or removed, servings or notes changed) by comparing the plan's days
+ * before and after it. The calendar keeps an undo and a redo stack of these
+ * operations, and the server keeps a revision of the plan after each of them.
+ */
+
+import { format } from 'date-fns';
+import { formatMealTypeName, getDayMealTypeIds, getMealsOfType, type MealTypeDay } from '@/utils/mealTypes';
+
+export type MealPlanOperationType = 'add' | 'move' | 'remove' | 'servings' | 'notes' | 'edit' | 'restore';
+
+export const MAX_UNDO_STEPS = 50;
+
+/**
+ * What an edit did, e.g. { type: 'move', label: 'Moved Pasta to dinner on Tue, Mar 3' }
+ */
+export interface MealPlanOperation {
+  type: MealPlanOperationType;
+  label: string;
+}
+
+// The fields of a meal the history compares
+interface HistoryMeal {
+  recipeId?: string;
+  recipeName?: string;
+  name?: string;
+  servings?: number;
+  notes?: string;
+}
+
+// A day of either meal plan type
+export type HistoryDay<M extends HistoryMeal = HistoryMeal> = MealTypeDay<M> & {
+  date: Date | string;
+  dailyNotes?: string;
+};
+
+/**
+ * An undoable edit: the days of one plan before and after it
+ */
+export interface MealPlanHistoryEntry<D extends HistoryDay = HistoryDay> {
+  planId: string;
+  operation: MealPlanOperation;
+  before: D[];
+  after: D[];
+}
+
+export interface MealPlanHistory<D extends HistoryDay = HistoryDay> {
+  undo: MealPlanHistoryEntry<D>[]; // Most recent last
+  redo: MealPlanHistoryEntry<D>[]; // Most recently undone last
+}
+
+// A meal with the slot it is planned in
+interface PlacedMeal {
+  meal: HistoryMeal;
+  dayIndex: number;
+  mealType: string;
+  position: number;
+  identity: string; // The recipe, whatever slot it is in
+  slot: string; // dayIndex:mealType
+}
+
+function getMealName(meal: HistoryMeal): string {
+  return meal.recipeName || meal.name || 'a meal';
+}
+
+/**
+ * Compares meals by their fields, ignoring key order and unset fields
+ */
+function getMealSignature(meal: HistoryMeal): string {
+  return JSON.stringify(
+    Object.entries(meal)
+      .filter(([, value]) => value !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+  );
+}
+
+function placeMeals(days: HistoryDay[]): PlacedMeal[] {
+  return days.flatMap((day, dayIndex) => getDayMealTypeIds(day).flatMap(mealType =>
+    getMealsOfType(day, mealType).map((meal, position) => ({
+      meal,
+      dayIndex,
+      mealType,
+      position,
+      identity: meal.recipeId || getMealName(meal),
+      slot: `${dayIndex}:${mealType}`,
+    }))
+  ));
+}
+
+/**
+ * Finds the meals of `from` that have no counterpart in `to`, matching
+ * meals by a key and counting repeats
+ */
+function findUnmatched(from: PlacedMeal[], to: PlacedMeal[], getKey: (meal: PlacedMeal) => string): PlacedMeal[] {
+  const available = new Map<string, number>();
+  to.forEach(meal => available.set(getKey(meal), (available.get(getKey(meal)) || 0) + 1));
+
+  return from.filter(meal => {
+    const count = available.get(getKey(meal)) || 0;
+    if (count > 0) {
+      available.set(getKey(meal), count - 1);
+      return false;
+    }
+    return true;
+  });
+}
+
+function describeSlot(days: HistoryDay[], meal: PlacedMeal): string {
+  const date = days[meal.dayIndex]?.date;
+  const dayLabel = date ? format(new Date(date), 'EEE, MMM d') : `day ${meal.dayIndex + 1}`;
+  return `${formatMealTypeName(meal.mealType).toLowerCase()} on ${dayLabel}`;
+}
+
+/**
+ * Describes the edit between two versions of a plan's days
+ *
+ * @returns The operation, or null if the days are the same
+ */
+export function describeMealPlanChange(before: HistoryDay[], after: HistoryDay[]): MealPlanOperation | null {
+  if (before.length !== after.length) {
+    return { type: 'edit', label: 'Changed the days of the plan' };
+  }
+
+  const beforeMeals = placeMeals(before);
+  const afterMeals = placeMeals(after);
+
+  // Meals that appeared or disappeared
+  const added = findUnmatched(afterMeals, beforeMeals, meal => meal.identity);
+  const removed = findUnmatched(beforeMeals, afterMeals, meal => meal.identity);
+
+  if (added.length === 1 && removed.length === 0) {
+    return { type: 'add', label: `Added ${getMealName(added[0].meal)} to ${describeSlot(after, added[0])}` };
+  }
+  if (removed.length === 1 && added.length === 0) {
+    return { type: 'remove', label: `Removed ${getMealName(removed[0].meal)} from ${describeSlot(before, removed[0])}` };
+  }
+  if (added.length === 1 && removed.length === 1) {
+    return { type: 'edit', label: `Replaced ${getMealName(removed[0].meal)} with ${getMealName(added[0].meal)}` };
+  }
+  if (added.length > 0 || removed.length > 0) {
+    return { type: 'edit', label: `Changed ${Math.max(added.length, removed.length)} meals` };
+  }
+
+  // The same meals, in other slots or another order
+  const arrived = findUnmatched(afterMeals, beforeMeals, meal => `${meal.slot}|${meal.identity}`);
+  if (arrived.length === 1) {
+    return { type: 'move', label: `Moved ${getMealName(arrived[0].meal)} to ${describeSlot(after, arrived[0])}` };
+  }
+  if (arrived.length > 1) {
+    return { type: 'move', label: `Moved ${arrived.length} meals` };
+  }
+  const reordered = afterMeals.find((meal, index) => meal.identity !== beforeMeals[index].identity);
+  if (reordered) {
+    return { type: 'move', label: `Reordered the ${describeSlot(after, reordered)}` };
+  }
+
+  // The same meals in the same places: compare them one by one
+  for (let index = 0; index < afterMeals.length; index++) {
+    const previous = beforeMeals[index].meal;
+    const current = afterMeals[index].meal;
+    if (previous.servings !== current.servings) {
+      return { type: 'servings', label: `Changed ${getMealName(current)} to ${current.servings || 0} servings` };
+    }
+    if ((previous.notes || '') !== (current.notes || '')) {
+      return { type: 'notes', label: `Edited the notes of ${getMealName(current)}` };
+    }
+    if (getMealSignature(previous) !== getMealSignature(current)) {
+      return { type: 'edit', label: `Edited ${getMealName(current)}` };
+    }
+  }
+
+  const notesDay = after.findIndex((day, index) => (day.dailyNotes || '') !== (before[index].dailyNotes || ''));
+  if (notesDay !== -1) {
+    return { type: 'notes', label: `Edited the notes of ${format(new Date(after[notesDay].date), 'EEE, MMM d')}` };
+  }
+
+  return null;
+}
+
+export function createMealPlanHistory<D extends HistoryDay>(): MealPlanHistory<D> {
+  return { undo: [], redo: [] };
+}
+
+/**
+ * Adds an edit to the history; a new edit cannot be redone over, so the
+ * redo stack is cleared
+ */
+export function recordMealPlanChange<D extends HistoryDay>(history: MealPlanHistory<D>, entry: MealPlanHistoryEntry<D>): MealPlanHistory<D> {
+  return {
+    undo: [...history.undo, entry].slice(-MAX_UNDO_STEPS),
+    redo: [],
+  };
+}
+
+/**
+ * Takes the last edit off the undo stack
+ *
+ * @returns The edit to revert (apply its `before` days) and the new history, or null if there is nothing to undo
+ */
+export function undoMealPlanChange<D extends HistoryDay>(history: MealPlanHistory<D>): { entry: MealPlanHistoryEntry<D>; history: MealPlanHistory<D> } | null {
+  const entry = history.undo[history.undo.length - 1];
+  if (!entry) return null;
+
+  return {
+    entry,
+    history: { undo: history.undo.slice(0, -1), redo: [...history.redo, entry] },
+  };
+}
+
+/**
+ * Takes the last undone edit off the redo stack
+ *
+ * @returns The edit to apply again (its `after` days) and the new history, or null if there is nothing to redo
+ */
+export function redoMealPlanChange<D extends HistoryDay>(history: MealPlanHistory<D>): { entry: MealPlanHistoryEntry<D>; history: MealPlanHistory<D> } | null {
+  const entry = history.redo[history.redo.length - 1];
+  if (!entry) return null;
+
+  return {
+    entry,
+    history: { undo: [...history.undo, entry], redo: history.redo.slice(0, -1) },
+  };
+}
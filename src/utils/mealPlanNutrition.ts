@@ -0,0 +1,171 @@
+/**
+ * Meal Plan Nutrition
+ *
+ * Reads the nutrients of a recipe (`nutrition.nutrients`, per serving),
+ * adds them up per meal, day and plan, and compares the days against the
+ * user's daily targets (`UserSettings.mealPlanning.nutritionTargets`).
+ * The targets are for one person, so they are compared with one serving of
+ * each meal rather than with everything cooked.
+ *
+ * Meals whose recipe has no nutrition data are gaps: they are listed, never
+ * counted as zero.
+ */
+
+export type NutrientKey = 'calories' | 'protein' | 'carbs' | 'fat' | 'fiber' | 'sugar' | 'sodium';
+
+export const NUTRIENT_KEYS: NutrientKey[] = ['calories', 'protein', 'carbs', 'fat', 'fiber', 'sugar', 'sodium'];
+
+export const NUTRIENT_INFO: Record<NutrientKey, { label: string; unit: 'kcal' | 'g' | 'mg'; names: string[] }> = {
+  calories: { label: 'Calories', unit: 'kcal', names: ['calories', 'energy'] },
+  protein: { label: 'Protein', unit: 'g', names: ['protein'] },
+  carbs: { label: 'Carbs', unit: 'g', names: ['carbohydrates', 'carbs', 'total carbohydrate'] },
+  fat: { label: 'Fat', unit: 'g', names: ['fat', 'total fat'] },
+  fiber: { label: 'Fibre', unit: 'g', names: ['fiber', 'fibre', 'dietary fiber'] },
+  sugar: { label: 'Sugar', unit: 'g', names: ['sugar', 'sugars', 'total sugars'] },
+  sodium: { label: 'Sodium', unit: 'mg', names: ['sodium'] },
+};
+
+export type NutritionValues = Record<NutrientKey, number>;
+
+// Daily amounts per nutrient; nutrients without a target are not compared
+export type NutritionTargets = Partial<NutritionValues>;
+
+export type TargetStatus = 'under' | 'within' | 'over';
+
+// A day within 10% of a target meets it
+export const TARGET_TOLERANCE = 0.1;
+
+export interface MealNutrition {
+  recipeId?: string;
+  recipeName: string;
+  mealType: string;
+  servings: number; // Eaten at this meal; a batch source's leftovers are counted at their own slots
+  attendees: string[]; // Household member ids, empty if not assigned
+  nutrition: NutritionValues | null; // For all servings; null when the recipe has no nutrition data
+}
+
+export interface DayNutrition {
+  date: string; // yyyy-MM-dd
+  totals: NutritionValues; // Of the meals with nutrition data, all servings
+  perPerson: NutritionValues; // One serving of each of those meals; compared with the targets
+  meals: MealNutrition[];
+  gapCount: number; // Meals without nutrition data
+  targetStatus: Partial<Record<NutrientKey, TargetStatus>>;
+}
+
+export interface NutritionGap {
+  recipeId?: string;
+  recipeName: string;
+  mealCount: number;
+}
+
+// What one household member eats of the meals they attend, by their portion
+export interface MemberNutrition {
+  memberId: string;
+  name: string;
+  totals: NutritionValues;
+  dailyAverage: NutritionValues; // Over the days the member eats at least one meal
+  mealCount: number;
+  gapCount: number; // Their meals without nutrition data
+}
+
+export interface MealPlanNutrition {
+  days: DayNutrition[];
+  totals: NutritionValues; // All servings
+  dailyAverage: NutritionValues; // Per person, over the days with at least one meal
+  targets: NutritionTargets;
+  mealCount: number;
+  gaps: NutritionGap[]; // Recipes without nutrition data, most planned first
+  members: MemberNutrition[]; // Household members eating at least one meal
+}
+
+export function createEmptyNutrition(): NutritionValues {
+  return { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0, sugar: 0, sodium: 0 };
+}
+
+/**
+ * Adds `values` times `factor` to `totals`
+ */
+export function addNutrition(totals: NutritionValues, values: NutritionValues, factor = 1): NutritionValues {
+  return Object.fromEntries(
+    NUTRIENT_KEYS.map(key => [key, totals[key] + values[key] * factor])
+  ) as NutritionValues;
+}
+
+/**
+ * Rounds calories and milligrams to whole numbers, grams to one decimal
+ */
+export function roundNutrition(values: NutritionValues): NutritionValues {
+  return Object.fromEntries(NUTRIENT_KEYS.map(key => [
+    key,
+    NUTRIENT_INFO[key].unit === 'g' ? Math.round(values[key] * 10) / 10 : Math.round(values[key]),
+  ])) as NutritionValues;
+}
+
+function convertAmount(amount: number, unit: string, targetUnit: string): number {
+  const from = unit.trim().toLowerCase();
+  if (from === 'mg' && targetUnit === 'g') return amount / 1000;
+  if (from === 'g' && targetUnit === 'mg') return amount * 1000;
+  if (from === 'kj' && targetUnit === 'kcal') return amount / 4.184;
+  return amount;
+}
+
+/**
+ * Reads the per-serving nutrients of a recipe document
+ *
+ * @returns The nutrients, or null if the recipe has no nutrition data (at least calories)
+ */
+export function readRecipeNutrition(recipe: { nutrition?: { nutrients?: Array<{ name?: string; amount?: number; unit?: string }> } } | null | undefined): NutritionValues | null {
+  const nutrients = recipe?.nutrition?.nutrients;
+  if (!Array.isArray(nutrients) || nutrients.length === 0) return null;
+
+  const values = createEmptyNutrition();
+  let hasCalories = false;
+
+  NUTRIENT_KEYS.forEach(key => {
+    const nutrient = nutrients.find(item => NUTRIENT_INFO[key].names.includes(String(item?.name || '').trim().toLowerCase()));
+    const amount = Number(nutrient?.amount);
+    if (!nutrient || !Number.isFinite(amount) || amount < 0) return;
+
+    values[key] = convertAmount(amount, nutrient.unit || NUTRIENT_INFO[key].unit, NUTRIENT_INFO[key].unit);
+    if (key === 'calories') hasCalories = true;
+  });
+
+  return hasCalories ? values : null;
+}
+
+/**
+ * Compares a day's amount of a nutrient with its target
+ *
+ * @returns The status, or null if there is no target
+ */
+export function getTargetStatus(value: number, target?: number): TargetStatus | null {
+  if (!target || target <= 0) return null;
+  if (value > target * (1 + TARGET_TOLERANCE)) return 'over';
+  if (value < target * (1 - TARGET_TOLERANCE)) return 'under';
+  return 'within';
+}
+
+/**
+ * Keeps the known nutrients with a positive amount from user input
+ */
+export function normalizeNutritionTargets(input: unknown): NutritionTargets {
+  if (!input || typeof input !== 'object') return {};
+
+  const targets: NutritionTargets = {};
+  NUTRIENT_KEYS.forEach(key => {
+    const value = Number((input as Record<string, unknown>)[key]);
+    if (Number.isFinite(value) && value > 0) {
+      targets[key] = value;
+    }
+  });
+  return targets;
+}
+
+/**
+ * Formats an amount with its unit, e.g. '1,850 kcal' or '62.5 g'
+ */
+export function formatNutrient(key: NutrientKey, value: number): string {
+  const rounded = NUTRIENT_INFO[key].unit === 'g' ? Math.round(value * 10) / 10 : Math.round(value);
+  return `${rounded.toLocaleString('en-US')} ${NUTRIENT_INFO[key].unit}`;
+}
@@ -0,0 +1,153 @@
+/**
+ * Meal Plan Rotation
+ *
+ * A rotation alternates between template meal plans week by week from a
+ * start date: with templates A, B and C, the first week is planned from A,
+ * the second from B, the third from C and the fourth from A again. Each time
+ * a template comes around again, meals with alternatives use their next
+ * alternative, so a cycle does not repeat exactly.
+ *
+ * Weeks are planned lazily, when the user first opens them. A week the user
+ * already has a plan for is left alone, and a week is never planned twice,
+ * even if the user deletes the plan that was created for it.
+ */
+
+import { addWeeks, differenceInCalendarDays } from 'date-fns';
+import {
+  DEFAULT_WEEK_STARTS_ON,
+  getWeekStartDate,
+  parseDateInput,
+  toDateKey,
+  type WeekStartsOn,
+} from '@/types/meal-planning';
+
+export type RotationStatus = 'active' | 'paused' | 'ended';
+
+export const ROTATION_STATUSES: RotationStatus[] = ['active', 'paused', 'ended'];
+export const MAX_ROTATION_TEMPLATES = 8;
+
+/**
+ * Rotation shape shared by the model and the UI
+ */
+export interface RotationSchedule {
+  templateIds: string[]; // Template meal plans, in rotation order
+  startDate: Date | string; // A day inside the first rotation week
+  endDate?: Date | string; // No weeks starting after this day are planned
+  status: RotationStatus;
+  skipOptionalMeals: boolean; // Leave out template meals marked optional
+  materializedWeeks: string[]; // yyyy-MM-dd starts of the weeks already planned
+}
+
+/**
+ * A week of a rotation and the template it is planned from
+ */
+export interface RotationWeek {
+  weekStart: string; // yyyy-MM-dd
+  weekIndex: number; // Weeks since the rotation started
+  templateId: string;
+  cycle: number; // How often the rotation went through all templates before this week
+}
+
+// Fields a client may set when starting or changing a rotation
+export interface RotationInput {
+  templateIds: string[];
+  startDate: string; // yyyy-MM-dd
+  endDate?: string | null; // yyyy-MM-dd, null removes it
+  skipOptionalMeals?: boolean;
+}
+
+/**
+ * Finds the rotation week starting on a day
+ *
+ * Weeks are counted from the start of the week containing the rotation's start
+ * date, so a rotation starting mid-week plans that whole week.
+ *
+ * @param weekStartsOn - The user's first day of the week
+ * @returns The week, or null if it is before the start or after the end of the rotation
+ */
+export function getRotationWeek(
+  schedule: RotationSchedule,
+  weekStart: Date,
+  weekStartsOn: WeekStartsOn = DEFAULT_WEEK_STARTS_ON
+): RotationWeek | null {
+  if (schedule.templateIds.length === 0) return null;
+
+  const rotationStart = getWeekStartDate(new Date(schedule.startDate), weekStartsOn);
+  const weekIndex = Math.floor(differenceInCalendarDays(weekStart, rotationStart) / 7);
+  if (weekIndex < 0) return null;
+  if (schedule.endDate && differenceInCalendarDays(weekStart, new Date(schedule.endDate)) > 0) return null;
+
+  return {
+    weekStart: toDateKey(weekStart),
+    weekIndex,
+    templateId: schedule.templateIds[weekIndex % schedule.templateIds.length],
+    cycle: Math.floor(weekIndex / schedule.templateIds.length),
+  };
+}
+
+/**
+ * Finds the rotation week that still has to be planned for the week starting on a day
+ *
+ * @returns The week, or null if the rotation is not active then or the week was planned before
+ */
+export function getWeekToMaterialize(
+  schedule: RotationSchedule,
+  weekStart: Date,
+  weekStartsOn: WeekStartsOn = DEFAULT_WEEK_STARTS_ON
+): RotationWeek | null {
+  if (schedule.status !== 'active') return null;
+
+  const week = getRotationWeek(schedule, weekStart, weekStartsOn);
+  if (!week || schedule.materializedWeeks.includes(week.weekStart)) return null;
+  return week;
+}
+
+/**
+ * Lists the next weeks of a rotation, e.g. to show which template comes when
+ *
+ * @param from - A day inside the first week to list
+ * @param count - How many weeks to list
+ */
+export function getUpcomingRotationWeeks(
+  schedule: RotationSchedule,
+  from: Date,
+  count: number,
+  weekStartsOn: WeekStartsOn = DEFAULT_WEEK_STARTS_ON
+): RotationWeek[] {
+  const firstWeek = getWeekStartDate(from, weekStartsOn);
+  const weeks: RotationWeek[] = [];
+
+  for (let offset = 0; offset < count; offset++) {
+    const week = getRotationWeek(schedule, addWeeks(firstWeek, offset), weekStartsOn);
+    if (week) weeks.push(week);
+  }
+  return weeks;
+}
+
+/**
+ * Validates a rotation from a request body
+ *
+ * @param input - The request body
+ * @returns An error message, or null if the input is valid
+ */
+export function validateRotationInput(input: Partial<Record<keyof RotationInput, unknown>>): string | null {
+  const { templateIds, startDate, endDate, skipOptionalMeals } = input;
+
+  const isValidList = Array.isArray(templateIds) && templateIds.length > 0 &&
+    templateIds.length <= MAX_ROTATION_TEMPLATES && templateIds.every(id => typeof id === 'string' && id);
+  if (!isValidList) {
+    return `templateIds must list 1 to ${MAX_ROTATION_TEMPLATES} template meal plans`;
+  }
+  const start = parseDateInput(startDate);
+  if (!start) {
+    return 'startDate must be a date (yyyy-MM-dd)';
+  }
+  if (endDate !== undefined && endDate !== null) {
+    const end = parseDateInput(endDate);
+    if (!end || end < start) return 'endDate must be a date (yyyy-MM-dd) on or after startDate';
+  }
+  if (skipOptionalMeals !== undefined && typeof skipOptionalMeals !== 'boolean') {
+    return 'skipOptionalMeals must be true or false';
+  }
+  return null;
+}
@@ -0,0 +1,188 @@
+/**
+ * Meal Types
+ *
+ * Each user has an ordered list of meal types with a default time and colour.
+ * Besides the four built-in types (breakfast, lunch, dinner, snacks) a user
+ * can add their own, e.g. "Second Breakfast", "Pre-Workout" or "Kids' Dinner".
+ *
+ * Meals of the built-in types stay in the day's `breakfast`, `lunch`,
+ * `dinner` and `snacks` arrays so existing plans keep working; meals of
+ * custom types are stored in the day's `customMeals`, keyed by the type id.
+ */
+
+export type BuiltInMealType = 'breakfast' | 'lunch' | 'dinner' | 'snacks';
+
+export const BUILT_IN_MEAL_TYPES: BuiltInMealType[] = ['breakfast', 'lunch', 'dinner', 'snacks'];
+export const MAX_MEAL_TYPES = 12;
+
+export interface MealTypeDefinition {
+  id: string; // A built-in type, or a slug of the name for custom types ('pre-workout')
+  name: string; // Display name
+  time: string; // Default time, HH:MM
+  color: string; // Hex colour, #rrggbb
+  emoji?: string;
+}
+
+// Colours match the Google Calendar event colours the built-ins always used
+export const DEFAULT_MEAL_TYPES: MealTypeDefinition[] = [
+  { id: 'breakfast', name: 'Breakfast', time: '08:00', color: '#f4511e', emoji: '🍳' },
+  { id: 'lunch', name: 'Lunch', time: '12:30', color: '#f6bf26', emoji: '🥗' },
+  { id: 'dinner', name: 'Dinner', time: '18:00', color: '#7986cb', emoji: '🍽️' },
+  { id: 'snacks', name: 'Snacks', time: '15:00', color: '#33b679', emoji: '🍎' },
+];
+
+export const CUSTOM_MEAL_TYPE_EMOJI = '🍴';
+const CUSTOM_MEAL_TYPE_COLOR = '#6b7c6b';
+const CUSTOM_MEAL_TYPE_TIME = '12:00';
+
+// The fields of a day meal types read and write
+export type MealTypeDay<M> = Record<BuiltInMealType, M[]> & {
+  customMeals?: Record<string, M[]>;
+};
+
+/**
+ * Checks whether a meal type is one of the four built-ins
+ */
+export function isBuiltInMealType(mealType: string): mealType is BuiltInMealType {
+  return (BUILT_IN_MEAL_TYPES as string[]).includes(mealType);
+}
+
+/**
+ * Gets the meals of a type on a day
+ */
+export function getMealsOfType<M>(day: MealTypeDay<M>, mealType: string): M[] {
+  if (isBuiltInMealType(mealType)) return day[mealType] || [];
+  return day.customMeals?.[mealType] || [];
+}
+
+/**
+ * Replaces the meals of a type on a day
+ *
+ * Custom types without meals are dropped from `customMeals`.
+ */
+export function setMealsOfType<M, D extends MealTypeDay<M>>(day: D, mealType: string, meals: M[]): D {
+  if (isBuiltInMealType(mealType)) return { ...day, [mealType]: meals };
+
+  const customMeals = { ...day.customMeals };
+  if (meals.length > 0) {
+    customMeals[mealType] = meals;
+  } else {
+    delete customMeals[mealType];
+  }
+  return { ...day, customMeals };
+}
+
+/**
+ * Lists the meal types a day has meals of: the built-ins, then its custom types
+ */
+export function getDayMealTypeIds<M>(day: MealTypeDay<M>): string[] {
+  const customTypes = Object.keys(day.customMeals || {}).filter(mealType => !isBuiltInMealType(mealType));
+  return [...BUILT_IN_MEAL_TYPES, ...customTypes];
+}
+
+/**
+ * Gets all meals of a day, in meal type order
+ */
+export function getAllMeals<M>(day: MealTypeDay<M>, mealTypes: MealTypeDefinition[] = DEFAULT_MEAL_TYPES): M[] {
+  return getMealTypesForDays(mealTypes, [day]).flatMap(mealType => getMealsOfType(day, mealType.id));
+}
+
+/**
+ * Counts the meals of a day
+ */
+export function countDayMeals<M>(day: MealTypeDay<M>): number {
+  return getDayMealTypeIds(day).reduce((count, mealType) => count + getMealsOfType(day, mealType).length, 0);
+}
+
+/**
+ * Turns a meal type id into a display name ('pre-workout' → 'Pre Workout')
+ */
+export function formatMealTypeName(mealType: string): string {
+  return mealType
+    .split(/[-_\s]+/)
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+/**
+ * Finds the definition of a meal type, falling back to the built-in default
+ * or a neutral definition for types the user has since removed
+ */
+export function getMealTypeDefinition(mealTypes: MealTypeDefinition[], mealType: string): MealTypeDefinition {
+  return mealTypes.find(definition => definition.id === mealType)
+    || DEFAULT_MEAL_TYPES.find(definition => definition.id === mealType)
+    || { id: mealType, name: formatMealTypeName(mealType), time: CUSTOM_MEAL_TYPE_TIME, color: CUSTOM_MEAL_TYPE_COLOR, emoji: CUSTOM_MEAL_TYPE_EMOJI };
+}
+
+/**
+ * Lists the meal types to show for some days: the user's types in their
+ * order, followed by any type that still has meals but is no longer configured
+ */
+export function getMealTypesForDays<M>(mealTypes: MealTypeDefinition[], days: MealTypeDay<M>[]): MealTypeDefinition[] {
+  const configured = new Set(mealTypes.map(mealType => mealType.id));
+  const unconfigured = new Set<string>();
+
+  for (const day of days) {
+    for (const mealType of getDayMealTypeIds(day)) {
+      if (!configured.has(mealType) && getMealsOfType(day, mealType).length > 0) unconfigured.add(mealType);
+    }
+  }
+
+  return [...mealTypes, ...[...unconfigured].map(mealType => getMealTypeDefinition([], mealType))];
+}
+
+/**
+ * Creates the id of a new custom meal type from its name
+ *
+ * @param name - The display name
+ * @param existingIds - Ids already in use; a number is appended on a clash
+ */
+export function createMealTypeId(name: string, existingIds: string[] = []): string {
+  const base = name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'meal';
+  const taken = new Set(existingIds);
+
+  let id = base;
+  for (let suffix = 2; taken.has(id); suffix++) {
+    id = `${base}-${suffix}`;
+  }
+  return id;
+}
+
+/**
+ * Cleans up a list of meal types (e.g. from a settings update)
+ *
+ * Invalid entries and duplicate ids are dropped and the list is capped at
+ * MAX_MEAL_TYPES; an empty or missing list falls back to the defaults.
+ */
+export function normalizeMealTypes(input: unknown): MealTypeDefinition[] {
+  if (!Array.isArray(input)) return DEFAULT_MEAL_TYPES.map(mealType => ({ ...mealType }));
+
+  const seen = new Set<string>();
+  const mealTypes: MealTypeDefinition[] = [];
+
+  for (const entry of input) {
+    if (!entry || typeof entry !== 'object') continue;
+    const { id, name, time, color, emoji } = entry as Partial<MealTypeDefinition>;
+    if (typeof id !== 'string' || !/^[a-z0-9][a-z0-9-]*$/.test(id) || seen.has(id)) continue;
+    if (typeof name !== 'string' || !name.trim()) continue;
+
+    seen.add(id);
+    mealTypes.push({
+      id,
+      name: name.trim().slice(0, 40),
+      time: typeof time === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(time) ? time : getMealTypeDefinition([], id).time,
+      color: typeof color === 'string' && /^#[0-9a-f]{6}$/i.test(color) ? color.toLowerCase() : getMealTypeDefinition([], id).color,
+      ...(typeof emoji === 'string' && emoji.trim() && { emoji: emoji.trim().slice(0, 8) }),
+    });
+    if (mealTypes.length === MAX_MEAL_TYPES) break;
+  }
+
+  return mealTypes.length > 0 ? mealTypes : DEFAULT_MEAL_TYPES.map(mealType => ({ ...mealType }));
+}
+
@@ -0,0 +1,140 @@
+/**
+ * Pantry Helper
+ *
+ * Matches grocery items against what the user already has at home. Uses the
+ * same name normalization and unit conversion as the grocery list
+ * consolidation engine, so "2 tbsp olive oil" can come out of a
+ * "500 ml olive oil" bottle.
+ *
+ * Pantry entries without a quantity mean "in stock, amount unknown"
+ * (typical for salt or spices) and cover any required amount.
+ */
+
+import {
+  convertQuantity,
+  normalizeIngredientName,
+  roundQuantity,
+  type GroceryItem,
+} from '@/utils/groceryListHelper';
+
+/**
+ * Minimal pantry entry shape shared by the model and the UI
+ */
+export interface PantryStock {
+  name: string;
+  quantity?: number; // Missing = in stock, amount unknown
+  unit?: string;
+}
+
+export interface PantrySubtractionResult {
+  toBuy: GroceryItem[]; // Remaining amounts that still need to be bought
+  alreadyHave: GroceryItem[]; // Amounts covered by the pantry
+}
+
+/**
+ * Takes up to `quantity` of an item out of the given pantry entries (mutates them)
+ * @returns The amount that could not be covered, in the item's unit
+ */
+function takeFromPantry(pantry: PantryStock[], name: string, quantity: number, unit: string): number {
+  const nameKey = normalizeIngredientName(name);
+  let needed = quantity;
+
+  for (const entry of pantry) {
+    if (needed <= 0) break;
+    if (normalizeIngredientName(entry.name) !== nameKey) continue;
+
+    // Unknown amount: assume there is enough
+    if (entry.quantity === undefined || entry.quantity === null) return 0;
+    if (entry.quantity <= 0) continue;
+
+    const available = convertQuantity(entry.quantity, entry.unit || '', unit, nameKey);
+    if (available === null || available <= 0) continue;
+
+    const used = Math.min(needed, available);
+    needed -= used;
+    entry.quantity = roundQuantity(entry.quantity * (1 - used / available));
+  }
+
+  return Math.max(0, needed);
+}
+
+/**
+ * Splits grocery items into what still needs to be bought and what the
+ * pantry already covers. Partially covered items appear in both lists.
+ *
+ * @param items - Consolidated grocery items
+ * @param pantry - The user's pantry (not modified)
+ */
+export function subtractPantryStock(items: GroceryItem[], pantry: PantryStock[]): PantrySubtractionResult {
+  const remaining = pantry.map(entry => ({ ...entry }));
+  const toBuy: GroceryItem[] = [];
+  const alreadyHave: GroceryItem[] = [];
+
+  for (const item of items) {
+    const missing = roundQuantity(takeFromPantry(remaining, item.name, item.quantity, item.unit));
+    const covered = roundQuantity(item.quantity - missing);
+
+    if (covered > 0) alreadyHave.push({ ...item, quantity: covered });
+    if (missing > 0) toBuy.push({ ...item, quantity: missing });
+  }
+
+  return { toBuy, alreadyHave };
+}
+
+/**
+ * Calculates the pantry after cooking: used amounts are taken out of the
+ * matching entries. Entries with an unknown amount are left unchanged.
+ *
+ * @param pantry - The user's pantry (not modified)
+ * @param used - Ingredients used for cooking
+ * @returns Copies of all pantry entries with updated quantities
+ */
+export function deductFromPantry<T extends PantryStock>(pantry: T[], used: GroceryItem[]): T[] {
+  const remaining = pantry.map(entry => ({ ...entry }));
+
+  for (const item of used) {
+    takeFromPantry(remaining, item.name, item.quantity, item.unit);
+  }
+
+  return remaining;
+}
+
+/**
+ * Finds the pantry entry new stock should be added to: the first entry with
+ * the same name and a convertible unit, or an entry with an unknown amount.
+ * Stock without an amount matches any entry with the same name.
+ *
+ * @returns The index of the entry, or -1 if the stock needs its own entry
+ */
+export function findPantryMatch(pantry: PantryStock[], stock: PantryStock): number {
+  const nameKey = normalizeIngredientName(stock.name);
+  const hasAmount = stock.quantity !== undefined && stock.quantity !== null;
+  let unknownAmountIndex = -1;
+
+  for (let index = 0; index < pantry.length; index++) {
+    const entry = pantry[index];
+    if (normalizeIngredientName(entry.name) !== nameKey) continue;
+    if (!hasAmount) return index;
+
+    if (entry.quantity === undefined || entry.quantity === null) {
+      if (unknownAmountIndex === -1) unknownAmountIndex = index;
+      continue;
+    }
+    if (convertQuantity(1, stock.unit || '', entry.unit || '', nameKey) !== null) return index;
+  }
+
+  return unknownAmountIndex;
+}
+
+/**
+ * Parses a free-text amount like "2", "500 g" or "1.5 l" (e.g. from the
+ * fridge analysis) into quantity and unit
+ */
+export function parsePantryAmount(amount?: string | number | null): { quantity?: number; unit: string } {
+  if (typeof amount === 'number') return { quantity: amount, unit: '' };
+
+  const match = (amount || '').trim().replace(',', '.').match(/^(\d+(?:\.\d+)?)\s*(.*)$/);
+  if (!match) return { quantity: undefined, unit: '' };
+
+  return { quantity: parseFloat(match[1]), unit: match[2].trim() };
+}
@@ -8,6 +8,7 @@
 import { connectToDatabase, COLLECTIONS } from '@/lib/db';
 import { ApiResponse, PaginatedResponse, PaginationParams } from '@/types/api';
 import { ObjectId } from 'mongodb';
+import { syncRecipeSearchEntry } from '@/services/recipeSearchService.server';
 
 // Basis-Interface für Rezepte
 interface BasicRecipe {
@@ -69,6 +70,7 @@ export async function createRecipe(recipeData: {
     };
     
     const result = await recipesCollection.insertOne(newRecipe);
+    await syncRecipeSearchEntry(COLLECTIONS.RECIPES, result.insertedId);
     
     return {
       success: true,
@@ -241,6 +243,7 @@ export async function updateRecipe(
         error: 'Rezept nicht gefunden'
       };
     }
+    await syncRecipeSearchEntry(COLLECTIONS.RECIPES, result.value._id);
     
     return {
       success: true,
@@ -278,6 +281,7 @@ export async function deleteRecipe(recipeId: string): Promise<ApiResponse<null>>
         error: 'Rezept nicht gefunden'
       };
     }
+    await syncRecipeSearchEntry(COLLECTIONS.RECIPES, new ObjectId(recipeId));
     
     return {
       success: true,
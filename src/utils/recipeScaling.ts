@@ -0,0 +1,291 @@
+/**
+ * Recipe Scaling
+ *
+ * Scales the ingredients of a recipe by servings, or by the amount of one key
+ * ingredient ("I have 750 g of chicken"), and writes the result the way a cook
+ * would:
+ * - The most readable unit after scaling: 3 tsp → 1 tbsp, 1000 g → 1 kg
+ * - Fractions for US units, spoons and whole items (1½ cups), decimals for metric ones
+ * - US ↔ metric conversion of volumes and weights
+ * - "Salt to taste" and pinches keep their amount; whole items that end up
+ *   split ("1½ eggs") get a warning
+ * Shared by the recipe page, the grocery list and the PDF exports.
+ */
+
+import { convertQuantity, normalizeIngredientName, parseIngredientAmount, resolveUnit } from '@/utils/groceryListHelper';
+
+export type UnitSystem = 'us' | 'metric';
+
+// 'text' writes "1 1/2" for PDF fonts that have no ½
+export type FractionStyle = 'unicode' | 'text';
+
+/**
+ * Ingredient in any of the recipe and grocery list shapes
+ */
+export interface ScalableIngredient {
+  name?: string;
+  amount?: number | string;
+  quantity?: number | string;
+  unit?: string;
+  original?: string;
+}
+
+export interface ScaledIngredient {
+  name: string;
+  amount: number | null; // Rounded as shown; null without an amount
+  amountText: string; // "1½", "2.5" or '' without an amount
+  unit: string;
+  text: string; // "1½ cups flour"
+  scalable: boolean; // false for "to taste", pinches and ingredients without an amount
+  warning?: string;
+}
+
+export interface ScaleOptions {
+  unitSystem?: UnitSystem; // Converts into this system; by default each ingredient keeps its own
+  fractions?: FractionStyle;
+}
+
+interface ReadableUnit {
+  unit: string;
+  factor: number; // ml or g in one unit
+  from: number; // Smallest amount in ml or g written in this unit
+}
+
+// Per system and dimension, smallest first; an amount takes the largest unit it reaches
+const READABLE_UNITS: Record<UnitSystem, Record<'volume' | 'mass', ReadableUnit[]>> = {
+  us: {
+    volume: [
+      { unit: 'tsp', factor: 4.92892, from: 0 },
+      { unit: 'tbsp', factor: 14.7868, from: 14.7868 },
+      { unit: 'cup', factor: 236.588, from: 59.147 }, // ¼ cup
+      { unit: 'gallon', factor: 3785.41, from: 3785.41 },
+    ],
+    mass: [
+      { unit: 'oz', factor: 28.3495, from: 0 },
+      { unit: 'lb', factor: 453.592, from: 453.592 },
+    ],
+  },
+  metric: {
+    volume: [
+      { unit: 'tsp', factor: 4.92892, from: 0 },
+      { unit: 'tbsp', factor: 14.7868, from: 14.7868 },
+      { unit: 'ml', factor: 1, from: 50 },
+      { unit: 'l', factor: 1000, from: 1000 },
+    ],
+    mass: [
+      { unit: 'g', factor: 1, from: 0 },
+      { unit: 'kg', factor: 1000, from: 1000 },
+    ],
+  },
+};
+
+const METRIC_UNITS = new Set(['ml', 'cl', 'dl', 'l', 'mg', 'g', 'kg']);
+const SPOON_UNITS = new Set(['tsp', 'tbsp']);
+const PLURAL_UNITS = new Set(['cup', 'gallon']);
+
+// Amounts that are a matter of taste, not of the servings
+const NON_SCALABLE_UNITS = new Set(['pinch', 'pinches', 'dash', 'dashes', 'splash', 'prise', 'prisen', 'messerspitze', 'etwas']);
+const TO_TASTE = /\b(to taste|as needed|as desired|for serving|for garnish|nach geschmack|nach belieben)\b/i;
+
+const FRACTION_GLYPHS: Record<string, string> = {
+  '1/8': '⅛', '1/4': '¼', '1/3': '⅓', '3/8': '⅜', '1/2': '½', '5/8': '⅝', '2/3': '⅔', '3/4': '¾', '7/8': '⅞',
+};
+
+const TOLERANCE = 0.01;
+
+function parseAmount(ingredient: ScalableIngredient): number {
+  const raw = ingredient.amount ?? ingredient.quantity;
+  return typeof raw === 'number' ? raw : parseIngredientAmount(String(raw ?? '')) ?? NaN;
+}
+
+/**
+ * Rounds to the nearest eighth or third below 3, to halves below 10 and to whole numbers above
+ */
+function roundToFraction(amount: number): number {
+  if (amount >= 10) return Math.round(amount);
+  if (amount >= 3) return Math.round(amount * 2) / 2;
+  const eighths = Math.round(amount * 8) / 8;
+  const thirds = Math.round(amount * 3) / 3;
+  return Math.max(Math.abs(thirds - amount) < Math.abs(eighths - amount) ? thirds : eighths, 1 / 8);
+}
+
+/**
+ * Rounds metric amounts: one decimal below 10, whole numbers below 100, fives above;
+ * litres and kilograms to 0.05
+ */
+function roundMetric(amount: number, unit: string): number {
+  if (unit === 'l' || unit === 'kg') return Math.max(Math.round(amount * 20) / 20, 0.05);
+  if (amount < 10) return Math.max(Math.round(amount * 10) / 10, 0.1);
+  if (amount < 100) return Math.round(amount);
+  return Math.round(amount / 5) * 5;
+}
+
+/**
+ * Writes an amount as a whole number with a fraction ("1½", "⅓", "2 1/4")
+ */
+export function formatFraction(amount: number, style: FractionStyle = 'unicode'): string {
+  const whole = Math.floor(amount + TOLERANCE);
+  const rest = amount - whole;
+  if (rest < TOLERANCE) return String(whole);
+
+  for (const denominator of [2, 3, 4, 8]) {
+    const numerator = Math.round(rest * denominator);
+    if (numerator === 0 || Math.abs(numerator / denominator - rest) >= TOLERANCE) continue;
+    const fraction = `${numerator}/${denominator}`;
+    if (style === 'text') return whole ? `${whole} ${fraction}` : fraction;
+    return `${whole || ''}${FRACTION_GLYPHS[fraction] || ` ${fraction}`}`.trim();
+  }
+  return String(Math.round(amount * 100) / 100);
+}
+
+/**
+ * Picks the unit an amount is easiest to read in
+ * @param baseAmount - Amount in ml or g
+ * @param sourceUnit - Canonical unit the amount was given in
+ */
+function pickReadableUnit(baseAmount: number, dimension: 'volume' | 'mass', sourceUnit: string, system: UnitSystem): ReadableUnit {
+  let units = READABLE_UNITS[system][dimension];
+  // Metric recipes that measure in ml keep doing so instead of switching to spoons
+  if (system === 'metric' && METRIC_UNITS.has(sourceUnit)) units = units.filter(unit => !SPOON_UNITS.has(unit.unit));
+
+  return units.reduce((best, unit) => baseAmount >= unit.from * (1 - TOLERANCE) ? unit : best, units[0]);
+}
+
+/**
+ * Turns an English ingredient name into its plural ("egg" → "eggs")
+ * Names with capitals (German nouns) are left as they are.
+ */
+function pluralizeName(name: string): string {
+  if (!/^[a-z][a-z -]*$/.test(name) || name.endsWith('s')) return name;
+  if (/[^aeiou]y$/.test(name)) return `${name.slice(0, -1)}ies`;
+  if (/(o|ch|sh|x)$/.test(name)) return `${name}es`;
+  return `${name}s`;
+}
+
+function buildScaled(name: string, amount: number | null, amountText: string, unit: string, scalable: boolean, warning?: string): ScaledIngredient {
+  return {
+    name,
+    amount,
+    amountText,
+    unit,
+    text: [amountText, unit, name].filter(Boolean).join(' '),
+    scalable,
+    ...(warning && { warning }),
+  };
+}
+
+/**
+ * Finds the factor that takes a recipe from its servings to other servings
+ * @returns 1 when either number of servings is unknown
+ */
+export function getServingsScale(recipeServings: number | undefined, servings: number | undefined): number {
+  return recipeServings && recipeServings > 0 && servings && servings > 0 ? servings / recipeServings : 1;
+}
+
+/**
+ * Finds the factor that makes a recipe use a given amount of one of its ingredients
+ *
+ * @param ingredient - The key ingredient as the recipe lists it
+ * @param amount - How much of it there is
+ * @param unit - Unit of the amount; converted into the recipe's unit where possible
+ * @returns The factor, or null when the amounts cannot be compared ("1 can" vs "400 g")
+ */
+export function getKeyIngredientScale(ingredient: ScalableIngredient, amount: number, unit: string): number | null {
+  const recipeAmount = parseAmount(ingredient);
+  if (!(recipeAmount > 0) || !(amount > 0)) return null;
+
+  const converted = convertQuantity(amount, unit, ingredient.unit || '', normalizeIngredientName(ingredient.name || ''));
+  return converted === null ? null : converted / recipeAmount;
+}
+
+/**
+ * Guesses the unit system a recipe is written in, from its weights and volumes
+ * Spoons count for neither; recipes without metric units are US.
+ */
+export function detectUnitSystem(ingredients: ScalableIngredient[]): UnitSystem {
+  let metric = 0;
+  let us = 0;
+  ingredients.forEach(ingredient => {
+    const definition = resolveUnit(ingredient.unit);
+    if (definition.dimension !== 'volume' && definition.dimension !== 'mass') return;
+    if (METRIC_UNITS.has(definition.canonical)) metric++;
+    else if (!SPOON_UNITS.has(definition.canonical)) us++;
+  });
+  return metric > us ? 'metric' : 'us';
+}
+
+/**
+ * Checks whether an ingredient is seasoned to taste rather than measured
+ */
+export function isToTaste(ingredient: ScalableIngredient): boolean {
+  return TO_TASTE.test(`${ingredient.unit || ''} ${ingredient.name || ''} ${ingredient.original || ''}`);
+}
+
+/**
+ * Scales one ingredient and writes it in its most readable unit
+ *
+ * @param ingredient - The ingredient as the recipe lists it
+ * @param scale - Factor from getServingsScale() or getKeyIngredientScale()
+ * @param options - Unit system to convert into and how to write fractions
+ */
+export function scaleIngredient(ingredient: ScalableIngredient, scale: number, options: ScaleOptions = {}): ScaledIngredient {
+  const name = (ingredient.name || ingredient.original || '').trim();
+  const unit = (ingredient.unit || '').trim();
+  const amount = parseAmount(ingredient);
+  const fractions = options.fractions || 'unicode';
+
+  if (!(amount > 0)) return buildScaled(name, null, '', unit, false);
+
+  if (isToTaste(ingredient) || NON_SCALABLE_UNITS.has(unit.toLowerCase())) {
+    const warning = scale !== 1 && NON_SCALABLE_UNITS.has(unit.toLowerCase()) ? 'Not scaled: adjust to taste' : undefined;
+    // "Salt to taste" has no amount worth showing, "1 tsp salt, or to taste" does
+    const amountText = unit ? formatFraction(roundToFraction(amount), fractions) : '';
+    return buildScaled(name, amount, amountText, unit, false, warning);
+  }
+
+  const scaled = amount * scale;
+  const definition = resolveUnit(unit);
+
+  if (definition.dimension === 'volume' || definition.dimension === 'mass') {
+    const system = options.unitSystem || (METRIC_UNITS.has(definition.canonical) ? 'metric' : 'us');
+    const readable = pickReadableUnit(scaled * definition.factor, definition.dimension, definition.canonical, system);
+    const converted = (scaled * definition.factor) / readable.factor;
+
+    if (METRIC_UNITS.has(readable.unit)) {
+      const rounded = roundMetric(converted, readable.unit);
+      return buildScaled(name, rounded, String(rounded), readable.unit === definition.canonical ? unit : readable.unit, true);
+    }
+
+    const rounded = roundToFraction(converted);
+    // The recipe's own spelling ("Tbsp", "EL") as long as the unit stays the same
+    let displayUnit = readable.unit === definition.canonical ? unit : readable.unit;
+    if (PLURAL_UNITS.has(readable.unit)) displayUnit = rounded > 1 ? `${readable.unit}s` : readable.unit;
+    return buildScaled(name, rounded, formatFraction(rounded, fractions), displayUnit, true);
+  }
+
+  // Whole items and units like cans or cloves keep their unit
+  const rounded = roundToFraction(scaled);
+  const isSplit = Number.isInteger(amount) && !Number.isInteger(rounded);
+  const warning = isSplit
+    ? `Hard to split: use ${Math.floor(rounded) > 0 ? `${Math.floor(rounded)} or ${Math.ceil(rounded)}` : Math.ceil(rounded)}`
+    : undefined;
+  const displayName = definition.dimension === 'count' && !unit && rounded > 1 ? pluralizeName(name) : name;
+  return buildScaled(displayName, rounded, formatFraction(rounded, fractions), unit, true, warning);
+}
+
+/**
+ * Scales all ingredients of a recipe
+ * @see scaleIngredient
+ */
+export function scaleIngredients(ingredients: ScalableIngredient[], scale: number, options: ScaleOptions = {}): ScaledIngredient[] {
+  return ingredients.map(ingredient => scaleIngredient(ingredient, scale, options));
+}
+
+/**
+ * Writes an amount with its unit in the most readable way ("1 kg", "1½ cups")
+ * For lists that are already scaled, like grocery lists.
+ */
+export function formatIngredientAmount(amount: number | string | undefined, unit: string | undefined, options: ScaleOptions = {}): string {
+  const scaled = scaleIngredient({ amount, unit }, 1, options);
+  return scaled.amount === null ? '' : [scaled.amountText, scaled.unit].filter(Boolean).join(' ');
+}
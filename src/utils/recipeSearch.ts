@@ -0,0 +1,119 @@
+/**
+ * Recipe Search Utilities
+ *
+ * Shared by the recipe search index and the filters that show its facets:
+ * - Tokenizing recipe text and search queries the same way
+ * - The weight of each searched field
+ * - Diet names as the filters use them
+ * - Cooking time buckets
+ */
+
+export type RecipeSearchField = 'title' | 'ingredients' | 'cuisines' | 'tags' | 'summary';
+
+// How much a match in each field counts, relative to the summary
+export const RECIPE_SEARCH_FIELD_WEIGHTS: Record<RecipeSearchField, number> = {
+  title: 3,
+  ingredients: 2,
+  cuisines: 1.5,
+  tags: 1.5,
+  summary: 1,
+};
+
+export const RECIPE_SEARCH_FIELDS = Object.keys(RECIPE_SEARCH_FIELD_WEIGHTS) as RecipeSearchField[];
+
+export type RecipeTimeBucket = 'quick' | 'medium' | 'long';
+
+// Same limits as the difficulty filter: easy up to 15 minutes, hard from 35
+export const RECIPE_TIME_BUCKETS: { id: RecipeTimeBucket; label: string; maxMinutes?: number }[] = [
+  { id: 'quick', label: 'Up to 15 min', maxMinutes: 15 },
+  { id: 'medium', label: '16-34 min', maxMinutes: 34 },
+  { id: 'long', label: '35+ min' },
+];
+
+// Difficulty filters by cooking time, like the time buckets
+export const DIFFICULTY_TIME_BUCKETS: Record<string, RecipeTimeBucket> = {
+  easy: 'quick',
+  medium: 'medium',
+  hard: 'long',
+};
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface RecipeSearchFacets {
+  cuisines: FacetCount[];
+  diets: FacetCount[];
+  dishTypes: FacetCount[];
+  timeBuckets: FacetCount[]; // Values are RecipeTimeBucket ids
+}
+
+// Spoonacular diet names that the filters know under another name
+const DIET_ALIASES: Record<string, string> = {
+  'lacto ovo vegetarian': 'vegetarian',
+  'paleolithic': 'paleo',
+  'whole 30': 'whole30',
+};
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'as', 'at', 'by', 'for', 'from', 'in', 'into', 'is', 'it', 'of', 'on', 'or', 'the', 'this',
+  'to', 'with', 'your', 'you', 'are', 'be', 'will', 'that', 'can', 'has', 'have', 'per', 'serving', 'servings',
+  'recipe',
+]);
+
+/**
+ * Reduces a word to the form it is indexed under: plural endings are dropped,
+ * so "tomatoes" finds "tomato" and "berries" finds "berry"
+ */
+function stemToken(token: string): string {
+  if (token.length <= 3) return token;
+  if (token.endsWith('ies')) return `${token.slice(0, -3)}y`;
+  if (/(ches|shes|sses|xes|oes)$/.test(token)) return token.slice(0, -2);
+  if (token.endsWith('s') && !token.endsWith('ss') && !token.endsWith('us')) return token.slice(0, -1);
+  return token;
+}
+
+/**
+ * Splits text into search tokens: lowercase words without HTML, accents, stop words
+ * or plural endings
+ * @returns The tokens in order, repeated as often as they occur
+ */
+export function tokenizeSearchText(text: string | undefined | null): string[] {
+  if (!text) return [];
+  return text
+    .replace(/<[^>]*>/g, ' ')
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/ß/g, 'ss')
+    .split(/[^a-z0-9]+/)
+    .map(stemToken)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token));
+}
+
+/**
+ * Lowercases a diet and maps Spoonacular's names to the ones the filters use
+ */
+export function normalizeDietName(diet: string): string {
+  const name = diet.trim().toLowerCase().replace(/-/g, ' ');
+  return DIET_ALIASES[name] || name;
+}
+
+/**
+ * Finds the time bucket of a recipe
+ * @param minutes - Total time of the recipe; recipes without one count as quick, like the difficulty filter
+ */
+export function getTimeBucket(minutes: number | undefined): RecipeTimeBucket {
+  const bucket = RECIPE_TIME_BUCKETS.find(candidate => candidate.maxMinutes === undefined || (minutes || 0) <= candidate.maxMinutes);
+  return bucket?.id || 'long';
+}
+
+/**
+ * Looks up the count of one facet value
+ * @returns The count, or undefined when the facets are not loaded
+ */
+export function getFacetCount(counts: FacetCount[] | undefined, value: string): number | undefined {
+  if (!counts) return undefined;
+  return counts.find(count => count.value === value.toLowerCase())?.count || 0;
+}
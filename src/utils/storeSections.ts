@@ -0,0 +1,182 @@
+/**
+ * Store Sections
+ *
+ * Classifies grocery items into the sections of a typical supermarket so
+ * shopping lists can be walked through in store order. Spoonacular's `aisle`
+ * field is used when available; community recipes fall back to a local
+ * keyword classifier (English + German).
+ */
+
+export const STORE_SECTIONS = [
+  'Produce',
+  'Bakery',
+  'Meat & Fish',
+  'Dairy & Eggs',
+  'Frozen',
+  'Pantry',
+  'Spices & Seasonings',
+  'Beverages',
+  'Other',
+] as const;
+
+export type StoreSection = typeof STORE_SECTIONS[number];
+
+export const DEFAULT_SECTION_ORDER: StoreSection[] = [...STORE_SECTIONS];
+
+/**
+ * Spoonacular aisle names → store section (first match wins)
+ */
+const AISLE_RULES: Array<[RegExp, StoreSection]> = [
+  [/frozen/, 'Frozen'],
+  [/produce|dried fruits/, 'Produce'],
+  [/bakery|bread/, 'Bakery'],
+  [/meat|seafood|fish/, 'Meat & Fish'],
+  [/milk|eggs|dairy|cheese/, 'Dairy & Eggs'],
+  [/spices|seasonings/, 'Spices & Seasonings'],
+  [/beverages|coffee|tea|wine|beer|alcohol/, 'Beverages'],
+  [/baking|pasta|rice|canned|jarred|oil|vinegar|condiments|cereal|nut|snacks|ethnic|health|gourmet|gluten|honey|jams|sauce/, 'Pantry'],
+];
+
+/**
+ * Keywords per section; the longest matching keyword wins, so
+ * "tomato paste" (Pantry) beats "tomato" (Produce)
+ */
+const SECTION_KEYWORDS: Record<Exclude<StoreSection, 'Other'>, string[]> = {
+  'Produce': [
+    'onion', 'garlic', 'tomato', 'potato', 'sweet potato', 'carrot', 'lettuce', 'spinach', 'cucumber',
+    'bell pepper', 'red pepper', 'green pepper', 'jalapeno', 'chili', 'apple', 'banana', 'lemon', 'lime',
+    'orange', 'berry', 'berries', 'grape', 'mango', 'pineapple', 'peach', 'pear', 'kiwi', 'melon', 'avocado',
+    'parsley', 'cilantro', 'basil', 'mint', 'dill', 'chive', 'ginger', 'mushroom', 'zucchini', 'broccoli',
+    'cauliflower', 'cabbage', 'celery', 'kale', 'leek', 'shallot', 'scallion', 'green onion', 'squash',
+    'butternut squash', 'pumpkin', 'radish', 'beet', 'eggplant', 'asparagus', 'arugula', 'fennel', 'herbs',
+    'zwiebel', 'kartoffel', 'karotte', 'möhre', 'knoblauch', 'tomate', 'gurke', 'zitrone', 'apfel', 'pilz',
+  ],
+  'Bakery': [
+    'bread', 'baguette', 'bun', 'roll', 'tortilla', 'pita', 'croissant', 'bagel', 'naan', 'brioche',
+    'brot', 'brötchen',
+  ],
+  'Meat & Fish': [
+    'chicken', 'beef', 'pork', 'lamb', 'turkey', 'bacon', 'ham', 'sausage', 'salmon', 'tuna', 'shrimp',
+    'prawn', 'fish', 'cod', 'steak', 'mince', 'ground beef', 'duck', 'veal', 'anchovy', 'crab', 'lobster',
+    'mussel', 'chorizo', 'prosciutto', 'hähnchen', 'huhn', 'rind', 'schwein', 'hackfleisch', 'lachs',
+    'fisch', 'speck', 'wurst',
+  ],
+  'Dairy & Eggs': [
+    'milk', 'cheese', 'butter', 'cream', 'sour cream', 'yogurt', 'yoghurt', 'egg', 'buttermilk', 'mozzarella',
+    'parmesan', 'cheddar', 'feta', 'ricotta', 'mascarpone', 'quark', 'tofu', 'milch', 'käse', 'sahne',
+    'joghurt', 'eier',
+  ],
+  'Frozen': ['frozen', 'ice cream', 'tiefkühl'],
+  'Pantry': [
+    'flour', 'sugar', 'rice', 'pasta', 'noodle', 'spaghetti', 'penne', 'oil', 'olive oil', 'vinegar', 'sauce',
+    'soy sauce', 'broth', 'stock', 'canned', 'bean', 'lentil', 'chickpea', 'oat', 'cereal', 'honey', 'syrup',
+    'jam', 'peanut butter', 'nut', 'rolled oat', 'almond', 'walnut', 'cashew', 'baking powder', 'baking soda', 'yeast',
+    'cocoa', 'chocolate', 'mustard', 'ketchup', 'mayonnaise', 'tomato paste', 'tomato sauce', 'diced tomatoes',
+    'coconut milk', 'cornstarch', 'breadcrumbs', 'quinoa', 'couscous', 'mehl', 'zucker', 'reis', 'nudeln',
+    'öl', 'essig',
+  ],
+  'Spices & Seasonings': [
+    'salt', 'pepper', 'black pepper', 'peppercorn', 'red pepper flakes', 'cumin', 'paprika', 'cinnamon',
+    'nutmeg', 'oregano', 'thyme', 'rosemary', 'chili powder', 'curry', 'turmeric', 'clove', 'cardamom',
+    'bay leaf', 'seasoning', 'vanilla', 'allspice', 'cayenne', 'garlic powder', 'onion powder',
+    'ground ginger', 'salz', 'pfeffer', 'zimt',
+  ],
+  'Beverages': ['water', 'juice', 'wine', 'beer', 'coffee', 'tea', 'soda', 'wasser', 'saft', 'wein', 'bier', 'kaffee'],
+};
+
+/**
+ * Checks whether a keyword starts a word inside the given text
+ * (works with umlauts, which `\b` does not)
+ */
+function containsWord(text: string, keyword: string): boolean {
+  let index = text.indexOf(keyword);
+  while (index !== -1) {
+    if (index === 0 || /[^a-zäöüß]/.test(text[index - 1])) return true;
+    index = text.indexOf(keyword, index + 1);
+  }
+  return false;
+}
+
+/**
+ * Maps a Spoonacular aisle string (e.g. "Milk, Eggs, Other Dairy;Cheese") to a section
+ */
+function classifyByAisle(aisle?: string): StoreSection | null {
+  const primaryAisle = (aisle || '').split(';')[0].trim().toLowerCase();
+  if (!primaryAisle || primaryAisle === 'general' || primaryAisle === '?') return null;
+
+  const rule = AISLE_RULES.find(([pattern]) => pattern.test(primaryAisle));
+  return rule ? rule[1] : null;
+}
+
+/**
+ * Local keyword fallback for items without an aisle
+ */
+function classifyByKeywords(name: string): StoreSection {
+  const text = name.toLowerCase();
+  if (containsWord(text, 'frozen') || containsWord(text, 'tiefkühl')) return 'Frozen';
+
+  let bestSection: StoreSection = 'Other';
+  let bestLength = 0;
+
+  for (const [section, keywords] of Object.entries(SECTION_KEYWORDS)) {
+    for (const keyword of keywords) {
+      if (keyword.length > bestLength && containsWord(text, keyword)) {
+        bestSection = section as StoreSection;
+        bestLength = keyword.length;
+      }
+    }
+  }
+
+  return bestSection;
+}
+
+/**
+ * Classifies a grocery item into a store section
+ * @param name - Ingredient name
+ * @param aisle - Optional Spoonacular aisle (or stored category)
+ */
+export function classifyStoreSection(name: string, aisle?: string): StoreSection {
+  return classifyByAisle(aisle) || classifyByKeywords(name || '');
+}
+
+/**
+ * Checks whether a value is one of the known store sections
+ */
+export function isStoreSection(value: unknown): value is StoreSection {
+  return typeof value === 'string' && (STORE_SECTIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Cleans up a user-defined section order: drops unknown/duplicate
+ * entries and appends any missing sections in default order
+ */
+export function normalizeSectionOrder(order?: string[] | null): StoreSection[] {
+  const cleaned = Array.from(new Set((order || []).filter(isStoreSection)));
+  const missing = DEFAULT_SECTION_ORDER.filter(section => !cleaned.includes(section));
+  return [...cleaned, ...missing];
+}
+
+/**
+ * Groups items by store section in the given order, skipping empty sections.
+ * Each entry keeps the item's index in the original array so UIs can
+ * still address items (e.g. for toggling) after grouping.
+ *
+ * @param items - Grocery items (section is computed from the name when missing)
+ * @param order - User's preferred section order
+ */
+export function groupItemsBySection<T extends { name: string; section?: string; category?: string }>(
+  items: T[],
+  order?: string[] | null
+): Array<{ section: StoreSection; items: Array<{ item: T; index: number }> }> {
+  const groups = new Map<StoreSection, Array<{ item: T; index: number }>>();
+
+  items.forEach((item, index) => {
+    const section = isStoreSection(item.section) ? item.section : classifyStoreSection(item.name, item.category);
+    if (!groups.has(section)) groups.set(section, []);
+    groups.get(section)!.push({ item, index });
+  });
+
+  return normalizeSectionOrder(order)
+    .filter(section => groups.has(section))
+    .map(section => ({ section, items: groups.get(section)! }));
+}